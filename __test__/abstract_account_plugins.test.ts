@@ -1,10 +1,41 @@
 import { describe, test, beforeAll, beforeEach, expect } from '@jest/globals';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { readFileSync } from 'fs';
+import { secp256k1 } from '@noble/curves/secp256k1';
 import { algorandFixture } from '@algorandfoundation/algokit-utils/testing';
 import * as algokit from '@algorandfoundation/algokit-utils';
 import algosdk from 'algosdk';
-import { AbstractedAccountClient } from '../contracts/clients/AbstractedAccountClient';
+import { AbstractedAccountClient, AbstractedAccountComposer } from '../contracts/clients/AbstractedAccountClient';
 import { SubscriptionPluginClient } from '../contracts/clients/SubscriptionPluginClient';
 import { OptInPluginClient } from '../contracts/clients/OptInPluginClient';
+import { AccountFactoryClient } from '../contracts/clients/AccountFactoryClient';
+import { EscrowClient } from '../contracts/clients/EscrowClient';
+import * as boxKeys from '../contracts/helpers/boxes';
+import { getApprovalHash, getPinnedApprovalHash } from '../contracts/helpers/approval_hash';
+import { getSessionKeyCost, listSessionKeys, registerSessionKey } from '../contracts/helpers/session_keys';
+import { decodeEvents } from '../contracts/helpers/events';
+import { listPendingPlugins } from '../contracts/helpers/pending_plugins';
+import { composePluginChain } from '../contracts/helpers/plugin_chain';
+import { relayIntent, signIntent } from '../contracts/helpers/intents';
+import {
+  getPasskeyChallenge,
+  getPasskeyPublicKey,
+  parseAssertion,
+  parseClientDataJSON,
+  relayPasskeyIntent,
+} from '../contracts/helpers/passkey';
+import {
+  getEthereumAddress,
+  getIntentTypedData,
+  recoverEthereumAddress,
+  relayEthereumIntent,
+  signIntentTypedData,
+} from '../contracts/helpers/ethereum';
+import {
+  createAccountWithFactory,
+  getFactoryAccounts,
+  uploadAccountProgram,
+} from '../contracts/helpers/account_factory';
 
 const ZERO_ADDRESS = 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAY5HFKQ';
 const fixture = algorandFixture();
@@ -30,6 +61,43 @@ describe('Abstracted Subscription Program', () => {
   /** The maximum uint64 value. Used to indicate a never-expiring plugin */
   const maxUint64 = BigInt('18446744073709551615');
 
+  /** Create a new abstracted account app with aliceEOA as the admin and fund its MBR */
+  const createAbstractedAccount = async (fundingAmount: number, adminSigners: string[] = [], adminThreshold = 0) => {
+    const client = new AbstractedAccountClient(
+      {
+        sender: aliceEOA,
+        resolveBy: 'id',
+        id: 0,
+      },
+      fixture.context.algod
+    );
+
+    await client.create.createApplication({
+      controlledAddress: ZERO_ADDRESS,
+      admin: aliceEOA.addr,
+      adminSigners,
+      adminThreshold,
+    });
+    await client.appClient.fundAppAccount({ amount: algokit.microAlgos(fundingAmount) });
+
+    return client;
+  };
+
+  /**
+   * A payment from `from` to the app address of `client` covering the MBR of the boxes an app call creates.
+   * It has a random note, so payments of the same amount don't have the same transaction ID.
+   */
+  const makeMbrPayment = async (client: AbstractedAccountClient, amount: number, from = aliceEOA) => ({
+    transaction: algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      from: from.addr,
+      to: (await client.appClient.getAppReference()).appAddress,
+      amount,
+      note: new Uint8Array(randomBytes(8)),
+      suggestedParams,
+    }),
+    signer: from,
+  });
+
   beforeEach(fixture.beforeEach);
 
   beforeAll(async () => {
@@ -53,6 +121,9 @@ describe('Abstracted Subscription Program', () => {
       controlledAddress: ZERO_ADDRESS,
       // aliceEOA will be the admin
       admin: aliceEOA.addr,
+      // Don't use multisig admin approvals
+      adminSigners: [],
+      adminThreshold: 0,
     });
 
     aliceAbstractedAccount = (await abstractedAccountClient.appClient.getAppReference()).appAddress;
@@ -90,8 +161,56 @@ describe('Abstracted Subscription Program', () => {
     const joe = '46XYR7OTRZXISI2TRSBDWPUVQT4ECBWNI7TFWPPS6EKAPJ7W5OBXSNG66M';
     /** The box key for the subscription plugin */
     let pluginBox: Uint8Array;
+    /** The box key for the spending limits of the subscription plugin */
+    let spendingBox: Uint8Array;
     /** The boxes to pass to app calls */
     let boxes: Uint8Array[];
+    /** The selector of the only method the plugin is allowed to be called with */
+    const makePaymentSelector = algosdk.ABIMethod.fromSignature('makePayment(address,address)void').getSelector();
+
+    /**
+     * Have someone trigger the subscription payment through the abstracted account
+     *
+     * @param getAdminFirst Whether to call arc58_getAdmin between the rekey and the plugin call
+     */
+    const makePayment = async (getAdminFirst = false) => {
+      const { testAccount } = fixture.context;
+
+      // Get the call to the subscription plugin
+      const makePaymentTxn = (
+        await subPluginClient
+          .compose()
+          .makePayment(
+            // Send a payment from the abstracted account to Joe
+            { sender: aliceAbstractedAccount, _acctRef: joe },
+            // Double the fee to cover the inner txn fee
+            { sender: testAccount, sendParams: { fee: algokit.microAlgos(2_000) } }
+          )
+          .atc()
+      ).buildGroup()[0].txn;
+
+      // Compose the group needed to actually use the plugin
+      let composer: AbstractedAccountComposer<unknown[]> = abstractedAccountClient
+        .compose()
+        // Step one: rekey to the plugin
+        .arc58RekeyToPlugin(
+          { plugin: subPluginID },
+          {
+            sender: testAccount,
+            boxes,
+            sendParams: { fee: algokit.microAlgos(2_000) },
+            accounts: [aliceAbstractedAccount, joe],
+          }
+        );
+      if (getAdminFirst) composer = composer.arc58GetAdmin({});
+
+      await composer
+        // Step two: Call the plugin
+        .addTransaction({ transaction: makePaymentTxn, signer: testAccount })
+        // Step three: Call verify auth addr to rekey back to the abstracted account and check the spending limits
+        .arc58VerifyAuthAddr({}, { boxes: [spendingBox] })
+        .execute();
+    };
 
     beforeAll(() => {
       /** The box key for a plugin is `p + plugin ID + allowed caller`  */
@@ -102,71 +221,144 @@ describe('Abstracted Subscription Program', () => {
           algosdk.decodeAddress(ZERO_ADDRESS).publicKey,
         ])
       );
-      boxes = [pluginBox];
+      /** The box key for spending limits is `s + plugin ID + allowed caller`  */
+      spendingBox = new Uint8Array(
+        Buffer.concat([
+          Buffer.from('s'),
+          Buffer.from(algosdk.encodeUint64(subPluginID)),
+          algosdk.decodeAddress(ZERO_ADDRESS).publicKey,
+        ])
+      );
+      boxes = [pluginBox, spendingBox, boxKeys.feeBudgetBox(subPluginID)];
     });
 
+    /** Replace the permission of the subscription plugin with one that can only be called with the given methods */
+    const setAllowedMethods = async (methods: Uint8Array[]) =>
+      abstractedAccountClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods,
+          // The box keeps its size as long as there is one method
+          mbrPayment: await makeMbrPayment(abstractedAccountClient, 0),
+        },
+        { boxes }
+      );
+
     test('Alice adds the app to the abstracted account', async () => {
-      await abstractedAccountClient.appClient.fundAppAccount({ amount: algokit.microAlgos(22100) });
-      await abstractedAccountClient.arc58AddPlugin(
+      const result = await abstractedAccountClient.arc58AddPlugin(
         {
           // Add the subscription plugin
           app: subPluginID,
           // Set address to ZERO_ADDRESS so anyone can call it
           allowedCaller: ZERO_ADDRESS,
+          // Set start to 0 so the permission is active immediately
+          start: 0,
           // Set end to maxUint64 so it never expires
           end: maxUint64,
+          // Measure the permission window in timestamps
+          useRounds: false,
+          // Allow the plugin to be used at any time
+          cooldown: 0,
+          // Allow the plugin to be used any number of times
+          maxUses: 0,
+          // Only allow makePayment to be called
+          methods: [makePaymentSelector],
+          // Cover the MBR of the plugin box
+          mbrPayment: await makeMbrPayment(abstractedAccountClient, 70900),
         },
         { boxes }
       );
+
+      const [event] = decodeEvents(result.confirmation!.logs);
+      expect(event.name).toBe('pluginAdded');
+      expect(event.args.application).toBe(BigInt(subPluginID));
+      expect(event.args.allowedCaller).toBe(ZERO_ADDRESS);
     });
 
-    test('Someone calls the program to trigger payment', async () => {
-      const { algod, testAccount } = fixture.context;
+    test('Anyone can use the plugin', async () => {
+      const { testAccount } = fixture.context;
 
-      boxes = [
-        new Uint8Array(
-          Buffer.concat([
-            Buffer.from('p'),
-            Buffer.from(algosdk.encodeUint64(subPluginID)),
-            algosdk.decodeAddress(ZERO_ADDRESS).publicKey,
-          ])
-        ),
-      ];
+      const canCall = await abstractedAccountClient.arc58CanCallPlugin(
+        { app: subPluginID, caller: testAccount.addr },
+        { boxes }
+      );
+      expect(canCall.return).toBe(true);
+
+      const info = await abstractedAccountClient.arc58GetPluginInfo(
+        { app: subPluginID, allowedCaller: ZERO_ADDRESS },
+        { boxes }
+      );
+      expect(info.return![1]).toBe(maxUint64);
+      expect(info.return![14]).toEqual([makePaymentSelector]);
+    });
+
+    test('The plugin cannot be called with a method outside the allowlist', async () => {
+      await setAllowedMethods([algosdk.ABIMethod.fromSignature('cancelSubscription()void').getSelector()]);
+      await expect(makePayment()).rejects.toThrow();
+      await setAllowedMethods([makePaymentSelector]);
+    });
+
+    test('Calling the account in between does not skip the allowlist', async () => {
+      await setAllowedMethods([algosdk.ABIMethod.fromSignature('cancelSubscription()void').getSelector()]);
+      await expect(makePayment(true)).rejects.toThrow();
+      await setAllowedMethods([makePaymentSelector]);
+    });
+
+    test('The pinned approval program matches the audited build', async () => {
+      const teal = readFileSync(`${__dirname}/../contracts/artifacts/SubscriptionPlugin.approval.teal`, 'utf-8');
+
+      expect(await getPinnedApprovalHash(abstractedAccountClient, subPluginID, ZERO_ADDRESS)).toEqual(
+        await getApprovalHash(fixture.context.algod, teal)
+      );
+    });
+
+    test('Alice limits the plugin to spending 0.05 ALGO per day', async () => {
+      await abstractedAccountClient.arc58SetSpendingLimit(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          asset: 0,
+          amount: 50_000,
+          period: 86_400,
+          // Cover the MBR of the spending limits box with one limit
+          mbrPayment: await makeMbrPayment(abstractedAccountClient, 38900),
+        },
+        { boxes }
+      );
+    });
+
+    test('The plugin cannot spend more than its limit', async () => {
+      await expect(makePayment()).rejects.toThrow();
+    });
+
+    test('Alice raises the limit to 1 ALGO per day', async () => {
+      await abstractedAccountClient.arc58SetSpendingLimit(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          asset: 0,
+          amount: 1_000_000,
+          period: 86_400,
+          // The limit replaces the existing one, so the box doesn't grow
+          mbrPayment: await makeMbrPayment(abstractedAccountClient, 0),
+        },
+        { boxes }
+      );
+    });
+
+    test('Someone calls the program to trigger payment', async () => {
+      const { algod } = fixture.context;
 
       const alicePreBalance = await algod.accountInformation(aliceAbstractedAccount).do();
       const joePreBalance = await algod.accountInformation(joe).do();
 
-      // Get the call to the subscription plugin
-      const makePaymentTxn = (
-        await subPluginClient
-          .compose()
-          .makePayment(
-            // Send a payment from the abstracted account to Joe
-            { sender: aliceAbstractedAccount, _acctRef: joe },
-            // Double the fee to cover the inner txn fee
-            { sender: testAccount, sendParams: { fee: algokit.microAlgos(2_000) } }
-          )
-          .atc()
-      ).buildGroup()[0].txn;
-
-      // Compose the group needed to actually use the plugin
-      await abstractedAccountClient
-        .compose()
-        // Step one: rekey to the plugin
-        .arc58RekeyToPlugin(
-          { plugin: subPluginID },
-          {
-            sender: testAccount,
-            boxes,
-            sendParams: { fee: algokit.microAlgos(2_000) },
-            accounts: [aliceAbstractedAccount, joe],
-          }
-        )
-        // Step two: Call the plugin
-        .addTransaction({ transaction: makePaymentTxn, signer: testAccount })
-        // Step three: Call verify auth addr to rekey back to the abstracted account
-        .arc58VerifyAuthAddr({})
-        .execute();
+      await makePayment();
 
       // Verify the payment was made
       const alicePostBalance = await algod.accountInformation(aliceAbstractedAccount).do();
@@ -184,6 +376,8 @@ describe('Abstracted Subscription Program', () => {
 
     let pluginBox: Uint8Array;
 
+    let spendingBox: Uint8Array;
+
     const boxes: Uint8Array[] = [nameBox];
 
     beforeAll(async () => {
@@ -209,15 +403,33 @@ describe('Abstracted Subscription Program', () => {
         ])
       );
 
-      boxes.push(pluginBox);
+      spendingBox = new Uint8Array(
+        Buffer.concat([
+          Buffer.from('s'),
+          Buffer.from(algosdk.encodeUint64(optInPluginID)),
+          algosdk.decodeAddress(ZERO_ADDRESS).publicKey,
+        ])
+      );
+
+      boxes.push(pluginBox, spendingBox, boxKeys.feeBudgetBox(optInPluginID));
     });
 
     test('Alice adds the app to the abstracted account', async () => {
-      await abstractedAccountClient.appClient.fundAppAccount({ amount: algokit.microAlgos(43000) });
-
       // Add opt-in plugin
       await abstractedAccountClient.arc58AddNamedPlugin(
-        { name: 'optIn', app: optInPluginID, allowedCaller: ZERO_ADDRESS, end: maxUint64 },
+        {
+          name: 'optIn',
+          app: optInPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          // Cover the MBR of the name box and the plugin box
+          mbrPayment: await makeMbrPayment(abstractedAccountClient, 87000),
+        },
         { boxes }
       );
     });
@@ -266,5 +478,1404 @@ describe('Abstracted Subscription Program', () => {
         .arc58VerifyAuthAddr({})
         .execute();
     });
+
+    test('Alice also approves the plugin without a name', async () => {
+      await abstractedAccountClient.arc58AddPlugin(
+        {
+          app: optInPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          // The plugin box already exists, so no MBR is added
+          mbrPayment: await makeMbrPayment(abstractedAccountClient, 0),
+        },
+        { boxes }
+      );
+    });
+
+    test('Alice renames the plugin', async () => {
+      const newNameBox = new Uint8Array(Buffer.concat([Buffer.from('n'), Buffer.from('assetOptIn')]));
+
+      await abstractedAccountClient.arc58RenameNamedPlugin(
+        {
+          name: 'optIn',
+          newName: 'assetOptIn',
+          // Cover the MBR of the 5 extra bytes in the name
+          mbrPayment: await makeMbrPayment(abstractedAccountClient, 2000),
+        },
+        { boxes: [...boxes, newNameBox] }
+      );
+
+      const named = await abstractedAccountClient.arc58GetNamedPlugin(
+        { name: 'assetOptIn' },
+        { boxes: [newNameBox, pluginBox] }
+      );
+      expect(named.return![0][0]).toBe(BigInt(optInPluginID));
+
+      boxes.push(newNameBox);
+    });
+
+    test('Removing the name keeps the permission that was added without one', async () => {
+      await abstractedAccountClient.arc58RemoveNamedPlugin(
+        { name: 'assetOptIn', mbrReceiver: aliceEOA.addr },
+        { boxes, sendParams: { fee: algokit.microAlgos(2000) } }
+      );
+
+      const canCall = await abstractedAccountClient.arc58CanCallPlugin(
+        { app: optInPluginID, caller: bob.addr },
+        { boxes }
+      );
+      expect(canCall.return).toBe(true);
+    });
+
+    test('Bob opts into another asset and triggers the subscription in one group', async () => {
+      const { algod } = fixture.context;
+      const joe = '46XYR7OTRZXISI2TRSBDWPUVQT4ECBWNI7TFWPPS6EKAPJ7W5OBXSNG66M';
+
+      const assetCreateTxn = algosdk.makeAssetCreateTxnWithSuggestedParamsFromObject({
+        from: bob.addr,
+        total: 1,
+        decimals: 0,
+        defaultFrozen: false,
+        suggestedParams,
+      });
+      const txn = await algokit.sendTransaction({ transaction: assetCreateTxn, from: bob }, algod);
+      const secondAsset = Number(txn.confirmation!.assetIndex!);
+
+      const mbrPayment = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        from: bob.addr,
+        to: aliceAbstractedAccount,
+        amount: 200_000,
+        suggestedParams,
+      });
+      const optInGroup = (
+        await optInPluginClient
+          .compose()
+          .optInToAsset(
+            { sender: aliceAbstractedAccount, asset: secondAsset, mbrPayment },
+            { sender: bob, sendParams: { fee: algokit.microAlgos(2000) } }
+          )
+          .atc()
+      ).buildGroup();
+
+      const makePaymentGroup = (
+        await subPluginClient
+          .compose()
+          .makePayment(
+            { sender: aliceAbstractedAccount, _acctRef: joe },
+            { sender: bob, sendParams: { fee: algokit.microAlgos(2_000) } }
+          )
+          .atc()
+      ).buildGroup();
+
+      await composePluginChain(abstractedAccountClient, bob, [
+        { plugin: optInPluginID, transactions: optInGroup, assets: [secondAsset] },
+        { plugin: subPluginID, transactions: makePaymentGroup, accounts: [aliceAbstractedAccount, joe] },
+      ]).execute();
+
+      const info = await algod.accountAssetInformation(aliceAbstractedAccount, secondAsset).do();
+      expect(info['asset-holding'].amount).toBe(0);
+    });
+  });
+
+  describe('Permission Limits', () => {
+    /** The client for an abstracted account whose plugin can only be used within limits */
+    let limitedClient: AbstractedAccountClient;
+    /** The address of the abstracted account */
+    let limitedAddress: string;
+    /** A bot that uses the opt-in plugin */
+    let keeper: algosdk.Account;
+    /** The asset the plugin opts the account into */
+    let asset: number;
+    /** The boxes to pass to app calls that use the opt-in plugin permission */
+    let boxes: Uint8Array[];
+    /** The box key of the name of the permission measured in rounds */
+    const roundsNameBox = new Uint8Array(Buffer.concat([Buffer.from('n'), Buffer.from('rounds')]));
+
+    /**
+     * Have the keeper opt the account into the asset again, which only succeeds if the plugin can be used
+     *
+     * @param name The name to rekey to the plugin by, rather than its app ID
+     */
+    const useOptInPlugin = async (name?: string) => {
+      const mbrPayment = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        from: keeper.addr,
+        to: limitedAddress,
+        amount: 100_000,
+        suggestedParams,
+      });
+      const optInGroup = (
+        await optInPluginClient
+          .compose()
+          .optInToAsset(
+            { sender: limitedAddress, asset, mbrPayment },
+            { sender: keeper, sendParams: { fee: algokit.microAlgos(2000) } }
+          )
+          .atc()
+      ).buildGroup();
+      optInGroup.forEach(({ txn }) => {
+        // eslint-disable-next-line no-param-reassign
+        txn.group = undefined;
+      });
+
+      const rekeyParams = {
+        sender: keeper,
+        boxes: name ? [...boxes, new Uint8Array(Buffer.concat([Buffer.from('n'), Buffer.from(name)]))] : boxes,
+        sendParams: { fee: algokit.microAlgos(2000) },
+        assets: [asset],
+      };
+      const composer: AbstractedAccountComposer<unknown[]> = name
+        ? limitedClient.compose().arc58RekeyToNamedPlugin({ name }, rekeyParams)
+        : limitedClient.compose().arc58RekeyToPlugin({ plugin: optInPluginID }, rekeyParams);
+
+      await composer
+        .addTransaction({ transaction: optInGroup[0].txn, signer: keeper })
+        .addTransaction({ transaction: optInGroup[1].txn, signer: keeper })
+        .arc58VerifyAuthAddr({}, { sender: keeper })
+        .execute();
+    };
+
+    /** Approve the opt-in plugin for anyone on the given terms, replacing the permission if it exists */
+    const addOptInPlugin = async (terms: { start?: number; cooldown?: number; maxUses?: number }, mbr: number) =>
+      limitedClient.arc58AddPlugin(
+        {
+          app: optInPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: terms.start ?? 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: terms.cooldown ?? 0,
+          maxUses: terms.maxUses ?? 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(limitedClient, mbr),
+        },
+        { boxes }
+      );
+
+    /** Name the opt-in plugin permission and measure it in rounds, from `start` until 1000 rounds after it */
+    const addRoundsPlugin = async (start: number, mbr: number) =>
+      limitedClient.arc58AddNamedPlugin(
+        {
+          name: 'rounds',
+          app: optInPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start,
+          end: start + 1000,
+          useRounds: true,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(limitedClient, mbr),
+        },
+        { boxes: [...boxes, roundsNameBox] }
+      );
+
+    /** Get the last round */
+    const getRound = async () => Number((await fixture.context.algod.status().do())['last-round']);
+
+    beforeAll(async () => {
+      const { algod } = fixture.context;
+      keeper = await fixture.context.generateAccount({ initialFunds: algokit.algos(2) });
+      limitedClient = await createAbstractedAccount(100_000);
+      limitedAddress = (await limitedClient.appClient.getAppReference()).appAddress;
+      boxes = [
+        boxKeys.pluginBox(optInPluginID, ZERO_ADDRESS),
+        boxKeys.spendingLimitsBox(optInPluginID, ZERO_ADDRESS),
+        boxKeys.feeBudgetBox(optInPluginID),
+      ];
+
+      const assetCreateTxn = algosdk.makeAssetCreateTxnWithSuggestedParamsFromObject({
+        from: keeper.addr,
+        total: 1,
+        decimals: 0,
+        defaultFrozen: false,
+        suggestedParams,
+      });
+      const txn = await algokit.sendTransaction({ transaction: assetCreateTxn, from: keeper }, algod);
+      asset = Number(txn.confirmation!.assetIndex!);
+    });
+
+    test('Alice lets the plugin be used once an hour', async () => {
+      await addOptInPlugin({ cooldown: 3600 }, 69300);
+      await useOptInPlugin();
+    });
+
+    test('The plugin cannot be used again within the cooldown', async () => {
+      await expect(useOptInPlugin()).rejects.toThrow();
+    });
+
+    test('Alice replaces the permission with one that can be used twice', async () => {
+      await addOptInPlugin({ maxUses: 2 }, 0);
+      await useOptInPlugin();
+      await useOptInPlugin();
+    });
+
+    test('The plugin cannot be used a third time', async () => {
+      await expect(useOptInPlugin()).rejects.toThrow();
+    });
+
+    test('A permission cannot be used before it starts', async () => {
+      await addOptInPlugin({ start: Math.floor(Date.now() / 1000) + 3600 }, 0);
+      await expect(useOptInPlugin()).rejects.toThrow();
+    });
+
+    test('Alice names a permission that is measured in rounds', async () => {
+      // Cover the MBR of the name box, the plugin box already exists
+      await addRoundsPlugin(await getRound(), 21300);
+      await useOptInPlugin('rounds');
+    });
+
+    test('A permission measured in rounds cannot be used before its start round', async () => {
+      await limitedClient.arc58RemoveNamedPlugin(
+        { name: 'rounds', mbrReceiver: aliceEOA.addr },
+        {
+          boxes: [...boxes, roundsNameBox],
+          sendParams: { fee: algokit.microAlgos(2000) },
+        }
+      );
+      await addRoundsPlugin((await getRound()) + 1000, 21300);
+      await expect(useOptInPlugin('rounds')).rejects.toThrow();
+    });
+  });
+
+  describe('Caller Sets', () => {
+    /** The client for an abstracted account shared by a team */
+    let teamClient: AbstractedAccountClient;
+    /** A member of the ops team */
+    let teamMember: algosdk.Account;
+
+    /** The address the subscription payments go to */
+    const joe = '46XYR7OTRZXISI2TRSBDWPUVQT4ECBWNI7TFWPPS6EKAPJ7W5OBXSNG66M';
+    /** The address of the ops caller set, which the subscription plugin is granted to */
+    const opsSet = boxKeys.callerSetAddress('ops');
+
+    /** Have `caller` trigger the subscription payment as a member of the ops caller set */
+    const makePayment = async (caller: algosdk.Account) => {
+      const teamAddress = (await teamClient.appClient.getAppReference()).appAddress;
+
+      const makePaymentTxn = (
+        await subPluginClient
+          .compose()
+          .makePayment(
+            { sender: teamAddress, _acctRef: joe },
+            { sender: caller, sendParams: { fee: algokit.microAlgos(2_000) } }
+          )
+          .atc()
+      ).buildGroup()[0].txn;
+
+      await teamClient
+        .compose()
+        .arc58RekeyToPluginAsSetMember(
+          { plugin: subPluginID, callerSet: 'ops' },
+          {
+            sender: caller,
+            boxes: [
+              boxKeys.pluginBox(subPluginID, opsSet),
+              boxKeys.spendingLimitsBox(subPluginID, opsSet),
+              boxKeys.callerSetMemberBox('ops', caller.addr),
+              boxKeys.feeBudgetBox(subPluginID),
+            ],
+            sendParams: { fee: algokit.microAlgos(2_000) },
+            accounts: [teamAddress, joe],
+          }
+        )
+        .addTransaction({ transaction: makePaymentTxn, signer: caller })
+        .arc58VerifyAuthAddr({}, { sender: caller })
+        .execute();
+    };
+
+    beforeAll(async () => {
+      teamMember = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+
+      // Fund the account to cover the MBR of the app account and a subscription payment
+      teamClient = await createAbstractedAccount(100_000 + 100_000);
+    });
+
+    test('Alice grants the subscription plugin to the ops team', async () => {
+      await teamClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: opsSet,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(teamClient, 69300),
+        },
+        { boxes: [boxKeys.pluginBox(subPluginID, opsSet)] }
+      );
+
+      await teamClient.arc58AddCallerSetMember(
+        { callerSet: 'ops', member: teamMember.addr, mbrPayment: await makeMbrPayment(teamClient, 31700) },
+        { boxes: [boxKeys.callerSetMemberBox('ops', teamMember.addr)] }
+      );
+    });
+
+    test('Someone outside the team cannot use the plugin', async () => {
+      await expect(makePayment(fixture.context.testAccount)).rejects.toThrow();
+    });
+
+    test('A team member uses the plugin', async () => {
+      await makePayment(teamMember);
+    });
+  });
+
+  describe('Token Gating', () => {
+    /** The client for a DAO treasury account */
+    let treasuryClient: AbstractedAccountClient;
+    /** The DAO membership token */
+    let daoToken: number;
+    /** An account that doesn't hold the DAO token */
+    let outsider: algosdk.Account;
+
+    /** Check whether `caller` can currently use the subscription plugin */
+    const canCallPlugin = async (caller: string) =>
+      (
+        await treasuryClient.arc58CanCallPlugin(
+          { app: subPluginID, caller },
+          {
+            boxes: [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS), boxKeys.pluginBox(subPluginID, caller)],
+            assets: [daoToken],
+            accounts: [caller],
+          }
+        )
+      ).return;
+
+    beforeAll(async () => {
+      const { algod, generateAccount } = fixture.context;
+      outsider = await generateAccount({ initialFunds: algokit.algos(1) });
+
+      // Alice holds the entire supply of the DAO token
+      const assetCreateTxn = algosdk.makeAssetCreateTxnWithSuggestedParamsFromObject({
+        from: aliceEOA.addr,
+        total: 100,
+        decimals: 0,
+        defaultFrozen: false,
+        suggestedParams,
+      });
+      const txn = await algokit.sendTransaction({ transaction: assetCreateTxn, from: aliceEOA }, algod);
+      daoToken = Number(txn.confirmation!.assetIndex!);
+
+      treasuryClient = await createAbstractedAccount(100_000);
+      await treasuryClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(treasuryClient, 69300),
+        },
+        { boxes: [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS)] }
+      );
+    });
+
+    test('Alice only lets DAO token holders use the plugin', async () => {
+      await treasuryClient.arc58SetPluginGate(
+        { app: subPluginID, allowedCaller: ZERO_ADDRESS, asset: daoToken, amount: 1 },
+        { boxes: [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS)] }
+      );
+
+      expect(await canCallPlugin(aliceEOA.addr)).toBe(true);
+      expect(await canCallPlugin(outsider.addr)).toBe(false);
+    });
+  });
+
+  describe('App Callers', () => {
+    /** The client for an abstracted account driven by an escrow app */
+    let escrowedClient: AbstractedAccountClient;
+    /** The client for the escrow app that triggers the subscription payments */
+    let escrowClient: EscrowClient;
+    /** The address of the escrow app */
+    let escrowAddress: string;
+
+    /** The address the subscription payments go to */
+    const joe = '46XYR7OTRZXISI2TRSBDWPUVQT4ECBWNI7TFWPPS6EKAPJ7W5OBXSNG66M';
+
+    /** Check whether `caller` can currently use the subscription plugin */
+    const canCallPlugin = async (caller: string) =>
+      (
+        await escrowedClient.arc58CanCallPlugin(
+          { app: subPluginID, caller },
+          { boxes: [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS), boxKeys.pluginBox(subPluginID, caller)] }
+        )
+      ).return;
+
+    beforeAll(async () => {
+      escrowClient = new EscrowClient({ sender: aliceEOA, resolveBy: 'id', id: 0 }, fixture.context.algod);
+      await escrowClient.create.createApplication({});
+      escrowAddress = (await escrowClient.appClient.getAppReference()).appAddress;
+
+      // Fund the account to cover the MBR of the app account and a subscription payment
+      escrowedClient = await createAbstractedAccount(100_000 + 100_000);
+    });
+
+    test('Alice grants the subscription plugin to the escrow app', async () => {
+      await escrowedClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: escrowAddress,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(escrowedClient, 69300),
+        },
+        { boxes: [boxKeys.pluginBox(subPluginID, escrowAddress)] }
+      );
+
+      expect(await canCallPlugin(escrowAddress)).toBe(true);
+      expect(await canCallPlugin(aliceEOA.addr)).toBe(false);
+    });
+
+    test('The escrow app uses the subscription plugin in a group of inner transactions', async () => {
+      const { algod } = fixture.context;
+      const { appId, appAddress } = await escrowedClient.appClient.getAppReference();
+      const joePreBalance = (await algod.accountInformation(joe).do()).amount;
+
+      await escrowClient.triggerSubscription(
+        { account: appId, plugin: subPluginID, receiver: joe },
+        {
+          apps: [Number(appId), subPluginID],
+          accounts: [appAddress, joe],
+          // The boxes of the abstracted account are shared with the inner calls to it
+          boxes: [
+            boxKeys.pluginBox(subPluginID, ZERO_ADDRESS),
+            boxKeys.pluginBox(subPluginID, escrowAddress),
+            boxKeys.spendingLimitsBox(subPluginID, escrowAddress),
+            boxKeys.feeBudgetBox(subPluginID),
+          ].map((name) => ({ appId, name })),
+          // Covers this call, the rekey and its inner payment, the plugin call and its inner payment, and the verify call
+          sendParams: { fee: algokit.microAlgos(6_000) },
+        }
+      );
+
+      expect((await algod.accountInformation(joe).do()).amount).toBe(joePreBalance + 100_000);
+    });
+  });
+
+  describe('Fee Sponsorship', () => {
+    /** The client for an abstracted account that pays for its own subscription */
+    let sponsorClient: AbstractedAccountClient;
+    /** A bot that triggers the subscription payments */
+    let keeper: algosdk.Account;
+
+    /** The address the subscription payments go to */
+    const joe = '46XYR7OTRZXISI2TRSBDWPUVQT4ECBWNI7TFWPPS6EKAPJ7W5OBXSNG66M';
+
+    beforeAll(async () => {
+      keeper = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+
+      // Fund the account to cover the MBR of the app account, a subscription payment and the fee budget
+      sponsorClient = await createAbstractedAccount(100_000 + 100_000 + 10_000);
+      await sponsorClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(sponsorClient, 69300),
+        },
+        { boxes: [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS)] }
+      );
+    });
+
+    test('Alice sponsors up to 0.01 ALGO of fees for the subscription plugin', async () => {
+      await sponsorClient.arc58SetFeeBudget(
+        {
+          plugin: subPluginID,
+          budget: 10_000,
+          maxFee: 3_000,
+          mbrPayment: await makeMbrPayment(sponsorClient, 12500),
+        },
+        { boxes: [boxKeys.feeBudgetBox(subPluginID)] }
+      );
+    });
+
+    test('The keeper is reimbursed the fees of triggering the subscription', async () => {
+      const { algod } = fixture.context;
+      const sponsorAddress = (await sponsorClient.appClient.getAppReference()).appAddress;
+      const keeperPreBalance = (await algod.accountInformation(keeper.addr).do()).amount;
+
+      const makePaymentTxn = (
+        await subPluginClient
+          .compose()
+          .makePayment(
+            { sender: sponsorAddress, _acctRef: joe },
+            { sender: keeper, sendParams: { fee: algokit.microAlgos(2_000) } }
+          )
+          .atc()
+      ).buildGroup()[0].txn;
+
+      await sponsorClient
+        .compose()
+        // The rekey call also covers the fee of the verify call
+        .arc58RekeyToPlugin(
+          { plugin: subPluginID },
+          {
+            sender: keeper,
+            boxes: [
+              boxKeys.pluginBox(subPluginID, ZERO_ADDRESS),
+              boxKeys.spendingLimitsBox(subPluginID, ZERO_ADDRESS),
+              boxKeys.feeBudgetBox(subPluginID),
+            ],
+            sendParams: { fee: algokit.microAlgos(2_000) },
+            accounts: [sponsorAddress, joe],
+          }
+        )
+        .addTransaction({ transaction: makePaymentTxn, signer: keeper })
+        .arc58VerifyAuthAddr({}, { sender: keeper, sendParams: { fee: algokit.microAlgos(0) } })
+        .execute();
+
+      // The fee the plugin call pays for its inner payment is within the maximum fee, so it is reimbursed too
+      expect((await algod.accountInformation(keeper.addr).do()).amount).toBe(keeperPreBalance);
+    });
+  });
+
+  describe('Social Recovery', () => {
+    /** The client for an abstracted account that Alice will lose the admin key for */
+    let recoverableClient: AbstractedAccountClient;
+    /** The guardians that can recover the account */
+    let guardians: algosdk.Account[];
+    /** The key Alice will use after recovering her account */
+    let aliceNewEOA: algosdk.Account;
+
+    /** The box key for a guardian is `g + guardian address` */
+    const guardianBox = (guardian: algosdk.Account) =>
+      new Uint8Array(Buffer.concat([Buffer.from('g'), algosdk.decodeAddress(guardian.addr).publicKey]));
+
+    beforeAll(async () => {
+      const { generateAccount } = fixture.context;
+
+      guardians = [
+        await generateAccount({ initialFunds: algokit.algos(1) }),
+        await generateAccount({ initialFunds: algokit.algos(1) }),
+        await generateAccount({ initialFunds: algokit.algos(1) }),
+      ];
+      aliceNewEOA = await generateAccount({ initialFunds: algokit.algos(1) });
+
+      recoverableClient = await createAbstractedAccount(100_000);
+    });
+
+    test('Alice requires two of three guardians to recover her account', async () => {
+      await Promise.all(
+        guardians.map(async (guardian) =>
+          recoverableClient.arc58AddGuardian(
+            { guardian: guardian.addr, mbrPayment: await makeMbrPayment(recoverableClient, 18900) },
+            { boxes: [guardianBox(guardian)] }
+          )
+        )
+      );
+
+      // Proposals can be replaced as soon as they are made if they don't have enough approvals
+      await recoverableClient.arc58SetRecoveryConfig({ threshold: 2, delay: 0, proposalLifetime: 0 });
+    });
+
+    test('A single guardian cannot recover the account', async () => {
+      await recoverableClient.arc58ProposeRecovery(
+        { newAdmin: guardians[0].addr },
+        { sender: guardians[0], boxes: [guardianBox(guardians[0])] }
+      );
+
+      await expect(recoverableClient.arc58FinalizeRecovery({})).rejects.toThrow();
+    });
+
+    test('A guardian that revokes their approval stops the recovery from being finalized', async () => {
+      await recoverableClient.arc58ApproveRecovery({}, { sender: guardians[1], boxes: [guardianBox(guardians[1])] });
+      await recoverableClient.arc58RevokeRecoveryApproval(
+        {},
+        { sender: guardians[1], boxes: [guardianBox(guardians[1])] }
+      );
+
+      await expect(recoverableClient.arc58FinalizeRecovery({})).rejects.toThrow();
+    });
+
+    test('Another guardian replaces the proposal that did not get enough approvals', async () => {
+      await recoverableClient.arc58ProposeRecovery(
+        { newAdmin: aliceNewEOA.addr },
+        { sender: guardians[1], boxes: [guardianBox(guardians[1])] }
+      );
+
+      const state = await recoverableClient.getGlobalState();
+      expect(state.rn!.asNumber()).toBe(2);
+    });
+
+    test('Removing a guardian that approved the recovery stops it from being finalized', async () => {
+      await recoverableClient.arc58ApproveRecovery({}, { sender: guardians[0], boxes: [guardianBox(guardians[0])] });
+      await recoverableClient.arc58RemoveGuardian(
+        { guardian: guardians[0].addr, mbrReceiver: aliceEOA.addr },
+        { boxes: [guardianBox(guardians[0])], sendParams: { fee: algokit.microAlgos(2000) } }
+      );
+
+      await expect(recoverableClient.arc58FinalizeRecovery({})).rejects.toThrow();
+    });
+
+    test('The account is recovered once a second guardian approves', async () => {
+      await recoverableClient.arc58ApproveRecovery({}, { sender: guardians[2], boxes: [guardianBox(guardians[2])] });
+      await recoverableClient.arc58FinalizeRecovery({});
+
+      const admin = await recoverableClient.arc58GetAdmin({});
+      expect(admin.return).toBe(aliceNewEOA.addr);
+    });
+  });
+
+  describe('Admin Transfer', () => {
+    /** The client for an abstracted account whose admin Alice will transfer */
+    let transferClient: AbstractedAccountClient;
+    /** The key Alice wants to transfer the admin to */
+    let aliceNewEOA: algosdk.Account;
+
+    beforeAll(async () => {
+      aliceNewEOA = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+      transferClient = await createAbstractedAccount(100_000);
+    });
+
+    test('Alice starts transferring the admin to her new key', async () => {
+      await transferClient.arc58ChangeAdmin({ newAdmin: aliceNewEOA.addr, delay: 0 });
+
+      // The admin does not change until the new key accepts
+      const admin = await transferClient.arc58GetAdmin({});
+      expect(admin.return).toBe(aliceEOA.addr);
+    });
+
+    test('Only the pending admin can accept', async () => {
+      await expect(transferClient.arc58AcceptAdmin({})).rejects.toThrow();
+    });
+
+    test("Alice's new key accepts the transfer", async () => {
+      await transferClient.arc58AcceptAdmin({}, { sender: aliceNewEOA });
+
+      const admin = await transferClient.arc58GetAdmin({});
+      expect(admin.return).toBe(aliceNewEOA.addr);
+    });
+  });
+
+  describe('Multisig Admin', () => {
+    /** The client for an abstracted account administered by two of three signers */
+    let multisigClient: AbstractedAccountClient;
+    /** The signers that approve admin operations */
+    let signers: algosdk.Account[];
+
+    /** The box key for a signer is `m + signer address` */
+    const signerBox = (signer: algosdk.Account) =>
+      new Uint8Array(Buffer.concat([Buffer.from('m'), algosdk.decodeAddress(signer.addr).publicKey]));
+
+    /** The application args of the admin operation the signers approve */
+    const setRecoveryConfigArgs = Buffer.concat([
+      algosdk.ABIMethod.fromSignature('arc58_setRecoveryConfig(uint64,uint64,uint64)void').getSelector(),
+      algosdk.encodeUint64(0),
+      algosdk.encodeUint64(86_400),
+      algosdk.encodeUint64(0),
+    ]);
+    /** The hash signers approve is the sha256 of the concatenated application args */
+    const operationHash = new Uint8Array(createHash('sha256').update(setRecoveryConfigArgs).digest());
+    /** The box key for approvals is `h + operation hash` */
+    const approvalsBox = new Uint8Array(Buffer.concat([Buffer.from('h'), operationHash]));
+
+    beforeAll(async () => {
+      const { generateAccount } = fixture.context;
+
+      signers = [
+        await generateAccount({ initialFunds: algokit.algos(1) }),
+        await generateAccount({ initialFunds: algokit.algos(1) }),
+        await generateAccount({ initialFunds: algokit.algos(1) }),
+      ];
+
+      multisigClient = await createAbstractedAccount(
+        100_000,
+        signers.map((signer) => signer.addr),
+        2
+      );
+
+      await multisigClient.arc58InitAdminSigners(
+        {
+          adminSigners: signers.map((signer) => signer.addr),
+          // Cover the MBR of the three signer boxes
+          mbrPayment: await makeMbrPayment(multisigClient, 3 * 18900),
+        },
+        { boxes: signers.map(signerBox) }
+      );
+    });
+
+    test('A signer cannot be given more than once', async () => {
+      await expect(createAbstractedAccount(100_000, [signers[0].addr, signers[0].addr], 2)).rejects.toThrow();
+    });
+
+    test('The admin address cannot perform admin operations', async () => {
+      // The approvals box is referenced, so the call is rejected because it has no approvals
+      await expect(
+        multisigClient.arc58SetRecoveryConfig(
+          { threshold: 0, delay: 86_400, proposalLifetime: 0 },
+          { boxes: [approvalsBox] }
+        )
+      ).rejects.toThrow();
+    });
+
+    test('Two signers approve changing the recovery config', async () => {
+      // The first approval creates the approvals box and each later one adds an address to it
+      await multisigClient.arc58ApproveOperation(
+        {
+          hash: operationHash,
+          mbrPayment: await makeMbrPayment(multisigClient, 2500 + 400 * (33 + 2 + 32), signers[0]),
+        },
+        { sender: signers[0], boxes: [signerBox(signers[0]), approvalsBox] }
+      );
+      await multisigClient.arc58ApproveOperation(
+        { hash: operationHash, mbrPayment: await makeMbrPayment(multisigClient, 400 * 32, signers[1]) },
+        { sender: signers[1], boxes: [signerBox(signers[1]), approvalsBox] }
+      );
+    });
+
+    test('Anyone can execute the approved operation', async () => {
+      await multisigClient.arc58SetRecoveryConfig(
+        { threshold: 0, delay: 86_400, proposalLifetime: 0 },
+        { sender: fixture.context.testAccount, boxes: [approvalsBox] }
+      );
+
+      const state = await multisigClient.getGlobalState();
+      expect(state.rd!.asNumber()).toBe(86_400);
+    });
+  });
+
+  describe('Relayed Intents', () => {
+    /** The client for an abstracted account whose admin key holds no ALGO */
+    let relayedClient: AbstractedAccountClient;
+    /** A service that submits admin operations signed by Alice */
+    let relayer: algosdk.Account;
+    /** The admin operation Alice signs */
+    let operation: algosdk.Transaction;
+    /** Alice's signed intent */
+    let intent: Awaited<ReturnType<typeof signIntent>>;
+
+    beforeAll(async () => {
+      relayer = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+      relayedClient = await createAbstractedAccount(100_000);
+
+      operation = (
+        await relayedClient.compose().arc58SetPluginDelay({ delay: 3600 }, { sender: relayer }).atc()
+      ).buildGroup()[0].txn;
+    });
+
+    test('A relayer submits an admin operation signed by Alice', async () => {
+      intent = await signIntent(relayedClient, aliceEOA, operation, Math.floor(Date.now() / 1000) + 600);
+      await relayIntent(relayedClient, relayer, operation, intent);
+
+      const state = await relayedClient.getGlobalState();
+      expect(state.pd!.asNumber()).toBe(3600);
+      expect(state.in!.asNumber()).toBe(1);
+    });
+
+    test('The intent cannot be replayed', async () => {
+      // The same call in a new transaction, so it isn't rejected as a duplicate before the nonce is checked
+      const replay = (
+        await relayedClient.compose().arc58SetPluginDelay({ delay: 3600 }, { sender: relayer, note: 'replay' }).atc()
+      ).buildGroup()[0].txn;
+
+      await expect(relayIntent(relayedClient, relayer, replay, intent)).rejects.toThrow();
+    });
+
+    test('A relayer adds a plugin signed by Alice and pays its MBR', async () => {
+      const boxes = [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS)];
+      const [mbrPayment, addPlugin] = (
+        await relayedClient
+          .compose()
+          .arc58AddPlugin(
+            {
+              app: subPluginID,
+              allowedCaller: ZERO_ADDRESS,
+              start: 0,
+              end: maxUint64,
+              useRounds: false,
+              cooldown: 0,
+              maxUses: 0,
+              methods: [],
+              mbrPayment: await makeMbrPayment(relayedClient, 69300, relayer),
+            },
+            { sender: relayer, boxes }
+          )
+          .atc()
+      ).buildGroup();
+
+      const addPluginIntent = await signIntent(
+        relayedClient,
+        aliceEOA,
+        addPlugin.txn,
+        Math.floor(Date.now() / 1000) + 600
+      );
+      await relayIntent(relayedClient, relayer, addPlugin.txn, addPluginIntent, mbrPayment.txn);
+
+      const info = await relayedClient.arc58GetPluginInfo({ app: subPluginID, allowedCaller: ZERO_ADDRESS }, { boxes });
+      expect(info.return![1]).toBe(maxUint64);
+    });
+  });
+
+  describe('Passkey Admin', () => {
+    /** The client for an abstracted account whose admin is a passkey */
+    let passkeyClient: AbstractedAccountClient;
+    /** A service that submits admin operations approved with Alice's passkey */
+    let relayer: algosdk.Account;
+    /** Alice's passkey, which would normally live in her device's authenticator */
+    const passkey = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+    /**
+     * Have the passkey approve an admin operation like an authenticator would for `navigator.credentials.get`
+     *
+     * @param flags The flags of the authenticator data, which default to the user being present and verified
+     * @param type The type of the client data, which is `webauthn.create` when a passkey is registered instead
+     */
+    const getAssertion = async (operation: algosdk.Transaction, flags = 0x05, type = 'webauthn.get') => {
+      const expiry = Math.floor(Date.now() / 1000) + 600;
+      const { challenge, nonce } = await getPasskeyChallenge(passkeyClient, operation, expiry);
+
+      // The rpIdHash, the user present and verified flags and the signature counter
+      const authenticatorData = Buffer.concat([
+        createHash('sha256').update('example.com').digest(),
+        Buffer.from([flags, 0, 0, 0, 1]),
+      ]);
+      const clientDataJSON = Buffer.from(
+        JSON.stringify({
+          type,
+          challenge: Buffer.from(challenge).toString('base64url'),
+          origin: 'https://example.com',
+        })
+      );
+      const signature = sign(
+        'sha256',
+        Buffer.concat([authenticatorData, createHash('sha256').update(clientDataJSON).digest()]),
+        passkey.privateKey
+      );
+
+      return { ...parseAssertion({ authenticatorData, clientDataJSON, signature }), nonce, expiry };
+    };
+
+    beforeAll(async () => {
+      relayer = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+      passkeyClient = await createAbstractedAccount(100_000);
+    });
+
+    test('Alice makes her passkey the admin', async () => {
+      const publicKey = getPasskeyPublicKey(passkey.publicKey.export({ format: 'der', type: 'spki' }));
+      await passkeyClient.arc58SetAdminPasskey({ publicKey });
+
+      expect((await passkeyClient.arc58GetAdmin({})).return).toBe(ZERO_ADDRESS);
+    });
+
+    test('Alice can no longer sign admin operations with her keypair', async () => {
+      await expect(passkeyClient.arc58SetPluginDelay({ delay: 3600 })).rejects.toThrow();
+    });
+
+    test('A relayer submits an admin operation approved with the passkey', async () => {
+      const operation = (
+        await passkeyClient.compose().arc58SetPluginDelay({ delay: 3600 }, { sender: relayer }).atc()
+      ).buildGroup()[0].txn;
+      const assertion = await getAssertion(operation);
+
+      expect(parseClientDataJSON(assertion.clientDataJSON).type).toBe('webauthn.get');
+      await relayPasskeyIntent(passkeyClient, relayer, operation, assertion);
+
+      expect((await passkeyClient.getGlobalState()).pd!.asNumber()).toBe(3600);
+    });
+
+    test('An assertion cannot authorize a different operation', async () => {
+      const operation = (
+        await passkeyClient.compose().arc58SetPluginDelay({ delay: 0 }, { sender: relayer }).atc()
+      ).buildGroup()[0].txn;
+      const tampered = (
+        await passkeyClient.compose().arc58SetPauseGuardian({ guardian: relayer.addr }, { sender: relayer }).atc()
+      ).buildGroup()[0].txn;
+
+      await expect(
+        relayPasskeyIntent(passkeyClient, relayer, tampered, await getAssertion(operation))
+      ).rejects.toThrow();
+    });
+
+    test('An assertion made without the user present is rejected', async () => {
+      const operation = (
+        await passkeyClient.compose().arc58SetPluginDelay({ delay: 0 }, { sender: relayer }).atc()
+      ).buildGroup()[0].txn;
+
+      await expect(
+        relayPasskeyIntent(passkeyClient, relayer, operation, await getAssertion(operation, 0x00))
+      ).rejects.toThrow();
+    });
+
+    test('A signature from registering a passkey is rejected', async () => {
+      const operation = (
+        await passkeyClient.compose().arc58SetPluginDelay({ delay: 0 }, { sender: relayer }).atc()
+      ).buildGroup()[0].txn;
+
+      await expect(
+        relayPasskeyIntent(passkeyClient, relayer, operation, await getAssertion(operation, 0x05, 'webauthn.create'))
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Ethereum Admin', () => {
+    /** The client for an abstracted account whose admin is an Ethereum key */
+    let ethereumClient: AbstractedAccountClient;
+    /** A service that submits admin operations signed with Alice's Ethereum key */
+    let relayer: algosdk.Account;
+    /** Alice's Ethereum private key, which would normally live in her EVM wallet */
+    const ethereumKey = secp256k1.utils.randomPrivateKey();
+    /** The address of Alice's Ethereum key */
+    const ethereumAddress = getEthereumAddress(secp256k1.getPublicKey(ethereumKey, false));
+
+    /** Build an admin operation for the relayer to submit */
+    const buildOperation = async (delay: number) =>
+      (await ethereumClient.compose().arc58SetPluginDelay({ delay }, { sender: relayer }).atc()).buildGroup()[0].txn;
+
+    beforeAll(async () => {
+      relayer = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+      ethereumClient = await createAbstractedAccount(100_000);
+    });
+
+    test('Alice makes her Ethereum key the admin', async () => {
+      await ethereumClient.arc58SetAdminEthereumAddress({ ethereumAddress });
+
+      expect((await ethereumClient.arc58GetAdmin({})).return).toBe(ZERO_ADDRESS);
+    });
+
+    test('A relayer submits an admin operation signed as typed data', async () => {
+      const operation = await buildOperation(3600);
+      const typedData = await getIntentTypedData(ethereumClient, operation, Math.floor(Date.now() / 1000) + 600);
+      const intent = signIntentTypedData(typedData, ethereumKey);
+
+      expect(recoverEthereumAddress(typedData, intent.signature)).toEqual(ethereumAddress);
+      await relayEthereumIntent(ethereumClient, relayer, operation, intent);
+
+      expect((await ethereumClient.getGlobalState()).pd!.asNumber()).toBe(3600);
+    });
+
+    test('An intent signed by another Ethereum key is rejected', async () => {
+      const operation = await buildOperation(0);
+      const typedData = await getIntentTypedData(ethereumClient, operation, Math.floor(Date.now() / 1000) + 600);
+      const intent = signIntentTypedData(typedData, secp256k1.utils.randomPrivateKey());
+
+      await expect(relayEthereumIntent(ethereumClient, relayer, operation, intent)).rejects.toThrow();
+    });
+  });
+
+  describe('Delegated Administration', () => {
+    /** The client for an abstracted account with a plugin manager */
+    let delegatedClient: AbstractedAccountClient;
+    /** An ops team member that can add and remove plugins but is not the admin */
+    let pluginManager: algosdk.Account;
+    /** The boxes to pass to app calls made by the plugin manager */
+    let boxes: Uint8Array[];
+
+    beforeAll(async () => {
+      pluginManager = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+
+      delegatedClient = await createAbstractedAccount(100_000);
+
+      boxes = [
+        /** The box key for a role is `r + address` */
+        new Uint8Array(Buffer.concat([Buffer.from('r'), algosdk.decodeAddress(pluginManager.addr).publicKey])),
+        new Uint8Array(
+          Buffer.concat([
+            Buffer.from('p'),
+            Buffer.from(algosdk.encodeUint64(subPluginID)),
+            algosdk.decodeAddress(ZERO_ADDRESS).publicKey,
+          ])
+        ),
+        // Removing the plugin also removes its spending limits
+        boxKeys.spendingLimitsBox(subPluginID, ZERO_ADDRESS),
+      ];
+    });
+
+    /**
+     * Have the plugin manager add the subscription plugin with the given end, paying `mbr` for the plugin box
+     *
+     * @param useRounds Whether `end` is a round rather than a timestamp
+     */
+    const addPlugin = async (end: number | bigint, mbr = 69300, useRounds = false) =>
+      delegatedClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end,
+          useRounds,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(delegatedClient, mbr, pluginManager),
+        },
+        { sender: pluginManager, boxes }
+      );
+
+    test('Alice lets the plugin manager add plugins for up to an hour', async () => {
+      await delegatedClient.arc58GrantRole(
+        {
+          account: pluginManager.addr,
+          addPlugins: true,
+          removePlugins: true,
+          maxDuration: 3600,
+          mbrPayment: await makeMbrPayment(delegatedClient, 19300),
+        },
+        { boxes }
+      );
+    });
+
+    test('The plugin manager cannot add a plugin that never expires', async () => {
+      await expect(addPlugin(maxUint64)).rejects.toThrow();
+    });
+
+    test('The plugin manager cannot add a plugin measured in rounds', async () => {
+      // 1000 rounds is within a maxDuration of 3600 when read as rounds, but can be well over an hour
+      const round = Number((await fixture.context.algod.status().do())['last-round']);
+      await expect(addPlugin(round + 1000, 69300, true)).rejects.toThrow();
+    });
+
+    test('The plugin manager adds a plugin that expires in a minute', async () => {
+      await addPlugin(Math.floor(Date.now() / 1000) + 60);
+    });
+
+    test('A plugin manager that cannot remove plugins cannot replace one', async () => {
+      // The role box already exists, so replacing the role doesn't add MBR
+      const grantRole = async (removePlugins: boolean) =>
+        delegatedClient.arc58GrantRole(
+          {
+            account: pluginManager.addr,
+            addPlugins: true,
+            removePlugins,
+            maxDuration: 3600,
+            mbrPayment: await makeMbrPayment(delegatedClient, 0),
+          },
+          { boxes }
+        );
+
+      await grantRole(false);
+      await expect(addPlugin(Math.floor(Date.now() / 1000) + 30, 0)).rejects.toThrow();
+      await grantRole(true);
+    });
+
+    test('The plugin manager removes the plugin and its spending limits and gets the MBR back', async () => {
+      await delegatedClient.arc58SetSpendingLimit(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          asset: 0,
+          amount: 50_000,
+          period: 86_400,
+          mbrPayment: await makeMbrPayment(delegatedClient, 38900),
+        },
+        { boxes }
+      );
+
+      const result = await delegatedClient.arc58RemovePlugin(
+        { app: subPluginID, allowedCaller: ZERO_ADDRESS, mbrReceiver: pluginManager.addr },
+        { sender: pluginManager, boxes, sendParams: { fee: algokit.microAlgos(2000) } }
+      );
+
+      expect(result.confirmation!.innerTxns![0].txn.txn.amt).toBe(69300 + 38900);
+    });
+
+    test('The plugin manager cannot rekey the account', async () => {
+      await expect(
+        delegatedClient.arc58RekeyTo({ addr: pluginManager.addr, flash: false }, { sender: pluginManager })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Emergency Pause', () => {
+    /** The client for an abstracted account whose plugins will be paused */
+    let pausableClient: AbstractedAccountClient;
+    /** A security contact that can pause the plugins */
+    let pauseGuardian: algosdk.Account;
+    /** The boxes to pass to app calls that use the subscription plugin permission */
+    let boxes: Uint8Array[];
+
+    /** Check whether anyone can currently use the subscription plugin */
+    const canCallPlugin = async () =>
+      (await pausableClient.arc58CanCallPlugin({ app: subPluginID, caller: ZERO_ADDRESS }, { boxes })).return;
+
+    beforeAll(async () => {
+      pauseGuardian = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+      pausableClient = await createAbstractedAccount(100_000);
+      boxes = [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS)];
+
+      await pausableClient.arc58SetPauseGuardian({ guardian: pauseGuardian.addr });
+      await pausableClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(pausableClient, 69300),
+        },
+        { boxes }
+      );
+    });
+
+    test('The pause guardian pauses all plugins', async () => {
+      await pausableClient.arc58Pause({}, { sender: pauseGuardian });
+      expect(await canCallPlugin()).toBe(false);
+    });
+
+    test('The pause guardian cannot unpause', async () => {
+      await expect(pausableClient.arc58Unpause({}, { sender: pauseGuardian })).rejects.toThrow();
+    });
+
+    test('Alice unpauses the plugins', async () => {
+      await pausableClient.arc58Unpause({});
+      expect(await canCallPlugin()).toBe(true);
+    });
+  });
+
+  describe('Plugin Delay', () => {
+    /** The client for an abstracted account that delays new plugins */
+    let delayedClient: AbstractedAccountClient;
+    /** A guardian that can veto new plugins */
+    let guardian: algosdk.Account;
+    /** The boxes to pass to app calls that use the subscription plugin permission or the guardian */
+    let boxes: Uint8Array[];
+    /** The box key of the name of the subscription plugin permission */
+    const nameBox = new Uint8Array(Buffer.concat([Buffer.from('n'), Buffer.from('subscription')]));
+
+    beforeAll(async () => {
+      guardian = await fixture.context.generateAccount({ initialFunds: algokit.algos(1) });
+
+      delayedClient = await createAbstractedAccount(100_000);
+      boxes = [
+        boxKeys.pluginBox(subPluginID, ZERO_ADDRESS),
+        boxKeys.spendingLimitsBox(subPluginID, ZERO_ADDRESS),
+        new Uint8Array(Buffer.concat([Buffer.from('g'), algosdk.decodeAddress(guardian.addr).publicKey])),
+      ];
+
+      await delayedClient.arc58AddGuardian(
+        { guardian: guardian.addr, mbrPayment: await makeMbrPayment(delayedClient, 18900) },
+        { boxes }
+      );
+      await delayedClient.arc58SetPluginDelay({ delay: 86_400 });
+    });
+
+    test('A new plugin cannot be used until the delay has passed', async () => {
+      await delayedClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(delayedClient, 69300),
+        },
+        { boxes }
+      );
+      await delayedClient.arc58AddNamedPlugin(
+        {
+          name: 'subscription',
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          // Cover the MBR of the name box, the plugin box already exists
+          mbrPayment: await makeMbrPayment(delayedClient, 23700),
+        },
+        { boxes: [...boxes, nameBox] }
+      );
+
+      const canCall = await delayedClient.arc58CanCallPlugin({ app: subPluginID, caller: ZERO_ADDRESS }, { boxes });
+      expect(canCall.return).toBe(false);
+
+      const pending = await listPendingPlugins(delayedClient);
+      expect(pending.map((plugin) => plugin.app)).toEqual([BigInt(subPluginID)]);
+      expect(pending[0].names).toEqual(['subscription']);
+    });
+
+    test('The guardian vetoes the pending plugin along with its name', async () => {
+      const result = await delayedClient.arc58VetoPlugin(
+        { app: subPluginID, allowedCaller: ZERO_ADDRESS, names: ['subscription'], mbrReceiver: aliceEOA.addr },
+        { sender: guardian, boxes: [...boxes, nameBox], sendParams: { fee: algokit.microAlgos(2000) } }
+      );
+
+      expect(result.confirmation!.innerTxns![0].txn.txn.amt).toBe(69300 + 23700);
+      expect(await listPendingPlugins(delayedClient)).toEqual([]);
+    });
+
+    test('A new session key cannot use its plugins until the delay has passed', async () => {
+      const sessionKey = await registerSessionKey(fixture.context.algod, delayedClient, aliceEOA, {
+        expiry: Math.floor(Date.now() / 1000) + 3600,
+        plugins: [subPluginID],
+      });
+
+      const canCall = await delayedClient.arc58CanCallPlugin(
+        { app: subPluginID, caller: sessionKey.addr },
+        {
+          boxes: [...boxes, boxKeys.pluginBox(subPluginID, sessionKey.addr)],
+        }
+      );
+      expect(canCall.return).toBe(false);
+    });
+    test('Lowering the delay only applies once the current delay has passed', async () => {
+      await delayedClient.arc58SetPluginDelay({ delay: 0 });
+      await delayedClient.arc58AddPlugin(
+        {
+          app: subPluginID,
+          allowedCaller: ZERO_ADDRESS,
+          start: 0,
+          end: maxUint64,
+          useRounds: false,
+          cooldown: 0,
+          maxUses: 0,
+          methods: [],
+          mbrPayment: await makeMbrPayment(delayedClient, 69300),
+        },
+        { boxes }
+      );
+
+      const canCall = await delayedClient.arc58CanCallPlugin({ app: subPluginID, caller: ZERO_ADDRESS }, { boxes });
+      expect(canCall.return).toBe(false);
+    });
+  });
+
+  describe('Session Keys', () => {
+    /** The client for an abstracted account Alice uses from a dApp browser tab */
+    let sessionClient: AbstractedAccountClient;
+    /** The session key held by the browser tab */
+    let sessionKey: algosdk.Account;
+
+    /** Check whether the session key can currently use the subscription plugin */
+    const canCallPlugin = async () =>
+      (
+        await sessionClient.arc58CanCallPlugin(
+          { app: subPluginID, caller: sessionKey.addr },
+          {
+            boxes: [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS), boxKeys.pluginBox(subPluginID, sessionKey.addr)],
+          }
+        )
+      ).return;
+
+    beforeAll(async () => {
+      sessionClient = await createAbstractedAccount(100_000);
+    });
+
+    test('Alice registers a session key for the subscription plugin', async () => {
+      sessionKey = await registerSessionKey(fixture.context.algod, sessionClient, aliceEOA, {
+        expiry: Math.floor(Date.now() / 1000) + 3600,
+        plugins: [subPluginID],
+      });
+
+      const sessions = await listSessionKeys(sessionClient);
+      expect(sessions.map((session) => session.address)).toEqual([sessionKey.addr]);
+      expect(await canCallPlugin()).toBe(true);
+    });
+
+    test('Alice revokes all session keys', async () => {
+      await sessionClient.arc58RevokeAllSessionKeys({});
+      expect(await canCallPlugin()).toBe(false);
+    });
+
+    test('Alice removes the session key and gets the MBR back', async () => {
+      const result = await sessionClient.arc58RemoveSessionKey(
+        { sessionKey: sessionKey.addr, mbrReceiver: aliceEOA.addr },
+        {
+          boxes: [
+            boxKeys.sessionBox(sessionKey.addr),
+            boxKeys.pluginBox(subPluginID, sessionKey.addr),
+            boxKeys.spendingLimitsBox(subPluginID, sessionKey.addr),
+          ],
+          sendParams: { fee: algokit.microAlgos(2000) },
+        }
+      );
+
+      expect(result.confirmation!.innerTxns![0].txn.txn.amt).toBe(getSessionKeyCost([subPluginID], 0));
+      expect(await listSessionKeys(sessionClient)).toEqual([]);
+    });
+  });
+
+  describe('Account Factory', () => {
+    /** The client for the factory */
+    let factoryClient: AccountFactoryClient;
+    /** A wallet user deploying abstracted accounts with the factory */
+    let dave: algosdk.Account;
+    /** The first account deployed for Dave */
+    let daveAccount: AbstractedAccountClient;
+
+    beforeAll(async () => {
+      const { algod } = fixture.context;
+      const deployer = await fixture.context.generateAccount({ initialFunds: algokit.algos(5) });
+      dave = await fixture.context.generateAccount({ initialFunds: algokit.algos(5) });
+
+      factoryClient = new AccountFactoryClient({ sender: deployer, resolveBy: 'id', id: 0 }, algod);
+      await factoryClient.create.createApplication({});
+
+      // Fund the factory to cover its own MBR and the MBR of the program box
+      await factoryClient.appClient.fundAppAccount({ amount: algokit.algos(4) });
+      await uploadAccountProgram(
+        algod,
+        factoryClient,
+        readFileSync('./contracts/artifacts/AbstractedAccount.approval.teal').toString()
+      );
+      await factoryClient.setStandardPlugins({ plugins: [subPluginID] });
+      await factoryClient.finalize({});
+    });
+
+    test('Accounts cannot be deployed from a program that can still change', async () => {
+      const { algod } = fixture.context;
+      const deployer = await fixture.context.generateAccount({ initialFunds: algokit.algos(5) });
+
+      // Everything but finalizing is done, so only the missing finalize call can make the deployment fail
+      const unfinalized = new AccountFactoryClient({ sender: deployer, resolveBy: 'id', id: 0 }, algod);
+      await unfinalized.create.createApplication({});
+      await unfinalized.appClient.fundAppAccount({ amount: algokit.algos(4) });
+      await uploadAccountProgram(
+        algod,
+        unfinalized,
+        readFileSync('./contracts/artifacts/AbstractedAccount.approval.teal').toString()
+      );
+
+      await expect(createAccountWithFactory(fixture.context.algod, unfinalized, dave)).rejects.toThrow();
+    });
+
+    test('Dave deploys an account with the standard plugins', async () => {
+      daveAccount = await createAccountWithFactory(fixture.context.algod, factoryClient, dave, true);
+
+      expect((await daveAccount.arc58GetAdmin({})).return).toBe(dave.addr);
+
+      const info = await daveAccount.arc58GetPluginInfo(
+        { app: subPluginID, allowedCaller: ZERO_ADDRESS },
+        { boxes: [boxKeys.pluginBox(subPluginID, ZERO_ADDRESS)] }
+      );
+      expect(info.return![1]).toBe(maxUint64);
+    });
+
+    test('Dave deploys a second account without plugins', async () => {
+      const secondAccount = await createAccountWithFactory(fixture.context.algod, factoryClient, dave);
+      const { appId } = await secondAccount.appClient.getAppReference();
+      const { appId: firstAppId } = await daveAccount.appClient.getAppReference();
+
+      expect(await getFactoryAccounts(factoryClient, dave.addr)).toEqual([BigInt(firstAppId), BigInt(appId)]);
+    });
+
+    test('The factory can no longer be configured', async () => {
+      await expect(factoryClient.setStandardPlugins({ plugins: [] })).rejects.toThrow();
+    });
   });
 });
@@ -2,6 +2,121 @@ import { Contract } from '@algorandfoundation/tealscript';
 
 type PluginsKey = { application: AppID; allowedCaller: Address };
 
+type PluginInfo = {
+  /** The timestamp (or round) when the permission starts */
+  start: uint64;
+  /** The timestamp (or round) when the permission expires */
+  end: uint64;
+  /** Whether `start`, `end`, `cooldown` and `lastUsed` are rounds rather than timestamps */
+  useRounds: boolean;
+  /** The minimum number of seconds (or rounds) that must pass between uses of the plugin */
+  cooldown: uint64;
+  /** The maximum number of times the plugin can be used. If zero, there is no maximum */
+  maxUses: uint64;
+  /** The number of times the plugin has been used */
+  uses: uint64;
+  /** The timestamp (or round) the plugin was last used */
+  lastUsed: uint64;
+  /** The timestamp when the permission was added plus the plugin delay. Until then, the permission can be vetoed */
+  activatesAt: uint64;
+  /** Whether the permission was added without a name. It is kept until both this and every name are removed */
+  unnamed: boolean;
+  /** The number of names that refer to the permission */
+  names: uint64;
+  /** The asset the caller must hold to use the plugin */
+  gateAsset: AssetID;
+  /** The amount of `gateAsset` the caller must hold to use the plugin. If zero, there is no requirement */
+  gateAmount: uint64;
+  /**
+   * The session epoch when the permission was added for a session key, or zero if it wasn't.
+   * A session key's permissions can't be used once the epoch changes
+   */
+  sessionEpoch: uint64;
+  /** The hash of the plugin's approval program when it was added. The plugin can't be used once its program changes */
+  approvalHash: bytes32;
+  /**
+   * The method selectors the plugin may be called with. If empty, all methods are allowed.
+   * Otherwise no other app can be called while the plugin controls the account
+   */
+  methods: bytes<4>[];
+};
+
+type CallerSetMember = {
+  /** The address of the caller set, which is the hash of its name */
+  callerSet: Address;
+  /** The member of the set */
+  member: Address;
+};
+
+type NamedPluginInfo = {
+  /** The plugin permission the name refers to */
+  key: PluginsKey;
+  /** The permission data of the plugin */
+  info: PluginInfo;
+};
+
+type SpendingLimit = {
+  /** The asset the limit applies to, or zero for ALGO */
+  asset: AssetID;
+  /** The maximum amount that can be spent within a period */
+  amount: uint64;
+  /** The length of a period in seconds */
+  period: uint64;
+  /** The timestamp the current period started */
+  periodStart: uint64;
+  /** The amount spent in the current period */
+  spent: uint64;
+  /** The balance of the controlled address when the plugin was last rekeyed to */
+  balanceBefore: uint64;
+};
+
+type Session = {
+  /** The timestamp when the session key expires */
+  expiry: uint64;
+  /** The session epoch when the key was added. The key is revoked once the epoch changes */
+  epoch: uint64;
+  /** The plugins the session key can use */
+  plugins: AppID[];
+};
+
+type Role = {
+  /** Whether the address can add plugins */
+  addPlugins: boolean;
+  /** Whether the address can remove plugins */
+  removePlugins: boolean;
+  /** How many seconds in the future the permission of a plugin added by the address can end */
+  maxDuration: uint64;
+};
+
+type RecoveryProposal = {
+  /** The address that will become the admin once the recovery is finalized */
+  newAdmin: Address;
+  /** Identifies the proposal so guardian approvals are not reused across proposals */
+  nonce: uint64;
+  /** The number of guardians that have approved the proposal */
+  approvals: uint64;
+  /** The timestamp after which the recovery can be finalized. Zero until enough guardians have approved */
+  readyAt: uint64;
+  /** The timestamp after which another guardian can replace the proposal if it doesn't have enough approvals */
+  expiresAt: uint64;
+};
+
+type FeeBudget = {
+  /** The microAlgos left to reimburse fees with */
+  budget: uint64;
+  /** The most that is reimbursed for the fee of a single transaction */
+  maxFee: uint64;
+};
+
+/** The admin signs intents with the ed25519 key of the admin address */
+const ADMIN_KEY_ADDRESS = 0;
+
+/** The admin signs intents with a passkey, whose secp256r1 public key is stored in adminKey */
+const ADMIN_KEY_PASSKEY = 1;
+
+/** The admin signs intents as EIP-712 typed data with an Ethereum key, whose address is stored in adminKey */
+const ADMIN_KEY_ETHEREUM = 2;
+
 export class AbstractedAccount extends Contract {
   /** Target AVM 10 */
   programVersion = 10;
@@ -12,29 +127,364 @@ export class AbstractedAccount extends Contract {
   /** The address this app controls */
   controlledAddress = GlobalStateKey<Address>({ key: 'c' });
 
+  /**
+   * The number of signers that must approve an admin operation. If zero, the admin address is used instead of signers
+   */
+  adminThreshold = GlobalStateKey<uint64>({ key: 'mt' });
+
+  /** The hash of the signers given at creation. Deleted once arc58_initAdminSigners has been called */
+  adminSignersHash = GlobalStateKey<bytes32>({ key: 'mh' });
+
+  /** The address the admin is being transferred to. It becomes the admin once it calls arc58_acceptAdmin */
+  pendingAdmin = GlobalStateKey<Address>({ key: 'pa' });
+
+  /** The timestamp after which the pending admin can accept the transfer */
+  pendingAdminReadyAt = GlobalStateKey<uint64>({ key: 'pr' });
+
   /**
    * The apps and addresses that are authorized to send itxns from the abstracted account,
-   * The key is the appID + address, the value (referred to as `end`)
-   * is the timestamp when the permission expires for the address to call the app for your account.
+   * The key is the appID + address, the value contains the window in which the permission is valid (referred to as `start` and `end`),
+   * how often and how many times the plugin can be used, the hash of the plugin's approval program
+   * and the method selectors the address is allowed to call on the app for your account.
+   * The address can be the address of another app, since only that app can send transactions from it, so the plugin
+   * can only be used by that app calling arc58_rekeyToPlugin in an inner transaction group.
    */
-  plugins = BoxMap<PluginsKey, uint64>({ prefix: 'p' });
+  plugins = BoxMap<PluginsKey, PluginInfo>({ prefix: 'p' });
 
   /**
    * Plugins that have been given a name for discoverability
    */
   namedPlugins = BoxMap<bytes, PluginsKey>({ prefix: 'n' });
 
+  /**
+   * The limits on how much a plugin can spend from the controlled address.
+   * The key is the same appID + address as the plugin permission it applies to.
+   */
+  spendingLimits = BoxMap<PluginsKey, SpendingLimit[]>({ prefix: 's' });
+
+  /**
+   * The members of caller sets. A plugin permission whose allowed caller is the address of a caller set
+   * can be used by any member of the set via arc58_rekeyToPluginAsSetMember
+   */
+  callerSetMembers = BoxMap<CallerSetMember, uint64>({ prefix: 'c' });
+
+  /**
+   * The amount of microAlgos the abstracted account will spend on reimbursing the fees of callers of a plugin.
+   * The key is the plugin app. Plugins without a box are not sponsored.
+   */
+  feeBudgets = BoxMap<AppID, FeeBudget>({ prefix: 'f' });
+
+  /** The nonce the next intent signed by the admin must use */
+  intentNonce = GlobalStateKey<uint64>({ key: 'in' });
+
+  /**
+   * The kind of key that signs the admin's intents: ADMIN_KEY_ADDRESS for the ed25519 key of the admin address,
+   * ADMIN_KEY_PASSKEY for the secp256r1 public key of a passkey in adminKey
+   * or ADMIN_KEY_ETHEREUM for the Ethereum address in adminKey
+   */
+  adminKeyType = GlobalStateKey<uint64>({ key: 'kt' });
+
+  /** The public key or Ethereum address of the admin when adminKeyType isn't ADMIN_KEY_ADDRESS */
+  adminKey = GlobalStateKey<bytes>({ key: 'ak' });
+
+  /** The signers that can approve admin operations when adminThreshold is non-zero */
+  adminSigners = BoxMap<Address, uint64>({ prefix: 'm' });
+
+  /** The signers that have approved an admin operation. The key is the hash of the operation's application args */
+  adminApprovals = BoxMap<bytes32, Address[]>({ prefix: 'h' });
+
+  /** Short-lived keys that can use a set of plugins. The key is the session key's address */
+  sessions = BoxMap<Address, Session>({ prefix: 'k' });
+
+  /**
+   * The number of seconds a new plugin permission must wait before it can be used, during which the admin
+   * or a guardian can veto it. If zero, new permissions can be used immediately.
+   * A lower delay only applies from pluginDelayChangesAt, until then previousPluginDelay does.
+   */
+  pluginDelay = GlobalStateKey<uint64>({ key: 'pd' });
+
+  /** The plugin delay that applies until pluginDelayChangesAt */
+  previousPluginDelay = GlobalStateKey<uint64>({ key: 'pp' });
+
+  /** The timestamp when a lowered plugin delay starts to apply */
+  pluginDelayChangesAt = GlobalStateKey<uint64>({ key: 'pt' });
+
+  /**
+   * Incremented to revoke all session keys at once.
+   * Starts at one, since a zero sessionEpoch marks plugin permissions that aren't for a session key.
+   */
+  sessionEpoch = GlobalStateKey<uint64>({ key: 'se' });
+
+  /** Addresses that can manage plugins on behalf of the admin */
+  roles = BoxMap<Address, Role>({ prefix: 'r' });
+
+  /** The plugin whose spending must be checked when the abstracted account regains control */
+  activePlugin = GlobalStateKey<PluginsKey>({ key: 'ap' });
+
+  /**
+   * The addresses that can recover the account by replacing the admin.
+   * The value is the nonce of the last recovery proposal the guardian approved.
+   */
+  guardians = BoxMap<Address, uint64>({ prefix: 'g' });
+
+  /** The number of guardians */
+  guardianCount = GlobalStateKey<uint64>({ key: 'gc' });
+
+  /** The number of guardian approvals needed to recover the account. If zero, recovery is disabled */
+  recoveryThreshold = GlobalStateKey<uint64>({ key: 'rt' });
+
+  /** The number of seconds the admin has to cancel a recovery once enough guardians have approved it */
+  recoveryDelay = GlobalStateKey<uint64>({ key: 'rd' });
+
+  /** The number of seconds a recovery proposal has to get enough approvals before another guardian can replace it */
+  recoveryProposalLifetime = GlobalStateKey<uint64>({ key: 'rl' });
+
+  /** The nonce of the most recent recovery proposal */
+  recoveryNonce = GlobalStateKey<uint64>({ key: 'rn' });
+
+  /** The pending recovery proposal */
+  recovery = GlobalStateKey<RecoveryProposal>({ key: 'r' });
+
+  /** Whether all plugins are paused. While paused, no plugin can be rekeyed to */
+  paused = GlobalStateKey<boolean>({ key: 'ps' });
+
+  /** An address that can pause, but not unpause, the plugins in addition to the admin */
+  pauseGuardian = GlobalStateKey<Address>({ key: 'pg' });
+
+  /** The account was created */
+  accountCreated = new EventLogger<{
+    /** The address of the abstracted account */
+    controlledAddress: Address;
+    /** The admin of the account */
+    admin: Address;
+  }>();
+
+  /** An admin change was started */
+  adminChangeStarted = new EventLogger<{
+    /** The pending admin */
+    newAdmin: Address;
+    /** The timestamp when the pending admin can accept */
+    readyAt: uint64;
+  }>();
+
+  /** The admin was replaced, either by accepting an admin change or by recovery */
+  adminChanged = new EventLogger<{
+    /** The previous admin */
+    oldAdmin: Address;
+    /** The new admin */
+    newAdmin: Address;
+  }>();
+
+  /** A plugin permission was added or replaced */
+  pluginAdded = new EventLogger<{
+    /** The plugin app */
+    application: AppID;
+    /** The allowed caller, or the global zero address for all addresses */
+    allowedCaller: Address;
+    /** The timestamp (or round) when the permission starts */
+    start: uint64;
+    /** The timestamp (or round) when the permission expires */
+    end: uint64;
+  }>();
+
+  /** A plugin permission was removed */
+  pluginRemoved = new EventLogger<{
+    /** The plugin app */
+    application: AppID;
+    /** The allowed caller, or the global zero address for all addresses */
+    allowedCaller: Address;
+  }>();
+
+  /** A name was given to a plugin permission */
+  namedPluginAdded = new EventLogger<{
+    /** The plugin name */
+    name: string;
+    /** The plugin app */
+    application: AppID;
+    /** The allowed caller, or the global zero address for all addresses */
+    allowedCaller: Address;
+  }>();
+
+  /** A named plugin permission was removed */
+  namedPluginRemoved = new EventLogger<{
+    /** The plugin name */
+    name: string;
+    /** The plugin app */
+    application: AppID;
+    /** The allowed caller, or the global zero address for all addresses */
+    allowedCaller: Address;
+  }>();
+
+  /** The abstracted account was rekeyed by the admin */
+  rekeyed = new EventLogger<{
+    /** The address the account was rekeyed to */
+    addr: Address;
+    /** Whether the account must be rekeyed back in the same group */
+    flash: boolean;
+  }>();
+
+  /** The abstracted account was rekeyed to a plugin */
+  pluginUsed = new EventLogger<{
+    /** The plugin app */
+    application: AppID;
+    /** The allowed caller of the permission that was used, or the global zero address for all addresses */
+    allowedCaller: Address;
+    /** The address that called the plugin */
+    caller: Address;
+  }>();
+
+  /** The plugins were paused or unpaused */
+  pausedChanged = new EventLogger<{
+    /** Whether the plugins are now paused */
+    paused: boolean;
+  }>();
+
+  /**
+   * Get the hash of the application args of a call in the group, which signers approve in multisig mode
+   * and the admin signs in an intent
+   *
+   * @param index The index of the call in the group
+   */
+  private getOperationHash(index: uint64): bytes32 {
+    const txn = this.txnGroup[index];
+
+    let args: bytes = '';
+    for (let i = 0; i < txn.numAppArgs; i += 1) {
+      args = concat(args, txn.applicationArgs[i]);
+    }
+
+    return sha256(args);
+  }
+
+  /**
+   * Verify the current call is authorized by the admin. If adminThreshold is non-zero, enough signers must have
+   * approved this exact call and their approvals are consumed. Otherwise, the admin must be the sender
+   * or the call must come right after an intent authorization call (and its payment arguments),
+   * which verified the admin signed it.
+   */
+  private verifyAdmin(): void {
+    if (this.adminThreshold.value === 0) {
+      if (this.txn.sender !== this.admin.value) {
+        let index = this.txn.groupIndex - 1;
+        while (this.txnGroup[index].typeEnum === TransactionType.Payment) index = index - 1;
+
+        const intent = this.txnGroup[index];
+        assert(
+          intent.applicationID === this.app &&
+            (intent.applicationArgs[0] === method('arc58_authorizeIntent(uint64,uint64,byte[64])void') ||
+              intent.applicationArgs[0] ===
+                method('arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void') ||
+              intent.applicationArgs[0] === method('arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void'))
+        );
+      }
+      return;
+    }
+
+    const hash = this.getOperationHash(this.txn.groupIndex);
+    assert(this.adminApprovals(hash).value.length >= this.adminThreshold.value);
+    this.adminApprovals(hash).delete();
+  }
+
+  /**
+   * Start the delay of the pending recovery once it has enough approvals, or stop it if it no longer has enough
+   * because approvals were revoked, the threshold was raised or recovery was disabled
+   */
+  private updateRecoveryReadyAt(): void {
+    if (!this.recovery.exists) return;
+
+    const threshold = this.recoveryThreshold.value;
+    if (threshold === 0 || this.recovery.value.approvals < threshold) {
+      this.recovery.value.readyAt = 0;
+    } else if (this.recovery.value.readyAt === 0) {
+      this.recovery.value.readyAt = globals.latestTimestamp + this.recoveryDelay.value;
+    }
+  }
+
+  /**
+   * Make an address the admin. The new admin signs with its own key rather than a passkey or a set of signers.
+   */
+  private setAdmin(newAdmin: Address): void {
+    this.adminChanged.log({ oldAdmin: this.admin.value, newAdmin: newAdmin });
+
+    this.admin.value = newAdmin;
+    this.adminThreshold.value = 0;
+    this.adminKeyType.value = ADMIN_KEY_ADDRESS;
+  }
+
+  /**
+   * Consume an intent and get the message the admin must have signed to authorize the admin method call
+   * that comes right after the current call and the payment arguments of the method in the group
+   */
+  private useIntent(nonce: uint64, expiry: uint64, keyType: uint64): bytes {
+    assert(this.adminThreshold.value === 0 && this.adminKeyType.value === keyType);
+    assert(nonce === this.intentNonce.value && globals.latestTimestamp <= expiry);
+    this.intentNonce.value = nonce + 1;
+
+    // Verifying a passkey or Ethereum signature needs one more increase than an ed25519 signature
+    const budgetIncreases = keyType === ADMIN_KEY_ADDRESS ? 3 : 4;
+    for (let i = 0; i < budgetIncreases; i += 1) {
+      increaseOpcodeBudget();
+    }
+
+    let index = this.txn.groupIndex + 1;
+    while (this.txnGroup[index].typeEnum === TransactionType.Payment) index = index + 1;
+
+    return concat(
+      concat(concat(concat('arc58intent', itob(this.app.id)), itob(nonce)), itob(expiry)),
+      this.getOperationHash(index)
+    );
+  }
+
+  /**
+   * Get the role of the sender. The admin is never checked for a role, so it doesn't need to reference a role box.
+   */
+  private getSenderRole(): Role {
+    if (this.txn.sender === this.admin.value || !this.roles(this.txn.sender).exists) {
+      return { addPlugins: false, removePlugins: false, maxDuration: 0 };
+    }
+
+    return this.roles(this.txn.sender).value;
+  }
+
+  /**
+   * Verify the sender can add or replace a plugin permission that ends at the given time.
+   * A role can only replace a permission if it can both add and remove plugins, and its permissions must be measured
+   * in timestamps so `end` is bounded in the same unit as maxDuration.
+   *
+   * @param replace Whether an existing permission is being replaced
+   * @param end The timestamp (or round) when the permission expires
+   * @param useRounds Whether `end` is a round rather than a timestamp
+   */
+  private verifyCanSetPlugin(replace: boolean, end: uint64, useRounds: boolean): void {
+    const role = this.getSenderRole();
+
+    if (role.addPlugins && (role.removePlugins || !replace)) {
+      assert(!useRounds && end <= globals.latestTimestamp + role.maxDuration);
+    } else {
+      this.verifyAdmin();
+    }
+  }
+
+  /**
+   * Verify the sender can remove plugin permissions
+   */
+  private verifyCanRemovePlugin(): void {
+    if (!this.getSenderRole().removePlugins) this.verifyAdmin();
+  }
+
   /**
    * Ensure that by the end of the group the abstracted account has control of its address
+   *
+   * @param requireVerifyCall Whether control must be regained via arc58_verifyAuthAddr rather than an explicit rekey
    */
-  private verifyRekeyToAbstractedAccount(): void {
+  private verifyRekeyToAbstractedAccount(requireVerifyCall: boolean): void {
     let rekeyedBack = false;
 
     for (let i = this.txn.groupIndex; i < this.txnGroup.length; i += 1) {
       const txn = this.txnGroup[i];
 
       // The transaction is an explicit rekey back
-      if (txn.sender === this.controlledAddress.value && txn.rekeyTo === this.getAuthAddr()) {
+      if (!requireVerifyCall && txn.sender === this.controlledAddress.value && txn.rekeyTo === this.getAuthAddr()) {
         rekeyedBack = true;
         break;
       }
@@ -55,159 +505,1476 @@ export class AbstractedAccount extends Contract {
   }
 
   /**
-   * What the value of this.address.value.authAddr should be when this.controlledAddress
-   * is able to be controlled by this app. It will either be this.app.address or zeroAddress
+   * Whether a transaction in the group is a call to this app that hands control of the abstracted account back,
+   * either by rekeying to the next plugin or by verifying control was regained.
+   * Other calls to this app, such as read-only methods, don't hand control back.
+   *
+   * @param index The index of the transaction in the group
    */
-  private getAuthAddr(): Address {
-    return this.controlledAddress.value === this.app.address ? Address.zeroAddress : this.app.address;
+  private handsBackControl(index: uint64): boolean {
+    const txn = this.txnGroup[index];
+
+    return (
+      txn.applicationID === this.app &&
+      (txn.applicationArgs[0] === method('arc58_rekeyToPlugin(uint64)void') ||
+        txn.applicationArgs[0] === method('arc58_rekeyToPluginAsSetMember(uint64,string)void') ||
+        txn.applicationArgs[0] === method('arc58_rekeyToNamedPlugin(string)void') ||
+        txn.applicationArgs[0] === method('arc58_verifyAuthAddr()void'))
+    );
   }
 
   /**
-   * Create an abstracted account application.
-   * This is not part of ARC58 and implementation specific.
+   * Ensure that every app call until the next call to this app that either rekeys to the next plugin or
+   * verifies control was regained is a call to this app or a call to the plugin with one of the allowed method selectors.
+   * Calling other apps is rejected, since they could call the plugin with any method in an inner transaction.
+   * Inner transactions the plugin sends itself can't be checked, but its approval program is pinned.
    *
-   * @param controlledAddress The address of the abstracted account. If zeroAddress, then the address of the contract account will be used
-   * @param admin The admin for this app
+   * @param plugin The plugin app being rekeyed to
+   * @param methods The allowed method selectors. If empty, all methods are allowed
    */
-  createApplication(controlledAddress: Address, admin: Address): void {
-    verifyAppCallTxn(this.txn, {
-      sender: { includedIn: [controlledAddress, admin] },
-    });
+  private verifyPluginMethods(plugin: AppID, methods: bytes<4>[]): void {
+    if (methods.length === 0) return;
 
-    assert(admin !== controlledAddress);
+    for (let i = this.txn.groupIndex + 1; i < this.txnGroup.length; i += 1) {
+      if (this.handsBackControl(i)) break;
 
-    this.admin.value = admin;
-    this.controlledAddress.value = controlledAddress === Address.zeroAddress ? this.app.address : controlledAddress;
+      const txn = this.txnGroup[i];
+      if (txn.typeEnum === TransactionType.ApplicationCall && txn.applicationID !== this.app) {
+        assert(txn.applicationID === plugin && txn.numAppArgs > 0);
+
+        let allowed = false;
+        for (let j = 0; j < methods.length; j += 1) {
+          if (rawBytes(methods[j]) === txn.applicationArgs[0]) {
+            allowed = true;
+            break;
+          }
+        }
+
+        assert(allowed);
+      }
+    }
   }
 
   /**
-   * Attempt to change the admin for this app. Some implementations MAY not support this.
+   * Get the plugin delay that currently applies to new plugin permissions
+   */
+  private getPluginDelay(): uint64 {
+    if (globals.latestTimestamp >= this.pluginDelayChangesAt.value) return this.pluginDelay.value;
+
+    return this.previousPluginDelay.value;
+  }
+
+  /**
+   * Get the current timestamp or round
    *
-   * @param newAdmin The new admin
+   * @param useRounds Whether to get the round rather than the timestamp
    */
-  arc58_changeAdmin(newAdmin: Address): void {
-    verifyTxn(this.txn, { sender: this.admin.value });
-    this.admin.value = newAdmin;
+  private getNow(useRounds: boolean): uint64 {
+    if (useRounds) return globals.round;
+
+    return globals.latestTimestamp;
   }
 
   /**
-   * Get the admin of this app. This method SHOULD always be used rather than reading directly from state
-   * because different implementations may have different ways of determining the admin.
+   * Whether the plugin permission exists, is within its validity window, has not been used up or used too recently
+   * and the caller holds enough of the gate asset
+   *
+   * @param key The plugin permission to check
+   * @param caller The address calling the plugin
    */
-  arc58_getAdmin(): Address {
-    return this.admin.value;
+  private pluginIsUsable(key: PluginsKey, caller: Address): boolean {
+    if (this.paused.value || !this.plugins(key).exists) return false;
+
+    const info = this.plugins(key).value;
+    const now = this.getNow(info.useRounds);
+    return (
+      // Session keys are all revoked at once by changing the session epoch
+      (info.sessionEpoch === 0 || info.sessionEpoch === this.sessionEpoch.value) &&
+      sha256(key.application.approvalProgram) === info.approvalHash &&
+      globals.latestTimestamp >= info.activatesAt &&
+      info.start <= now &&
+      now <= info.end &&
+      (info.maxUses === 0 || info.uses < info.maxUses) &&
+      now >= info.lastUsed + info.cooldown &&
+      (info.gateAmount === 0 || caller.assetBalance(info.gateAsset) >= info.gateAmount)
+    );
   }
 
   /**
-   * Verify the abstracted account is rekeyed to this app
+   * Get the plugin permission to use for the given caller.
+   * The global permission is used if it is usable, otherwise the permission for the caller is used
+   *
+   * @param plugin The plugin app
+   * @param caller The address calling the plugin
    */
-  arc58_verifyAuthAddr(): void {
-    assert(this.controlledAddress.value.authAddr === this.getAuthAddr());
+  private getPluginKey(plugin: AppID, caller: Address): PluginsKey {
+    const globalKey: PluginsKey = { application: plugin, allowedCaller: globals.zeroAddress };
+    if (this.pluginIsUsable(globalKey, caller)) return globalKey;
+
+    return { application: plugin, allowedCaller: caller };
   }
 
   /**
-   * Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.
+   * Get the balance the controlled address holds of the given asset
    *
-   * @param addr The address to rekey to
-   * @param flash Whether or not this should be a flash rekey. If true, the rekey back to the app address must done in the same txn group as this call
+   * @param asset The asset, or zero for ALGO
    */
-  arc58_rekeyTo(addr: Address, flash: boolean): void {
-    verifyAppCallTxn(this.txn, { sender: this.admin.value });
+  private getControlledBalance(asset: AssetID): uint64 {
+    if (asset === AssetID.zeroIndex) return this.controlledAddress.value.balance;
 
-    sendPayment({
-      sender: this.controlledAddress.value,
-      receiver: addr,
-      rekeyTo: addr,
-      note: 'rekeying abstracted account',
-    });
+    return this.controlledAddress.value.assetBalance(asset);
+  }
 
-    if (flash) this.verifyRekeyToAbstractedAccount();
+  /**
+   * Record the balances of the controlled address before a plugin with spending limits is used
+   *
+   * @param key The plugin permission the limits belong to
+   */
+  private recordBalancesBefore(key: PluginsKey): void {
+    const limits = clone(this.spendingLimits(key).value);
+
+    for (let i = 0; i < limits.length; i += 1) {
+      limits[i].balanceBefore = this.getControlledBalance(limits[i].asset);
+    }
+
+    this.spendingLimits(key).value = limits;
   }
 
   /**
-   * Temporarily rekey to an approved plugin app address
+   * Add what the plugin spent to the current period of each limit and ensure no limit has been exceeded
    *
-   * @param plugin The app to rekey to
+   * @param key The plugin permission the limits belong to
    */
-  arc58_rekeyToPlugin(plugin: AppID): void {
-    const globalKey: PluginsKey = { application: plugin, allowedCaller: globals.zeroAddress };
+  private verifySpending(key: PluginsKey): void {
+    const limits = clone(this.spendingLimits(key).value);
 
-    // If this plugin is not approved globally, then it must be approved for this address
-    if (!this.plugins(globalKey).exists || this.plugins(globalKey).value < globals.latestTimestamp) {
-      const key: PluginsKey = { application: plugin, allowedCaller: this.txn.sender };
-      assert(this.plugins(key).exists && this.plugins(key).value > globals.latestTimestamp);
+    for (let i = 0; i < limits.length; i += 1) {
+      // Start a new period if the current one is over
+      if (globals.latestTimestamp >= limits[i].periodStart + limits[i].period) {
+        limits[i].periodStart = globals.latestTimestamp;
+        limits[i].spent = 0;
+      }
+
+      const balance = this.getControlledBalance(limits[i].asset);
+      if (balance < limits[i].balanceBefore) {
+        limits[i].spent = limits[i].spent + limits[i].balanceBefore - balance;
+      }
+
+      assert(limits[i].spent <= limits[i].amount);
     }
 
-    sendPayment({
-      sender: this.controlledAddress.value,
-      receiver: this.controlledAddress.value,
-      rekeyTo: plugin.address,
-      note: 'rekeying to plugin app',
-    });
+    this.spendingLimits(key).value = limits;
+  }
+
+  /**
+   * Approve a plugin, pinning the hash of its current approval program. Replaces the terms of an existing permission,
+   * but keeps the references to it and its gate.
+   *
+   * @param key The plugin permission
+   * @param start The timestamp (or round) when the permission starts
+   * @param end The timestamp (or round) when the permission expires
+   * @param useRounds Whether `start`, `end` and `cooldown` are rounds rather than timestamps
+   * @param cooldown The minimum number of seconds (or rounds) that must pass between uses of the plugin
+   * @param maxUses The maximum number of times the plugin can be used, or zero for no maximum
+   * @param methods The method selectors the allowed caller may call on the app. If empty, all methods are allowed
+   * @param named Whether the permission is being referenced by a name rather than added without one
+   * @param sessionEpoch The current session epoch if the permission is for a session key, otherwise zero
+   */
+  private setPlugin(
+    key: PluginsKey,
+    start: uint64,
+    end: uint64,
+    useRounds: boolean,
+    cooldown: uint64,
+    maxUses: uint64,
+    methods: bytes<4>[],
+    named: boolean,
+    sessionEpoch: uint64
+  ): void {
+    let unnamed = !named;
+    let names = named ? 1 : 0;
+    let gateAsset = AssetID.zeroIndex;
+    let gateAmount = 0;
+    if (this.plugins(key).exists) {
+      const existing = clone(this.plugins(key).value);
+      unnamed = unnamed || existing.unnamed;
+      names = names + existing.names;
+      gateAsset = existing.gateAsset;
+      gateAmount = existing.gateAmount;
+    }
 
-    this.verifyRekeyToAbstractedAccount();
+    this.plugins(key).value = {
+      start: start,
+      end: end,
+      useRounds: useRounds,
+      cooldown: cooldown,
+      maxUses: maxUses,
+      uses: 0,
+      lastUsed: 0,
+      activatesAt: globals.latestTimestamp + this.getPluginDelay(),
+      unnamed: unnamed,
+      names: names,
+      gateAsset: gateAsset,
+      gateAmount: gateAmount,
+      sessionEpoch: sessionEpoch,
+      approvalHash: sha256(key.application.approvalProgram),
+      methods: methods,
+    };
+
+    this.pluginAdded.log({ application: key.application, allowedCaller: key.allowedCaller, start: start, end: end });
   }
 
   /**
-   * Temporarily rekey to a named plugin app address
+   * Drop a reference to a plugin permission, removing the permission once nothing refers to it
    *
-   * @param name The name of the plugin to rekey to
+   * @param key The plugin permission
+   * @param named Whether the reference is a name rather than the permission having been added without one
    */
-  arc58_rekeyToNamedPlugin(name: string): void {
-    this.arc58_rekeyToPlugin(this.namedPlugins(name).value.application);
+  private releasePlugin(key: PluginsKey, named: boolean): void {
+    const info = clone(this.plugins(key).value);
+    if (named) {
+      info.names = info.names - 1;
+    } else {
+      assert(info.unnamed);
+      info.unnamed = false;
+    }
+
+    if (info.names === 0 && !info.unnamed) {
+      this.deletePlugin(key);
+    } else {
+      this.plugins(key).value = info;
+    }
   }
 
   /**
-   * Add an app to the list of approved plugins
+   * Delete a plugin permission along with its spending limits, if it has any
    *
-   * @param app The app to add
-   * @param allowedCaller The address of that's allowed to call the app
-   * or the global zero address for all addresses
-   * @param end The timestamp when the permission expires
+   * @param key The plugin permission
    */
-  arc58_addPlugin(app: AppID, allowedCaller: Address, end: uint64): void {
-    verifyTxn(this.txn, { sender: this.admin.value });
-    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
-    this.plugins(key).value = end;
+  private deletePlugin(key: PluginsKey): void {
+    this.plugins(key).delete();
+    if (this.spendingLimits(key).exists) this.spendingLimits(key).delete();
+
+    this.pluginRemoved.log({ application: key.application, allowedCaller: key.allowedCaller });
   }
 
   /**
-   * Remove an app from the list of approved plugins
+   * Verify a payment to the app address covers exactly the MBR added since `preMBR`.
+   * If boxes were shrunk or deleted instead, the freed MBR is sent back to the sender of the payment.
    *
-   * @param app The app to remove
+   * @param mbrPayment The payment
+   * @param preMBR The minimum balance of the app address before any boxes were changed
    */
-  arc58_removePlugin(app: AppID, allowedCaller: Address): void {
-    verifyTxn(this.txn, { sender: this.admin.value });
+  private verifyMbrPayment(mbrPayment: PayTxn, preMBR: uint64): void {
+    const postMBR = this.app.address.minBalance;
+    verifyPayTxn(mbrPayment, {
+      receiver: this.app.address,
+      amount: postMBR > preMBR ? postMBR - preMBR : 0,
+    });
 
-    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
-    this.plugins(key).delete();
+    if (preMBR > postMBR) this.refundMbr(mbrPayment.sender, preMBR);
   }
 
   /**
-   * Add a named plugin
+   * Send the MBR freed since `preMBR` from the app address
    *
-   * @param app The plugin app
-   * @param name The plugin name
+   * @param receiver The address to send the freed MBR to
+   * @param preMBR The minimum balance of the app address before any boxes were deleted
    */
-  arc58_addNamedPlugin(name: string, app: AppID, allowedCaller: Address, end: uint64): void {
-    verifyTxn(this.txn, { sender: this.admin.value });
-    assert(!this.namedPlugins(name).exists);
+  private refundMbr(receiver: Address, preMBR: uint64): void {
+    sendPayment({
+      receiver: receiver,
+      amount: preMBR - this.app.address.minBalance,
+    });
+  }
 
-    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
-    this.namedPlugins(name).value = key;
-    this.plugins(key).value = end;
+  /**
+   * Set a spending limit for a plugin, replacing any existing limit for the same asset
+   *
+   * @param key The plugin permission the limit applies to
+   * @param limit The limit to set
+   */
+  private setSpendingLimit(key: PluginsKey, limit: SpendingLimit): void {
+    if (!this.spendingLimits(key).exists) {
+      this.spendingLimits(key).value = [limit];
+      return;
+    }
+
+    const limits = clone(this.spendingLimits(key).value);
+    for (let i = 0; i < limits.length; i += 1) {
+      if (limits[i].asset === limit.asset) {
+        limits[i] = limit;
+        this.spendingLimits(key).value = limits;
+        return;
+      }
+    }
+
+    limits.push(limit);
+    this.spendingLimits(key).value = limits;
   }
 
   /**
-   * Remove a named plugin
+   * Get the address of a caller set, which is used as the allowed caller of the plugin permissions granted to the set.
+   * Since it is a hash, nobody holds the key for it.
    *
-   * @param name The plugin name
+   * @param callerSet The name of the caller set
+   */
+  private getCallerSetAddress(callerSet: string): Address {
+    return castBytes<Address>(sha256(callerSet));
+  }
+
+  /**
+   * Check the spending of the plugin that was last rekeyed to, if it has spending limits, now that control has been regained
    */
-  arc58_removeNamedPlugin(name: string): void {
-    verifyTxn(this.txn, { sender: this.admin.value });
+  private settleActivePlugin(): void {
+    if (this.activePlugin.exists) {
+      this.verifySpending(this.activePlugin.value);
+      this.activePlugin.delete();
+    }
+  }
 
-    const app = this.namedPlugins(name).value;
-    this.namedPlugins(name).delete();
-    this.plugins(app).delete();
+  /**
+   * If the plugin is sponsored, reimburse the caller for the fees of this call and of the calls it sends to the plugin
+   * before the next call to this app that hands control back. Other transactions of the caller are not reimbursed.
+   * At most the plugin's maximum fee is reimbursed for each transaction, which leaves room for the fees of the
+   * plugin's inner transactions without letting a caller drain the budget by overpaying.
+   * The fees, including the fee of the reimbursement, are deducted from the plugin's fee budget.
+   *
+   * @param plugin The plugin app being rekeyed to
+   */
+  private sponsorFees(plugin: AppID): void {
+    if (!this.feeBudgets(plugin).exists) return;
+
+    const feeBudget = clone(this.feeBudgets(plugin).value);
+    let fees = 0;
+    for (let i = this.txn.groupIndex; i < this.txnGroup.length; i += 1) {
+      if (i > this.txn.groupIndex && this.handsBackControl(i)) break;
+
+      const txn = this.txnGroup[i];
+      if (txn.sender === this.txn.sender && (i === this.txn.groupIndex || txn.applicationID === plugin)) {
+        fees = fees + (txn.fee > feeBudget.maxFee ? feeBudget.maxFee : txn.fee);
+      }
+    }
+
+    assert(fees + globals.minTxnFee <= feeBudget.budget);
+    feeBudget.budget = feeBudget.budget - fees - globals.minTxnFee;
+    this.feeBudgets(plugin).value = feeBudget;
+
+    sendPayment({
+      sender: this.controlledAddress.value,
+      receiver: this.txn.sender,
+      amount: fees,
+      fee: globals.minTxnFee,
+    });
+  }
+
+  /**
+   * Use a plugin permission to rekey the abstracted account to the plugin app address
+   *
+   * @param plugin The app to rekey to
+   * @param key The plugin permission to use
+   */
+  private rekeyToPlugin(plugin: AppID, key: PluginsKey): void {
+    assert(this.pluginIsUsable(key, this.txn.sender));
+
+    // When chaining plugins, the previous plugin has handed control back by now, otherwise the rekey below fails
+    this.settleActivePlugin();
+
+    const info = clone(this.plugins(key).value);
+    info.uses = info.uses + 1;
+    info.lastUsed = this.getNow(info.useRounds);
+    this.plugins(key).value = info;
+
+    this.verifyPluginMethods(plugin, info.methods);
+
+    // Reimbursed fees are not counted against the plugin's spending limits
+    this.sponsorFees(plugin);
+
+    // Spending can only be checked once control is regained after the plugin
+    const hasSpendingLimits = this.spendingLimits(key).exists;
+    if (hasSpendingLimits) {
+      this.recordBalancesBefore(key);
+      this.activePlugin.value = key;
+    }
+
+    sendPayment({
+      sender: this.controlledAddress.value,
+      receiver: this.controlledAddress.value,
+      rekeyTo: plugin.address,
+      note: 'rekeying to plugin app',
+    });
+
+    this.pluginUsed.log({ application: plugin, allowedCaller: key.allowedCaller, caller: this.txn.sender });
+
+    this.verifyRekeyToAbstractedAccount(hasSpendingLimits);
+  }
+
+  /**
+   * What the value of this.address.value.authAddr should be when this.controlledAddress
+   * is able to be controlled by this app. It will either be this.app.address or zeroAddress
+   */
+  private getAuthAddr(): Address {
+    return this.controlledAddress.value === this.app.address ? Address.zeroAddress : this.app.address;
+  }
+
+  /**
+   * Create an abstracted account application.
+   * This is not part of ARC58 and implementation specific.
+   *
+   * @param controlledAddress The address of the abstracted account. If zeroAddress, then the address of the contract account will be used
+   * @param admin The admin for this app
+   * @param adminSigners The distinct signers that approve admin operations instead of the admin.
+   * They must be registered with arc58_initAdminSigners once the app is funded
+   * @param adminThreshold The number of signers that must approve an admin operation, or zero to use the admin
+   */
+  createApplication(controlledAddress: Address, admin: Address, adminSigners: Address[], adminThreshold: uint64): void {
+    verifyAppCallTxn(this.txn, {
+      sender: { includedIn: [controlledAddress, admin] },
+    });
+
+    assert(admin !== controlledAddress);
+    assert(adminThreshold <= adminSigners.length);
+
+    // A repeated signer would count more than once towards the threshold. The signers start after the length prefix
+    const signers = rawBytes(adminSigners);
+    for (let i = 2; i < signers.length; i += 32) {
+      for (let j = i + 32; j < signers.length; j += 32) {
+        assert(extract3(signers, i, 32) !== extract3(signers, j, 32));
+      }
+    }
+
+    this.admin.value = admin;
+    this.adminThreshold.value = adminThreshold;
+    if (adminThreshold > 0) this.adminSignersHash.value = sha256(signers);
+
+    this.controlledAddress.value = controlledAddress === Address.zeroAddress ? this.app.address : controlledAddress;
+    this.guardianCount.value = 0;
+    this.recoveryThreshold.value = 0;
+    this.recoveryDelay.value = 0;
+    this.recoveryProposalLifetime.value = 0;
+    this.recoveryNonce.value = 0;
+    this.sessionEpoch.value = 1;
+    this.pluginDelay.value = 0;
+    this.previousPluginDelay.value = 0;
+    this.pluginDelayChangesAt.value = 0;
+    this.intentNonce.value = 0;
+    this.adminKeyType.value = ADMIN_KEY_ADDRESS;
+    this.paused.value = false;
+    this.pauseGuardian.value = globals.zeroAddress;
+
+    this.accountCreated.log({ controlledAddress: this.controlledAddress.value, admin: admin });
+  }
+
+  /**
+   * Register the signers given at creation. Boxes cannot be created during creation because the app is not funded yet.
+   * Can be called by anyone, but only once and only with the signers given at creation.
+   *
+   * @param adminSigners The signers given at creation
+   * @param mbrPayment A payment to the app address covering exactly the MBR of the signer boxes
+   */
+  arc58_initAdminSigners(adminSigners: Address[], mbrPayment: PayTxn): void {
+    assert(sha256(rawBytes(adminSigners)) === this.adminSignersHash.value);
+    const preMBR = this.app.address.minBalance;
+
+    for (let i = 0; i < adminSigners.length; i += 1) {
+      this.adminSigners(adminSigners[i]).value = 0;
+    }
+
+    this.adminSignersHash.delete();
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Authorize the admin method call that comes right after this one in the group with an intent signed by the admin,
+   * so anyone can relay admin operations and the admin key never needs ALGO. Only available when adminThreshold is zero.
+   * The admin signs `"arc58intent" + app ID + nonce + expiry + sha256(concatenated application args of the call)`
+   * with ed25519. The payment arguments of the method, such as its MBR payment, go between the two calls.
+   * The relayer must cover the fees of the three inner transactions used to increase the opcode budget.
+   *
+   * @param nonce The current intent nonce, so every intent can only be used once
+   * @param expiry The timestamp after which the intent can no longer be used
+   * @param signature The admin's signature of the intent
+   */
+  arc58_authorizeIntent(nonce: uint64, expiry: uint64, signature: bytes<64>): void {
+    const message = this.useIntent(nonce, expiry, ADMIN_KEY_ADDRESS);
+    assert(ed25519VerifyBare(message, signature, rawBytes(this.admin.value)));
+  }
+
+  /**
+   * Authorize the admin method call that comes right after this one in the group with a WebAuthn assertion
+   * of the admin's passkey. Only available when the admin is a passkey. The challenge of the assertion is
+   * the sha256 of the same message arc58_authorizeIntent verifies, and the user must have been present.
+   * The relayer must cover the fees of the four inner transactions used to increase the opcode budget.
+   *
+   * @param nonce The current intent nonce, so every intent can only be used once
+   * @param expiry The timestamp after which the intent can no longer be used
+   * @param authenticatorData The authenticator data of the assertion
+   * @param clientDataJSON The client data JSON of the assertion, which contains the base64url challenge
+   * @param signature The r and s components of the assertion's signature
+   */
+  arc58_authorizePasskeyIntent(
+    nonce: uint64,
+    expiry: uint64,
+    authenticatorData: bytes,
+    clientDataJSON: bytes,
+    signature: bytes<64>
+  ): void {
+    const challenge = sha256(this.useIntent(nonce, expiry, ADMIN_KEY_PASSKEY));
+
+    // The user present flag is the lowest bit of the flags, which follow the 32 byte relying party ID hash
+    assert(btoi(extract3(authenticatorData, 32, 1)) % 2 === 1);
+    assert(jsonRef('JSONString', clientDataJSON, 'type') === 'webauthn.get');
+
+    // A 32 byte challenge is encoded to 43 base64url characters without the padding
+    assert(
+      base64Decode('URLEncoding', concat(jsonRef('JSONString', clientDataJSON, 'challenge'), '=')) ===
+        rawBytes(challenge)
+    );
+
+    // The signature is r followed by s, which is the order the opcode takes them in
+    const key = this.adminKey.value;
+    assert(
+      ecdsaVerify(
+        'Secp256r1',
+        sha256(concat(authenticatorData, sha256(clientDataJSON))),
+        castBytes<bytes32>(extract3(signature, 0, 32)),
+        castBytes<bytes32>(extract3(signature, 32, 32)),
+        castBytes<bytes32>(extract3(key, 0, 32)),
+        castBytes<bytes32>(extract3(key, 32, 32))
+      )
+    );
+  }
+
+  /**
+   * Authorize the admin method call that comes right after this one in the group with EIP-712 typed data signed
+   * by the admin's Ethereum key, ie. with `eth_signTypedData_v4`. Only available when the admin is an Ethereum address.
+   * The typed data is an `Intent(uint64 app,uint64 nonce,uint64 expiry,bytes32 operation)` in the
+   * `{ name: "ARC58 Abstracted Account", version: "1" }` domain, where operation is the same hash of the application
+   * args arc58_authorizeIntent uses. The relayer must cover the fees of the four inner transactions used to increase
+   * the opcode budget.
+   *
+   * @param nonce The current intent nonce, so every intent can only be used once
+   * @param expiry The timestamp after which the intent can no longer be used
+   * @param signature The r, s and v components of the signature
+   */
+  arc58_authorizeEthereumIntent(nonce: uint64, expiry: uint64, signature: bytes<65>): void {
+    const message = this.useIntent(nonce, expiry, ADMIN_KEY_ETHEREUM);
+
+    // The first value is the hash of the Intent type
+    const structHash = keccak256(
+      concat(
+        concat(
+          concat(
+            concat(
+              hex('0xd9a71ea9f967fecee1fc9d96707818706f3b876a60fc55fb76b3c7c6f7bcf10b'),
+              concat(bzero(24), itob(this.app.id))
+            ),
+            concat(bzero(24), itob(nonce))
+          ),
+          concat(bzero(24), itob(expiry))
+        ),
+        extract3(message, 35, 32)
+      )
+    );
+
+    // 0x1901 followed by the hash of the domain
+    const digest = keccak256(
+      concat(hex('0x1901ef8274f9eb98d83e9de06c611404510b0fcc14c4472f143af37cc78d2a8165ca'), structHash)
+    );
+
+    const publicKey = ecdsaPkRecover(
+      'Secp256k1',
+      digest,
+      btoi(extract3(signature, 64, 1)) - 27,
+      castBytes<bytes32>(extract3(signature, 0, 32)),
+      castBytes<bytes32>(extract3(signature, 32, 32))
+    );
+    assert(extract3(keccak256(concat(publicKey.x, publicKey.y)), 12, 20) === this.adminKey.value);
+  }
+
+  /**
+   * Make a passkey the admin. Admin operations must then be authorized with arc58_authorizePasskeyIntent
+   * and the admin address becomes the global zero address, since no address can act as the admin.
+   *
+   * @param publicKey The x and y coordinates of the passkey's secp256r1 public key
+   */
+  arc58_setAdminPasskey(publicKey: bytes<64>): void {
+    this.verifyAdmin();
+
+    this.setAdmin(globals.zeroAddress);
+    this.adminKeyType.value = ADMIN_KEY_PASSKEY;
+    this.adminKey.value = rawBytes(publicKey);
+  }
+
+  /**
+   * Make an Ethereum key the admin. Admin operations must then be authorized with arc58_authorizeEthereumIntent
+   * and the admin address becomes the global zero address, since no Algorand address can act as the admin.
+   *
+   * @param ethereumAddress The 20 byte address of the Ethereum key
+   */
+  arc58_setAdminEthereumAddress(ethereumAddress: bytes<20>): void {
+    this.verifyAdmin();
+
+    this.setAdmin(globals.zeroAddress);
+    this.adminKeyType.value = ADMIN_KEY_ETHEREUM;
+    this.adminKey.value = rawBytes(ethereumAddress);
+  }
+
+  /**
+   * Approve an admin operation. Must be called by a signer. Once enough signers have approved, anyone can
+   * call the admin method with the application args the hash was computed from.
+   * The MBR of the approvals stays with the app address once the operation is executed.
+   *
+   * @param hash The sha256 hash of the concatenated application args of the admin method call
+   * @param mbrPayment A payment to the app address covering exactly the MBR added by the approval
+   */
+  arc58_approveOperation(hash: bytes32, mbrPayment: PayTxn): void {
+    assert(this.adminSigners(this.txn.sender).exists);
+    const preMBR = this.app.address.minBalance;
+
+    if (!this.adminApprovals(hash).exists) {
+      this.adminApprovals(hash).value = [this.txn.sender];
+    } else {
+      const approvals = clone(this.adminApprovals(hash).value);
+      for (let i = 0; i < approvals.length; i += 1) {
+        assert(approvals[i] !== this.txn.sender);
+      }
+
+      approvals.push(this.txn.sender);
+      this.adminApprovals(hash).value = approvals;
+    }
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Revoke an approval of an admin operation that has not been executed yet
+   *
+   * @param hash The hash of the operation
+   * @param mbrReceiver The address to send the MBR freed by removing the approval to
+   */
+  arc58_revokeApproval(hash: bytes32, mbrReceiver: Address): void {
+    const preMBR = this.app.address.minBalance;
+    const approvals = clone(this.adminApprovals(hash).value);
+
+    for (let i = 0; i < approvals.length; i += 1) {
+      if (approvals[i] === this.txn.sender) {
+        approvals.splice(i, 1);
+
+        if (approvals.length === 0) {
+          this.adminApprovals(hash).delete();
+        } else {
+          this.adminApprovals(hash).value = approvals;
+        }
+
+        this.refundMbr(mbrReceiver, preMBR);
+        return;
+      }
+    }
+
+    assert(false);
+  }
+
+  /**
+   * Attempt to change the admin for this app. Some implementations MAY not support this.
+   * The admin only changes once the new admin calls arc58_acceptAdmin, which ensures the new admin is an address
+   * someone controls. Replaces any pending admin change.
+   *
+   * @param newAdmin The new admin
+   * @param delay The number of seconds that must pass before the new admin can accept
+   */
+  arc58_changeAdmin(newAdmin: Address, delay: uint64): void {
+    this.verifyAdmin();
+    assert(newAdmin !== this.controlledAddress.value);
+
+    this.pendingAdmin.value = newAdmin;
+    this.pendingAdminReadyAt.value = globals.latestTimestamp + delay;
+
+    this.adminChangeStarted.log({ newAdmin: newAdmin, readyAt: this.pendingAdminReadyAt.value });
+  }
+
+  /**
+   * Accept becoming the admin of this app. Must be called by the pending admin once the delay has passed.
+   */
+  arc58_acceptAdmin(): void {
+    verifyTxn(this.txn, { sender: this.pendingAdmin.value });
+    assert(globals.latestTimestamp >= this.pendingAdminReadyAt.value);
+
+    this.setAdmin(this.pendingAdmin.value);
+    this.pendingAdmin.delete();
+    this.pendingAdminReadyAt.delete();
+  }
+
+  /**
+   * Cancel the pending admin change
+   */
+  arc58_cancelAdminChange(): void {
+    this.verifyAdmin();
+
+    this.pendingAdmin.delete();
+    this.pendingAdminReadyAt.delete();
+  }
+
+  /**
+   * Get the admin of this app. This method SHOULD always be used rather than reading directly from state
+   * because different implementations may have different ways of determining the admin.
+   */
+  arc58_getAdmin(): Address {
+    return this.admin.value;
+  }
+
+  /**
+   * Get the permission data of a plugin
+   *
+   * @param app The plugin app
+   * @param allowedCaller The address that's allowed to call the app
+   * or the global zero address for all addresses
+   */
+  @abi.readonly
+  arc58_getPluginInfo(app: AppID, allowedCaller: Address): PluginInfo {
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    return this.plugins(key).value;
+  }
+
+  /**
+   * Get the plugin permission a name refers to and its permission data
+   *
+   * @param name The plugin name
+   */
+  @abi.readonly
+  arc58_getNamedPlugin(name: string): NamedPluginInfo {
+    const key = this.namedPlugins(name).value;
+    return { key: key, info: this.plugins(key).value };
+  }
+
+  /**
+   * Whether the given address can currently rekey the abstracted account to the plugin
+   * via arc58_rekeyToPlugin. Spending limits are not checked since they depend on what the plugin does.
+   *
+   * @param app The plugin app
+   * @param caller The address that would call arc58_rekeyToPlugin
+   */
+  @abi.readonly
+  arc58_canCallPlugin(app: AppID, caller: Address): boolean {
+    return this.pluginIsUsable(this.getPluginKey(app, caller), caller);
+  }
+
+  /**
+   * Verify the abstracted account is rekeyed to this app
+   */
+  arc58_verifyAuthAddr(): void {
+    assert(this.controlledAddress.value.authAddr === this.getAuthAddr());
+    this.settleActivePlugin();
+  }
+
+  /**
+   * Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.
+   * This is not subject to the plugin delay, so the admin key can hand over the account immediately.
+   *
+   * @param addr The address to rekey to
+   * @param flash Whether or not this should be a flash rekey. If true, the rekey back to the app address must done in the same txn group as this call
+   */
+  arc58_rekeyTo(addr: Address, flash: boolean): void {
+    this.verifyAdmin();
+
+    sendPayment({
+      sender: this.controlledAddress.value,
+      receiver: addr,
+      rekeyTo: addr,
+      note: 'rekeying abstracted account',
+    });
+
+    this.rekeyed.log({ addr: addr, flash: flash });
+
+    if (flash) this.verifyRekeyToAbstractedAccount(false);
+  }
+
+  /**
+   * Temporarily rekey to an approved plugin app address.
+   * Several plugins can be used in one group by calling this before each of them, with one arc58_verifyAuthAddr at the end.
+   *
+   * @param plugin The app to rekey to
+   */
+  arc58_rekeyToPlugin(plugin: AppID): void {
+    // If this plugin is not approved globally, then it must be approved for this address
+    this.rekeyToPlugin(plugin, this.getPluginKey(plugin, this.txn.sender));
+  }
+
+  /**
+   * Temporarily rekey to a plugin app address that has been approved for a caller set the sender is a member of
+   *
+   * @param plugin The app to rekey to
+   * @param callerSet The name of the caller set
+   */
+  arc58_rekeyToPluginAsSetMember(plugin: AppID, callerSet: string): void {
+    const setAddress = this.getCallerSetAddress(callerSet);
+    assert(this.callerSetMembers({ callerSet: setAddress, member: this.txn.sender }).exists);
+
+    this.rekeyToPlugin(plugin, { application: plugin, allowedCaller: setAddress });
+  }
+
+  /**
+   * Temporarily rekey to a named plugin app address
+   *
+   * @param name The name of the plugin to rekey to
+   */
+  arc58_rekeyToNamedPlugin(name: string): void {
+    this.arc58_rekeyToPlugin(this.namedPlugins(name).value.application);
+  }
+
+  /**
+   * Add an app to the list of approved plugins
+   *
+   * @param app The app to add
+   * @param allowedCaller The address of that's allowed to call the app
+   * or the global zero address for all addresses
+   * @param start The timestamp (or round) when the permission starts, or zero to start immediately
+   * @param end The timestamp (or round) when the permission expires
+   * @param useRounds Whether `start`, `end` and `cooldown` are rounds rather than timestamps
+   * @param cooldown The minimum number of seconds (or rounds) that must pass between uses of the plugin
+   * @param maxUses The maximum number of times the plugin can be used, or zero for no maximum
+   * @param methods The method selectors the allowed caller may call on the app. If empty, all methods are allowed
+   * @param mbrPayment A payment to the app address covering exactly the MBR of the boxes created by this call
+   */
+  arc58_addPlugin(
+    app: AppID,
+    allowedCaller: Address,
+    start: uint64,
+    end: uint64,
+    useRounds: boolean,
+    cooldown: uint64,
+    maxUses: uint64,
+    methods: bytes<4>[],
+    mbrPayment: PayTxn
+  ): void {
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    this.verifyCanSetPlugin(this.plugins(key).exists, end, useRounds);
+    const preMBR = this.app.address.minBalance;
+
+    this.setPlugin(key, start, end, useRounds, cooldown, maxUses, methods, false, 0);
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Remove an app from the list of approved plugins. If names still refer to the permission, it is kept for them.
+   *
+   * @param app The app to remove
+   * @param allowedCaller The allowed caller of the plugin permission to remove
+   * @param mbrReceiver The address to send the MBR freed by removing the plugin to
+   */
+  arc58_removePlugin(app: AppID, allowedCaller: Address, mbrReceiver: Address): void {
+    this.verifyCanRemovePlugin();
+    const preMBR = this.app.address.minBalance;
+
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    this.releasePlugin(key, false);
+
+    this.refundMbr(mbrReceiver, preMBR);
+  }
+
+  /**
+   * Remove a plugin permission that has not become active yet, along with the names that refer to it.
+   * Can be called by the admin or any guardian.
+   *
+   * @param app The plugin app
+   * @param allowedCaller The allowed caller of the plugin permission to veto
+   * @param names Every name that refers to the plugin permission
+   * @param mbrReceiver The address to send the MBR freed by removing the plugin and its names to
+   */
+  arc58_vetoPlugin(app: AppID, allowedCaller: Address, names: string[], mbrReceiver: Address): void {
+    if (!this.guardians(this.txn.sender).exists) this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    const info = this.plugins(key).value;
+    assert(globals.latestTimestamp < info.activatesAt);
+
+    // A name can only be deleted once, so these are all the names that refer to the permission
+    for (let i = 0; i < info.names; i += 1) {
+      const name = names[i];
+      assert(this.namedPlugins(name).value === key);
+      this.namedPlugins(name).delete();
+      this.namedPluginRemoved.log({ name: name, application: app, allowedCaller: allowedCaller });
+    }
+
+    this.deletePlugin(key);
+
+    this.refundMbr(mbrReceiver, preMBR);
+  }
+
+  /**
+   * Set how long new plugin permissions must wait before they can be used. Permissions that were already added are not affected.
+   * Raising the delay applies immediately, but lowering it only applies once the current delay has passed,
+   * so a compromised admin key can't skip the veto window by lowering the delay first.
+   *
+   * @param delay The number of seconds, or zero to make new permissions usable immediately
+   */
+  arc58_setPluginDelay(delay: uint64): void {
+    this.verifyAdmin();
+
+    const current = this.getPluginDelay();
+    this.previousPluginDelay.value = current;
+    this.pluginDelayChangesAt.value = delay < current ? globals.latestTimestamp + current : 0;
+    this.pluginDelay.value = delay;
+  }
+
+  /**
+   * Add a named plugin
+   *
+   * @param app The plugin app
+   * @param name The plugin name
+   * @param allowedCaller The address of that's allowed to call the app
+   * or the global zero address for all addresses
+   * @param start The timestamp (or round) when the permission starts, or zero to start immediately
+   * @param end The timestamp (or round) when the permission expires
+   * @param useRounds Whether `start`, `end` and `cooldown` are rounds rather than timestamps
+   * @param cooldown The minimum number of seconds (or rounds) that must pass between uses of the plugin
+   * @param maxUses The maximum number of times the plugin can be used, or zero for no maximum
+   * @param methods The method selectors the allowed caller may call on the app. If empty, all methods are allowed
+   * @param mbrPayment A payment to the app address covering exactly the MBR of the boxes created by this call
+   */
+  arc58_addNamedPlugin(
+    name: string,
+    app: AppID,
+    allowedCaller: Address,
+    start: uint64,
+    end: uint64,
+    useRounds: boolean,
+    cooldown: uint64,
+    maxUses: uint64,
+    methods: bytes<4>[],
+    mbrPayment: PayTxn
+  ): void {
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    this.verifyCanSetPlugin(this.plugins(key).exists, end, useRounds);
+    assert(!this.namedPlugins(name).exists);
+    const preMBR = this.app.address.minBalance;
+
+    this.namedPlugins(name).value = key;
+    this.setPlugin(key, start, end, useRounds, cooldown, maxUses, methods, true, 0);
+
+    this.namedPluginAdded.log({ name: name, application: app, allowedCaller: allowedCaller });
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Remove a named plugin. The permission is kept if it was also added without a name or other names refer to it.
+   *
+   * @param name The plugin name
+   * @param mbrReceiver The address to send the MBR freed by removing the plugin to
+   */
+  arc58_removeNamedPlugin(name: string, mbrReceiver: Address): void {
+    this.verifyCanRemovePlugin();
+    const preMBR = this.app.address.minBalance;
+
+    const app = this.namedPlugins(name).value;
+    this.namedPlugins(name).delete();
+    this.releasePlugin(app, true);
+
+    this.namedPluginRemoved.log({ name: name, application: app.application, allowedCaller: app.allowedCaller });
+
+    this.refundMbr(mbrReceiver, preMBR);
+  }
+
+  /**
+   * Point an existing name at a new plugin permission in a single call, so the name can always be rekeyed to.
+   * The permission the name referred to is removed unless something else still refers to it.
+   *
+   * @param name The plugin name
+   * @param app The plugin app
+   * @param allowedCaller The address of that's allowed to call the app
+   * or the global zero address for all addresses
+   * @param start The timestamp (or round) when the permission starts, or zero to start immediately
+   * @param end The timestamp (or round) when the permission expires
+   * @param useRounds Whether `start`, `end` and `cooldown` are rounds rather than timestamps
+   * @param cooldown The minimum number of seconds (or rounds) that must pass between uses of the plugin
+   * @param maxUses The maximum number of times the plugin can be used, or zero for no maximum
+   * @param methods The method selectors the allowed caller may call on the app. If empty, all methods are allowed
+   * @param mbrPayment A payment to the app address covering exactly the MBR added by this call.
+   * If the call frees MBR instead, the payment must be zero and the freed MBR is sent back to its sender
+   */
+  arc58_updateNamedPlugin(
+    name: string,
+    app: AppID,
+    allowedCaller: Address,
+    start: uint64,
+    end: uint64,
+    useRounds: boolean,
+    cooldown: uint64,
+    maxUses: uint64,
+    methods: bytes<4>[],
+    mbrPayment: PayTxn
+  ): void {
+    this.verifyCanSetPlugin(true, end, useRounds);
+    const preMBR = this.app.address.minBalance;
+
+    const oldKey = this.namedPlugins(name).value;
+    this.releasePlugin(oldKey, true);
+    this.namedPluginRemoved.log({ name: name, application: oldKey.application, allowedCaller: oldKey.allowedCaller });
+
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    this.namedPlugins(name).value = key;
+    this.setPlugin(key, start, end, useRounds, cooldown, maxUses, methods, true, 0);
+    this.namedPluginAdded.log({ name: name, application: app, allowedCaller: allowedCaller });
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Give a named plugin a new name in a single call. The plugin permission is not changed.
+   *
+   * @param name The current name
+   * @param newName The new name, which must not be in use
+   * @param mbrPayment A payment to the app address covering exactly the MBR added by the longer name.
+   * If the new name is shorter, the payment must be zero and the freed MBR is sent back to its sender
+   */
+  arc58_renameNamedPlugin(name: string, newName: string, mbrPayment: PayTxn): void {
+    this.verifyCanSetPlugin(true, 0, false);
+    assert(!this.namedPlugins(newName).exists);
+    const preMBR = this.app.address.minBalance;
+
+    const key = this.namedPlugins(name).value;
+    this.namedPlugins(name).delete();
+    this.namedPlugins(newName).value = key;
+
+    this.namedPluginRemoved.log({ name: name, application: key.application, allowedCaller: key.allowedCaller });
+    this.namedPluginAdded.log({ name: newName, application: key.application, allowedCaller: key.allowedCaller });
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Add a member to a caller set. Plugins are granted to the set by using its address, the sha256 hash of its name,
+   * as the allowed caller.
+   *
+   * @param callerSet The name of the caller set
+   * @param member The address to add
+   * @param mbrPayment A payment to the app address covering exactly the MBR of the membership box
+   */
+  arc58_addCallerSetMember(callerSet: string, member: Address, mbrPayment: PayTxn): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    this.callerSetMembers({ callerSet: this.getCallerSetAddress(callerSet), member: member }).value = 0;
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Remove a member from a caller set
+   *
+   * @param callerSet The name of the caller set
+   * @param member The address to remove
+   * @param mbrReceiver The address to send the MBR freed by removing the member to
+   */
+  arc58_removeCallerSetMember(callerSet: string, member: Address, mbrReceiver: Address): void {
+    this.verifyCanRemovePlugin();
+    const preMBR = this.app.address.minBalance;
+
+    this.callerSetMembers({ callerSet: this.getCallerSetAddress(callerSet), member: member }).delete();
+
+    this.refundMbr(mbrReceiver, preMBR);
+  }
+
+  /**
+   * Only let callers that hold at least `amount` of `asset` use a plugin permission.
+   * With the global zero address as the allowed caller, this grants the plugin to every holder of the asset.
+   *
+   * @param app The plugin app
+   * @param allowedCaller The allowed caller of the plugin permission to gate
+   * @param asset The asset the caller must hold
+   * @param amount The amount the caller must hold, or zero to remove the gate
+   */
+  arc58_setPluginGate(app: AppID, allowedCaller: Address, asset: AssetID, amount: uint64): void {
+    this.verifyAdmin();
+
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    const info = clone(this.plugins(key).value);
+    info.gateAsset = asset;
+    info.gateAmount = amount;
+    this.plugins(key).value = info;
+  }
+
+  /**
+   * Let the abstracted account reimburse the fees of whoever uses a plugin, so callers like keeper bots
+   * don't spend ALGO. Replaces the remaining budget of the plugin.
+   *
+   * @param plugin The plugin app
+   * @param budget The total amount of microAlgos that can be spent on fees for the plugin
+   * @param maxFee The most that is reimbursed for the fee of a single transaction, which should cover the plugin's
+   * inner transactions
+   * @param mbrPayment A payment to the app address covering exactly the MBR of the budget box, if it is new
+   */
+  arc58_setFeeBudget(plugin: AppID, budget: uint64, maxFee: uint64, mbrPayment: PayTxn): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    this.feeBudgets(plugin).value = { budget: budget, maxFee: maxFee };
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Stop reimbursing the fees of a plugin's callers
+   *
+   * @param plugin The plugin app
+   * @param mbrReceiver The address to send the MBR freed by removing the budget to
+   */
+  arc58_removeFeeBudget(plugin: AppID, mbrReceiver: Address): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    this.feeBudgets(plugin).delete();
+
+    this.refundMbr(mbrReceiver, preMBR);
+  }
+
+  /**
+   * Set how much a plugin may spend of an asset within a period. Replaces any existing limit for the asset.
+   * The limits are checked when arc58_verifyAuthAddr is called after the plugin has been used.
+   *
+   * @param app The plugin app
+   * @param allowedCaller The allowed caller of the plugin permission the limit applies to
+   * @param asset The asset to limit, or zero for ALGO
+   * @param amount The maximum amount that can be spent within a period
+   * @param period The length of a period in seconds
+   * @param mbrPayment A payment to the app address covering exactly the MBR added by the limit, if it is new
+   */
+  arc58_setSpendingLimit(
+    app: AppID,
+    allowedCaller: Address,
+    asset: uint64,
+    amount: uint64,
+    period: uint64,
+    mbrPayment: PayTxn
+  ): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    this.setSpendingLimit(key, {
+      asset: AssetID.fromUint64(asset),
+      amount: amount,
+      period: period,
+      periodStart: globals.latestTimestamp,
+      spent: 0,
+      balanceBefore: 0,
+    });
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Remove the spending limit for an asset from a plugin
+   *
+   * @param app The plugin app
+   * @param allowedCaller The allowed caller of the plugin permission the limit applies to
+   * @param asset The asset to remove the limit for, or zero for ALGO
+   * @param mbrReceiver The address to send the MBR freed by removing the limit to
+   */
+  arc58_removeSpendingLimit(app: AppID, allowedCaller: Address, asset: uint64, mbrReceiver: Address): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    const key: PluginsKey = { application: app, allowedCaller: allowedCaller };
+    const limits = clone(this.spendingLimits(key).value);
+
+    for (let i = 0; i < limits.length; i += 1) {
+      if (limits[i].asset === AssetID.fromUint64(asset)) {
+        limits.splice(i, 1);
+
+        if (limits.length === 0) {
+          this.spendingLimits(key).delete();
+        } else {
+          this.spendingLimits(key).value = limits;
+        }
+
+        this.refundMbr(mbrReceiver, preMBR);
+        return;
+      }
+    }
+
+    assert(false);
+  }
+
+  /**
+   * Add a guardian that can approve recovering the account
+   *
+   * @param guardian The guardian to add
+   * @param mbrPayment A payment to the app address covering exactly the MBR of the guardian box
+   */
+  arc58_addGuardian(guardian: Address, mbrPayment: PayTxn): void {
+    this.verifyAdmin();
+    assert(!this.guardians(guardian).exists);
+    const preMBR = this.app.address.minBalance;
+
+    this.guardians(guardian).value = 0;
+    this.guardianCount.value = this.guardianCount.value + 1;
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Remove a guardian. If the guardian approved the pending recovery, their approval is revoked.
+   *
+   * @param guardian The guardian to remove
+   * @param mbrReceiver The address to send the MBR freed by removing the guardian to
+   */
+  arc58_removeGuardian(guardian: Address, mbrReceiver: Address): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    if (this.recovery.exists && this.guardians(guardian).value === this.recovery.value.nonce) {
+      this.recovery.value.approvals = this.recovery.value.approvals - 1;
+    }
+
+    this.guardians(guardian).delete();
+    this.guardianCount.value = this.guardianCount.value - 1;
+    assert(this.recoveryThreshold.value <= this.guardianCount.value);
+
+    this.updateRecoveryReadyAt();
+
+    this.refundMbr(mbrReceiver, preMBR);
+  }
+
+  /**
+   * Set how many guardians must approve a recovery, how long the admin has to cancel it
+   * and how long a proposal has to get enough approvals
+   *
+   * @param threshold The number of guardian approvals needed, or zero to disable recovery
+   * @param delay The number of seconds the admin has to cancel a recovery once it has enough approvals
+   * @param proposalLifetime The number of seconds after which a proposal without enough approvals can be replaced
+   */
+  arc58_setRecoveryConfig(threshold: uint64, delay: uint64, proposalLifetime: uint64): void {
+    this.verifyAdmin();
+    assert(threshold <= this.guardianCount.value);
+
+    this.recoveryThreshold.value = threshold;
+    this.recoveryDelay.value = delay;
+    this.recoveryProposalLifetime.value = proposalLifetime;
+
+    this.updateRecoveryReadyAt();
+  }
+
+  /**
+   * Propose replacing the admin. Must be called by a guardian and counts as their approval.
+   * Replaces the pending proposal if it didn't get enough approvals within the proposal lifetime,
+   * so a single guardian can't block recovery with a bad proposal.
+   *
+   * @param newAdmin The address that will become the admin
+   */
+  arc58_proposeRecovery(newAdmin: Address): void {
+    assert(this.recoveryThreshold.value > 0);
+    assert(
+      !this.recovery.exists ||
+        (this.recovery.value.readyAt === 0 && globals.latestTimestamp >= this.recovery.value.expiresAt)
+    );
+    assert(newAdmin !== this.controlledAddress.value);
+
+    this.recoveryNonce.value = this.recoveryNonce.value + 1;
+    this.recovery.value = {
+      newAdmin: newAdmin,
+      nonce: this.recoveryNonce.value,
+      approvals: 0,
+      readyAt: 0,
+      expiresAt: globals.latestTimestamp + this.recoveryProposalLifetime.value,
+    };
+
+    this.arc58_approveRecovery();
+  }
+
+  /**
+   * Approve the pending recovery. Must be called by a guardian. Once enough guardians have approved,
+   * the admin has the recovery delay to cancel it before it can be finalized.
+   */
+  arc58_approveRecovery(): void {
+    assert(this.guardians(this.txn.sender).value !== this.recovery.value.nonce);
+
+    this.guardians(this.txn.sender).value = this.recovery.value.nonce;
+    this.recovery.value.approvals = this.recovery.value.approvals + 1;
+
+    this.updateRecoveryReadyAt();
+  }
+
+  /**
+   * Revoke the sender's approval of the pending recovery. Must be called by a guardian that approved it.
+   */
+  arc58_revokeRecoveryApproval(): void {
+    assert(this.guardians(this.txn.sender).value === this.recovery.value.nonce);
+
+    // Proposal nonces start at one, so zero never matches a proposal
+    this.guardians(this.txn.sender).value = 0;
+    this.recovery.value.approvals = this.recovery.value.approvals - 1;
+
+    this.updateRecoveryReadyAt();
+  }
+
+  /**
+   * Cancel the pending recovery
+   */
+  arc58_cancelRecovery(): void {
+    this.verifyAdmin();
+    this.recovery.delete();
+  }
+
+  /**
+   * Replace the admin with the one from the pending recovery once it has enough approvals and the delay has passed.
+   * Can be called by anyone.
+   */
+  arc58_finalizeRecovery(): void {
+    assert(this.recovery.value.readyAt !== 0 && globals.latestTimestamp >= this.recovery.value.readyAt);
+
+    this.setAdmin(this.recovery.value.newAdmin);
+    this.recovery.delete();
+
+    // The lost admin key may have been used to start an admin change
+    this.pendingAdmin.delete();
+    this.pendingAdminReadyAt.delete();
+  }
+
+  /**
+   * Set the address that can pause the plugins in addition to the admin
+   *
+   * @param guardian The pause guardian, or the global zero address for none
+   */
+  arc58_setPauseGuardian(guardian: Address): void {
+    this.verifyAdmin();
+    this.pauseGuardian.value = guardian;
+  }
+
+  /**
+   * Stop every plugin from being used until the admin unpauses them. Can be called by the admin or the pause guardian.
+   */
+  arc58_pause(): void {
+    if (this.txn.sender !== this.pauseGuardian.value) this.verifyAdmin();
+
+    this.paused.value = true;
+    this.pausedChanged.log({ paused: true });
+  }
+
+  /**
+   * Let the plugins be used again
+   */
+  arc58_unpause(): void {
+    this.verifyAdmin();
+
+    this.paused.value = false;
+    this.pausedChanged.log({ paused: false });
+  }
+
+  /**
+   * Give an address a role that lets it manage plugins without being the admin.
+   * Replaces any existing role of the address.
+   *
+   * @param account The address to give the role to
+   * @param addPlugins Whether the address can add plugins
+   * @param removePlugins Whether the address can remove plugins
+   * @param maxDuration How many seconds in the future the permission of a plugin added by the address can end.
+   * The address can't add permissions measured in rounds
+   * @param mbrPayment A payment to the app address covering exactly the MBR of the role box, if it is new
+   */
+  arc58_grantRole(
+    account: Address,
+    addPlugins: boolean,
+    removePlugins: boolean,
+    maxDuration: uint64,
+    mbrPayment: PayTxn
+  ): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    this.roles(account).value = { addPlugins: addPlugins, removePlugins: removePlugins, maxDuration: maxDuration };
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Remove the role of an address
+   *
+   * @param account The address to remove the role from
+   * @param mbrReceiver The address to send the MBR freed by removing the role to
+   */
+  arc58_revokeRole(account: Address, mbrReceiver: Address): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    this.roles(account).delete();
+
+    this.refundMbr(mbrReceiver, preMBR);
+  }
+
+  /**
+   * Add a session key that can use the given plugins until it expires. Each plugin is approved for the session key
+   * as the allowed caller and its approval program is pinned, so the boxes for those permissions (and their spending limits) must be referenced.
+   * Like any new permission, they can only be used once the plugin delay has passed.
+   *
+   * @param sessionKey The address of the session key
+   * @param expiry The timestamp when the session key expires
+   * @param plugins The plugins the session key can use
+   * @param spendingLimit The maximum amount of ALGO each plugin can spend during the session, or zero for no limit
+   * @param mbrPayment A payment to the app address covering exactly the MBR of the boxes created by this call
+   */
+  arc58_addSessionKey(
+    sessionKey: Address,
+    expiry: uint64,
+    plugins: AppID[],
+    spendingLimit: uint64,
+    mbrPayment: PayTxn
+  ): void {
+    this.verifyAdmin();
+    assert(!this.sessions(sessionKey).exists);
+    assert(expiry > globals.latestTimestamp);
+    const preMBR = this.app.address.minBalance;
+
+    this.sessions(sessionKey).value = { expiry: expiry, epoch: this.sessionEpoch.value, plugins: plugins };
+
+    for (let i = 0; i < plugins.length; i += 1) {
+      const key: PluginsKey = { application: plugins[i], allowedCaller: sessionKey };
+      this.setPlugin(key, 0, expiry, false, 0, 0, [], false, this.sessionEpoch.value);
+
+      if (spendingLimit > 0) {
+        this.setSpendingLimit(key, {
+          asset: AssetID.zeroIndex,
+          amount: spendingLimit,
+          period: expiry - globals.latestTimestamp,
+          periodStart: globals.latestTimestamp,
+          spent: 0,
+          balanceBefore: 0,
+        });
+      }
+    }
+
+    this.verifyMbrPayment(mbrPayment, preMBR);
+  }
+
+  /**
+   * Remove a session key along with the plugin permissions and spending limits that were added for it
+   *
+   * @param sessionKey The address of the session key
+   * @param mbrReceiver The address to send the MBR freed by removing the session key to
+   */
+  arc58_removeSessionKey(sessionKey: Address, mbrReceiver: Address): void {
+    this.verifyAdmin();
+    const preMBR = this.app.address.minBalance;
+
+    const plugins = clone(this.sessions(sessionKey).value.plugins);
+    for (let i = 0; i < plugins.length; i += 1) {
+      this.deletePlugin({ application: plugins[i], allowedCaller: sessionKey });
+    }
+
+    this.sessions(sessionKey).delete();
+
+    this.refundMbr(mbrReceiver, preMBR);
+  }
+
+  /**
+   * Revoke every session key that has been added so far
+   */
+  arc58_revokeAllSessionKeys(): void {
+    this.verifyAdmin();
+    this.sessionEpoch.value = this.sessionEpoch.value + 1;
   }
 }
@@ -0,0 +1,178 @@
+import { Contract } from '@algorandfoundation/tealscript';
+import { AbstractedAccount } from './abstracted_account.algo';
+
+declare global {
+  // Programs longer than the 4096 byte limit of a stack value must be given to inner app creations in pages
+  // eslint-disable-next-line no-unused-vars
+  interface AppParams {
+    approvalProgramPages?: bytes[];
+  }
+}
+
+/** The bytecode of the abstracted account's clear program, which only contains `#pragma version 10` */
+const CLEAR_PROGRAM = hex('0x0a');
+
+/** The minimum balance of an app address without any assets or boxes */
+const ACCOUNT_MBR = 100_000;
+
+/** The MBR of the box of a plugin permission without methods: 2500 + 400 * (41 byte key + 126 byte value) */
+const PLUGIN_MBR = 69_300;
+
+export class AccountFactory extends Contract {
+  /** Target AVM 10 */
+  programVersion = 10;
+
+  /** The approval program of the abstracted accounts the factory deploys, uploaded by the creator of the factory */
+  program = BoxKey<bytes>({ key: 'program' });
+
+  /**
+   * Whether the program and standard plugins are final. Accounts can only be deployed once they are, so every account
+   * deployed by the factory runs the same program and wallets can check it against the program box
+   */
+  finalized = GlobalStateKey<boolean>({ key: 'f' });
+
+  /** The plugins that are installed on new accounts when requested */
+  standardPlugins = GlobalStateKey<AppID[]>({ key: 'sp' });
+
+  /** The abstracted accounts deployed for each admin, in the order they were deployed */
+  accounts = BoxMap<Address, AppID[]>({ prefix: 'a' });
+
+  /**
+   * Verify the sender is the creator of the factory and the factory is not finalized yet
+   */
+  private verifyCanConfigure(): void {
+    verifyAppCallTxn(this.txn, { sender: globals.creatorAddress });
+    assert(!this.finalized.value);
+  }
+
+  createApplication(): void {
+    this.finalized.value = false;
+    this.standardPlugins.value = [];
+  }
+
+  /**
+   * Create the box the approval program is uploaded to. The factory must be funded to cover the MBR of the box.
+   *
+   * @param size The length of the approval program
+   */
+  initProgram(size: uint64): void {
+    this.verifyCanConfigure();
+    this.program.create(size);
+  }
+
+  /**
+   * Upload part of the approval program
+   *
+   * @param offset The index in the program the data starts at
+   * @param data The part of the program
+   */
+  writeProgram(offset: uint64, data: bytes): void {
+    this.verifyCanConfigure();
+    this.program.replace(offset, data);
+  }
+
+  /**
+   * Set the plugins that are installed on new accounts when requested. Each is allowed for all callers, forever.
+   *
+   * @param plugins The plugin apps
+   */
+  setStandardPlugins(plugins: AppID[]): void {
+    this.verifyCanConfigure();
+    this.standardPlugins.value = plugins;
+  }
+
+  /**
+   * Lock the program and standard plugins so accounts can be deployed
+   */
+  finalize(): void {
+    this.verifyCanConfigure();
+    this.finalized.value = true;
+  }
+
+  /**
+   * Deploy an abstracted account for the sender and record it in the registry. The factory is the admin of the new
+   * account until the sender calls arc58_acceptAdmin on it, so the standard plugins can be installed before then.
+   *
+   * @param mbrPayment Payment to the factory covering the MBR of the account and the factory's records of it
+   * @returns The app ID of the new account
+   */
+  createAccount(mbrPayment: PayTxn): AppID {
+    assert(this.finalized.value);
+    const preMBR = this.app.address.minBalance;
+
+    // The factory is the admin for now. The program is longer than one 4096 byte page, but no longer than two
+    sendMethodCall<typeof AbstractedAccount.prototype.createApplication>({
+      methodArgs: [globals.zeroAddress, this.app.address, [], 0],
+      approvalProgramPages: [this.program.extract(0, 4096), this.program.extract(4096, this.program.size - 4096)],
+      clearStateProgram: CLEAR_PROGRAM,
+      globalNumUint: AbstractedAccount.schema.global.numUint,
+      globalNumByteSlice: AbstractedAccount.schema.global.numByteSlice,
+      extraProgramPages: 3,
+    });
+    const account = this.itxn.createdApplicationID;
+
+    sendPayment({ receiver: account.address, amount: ACCOUNT_MBR });
+    sendMethodCall<typeof AbstractedAccount.prototype.arc58_changeAdmin>({
+      applicationID: account,
+      methodArgs: [this.txn.sender, 0],
+    });
+
+    if (this.accounts(this.txn.sender).exists) {
+      this.accounts(this.txn.sender).value.push(account);
+    } else {
+      this.accounts(this.txn.sender).value = [account];
+    }
+
+    verifyPayTxn(mbrPayment, {
+      receiver: this.app.address,
+      amount: this.app.address.minBalance - preMBR + ACCOUNT_MBR,
+    });
+
+    return account;
+  }
+
+  /**
+   * Install the standard plugins on an account deployed by the factory. Must be called by the account's pending admin
+   * before it accepts becoming the admin, ie. in the same group as its arc58_acceptAdmin call.
+   * Each plugin is allowed for all callers, forever.
+   *
+   * @param account The account deployed by createAccount
+   * @param mbrPayment Payment to the factory covering the MBR of the plugin boxes
+   */
+  installStandardPlugins(account: AppID, mbrPayment: PayTxn): void {
+    assert(account.creator === this.app.address && (account.globalState('pa') as Address) === this.txn.sender);
+
+    const plugins = this.standardPlugins.value;
+    verifyPayTxn(mbrPayment, { receiver: this.app.address, amount: plugins.length * PLUGIN_MBR });
+
+    for (let i = 0; i < plugins.length; i += 1) {
+      sendMethodCall<typeof AbstractedAccount.prototype.arc58_addPlugin>({
+        applicationID: account,
+        methodArgs: [
+          plugins[i],
+          globals.zeroAddress,
+          0,
+          // The maximum uint64, so the permission never expires
+          btoi(hex('0xffffffffffffffff')),
+          false,
+          0,
+          0,
+          [],
+          { receiver: account.address, amount: PLUGIN_MBR },
+        ],
+      });
+    }
+  }
+
+  /**
+   * Get the abstracted accounts deployed for an admin, in the order they were deployed
+   *
+   * @param admin The address that created the accounts
+   */
+  @abi.readonly
+  getAccounts(admin: Address): AppID[] {
+    if (!this.accounts(admin).exists) return [];
+
+    return this.accounts(admin).value;
+  }
+}
@@ -29,12 +29,62 @@ import type { ABIResult, TransactionWithSigner } from 'algosdk'
 import { Algodv2, OnApplicationComplete, Transaction, AtomicTransactionComposer, modelsv2 } from 'algosdk'
 export const APP_SPEC: AppSpec = {
   "hints": {
-    "createApplication(address,address)void": {
+    "createApplication(address,address,address[],uint64)void": {
       "call_config": {
         "no_op": "CREATE"
       }
     },
-    "arc58_changeAdmin(address)void": {
+    "arc58_initAdminSigners(address[],pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_authorizeIntent(uint64,uint64,byte[64])void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_setAdminPasskey(byte[64])void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_setAdminEthereumAddress(byte[20])void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_approveOperation(byte[32],pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_revokeApproval(byte[32],address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_changeAdmin(address,uint64)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_acceptAdmin()void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_cancelAdminChange()void": {
       "call_config": {
         "no_op": "CALL"
       }
@@ -44,6 +94,21 @@ export const APP_SPEC: AppSpec = {
         "no_op": "CALL"
       }
     },
+    "arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_canCallPlugin(uint64,address)bool": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
     "arc58_verifyAuthAddr()void": {
       "call_config": {
         "no_op": "CALL"
@@ -59,27 +124,167 @@ export const APP_SPEC: AppSpec = {
         "no_op": "CALL"
       }
     },
+    "arc58_rekeyToPluginAsSetMember(uint64,string)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
     "arc58_rekeyToNamedPlugin(string)void": {
       "call_config": {
         "no_op": "CALL"
       }
     },
-    "arc58_addPlugin(uint64,address,uint64)void": {
+    "arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_removePlugin(uint64,address,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_vetoPlugin(uint64,address,string[],address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_setPluginDelay(uint64)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_removeNamedPlugin(string,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_renameNamedPlugin(string,string,pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_addCallerSetMember(string,address,pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_removeCallerSetMember(string,address,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_setPluginGate(uint64,address,uint64,uint64)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_setFeeBudget(uint64,uint64,uint64,pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_removeFeeBudget(uint64,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_removeSpendingLimit(uint64,address,uint64,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_addGuardian(address,pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_removeGuardian(address,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_setRecoveryConfig(uint64,uint64,uint64)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_proposeRecovery(address)void": {
       "call_config": {
         "no_op": "CALL"
       }
     },
-    "arc58_removePlugin(uint64,address)void": {
+    "arc58_approveRecovery()void": {
       "call_config": {
         "no_op": "CALL"
       }
     },
-    "arc58_addNamedPlugin(string,uint64,address,uint64)void": {
+    "arc58_revokeRecoveryApproval()void": {
       "call_config": {
         "no_op": "CALL"
       }
     },
-    "arc58_removeNamedPlugin(string)void": {
+    "arc58_cancelRecovery()void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_finalizeRecovery()void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_setPauseGuardian(address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_pause()void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_unpause()void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_grantRole(address,bool,bool,uint64,pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_revokeRole(address,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_removeSessionKey(address,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "arc58_revokeAllSessionKeys()void": {
       "call_config": {
         "no_op": "CALL"
       }
@@ -106,6 +311,86 @@ export const APP_SPEC: AppSpec = {
         "controlledAddress": {
           "type": "bytes",
           "key": "c"
+        },
+        "adminThreshold": {
+          "type": "uint64",
+          "key": "mt"
+        },
+        "adminSignersHash": {
+          "type": "bytes",
+          "key": "mh"
+        },
+        "pendingAdmin": {
+          "type": "bytes",
+          "key": "pa"
+        },
+        "pendingAdminReadyAt": {
+          "type": "uint64",
+          "key": "pr"
+        },
+        "intentNonce": {
+          "type": "uint64",
+          "key": "in"
+        },
+        "adminKeyType": {
+          "type": "uint64",
+          "key": "kt"
+        },
+        "adminKey": {
+          "type": "bytes",
+          "key": "ak"
+        },
+        "pluginDelay": {
+          "type": "uint64",
+          "key": "pd"
+        },
+        "previousPluginDelay": {
+          "type": "uint64",
+          "key": "pp"
+        },
+        "pluginDelayChangesAt": {
+          "type": "uint64",
+          "key": "pt"
+        },
+        "sessionEpoch": {
+          "type": "uint64",
+          "key": "se"
+        },
+        "activePlugin": {
+          "type": "bytes",
+          "key": "ap"
+        },
+        "guardianCount": {
+          "type": "uint64",
+          "key": "gc"
+        },
+        "recoveryThreshold": {
+          "type": "uint64",
+          "key": "rt"
+        },
+        "recoveryDelay": {
+          "type": "uint64",
+          "key": "rd"
+        },
+        "recoveryProposalLifetime": {
+          "type": "uint64",
+          "key": "rl"
+        },
+        "recoveryNonce": {
+          "type": "uint64",
+          "key": "rn"
+        },
+        "recovery": {
+          "type": "bytes",
+          "key": "r"
+        },
+        "paused": {
+          "type": "bytes",
+          "key": "ps"
+        },
+        "pauseGuardian": {
+          "type": "bytes",
+          "key": "pg"
         }
       },
       "reserved": {}
@@ -113,8 +398,8 @@ export const APP_SPEC: AppSpec = {
   },
   "state": {
     "global": {
-      "num_byte_slices": 2,
-      "num_uints": 0
+      "num_byte_slices": 9,
+      "num_uints": 13
     },
     "local": {
       "num_byte_slices": 0,
@@ -122,7 +407,7 @@ export const APP_SPEC: AppSpec = {
     }
   },
   "source": {
-    "approval": "I3ByYWdtYSB2ZXJzaW9uIDEwCgovLyBUaGlzIFRFQUwgd2FzIGdlbmVyYXRlZCBieSBURUFMU2NyaXB0IHYwLjkwLjIKLy8gaHR0cHM6Ly9naXRodWIuY29tL2FsZ29yYW5kZm91bmRhdGlvbi9URUFMU2NyaXB0CgovLyBUaGlzIGNvbnRyYWN0IGlzIGNvbXBsaWFudCB3aXRoIGFuZC9vciBpbXBsZW1lbnRzIHRoZSBmb2xsb3dpbmcgQVJDczogWyBBUkM0IF0KCi8vIFRoZSBmb2xsb3dpbmcgdGVuIGxpbmVzIG9mIFRFQUwgaGFuZGxlIGluaXRpYWwgcHJvZ3JhbSBmbG93Ci8vIFRoaXMgcGF0dGVybiBpcyB1c2VkIHRvIG1ha2UgaXQgZWFzeSBmb3IgYW55b25lIHRvIHBhcnNlIHRoZSBzdGFydCBvZiB0aGUgcHJvZ3JhbSBhbmQgZGV0ZXJtaW5lIGlmIGEgc3BlY2lmaWMgYWN0aW9uIGlzIGFsbG93ZWQKLy8gSGVyZSwgYWN0aW9uIHJlZmVycyB0byB0aGUgT25Db21wbGV0ZSBpbiBjb21iaW5hdGlvbiB3aXRoIHdoZXRoZXIgdGhlIGFwcCBpcyBiZWluZyBjcmVhdGVkIG9yIGNhbGxlZAovLyBFdmVyeSBwb3NzaWJsZSBhY3Rpb24gZm9yIHRoaXMgY29udHJhY3QgaXMgcmVwcmVzZW50ZWQgaW4gdGhlIHN3aXRjaCBzdGF0ZW1lbnQKLy8gSWYgdGhlIGFjdGlvbiBpcyBub3QgaW1wbGVtZW50ZWQgaW4gdGhlIGNvbnRyYWN0LCBpdHMgcmVzcGVjdGl2ZSBicmFuY2ggd2lsbCBiZSAiKk5PVF9JTVBMRU1FTlRFRCIgd2hpY2gganVzdCBjb250YWlucyAiZXJyIgp0eG4gQXBwbGljYXRpb25JRAohCmludCA2CioKdHhuIE9uQ29tcGxldGlvbgorCnN3aXRjaCAqY2FsbF9Ob09wICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVEICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqY3JlYXRlX05vT3AgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVEICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVECgoqTk9UX0lNUExFTUVOVEVEOgoJZXJyCgovLyB2ZXJpZnlSZWtleVRvQWJzdHJhY3RlZEFjY291bnQoKTogdm9pZAovLwovLyBFbnN1cmUgdGhhdCBieSB0aGUgZW5kIG9mIHRoZSBncm91cCB0aGUgYWJzdHJhY3RlZCBhY2NvdW50IGhhcyBjb250cm9sIG9mIGl0cyBhZGRyZXNzCnZlcmlmeVJla2V5VG9BYnN0cmFjdGVkQWNjb3VudDoKCXByb3RvIDAgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXBuIDIKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MzEKCS8vIHJla2V5ZWRCYWNrID0gZmFsc2UKCWludCAwCglmcmFtZV9idXJ5IDAgLy8gcmVrZXllZEJhY2s6IGJvb2wKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MzMKCS8vIGZvciAobGV0IGkgPSB0aGlzLnR4bi5ncm91cEluZGV4OyBpIDwgdGhpcy50eG5Hcm91cC5sZW5ndGg7IGkgKz0gMSkKCXR4biBHcm91cEluZGV4CglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgoqZm9yXzA6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MzMKCS8vIGkgPCB0aGlzLnR4bkdyb3VwLmxlbmd0aAoJZnJhbWVfZGlnIDEgLy8gaTogdWludDY0CglnbG9iYWwgR3JvdXBTaXplCgk8CglieiAqZm9yXzBfZW5kCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM0CgkvLyB0eG4gPSB0aGlzLnR4bkdyb3VwW2ldCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWZyYW1lX2J1cnkgMiAvLyB0eG46IHR4bgoKCS8vICppZjBfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MzcKCS8vIHR4bi5zZW5kZXIgPT09IHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUgJiYgdHhuLnJla2V5VG8gPT09IHRoaXMuZ2V0QXV0aEFkZHIoKQoJZnJhbWVfZGlnIDIgLy8gdHhuOiB0eG4KCWd0eG5zIFNlbmRlcgoJYnl0ZSAweDYzIC8vICJjIgoJYXBwX2dsb2JhbF9nZXQKCT09CglkdXAKCWJ6ICpza2lwX2FuZDAKCWZyYW1lX2RpZyAyIC8vIHR4bjogdHhuCglndHhucyBSZWtleVRvCgljYWxsc3ViIGdldEF1dGhBZGRyCgk9PQoJJiYKCipza2lwX2FuZDA6CglieiAqaWYwX2VuZAoKCS8vICppZjBfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM4CgkvLyByZWtleWVkQmFjayA9IHRydWUKCWludCAxCglmcmFtZV9idXJ5IDAgLy8gcmVrZXllZEJhY2s6IGJvb2wKCWIgKmZvcl8wX2VuZAoKKmlmMF9lbmQ6CgkvLyAqaWYxX2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ0CgkvLyB0eG4udHlwZUVudW0gPT09IFRyYW5zYWN0aW9uVHlwZS5BcHBsaWNhdGlvbkNhbGwgJiYKCS8vICAgICAgICAgdHhuLmFwcGxpY2F0aW9uSUQgPT09IHRoaXMuYXBwICYmCgkvLyAgICAgICAgIHR4bi5udW1BcHBBcmdzID09PSAxICYmCgkvLyAgICAgICAgIHR4bi5hcHBsaWNhdGlvbkFyZ3NbMF0gPT09IG1ldGhvZCgnYXJjNThfdmVyaWZ5QXV0aEFkZHIoKXZvaWQnKQoJZnJhbWVfZGlnIDIgLy8gdHhuOiB0eG4KCWd0eG5zIFR5cGVFbnVtCglpbnQgYXBwbAoJPT0KCWR1cAoJYnogKnNraXBfYW5kMQoJZnJhbWVfZGlnIDIgLy8gdHhuOiB0eG4KCWd0eG5zIEFwcGxpY2F0aW9uSUQKCXR4bmEgQXBwbGljYXRpb25zIDAKCT09CgkmJgoKKnNraXBfYW5kMToKCWR1cAoJYnogKnNraXBfYW5kMgoJZnJhbWVfZGlnIDIgLy8gdHhuOiB0eG4KCWd0eG5zIE51bUFwcEFyZ3MKCWludCAxCgk9PQoJJiYKCipza2lwX2FuZDI6CglkdXAKCWJ6ICpza2lwX2FuZDMKCWZyYW1lX2RpZyAyIC8vIHR4bjogdHhuCglndHhucyBBcHBsaWNhdGlvbkFyZ3MgMAoJbWV0aG9kICJhcmM1OF92ZXJpZnlBdXRoQWRkcigpdm9pZCIKCT09CgkmJgoKKnNraXBfYW5kMzoKCWJ6ICppZjFfZW5kCgoJLy8gKmlmMV9jb25zZXF1ZW50CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDkKCS8vIHJla2V5ZWRCYWNrID0gdHJ1ZQoJaW50IDEKCWZyYW1lX2J1cnkgMCAvLyByZWtleWVkQmFjazogYm9vbAoJYiAqZm9yXzBfZW5kCgoqaWYxX2VuZDoKCipmb3JfMF9jb250aW51ZToKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozMwoJLy8gaSArPSAxCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgliICpmb3JfMAoKKmZvcl8wX2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1NAoJLy8gYXNzZXJ0KHJla2V5ZWRCYWNrKQoJZnJhbWVfZGlnIDAgLy8gcmVrZXllZEJhY2s6IGJvb2wKCWFzc2VydAoJcmV0c3ViCgovLyBnZXRBdXRoQWRkcigpOiBBZGRyZXNzCi8vCi8vIFdoYXQgdGhlIHZhbHVlIG9mIHRoaXMuYWRkcmVzcy52YWx1ZS5hdXRoQWRkciBzaG91bGQgYmUgd2hlbiB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzCi8vIGlzIGFibGUgdG8gYmUgY29udHJvbGxlZCBieSB0aGlzIGFwcC4gSXQgd2lsbCBlaXRoZXIgYmUgdGhpcy5hcHAuYWRkcmVzcyBvciB6ZXJvQWRkcmVzcwpnZXRBdXRoQWRkcjoKCXByb3RvIDAgMQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MgoJLy8gcmV0dXJuIHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUgPT09IHRoaXMuYXBwLmFkZHJlc3MgPyBBZGRyZXNzLnplcm9BZGRyZXNzIDogdGhpcy5hcHAuYWRkcmVzczsKCWJ5dGUgMHg2MyAvLyAiYyIKCWFwcF9nbG9iYWxfZ2V0CglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJPT0KCWJ6ICp0ZXJuYXJ5MF9mYWxzZQoJZ2xvYmFsIFplcm9BZGRyZXNzCgliICp0ZXJuYXJ5MF9lbmQKCip0ZXJuYXJ5MF9mYWxzZToKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCgoqdGVybmFyeTBfZW5kOgoJcmV0c3ViCgovLyBjcmVhdGVBcHBsaWNhdGlvbihhZGRyZXNzLGFkZHJlc3Mpdm9pZAoqYWJpX3JvdXRlX2NyZWF0ZUFwcGxpY2F0aW9uOgoJLy8gYWRtaW46IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBjb250cm9sbGVkQWRkcmVzczogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGV4ZWN1dGUgY3JlYXRlQXBwbGljYXRpb24oYWRkcmVzcyxhZGRyZXNzKXZvaWQKCWNhbGxzdWIgY3JlYXRlQXBwbGljYXRpb24KCWludCAxCglyZXR1cm4KCi8vIGNyZWF0ZUFwcGxpY2F0aW9uKGNvbnRyb2xsZWRBZGRyZXNzOiBBZGRyZXNzLCBhZG1pbjogQWRkcmVzcyk6IHZvaWQKLy8KLy8gQ3JlYXRlIGFuIGFic3RyYWN0ZWQgYWNjb3VudCBhcHBsaWNhdGlvbi4KLy8gVGhpcyBpcyBub3QgcGFydCBvZiBBUkM1OCBhbmQgaW1wbGVtZW50YXRpb24gc3BlY2lmaWMuCi8vCi8vIEBwYXJhbSBjb250cm9sbGVkQWRkcmVzcyBUaGUgYWRkcmVzcyBvZiB0aGUgYWJzdHJhY3RlZCBhY2NvdW50LiBJZiB6ZXJvQWRkcmVzcywgdGhlbiB0aGUgYWRkcmVzcyBvZiB0aGUgY29udHJhY3QgYWNjb3VudCB3aWxsIGJlIHVzZWQKLy8gQHBhcmFtIGFkbWluIFRoZSBhZG1pbiBmb3IgdGhpcyBhcHAKY3JlYXRlQXBwbGljYXRpb246Cglwcm90byAyIDAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NzMKCS8vIHZlcmlmeUFwcENhbGxUeG4odGhpcy50eG4sIHsKCS8vICAgICAgIHNlbmRlcjogeyBpbmNsdWRlZEluOiBbY29udHJvbGxlZEFkZHJlc3MsIGFkbWluXSB9LAoJLy8gICAgIH0pCgkvLyB2ZXJpZnkgc2VuZGVyCgl0eG4gU2VuZGVyCglmcmFtZV9kaWcgLTEgLy8gY29udHJvbGxlZEFkZHJlc3M6IEFkZHJlc3MKCT09Cgl0eG4gU2VuZGVyCglmcmFtZV9kaWcgLTIgLy8gYWRtaW46IEFkZHJlc3MKCT09Cgl8fAoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjc3CgkvLyBhc3NlcnQoYWRtaW4gIT09IGNvbnRyb2xsZWRBZGRyZXNzKQoJZnJhbWVfZGlnIC0yIC8vIGFkbWluOiBBZGRyZXNzCglmcmFtZV9kaWcgLTEgLy8gY29udHJvbGxlZEFkZHJlc3M6IEFkZHJlc3MKCSE9Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NzkKCS8vIHRoaXMuYWRtaW4udmFsdWUgPSBhZG1pbgoJYnl0ZSAweDYxIC8vICJhIgoJZnJhbWVfZGlnIC0yIC8vIGFkbWluOiBBZGRyZXNzCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4MAoJLy8gdGhpcy5jb250cm9sbGVkQWRkcmVzcy52YWx1ZSA9IGNvbnRyb2xsZWRBZGRyZXNzID09PSBBZGRyZXNzLnplcm9BZGRyZXNzID8gdGhpcy5hcHAuYWRkcmVzcyA6IGNvbnRyb2xsZWRBZGRyZXNzCglieXRlIDB4NjMgLy8gImMiCglmcmFtZV9kaWcgLTEgLy8gY29udHJvbGxlZEFkZHJlc3M6IEFkZHJlc3MKCWdsb2JhbCBaZXJvQWRkcmVzcwoJPT0KCWJ6ICp0ZXJuYXJ5MV9mYWxzZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWIgKnRlcm5hcnkxX2VuZAoKKnRlcm5hcnkxX2ZhbHNlOgoJZnJhbWVfZGlnIC0xIC8vIGNvbnRyb2xsZWRBZGRyZXNzOiBBZGRyZXNzCgoqdGVybmFyeTFfZW5kOgoJYXBwX2dsb2JhbF9wdXQKCXJldHN1YgoKLy8gYXJjNThfY2hhbmdlQWRtaW4oYWRkcmVzcyl2b2lkCiphYmlfcm91dGVfYXJjNThfY2hhbmdlQWRtaW46CgkvLyBuZXdBZG1pbjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGV4ZWN1dGUgYXJjNThfY2hhbmdlQWRtaW4oYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X2NoYW5nZUFkbWluCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9jaGFuZ2VBZG1pbihuZXdBZG1pbjogQWRkcmVzcyk6IHZvaWQKLy8KLy8gQXR0ZW1wdCB0byBjaGFuZ2UgdGhlIGFkbWluIGZvciB0aGlzIGFwcC4gU29tZSBpbXBsZW1lbnRhdGlvbnMgTUFZIG5vdCBzdXBwb3J0IHRoaXMuCi8vCi8vIEBwYXJhbSBuZXdBZG1pbiBUaGUgbmV3IGFkbWluCmFyYzU4X2NoYW5nZUFkbWluOgoJcHJvdG8gMSAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg5CgkvLyB2ZXJpZnlUeG4odGhpcy50eG4sIHsgc2VuZGVyOiB0aGlzLmFkbWluLnZhbHVlIH0pCgkvLyB2ZXJpZnkgc2VuZGVyCgl0eG4gU2VuZGVyCglieXRlIDB4NjEgLy8gImEiCglhcHBfZ2xvYmFsX2dldAoJPT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5MAoJLy8gdGhpcy5hZG1pbi52YWx1ZSA9IG5ld0FkbWluCglieXRlIDB4NjEgLy8gImEiCglmcmFtZV9kaWcgLTEgLy8gbmV3QWRtaW46IEFkZHJlc3MKCWFwcF9nbG9iYWxfcHV0CglyZXRzdWIKCi8vIGFyYzU4X2dldEFkbWluKClhZGRyZXNzCiphYmlfcm91dGVfYXJjNThfZ2V0QWRtaW46CgkvLyBUaGUgQUJJIHJldHVybiBwcmVmaXgKCWJ5dGUgMHgxNTFmN2M3NQoKCS8vIGV4ZWN1dGUgYXJjNThfZ2V0QWRtaW4oKWFkZHJlc3MKCWNhbGxzdWIgYXJjNThfZ2V0QWRtaW4KCWNvbmNhdAoJbG9nCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9nZXRBZG1pbigpOiBBZGRyZXNzCi8vCi8vIEdldCB0aGUgYWRtaW4gb2YgdGhpcyBhcHAuIFRoaXMgbWV0aG9kIFNIT1VMRCBhbHdheXMgYmUgdXNlZCByYXRoZXIgdGhhbiByZWFkaW5nIGRpcmVjdGx5IGZyb20gc3RhdGUKLy8gYmVjYXVzZSBkaWZmZXJlbnQgaW1wbGVtZW50YXRpb25zIG1heSBoYXZlIGRpZmZlcmVudCB3YXlzIG9mIGRldGVybWluaW5nIHRoZSBhZG1pbi4KYXJjNThfZ2V0QWRtaW46Cglwcm90byAwIDEKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTgKCS8vIHJldHVybiB0aGlzLmFkbWluLnZhbHVlOwoJYnl0ZSAweDYxIC8vICJhIgoJYXBwX2dsb2JhbF9nZXQKCXJldHN1YgoKLy8gYXJjNThfdmVyaWZ5QXV0aEFkZHIoKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF92ZXJpZnlBdXRoQWRkcjoKCS8vIGV4ZWN1dGUgYXJjNThfdmVyaWZ5QXV0aEFkZHIoKXZvaWQKCWNhbGxzdWIgYXJjNThfdmVyaWZ5QXV0aEFkZHIKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3ZlcmlmeUF1dGhBZGRyKCk6IHZvaWQKLy8KLy8gVmVyaWZ5IHRoZSBhYnN0cmFjdGVkIGFjY291bnQgaXMgcmVrZXllZCB0byB0aGlzIGFwcAphcmM1OF92ZXJpZnlBdXRoQWRkcjoKCXByb3RvIDAgMAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMDUKCS8vIGFzc2VydCh0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlLmF1dGhBZGRyID09PSB0aGlzLmdldEF1dGhBZGRyKCkpCglieXRlIDB4NjMgLy8gImMiCglhcHBfZ2xvYmFsX2dldAoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RBdXRoQWRkcgoJcG9wCgljYWxsc3ViIGdldEF1dGhBZGRyCgk9PQoJYXNzZXJ0CglyZXRzdWIKCi8vIGFyYzU4X3Jla2V5VG8oYWRkcmVzcyxib29sKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9yZWtleVRvOgoJLy8gZmxhc2g6IGJvb2wKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMQoJPT0KCWFzc2VydAoJaW50IDAKCWdldGJpdAoKCS8vIGFkZHI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBleGVjdXRlIGFyYzU4X3Jla2V5VG8oYWRkcmVzcyxib29sKXZvaWQKCWNhbGxzdWIgYXJjNThfcmVrZXlUbwoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmVrZXlUbyhhZGRyOiBBZGRyZXNzLCBmbGFzaDogYm9vbGVhbik6IHZvaWQKLy8KLy8gUmVrZXkgdGhlIGFic3RyYWN0ZWQgYWNjb3VudCB0byBhbm90aGVyIGFkZHJlc3MuIFByaW1hcmlseSB1c2VmdWwgZm9yIHJla2V5aW5nIHRvIGFuIEVPQS4KLy8KLy8gQHBhcmFtIGFkZHIgVGhlIGFkZHJlc3MgdG8gcmVrZXkgdG8KLy8gQHBhcmFtIGZsYXNoIFdoZXRoZXIgb3Igbm90IHRoaXMgc2hvdWxkIGJlIGEgZmxhc2ggcmVrZXkuIElmIHRydWUsIHRoZSByZWtleSBiYWNrIHRvIHRoZSBhcHAgYWRkcmVzcyBtdXN0IGRvbmUgaW4gdGhlIHNhbWUgdHhuIGdyb3VwIGFzIHRoaXMgY2FsbAphcmM1OF9yZWtleVRvOgoJcHJvdG8gMiAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNQoJLy8gdmVyaWZ5QXBwQ2FsbFR4bih0aGlzLnR4biwgeyBzZW5kZXI6IHRoaXMuYWRtaW4udmFsdWUgfSkKCS8vIHZlcmlmeSBzZW5kZXIKCXR4biBTZW5kZXIKCWJ5dGUgMHg2MSAvLyAiYSIKCWFwcF9nbG9iYWxfZ2V0Cgk9PQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNwoJLy8gc2VuZFBheW1lbnQoewoJLy8gICAgICAgc2VuZGVyOiB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlLAoJLy8gICAgICAgcmVjZWl2ZXI6IGFkZHIsCgkvLyAgICAgICByZWtleVRvOiBhZGRyLAoJLy8gICAgICAgbm90ZTogJ3Jla2V5aW5nIGFic3RyYWN0ZWQgYWNjb3VudCcsCgkvLyAgICAgfSkKCWl0eG5fYmVnaW4KCWludCBwYXkKCWl0eG5fZmllbGQgVHlwZUVudW0KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTE4CgkvLyBzZW5kZXI6IHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUKCWJ5dGUgMHg2MyAvLyAiYyIKCWFwcF9nbG9iYWxfZ2V0CglpdHhuX2ZpZWxkIFNlbmRlcgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTkKCS8vIHJlY2VpdmVyOiBhZGRyCglmcmFtZV9kaWcgLTEgLy8gYWRkcjogQWRkcmVzcwoJaXR4bl9maWVsZCBSZWNlaXZlcgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMjAKCS8vIHJla2V5VG86IGFkZHIKCWZyYW1lX2RpZyAtMSAvLyBhZGRyOiBBZGRyZXNzCglpdHhuX2ZpZWxkIFJla2V5VG8KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTIxCgkvLyBub3RlOiAncmVrZXlpbmcgYWJzdHJhY3RlZCBhY2NvdW50JwoJYnl0ZSAweDcyNjU2YjY1Nzk2OTZlNjcyMDYxNjI3Mzc0NzI2MTYzNzQ2NTY0MjA2MTYzNjM2Zjc1NmU3NCAvLyAicmVrZXlpbmcgYWJzdHJhY3RlZCBhY2NvdW50IgoJaXR4bl9maWVsZCBOb3RlCgoJLy8gRmVlIGZpZWxkIG5vdCBzZXQsIGRlZmF1bHRpbmcgdG8gMAoJaW50IDAKCWl0eG5fZmllbGQgRmVlCgoJLy8gU3VibWl0IGlubmVyIHRyYW5zYWN0aW9uCglpdHhuX3N1Ym1pdAoKCS8vICppZjJfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI0CgkvLyBmbGFzaAoJZnJhbWVfZGlnIC0yIC8vIGZsYXNoOiBib29sZWFuCglieiAqaWYyX2VuZAoKCS8vICppZjJfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyNAoJLy8gdGhpcy52ZXJpZnlSZWtleVRvQWJzdHJhY3RlZEFjY291bnQoKQoJY2FsbHN1YiB2ZXJpZnlSZWtleVRvQWJzdHJhY3RlZEFjY291bnQKCippZjJfZW5kOgoJcmV0c3ViCgovLyBhcmM1OF9yZWtleVRvUGx1Z2luKHVpbnQ2NCl2b2lkCiphYmlfcm91dGVfYXJjNThfcmVrZXlUb1BsdWdpbjoKCS8vIHBsdWdpbjogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglidG9pCgoJLy8gZXhlY3V0ZSBhcmM1OF9yZWtleVRvUGx1Z2luKHVpbnQ2NCl2b2lkCgljYWxsc3ViIGFyYzU4X3Jla2V5VG9QbHVnaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3Jla2V5VG9QbHVnaW4ocGx1Z2luOiBBcHBJRCk6IHZvaWQKLy8KLy8gVGVtcG9yYXJpbHkgcmVrZXkgdG8gYW4gYXBwcm92ZWQgcGx1Z2luIGFwcCBhZGRyZXNzCi8vCi8vIEBwYXJhbSBwbHVnaW4gVGhlIGFwcCB0byByZWtleSB0bwphcmM1OF9yZWtleVRvUGx1Z2luOgoJcHJvdG8gMSAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzMKCS8vIGdsb2JhbEtleTogUGx1Z2luc0tleSA9IHsgYXBwbGljYXRpb246IHBsdWdpbiwgYWxsb3dlZENhbGxlcjogZ2xvYmFscy56ZXJvQWRkcmVzcyB9CglmcmFtZV9kaWcgLTEgLy8gcGx1Z2luOiBBcHBJRAoJaXRvYgoJZ2xvYmFsIFplcm9BZGRyZXNzCgljb25jYXQKCWZyYW1lX2J1cnkgMCAvLyBnbG9iYWxLZXk6IFBsdWdpbnNLZXkKCgkvLyAqaWYzX2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzNgoJLy8gIXRoaXMucGx1Z2lucyhnbG9iYWxLZXkpLmV4aXN0cyB8fCB0aGlzLnBsdWdpbnMoZ2xvYmFsS2V5KS52YWx1ZSA8IGdsb2JhbHMubGF0ZXN0VGltZXN0YW1wCglieXRlIDB4NzAgLy8gInAiCglmcmFtZV9kaWcgMCAvLyBnbG9iYWxLZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJYm94X2xlbgoJc3dhcAoJcG9wCgkhCglkdXAKCWJueiAqc2tpcF9vcjAKCWJ5dGUgMHg3MCAvLyAicCIKCWZyYW1lX2RpZyAwIC8vIGdsb2JhbEtleTogUGx1Z2luc0tleQoJY29uY2F0Cglib3hfZ2V0Cglhc3NlcnQKCWJ0b2kKCWdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKCTwKCXx8Cgoqc2tpcF9vcjA6CglieiAqaWYzX2VuZAoKCS8vICppZjNfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzNwoJLy8ga2V5OiBQbHVnaW5zS2V5ID0geyBhcHBsaWNhdGlvbjogcGx1Z2luLCBhbGxvd2VkQ2FsbGVyOiB0aGlzLnR4bi5zZW5kZXIgfQoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWl0b2IKCXR4biBTZW5kZXIKCWNvbmNhdAoJZnJhbWVfYnVyeSAxIC8vIGtleTogUGx1Z2luc0tleQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzgKCS8vIGFzc2VydCh0aGlzLnBsdWdpbnMoa2V5KS5leGlzdHMgJiYgdGhpcy5wbHVnaW5zKGtleSkudmFsdWUgPiBnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCkKCWJ5dGUgMHg3MCAvLyAicCIKCWZyYW1lX2RpZyAxIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCWR1cAoJYnogKnNraXBfYW5kNAoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIDEgLy8ga2V5OiBQbHVnaW5zS2V5Cgljb25jYXQKCWJveF9nZXQKCWFzc2VydAoJYnRvaQoJZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAoJPgoJJiYKCipza2lwX2FuZDQ6Cglhc3NlcnQKCippZjNfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0MQoJLy8gc2VuZFBheW1lbnQoewoJLy8gICAgICAgc2VuZGVyOiB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlLAoJLy8gICAgICAgcmVjZWl2ZXI6IHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUsCgkvLyAgICAgICByZWtleVRvOiBwbHVnaW4uYWRkcmVzcywKCS8vICAgICAgIG5vdGU6ICdyZWtleWluZyB0byBwbHVnaW4gYXBwJywKCS8vICAgICB9KQoJaXR4bl9iZWdpbgoJaW50IHBheQoJaXR4bl9maWVsZCBUeXBlRW51bQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDIKCS8vIHNlbmRlcjogdGhpcy5jb250cm9sbGVkQWRkcmVzcy52YWx1ZQoJYnl0ZSAweDYzIC8vICJjIgoJYXBwX2dsb2JhbF9nZXQKCWl0eG5fZmllbGQgU2VuZGVyCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0MwoJLy8gcmVjZWl2ZXI6IHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUKCWJ5dGUgMHg2MyAvLyAiYyIKCWFwcF9nbG9iYWxfZ2V0CglpdHhuX2ZpZWxkIFJlY2VpdmVyCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0NAoJLy8gcmVrZXlUbzogcGx1Z2luLmFkZHJlc3MKCWZyYW1lX2RpZyAtMSAvLyBwbHVnaW46IEFwcElECglhcHBfcGFyYW1zX2dldCBBcHBBZGRyZXNzCglwb3AKCWl0eG5fZmllbGQgUmVrZXlUbwoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDUKCS8vIG5vdGU6ICdyZWtleWluZyB0byBwbHVnaW4gYXBwJwoJYnl0ZSAweDcyNjU2YjY1Nzk2OTZlNjcyMDc0NmYyMDcwNmM3NTY3Njk2ZTIwNjE3MDcwIC8vICJyZWtleWluZyB0byBwbHVnaW4gYXBwIgoJaXR4bl9maWVsZCBOb3RlCgoJLy8gRmVlIGZpZWxkIG5vdCBzZXQsIGRlZmF1bHRpbmcgdG8gMAoJaW50IDAKCWl0eG5fZmllbGQgRmVlCgoJLy8gU3VibWl0IGlubmVyIHRyYW5zYWN0aW9uCglpdHhuX3N1Ym1pdAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDgKCS8vIHRoaXMudmVyaWZ5UmVrZXlUb0Fic3RyYWN0ZWRBY2NvdW50KCkKCWNhbGxzdWIgdmVyaWZ5UmVrZXlUb0Fic3RyYWN0ZWRBY2NvdW50CglyZXRzdWIKCi8vIGFyYzU4X3Jla2V5VG9OYW1lZFBsdWdpbihzdHJpbmcpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3Jla2V5VG9OYW1lZFBsdWdpbjoKCS8vIG5hbWU6IHN0cmluZwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZXh0cmFjdCAyIDAKCgkvLyBleGVjdXRlIGFyYzU4X3Jla2V5VG9OYW1lZFBsdWdpbihzdHJpbmcpdm9pZAoJY2FsbHN1YiBhcmM1OF9yZWtleVRvTmFtZWRQbHVnaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3Jla2V5VG9OYW1lZFBsdWdpbihuYW1lOiBzdHJpbmcpOiB2b2lkCi8vCi8vIFRlbXBvcmFyaWx5IHJla2V5IHRvIGEgbmFtZWQgcGx1Z2luIGFwcCBhZGRyZXNzCi8vCi8vIEBwYXJhbSBuYW1lIFRoZSBuYW1lIG9mIHRoZSBwbHVnaW4gdG8gcmVrZXkgdG8KYXJjNThfcmVrZXlUb05hbWVkUGx1Z2luOgoJcHJvdG8gMSAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1NwoJLy8gdGhpcy5hcmM1OF9yZWtleVRvUGx1Z2luKHRoaXMubmFtZWRQbHVnaW5zKG5hbWUpLnZhbHVlLmFwcGxpY2F0aW9uKQoJaW50IDAKCWludCA4CglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWNvdmVyIDIKCWJveF9leHRyYWN0CglidG9pCgljYWxsc3ViIGFyYzU4X3Jla2V5VG9QbHVnaW4KCXJldHN1YgoKLy8gYXJjNThfYWRkUGx1Z2luKHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCl2b2lkCiphYmlfcm91dGVfYXJjNThfYWRkUGx1Z2luOgoJLy8gZW5kOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWJ0b2kKCgkvLyBhbGxvd2VkQ2FsbGVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAyCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gYXBwOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X2FkZFBsdWdpbih1aW50NjQsYWRkcmVzcyx1aW50NjQpdm9pZAoJY2FsbHN1YiBhcmM1OF9hZGRQbHVnaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2FkZFBsdWdpbihhcHA6IEFwcElELCBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzLCBlbmQ6IHVpbnQ2NCk6IHZvaWQKLy8KLy8gQWRkIGFuIGFwcCB0byB0aGUgbGlzdCBvZiBhcHByb3ZlZCBwbHVnaW5zCi8vCi8vIEBwYXJhbSBhcHAgVGhlIGFwcCB0byBhZGQKLy8gQHBhcmFtIGFsbG93ZWRDYWxsZXIgVGhlIGFkZHJlc3Mgb2YgdGhhdCdzIGFsbG93ZWQgdG8gY2FsbCB0aGUgYXBwCi8vIG9yIHRoZSBnbG9iYWwgemVybyBhZGRyZXNzIGZvciBhbGwgYWRkcmVzc2VzCi8vIEBwYXJhbSBlbmQgVGhlIHRpbWVzdGFtcCB3aGVuIHRoZSBwZXJtaXNzaW9uIGV4cGlyZXMKYXJjNThfYWRkUGx1Z2luOgoJcHJvdG8gMyAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTY5CgkvLyB2ZXJpZnlUeG4odGhpcy50eG4sIHsgc2VuZGVyOiB0aGlzLmFkbWluLnZhbHVlIH0pCgkvLyB2ZXJpZnkgc2VuZGVyCgl0eG4gU2VuZGVyCglieXRlIDB4NjEgLy8gImEiCglhcHBfZ2xvYmFsX2dldAoJPT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzAKCS8vIGtleTogUGx1Z2luc0tleSA9IHsgYXBwbGljYXRpb246IGFwcCwgYWxsb3dlZENhbGxlcjogYWxsb3dlZENhbGxlciB9CglmcmFtZV9kaWcgLTEgLy8gYXBwOiBBcHBJRAoJaXRvYgoJZnJhbWVfZGlnIC0yIC8vIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MKCWNvbmNhdAoJZnJhbWVfYnVyeSAwIC8vIGtleTogUGx1Z2luc0tleQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzEKCS8vIHRoaXMucGx1Z2lucyhrZXkpLnZhbHVlID0gZW5kCglieXRlIDB4NzAgLy8gInAiCglmcmFtZV9kaWcgMCAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJZnJhbWVfZGlnIC0zIC8vIGVuZDogdWludDY0CglpdG9iCglib3hfcHV0CglyZXRzdWIKCi8vIGFyYzU4X3JlbW92ZVBsdWdpbih1aW50NjQsYWRkcmVzcyl2b2lkCiphYmlfcm91dGVfYXJjNThfcmVtb3ZlUGx1Z2luOgoJLy8gYWxsb3dlZENhbGxlcjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGFwcDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglidG9pCgoJLy8gZXhlY3V0ZSBhcmM1OF9yZW1vdmVQbHVnaW4odWludDY0LGFkZHJlc3Mpdm9pZAoJY2FsbHN1YiBhcmM1OF9yZW1vdmVQbHVnaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3JlbW92ZVBsdWdpbihhcHA6IEFwcElELCBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzKTogdm9pZAovLwovLyBSZW1vdmUgYW4gYXBwIGZyb20gdGhlIGxpc3Qgb2YgYXBwcm92ZWQgcGx1Z2lucwovLwovLyBAcGFyYW0gYXBwIFRoZSBhcHAgdG8gcmVtb3ZlCmFyYzU4X3JlbW92ZVBsdWdpbjoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4MAoJLy8gdmVyaWZ5VHhuKHRoaXMudHhuLCB7IHNlbmRlcjogdGhpcy5hZG1pbi52YWx1ZSB9KQoJLy8gdmVyaWZ5IHNlbmRlcgoJdHhuIFNlbmRlcgoJYnl0ZSAweDYxIC8vICJhIgoJYXBwX2dsb2JhbF9nZXQKCT09Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTgyCgkvLyBrZXk6IFBsdWdpbnNLZXkgPSB7IGFwcGxpY2F0aW9uOiBhcHAsIGFsbG93ZWRDYWxsZXI6IGFsbG93ZWRDYWxsZXIgfQoJZnJhbWVfZGlnIC0xIC8vIGFwcDogQXBwSUQKCWl0b2IKCWZyYW1lX2RpZyAtMiAvLyBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzCgljb25jYXQKCWZyYW1lX2J1cnkgMCAvLyBrZXk6IFBsdWdpbnNLZXkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTgzCgkvLyB0aGlzLnBsdWdpbnMoa2V5KS5kZWxldGUoKQoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIDAgLy8ga2V5OiBQbHVnaW5zS2V5Cgljb25jYXQKCWJveF9kZWwKCXJldHN1YgoKLy8gYXJjNThfYWRkTmFtZWRQbHVnaW4oc3RyaW5nLHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCl2b2lkCiphYmlfcm91dGVfYXJjNThfYWRkTmFtZWRQbHVnaW46CgkvLyBlbmQ6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNAoJYnRvaQoKCS8vIGFsbG93ZWRDYWxsZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBhcHA6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJYnRvaQoKCS8vIG5hbWU6IHN0cmluZwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZXh0cmFjdCAyIDAKCgkvLyBleGVjdXRlIGFyYzU4X2FkZE5hbWVkUGx1Z2luKHN0cmluZyx1aW50NjQsYWRkcmVzcyx1aW50NjQpdm9pZAoJY2FsbHN1YiBhcmM1OF9hZGROYW1lZFBsdWdpbgoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfYWRkTmFtZWRQbHVnaW4obmFtZTogc3RyaW5nLCBhcHA6IEFwcElELCBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzLCBlbmQ6IHVpbnQ2NCk6IHZvaWQKLy8KLy8gQWRkIGEgbmFtZWQgcGx1Z2luCi8vCi8vIEBwYXJhbSBhcHAgVGhlIHBsdWdpbiBhcHAKLy8gQHBhcmFtIG5hbWUgVGhlIHBsdWdpbiBuYW1lCmFyYzU4X2FkZE5hbWVkUGx1Z2luOgoJcHJvdG8gNCAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTkzCgkvLyB2ZXJpZnlUeG4odGhpcy50eG4sIHsgc2VuZGVyOiB0aGlzLmFkbWluLnZhbHVlIH0pCgkvLyB2ZXJpZnkgc2VuZGVyCgl0eG4gU2VuZGVyCglieXRlIDB4NjEgLy8gImEiCglhcHBfZ2xvYmFsX2dldAoJPT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTQKCS8vIGFzc2VydCghdGhpcy5uYW1lZFBsdWdpbnMobmFtZSkuZXhpc3RzKQoJYnl0ZSAweDZlIC8vICJuIgoJZnJhbWVfZGlnIC0xIC8vIG5hbWU6IHN0cmluZwoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCSEKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTYKCS8vIGtleTogUGx1Z2luc0tleSA9IHsgYXBwbGljYXRpb246IGFwcCwgYWxsb3dlZENhbGxlcjogYWxsb3dlZENhbGxlciB9CglmcmFtZV9kaWcgLTIgLy8gYXBwOiBBcHBJRAoJaXRvYgoJZnJhbWVfZGlnIC0zIC8vIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MKCWNvbmNhdAoJZnJhbWVfYnVyeSAwIC8vIGtleTogUGx1Z2luc0tleQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTcKCS8vIHRoaXMubmFtZWRQbHVnaW5zKG5hbWUpLnZhbHVlID0ga2V5CglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWZyYW1lX2RpZyAwIC8vIGtleTogUGx1Z2luc0tleQoJYm94X3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTgKCS8vIHRoaXMucGx1Z2lucyhrZXkpLnZhbHVlID0gZW5kCglieXRlIDB4NzAgLy8gInAiCglmcmFtZV9kaWcgMCAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJZnJhbWVfZGlnIC00IC8vIGVuZDogdWludDY0CglpdG9iCglib3hfcHV0CglyZXRzdWIKCi8vIGFyYzU4X3JlbW92ZU5hbWVkUGx1Z2luKHN0cmluZyl2b2lkCiphYmlfcm91dGVfYXJjNThfcmVtb3ZlTmFtZWRQbHVnaW46CgkvLyBuYW1lOiBzdHJpbmcKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWV4dHJhY3QgMiAwCgoJLy8gZXhlY3V0ZSBhcmM1OF9yZW1vdmVOYW1lZFBsdWdpbihzdHJpbmcpdm9pZAoJY2FsbHN1YiBhcmM1OF9yZW1vdmVOYW1lZFBsdWdpbgoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmVtb3ZlTmFtZWRQbHVnaW4obmFtZTogc3RyaW5nKTogdm9pZAovLwovLyBSZW1vdmUgYSBuYW1lZCBwbHVnaW4KLy8KLy8gQHBhcmFtIG5hbWUgVGhlIHBsdWdpbiBuYW1lCmFyYzU4X3JlbW92ZU5hbWVkUGx1Z2luOgoJcHJvdG8gMSAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MjA3CgkvLyB2ZXJpZnlUeG4odGhpcy50eG4sIHsgc2VuZGVyOiB0aGlzLmFkbWluLnZhbHVlIH0pCgkvLyB2ZXJpZnkgc2VuZGVyCgl0eG4gU2VuZGVyCglieXRlIDB4NjEgLy8gImEiCglhcHBfZ2xvYmFsX2dldAoJPT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoyMDkKCS8vIGFwcCA9IHRoaXMubmFtZWRQbHVnaW5zKG5hbWUpLnZhbHVlCglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWZyYW1lX2J1cnkgMCAvLyBzdG9yYWdlIGtleS8vYXBwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjIxMAoJLy8gdGhpcy5uYW1lZFBsdWdpbnMobmFtZSkuZGVsZXRlKCkKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWNvbmNhdAoJYm94X2RlbAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoyMTEKCS8vIHRoaXMucGx1Z2lucyhhcHApLmRlbGV0ZSgpCglieXRlIDB4NzAgLy8gInAiCglmcmFtZV9kaWcgMCAvLyBzdG9yYWdlIGtleS8vYXBwCglib3hfZ2V0Cglhc3NlcnQKCWNvbmNhdAoJYm94X2RlbAoJcmV0c3ViCgoqY3JlYXRlX05vT3A6CgltZXRob2QgImNyZWF0ZUFwcGxpY2F0aW9uKGFkZHJlc3MsYWRkcmVzcyl2b2lkIgoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMAoJbWF0Y2ggKmFiaV9yb3V0ZV9jcmVhdGVBcHBsaWNhdGlvbgoJZXJyCgoqY2FsbF9Ob09wOgoJbWV0aG9kICJhcmM1OF9jaGFuZ2VBZG1pbihhZGRyZXNzKXZvaWQiCgltZXRob2QgImFyYzU4X2dldEFkbWluKClhZGRyZXNzIgoJbWV0aG9kICJhcmM1OF92ZXJpZnlBdXRoQWRkcigpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmVrZXlUbyhhZGRyZXNzLGJvb2wpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmVrZXlUb1BsdWdpbih1aW50NjQpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmVrZXlUb05hbWVkUGx1Z2luKHN0cmluZyl2b2lkIgoJbWV0aG9kICJhcmM1OF9hZGRQbHVnaW4odWludDY0LGFkZHJlc3MsdWludDY0KXZvaWQiCgltZXRob2QgImFyYzU4X3JlbW92ZVBsdWdpbih1aW50NjQsYWRkcmVzcyl2b2lkIgoJbWV0aG9kICJhcmM1OF9hZGROYW1lZFBsdWdpbihzdHJpbmcsdWludDY0LGFkZHJlc3MsdWludDY0KXZvaWQiCgltZXRob2QgImFyYzU4X3JlbW92ZU5hbWVkUGx1Z2luKHN0cmluZyl2b2lkIgoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMAoJbWF0Y2ggKmFiaV9yb3V0ZV9hcmM1OF9jaGFuZ2VBZG1pbiAqYWJpX3JvdXRlX2FyYzU4X2dldEFkbWluICphYmlfcm91dGVfYXJjNThfdmVyaWZ5QXV0aEFkZHIgKmFiaV9yb3V0ZV9hcmM1OF9yZWtleVRvICphYmlfcm91dGVfYXJjNThfcmVrZXlUb1BsdWdpbiAqYWJpX3JvdXRlX2FyYzU4X3Jla2V5VG9OYW1lZFBsdWdpbiAqYWJpX3JvdXRlX2FyYzU4X2FkZFBsdWdpbiAqYWJpX3JvdXRlX2FyYzU4X3JlbW92ZVBsdWdpbiAqYWJpX3JvdXRlX2FyYzU4X2FkZE5hbWVkUGx1Z2luICphYmlfcm91dGVfYXJjNThfcmVtb3ZlTmFtZWRQbHVnaW4KCWVycg==",
+    "approval": "I3ByYWdtYSB2ZXJzaW9uIDEwCgovLyBUaGlzIFRFQUwgd2FzIGdlbmVyYXRlZCBieSBURUFMU2NyaXB0IHYwLjkwLjIKLy8gaHR0cHM6Ly9naXRodWIuY29tL2FsZ29yYW5kZm91bmRhdGlvbi9URUFMU2NyaXB0CgovLyBUaGlzIGNvbnRyYWN0IGlzIGNvbXBsaWFudCB3aXRoIGFuZC9vciBpbXBsZW1lbnRzIHRoZSBmb2xsb3dpbmcgQVJDczogWyBBUkM0IF0KCi8vIFRoZSBmb2xsb3dpbmcgdGVuIGxpbmVzIG9mIFRFQUwgaGFuZGxlIGluaXRpYWwgcHJvZ3JhbSBmbG93Ci8vIFRoaXMgcGF0dGVybiBpcyB1c2VkIHRvIG1ha2UgaXQgZWFzeSBmb3IgYW55b25lIHRvIHBhcnNlIHRoZSBzdGFydCBvZiB0aGUgcHJvZ3JhbSBhbmQgZGV0ZXJtaW5lIGlmIGEgc3BlY2lmaWMgYWN0aW9uIGlzIGFsbG93ZWQKLy8gSGVyZSwgYWN0aW9uIHJlZmVycyB0byB0aGUgT25Db21wbGV0ZSBpbiBjb21iaW5hdGlvbiB3aXRoIHdoZXRoZXIgdGhlIGFwcCBpcyBiZWluZyBjcmVhdGVkIG9yIGNhbGxlZAovLyBFdmVyeSBwb3NzaWJsZSBhY3Rpb24gZm9yIHRoaXMgY29udHJhY3QgaXMgcmVwcmVzZW50ZWQgaW4gdGhlIHN3aXRjaCBzdGF0ZW1lbnQKLy8gSWYgdGhlIGFjdGlvbiBpcyBub3QgaW1wbGVtZW50ZWQgaW4gdGhlIGNvbnRyYWN0LCBpdHMgcmVzcGVjdGl2ZSBicmFuY2ggd2lsbCBiZSAiKk5PVF9JTVBMRU1FTlRFRCIgd2hpY2gganVzdCBjb250YWlucyAiZXJyIgp0eG4gQXBwbGljYXRpb25JRAohCmludCA2CioKdHhuIE9uQ29tcGxldGlvbgorCnN3aXRjaCAqY2FsbF9Ob09wICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVEICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqY3JlYXRlX05vT3AgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVEICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVECgoqTk9UX0lNUExFTUVOVEVEOgoJZXJyCgovLyBnZXRPcGVyYXRpb25IYXNoKGluZGV4OiB1aW50NjQpOiBieXRlczMyCi8vCi8vIEdldCB0aGUgaGFzaCBvZiB0aGUgYXBwbGljYXRpb24gYXJncyBvZiBhIGNhbGwgaW4gdGhlIGdyb3VwLCB3aGljaCBzaWduZXJzIGFwcHJvdmUgaW4gbXVsdGlzaWcgbW9kZQovLyBhbmQgdGhlIGFkbWluIHNpZ25zIGluIGFuIGludGVudAovLwovLyBAcGFyYW0gaW5kZXggVGhlIGluZGV4IG9mIHRoZSBjYWxsIGluIHRoZSBncm91cApnZXRPcGVyYXRpb25IYXNoOgoJcHJvdG8gMSAxCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cG4gMgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozNDkKCS8vIHR4biA9IHRoaXMudHhuR3JvdXBbaW5kZXhdCglmcmFtZV9kaWcgLTEgLy8gaW5kZXg6IHVpbnQ2NAoJZnJhbWVfYnVyeSAwIC8vIHR4bjogdHhuCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM1MQoJLy8gYXJnczogYnl0ZXMgPSAnJwoJYnl0ZSAweCAvLyAiIgoJZnJhbWVfYnVyeSAxIC8vIGFyZ3M6IGJ5dGVzCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM1MgoJLy8gZm9yIChsZXQgaSA9IDA7IGkgPCB0eG4ubnVtQXBwQXJnczsgaSArPSAxKQoJaW50IDAKCWZyYW1lX2J1cnkgMiAvLyBpOiB1aW50NjQKCipmb3JfMDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozNTIKCS8vIGkgPCB0eG4ubnVtQXBwQXJncwoJZnJhbWVfZGlnIDIgLy8gaTogdWludDY0CglmcmFtZV9kaWcgMCAvLyB0eG46IHR4bgoJZ3R4bnMgTnVtQXBwQXJncwoJPAoJYnogKmZvcl8wX2VuZAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozNTMKCS8vIGFyZ3MgPSBjb25jYXQoYXJncywgdHhuLmFwcGxpY2F0aW9uQXJnc1tpXSkKCWZyYW1lX2RpZyAxIC8vIGFyZ3M6IGJ5dGVzCglmcmFtZV9kaWcgMCAvLyB0eG46IHR4bgoJZ3R4bnMgQXBwbGljYXRpb25BcmdzIGkKCWNvbmNhdAoJZnJhbWVfYnVyeSAxIC8vIGFyZ3M6IGJ5dGVzCgoqZm9yXzBfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MzUyCgkvLyBpICs9IDEKCWZyYW1lX2RpZyAyIC8vIGk6IHVpbnQ2NAoJaW50IDEKCSsKCWZyYW1lX2J1cnkgMiAvLyBpOiB1aW50NjQKCWIgKmZvcl8wCgoqZm9yXzBfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM1NgoJLy8gcmV0dXJuIHNoYTI1NihhcmdzKTsKCWZyYW1lX2RpZyAxIC8vIGFyZ3M6IGJ5dGVzCglzaGEyNTYKCgkvLyBzZXQgdGhlIHN1YnJvdXRpbmUgcmV0dXJuIHZhbHVlCglmcmFtZV9idXJ5IDAKCgkvLyBwb3AgYWxsIGxvY2FsIHZhcmlhYmxlcyBmcm9tIHRoZSBzdGFjawoJcG9wbiAyCglyZXRzdWIKCi8vIHZlcmlmeUFkbWluKCk6IHZvaWQKLy8KLy8gVmVyaWZ5IHRoZSBjdXJyZW50IGNhbGwgaXMgYXV0aG9yaXplZCBieSB0aGUgYWRtaW4uIElmIGFkbWluVGhyZXNob2xkIGlzIG5vbi16ZXJvLCBlbm91Z2ggc2lnbmVycyBtdXN0IGhhdmUKLy8gYXBwcm92ZWQgdGhpcyBleGFjdCBjYWxsIGFuZCB0aGVpciBhcHByb3ZhbHMgYXJlIGNvbnN1bWVkLiBPdGhlcndpc2UsIHRoZSBhZG1pbiBtdXN0IGJlIHRoZSBzZW5kZXIKLy8gb3IgdGhlIGNhbGwgbXVzdCBjb21lIHJpZ2h0IGFmdGVyIGFuIGludGVudCBhdXRob3JpemF0aW9uIGNhbGwgKGFuZCBpdHMgcGF5bWVudCBhcmd1bWVudHMpLAovLyB3aGljaCB2ZXJpZmllZCB0aGUgYWRtaW4gc2lnbmVkIGl0Lgp2ZXJpZnlBZG1pbjoKCXByb3RvIDAgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXBuIDIKCgkvLyAqaWYwX2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM2NgoJLy8gdGhpcy5hZG1pblRocmVzaG9sZC52YWx1ZSA9PT0gMAoJYnl0ZSAweDZkNzQgLy8gIm10IgoJYXBwX2dsb2JhbF9nZXQKCWludCAwCgk9PQoJYnogKmlmMF9lbmQKCgkvLyAqaWYwX2NvbnNlcXVlbnQKCS8vICppZjFfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MzY3CgkvLyB0aGlzLnR4bi5zZW5kZXIgIT09IHRoaXMuYWRtaW4udmFsdWUKCXR4biBTZW5kZXIKCWJ5dGUgMHg2MSAvLyAiYSIKCWFwcF9nbG9iYWxfZ2V0CgkhPQoJYnogKmlmMV9lbmQKCgkvLyAqaWYxX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozNjgKCS8vIGluZGV4ID0gdGhpcy50eG4uZ3JvdXBJbmRleCAtIDEKCXR4biBHcm91cEluZGV4CglpbnQgMQoJLQoJZnJhbWVfYnVyeSAwIC8vIGluZGV4OiB1aW50NjQKCip3aGlsZV8wOgoKKndoaWxlXzBfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MzY5CgkvLyB0aGlzLnR4bkdyb3VwW2luZGV4XS50eXBlRW51bSA9PT0gVHJhbnNhY3Rpb25UeXBlLlBheW1lbnQKCWZyYW1lX2RpZyAwIC8vIGluZGV4OiB1aW50NjQKCWd0eG5zIFR5cGVFbnVtCglpbnQgcGF5Cgk9PQoJYnogKndoaWxlXzBfZW5kCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM2OQoJLy8gaW5kZXggPSBpbmRleCAtIDEKCWZyYW1lX2RpZyAwIC8vIGluZGV4OiB1aW50NjQKCWludCAxCgktCglmcmFtZV9idXJ5IDAgLy8gaW5kZXg6IHVpbnQ2NAoJYiAqd2hpbGVfMAoKKndoaWxlXzBfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM3MQoJLy8gaW50ZW50ID0gdGhpcy50eG5Hcm91cFtpbmRleF0KCWZyYW1lX2RpZyAwIC8vIGluZGV4OiB1aW50NjQKCWZyYW1lX2J1cnkgMSAvLyBpbnRlbnQ6IHR4bgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozNzIKCS8vIGFzc2VydCgKCS8vICAgICAgICAgICBpbnRlbnQuYXBwbGljYXRpb25JRCA9PT0gdGhpcy5hcHAgJiYKCS8vICAgICAgICAgICAgIChpbnRlbnQuYXBwbGljYXRpb25BcmdzWzBdID09PSBtZXRob2QoJ2FyYzU4X2F1dGhvcml6ZUludGVudCh1aW50NjQsdWludDY0LGJ5dGVbNjRdKXZvaWQnKSB8fAoJLy8gICAgICAgICAgICAgICBpbnRlbnQuYXBwbGljYXRpb25BcmdzWzBdID09PQoJLy8gICAgICAgICAgICAgICAgIG1ldGhvZCgnYXJjNThfYXV0aG9yaXplUGFzc2tleUludGVudCh1aW50NjQsdWludDY0LGJ5dGVbXSxieXRlW10sYnl0ZVs2NF0pdm9pZCcpIHx8CgkvLyAgICAgICAgICAgICAgIGludGVudC5hcHBsaWNhdGlvbkFyZ3NbMF0gPT09IG1ldGhvZCgnYXJjNThfYXV0aG9yaXplRXRoZXJldW1JbnRlbnQodWludDY0LHVpbnQ2NCxieXRlWzY1XSl2b2lkJykpCgkvLyAgICAgICAgICkKCWZyYW1lX2RpZyAxIC8vIGludGVudDogdHhuCglndHhucyBBcHBsaWNhdGlvbklECgl0eG5hIEFwcGxpY2F0aW9ucyAwCgk9PQoJZHVwCglieiAqc2tpcF9hbmQwCglmcmFtZV9kaWcgMSAvLyBpbnRlbnQ6IHR4bgoJZ3R4bnMgQXBwbGljYXRpb25BcmdzIDAKCW1ldGhvZCAiYXJjNThfYXV0aG9yaXplSW50ZW50KHVpbnQ2NCx1aW50NjQsYnl0ZVs2NF0pdm9pZCIKCT09CglkdXAKCWJueiAqc2tpcF9vcjAKCWZyYW1lX2RpZyAxIC8vIGludGVudDogdHhuCglndHhucyBBcHBsaWNhdGlvbkFyZ3MgMAoJbWV0aG9kICJhcmM1OF9hdXRob3JpemVQYXNza2V5SW50ZW50KHVpbnQ2NCx1aW50NjQsYnl0ZVtdLGJ5dGVbXSxieXRlWzY0XSl2b2lkIgoJPT0KCXx8Cgoqc2tpcF9vcjA6CglkdXAKCWJueiAqc2tpcF9vcjEKCWZyYW1lX2RpZyAxIC8vIGludGVudDogdHhuCglndHhucyBBcHBsaWNhdGlvbkFyZ3MgMAoJbWV0aG9kICJhcmM1OF9hdXRob3JpemVFdGhlcmV1bUludGVudCh1aW50NjQsdWludDY0LGJ5dGVbNjVdKXZvaWQiCgk9PQoJfHwKCipza2lwX29yMToKCSYmCgoqc2tpcF9hbmQwOgoJYXNzZXJ0CgoqaWYxX2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozODAKCS8vIHJldHVybjsKCXJldHN1YgoKKmlmMF9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MzgzCgkvLyBoYXNoID0gdGhpcy5nZXRPcGVyYXRpb25IYXNoKHRoaXMudHhuLmdyb3VwSW5kZXgpCgl0eG4gR3JvdXBJbmRleAoJY2FsbHN1YiBnZXRPcGVyYXRpb25IYXNoCglmcmFtZV9idXJ5IDIgLy8gaGFzaDogYnl0ZVszMl0KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6Mzg0CgkvLyBhc3NlcnQodGhpcy5hZG1pbkFwcHJvdmFscyhoYXNoKS52YWx1ZS5sZW5ndGggPj0gdGhpcy5hZG1pblRocmVzaG9sZC52YWx1ZSkKCWJ5dGUgMHg2OCAvLyAiaCIKCWZyYW1lX2RpZyAyIC8vIGhhc2g6IGJ5dGVbMzJdCgljb25jYXQKCWludCAyCglpbnQgMAoJYm94X2V4dHJhY3QKCWxlbgoJaW50IDMyCgkvCglieXRlIDB4NmQ3NCAvLyAibXQiCglhcHBfZ2xvYmFsX2dldAoJPj0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozODUKCS8vIHRoaXMuYWRtaW5BcHByb3ZhbHMoaGFzaCkuZGVsZXRlKCkKCWJ5dGUgMHg2OCAvLyAiaCIKCWZyYW1lX2RpZyAyIC8vIGhhc2g6IGJ5dGVbMzJdCgljb25jYXQKCWJveF9kZWwKCXJldHN1YgoKLy8gdXBkYXRlUmVjb3ZlcnlSZWFkeUF0KCk6IHZvaWQKLy8KLy8gU3RhcnQgdGhlIGRlbGF5IG9mIHRoZSBwZW5kaW5nIHJlY292ZXJ5IG9uY2UgaXQgaGFzIGVub3VnaCBhcHByb3ZhbHMsIG9yIHN0b3AgaXQgaWYgaXQgbm8gbG9uZ2VyIGhhcyBlbm91Z2gKLy8gYmVjYXVzZSBhcHByb3ZhbHMgd2VyZSByZXZva2VkLCB0aGUgdGhyZXNob2xkIHdhcyByYWlzZWQgb3IgcmVjb3Zlcnkgd2FzIGRpc2FibGVkCnVwZGF0ZVJlY292ZXJ5UmVhZHlBdDoKCXByb3RvIDAgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gKmlmMl9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozOTMKCS8vICF0aGlzLnJlY292ZXJ5LmV4aXN0cwoJdHhuYSBBcHBsaWNhdGlvbnMgMAoJYnl0ZSAweDcyIC8vICJyIgoJYXBwX2dsb2JhbF9nZXRfZXgKCXN3YXAKCXBvcAoJIQoJYnogKmlmMl9lbmQKCgkvLyAqaWYyX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozOTMKCS8vIHJldHVybjsKCXJldHN1YgoKKmlmMl9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6Mzk1CgkvLyB0aHJlc2hvbGQgPSB0aGlzLnJlY292ZXJ5VGhyZXNob2xkLnZhbHVlCglieXRlIDB4NzI3NCAvLyAicnQiCglhcHBfZ2xvYmFsX2dldAoJZnJhbWVfYnVyeSAwIC8vIHRocmVzaG9sZDogdWludDY0CgoJLy8gKmlmM19jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozOTYKCS8vIHRocmVzaG9sZCA9PT0gMCB8fCB0aGlzLnJlY292ZXJ5LnZhbHVlLmFwcHJvdmFscyA8IHRocmVzaG9sZAoJZnJhbWVfZGlnIDAgLy8gdGhyZXNob2xkOiB1aW50NjQKCWludCAwCgk9PQoJZHVwCglibnogKnNraXBfb3IyCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJZXh0cmFjdCA0MCA4CglidG9pCglmcmFtZV9kaWcgMCAvLyB0aHJlc2hvbGQ6IHVpbnQ2NAoJPAoJfHwKCipza2lwX29yMjoKCWJ6ICppZjNfZWxzZWlmMV9jb25kaXRpb24KCgkvLyAqaWYzX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozOTcKCS8vIHRoaXMucmVjb3ZlcnkudmFsdWUucmVhZHlBdCA9IDAKCWJ5dGUgMHg3MiAvLyAiciIKCWFwcF9nbG9iYWxfZ2V0CglieXRlIDB4MDAwMDAwMDAwMDAwMDAwMAoJcmVwbGFjZTIgNDgKCWJ5dGUgMHg3MiAvLyAiciIKCXN3YXAKCWFwcF9nbG9iYWxfcHV0CgliICppZjNfZW5kCgoqaWYzX2Vsc2VpZjFfY29uZGl0aW9uOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjM5OAoJLy8gdGhpcy5yZWNvdmVyeS52YWx1ZS5yZWFkeUF0ID09PSAwCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJZXh0cmFjdCA0OCA4CglidG9pCglpbnQgMAoJPT0KCWJ6ICppZjNfZW5kCgoJLy8gKmlmM19lbHNlaWYxX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czozOTkKCS8vIHRoaXMucmVjb3ZlcnkudmFsdWUucmVhZHlBdCA9IGdsb2JhbHMubGF0ZXN0VGltZXN0YW1wICsgdGhpcy5yZWNvdmVyeURlbGF5LnZhbHVlCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJaW50IDQ4IC8vIGhlYWRPZmZzZXQKCWdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKCWJ5dGUgMHg3MjY0IC8vICJyZCIKCWFwcF9nbG9iYWxfZ2V0CgkrCglpdG9iCglyZXBsYWNlMwoJYnl0ZSAweDcyIC8vICJyIgoJc3dhcAoJYXBwX2dsb2JhbF9wdXQKCippZjNfZW5kOgoJcmV0c3ViCgovLyBzZXRBZG1pbihuZXdBZG1pbjogQWRkcmVzcyk6IHZvaWQKLy8KLy8gTWFrZSBhbiBhZGRyZXNzIHRoZSBhZG1pbi4gVGhlIG5ldyBhZG1pbiBzaWducyB3aXRoIGl0cyBvd24ga2V5IHJhdGhlciB0aGFuIGEgcGFzc2tleSBvciBhIHNldCBvZiBzaWduZXJzLgpzZXRBZG1pbjoKCXByb3RvIDEgMAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0MDcKCS8vIHRoaXMuYWRtaW5DaGFuZ2VkLmxvZyh7IG9sZEFkbWluOiB0aGlzLmFkbWluLnZhbHVlLCBuZXdBZG1pbjogbmV3QWRtaW4gfSkKCWJ5dGUgMHhhZDcxMmQwYiAvLyBhZG1pbkNoYW5nZWQoYWRkcmVzcyxhZGRyZXNzKQoJYnl0ZSAweDYxIC8vICJhIgoJYXBwX2dsb2JhbF9nZXQKCWZyYW1lX2RpZyAtMSAvLyBuZXdBZG1pbjogQWRkcmVzcwoJY29uY2F0Cgljb25jYXQKCWxvZwoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0MDkKCS8vIHRoaXMuYWRtaW4udmFsdWUgPSBuZXdBZG1pbgoJYnl0ZSAweDYxIC8vICJhIgoJZnJhbWVfZGlnIC0xIC8vIG5ld0FkbWluOiBBZGRyZXNzCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0MTAKCS8vIHRoaXMuYWRtaW5UaHJlc2hvbGQudmFsdWUgPSAwCglieXRlIDB4NmQ3NCAvLyAibXQiCglpbnQgMAoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDExCgkvLyB0aGlzLmFkbWluS2V5VHlwZS52YWx1ZSA9IEFETUlOX0tFWV9BRERSRVNTCglieXRlIDB4NmI3NCAvLyAia3QiCglpbnQgMAoJYXBwX2dsb2JhbF9wdXQKCXJldHN1YgoKLy8gdXNlSW50ZW50KG5vbmNlOiB1aW50NjQsIGV4cGlyeTogdWludDY0LCBrZXlUeXBlOiB1aW50NjQpOiBieXRlcwovLwovLyBDb25zdW1lIGFuIGludGVudCBhbmQgZ2V0IHRoZSBtZXNzYWdlIHRoZSBhZG1pbiBtdXN0IGhhdmUgc2lnbmVkIHRvIGF1dGhvcml6ZSB0aGUgYWRtaW4gbWV0aG9kIGNhbGwKLy8gdGhhdCBjb21lcyByaWdodCBhZnRlciB0aGUgY3VycmVudCBjYWxsIGFuZCB0aGUgcGF5bWVudCBhcmd1bWVudHMgb2YgdGhlIG1ldGhvZCBpbiB0aGUgZ3JvdXAKdXNlSW50ZW50OgoJcHJvdG8gMyAxCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cG4gMgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0MTkKCS8vIGFzc2VydCh0aGlzLmFkbWluVGhyZXNob2xkLnZhbHVlID09PSAwICYmIHRoaXMuYWRtaW5LZXlUeXBlLnZhbHVlID09PSBrZXlUeXBlKQoJYnl0ZSAweDZkNzQgLy8gIm10IgoJYXBwX2dsb2JhbF9nZXQKCWludCAwCgk9PQoJZHVwCglieiAqc2tpcF9hbmQxCglieXRlIDB4NmI3NCAvLyAia3QiCglhcHBfZ2xvYmFsX2dldAoJZnJhbWVfZGlnIC0zIC8vIGtleVR5cGU6IHVpbnQ2NAoJPT0KCSYmCgoqc2tpcF9hbmQxOgoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQyMAoJLy8gYXNzZXJ0KG5vbmNlID09PSB0aGlzLmludGVudE5vbmNlLnZhbHVlICYmIGdsb2JhbHMubGF0ZXN0VGltZXN0YW1wIDw9IGV4cGlyeSkKCWZyYW1lX2RpZyAtMSAvLyBub25jZTogdWludDY0CglieXRlIDB4Njk2ZSAvLyAiaW4iCglhcHBfZ2xvYmFsX2dldAoJPT0KCWR1cAoJYnogKnNraXBfYW5kMgoJZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAoJZnJhbWVfZGlnIC0yIC8vIGV4cGlyeTogdWludDY0Cgk8PQoJJiYKCipza2lwX2FuZDI6Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDIxCgkvLyB0aGlzLmludGVudE5vbmNlLnZhbHVlID0gbm9uY2UgKyAxCglieXRlIDB4Njk2ZSAvLyAiaW4iCglmcmFtZV9kaWcgLTEgLy8gbm9uY2U6IHVpbnQ2NAoJaW50IDEKCSsKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQyNAoJLy8gYnVkZ2V0SW5jcmVhc2VzID0ga2V5VHlwZSA9PT0gQURNSU5fS0VZX0FERFJFU1MgPyAzIDogNAoJZnJhbWVfZGlnIC0zIC8vIGtleVR5cGU6IHVpbnQ2NAoJaW50IDAKCT09CglieiAqdGVybmFyeTFfZmFsc2UKCWludCAzCgliICp0ZXJuYXJ5MV9lbmQKCip0ZXJuYXJ5MV9mYWxzZToKCWludCA0CgoqdGVybmFyeTFfZW5kOgoJZnJhbWVfYnVyeSAwIC8vIGJ1ZGdldEluY3JlYXNlczogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQyNQoJLy8gZm9yIChsZXQgaSA9IDA7IGkgPCBidWRnZXRJbmNyZWFzZXM7IGkgKz0gMSkKCWludCAwCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgoqZm9yXzE6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDI1CgkvLyBpIDwgYnVkZ2V0SW5jcmVhc2VzCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWZyYW1lX2RpZyAwIC8vIGJ1ZGdldEluY3JlYXNlczogdWludDY0Cgk8CglieiAqZm9yXzFfZW5kCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQyNgoJLy8gaW5jcmVhc2VPcGNvZGVCdWRnZXQoKQoJaXR4bl9iZWdpbgoJaW50IGFwcGwKCWl0eG5fZmllbGQgVHlwZUVudW0KCWludCAwCglpdHhuX2ZpZWxkIEZlZQoJYnl0ZSBiNjQgQ29FQiAvLyAjcHJhZ21hIHZlcnNpb24gMTA7IGludCAxCglkdXAKCWl0eG5fZmllbGQgQXBwcm92YWxQcm9ncmFtCglpdHhuX2ZpZWxkIENsZWFyU3RhdGVQcm9ncmFtCglpbnQgRGVsZXRlQXBwbGljYXRpb24KCWl0eG5fZmllbGQgT25Db21wbGV0aW9uCglpdHhuX3N1Ym1pdAoKKmZvcl8xX2NvbnRpbnVlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQyNQoJLy8gaSArPSAxCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgliICpmb3JfMQoKKmZvcl8xX2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0MjkKCS8vIGluZGV4ID0gdGhpcy50eG4uZ3JvdXBJbmRleCArIDEKCXR4biBHcm91cEluZGV4CglpbnQgMQoJKwoJZnJhbWVfYnVyeSAyIC8vIGluZGV4OiB1aW50NjQKCip3aGlsZV8xOgoKKndoaWxlXzFfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDMwCgkvLyB0aGlzLnR4bkdyb3VwW2luZGV4XS50eXBlRW51bSA9PT0gVHJhbnNhY3Rpb25UeXBlLlBheW1lbnQKCWZyYW1lX2RpZyAyIC8vIGluZGV4OiB1aW50NjQKCWd0eG5zIFR5cGVFbnVtCglpbnQgcGF5Cgk9PQoJYnogKndoaWxlXzFfZW5kCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQzMAoJLy8gaW5kZXggPSBpbmRleCArIDEKCWZyYW1lX2RpZyAyIC8vIGluZGV4OiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDIgLy8gaW5kZXg6IHVpbnQ2NAoJYiAqd2hpbGVfMQoKKndoaWxlXzFfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQzMgoJLy8gcmV0dXJuIGNvbmNhdCgKCS8vICAgICAgIGNvbmNhdChjb25jYXQoY29uY2F0KCdhcmM1OGludGVudCcsIGl0b2IodGhpcy5hcHAuaWQpKSwgaXRvYihub25jZSkpLCBpdG9iKGV4cGlyeSkpLAoJLy8gICAgICAgdGhpcy5nZXRPcGVyYXRpb25IYXNoKGluZGV4KQoJLy8gICAgICk7CglieXRlIDB4NjE3MjYzMzUzODY5NmU3NDY1NmU3NCAvLyAiYXJjNThpbnRlbnQiCgl0eG5hIEFwcGxpY2F0aW9ucyAwCglpdG9iCgljb25jYXQKCWZyYW1lX2RpZyAtMSAvLyBub25jZTogdWludDY0CglpdG9iCgljb25jYXQKCWZyYW1lX2RpZyAtMiAvLyBleHBpcnk6IHVpbnQ2NAoJaXRvYgoJY29uY2F0CglmcmFtZV9kaWcgMiAvLyBpbmRleDogdWludDY0CgljYWxsc3ViIGdldE9wZXJhdGlvbkhhc2gKCWNvbmNhdAoKCS8vIHNldCB0aGUgc3Vicm91dGluZSByZXR1cm4gdmFsdWUKCWZyYW1lX2J1cnkgMAoKCS8vIHBvcCBhbGwgbG9jYWwgdmFyaWFibGVzIGZyb20gdGhlIHN0YWNrCglwb3BuIDIKCXJldHN1YgoKLy8gZ2V0U2VuZGVyUm9sZSgpOiBSb2xlCi8vCi8vIEdldCB0aGUgcm9sZSBvZiB0aGUgc2VuZGVyLiBUaGUgYWRtaW4gaXMgbmV2ZXIgY2hlY2tlZCBmb3IgYSByb2xlLCBzbyBpdCBkb2Vzbid0IG5lZWQgdG8gcmVmZXJlbmNlIGEgcm9sZSBib3guCmdldFNlbmRlclJvbGU6Cglwcm90byAwIDEKCgkvLyAqaWY0X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ0MgoJLy8gdGhpcy50eG4uc2VuZGVyID09PSB0aGlzLmFkbWluLnZhbHVlIHx8ICF0aGlzLnJvbGVzKHRoaXMudHhuLnNlbmRlcikuZXhpc3RzCgl0eG4gU2VuZGVyCglieXRlIDB4NjEgLy8gImEiCglhcHBfZ2xvYmFsX2dldAoJPT0KCWR1cAoJYm56ICpza2lwX29yMwoJYnl0ZSAweDcyIC8vICJyIgoJdHhuIFNlbmRlcgoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCSEKCXx8Cgoqc2tpcF9vcjM6CglieiAqaWY0X2VuZAoKCS8vICppZjRfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ0MwoJLy8gcmV0dXJuIHsgYWRkUGx1Z2luczogZmFsc2UsIHJlbW92ZVBsdWdpbnM6IGZhbHNlLCBtYXhEdXJhdGlvbjogMCB9OwoJYnl0ZSAweDAwCglpbnQgMAoJZHVwCglzZXRiaXQKCWludCAxCglpbnQgMAoJc2V0Yml0Cgljb25jYXQKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwCgljb25jYXQKCXJldHN1YgoKKmlmNF9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDQ2CgkvLyByZXR1cm4gdGhpcy5yb2xlcyh0aGlzLnR4bi5zZW5kZXIpLnZhbHVlOwoJYnl0ZSAweDcyIC8vICJyIgoJdHhuIFNlbmRlcgoJY29uY2F0Cglib3hfZ2V0Cglhc3NlcnQKCXJldHN1YgoKLy8gdmVyaWZ5Q2FuU2V0UGx1Z2luKHJlcGxhY2U6IGJvb2xlYW4sIGVuZDogdWludDY0LCB1c2VSb3VuZHM6IGJvb2xlYW4pOiB2b2lkCi8vCi8vIFZlcmlmeSB0aGUgc2VuZGVyIGNhbiBhZGQgb3IgcmVwbGFjZSBhIHBsdWdpbiBwZXJtaXNzaW9uIHRoYXQgZW5kcyBhdCB0aGUgZ2l2ZW4gdGltZS4KLy8gQSByb2xlIGNhbiBvbmx5IHJlcGxhY2UgYSBwZXJtaXNzaW9uIGlmIGl0IGNhbiBib3RoIGFkZCBhbmQgcmVtb3ZlIHBsdWdpbnMsIGFuZCBpdHMgcGVybWlzc2lvbnMgbXVzdCBiZSBtZWFzdXJlZAovLyBpbiB0aW1lc3RhbXBzIHNvIGBlbmRgIGlzIGJvdW5kZWQgaW4gdGhlIHNhbWUgdW5pdCBhcyBtYXhEdXJhdGlvbi4KLy8KLy8gQHBhcmFtIHJlcGxhY2UgV2hldGhlciBhbiBleGlzdGluZyBwZXJtaXNzaW9uIGlzIGJlaW5nIHJlcGxhY2VkCi8vIEBwYXJhbSBlbmQgVGhlIHRpbWVzdGFtcCAob3Igcm91bmQpIHdoZW4gdGhlIHBlcm1pc3Npb24gZXhwaXJlcwovLyBAcGFyYW0gdXNlUm91bmRzIFdoZXRoZXIgYGVuZGAgaXMgYSByb3VuZCByYXRoZXIgdGhhbiBhIHRpbWVzdGFtcAp2ZXJpZnlDYW5TZXRQbHVnaW46Cglwcm90byAzIDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0NTkKCS8vIHJvbGUgPSB0aGlzLmdldFNlbmRlclJvbGUoKQoJY2FsbHN1YiBnZXRTZW5kZXJSb2xlCglmcmFtZV9idXJ5IDAgLy8gcm9sZTogKGJvb2wsYm9vbCx1aW50NjQpCgoJLy8gKmlmNV9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0NjEKCS8vIHJvbGUuYWRkUGx1Z2lucyAmJiAocm9sZS5yZW1vdmVQbHVnaW5zIHx8ICFyZXBsYWNlKQoJZnJhbWVfZGlnIDAgLy8gcm9sZTogKGJvb2wsYm9vbCx1aW50NjQpCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAKCWdldGJpdAoJZHVwCglieiAqc2tpcF9hbmQzCglmcmFtZV9kaWcgMCAvLyByb2xlOiAoYm9vbCxib29sLHVpbnQ2NCkKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMQoJZ2V0Yml0CglkdXAKCWJueiAqc2tpcF9vcjQKCWZyYW1lX2RpZyAtMSAvLyByZXBsYWNlOiBib29sZWFuCgkhCgl8fAoKKnNraXBfb3I0OgoJJiYKCipza2lwX2FuZDM6CglieiAqaWY1X2Vsc2UKCgkvLyAqaWY1X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0NjIKCS8vIGFzc2VydCghdXNlUm91bmRzICYmIGVuZCA8PSBnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCArIHJvbGUubWF4RHVyYXRpb24pCglmcmFtZV9kaWcgLTMgLy8gdXNlUm91bmRzOiBib29sZWFuCgkhCglkdXAKCWJ6ICpza2lwX2FuZDQKCWZyYW1lX2RpZyAtMiAvLyBlbmQ6IHVpbnQ2NAoJZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAoJZnJhbWVfZGlnIDAgLy8gcm9sZTogKGJvb2wsYm9vbCx1aW50NjQpCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCAxIDgKCWJ0b2kKCSsKCTw9CgkmJgoKKnNraXBfYW5kNDoKCWFzc2VydAoJYiAqaWY1X2VuZAoKKmlmNV9lbHNlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ2NAoJLy8gdGhpcy52ZXJpZnlBZG1pbigpCgljYWxsc3ViIHZlcmlmeUFkbWluCgoqaWY1X2VuZDoKCXJldHN1YgoKLy8gdmVyaWZ5Q2FuUmVtb3ZlUGx1Z2luKCk6IHZvaWQKLy8KLy8gVmVyaWZ5IHRoZSBzZW5kZXIgY2FuIHJlbW92ZSBwbHVnaW4gcGVybWlzc2lvbnMKdmVyaWZ5Q2FuUmVtb3ZlUGx1Z2luOgoJcHJvdG8gMCAwCgoJLy8gKmlmNl9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0NzIKCS8vICF0aGlzLmdldFNlbmRlclJvbGUoKS5yZW1vdmVQbHVnaW5zCgljYWxsc3ViIGdldFNlbmRlclJvbGUKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMQoJZ2V0Yml0CgkhCglieiAqaWY2X2VuZAoKCS8vICppZjZfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ3MgoJLy8gdGhpcy52ZXJpZnlBZG1pbigpCgljYWxsc3ViIHZlcmlmeUFkbWluCgoqaWY2X2VuZDoKCXJldHN1YgoKLy8gdmVyaWZ5UmVrZXlUb0Fic3RyYWN0ZWRBY2NvdW50KHJlcXVpcmVWZXJpZnlDYWxsOiBib29sZWFuKTogdm9pZAovLwovLyBFbnN1cmUgdGhhdCBieSB0aGUgZW5kIG9mIHRoZSBncm91cCB0aGUgYWJzdHJhY3RlZCBhY2NvdW50IGhhcyBjb250cm9sIG9mIGl0cyBhZGRyZXNzCi8vCi8vIEBwYXJhbSByZXF1aXJlVmVyaWZ5Q2FsbCBXaGV0aGVyIGNvbnRyb2wgbXVzdCBiZSByZWdhaW5lZCB2aWEgYXJjNThfdmVyaWZ5QXV0aEFkZHIgcmF0aGVyIHRoYW4gYW4gZXhwbGljaXQgcmVrZXkKdmVyaWZ5UmVrZXlUb0Fic3RyYWN0ZWRBY2NvdW50OgoJcHJvdG8gMSAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cG4gMgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo0ODEKCS8vIHJla2V5ZWRCYWNrID0gZmFsc2UKCWludCAwCglmcmFtZV9idXJ5IDAgLy8gcmVrZXllZEJhY2s6IGJvb2wKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDgzCgkvLyBmb3IgKGxldCBpID0gdGhpcy50eG4uZ3JvdXBJbmRleDsgaSA8IHRoaXMudHhuR3JvdXAubGVuZ3RoOyBpICs9IDEpCgl0eG4gR3JvdXBJbmRleAoJZnJhbWVfYnVyeSAxIC8vIGk6IHVpbnQ2NAoKKmZvcl8yOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ4MwoJLy8gaSA8IHRoaXMudHhuR3JvdXAubGVuZ3RoCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWdsb2JhbCBHcm91cFNpemUKCTwKCWJ6ICpmb3JfMl9lbmQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDg0CgkvLyB0eG4gPSB0aGlzLnR4bkdyb3VwW2ldCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWZyYW1lX2J1cnkgMiAvLyB0eG46IHR4bgoKCS8vICppZjdfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDg3CgkvLyAhcmVxdWlyZVZlcmlmeUNhbGwgJiYgdHhuLnNlbmRlciA9PT0gdGhpcy5jb250cm9sbGVkQWRkcmVzcy52YWx1ZSAmJiB0eG4ucmVrZXlUbyA9PT0gdGhpcy5nZXRBdXRoQWRkcigpCglmcmFtZV9kaWcgLTEgLy8gcmVxdWlyZVZlcmlmeUNhbGw6IGJvb2xlYW4KCSEKCWR1cAoJYnogKnNraXBfYW5kNQoJZnJhbWVfZGlnIDIgLy8gdHhuOiB0eG4KCWd0eG5zIFNlbmRlcgoJYnl0ZSAweDYzIC8vICJjIgoJYXBwX2dsb2JhbF9nZXQKCT09CgkmJgoKKnNraXBfYW5kNToKCWR1cAoJYnogKnNraXBfYW5kNgoJZnJhbWVfZGlnIDIgLy8gdHhuOiB0eG4KCWd0eG5zIFJla2V5VG8KCWNhbGxzdWIgZ2V0QXV0aEFkZHIKCT09CgkmJgoKKnNraXBfYW5kNjoKCWJ6ICppZjdfZW5kCgoJLy8gKmlmN19jb25zZXF1ZW50CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NDg4CgkvLyByZWtleWVkQmFjayA9IHRydWUKCWludCAxCglmcmFtZV9idXJ5IDAgLy8gcmVrZXllZEJhY2s6IGJvb2wKCWIgKmZvcl8yX2VuZAoKKmlmN19lbmQ6CgkvLyAqaWY4X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ5NAoJLy8gdHhuLnR5cGVFbnVtID09PSBUcmFuc2FjdGlvblR5cGUuQXBwbGljYXRpb25DYWxsICYmCgkvLyAgICAgICAgIHR4bi5hcHBsaWNhdGlvbklEID09PSB0aGlzLmFwcCAmJgoJLy8gICAgICAgICB0eG4ubnVtQXBwQXJncyA9PT0gMSAmJgoJLy8gICAgICAgICB0eG4uYXBwbGljYXRpb25BcmdzWzBdID09PSBtZXRob2QoJ2FyYzU4X3ZlcmlmeUF1dGhBZGRyKCl2b2lkJykKCWZyYW1lX2RpZyAyIC8vIHR4bjogdHhuCglndHhucyBUeXBlRW51bQoJaW50IGFwcGwKCT09CglkdXAKCWJ6ICpza2lwX2FuZDcKCWZyYW1lX2RpZyAyIC8vIHR4bjogdHhuCglndHhucyBBcHBsaWNhdGlvbklECgl0eG5hIEFwcGxpY2F0aW9ucyAwCgk9PQoJJiYKCipza2lwX2FuZDc6CglkdXAKCWJ6ICpza2lwX2FuZDgKCWZyYW1lX2RpZyAyIC8vIHR4bjogdHhuCglndHhucyBOdW1BcHBBcmdzCglpbnQgMQoJPT0KCSYmCgoqc2tpcF9hbmQ4OgoJZHVwCglieiAqc2tpcF9hbmQ5CglmcmFtZV9kaWcgMiAvLyB0eG46IHR4bgoJZ3R4bnMgQXBwbGljYXRpb25BcmdzIDAKCW1ldGhvZCAiYXJjNThfdmVyaWZ5QXV0aEFkZHIoKXZvaWQiCgk9PQoJJiYKCipza2lwX2FuZDk6CglieiAqaWY4X2VuZAoKCS8vICppZjhfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ5OQoJLy8gcmVrZXllZEJhY2sgPSB0cnVlCglpbnQgMQoJZnJhbWVfYnVyeSAwIC8vIHJla2V5ZWRCYWNrOiBib29sCgliICpmb3JfMl9lbmQKCippZjhfZW5kOgoKKmZvcl8yX2NvbnRpbnVlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjQ4MwoJLy8gaSArPSAxCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgliICpmb3JfMgoKKmZvcl8yX2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1MDQKCS8vIGFzc2VydChyZWtleWVkQmFjaykKCWZyYW1lX2RpZyAwIC8vIHJla2V5ZWRCYWNrOiBib29sCglhc3NlcnQKCXJldHN1YgoKLy8gaGFuZHNCYWNrQ29udHJvbChpbmRleDogdWludDY0KTogYm9vbGVhbgovLwovLyBXaGV0aGVyIGEgdHJhbnNhY3Rpb24gaW4gdGhlIGdyb3VwIGlzIGEgY2FsbCB0byB0aGlzIGFwcCB0aGF0IGhhbmRzIGNvbnRyb2wgb2YgdGhlIGFic3RyYWN0ZWQgYWNjb3VudCBiYWNrLAovLyBlaXRoZXIgYnkgcmVrZXlpbmcgdG8gdGhlIG5leHQgcGx1Z2luIG9yIGJ5IHZlcmlmeWluZyBjb250cm9sIHdhcyByZWdhaW5lZC4KLy8gT3RoZXIgY2FsbHMgdG8gdGhpcyBhcHAsIHN1Y2ggYXMgcmVhZC1vbmx5IG1ldGhvZHMsIGRvbid0IGhhbmQgY29udHJvbCBiYWNrLgovLwovLyBAcGFyYW0gaW5kZXggVGhlIGluZGV4IG9mIHRoZSB0cmFuc2FjdGlvbiBpbiB0aGUgZ3JvdXAKaGFuZHNCYWNrQ29udHJvbDoKCXByb3RvIDEgMQoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjUxNQoJLy8gdHhuID0gdGhpcy50eG5Hcm91cFtpbmRleF0KCWZyYW1lX2RpZyAtMSAvLyBpbmRleDogdWludDY0CglmcmFtZV9idXJ5IDAgLy8gdHhuOiB0eG4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTE3CgkvLyByZXR1cm4gKAoJLy8gICAgICAgdHhuLmFwcGxpY2F0aW9uSUQgPT09IHRoaXMuYXBwICYmCgkvLyAgICAgICAodHhuLmFwcGxpY2F0aW9uQXJnc1swXSA9PT0gbWV0aG9kKCdhcmM1OF9yZWtleVRvUGx1Z2luKHVpbnQ2NCl2b2lkJykgfHwKCS8vICAgICAgICAgdHhuLmFwcGxpY2F0aW9uQXJnc1swXSA9PT0gbWV0aG9kKCdhcmM1OF9yZWtleVRvUGx1Z2luQXNTZXRNZW1iZXIodWludDY0LHN0cmluZyl2b2lkJykgfHwKCS8vICAgICAgICAgdHhuLmFwcGxpY2F0aW9uQXJnc1swXSA9PT0gbWV0aG9kKCdhcmM1OF9yZWtleVRvTmFtZWRQbHVnaW4oc3RyaW5nKXZvaWQnKSB8fAoJLy8gICAgICAgICB0eG4uYXBwbGljYXRpb25BcmdzWzBdID09PSBtZXRob2QoJ2FyYzU4X3ZlcmlmeUF1dGhBZGRyKCl2b2lkJykpCgkvLyAgICAgKTsKCWZyYW1lX2RpZyAwIC8vIHR4bjogdHhuCglndHhucyBBcHBsaWNhdGlvbklECgl0eG5hIEFwcGxpY2F0aW9ucyAwCgk9PQoJZHVwCglieiAqc2tpcF9hbmQxMAoJZnJhbWVfZGlnIDAgLy8gdHhuOiB0eG4KCWd0eG5zIEFwcGxpY2F0aW9uQXJncyAwCgltZXRob2QgImFyYzU4X3Jla2V5VG9QbHVnaW4odWludDY0KXZvaWQiCgk9PQoJZHVwCglibnogKnNraXBfb3I1CglmcmFtZV9kaWcgMCAvLyB0eG46IHR4bgoJZ3R4bnMgQXBwbGljYXRpb25BcmdzIDAKCW1ldGhvZCAiYXJjNThfcmVrZXlUb1BsdWdpbkFzU2V0TWVtYmVyKHVpbnQ2NCxzdHJpbmcpdm9pZCIKCT09Cgl8fAoKKnNraXBfb3I1OgoJZHVwCglibnogKnNraXBfb3I2CglmcmFtZV9kaWcgMCAvLyB0eG46IHR4bgoJZ3R4bnMgQXBwbGljYXRpb25BcmdzIDAKCW1ldGhvZCAiYXJjNThfcmVrZXlUb05hbWVkUGx1Z2luKHN0cmluZyl2b2lkIgoJPT0KCXx8Cgoqc2tpcF9vcjY6CglkdXAKCWJueiAqc2tpcF9vcjcKCWZyYW1lX2RpZyAwIC8vIHR4bjogdHhuCglndHhucyBBcHBsaWNhdGlvbkFyZ3MgMAoJbWV0aG9kICJhcmM1OF92ZXJpZnlBdXRoQWRkcigpdm9pZCIKCT09Cgl8fAoKKnNraXBfb3I3OgoJJiYKCipza2lwX2FuZDEwOgoJLy8gc2V0IHRoZSBzdWJyb3V0aW5lIHJldHVybiB2YWx1ZQoJZnJhbWVfYnVyeSAwCglyZXRzdWIKCi8vIHZlcmlmeVBsdWdpbk1ldGhvZHMocGx1Z2luOiBBcHBJRCwgbWV0aG9kczogYnl0ZXM8ND5bXSk6IHZvaWQKLy8KLy8gRW5zdXJlIHRoYXQgZXZlcnkgYXBwIGNhbGwgdW50aWwgdGhlIG5leHQgY2FsbCB0byB0aGlzIGFwcCB0aGF0IGVpdGhlciByZWtleXMgdG8gdGhlIG5leHQgcGx1Z2luIG9yCi8vIHZlcmlmaWVzIGNvbnRyb2wgd2FzIHJlZ2FpbmVkIGlzIGEgY2FsbCB0byB0aGlzIGFwcCBvciBhIGNhbGwgdG8gdGhlIHBsdWdpbiB3aXRoIG9uZSBvZiB0aGUgYWxsb3dlZCBtZXRob2Qgc2VsZWN0b3JzLgovLyBDYWxsaW5nIG90aGVyIGFwcHMgaXMgcmVqZWN0ZWQsIHNpbmNlIHRoZXkgY291bGQgY2FsbCB0aGUgcGx1Z2luIHdpdGggYW55IG1ldGhvZCBpbiBhbiBpbm5lciB0cmFuc2FjdGlvbi4KLy8gSW5uZXIgdHJhbnNhY3Rpb25zIHRoZSBwbHVnaW4gc2VuZHMgaXRzZWxmIGNhbid0IGJlIGNoZWNrZWQsIGJ1dCBpdHMgYXBwcm92YWwgcHJvZ3JhbSBpcyBwaW5uZWQuCi8vCi8vIEBwYXJhbSBwbHVnaW4gVGhlIHBsdWdpbiBhcHAgYmVpbmcgcmVrZXllZCB0bwovLyBAcGFyYW0gbWV0aG9kcyBUaGUgYWxsb3dlZCBtZXRob2Qgc2VsZWN0b3JzLiBJZiBlbXB0eSwgYWxsIG1ldGhvZHMgYXJlIGFsbG93ZWQKdmVyaWZ5UGx1Z2luTWV0aG9kczoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXBuIDMKCgkvLyAqaWY5X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjUzNgoJLy8gbWV0aG9kcy5sZW5ndGggPT09IDAKCWZyYW1lX2RpZyAtMiAvLyBtZXRob2RzOiBieXRlczw0PltdCglsZW4KCWludCA0CgkvCglpbnQgMAoJPT0KCWJ6ICppZjlfZW5kCgoJLy8gKmlmOV9jb25zZXF1ZW50CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTM2CgkvLyByZXR1cm47CglyZXRzdWIKCippZjlfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjUzOAoJLy8gZm9yIChsZXQgaSA9IHRoaXMudHhuLmdyb3VwSW5kZXggKyAxOyBpIDwgdGhpcy50eG5Hcm91cC5sZW5ndGg7IGkgKz0gMSkKCXR4biBHcm91cEluZGV4CglpbnQgMQoJKwoJZnJhbWVfYnVyeSAwIC8vIGk6IHVpbnQ2NAoKKmZvcl8zOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjUzOAoJLy8gaSA8IHRoaXMudHhuR3JvdXAubGVuZ3RoCglmcmFtZV9kaWcgMCAvLyBpOiB1aW50NjQKCWdsb2JhbCBHcm91cFNpemUKCTwKCWJ6ICpmb3JfM19lbmQKCgkvLyAqaWYxMF9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1MzkKCS8vIHRoaXMuaGFuZHNCYWNrQ29udHJvbChpKQoJZnJhbWVfZGlnIDAgLy8gaTogdWludDY0CgljYWxsc3ViIGhhbmRzQmFja0NvbnRyb2wKCWJ6ICppZjEwX2VuZAoKCS8vICppZjEwX2NvbnNlcXVlbnQKCWIgKmZvcl8zX2VuZAoKKmlmMTBfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjU0MQoJLy8gdHhuID0gdGhpcy50eG5Hcm91cFtpXQoJZnJhbWVfZGlnIDAgLy8gaTogdWludDY0CglmcmFtZV9idXJ5IDEgLy8gdHhuOiB0eG4KCgkvLyAqaWYxMV9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1NDIKCS8vIHR4bi50eXBlRW51bSA9PT0gVHJhbnNhY3Rpb25UeXBlLkFwcGxpY2F0aW9uQ2FsbCAmJiB0eG4uYXBwbGljYXRpb25JRCAhPT0gdGhpcy5hcHAKCWZyYW1lX2RpZyAxIC8vIHR4bjogdHhuCglndHhucyBUeXBlRW51bQoJaW50IGFwcGwKCT09CglkdXAKCWJ6ICpza2lwX2FuZDExCglmcmFtZV9kaWcgMSAvLyB0eG46IHR4bgoJZ3R4bnMgQXBwbGljYXRpb25JRAoJdHhuYSBBcHBsaWNhdGlvbnMgMAoJIT0KCSYmCgoqc2tpcF9hbmQxMToKCWJ6ICppZjExX2VuZAoKCS8vICppZjExX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1NDMKCS8vIGFzc2VydCh0eG4uYXBwbGljYXRpb25JRCA9PT0gcGx1Z2luICYmIHR4bi5udW1BcHBBcmdzID4gMCkKCWZyYW1lX2RpZyAxIC8vIHR4bjogdHhuCglndHhucyBBcHBsaWNhdGlvbklECglmcmFtZV9kaWcgLTEgLy8gcGx1Z2luOiBBcHBJRAoJPT0KCWR1cAoJYnogKnNraXBfYW5kMTIKCWZyYW1lX2RpZyAxIC8vIHR4bjogdHhuCglndHhucyBOdW1BcHBBcmdzCglpbnQgMAoJPgoJJiYKCipza2lwX2FuZDEyOgoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjU0NQoJLy8gYWxsb3dlZCA9IGZhbHNlCglpbnQgMAoJZnJhbWVfYnVyeSAyIC8vIGFsbG93ZWQ6IGJvb2wKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTQ2CgkvLyBmb3IgKGxldCBqID0gMDsgaiA8IG1ldGhvZHMubGVuZ3RoOyBqICs9IDEpCglpbnQgMAoJZnJhbWVfYnVyeSAzIC8vIGo6IHVpbnQ2NAoKKmZvcl80OgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjU0NgoJLy8gaiA8IG1ldGhvZHMubGVuZ3RoCglmcmFtZV9kaWcgMyAvLyBqOiB1aW50NjQKCWZyYW1lX2RpZyAtMiAvLyBtZXRob2RzOiBieXRlczw0PltdCglsZW4KCWludCA0CgkvCgk8CglieiAqZm9yXzRfZW5kCgoJLy8gKmlmMTJfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTQ3CgkvLyByYXdCeXRlcyhtZXRob2RzW2pdKSA9PT0gdHhuLmFwcGxpY2F0aW9uQXJnc1swXQoJZnJhbWVfZGlnIC0yIC8vIG1ldGhvZHM6IGJ5dGVzPDQ+W10KCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMCAvLyBpbml0aWFsIG9mZnNldAoJZnJhbWVfZGlnIDMgLy8gajogdWludDY0CglpbnQgNAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglpbnQgNAoJZXh0cmFjdDMKCWZyYW1lX2RpZyAxIC8vIHR4bjogdHhuCglndHhucyBBcHBsaWNhdGlvbkFyZ3MgMAoJPT0KCWJ6ICppZjEyX2VuZAoKCS8vICppZjEyX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1NDgKCS8vIGFsbG93ZWQgPSB0cnVlCglpbnQgMQoJZnJhbWVfYnVyeSAyIC8vIGFsbG93ZWQ6IGJvb2wKCWIgKmZvcl80X2VuZAoKKmlmMTJfZW5kOgoKKmZvcl80X2NvbnRpbnVlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjU0NgoJLy8gaiArPSAxCglmcmFtZV9kaWcgMyAvLyBqOiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDMgLy8gajogdWludDY0CgliICpmb3JfNAoKKmZvcl80X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1NTMKCS8vIGFzc2VydChhbGxvd2VkKQoJZnJhbWVfZGlnIDIgLy8gYWxsb3dlZDogYm9vbAoJYXNzZXJ0CgoqaWYxMV9lbmQ6CgoqZm9yXzNfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTM4CgkvLyBpICs9IDEKCWZyYW1lX2RpZyAwIC8vIGk6IHVpbnQ2NAoJaW50IDEKCSsKCWZyYW1lX2J1cnkgMCAvLyBpOiB1aW50NjQKCWIgKmZvcl8zCgoqZm9yXzNfZW5kOgoJcmV0c3ViCgovLyBnZXRQbHVnaW5EZWxheSgpOiB1aW50NjQKLy8KLy8gR2V0IHRoZSBwbHVnaW4gZGVsYXkgdGhhdCBjdXJyZW50bHkgYXBwbGllcyB0byBuZXcgcGx1Z2luIHBlcm1pc3Npb25zCmdldFBsdWdpbkRlbGF5OgoJcHJvdG8gMCAxCgoJLy8gKmlmMTNfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTYyCgkvLyBnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCA+PSB0aGlzLnBsdWdpbkRlbGF5Q2hhbmdlc0F0LnZhbHVlCglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCglieXRlIDB4NzA3NCAvLyAicHQiCglhcHBfZ2xvYmFsX2dldAoJPj0KCWJ6ICppZjEzX2VuZAoKCS8vICppZjEzX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1NjIKCS8vIHJldHVybiB0aGlzLnBsdWdpbkRlbGF5LnZhbHVlOwoJYnl0ZSAweDcwNjQgLy8gInBkIgoJYXBwX2dsb2JhbF9nZXQKCXJldHN1YgoKKmlmMTNfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjU2NAoJLy8gcmV0dXJuIHRoaXMucHJldmlvdXNQbHVnaW5EZWxheS52YWx1ZTsKCWJ5dGUgMHg3MDcwIC8vICJwcCIKCWFwcF9nbG9iYWxfZ2V0CglyZXRzdWIKCi8vIGdldE5vdyh1c2VSb3VuZHM6IGJvb2xlYW4pOiB1aW50NjQKLy8KLy8gR2V0IHRoZSBjdXJyZW50IHRpbWVzdGFtcCBvciByb3VuZAovLwovLyBAcGFyYW0gdXNlUm91bmRzIFdoZXRoZXIgdG8gZ2V0IHRoZSByb3VuZCByYXRoZXIgdGhhbiB0aGUgdGltZXN0YW1wCmdldE5vdzoKCXByb3RvIDEgMQoKCS8vICppZjE0X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjU3MwoJLy8gdXNlUm91bmRzCglmcmFtZV9kaWcgLTEgLy8gdXNlUm91bmRzOiBib29sZWFuCglieiAqaWYxNF9lbmQKCgkvLyAqaWYxNF9jb25zZXF1ZW50CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTczCgkvLyByZXR1cm4gZ2xvYmFscy5yb3VuZDsKCWdsb2JhbCBSb3VuZAoJcmV0c3ViCgoqaWYxNF9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTc1CgkvLyByZXR1cm4gZ2xvYmFscy5sYXRlc3RUaW1lc3RhbXA7CglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCglyZXRzdWIKCi8vIHBsdWdpbklzVXNhYmxlKGtleTogUGx1Z2luc0tleSwgY2FsbGVyOiBBZGRyZXNzKTogYm9vbGVhbgovLwovLyBXaGV0aGVyIHRoZSBwbHVnaW4gcGVybWlzc2lvbiBleGlzdHMsIGlzIHdpdGhpbiBpdHMgdmFsaWRpdHkgd2luZG93LCBoYXMgbm90IGJlZW4gdXNlZCB1cCBvciB1c2VkIHRvbyByZWNlbnRseQovLyBhbmQgdGhlIGNhbGxlciBob2xkcyBlbm91Z2ggb2YgdGhlIGdhdGUgYXNzZXQKLy8KLy8gQHBhcmFtIGtleSBUaGUgcGx1Z2luIHBlcm1pc3Npb24gdG8gY2hlY2sKLy8gQHBhcmFtIGNhbGxlciBUaGUgYWRkcmVzcyBjYWxsaW5nIHRoZSBwbHVnaW4KcGx1Z2luSXNVc2FibGU6Cglwcm90byAyIDEKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoJZHVwCgoJLy8gKmlmMTVfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTg2CgkvLyB0aGlzLnBhdXNlZC52YWx1ZSB8fCAhdGhpcy5wbHVnaW5zKGtleSkuZXhpc3RzCglieXRlIDB4NzA3MyAvLyAicHMiCglhcHBfZ2xvYmFsX2dldAoJaW50IDAKCWdldGJpdAoJZHVwCglibnogKnNraXBfb3I4CglieXRlIDB4NzAgLy8gInAiCglmcmFtZV9kaWcgLTEgLy8ga2V5OiBQbHVnaW5zS2V5Cgljb25jYXQKCWJveF9sZW4KCXN3YXAKCXBvcAoJIQoJfHwKCipza2lwX29yODoKCWJ6ICppZjE1X2VuZAoKCS8vICppZjE1X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1ODYKCS8vIHJldHVybiBmYWxzZTsKCWludCAwCgliICpwbHVnaW5Jc1VzYWJsZSpyZXR1cm4KCippZjE1X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo1ODgKCS8vIGluZm8gPSB0aGlzLnBsdWdpbnMoa2V5KS52YWx1ZQoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0CglmcmFtZV9idXJ5IDAgLy8gc3RvcmFnZSBrZXkvL2luZm8KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTg5CgkvLyBub3cgPSB0aGlzLmdldE5vdyhpbmZvLnVzZVJvdW5kcykKCWZyYW1lX2RpZyAwIC8vIHN0b3JhZ2Uga2V5Ly9pbmZvCglib3hfZ2V0Cglhc3NlcnQKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMTI4CglnZXRiaXQKCWNhbGxzdWIgZ2V0Tm93CglmcmFtZV9idXJ5IDEgLy8gbm93OiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NTkwCgkvLyByZXR1cm4gKAoJLy8gICAgICAgLy8gU2Vzc2lvbiBrZXlzIGFyZSBhbGwgcmV2b2tlZCBhdCBvbmNlIGJ5IGNoYW5naW5nIHRoZSBzZXNzaW9uIGVwb2NoCgkvLyAgICAgICAoaW5mby5zZXNzaW9uRXBvY2ggPT09IDAgfHwgaW5mby5zZXNzaW9uRXBvY2ggPT09IHRoaXMuc2Vzc2lvbkVwb2NoLnZhbHVlKSAmJgoJLy8gICAgICAgc2hhMjU2KGtleS5hcHBsaWNhdGlvbi5hcHByb3ZhbFByb2dyYW0pID09PSBpbmZvLmFwcHJvdmFsSGFzaCAmJgoJLy8gICAgICAgZ2xvYmFscy5sYXRlc3RUaW1lc3RhbXAgPj0gaW5mby5hY3RpdmF0ZXNBdCAmJgoJLy8gICAgICAgaW5mby5zdGFydCA8PSBub3cgJiYKCS8vICAgICAgIG5vdyA8PSBpbmZvLmVuZCAmJgoJLy8gICAgICAgKGluZm8ubWF4VXNlcyA9PT0gMCB8fCBpbmZvLnVzZXMgPCBpbmZvLm1heFVzZXMpICYmCgkvLyAgICAgICBub3cgPj0gaW5mby5sYXN0VXNlZCArIGluZm8uY29vbGRvd24gJiYKCS8vICAgICAgIChpbmZvLmdhdGVBbW91bnQgPT09IDAgfHwgY2FsbGVyLmFzc2V0QmFsYW5jZShpbmZvLmdhdGVBc3NldCkgPj0gaW5mby5nYXRlQW1vdW50KQoJLy8gICAgICk7CglmcmFtZV9kaWcgMCAvLyBzdG9yYWdlIGtleS8vaW5mbwoJYm94X2dldAoJYXNzZXJ0CglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCA4OSA4CglidG9pCglpbnQgMAoJPT0KCWR1cAoJYm56ICpza2lwX29yOQoJZnJhbWVfZGlnIDAgLy8gc3RvcmFnZSBrZXkvL2luZm8KCWJveF9nZXQKCWFzc2VydAoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWV4dHJhY3QgODkgOAoJYnRvaQoJYnl0ZSAweDczNjUgLy8gInNlIgoJYXBwX2dsb2JhbF9nZXQKCT09Cgl8fAoKKnNraXBfb3I5OgoJZHVwCglieiAqc2tpcF9hbmQxMwoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJZXh0cmFjdCAwIDgKCWJ0b2kKCWFwcF9wYXJhbXNfZ2V0IEFwcEFwcHJvdmFsUHJvZ3JhbQoJcG9wCglzaGEyNTYKCWZyYW1lX2RpZyAwIC8vIHN0b3JhZ2Uga2V5Ly9pbmZvCglib3hfZ2V0Cglhc3NlcnQKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglleHRyYWN0IDk4IDMyCgk9PQoJJiYKCipza2lwX2FuZDEzOgoJZHVwCglieiAqc2tpcF9hbmQxNAoJZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAoJZnJhbWVfZGlnIDAgLy8gc3RvcmFnZSBrZXkvL2luZm8KCWJveF9nZXQKCWFzc2VydAoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWV4dHJhY3QgNTMgOAoJYnRvaQoJPj0KCSYmCgoqc2tpcF9hbmQxNDoKCWR1cAoJYnogKnNraXBfYW5kMTUKCWZyYW1lX2RpZyAwIC8vIHN0b3JhZ2Uga2V5Ly9pbmZvCglib3hfZ2V0Cglhc3NlcnQKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglleHRyYWN0IDAgOAoJYnRvaQoJZnJhbWVfZGlnIDEgLy8gbm93OiB1aW50NjQKCTw9CgkmJgoKKnNraXBfYW5kMTU6CglkdXAKCWJ6ICpza2lwX2FuZDE2CglmcmFtZV9kaWcgMSAvLyBub3c6IHVpbnQ2NAoJZnJhbWVfZGlnIDAgLy8gc3RvcmFnZSBrZXkvL2luZm8KCWJveF9nZXQKCWFzc2VydAoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWV4dHJhY3QgOCA4CglidG9pCgk8PQoJJiYKCipza2lwX2FuZDE2OgoJZHVwCglieiAqc2tpcF9hbmQxNwoJZnJhbWVfZGlnIDAgLy8gc3RvcmFnZSBrZXkvL2luZm8KCWJveF9nZXQKCWFzc2VydAoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWV4dHJhY3QgMjYgOAoJYnRvaQoJaW50IDAKCT09CglkdXAKCWJueiAqc2tpcF9vcjEwCglmcmFtZV9kaWcgMCAvLyBzdG9yYWdlIGtleS8vaW5mbwoJYm94X2dldAoJYXNzZXJ0CglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCAzNSA4CglidG9pCglmcmFtZV9kaWcgMCAvLyBzdG9yYWdlIGtleS8vaW5mbwoJYm94X2dldAoJYXNzZXJ0CglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCAyNiA4CglidG9pCgk8Cgl8fAoKKnNraXBfb3IxMDoKCSYmCgoqc2tpcF9hbmQxNzoKCWR1cAoJYnogKnNraXBfYW5kMTgKCWZyYW1lX2RpZyAxIC8vIG5vdzogdWludDY0CglmcmFtZV9kaWcgMCAvLyBzdG9yYWdlIGtleS8vaW5mbwoJYm94X2dldAoJYXNzZXJ0CglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCA0NCA4CglidG9pCglmcmFtZV9kaWcgMCAvLyBzdG9yYWdlIGtleS8vaW5mbwoJYm94X2dldAoJYXNzZXJ0CglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCAxNyA4CglidG9pCgkrCgk+PQoJJiYKCipza2lwX2FuZDE4OgoJZHVwCglieiAqc2tpcF9hbmQxOQoJZnJhbWVfZGlnIDAgLy8gc3RvcmFnZSBrZXkvL2luZm8KCWJveF9nZXQKCWFzc2VydAoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWV4dHJhY3QgODAgOAoJYnRvaQoJaW50IDAKCT09CglkdXAKCWJueiAqc2tpcF9vcjExCglmcmFtZV9kaWcgLTIgLy8gY2FsbGVyOiBBZGRyZXNzCglmcmFtZV9kaWcgMCAvLyBzdG9yYWdlIGtleS8vaW5mbwoJYm94X2dldAoJYXNzZXJ0CglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCA3MSA4CglidG9pCglhc3NldF9ob2xkaW5nX2dldCBBc3NldEJhbGFuY2UKCXBvcAoJZnJhbWVfZGlnIDAgLy8gc3RvcmFnZSBrZXkvL2luZm8KCWJveF9nZXQKCWFzc2VydAoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWV4dHJhY3QgODAgOAoJYnRvaQoJPj0KCXx8Cgoqc2tpcF9vcjExOgoJJiYKCipza2lwX2FuZDE5OgoKKnBsdWdpbklzVXNhYmxlKnJldHVybjoKCS8vIHNldCB0aGUgc3Vicm91dGluZSByZXR1cm4gdmFsdWUKCWZyYW1lX2J1cnkgMAoKCS8vIHBvcCBhbGwgbG9jYWwgdmFyaWFibGVzIGZyb20gdGhlIHN0YWNrCglwb3BuIDEKCXJldHN1YgoKLy8gZ2V0UGx1Z2luS2V5KHBsdWdpbjogQXBwSUQsIGNhbGxlcjogQWRkcmVzcyk6IFBsdWdpbnNLZXkKLy8KLy8gR2V0IHRoZSBwbHVnaW4gcGVybWlzc2lvbiB0byB1c2UgZm9yIHRoZSBnaXZlbiBjYWxsZXIuCi8vIFRoZSBnbG9iYWwgcGVybWlzc2lvbiBpcyB1c2VkIGlmIGl0IGlzIHVzYWJsZSwgb3RoZXJ3aXNlIHRoZSBwZXJtaXNzaW9uIGZvciB0aGUgY2FsbGVyIGlzIHVzZWQKLy8KLy8gQHBhcmFtIHBsdWdpbiBUaGUgcGx1Z2luIGFwcAovLyBAcGFyYW0gY2FsbGVyIFRoZSBhZGRyZXNzIGNhbGxpbmcgdGhlIHBsdWdpbgpnZXRQbHVnaW5LZXk6Cglwcm90byAyIDEKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MTEKCS8vIGdsb2JhbEtleTogUGx1Z2luc0tleSA9IHsgYXBwbGljYXRpb246IHBsdWdpbiwgYWxsb3dlZENhbGxlcjogZ2xvYmFscy56ZXJvQWRkcmVzcyB9CglmcmFtZV9kaWcgLTEgLy8gcGx1Z2luOiBBcHBJRAoJaXRvYgoJZ2xvYmFsIFplcm9BZGRyZXNzCgljb25jYXQKCWZyYW1lX2J1cnkgMCAvLyBnbG9iYWxLZXk6IFBsdWdpbnNLZXkKCgkvLyAqaWYxNl9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MTIKCS8vIHRoaXMucGx1Z2luSXNVc2FibGUoZ2xvYmFsS2V5LCBjYWxsZXIpCglmcmFtZV9kaWcgLTIgLy8gY2FsbGVyOiBBZGRyZXNzCglmcmFtZV9kaWcgMCAvLyBnbG9iYWxLZXk6IFBsdWdpbnNLZXkKCWNhbGxzdWIgcGx1Z2luSXNVc2FibGUKCWJ6ICppZjE2X2VuZAoKCS8vICppZjE2X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MTIKCS8vIHJldHVybiBnbG9iYWxLZXk7CglmcmFtZV9kaWcgMCAvLyBnbG9iYWxLZXk6IFBsdWdpbnNLZXkKCWIgKmdldFBsdWdpbktleSpyZXR1cm4KCippZjE2X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MTQKCS8vIHJldHVybiB7IGFwcGxpY2F0aW9uOiBwbHVnaW4sIGFsbG93ZWRDYWxsZXI6IGNhbGxlciB9OwoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWl0b2IKCWZyYW1lX2RpZyAtMiAvLyBjYWxsZXI6IEFkZHJlc3MKCWNvbmNhdAoKKmdldFBsdWdpbktleSpyZXR1cm46CgkvLyBzZXQgdGhlIHN1YnJvdXRpbmUgcmV0dXJuIHZhbHVlCglmcmFtZV9idXJ5IDAKCXJldHN1YgoKLy8gZ2V0Q29udHJvbGxlZEJhbGFuY2UoYXNzZXQ6IEFzc2V0SUQpOiB1aW50NjQKLy8KLy8gR2V0IHRoZSBiYWxhbmNlIHRoZSBjb250cm9sbGVkIGFkZHJlc3MgaG9sZHMgb2YgdGhlIGdpdmVuIGFzc2V0Ci8vCi8vIEBwYXJhbSBhc3NldCBUaGUgYXNzZXQsIG9yIHplcm8gZm9yIEFMR08KZ2V0Q29udHJvbGxlZEJhbGFuY2U6Cglwcm90byAxIDEKCgkvLyAqaWYxN19jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MjMKCS8vIGFzc2V0ID09PSBBc3NldElELnplcm9JbmRleAoJZnJhbWVfZGlnIC0xIC8vIGFzc2V0OiBBc3NldElECglpbnQgMAoJPT0KCWJ6ICppZjE3X2VuZAoKCS8vICppZjE3X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MjMKCS8vIHJldHVybiB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlLmJhbGFuY2U7CglieXRlIDB4NjMgLy8gImMiCglhcHBfZ2xvYmFsX2dldAoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RCYWxhbmNlCglwb3AKCXJldHN1YgoKKmlmMTdfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjYyNQoJLy8gcmV0dXJuIHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUuYXNzZXRCYWxhbmNlKGFzc2V0KTsKCWJ5dGUgMHg2MyAvLyAiYyIKCWFwcF9nbG9iYWxfZ2V0CglmcmFtZV9kaWcgLTEgLy8gYXNzZXQ6IEFzc2V0SUQKCWFzc2V0X2hvbGRpbmdfZ2V0IEFzc2V0QmFsYW5jZQoJcG9wCglyZXRzdWIKCi8vIHJlY29yZEJhbGFuY2VzQmVmb3JlKGtleTogUGx1Z2luc0tleSk6IHZvaWQKLy8KLy8gUmVjb3JkIHRoZSBiYWxhbmNlcyBvZiB0aGUgY29udHJvbGxlZCBhZGRyZXNzIGJlZm9yZSBhIHBsdWdpbiB3aXRoIHNwZW5kaW5nIGxpbWl0cyBpcyB1c2VkCi8vCi8vIEBwYXJhbSBrZXkgVGhlIHBsdWdpbiBwZXJtaXNzaW9uIHRoZSBsaW1pdHMgYmVsb25nIHRvCnJlY29yZEJhbGFuY2VzQmVmb3JlOgoJcHJvdG8gMSAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MzQKCS8vIGxpbWl0cyA9IGNsb25lKHRoaXMuc3BlbmRpbmdMaW1pdHMoa2V5KS52YWx1ZSkKCWJ5dGUgMHg3MyAvLyAicyIKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJaW50IDIKCWludCAwCglib3hfZXh0cmFjdAoJZnJhbWVfYnVyeSAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjYzNgoJLy8gZm9yIChsZXQgaSA9IDA7IGkgPCBsaW1pdHMubGVuZ3RoOyBpICs9IDEpCglpbnQgMAoJZnJhbWVfYnVyeSAxIC8vIGk6IHVpbnQ2NAoKKmZvcl81OgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjYzNgoJLy8gaSA8IGxpbWl0cy5sZW5ndGgKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJZnJhbWVfZGlnIDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCWxlbgoJaW50IDQ4CgkvCgk8CglieiAqZm9yXzVfZW5kCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjYzNwoJLy8gbGltaXRzW2ldLmJhbGFuY2VCZWZvcmUgPSB0aGlzLmdldENvbnRyb2xsZWRCYWxhbmNlKGxpbWl0c1tpXS5hc3NldCkKCWZyYW1lX2RpZyAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAgLy8gaW5pdGlhbCBvZmZzZXQKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDQ4CgkqIC8vIGFjYyAqIHR5cGVMZW5ndGgKCSsKCWludCA0MCAvLyBoZWFkT2Zmc2V0CgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA0OAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglpbnQgMCAvLyBoZWFkT2Zmc2V0CgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglpbnQgOAoJZXh0cmFjdDMKCWJ0b2kKCWNhbGxzdWIgZ2V0Q29udHJvbGxlZEJhbGFuY2UKCWl0b2IKCXJlcGxhY2UzCglmcmFtZV9idXJ5IDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCipmb3JfNV9jb250aW51ZToKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2MzYKCS8vIGkgKz0gMQoJZnJhbWVfZGlnIDEgLy8gaTogdWludDY0CglpbnQgMQoJKwoJZnJhbWVfYnVyeSAxIC8vIGk6IHVpbnQ2NAoJYiAqZm9yXzUKCipmb3JfNV9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NjQwCgkvLyB0aGlzLnNwZW5kaW5nTGltaXRzKGtleSkudmFsdWUgPSBsaW1pdHMKCWJ5dGUgMHg3MyAvLyAicyIKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJZHVwCglib3hfZGVsCglwb3AKCWZyYW1lX2RpZyAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglkdXAKCWxlbgoJaW50IDQ4CgkvCglpdG9iCglleHRyYWN0IDYgMgoJc3dhcAoJY29uY2F0Cglib3hfcHV0CglyZXRzdWIKCi8vIHZlcmlmeVNwZW5kaW5nKGtleTogUGx1Z2luc0tleSk6IHZvaWQKLy8KLy8gQWRkIHdoYXQgdGhlIHBsdWdpbiBzcGVudCB0byB0aGUgY3VycmVudCBwZXJpb2Qgb2YgZWFjaCBsaW1pdCBhbmQgZW5zdXJlIG5vIGxpbWl0IGhhcyBiZWVuIGV4Y2VlZGVkCi8vCi8vIEBwYXJhbSBrZXkgVGhlIHBsdWdpbiBwZXJtaXNzaW9uIHRoZSBsaW1pdHMgYmVsb25nIHRvCnZlcmlmeVNwZW5kaW5nOgoJcHJvdG8gMSAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cG4gMgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2NDkKCS8vIGxpbWl0cyA9IGNsb25lKHRoaXMuc3BlbmRpbmdMaW1pdHMoa2V5KS52YWx1ZSkKCWJ5dGUgMHg3MyAvLyAicyIKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJaW50IDIKCWludCAwCglib3hfZXh0cmFjdAoJZnJhbWVfYnVyeSAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjY1MQoJLy8gZm9yIChsZXQgaSA9IDA7IGkgPCBsaW1pdHMubGVuZ3RoOyBpICs9IDEpCglpbnQgMAoJZnJhbWVfYnVyeSAxIC8vIGk6IHVpbnQ2NAoKKmZvcl82OgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjY1MQoJLy8gaSA8IGxpbWl0cy5sZW5ndGgKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJZnJhbWVfZGlnIDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCWxlbgoJaW50IDQ4CgkvCgk8CglieiAqZm9yXzZfZW5kCgoJLy8gKmlmMThfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NjUzCgkvLyBnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCA+PSBsaW1pdHNbaV0ucGVyaW9kU3RhcnQgKyBsaW1pdHNbaV0ucGVyaW9kCglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA0OAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglpbnQgMjQgLy8gaGVhZE9mZnNldAoJKwoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJaW50IDgKCWV4dHJhY3QzCglidG9pCglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA0OAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglpbnQgMTYgLy8gaGVhZE9mZnNldAoJKwoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJaW50IDgKCWV4dHJhY3QzCglidG9pCgkrCgk+PQoJYnogKmlmMThfZW5kCgoJLy8gKmlmMThfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjY1NAoJLy8gbGltaXRzW2ldLnBlcmlvZFN0YXJ0ID0gZ2xvYmFscy5sYXRlc3RUaW1lc3RhbXAKCWZyYW1lX2RpZyAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAgLy8gaW5pdGlhbCBvZmZzZXQKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDQ4CgkqIC8vIGFjYyAqIHR5cGVMZW5ndGgKCSsKCWludCAyNCAvLyBoZWFkT2Zmc2V0CgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCglpdG9iCglyZXBsYWNlMwoJZnJhbWVfYnVyeSAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjY1NQoJLy8gbGltaXRzW2ldLnNwZW50ID0gMAoJZnJhbWVfZGlnIDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMCAvLyBpbml0aWFsIG9mZnNldAoJZnJhbWVfZGlnIDEgLy8gaTogdWludDY0CglpbnQgNDgKCSogLy8gYWNjICogdHlwZUxlbmd0aAoJKwoJaW50IDMyIC8vIGhlYWRPZmZzZXQKCSsKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCXN3YXAKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwCglyZXBsYWNlMwoJZnJhbWVfYnVyeSAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCgoqaWYxOF9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NjU4CgkvLyBiYWxhbmNlID0gdGhpcy5nZXRDb250cm9sbGVkQmFsYW5jZShsaW1pdHNbaV0uYXNzZXQpCglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA0OAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglpbnQgMCAvLyBoZWFkT2Zmc2V0CgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglpbnQgOAoJZXh0cmFjdDMKCWJ0b2kKCWNhbGxzdWIgZ2V0Q29udHJvbGxlZEJhbGFuY2UKCWZyYW1lX2J1cnkgMiAvLyBiYWxhbmNlOiB1aW50NjQKCgkvLyAqaWYxOV9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2NTkKCS8vIGJhbGFuY2UgPCBsaW1pdHNbaV0uYmFsYW5jZUJlZm9yZQoJZnJhbWVfZGlnIDIgLy8gYmFsYW5jZTogdWludDY0CglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA0OAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglpbnQgNDAgLy8gaGVhZE9mZnNldAoJKwoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJaW50IDgKCWV4dHJhY3QzCglidG9pCgk8CglieiAqaWYxOV9lbmQKCgkvLyAqaWYxOV9jb25zZXF1ZW50CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NjYwCgkvLyBsaW1pdHNbaV0uc3BlbnQgPSBsaW1pdHNbaV0uc3BlbnQgKyBsaW1pdHNbaV0uYmFsYW5jZUJlZm9yZSAtIGJhbGFuY2UKCWZyYW1lX2RpZyAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAgLy8gaW5pdGlhbCBvZmZzZXQKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDQ4CgkqIC8vIGFjYyAqIHR5cGVMZW5ndGgKCSsKCWludCAzMiAvLyBoZWFkT2Zmc2V0CgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA0OAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglpbnQgMzIgLy8gaGVhZE9mZnNldAoJKwoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJaW50IDgKCWV4dHJhY3QzCglidG9pCglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA0OAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglpbnQgNDAgLy8gaGVhZE9mZnNldAoJKwoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJaW50IDgKCWV4dHJhY3QzCglidG9pCgkrCglmcmFtZV9kaWcgMiAvLyBiYWxhbmNlOiB1aW50NjQKCS0KCWl0b2IKCXJlcGxhY2UzCglmcmFtZV9idXJ5IDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCippZjE5X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2NjMKCS8vIGFzc2VydChsaW1pdHNbaV0uc3BlbnQgPD0gbGltaXRzW2ldLmFtb3VudCkKCWZyYW1lX2RpZyAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAgLy8gaW5pdGlhbCBvZmZzZXQKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDQ4CgkqIC8vIGFjYyAqIHR5cGVMZW5ndGgKCSsKCWludCAzMiAvLyBoZWFkT2Zmc2V0CgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglpbnQgOAoJZXh0cmFjdDMKCWJ0b2kKCWZyYW1lX2RpZyAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAgLy8gaW5pdGlhbCBvZmZzZXQKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDQ4CgkqIC8vIGFjYyAqIHR5cGVMZW5ndGgKCSsKCWludCA4IC8vIGhlYWRPZmZzZXQKCSsKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCXN3YXAKCWludCA4CglleHRyYWN0MwoJYnRvaQoJPD0KCWFzc2VydAoKKmZvcl82X2NvbnRpbnVlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjY1MQoJLy8gaSArPSAxCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgliICpmb3JfNgoKKmZvcl82X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2NjYKCS8vIHRoaXMuc3BlbmRpbmdMaW1pdHMoa2V5KS52YWx1ZSA9IGxpbWl0cwoJYnl0ZSAweDczIC8vICJzIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0CglkdXAKCWJveF9kZWwKCXBvcAoJZnJhbWVfZGlnIDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCWR1cAoJbGVuCglpbnQgNDgKCS8KCWl0b2IKCWV4dHJhY3QgNiAyCglzd2FwCgljb25jYXQKCWJveF9wdXQKCXJldHN1YgoKLy8gc2V0UGx1Z2luKGtleTogUGx1Z2luc0tleSwgc3RhcnQ6IHVpbnQ2NCwgZW5kOiB1aW50NjQsIHVzZVJvdW5kczogYm9vbGVhbiwgY29vbGRvd246IHVpbnQ2NCwgbWF4VXNlczogdWludDY0LCBtZXRob2RzOiBieXRlczw0PltdLCBuYW1lZDogYm9vbGVhbiwgc2Vzc2lvbkVwb2NoOiB1aW50NjQpOiB2b2lkCi8vCi8vIEFwcHJvdmUgYSBwbHVnaW4sIHBpbm5pbmcgdGhlIGhhc2ggb2YgaXRzIGN1cnJlbnQgYXBwcm92YWwgcHJvZ3JhbS4gUmVwbGFjZXMgdGhlIHRlcm1zIG9mIGFuIGV4aXN0aW5nIHBlcm1pc3Npb24sCi8vIGJ1dCBrZWVwcyB0aGUgcmVmZXJlbmNlcyB0byBpdCBhbmQgaXRzIGdhdGUuCi8vCi8vIEBwYXJhbSBrZXkgVGhlIHBsdWdpbiBwZXJtaXNzaW9uCi8vIEBwYXJhbSBzdGFydCBUaGUgdGltZXN0YW1wIChvciByb3VuZCkgd2hlbiB0aGUgcGVybWlzc2lvbiBzdGFydHMKLy8gQHBhcmFtIGVuZCBUaGUgdGltZXN0YW1wIChvciByb3VuZCkgd2hlbiB0aGUgcGVybWlzc2lvbiBleHBpcmVzCi8vIEBwYXJhbSB1c2VSb3VuZHMgV2hldGhlciBgc3RhcnRgLCBgZW5kYCBhbmQgYGNvb2xkb3duYCBhcmUgcm91bmRzIHJhdGhlciB0aGFuIHRpbWVzdGFtcHMKLy8gQHBhcmFtIGNvb2xkb3duIFRoZSBtaW5pbXVtIG51bWJlciBvZiBzZWNvbmRzIChvciByb3VuZHMpIHRoYXQgbXVzdCBwYXNzIGJldHdlZW4gdXNlcyBvZiB0aGUgcGx1Z2luCi8vIEBwYXJhbSBtYXhVc2VzIFRoZSBtYXhpbXVtIG51bWJlciBvZiB0aW1lcyB0aGUgcGx1Z2luIGNhbiBiZSB1c2VkLCBvciB6ZXJvIGZvciBubyBtYXhpbXVtCi8vIEBwYXJhbSBtZXRob2RzIFRoZSBtZXRob2Qgc2VsZWN0b3JzIHRoZSBhbGxvd2VkIGNhbGxlciBtYXkgY2FsbCBvbiB0aGUgYXBwLiBJZiBlbXB0eSwgYWxsIG1ldGhvZHMgYXJlIGFsbG93ZWQKLy8gQHBhcmFtIG5hbWVkIFdoZXRoZXIgdGhlIHBlcm1pc3Npb24gaXMgYmVpbmcgcmVmZXJlbmNlZCBieSBhIG5hbWUgcmF0aGVyIHRoYW4gYWRkZWQgd2l0aG91dCBvbmUKLy8gQHBhcmFtIHNlc3Npb25FcG9jaCBUaGUgY3VycmVudCBzZXNzaW9uIGVwb2NoIGlmIHRoZSBwZXJtaXNzaW9uIGlzIGZvciBhIHNlc3Npb24ga2V5LCBvdGhlcndpc2UgemVybwpzZXRQbHVnaW46Cglwcm90byA5IDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoJZHVwbiA0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjY5NAoJLy8gdW5uYW1lZCA9ICFuYW1lZAoJZnJhbWVfZGlnIC04IC8vIG5hbWVkOiBib29sZWFuCgkhCglmcmFtZV9idXJ5IDAgLy8gdW5uYW1lZDogYm9vbAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2OTUKCS8vIG5hbWVzID0gbmFtZWQgPyAxIDogMAoJZnJhbWVfZGlnIC04IC8vIG5hbWVkOiBib29sZWFuCglieiAqdGVybmFyeTNfZmFsc2UKCWludCAxCgliICp0ZXJuYXJ5M19lbmQKCip0ZXJuYXJ5M19mYWxzZToKCWludCAwCgoqdGVybmFyeTNfZW5kOgoJZnJhbWVfYnVyeSAxIC8vIG5hbWVzOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6Njk2CgkvLyBnYXRlQXNzZXQgPSBBc3NldElELnplcm9JbmRleAoJaW50IDAKCWZyYW1lX2J1cnkgMiAvLyBnYXRlQXNzZXQ6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo2OTcKCS8vIGdhdGVBbW91bnQgPSAwCglpbnQgMAoJZnJhbWVfYnVyeSAzIC8vIGdhdGVBbW91bnQ6IHVpbnQ2NAoKCS8vICppZjIwX2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjY5OAoJLy8gdGhpcy5wbHVnaW5zKGtleSkuZXhpc3RzCglieXRlIDB4NzAgLy8gInAiCglmcmFtZV9kaWcgLTEgLy8ga2V5OiBQbHVnaW5zS2V5Cgljb25jYXQKCWJveF9sZW4KCXN3YXAKCXBvcAoJYnogKmlmMjBfZW5kCgoJLy8gKmlmMjBfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjY5OQoJLy8gZXhpc3RpbmcgPSBjbG9uZSh0aGlzLnBsdWdpbnMoa2V5KS52YWx1ZSkKCWJ5dGUgMHg3MCAvLyAicCIKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJYm94X2dldAoJYXNzZXJ0CglmcmFtZV9idXJ5IDQgLy8gZXhpc3Rpbmc6ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjcwMAoJLy8gdW5uYW1lZCA9IHVubmFtZWQgfHwgZXhpc3RpbmcudW5uYW1lZAoJZnJhbWVfZGlnIDAgLy8gdW5uYW1lZDogYm9vbAoJZHVwCglibnogKnNraXBfb3IxMgoJZnJhbWVfZGlnIDQgLy8gZXhpc3Rpbmc6ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDQ4OAoJZ2V0Yml0Cgl8fAoKKnNraXBfb3IxMjoKCWZyYW1lX2J1cnkgMCAvLyB1bm5hbWVkOiBib29sCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjcwMQoJLy8gbmFtZXMgPSBuYW1lcyArIGV4aXN0aW5nLm5hbWVzCglmcmFtZV9kaWcgMSAvLyBuYW1lczogdWludDY0CglmcmFtZV9kaWcgNCAvLyBleGlzdGluZzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglleHRyYWN0IDYyIDgKCWJ0b2kKCSsKCWZyYW1lX2J1cnkgMSAvLyBuYW1lczogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjcwMgoJLy8gZ2F0ZUFzc2V0ID0gZXhpc3RpbmcuZ2F0ZUFzc2V0CglmcmFtZV9kaWcgNCAvLyBleGlzdGluZzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglleHRyYWN0IDcxIDgKCWJ0b2kKCWZyYW1lX2J1cnkgMiAvLyBnYXRlQXNzZXQ6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3MDMKCS8vIGdhdGVBbW91bnQgPSBleGlzdGluZy5nYXRlQW1vdW50CglmcmFtZV9kaWcgNCAvLyBleGlzdGluZzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglleHRyYWN0IDgwIDgKCWJ0b2kKCWZyYW1lX2J1cnkgMyAvLyBnYXRlQW1vdW50OiB1aW50NjQKCippZjIwX2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3MDYKCS8vIHRoaXMucGx1Z2lucyhrZXkpLnZhbHVlID0gewoJLy8gICAgICAgc3RhcnQ6IHN0YXJ0LAoJLy8gICAgICAgZW5kOiBlbmQsCgkvLyAgICAgICB1c2VSb3VuZHM6IHVzZVJvdW5kcywKCS8vICAgICAgIGNvb2xkb3duOiBjb29sZG93biwKCS8vICAgICAgIG1heFVzZXM6IG1heFVzZXMsCgkvLyAgICAgICB1c2VzOiAwLAoJLy8gICAgICAgbGFzdFVzZWQ6IDAsCgkvLyAgICAgICBhY3RpdmF0ZXNBdDogZ2xvYmFscy5sYXRlc3RUaW1lc3RhbXAgKyB0aGlzLmdldFBsdWdpbkRlbGF5KCksCgkvLyAgICAgICB1bm5hbWVkOiB1bm5hbWVkLAoJLy8gICAgICAgbmFtZXM6IG5hbWVzLAoJLy8gICAgICAgZ2F0ZUFzc2V0OiBnYXRlQXNzZXQsCgkvLyAgICAgICBnYXRlQW1vdW50OiBnYXRlQW1vdW50LAoJLy8gICAgICAgc2Vzc2lvbkVwb2NoOiBzZXNzaW9uRXBvY2gsCgkvLyAgICAgICBhcHByb3ZhbEhhc2g6IHNoYTI1NihrZXkuYXBwbGljYXRpb24uYXBwcm92YWxQcm9ncmFtKSwKCS8vICAgICAgIG1ldGhvZHM6IG1ldGhvZHMsCgkvLyAgICAgfQoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0CglkdXAKCWJveF9kZWwKCXBvcAoJYnl0ZSAweCAvLyBpbml0aWFsIGhlYWQKCWJ5dGUgMHggLy8gaW5pdGlhbCB0YWlsCglieXRlIDB4MDA3YyAvLyBpbml0aWFsIGhlYWQgb2Zmc2V0CglmcmFtZV9kaWcgLTIgLy8gc3RhcnQ6IHVpbnQ2NAoJaXRvYgoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJZnJhbWVfZGlnIC0zIC8vIGVuZDogdWludDY0CglpdG9iCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50CglieXRlIDB4MDAKCWludCAwCglmcmFtZV9kaWcgLTQgLy8gdXNlUm91bmRzOiBib29sZWFuCglzZXRiaXQKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWZyYW1lX2RpZyAtNSAvLyBjb29sZG93bjogdWludDY0CglpdG9iCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50CglmcmFtZV9kaWcgLTYgLy8gbWF4VXNlczogdWludDY0CglpdG9iCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50CglieXRlIDB4MDAwMDAwMDAwMDAwMDAwMAoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKCWNhbGxzdWIgZ2V0UGx1Z2luRGVsYXkKCSsKCWl0b2IKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWJ5dGUgMHgwMAoJaW50IDAKCWZyYW1lX2RpZyAwIC8vIHVubmFtZWQ6IGJvb2wKCXNldGJpdAoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJZnJhbWVfZGlnIDEgLy8gbmFtZXM6IHVpbnQ2NAoJaXRvYgoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJZnJhbWVfZGlnIDIgLy8gZ2F0ZUFzc2V0OiB1aW50NjQKCWl0b2IKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWZyYW1lX2RpZyAzIC8vIGdhdGVBbW91bnQ6IHVpbnQ2NAoJaXRvYgoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJZnJhbWVfZGlnIC05IC8vIHNlc3Npb25FcG9jaDogdWludDY0CglpdG9iCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50CglmcmFtZV9kaWcgLTEgLy8ga2V5OiBQbHVnaW5zS2V5CglleHRyYWN0IDAgOAoJYnRvaQoJYXBwX3BhcmFtc19nZXQgQXBwQXBwcm92YWxQcm9ncmFtCglwb3AKCXNoYTI1NgoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJZnJhbWVfZGlnIC03IC8vIG1ldGhvZHM6IGJ5dGVzPDQ+W10KCWR1cAoJbGVuCglpbnQgNAoJLwoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJY2FsbHN1YiAqcHJvY2Vzc19keW5hbWljX3R1cGxlX2VsZW1lbnQKCXBvcCAvLyBwb3AgaGVhZCBvZmZzZXQKCWNvbmNhdCAvLyBjb25jYXQgaGVhZCBhbmQgdGFpbAoJYm94X3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3MjQKCS8vIHRoaXMucGx1Z2luQWRkZWQubG9nKHsgYXBwbGljYXRpb246IGtleS5hcHBsaWNhdGlvbiwgYWxsb3dlZENhbGxlcjoga2V5LmFsbG93ZWRDYWxsZXIsIHN0YXJ0OiBzdGFydCwgZW5kOiBlbmQgfSkKCWJ5dGUgMHhjOWQ0NzhmOSAvLyBwbHVnaW5BZGRlZCh1aW50NjQsYWRkcmVzcyx1aW50NjQsdWludDY0KQoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJZXh0cmFjdCAwIDgKCWJ0b2kKCWl0b2IKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWV4dHJhY3QgOCAzMgoJY29uY2F0CglmcmFtZV9kaWcgLTIgLy8gc3RhcnQ6IHVpbnQ2NAoJaXRvYgoJY29uY2F0CglmcmFtZV9kaWcgLTMgLy8gZW5kOiB1aW50NjQKCWl0b2IKCWNvbmNhdAoJY29uY2F0Cglsb2cKCXJldHN1YgoKLy8gcmVsZWFzZVBsdWdpbihrZXk6IFBsdWdpbnNLZXksIG5hbWVkOiBib29sZWFuKTogdm9pZAovLwovLyBEcm9wIGEgcmVmZXJlbmNlIHRvIGEgcGx1Z2luIHBlcm1pc3Npb24sIHJlbW92aW5nIHRoZSBwZXJtaXNzaW9uIG9uY2Ugbm90aGluZyByZWZlcnMgdG8gaXQKLy8KLy8gQHBhcmFtIGtleSBUaGUgcGx1Z2luIHBlcm1pc3Npb24KLy8gQHBhcmFtIG5hbWVkIFdoZXRoZXIgdGhlIHJlZmVyZW5jZSBpcyBhIG5hbWUgcmF0aGVyIHRoYW4gdGhlIHBlcm1pc3Npb24gaGF2aW5nIGJlZW4gYWRkZWQgd2l0aG91dCBvbmUKcmVsZWFzZVBsdWdpbjoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjczNAoJLy8gaW5mbyA9IGNsb25lKHRoaXMucGx1Z2lucyhrZXkpLnZhbHVlKQoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0Cglib3hfZ2V0Cglhc3NlcnQKCWZyYW1lX2J1cnkgMCAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoKCS8vICppZjIxX2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjczNQoJLy8gbmFtZWQKCWZyYW1lX2RpZyAtMiAvLyBuYW1lZDogYm9vbGVhbgoJYnogKmlmMjFfZWxzZQoKCS8vICppZjIxX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3MzYKCS8vIGluZm8ubmFtZXMgPSBpbmZvLm5hbWVzIC0gMQoJZnJhbWVfZGlnIDAgLy8gaW5mbzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgNjIKCWZyYW1lX2RpZyAwIC8vIGluZm86ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCA2MiA4CglidG9pCglpbnQgMQoJLQoJaXRvYgoJcmVwbGFjZTMKCWZyYW1lX2J1cnkgMCAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoJYiAqaWYyMV9lbmQKCippZjIxX2Vsc2U6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NzM4CgkvLyBhc3NlcnQoaW5mby51bm5hbWVkKQoJZnJhbWVfZGlnIDAgLy8gaW5mbzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgNDg4CglnZXRiaXQKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3MzkKCS8vIGluZm8udW5uYW1lZCA9IGZhbHNlCglmcmFtZV9kaWcgMCAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCA0ODgKCWludCAwCglzZXRiaXQKCWZyYW1lX2J1cnkgMCAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoKKmlmMjFfZW5kOgoJLy8gKmlmMjJfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NzQyCgkvLyBpbmZvLm5hbWVzID09PSAwICYmICFpbmZvLnVubmFtZWQKCWZyYW1lX2RpZyAwIC8vIGluZm86ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJZXh0cmFjdCA2MiA4CglidG9pCglpbnQgMAoJPT0KCWR1cAoJYnogKnNraXBfYW5kMjAKCWZyYW1lX2RpZyAwIC8vIGluZm86ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDQ4OAoJZ2V0Yml0CgkhCgkmJgoKKnNraXBfYW5kMjA6CglieiAqaWYyMl9lbHNlCgoJLy8gKmlmMjJfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjc0MwoJLy8gdGhpcy5kZWxldGVQbHVnaW4oa2V5KQoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY2FsbHN1YiBkZWxldGVQbHVnaW4KCWIgKmlmMjJfZW5kCgoqaWYyMl9lbHNlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjc0NQoJLy8gdGhpcy5wbHVnaW5zKGtleSkudmFsdWUgPSBpbmZvCglieXRlIDB4NzAgLy8gInAiCglmcmFtZV9kaWcgLTEgLy8ga2V5OiBQbHVnaW5zS2V5Cgljb25jYXQKCWR1cAoJYm94X2RlbAoJcG9wCglmcmFtZV9kaWcgMCAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoJYm94X3B1dAoKKmlmMjJfZW5kOgoJcmV0c3ViCgovLyBkZWxldGVQbHVnaW4oa2V5OiBQbHVnaW5zS2V5KTogdm9pZAovLwovLyBEZWxldGUgYSBwbHVnaW4gcGVybWlzc2lvbiBhbG9uZyB3aXRoIGl0cyBzcGVuZGluZyBsaW1pdHMsIGlmIGl0IGhhcyBhbnkKLy8KLy8gQHBhcmFtIGtleSBUaGUgcGx1Z2luIHBlcm1pc3Npb24KZGVsZXRlUGx1Z2luOgoJcHJvdG8gMSAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjc1NQoJLy8gdGhpcy5wbHVnaW5zKGtleSkuZGVsZXRlKCkKCWJ5dGUgMHg3MCAvLyAicCIKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJYm94X2RlbAoKCS8vICppZjIzX2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjc1NgoJLy8gdGhpcy5zcGVuZGluZ0xpbWl0cyhrZXkpLmV4aXN0cwoJYnl0ZSAweDczIC8vICJzIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCWJ6ICppZjIzX2VuZAoKCS8vICppZjIzX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3NTYKCS8vIHRoaXMuc3BlbmRpbmdMaW1pdHMoa2V5KS5kZWxldGUoKQoJYnl0ZSAweDczIC8vICJzIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0Cglib3hfZGVsCgoqaWYyM19lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NzU4CgkvLyB0aGlzLnBsdWdpblJlbW92ZWQubG9nKHsgYXBwbGljYXRpb246IGtleS5hcHBsaWNhdGlvbiwgYWxsb3dlZENhbGxlcjoga2V5LmFsbG93ZWRDYWxsZXIgfSkKCWJ5dGUgMHg4MGU2YjI1ZSAvLyBwbHVnaW5SZW1vdmVkKHVpbnQ2NCxhZGRyZXNzKQoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJZXh0cmFjdCAwIDgKCWJ0b2kKCWl0b2IKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWV4dHJhY3QgOCAzMgoJY29uY2F0Cgljb25jYXQKCWxvZwoJcmV0c3ViCgovLyB2ZXJpZnlNYnJQYXltZW50KG1iclBheW1lbnQ6IFBheVR4biwgcHJlTUJSOiB1aW50NjQpOiB2b2lkCi8vCi8vIFZlcmlmeSBhIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVycyBleGFjdGx5IHRoZSBNQlIgYWRkZWQgc2luY2UgYHByZU1CUmAuCi8vIElmIGJveGVzIHdlcmUgc2hydW5rIG9yIGRlbGV0ZWQgaW5zdGVhZCwgdGhlIGZyZWVkIE1CUiBpcyBzZW50IGJhY2sgdG8gdGhlIHNlbmRlciBvZiB0aGUgcGF5bWVudC4KLy8KLy8gQHBhcmFtIG1iclBheW1lbnQgVGhlIHBheW1lbnQKLy8gQHBhcmFtIHByZU1CUiBUaGUgbWluaW11bSBiYWxhbmNlIG9mIHRoZSBhcHAgYWRkcmVzcyBiZWZvcmUgYW55IGJveGVzIHdlcmUgY2hhbmdlZAp2ZXJpZnlNYnJQYXltZW50OgoJcHJvdG8gMiAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NzY5CgkvLyBwb3N0TUJSID0gdGhpcy5hcHAuYWRkcmVzcy5taW5CYWxhbmNlCglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCglwb3AKCWZyYW1lX2J1cnkgMCAvLyBwb3N0TUJSOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6NzcwCgkvLyB2ZXJpZnlQYXlUeG4obWJyUGF5bWVudCwgewoJLy8gICAgICAgcmVjZWl2ZXI6IHRoaXMuYXBwLmFkZHJlc3MsCgkvLyAgICAgICBhbW91bnQ6IHBvc3RNQlIgPiBwcmVNQlIgPyBwb3N0TUJSIC0gcHJlTUJSIDogMCwKCS8vICAgICB9KQoJLy8gdmVyaWZ5IHJlY2VpdmVyCglmcmFtZV9kaWcgLTEgLy8gbWJyUGF5bWVudDogUGF5VHhuCglndHhucyBSZWNlaXZlcgoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCT09Cglhc3NlcnQKCgkvLyB2ZXJpZnkgYW1vdW50CglmcmFtZV9kaWcgLTEgLy8gbWJyUGF5bWVudDogUGF5VHhuCglndHhucyBBbW91bnQKCWZyYW1lX2RpZyAwIC8vIHBvc3RNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC0yIC8vIHByZU1CUjogdWludDY0Cgk+CglieiAqdGVybmFyeTRfZmFsc2UKCWZyYW1lX2RpZyAwIC8vIHBvc3RNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC0yIC8vIHByZU1CUjogdWludDY0CgktCgliICp0ZXJuYXJ5NF9lbmQKCip0ZXJuYXJ5NF9mYWxzZToKCWludCAwCgoqdGVybmFyeTRfZW5kOgoJPT0KCWFzc2VydAoKCS8vICppZjI0X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjc3NQoJLy8gcHJlTUJSID4gcG9zdE1CUgoJZnJhbWVfZGlnIC0yIC8vIHByZU1CUjogdWludDY0CglmcmFtZV9kaWcgMCAvLyBwb3N0TUJSOiB1aW50NjQKCT4KCWJ6ICppZjI0X2VuZAoKCS8vICppZjI0X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3NzUKCS8vIHRoaXMucmVmdW5kTWJyKG1iclBheW1lbnQuc2VuZGVyLCBwcmVNQlIpCglmcmFtZV9kaWcgLTIgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtMSAvLyBtYnJQYXltZW50OiBQYXlUeG4KCWd0eG5zIFNlbmRlcgoJY2FsbHN1YiByZWZ1bmRNYnIKCippZjI0X2VuZDoKCXJldHN1YgoKLy8gcmVmdW5kTWJyKHJlY2VpdmVyOiBBZGRyZXNzLCBwcmVNQlI6IHVpbnQ2NCk6IHZvaWQKLy8KLy8gU2VuZCB0aGUgTUJSIGZyZWVkIHNpbmNlIGBwcmVNQlJgIGZyb20gdGhlIGFwcCBhZGRyZXNzCi8vCi8vIEBwYXJhbSByZWNlaXZlciBUaGUgYWRkcmVzcyB0byBzZW5kIHRoZSBmcmVlZCBNQlIgdG8KLy8gQHBhcmFtIHByZU1CUiBUaGUgbWluaW11bSBiYWxhbmNlIG9mIHRoZSBhcHAgYWRkcmVzcyBiZWZvcmUgYW55IGJveGVzIHdlcmUgZGVsZXRlZApyZWZ1bmRNYnI6Cglwcm90byAyIDAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6Nzg1CgkvLyBzZW5kUGF5bWVudCh7CgkvLyAgICAgICByZWNlaXZlcjogcmVjZWl2ZXIsCgkvLyAgICAgICBhbW91bnQ6IHByZU1CUiAtIHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZSwKCS8vICAgICB9KQoJaXR4bl9iZWdpbgoJaW50IHBheQoJaXR4bl9maWVsZCBUeXBlRW51bQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3ODYKCS8vIHJlY2VpdmVyOiByZWNlaXZlcgoJZnJhbWVfZGlnIC0xIC8vIHJlY2VpdmVyOiBBZGRyZXNzCglpdHhuX2ZpZWxkIFJlY2VpdmVyCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjc4NwoJLy8gYW1vdW50OiBwcmVNQlIgLSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWZyYW1lX2RpZyAtMiAvLyBwcmVNQlI6IHVpbnQ2NAoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCgktCglpdHhuX2ZpZWxkIEFtb3VudAoKCS8vIEZlZSBmaWVsZCBub3Qgc2V0LCBkZWZhdWx0aW5nIHRvIDAKCWludCAwCglpdHhuX2ZpZWxkIEZlZQoKCS8vIFN1Ym1pdCBpbm5lciB0cmFuc2FjdGlvbgoJaXR4bl9zdWJtaXQKCXJldHN1YgoKLy8gc2V0U3BlbmRpbmdMaW1pdChrZXk6IFBsdWdpbnNLZXksIGxpbWl0OiBTcGVuZGluZ0xpbWl0KTogdm9pZAovLwovLyBTZXQgYSBzcGVuZGluZyBsaW1pdCBmb3IgYSBwbHVnaW4sIHJlcGxhY2luZyBhbnkgZXhpc3RpbmcgbGltaXQgZm9yIHRoZSBzYW1lIGFzc2V0Ci8vCi8vIEBwYXJhbSBrZXkgVGhlIHBsdWdpbiBwZXJtaXNzaW9uIHRoZSBsaW1pdCBhcHBsaWVzIHRvCi8vIEBwYXJhbSBsaW1pdCBUaGUgbGltaXQgdG8gc2V0CnNldFNwZW5kaW5nTGltaXQ6Cglwcm90byAyIDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoJZHVwCgoJLy8gKmlmMjVfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6Nzk4CgkvLyAhdGhpcy5zcGVuZGluZ0xpbWl0cyhrZXkpLmV4aXN0cwoJYnl0ZSAweDczIC8vICJzIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCSEKCWJ6ICppZjI1X2VuZAoKCS8vICppZjI1X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo3OTkKCS8vIHRoaXMuc3BlbmRpbmdMaW1pdHMoa2V5KS52YWx1ZSA9IFtsaW1pdF0KCWJ5dGUgMHg3MyAvLyAicyIKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJZHVwCglib3hfZGVsCglwb3AKCWZyYW1lX2RpZyAtMiAvLyBsaW1pdDogU3BlbmRpbmdMaW1pdAoJZHVwCglsZW4KCWludCA0OAoJLwoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJYm94X3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4MDAKCS8vIHJldHVybjsKCXJldHN1YgoKKmlmMjVfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjgwMwoJLy8gbGltaXRzID0gY2xvbmUodGhpcy5zcGVuZGluZ0xpbWl0cyhrZXkpLnZhbHVlKQoJYnl0ZSAweDczIC8vICJzIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0CglpbnQgMgoJaW50IDAKCWJveF9leHRyYWN0CglmcmFtZV9idXJ5IDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODA0CgkvLyBmb3IgKGxldCBpID0gMDsgaSA8IGxpbWl0cy5sZW5ndGg7IGkgKz0gMSkKCWludCAwCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgoqZm9yXzc6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODA0CgkvLyBpIDwgbGltaXRzLmxlbmd0aAoJZnJhbWVfZGlnIDEgLy8gaTogdWludDY0CglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJbGVuCglpbnQgNDgKCS8KCTwKCWJ6ICpmb3JfN19lbmQKCgkvLyAqaWYyNl9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4MDUKCS8vIGxpbWl0c1tpXS5hc3NldCA9PT0gbGltaXQuYXNzZXQKCWZyYW1lX2RpZyAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAgLy8gaW5pdGlhbCBvZmZzZXQKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDQ4CgkqIC8vIGFjYyAqIHR5cGVMZW5ndGgKCSsKCWludCAwIC8vIGhlYWRPZmZzZXQKCSsKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCXN3YXAKCWludCA4CglleHRyYWN0MwoJYnRvaQoJZnJhbWVfZGlnIC0yIC8vIGxpbWl0OiBTcGVuZGluZ0xpbWl0CglleHRyYWN0IDAgOAoJYnRvaQoJPT0KCWJ6ICppZjI2X2VuZAoKCS8vICppZjI2X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4MDYKCS8vIGxpbWl0c1tpXSA9IGxpbWl0CglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA0OAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglmcmFtZV9kaWcgLTIgLy8gbGltaXQ6IFNwZW5kaW5nTGltaXQKCXJlcGxhY2UzCglmcmFtZV9idXJ5IDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODA3CgkvLyB0aGlzLnNwZW5kaW5nTGltaXRzKGtleSkudmFsdWUgPSBsaW1pdHMKCWJ5dGUgMHg3MyAvLyAicyIKCWZyYW1lX2RpZyAtMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJZHVwCglib3hfZGVsCglwb3AKCWZyYW1lX2RpZyAwIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglkdXAKCWxlbgoJaW50IDQ4CgkvCglpdG9iCglleHRyYWN0IDYgMgoJc3dhcAoJY29uY2F0Cglib3hfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjgwOAoJLy8gcmV0dXJuOwoJcmV0c3ViCgoqaWYyNl9lbmQ6CgoqZm9yXzdfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODA0CgkvLyBpICs9IDEKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDEKCSsKCWZyYW1lX2J1cnkgMSAvLyBpOiB1aW50NjQKCWIgKmZvcl83CgoqZm9yXzdfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjgxMgoJLy8gbGltaXRzLnB1c2gobGltaXQpCglmcmFtZV9kaWcgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJZnJhbWVfZGlnIC0yIC8vIGxpbWl0OiBTcGVuZGluZ0xpbWl0Cgljb25jYXQKCWZyYW1lX2J1cnkgMCAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4MTMKCS8vIHRoaXMuc3BlbmRpbmdMaW1pdHMoa2V5KS52YWx1ZSA9IGxpbWl0cwoJYnl0ZSAweDczIC8vICJzIgoJZnJhbWVfZGlnIC0xIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0CglkdXAKCWJveF9kZWwKCXBvcAoJZnJhbWVfZGlnIDAgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCWR1cAoJbGVuCglpbnQgNDgKCS8KCWl0b2IKCWV4dHJhY3QgNiAyCglzd2FwCgljb25jYXQKCWJveF9wdXQKCXJldHN1YgoKLy8gZ2V0Q2FsbGVyU2V0QWRkcmVzcyhjYWxsZXJTZXQ6IHN0cmluZyk6IEFkZHJlc3MKLy8KLy8gR2V0IHRoZSBhZGRyZXNzIG9mIGEgY2FsbGVyIHNldCwgd2hpY2ggaXMgdXNlZCBhcyB0aGUgYWxsb3dlZCBjYWxsZXIgb2YgdGhlIHBsdWdpbiBwZXJtaXNzaW9ucyBncmFudGVkIHRvIHRoZSBzZXQuCi8vIFNpbmNlIGl0IGlzIGEgaGFzaCwgbm9ib2R5IGhvbGRzIHRoZSBrZXkgZm9yIGl0LgovLwovLyBAcGFyYW0gY2FsbGVyU2V0IFRoZSBuYW1lIG9mIHRoZSBjYWxsZXIgc2V0CmdldENhbGxlclNldEFkZHJlc3M6Cglwcm90byAxIDEKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODIzCgkvLyByZXR1cm4gY2FzdEJ5dGVzPEFkZHJlc3M+KHNoYTI1NihjYWxsZXJTZXQpKTsKCWZyYW1lX2RpZyAtMSAvLyBjYWxsZXJTZXQ6IHN0cmluZwoJc2hhMjU2CglyZXRzdWIKCi8vIHNldHRsZUFjdGl2ZVBsdWdpbigpOiB2b2lkCi8vCi8vIENoZWNrIHRoZSBzcGVuZGluZyBvZiB0aGUgcGx1Z2luIHRoYXQgd2FzIGxhc3QgcmVrZXllZCB0bywgaWYgaXQgaGFzIHNwZW5kaW5nIGxpbWl0cywgbm93IHRoYXQgY29udHJvbCBoYXMgYmVlbiByZWdhaW5lZApzZXR0bGVBY3RpdmVQbHVnaW46Cglwcm90byAwIDAKCgkvLyAqaWYyN19jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4MzAKCS8vIHRoaXMuYWN0aXZlUGx1Z2luLmV4aXN0cwoJdHhuYSBBcHBsaWNhdGlvbnMgMAoJYnl0ZSAweDYxNzAgLy8gImFwIgoJYXBwX2dsb2JhbF9nZXRfZXgKCXN3YXAKCXBvcAoJYnogKmlmMjdfZW5kCgoJLy8gKmlmMjdfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjgzMQoJLy8gdGhpcy52ZXJpZnlTcGVuZGluZyh0aGlzLmFjdGl2ZVBsdWdpbi52YWx1ZSkKCWJ5dGUgMHg2MTcwIC8vICJhcCIKCWFwcF9nbG9iYWxfZ2V0CgljYWxsc3ViIHZlcmlmeVNwZW5kaW5nCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjgzMgoJLy8gdGhpcy5hY3RpdmVQbHVnaW4uZGVsZXRlKCkKCWJ5dGUgMHg2MTcwIC8vICJhcCIKCWFwcF9nbG9iYWxfZGVsCgoqaWYyN19lbmQ6CglyZXRzdWIKCi8vIHNwb25zb3JGZWVzKHBsdWdpbjogQXBwSUQpOiB2b2lkCi8vCi8vIElmIHRoZSBwbHVnaW4gaXMgc3BvbnNvcmVkLCByZWltYnVyc2UgdGhlIGNhbGxlciBmb3IgdGhlIGZlZXMgb2YgdGhpcyBjYWxsIGFuZCBvZiB0aGUgY2FsbHMgaXQgc2VuZHMgdG8gdGhlIHBsdWdpbgovLyBiZWZvcmUgdGhlIG5leHQgY2FsbCB0byB0aGlzIGFwcCB0aGF0IGhhbmRzIGNvbnRyb2wgYmFjay4gT3RoZXIgdHJhbnNhY3Rpb25zIG9mIHRoZSBjYWxsZXIgYXJlIG5vdCByZWltYnVyc2VkLgovLyBBdCBtb3N0IHRoZSBwbHVnaW4ncyBtYXhpbXVtIGZlZSBpcyByZWltYnVyc2VkIGZvciBlYWNoIHRyYW5zYWN0aW9uLCB3aGljaCBsZWF2ZXMgcm9vbSBmb3IgdGhlIGZlZXMgb2YgdGhlCi8vIHBsdWdpbidzIGlubmVyIHRyYW5zYWN0aW9ucyB3aXRob3V0IGxldHRpbmcgYSBjYWxsZXIgZHJhaW4gdGhlIGJ1ZGdldCBieSBvdmVycGF5aW5nLgovLyBUaGUgZmVlcywgaW5jbHVkaW5nIHRoZSBmZWUgb2YgdGhlIHJlaW1idXJzZW1lbnQsIGFyZSBkZWR1Y3RlZCBmcm9tIHRoZSBwbHVnaW4ncyBmZWUgYnVkZ2V0LgovLwovLyBAcGFyYW0gcGx1Z2luIFRoZSBwbHVnaW4gYXBwIGJlaW5nIHJla2V5ZWQgdG8Kc3BvbnNvckZlZXM6Cglwcm90byAxIDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoJZHVwbiAzCgoJLy8gKmlmMjhfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODQ2CgkvLyAhdGhpcy5mZWVCdWRnZXRzKHBsdWdpbikuZXhpc3RzCglieXRlIDB4NjYgLy8gImYiCglmcmFtZV9kaWcgLTEgLy8gcGx1Z2luOiBBcHBJRAoJaXRvYgoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCSEKCWJ6ICppZjI4X2VuZAoKCS8vICppZjI4X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4NDYKCS8vIHJldHVybjsKCXJldHN1YgoKKmlmMjhfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg0OAoJLy8gZmVlQnVkZ2V0ID0gY2xvbmUodGhpcy5mZWVCdWRnZXRzKHBsdWdpbikudmFsdWUpCglieXRlIDB4NjYgLy8gImYiCglmcmFtZV9kaWcgLTEgLy8gcGx1Z2luOiBBcHBJRAoJaXRvYgoJY29uY2F0Cglib3hfZ2V0Cglhc3NlcnQKCWZyYW1lX2J1cnkgMCAvLyBmZWVCdWRnZXQ6ICh1aW50NjQsdWludDY0KQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4NDkKCS8vIGZlZXMgPSAwCglpbnQgMAoJZnJhbWVfYnVyeSAxIC8vIGZlZXM6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4NTAKCS8vIGZvciAobGV0IGkgPSB0aGlzLnR4bi5ncm91cEluZGV4OyBpIDwgdGhpcy50eG5Hcm91cC5sZW5ndGg7IGkgKz0gMSkKCXR4biBHcm91cEluZGV4CglmcmFtZV9idXJ5IDIgLy8gaTogdWludDY0CgoqZm9yXzg6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODUwCgkvLyBpIDwgdGhpcy50eG5Hcm91cC5sZW5ndGgKCWZyYW1lX2RpZyAyIC8vIGk6IHVpbnQ2NAoJZ2xvYmFsIEdyb3VwU2l6ZQoJPAoJYnogKmZvcl84X2VuZAoKCS8vICppZjI5X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg1MQoJLy8gaSA+IHRoaXMudHhuLmdyb3VwSW5kZXggJiYgdGhpcy5oYW5kc0JhY2tDb250cm9sKGkpCglmcmFtZV9kaWcgMiAvLyBpOiB1aW50NjQKCXR4biBHcm91cEluZGV4Cgk+CglkdXAKCWJ6ICpza2lwX2FuZDIxCglmcmFtZV9kaWcgMiAvLyBpOiB1aW50NjQKCWNhbGxzdWIgaGFuZHNCYWNrQ29udHJvbAoJJiYKCipza2lwX2FuZDIxOgoJYnogKmlmMjlfZW5kCgoJLy8gKmlmMjlfY29uc2VxdWVudAoJYiAqZm9yXzhfZW5kCgoqaWYyOV9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODUzCgkvLyB0eG4gPSB0aGlzLnR4bkdyb3VwW2ldCglmcmFtZV9kaWcgMiAvLyBpOiB1aW50NjQKCWZyYW1lX2J1cnkgMyAvLyB0eG46IHR4bgoKCS8vICppZjMwX2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg1NAoJLy8gdHhuLnNlbmRlciA9PT0gdGhpcy50eG4uc2VuZGVyICYmIChpID09PSB0aGlzLnR4bi5ncm91cEluZGV4IHx8IHR4bi5hcHBsaWNhdGlvbklEID09PSBwbHVnaW4pCglmcmFtZV9kaWcgMyAvLyB0eG46IHR4bgoJZ3R4bnMgU2VuZGVyCgl0eG4gU2VuZGVyCgk9PQoJZHVwCglieiAqc2tpcF9hbmQyMgoJZnJhbWVfZGlnIDIgLy8gaTogdWludDY0Cgl0eG4gR3JvdXBJbmRleAoJPT0KCWR1cAoJYm56ICpza2lwX29yMTMKCWZyYW1lX2RpZyAzIC8vIHR4bjogdHhuCglndHhucyBBcHBsaWNhdGlvbklECglmcmFtZV9kaWcgLTEgLy8gcGx1Z2luOiBBcHBJRAoJPT0KCXx8Cgoqc2tpcF9vcjEzOgoJJiYKCipza2lwX2FuZDIyOgoJYnogKmlmMzBfZW5kCgoJLy8gKmlmMzBfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg1NQoJLy8gZmVlcyA9IGZlZXMgKyAodHhuLmZlZSA+IGZlZUJ1ZGdldC5tYXhGZWUgPyBmZWVCdWRnZXQubWF4RmVlIDogdHhuLmZlZSkKCWZyYW1lX2RpZyAxIC8vIGZlZXM6IHVpbnQ2NAoJZnJhbWVfZGlnIDMgLy8gdHhuOiB0eG4KCWd0eG5zIEZlZQoJZnJhbWVfZGlnIDAgLy8gZmVlQnVkZ2V0OiAodWludDY0LHVpbnQ2NCkKCWV4dHJhY3QgOCA4CglidG9pCgk+CglieiAqdGVybmFyeTZfZmFsc2UKCWZyYW1lX2RpZyAwIC8vIGZlZUJ1ZGdldDogKHVpbnQ2NCx1aW50NjQpCglleHRyYWN0IDggOAoJYnRvaQoJYiAqdGVybmFyeTZfZW5kCgoqdGVybmFyeTZfZmFsc2U6CglmcmFtZV9kaWcgMyAvLyB0eG46IHR4bgoJZ3R4bnMgRmVlCgoqdGVybmFyeTZfZW5kOgoJKwoJZnJhbWVfYnVyeSAxIC8vIGZlZXM6IHVpbnQ2NAoKKmlmMzBfZW5kOgoKKmZvcl84X2NvbnRpbnVlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg1MAoJLy8gaSArPSAxCglmcmFtZV9kaWcgMiAvLyBpOiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDIgLy8gaTogdWludDY0CgliICpmb3JfOAoKKmZvcl84X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4NTkKCS8vIGFzc2VydChmZWVzICsgZ2xvYmFscy5taW5UeG5GZWUgPD0gZmVlQnVkZ2V0LmJ1ZGdldCkKCWZyYW1lX2RpZyAxIC8vIGZlZXM6IHVpbnQ2NAoJZ2xvYmFsIE1pblR4bkZlZQoJKwoJZnJhbWVfZGlnIDAgLy8gZmVlQnVkZ2V0OiAodWludDY0LHVpbnQ2NCkKCWV4dHJhY3QgMCA4CglidG9pCgk8PQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg2MAoJLy8gZmVlQnVkZ2V0LmJ1ZGdldCA9IGZlZUJ1ZGdldC5idWRnZXQgLSBmZWVzIC0gZ2xvYmFscy5taW5UeG5GZWUKCWZyYW1lX2RpZyAwIC8vIGZlZUJ1ZGdldDogKHVpbnQ2NCx1aW50NjQpCglpbnQgMAoJZnJhbWVfZGlnIDAgLy8gZmVlQnVkZ2V0OiAodWludDY0LHVpbnQ2NCkKCWV4dHJhY3QgMCA4CglidG9pCglmcmFtZV9kaWcgMSAvLyBmZWVzOiB1aW50NjQKCS0KCWdsb2JhbCBNaW5UeG5GZWUKCS0KCWl0b2IKCXJlcGxhY2UzCglmcmFtZV9idXJ5IDAgLy8gZmVlQnVkZ2V0OiAodWludDY0LHVpbnQ2NCkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODYxCgkvLyB0aGlzLmZlZUJ1ZGdldHMocGx1Z2luKS52YWx1ZSA9IGZlZUJ1ZGdldAoJYnl0ZSAweDY2IC8vICJmIgoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWl0b2IKCWNvbmNhdAoJZnJhbWVfZGlnIDAgLy8gZmVlQnVkZ2V0OiAodWludDY0LHVpbnQ2NCkKCWJveF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODYzCgkvLyBzZW5kUGF5bWVudCh7CgkvLyAgICAgICBzZW5kZXI6IHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUsCgkvLyAgICAgICByZWNlaXZlcjogdGhpcy50eG4uc2VuZGVyLAoJLy8gICAgICAgYW1vdW50OiBmZWVzLAoJLy8gICAgICAgZmVlOiBnbG9iYWxzLm1pblR4bkZlZSwKCS8vICAgICB9KQoJaXR4bl9iZWdpbgoJaW50IHBheQoJaXR4bl9maWVsZCBUeXBlRW51bQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4NjQKCS8vIHNlbmRlcjogdGhpcy5jb250cm9sbGVkQWRkcmVzcy52YWx1ZQoJYnl0ZSAweDYzIC8vICJjIgoJYXBwX2dsb2JhbF9nZXQKCWl0eG5fZmllbGQgU2VuZGVyCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg2NQoJLy8gcmVjZWl2ZXI6IHRoaXMudHhuLnNlbmRlcgoJdHhuIFNlbmRlcgoJaXR4bl9maWVsZCBSZWNlaXZlcgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4NjYKCS8vIGFtb3VudDogZmVlcwoJZnJhbWVfZGlnIDEgLy8gZmVlczogdWludDY0CglpdHhuX2ZpZWxkIEFtb3VudAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4NjcKCS8vIGZlZTogZ2xvYmFscy5taW5UeG5GZWUKCWdsb2JhbCBNaW5UeG5GZWUKCWl0eG5fZmllbGQgRmVlCgoJLy8gU3VibWl0IGlubmVyIHRyYW5zYWN0aW9uCglpdHhuX3N1Ym1pdAoJcmV0c3ViCgovLyByZWtleVRvUGx1Z2luKHBsdWdpbjogQXBwSUQsIGtleTogUGx1Z2luc0tleSk6IHZvaWQKLy8KLy8gVXNlIGEgcGx1Z2luIHBlcm1pc3Npb24gdG8gcmVrZXkgdGhlIGFic3RyYWN0ZWQgYWNjb3VudCB0byB0aGUgcGx1Z2luIGFwcCBhZGRyZXNzCi8vCi8vIEBwYXJhbSBwbHVnaW4gVGhlIGFwcCB0byByZWtleSB0bwovLyBAcGFyYW0ga2V5IFRoZSBwbHVnaW4gcGVybWlzc2lvbiB0byB1c2UKcmVrZXlUb1BsdWdpbjoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODc4CgkvLyBhc3NlcnQodGhpcy5wbHVnaW5Jc1VzYWJsZShrZXksIHRoaXMudHhuLnNlbmRlcikpCgl0eG4gU2VuZGVyCglmcmFtZV9kaWcgLTIgLy8ga2V5OiBQbHVnaW5zS2V5CgljYWxsc3ViIHBsdWdpbklzVXNhYmxlCglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODgxCgkvLyB0aGlzLnNldHRsZUFjdGl2ZVBsdWdpbigpCgljYWxsc3ViIHNldHRsZUFjdGl2ZVBsdWdpbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4ODMKCS8vIGluZm8gPSBjbG9uZSh0aGlzLnBsdWdpbnMoa2V5KS52YWx1ZSkKCWJ5dGUgMHg3MCAvLyAicCIKCWZyYW1lX2RpZyAtMiAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJYm94X2dldAoJYXNzZXJ0CglmcmFtZV9idXJ5IDAgLy8gaW5mbzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODg0CgkvLyBpbmZvLnVzZXMgPSBpbmZvLnVzZXMgKyAxCglmcmFtZV9kaWcgMCAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAzNQoJZnJhbWVfZGlnIDAgLy8gaW5mbzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglleHRyYWN0IDM1IDgKCWJ0b2kKCWludCAxCgkrCglpdG9iCglyZXBsYWNlMwoJZnJhbWVfYnVyeSAwIC8vIGluZm86ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg4NQoJLy8gaW5mby5sYXN0VXNlZCA9IHRoaXMuZ2V0Tm93KGluZm8udXNlUm91bmRzKQoJZnJhbWVfZGlnIDAgLy8gaW5mbzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgNDQKCWZyYW1lX2RpZyAwIC8vIGluZm86ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDEyOAoJZ2V0Yml0CgljYWxsc3ViIGdldE5vdwoJaXRvYgoJcmVwbGFjZTMKCWZyYW1lX2J1cnkgMCAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4ODYKCS8vIHRoaXMucGx1Z2lucyhrZXkpLnZhbHVlID0gaW5mbwoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIC0yIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0CglkdXAKCWJveF9kZWwKCXBvcAoJZnJhbWVfZGlnIDAgLy8gaW5mbzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCWJveF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODg4CgkvLyB0aGlzLnZlcmlmeVBsdWdpbk1ldGhvZHMocGx1Z2luLCBpbmZvLm1ldGhvZHMpCglmcmFtZV9kaWcgMCAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAxMzEKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCXVuY292ZXIgMgoJZXh0cmFjdF91aW50MTYKCWR1cCAvLyBkdXBsaWNhdGUgc3RhcnQgb2YgZWxlbWVudAoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJZXh0cmFjdF91aW50MTYgLy8gZ2V0IG51bWJlciBvZiBlbGVtZW50cwoJaW50IDQgLy8gZ2V0IHR5cGUgbGVuZ3RoCgkqIC8vIG11bHRpcGx5IGJ5IHR5cGUgbGVuZ3RoCglpbnQgMgoJKyAvLyBhZGQgdHdvIGZvciBsZW5ndGgKCWV4dHJhY3QzCglleHRyYWN0IDIgMAoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWNhbGxzdWIgdmVyaWZ5UGx1Z2luTWV0aG9kcwoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4OTEKCS8vIHRoaXMuc3BvbnNvckZlZXMocGx1Z2luKQoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWNhbGxzdWIgc3BvbnNvckZlZXMKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6ODk0CgkvLyBoYXNTcGVuZGluZ0xpbWl0cyA9IHRoaXMuc3BlbmRpbmdMaW1pdHMoa2V5KS5leGlzdHMKCWJ5dGUgMHg3MyAvLyAicyIKCWZyYW1lX2RpZyAtMiAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJYm94X2xlbgoJc3dhcAoJcG9wCglmcmFtZV9idXJ5IDEgLy8gaGFzU3BlbmRpbmdMaW1pdHM6IGJvb2wKCgkvLyAqaWYzMV9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo4OTUKCS8vIGhhc1NwZW5kaW5nTGltaXRzCglmcmFtZV9kaWcgMSAvLyBoYXNTcGVuZGluZ0xpbWl0czogYm9vbAoJYnogKmlmMzFfZW5kCgoJLy8gKmlmMzFfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg5NgoJLy8gdGhpcy5yZWNvcmRCYWxhbmNlc0JlZm9yZShrZXkpCglmcmFtZV9kaWcgLTIgLy8ga2V5OiBQbHVnaW5zS2V5CgljYWxsc3ViIHJlY29yZEJhbGFuY2VzQmVmb3JlCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjg5NwoJLy8gdGhpcy5hY3RpdmVQbHVnaW4udmFsdWUgPSBrZXkKCWJ5dGUgMHg2MTcwIC8vICJhcCIKCWZyYW1lX2RpZyAtMiAvLyBrZXk6IFBsdWdpbnNLZXkKCWFwcF9nbG9iYWxfcHV0CgoqaWYzMV9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTAwCgkvLyBzZW5kUGF5bWVudCh7CgkvLyAgICAgICBzZW5kZXI6IHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUsCgkvLyAgICAgICByZWNlaXZlcjogdGhpcy5jb250cm9sbGVkQWRkcmVzcy52YWx1ZSwKCS8vICAgICAgIHJla2V5VG86IHBsdWdpbi5hZGRyZXNzLAoJLy8gICAgICAgbm90ZTogJ3Jla2V5aW5nIHRvIHBsdWdpbiBhcHAnLAoJLy8gICAgIH0pCglpdHhuX2JlZ2luCglpbnQgcGF5CglpdHhuX2ZpZWxkIFR5cGVFbnVtCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjkwMQoJLy8gc2VuZGVyOiB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlCglieXRlIDB4NjMgLy8gImMiCglhcHBfZ2xvYmFsX2dldAoJaXR4bl9maWVsZCBTZW5kZXIKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTAyCgkvLyByZWNlaXZlcjogdGhpcy5jb250cm9sbGVkQWRkcmVzcy52YWx1ZQoJYnl0ZSAweDYzIC8vICJjIgoJYXBwX2dsb2JhbF9nZXQKCWl0eG5fZmllbGQgUmVjZWl2ZXIKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTAzCgkvLyByZWtleVRvOiBwbHVnaW4uYWRkcmVzcwoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWFwcF9wYXJhbXNfZ2V0IEFwcEFkZHJlc3MKCXBvcAoJaXR4bl9maWVsZCBSZWtleVRvCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjkwNAoJLy8gbm90ZTogJ3Jla2V5aW5nIHRvIHBsdWdpbiBhcHAnCglieXRlIDB4NzI2NTZiNjU3OTY5NmU2NzIwNzQ2ZjIwNzA2Yzc1Njc2OTZlMjA2MTcwNzAgLy8gInJla2V5aW5nIHRvIHBsdWdpbiBhcHAiCglpdHhuX2ZpZWxkIE5vdGUKCgkvLyBGZWUgZmllbGQgbm90IHNldCwgZGVmYXVsdGluZyB0byAwCglpbnQgMAoJaXR4bl9maWVsZCBGZWUKCgkvLyBTdWJtaXQgaW5uZXIgdHJhbnNhY3Rpb24KCWl0eG5fc3VibWl0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjkwNwoJLy8gdGhpcy5wbHVnaW5Vc2VkLmxvZyh7IGFwcGxpY2F0aW9uOiBwbHVnaW4sIGFsbG93ZWRDYWxsZXI6IGtleS5hbGxvd2VkQ2FsbGVyLCBjYWxsZXI6IHRoaXMudHhuLnNlbmRlciB9KQoJYnl0ZSAweDRlNmFhNWZiIC8vIHBsdWdpblVzZWQodWludDY0LGFkZHJlc3MsYWRkcmVzcykKCWZyYW1lX2RpZyAtMSAvLyBwbHVnaW46IEFwcElECglpdG9iCglmcmFtZV9kaWcgLTIgLy8ga2V5OiBQbHVnaW5zS2V5CglleHRyYWN0IDggMzIKCWNvbmNhdAoJdHhuIFNlbmRlcgoJY29uY2F0Cgljb25jYXQKCWxvZwoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5MDkKCS8vIHRoaXMudmVyaWZ5UmVrZXlUb0Fic3RyYWN0ZWRBY2NvdW50KGhhc1NwZW5kaW5nTGltaXRzKQoJZnJhbWVfZGlnIDEgLy8gaGFzU3BlbmRpbmdMaW1pdHM6IGJvb2wKCWNhbGxzdWIgdmVyaWZ5UmVrZXlUb0Fic3RyYWN0ZWRBY2NvdW50CglyZXRzdWIKCi8vIGdldEF1dGhBZGRyKCk6IEFkZHJlc3MKLy8KLy8gV2hhdCB0aGUgdmFsdWUgb2YgdGhpcy5hZGRyZXNzLnZhbHVlLmF1dGhBZGRyIHNob3VsZCBiZSB3aGVuIHRoaXMuY29udHJvbGxlZEFkZHJlc3MKLy8gaXMgYWJsZSB0byBiZSBjb250cm9sbGVkIGJ5IHRoaXMgYXBwLiBJdCB3aWxsIGVpdGhlciBiZSB0aGlzLmFwcC5hZGRyZXNzIG9yIHplcm9BZGRyZXNzCmdldEF1dGhBZGRyOgoJcHJvdG8gMCAxCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjkxNwoJLy8gcmV0dXJuIHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUgPT09IHRoaXMuYXBwLmFkZHJlc3MgPyBBZGRyZXNzLnplcm9BZGRyZXNzIDogdGhpcy5hcHAuYWRkcmVzczsKCWJ5dGUgMHg2MyAvLyAiYyIKCWFwcF9nbG9iYWxfZ2V0CglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJPT0KCWJ6ICp0ZXJuYXJ5N19mYWxzZQoJZ2xvYmFsIFplcm9BZGRyZXNzCgliICp0ZXJuYXJ5N19lbmQKCip0ZXJuYXJ5N19mYWxzZToKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCgoqdGVybmFyeTdfZW5kOgoJcmV0c3ViCgovLyBjcmVhdGVBcHBsaWNhdGlvbihhZGRyZXNzLGFkZHJlc3MsYWRkcmVzc1tdLHVpbnQ2NCl2b2lkCiphYmlfcm91dGVfY3JlYXRlQXBwbGljYXRpb246CgkvLyBhZG1pblRocmVzaG9sZDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyA0CglidG9pCgoJLy8gYWRtaW5TaWduZXJzOiBhZGRyZXNzW10KCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWV4dHJhY3QgMiAwCgoJLy8gYWRtaW46IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBjb250cm9sbGVkQWRkcmVzczogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGV4ZWN1dGUgY3JlYXRlQXBwbGljYXRpb24oYWRkcmVzcyxhZGRyZXNzLGFkZHJlc3NbXSx1aW50NjQpdm9pZAoJY2FsbHN1YiBjcmVhdGVBcHBsaWNhdGlvbgoJaW50IDEKCXJldHVybgoKLy8gY3JlYXRlQXBwbGljYXRpb24oY29udHJvbGxlZEFkZHJlc3M6IEFkZHJlc3MsIGFkbWluOiBBZGRyZXNzLCBhZG1pblNpZ25lcnM6IEFkZHJlc3NbXSwgYWRtaW5UaHJlc2hvbGQ6IHVpbnQ2NCk6IHZvaWQKLy8KLy8gQ3JlYXRlIGFuIGFic3RyYWN0ZWQgYWNjb3VudCBhcHBsaWNhdGlvbi4KLy8gVGhpcyBpcyBub3QgcGFydCBvZiBBUkM1OCBhbmQgaW1wbGVtZW50YXRpb24gc3BlY2lmaWMuCi8vCi8vIEBwYXJhbSBjb250cm9sbGVkQWRkcmVzcyBUaGUgYWRkcmVzcyBvZiB0aGUgYWJzdHJhY3RlZCBhY2NvdW50LiBJZiB6ZXJvQWRkcmVzcywgdGhlbiB0aGUgYWRkcmVzcyBvZiB0aGUgY29udHJhY3QgYWNjb3VudCB3aWxsIGJlIHVzZWQKLy8gQHBhcmFtIGFkbWluIFRoZSBhZG1pbiBmb3IgdGhpcyBhcHAKLy8gQHBhcmFtIGFkbWluU2lnbmVycyBUaGUgZGlzdGluY3Qgc2lnbmVycyB0aGF0IGFwcHJvdmUgYWRtaW4gb3BlcmF0aW9ucyBpbnN0ZWFkIG9mIHRoZSBhZG1pbi4KLy8gVGhleSBtdXN0IGJlIHJlZ2lzdGVyZWQgd2l0aCBhcmM1OF9pbml0QWRtaW5TaWduZXJzIG9uY2UgdGhlIGFwcCBpcyBmdW5kZWQKLy8gQHBhcmFtIGFkbWluVGhyZXNob2xkIFRoZSBudW1iZXIgb2Ygc2lnbmVycyB0aGF0IG11c3QgYXBwcm92ZSBhbiBhZG1pbiBvcGVyYXRpb24sIG9yIHplcm8gdG8gdXNlIHRoZSBhZG1pbgpjcmVhdGVBcHBsaWNhdGlvbjoKCXByb3RvIDQgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXBuIDIKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTMxCgkvLyB2ZXJpZnlBcHBDYWxsVHhuKHRoaXMudHhuLCB7CgkvLyAgICAgICBzZW5kZXI6IHsgaW5jbHVkZWRJbjogW2NvbnRyb2xsZWRBZGRyZXNzLCBhZG1pbl0gfSwKCS8vICAgICB9KQoJLy8gdmVyaWZ5IHNlbmRlcgoJdHhuIFNlbmRlcgoJZnJhbWVfZGlnIC0xIC8vIGNvbnRyb2xsZWRBZGRyZXNzOiBBZGRyZXNzCgk9PQoJdHhuIFNlbmRlcgoJZnJhbWVfZGlnIC0yIC8vIGFkbWluOiBBZGRyZXNzCgk9PQoJfHwKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5MzUKCS8vIGFzc2VydChhZG1pbiAhPT0gY29udHJvbGxlZEFkZHJlc3MpCglmcmFtZV9kaWcgLTIgLy8gYWRtaW46IEFkZHJlc3MKCWZyYW1lX2RpZyAtMSAvLyBjb250cm9sbGVkQWRkcmVzczogQWRkcmVzcwoJIT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5MzYKCS8vIGFzc2VydChhZG1pblRocmVzaG9sZCA8PSBhZG1pblNpZ25lcnMubGVuZ3RoKQoJZnJhbWVfZGlnIC00IC8vIGFkbWluVGhyZXNob2xkOiB1aW50NjQKCWZyYW1lX2RpZyAtMyAvLyBhZG1pblNpZ25lcnM6IEFkZHJlc3NbXQoJbGVuCglpbnQgMzIKCS8KCTw9Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTM5CgkvLyBzaWduZXJzID0gcmF3Qnl0ZXMoYWRtaW5TaWduZXJzKQoJZnJhbWVfZGlnIC0zIC8vIGFkbWluU2lnbmVyczogQWRkcmVzc1tdCglkdXAKCWxlbgoJaW50IDMyCgkvCglpdG9iCglleHRyYWN0IDYgMgoJc3dhcAoJY29uY2F0CglmcmFtZV9idXJ5IDAgLy8gc2lnbmVyczogYnl0ZVtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk0MAoJLy8gZm9yIChsZXQgaSA9IDI7IGkgPCBzaWduZXJzLmxlbmd0aDsgaSArPSAzMikKCWludCAyCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgoqZm9yXzk6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTQwCgkvLyBpIDwgc2lnbmVycy5sZW5ndGgKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJZnJhbWVfZGlnIDAgLy8gc2lnbmVyczogYnl0ZVtdCglsZW4KCTwKCWJ6ICpmb3JfOV9lbmQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTQxCgkvLyBmb3IgKGxldCBqID0gaSArIDMyOyBqIDwgc2lnbmVycy5sZW5ndGg7IGogKz0gMzIpCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCAzMgoJKwoJZnJhbWVfYnVyeSAyIC8vIGo6IHVpbnQ2NAoKKmZvcl8xMDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NDEKCS8vIGogPCBzaWduZXJzLmxlbmd0aAoJZnJhbWVfZGlnIDIgLy8gajogdWludDY0CglmcmFtZV9kaWcgMCAvLyBzaWduZXJzOiBieXRlW10KCWxlbgoJPAoJYnogKmZvcl8xMF9lbmQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTQyCgkvLyBhc3NlcnQoZXh0cmFjdDMoc2lnbmVycywgaSwgMzIpICE9PSBleHRyYWN0MyhzaWduZXJzLCBqLCAzMikpCglmcmFtZV9kaWcgMCAvLyBzaWduZXJzOiBieXRlW10KCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDMyCglleHRyYWN0MwoJZnJhbWVfZGlnIDAgLy8gc2lnbmVyczogYnl0ZVtdCglmcmFtZV9kaWcgMiAvLyBqOiB1aW50NjQKCWludCAzMgoJZXh0cmFjdDMKCSE9Cglhc3NlcnQKCipmb3JfMTBfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTQxCgkvLyBqICs9IDMyCglmcmFtZV9kaWcgMiAvLyBqOiB1aW50NjQKCWludCAzMgoJKwoJZnJhbWVfYnVyeSAyIC8vIGo6IHVpbnQ2NAoJYiAqZm9yXzEwCgoqZm9yXzEwX2VuZDoKCipmb3JfOV9jb250aW51ZToKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NDAKCS8vIGkgKz0gMzIKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDMyCgkrCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgliICpmb3JfOQoKKmZvcl85X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NDYKCS8vIHRoaXMuYWRtaW4udmFsdWUgPSBhZG1pbgoJYnl0ZSAweDYxIC8vICJhIgoJZnJhbWVfZGlnIC0yIC8vIGFkbWluOiBBZGRyZXNzCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NDcKCS8vIHRoaXMuYWRtaW5UaHJlc2hvbGQudmFsdWUgPSBhZG1pblRocmVzaG9sZAoJYnl0ZSAweDZkNzQgLy8gIm10IgoJZnJhbWVfZGlnIC00IC8vIGFkbWluVGhyZXNob2xkOiB1aW50NjQKCWFwcF9nbG9iYWxfcHV0CgoJLy8gKmlmMzJfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTQ4CgkvLyBhZG1pblRocmVzaG9sZCA+IDAKCWZyYW1lX2RpZyAtNCAvLyBhZG1pblRocmVzaG9sZDogdWludDY0CglpbnQgMAoJPgoJYnogKmlmMzJfZW5kCgoJLy8gKmlmMzJfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk0OAoJLy8gdGhpcy5hZG1pblNpZ25lcnNIYXNoLnZhbHVlID0gc2hhMjU2KHNpZ25lcnMpCglieXRlIDB4NmQ2OCAvLyAibWgiCglmcmFtZV9kaWcgMCAvLyBzaWduZXJzOiBieXRlW10KCXNoYTI1NgoJYXBwX2dsb2JhbF9wdXQKCippZjMyX2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NTAKCS8vIHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUgPSBjb250cm9sbGVkQWRkcmVzcyA9PT0gQWRkcmVzcy56ZXJvQWRkcmVzcyA/IHRoaXMuYXBwLmFkZHJlc3MgOiBjb250cm9sbGVkQWRkcmVzcwoJYnl0ZSAweDYzIC8vICJjIgoJZnJhbWVfZGlnIC0xIC8vIGNvbnRyb2xsZWRBZGRyZXNzOiBBZGRyZXNzCglnbG9iYWwgWmVyb0FkZHJlc3MKCT09CglieiAqdGVybmFyeThfZmFsc2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCgliICp0ZXJuYXJ5OF9lbmQKCip0ZXJuYXJ5OF9mYWxzZToKCWZyYW1lX2RpZyAtMSAvLyBjb250cm9sbGVkQWRkcmVzczogQWRkcmVzcwoKKnRlcm5hcnk4X2VuZDoKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk1MQoJLy8gdGhpcy5ndWFyZGlhbkNvdW50LnZhbHVlID0gMAoJYnl0ZSAweDY3NjMgLy8gImdjIgoJaW50IDAKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk1MgoJLy8gdGhpcy5yZWNvdmVyeVRocmVzaG9sZC52YWx1ZSA9IDAKCWJ5dGUgMHg3Mjc0IC8vICJydCIKCWludCAwCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NTMKCS8vIHRoaXMucmVjb3ZlcnlEZWxheS52YWx1ZSA9IDAKCWJ5dGUgMHg3MjY0IC8vICJyZCIKCWludCAwCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NTQKCS8vIHRoaXMucmVjb3ZlcnlQcm9wb3NhbExpZmV0aW1lLnZhbHVlID0gMAoJYnl0ZSAweDcyNmMgLy8gInJsIgoJaW50IDAKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk1NQoJLy8gdGhpcy5yZWNvdmVyeU5vbmNlLnZhbHVlID0gMAoJYnl0ZSAweDcyNmUgLy8gInJuIgoJaW50IDAKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk1NgoJLy8gdGhpcy5zZXNzaW9uRXBvY2gudmFsdWUgPSAxCglieXRlIDB4NzM2NSAvLyAic2UiCglpbnQgMQoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTU3CgkvLyB0aGlzLnBsdWdpbkRlbGF5LnZhbHVlID0gMAoJYnl0ZSAweDcwNjQgLy8gInBkIgoJaW50IDAKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk1OAoJLy8gdGhpcy5wcmV2aW91c1BsdWdpbkRlbGF5LnZhbHVlID0gMAoJYnl0ZSAweDcwNzAgLy8gInBwIgoJaW50IDAKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk1OQoJLy8gdGhpcy5wbHVnaW5EZWxheUNoYW5nZXNBdC52YWx1ZSA9IDAKCWJ5dGUgMHg3MDc0IC8vICJwdCIKCWludCAwCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NjAKCS8vIHRoaXMuaW50ZW50Tm9uY2UudmFsdWUgPSAwCglieXRlIDB4Njk2ZSAvLyAiaW4iCglpbnQgMAoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTYxCgkvLyB0aGlzLmFkbWluS2V5VHlwZS52YWx1ZSA9IEFETUlOX0tFWV9BRERSRVNTCglieXRlIDB4NmI3NCAvLyAia3QiCglpbnQgMAoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTYyCgkvLyB0aGlzLnBhdXNlZC52YWx1ZSA9IGZhbHNlCglieXRlIDB4NzA3MyAvLyAicHMiCglpbnQgMAoJYnl0ZSAweDAwCglpbnQgMAoJdW5jb3ZlciAyCglzZXRiaXQKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk2MwoJLy8gdGhpcy5wYXVzZUd1YXJkaWFuLnZhbHVlID0gZ2xvYmFscy56ZXJvQWRkcmVzcwoJYnl0ZSAweDcwNjcgLy8gInBnIgoJZ2xvYmFsIFplcm9BZGRyZXNzCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NjUKCS8vIHRoaXMuYWNjb3VudENyZWF0ZWQubG9nKHsgY29udHJvbGxlZEFkZHJlc3M6IHRoaXMuY29udHJvbGxlZEFkZHJlc3MudmFsdWUsIGFkbWluOiBhZG1pbiB9KQoJYnl0ZSAweDM3ZjEzYzQ3IC8vIGFjY291bnRDcmVhdGVkKGFkZHJlc3MsYWRkcmVzcykKCWJ5dGUgMHg2MyAvLyAiYyIKCWFwcF9nbG9iYWxfZ2V0CglmcmFtZV9kaWcgLTIgLy8gYWRtaW46IEFkZHJlc3MKCWNvbmNhdAoJY29uY2F0Cglsb2cKCXJldHN1YgoKLy8gYXJjNThfaW5pdEFkbWluU2lnbmVycyhhZGRyZXNzW10scGF5KXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9pbml0QWRtaW5TaWduZXJzOgoJLy8gbWJyUGF5bWVudDogcGF5Cgl0eG4gR3JvdXBJbmRleAoJaW50IDEKCS0KCWR1cAoJZ3R4bnMgVHlwZUVudW0KCWludCBwYXkKCT09Cglhc3NlcnQKCgkvLyBhZG1pblNpZ25lcnM6IGFkZHJlc3NbXQoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZXh0cmFjdCAyIDAKCgkvLyBleGVjdXRlIGFyYzU4X2luaXRBZG1pblNpZ25lcnMoYWRkcmVzc1tdLHBheSl2b2lkCgljYWxsc3ViIGFyYzU4X2luaXRBZG1pblNpZ25lcnMKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2luaXRBZG1pblNpZ25lcnMoYWRtaW5TaWduZXJzOiBBZGRyZXNzW10sIG1iclBheW1lbnQ6IFBheVR4bik6IHZvaWQKLy8KLy8gUmVnaXN0ZXIgdGhlIHNpZ25lcnMgZ2l2ZW4gYXQgY3JlYXRpb24uIEJveGVzIGNhbm5vdCBiZSBjcmVhdGVkIGR1cmluZyBjcmVhdGlvbiBiZWNhdXNlIHRoZSBhcHAgaXMgbm90IGZ1bmRlZCB5ZXQuCi8vIENhbiBiZSBjYWxsZWQgYnkgYW55b25lLCBidXQgb25seSBvbmNlIGFuZCBvbmx5IHdpdGggdGhlIHNpZ25lcnMgZ2l2ZW4gYXQgY3JlYXRpb24uCi8vCi8vIEBwYXJhbSBhZG1pblNpZ25lcnMgVGhlIHNpZ25lcnMgZ2l2ZW4gYXQgY3JlYXRpb24KLy8gQHBhcmFtIG1iclBheW1lbnQgQSBwYXltZW50IHRvIHRoZSBhcHAgYWRkcmVzcyBjb3ZlcmluZyBleGFjdGx5IHRoZSBNQlIgb2YgdGhlIHNpZ25lciBib3hlcwphcmM1OF9pbml0QWRtaW5TaWduZXJzOgoJcHJvdG8gMiAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NzYKCS8vIGFzc2VydChzaGEyNTYocmF3Qnl0ZXMoYWRtaW5TaWduZXJzKSkgPT09IHRoaXMuYWRtaW5TaWduZXJzSGFzaC52YWx1ZSkKCWZyYW1lX2RpZyAtMSAvLyBhZG1pblNpZ25lcnM6IEFkZHJlc3NbXQoJZHVwCglsZW4KCWludCAzMgoJLwoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJc2hhMjU2CglieXRlIDB4NmQ2OCAvLyAibWgiCglhcHBfZ2xvYmFsX2dldAoJPT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czo5NzcKCS8vIHByZU1CUiA9IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9idXJ5IDAgLy8gcHJlTUJSOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTc5CgkvLyBmb3IgKGxldCBpID0gMDsgaSA8IGFkbWluU2lnbmVycy5sZW5ndGg7IGkgKz0gMSkKCWludCAwCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgoqZm9yXzExOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk3OQoJLy8gaSA8IGFkbWluU2lnbmVycy5sZW5ndGgKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJZnJhbWVfZGlnIC0xIC8vIGFkbWluU2lnbmVyczogQWRkcmVzc1tdCglsZW4KCWludCAzMgoJLwoJPAoJYnogKmZvcl8xMV9lbmQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTgwCgkvLyB0aGlzLmFkbWluU2lnbmVycyhhZG1pblNpZ25lcnNbaV0pLnZhbHVlID0gMAoJYnl0ZSAweDZkIC8vICJtIgoJZnJhbWVfZGlnIC0xIC8vIGFkbWluU2lnbmVyczogQWRkcmVzc1tdCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAgLy8gaW5pdGlhbCBvZmZzZXQKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDMyCgkqIC8vIGFjYyAqIHR5cGVMZW5ndGgKCSsKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCXN3YXAKCWludCAzMgoJZXh0cmFjdDMKCWNvbmNhdAoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWJveF9wdXQKCipmb3JfMTFfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTc5CgkvLyBpICs9IDEKCWZyYW1lX2RpZyAxIC8vIGk6IHVpbnQ2NAoJaW50IDEKCSsKCWZyYW1lX2J1cnkgMSAvLyBpOiB1aW50NjQKCWIgKmZvcl8xMQoKKmZvcl8xMV9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6OTgzCgkvLyB0aGlzLmFkbWluU2lnbmVyc0hhc2guZGVsZXRlKCkKCWJ5dGUgMHg2ZDY4IC8vICJtaCIKCWFwcF9nbG9iYWxfZGVsCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjk4NQoJLy8gdGhpcy52ZXJpZnlNYnJQYXltZW50KG1iclBheW1lbnQsIHByZU1CUikKCWZyYW1lX2RpZyAwIC8vIHByZU1CUjogdWludDY0CglmcmFtZV9kaWcgLTIgLy8gbWJyUGF5bWVudDogUGF5VHhuCgljYWxsc3ViIHZlcmlmeU1iclBheW1lbnQKCXJldHN1YgoKLy8gYXJjNThfYXV0aG9yaXplSW50ZW50KHVpbnQ2NCx1aW50NjQsYnl0ZVs2NF0pdm9pZAoqYWJpX3JvdXRlX2FyYzU4X2F1dGhvcml6ZUludGVudDoKCS8vIHNpZ25hdHVyZTogYnl0ZVs2NF0KCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWR1cAoJbGVuCglpbnQgNjQKCT09Cglhc3NlcnQKCgkvLyBleHBpcnk6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJYnRvaQoKCS8vIG5vbmNlOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X2F1dGhvcml6ZUludGVudCh1aW50NjQsdWludDY0LGJ5dGVbNjRdKXZvaWQKCWNhbGxzdWIgYXJjNThfYXV0aG9yaXplSW50ZW50CglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9hdXRob3JpemVJbnRlbnQobm9uY2U6IHVpbnQ2NCwgZXhwaXJ5OiB1aW50NjQsIHNpZ25hdHVyZTogYnl0ZXM8NjQ+KTogdm9pZAovLwovLyBBdXRob3JpemUgdGhlIGFkbWluIG1ldGhvZCBjYWxsIHRoYXQgY29tZXMgcmlnaHQgYWZ0ZXIgdGhpcyBvbmUgaW4gdGhlIGdyb3VwIHdpdGggYW4gaW50ZW50IHNpZ25lZCBieSB0aGUgYWRtaW4sCi8vIHNvIGFueW9uZSBjYW4gcmVsYXkgYWRtaW4gb3BlcmF0aW9ucyBhbmQgdGhlIGFkbWluIGtleSBuZXZlciBuZWVkcyBBTEdPLiBPbmx5IGF2YWlsYWJsZSB3aGVuIGFkbWluVGhyZXNob2xkIGlzIHplcm8uCi8vIFRoZSBhZG1pbiBzaWducyBgImFyYzU4aW50ZW50IiArIGFwcCBJRCArIG5vbmNlICsgZXhwaXJ5ICsgc2hhMjU2KGNvbmNhdGVuYXRlZCBhcHBsaWNhdGlvbiBhcmdzIG9mIHRoZSBjYWxsKWAKLy8gd2l0aCBlZDI1NTE5LiBUaGUgcGF5bWVudCBhcmd1bWVudHMgb2YgdGhlIG1ldGhvZCwgc3VjaCBhcyBpdHMgTUJSIHBheW1lbnQsIGdvIGJldHdlZW4gdGhlIHR3byBjYWxscy4KLy8gVGhlIHJlbGF5ZXIgbXVzdCBjb3ZlciB0aGUgZmVlcyBvZiB0aGUgdGhyZWUgaW5uZXIgdHJhbnNhY3Rpb25zIHVzZWQgdG8gaW5jcmVhc2UgdGhlIG9wY29kZSBidWRnZXQuCi8vCi8vIEBwYXJhbSBub25jZSBUaGUgY3VycmVudCBpbnRlbnQgbm9uY2UsIHNvIGV2ZXJ5IGludGVudCBjYW4gb25seSBiZSB1c2VkIG9uY2UKLy8gQHBhcmFtIGV4cGlyeSBUaGUgdGltZXN0YW1wIGFmdGVyIHdoaWNoIHRoZSBpbnRlbnQgY2FuIG5vIGxvbmdlciBiZSB1c2VkCi8vIEBwYXJhbSBzaWduYXR1cmUgVGhlIGFkbWluJ3Mgc2lnbmF0dXJlIG9mIHRoZSBpbnRlbnQKYXJjNThfYXV0aG9yaXplSW50ZW50OgoJcHJvdG8gMyAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTAwMAoJLy8gbWVzc2FnZSA9IHRoaXMudXNlSW50ZW50KG5vbmNlLCBleHBpcnksIEFETUlOX0tFWV9BRERSRVNTKQoJaW50IDAKCWZyYW1lX2RpZyAtMiAvLyBleHBpcnk6IHVpbnQ2NAoJZnJhbWVfZGlnIC0xIC8vIG5vbmNlOiB1aW50NjQKCWNhbGxzdWIgdXNlSW50ZW50CglmcmFtZV9idXJ5IDAgLy8gbWVzc2FnZTogYnl0ZVtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEwMDEKCS8vIGFzc2VydChlZDI1NTE5VmVyaWZ5QmFyZShtZXNzYWdlLCBzaWduYXR1cmUsIHJhd0J5dGVzKHRoaXMuYWRtaW4udmFsdWUpKSkKCWZyYW1lX2RpZyAwIC8vIG1lc3NhZ2U6IGJ5dGVbXQoJZnJhbWVfZGlnIC0zIC8vIHNpZ25hdHVyZTogYnl0ZXM8NjQ+CglieXRlIDB4NjEgLy8gImEiCglhcHBfZ2xvYmFsX2dldAoJZWQyNTUxOXZlcmlmeV9iYXJlCglhc3NlcnQKCXJldHN1YgoKLy8gYXJjNThfYXV0aG9yaXplUGFzc2tleUludGVudCh1aW50NjQsdWludDY0LGJ5dGVbXSxieXRlW10sYnl0ZVs2NF0pdm9pZAoqYWJpX3JvdXRlX2FyYzU4X2F1dGhvcml6ZVBhc3NrZXlJbnRlbnQ6CgkvLyBzaWduYXR1cmU6IGJ5dGVbNjRdCgl0eG5hIEFwcGxpY2F0aW9uQXJncyA1CglkdXAKCWxlbgoJaW50IDY0Cgk9PQoJYXNzZXJ0CgoJLy8gY2xpZW50RGF0YUpTT046IGJ5dGVbXQoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNAoJZXh0cmFjdCAyIDAKCgkvLyBhdXRoZW50aWNhdG9yRGF0YTogYnl0ZVtdCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAzCglleHRyYWN0IDIgMAoKCS8vIGV4cGlyeTogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAyCglidG9pCgoJLy8gbm9uY2U6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJYnRvaQoKCS8vIGV4ZWN1dGUgYXJjNThfYXV0aG9yaXplUGFzc2tleUludGVudCh1aW50NjQsdWludDY0LGJ5dGVbXSxieXRlW10sYnl0ZVs2NF0pdm9pZAoJY2FsbHN1YiBhcmM1OF9hdXRob3JpemVQYXNza2V5SW50ZW50CglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9hdXRob3JpemVQYXNza2V5SW50ZW50KG5vbmNlOiB1aW50NjQsIGV4cGlyeTogdWludDY0LCBhdXRoZW50aWNhdG9yRGF0YTogYnl0ZXMsIGNsaWVudERhdGFKU09OOiBieXRlcywgc2lnbmF0dXJlOiBieXRlczw2ND4pOiB2b2lkCi8vCi8vIEF1dGhvcml6ZSB0aGUgYWRtaW4gbWV0aG9kIGNhbGwgdGhhdCBjb21lcyByaWdodCBhZnRlciB0aGlzIG9uZSBpbiB0aGUgZ3JvdXAgd2l0aCBhIFdlYkF1dGhuIGFzc2VydGlvbgovLyBvZiB0aGUgYWRtaW4ncyBwYXNza2V5LiBPbmx5IGF2YWlsYWJsZSB3aGVuIHRoZSBhZG1pbiBpcyBhIHBhc3NrZXkuIFRoZSBjaGFsbGVuZ2Ugb2YgdGhlIGFzc2VydGlvbiBpcwovLyB0aGUgc2hhMjU2IG9mIHRoZSBzYW1lIG1lc3NhZ2UgYXJjNThfYXV0aG9yaXplSW50ZW50IHZlcmlmaWVzLCBhbmQgdGhlIHVzZXIgbXVzdCBoYXZlIGJlZW4gcHJlc2VudC4KLy8gVGhlIHJlbGF5ZXIgbXVzdCBjb3ZlciB0aGUgZmVlcyBvZiB0aGUgZm91ciBpbm5lciB0cmFuc2FjdGlvbnMgdXNlZCB0byBpbmNyZWFzZSB0aGUgb3Bjb2RlIGJ1ZGdldC4KLy8KLy8gQHBhcmFtIG5vbmNlIFRoZSBjdXJyZW50IGludGVudCBub25jZSwgc28gZXZlcnkgaW50ZW50IGNhbiBvbmx5IGJlIHVzZWQgb25jZQovLyBAcGFyYW0gZXhwaXJ5IFRoZSB0aW1lc3RhbXAgYWZ0ZXIgd2hpY2ggdGhlIGludGVudCBjYW4gbm8gbG9uZ2VyIGJlIHVzZWQKLy8gQHBhcmFtIGF1dGhlbnRpY2F0b3JEYXRhIFRoZSBhdXRoZW50aWNhdG9yIGRhdGEgb2YgdGhlIGFzc2VydGlvbgovLyBAcGFyYW0gY2xpZW50RGF0YUpTT04gVGhlIGNsaWVudCBkYXRhIEpTT04gb2YgdGhlIGFzc2VydGlvbiwgd2hpY2ggY29udGFpbnMgdGhlIGJhc2U2NHVybCBjaGFsbGVuZ2UKLy8gQHBhcmFtIHNpZ25hdHVyZSBUaGUgciBhbmQgcyBjb21wb25lbnRzIG9mIHRoZSBhc3NlcnRpb24ncyBzaWduYXR1cmUKYXJjNThfYXV0aG9yaXplUGFzc2tleUludGVudDoKCXByb3RvIDUgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTAyMwoJLy8gY2hhbGxlbmdlID0gc2hhMjU2KHRoaXMudXNlSW50ZW50KG5vbmNlLCBleHBpcnksIEFETUlOX0tFWV9QQVNTS0VZKSkKCWludCAxCglmcmFtZV9kaWcgLTIgLy8gZXhwaXJ5OiB1aW50NjQKCWZyYW1lX2RpZyAtMSAvLyBub25jZTogdWludDY0CgljYWxsc3ViIHVzZUludGVudAoJc2hhMjU2CglmcmFtZV9idXJ5IDAgLy8gY2hhbGxlbmdlOiBieXRlWzMyXQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMDI2CgkvLyBhc3NlcnQoYnRvaShleHRyYWN0MyhhdXRoZW50aWNhdG9yRGF0YSwgMzIsIDEpKSAlIDIgPT09IDEpCglmcmFtZV9kaWcgLTMgLy8gYXV0aGVudGljYXRvckRhdGE6IGJ5dGVzCglleHRyYWN0IDMyIDEKCWJ0b2kKCWludCAyCgklCglpbnQgMQoJPT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMDI3CgkvLyBhc3NlcnQoanNvblJlZignSlNPTlN0cmluZycsIGNsaWVudERhdGFKU09OLCAndHlwZScpID09PSAnd2ViYXV0aG4uZ2V0JykKCWZyYW1lX2RpZyAtNCAvLyBjbGllbnREYXRhSlNPTjogYnl0ZXMKCWJ5dGUgMHg3NDc5NzA2NSAvLyAidHlwZSIKCWpzb25fcmVmIEpTT05TdHJpbmcKCWJ5dGUgMHg3NzY1NjI2MTc1NzQ2ODZlMmU2NzY1NzQgLy8gIndlYmF1dGhuLmdldCIKCT09Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTAzMAoJLy8gYXNzZXJ0KAoJLy8gICAgICAgYmFzZTY0RGVjb2RlKCdVUkxFbmNvZGluZycsIGNvbmNhdChqc29uUmVmKCdKU09OU3RyaW5nJywgY2xpZW50RGF0YUpTT04sICdjaGFsbGVuZ2UnKSwgJz0nKSkgPT09CgkvLyAgICAgICAgIHJhd0J5dGVzKGNoYWxsZW5nZSkKCS8vICAgICApCglmcmFtZV9kaWcgLTQgLy8gY2xpZW50RGF0YUpTT046IGJ5dGVzCglieXRlIDB4NjM2ODYxNmM2YzY1NmU2NzY1IC8vICJjaGFsbGVuZ2UiCglqc29uX3JlZiBKU09OU3RyaW5nCglieXRlIDB4M2QgLy8gIj0iCgljb25jYXQKCWJhc2U2NF9kZWNvZGUgVVJMRW5jb2RpbmcKCWZyYW1lX2RpZyAwIC8vIGNoYWxsZW5nZTogYnl0ZVszMl0KCT09Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTAzNgoJLy8ga2V5ID0gdGhpcy5hZG1pbktleS52YWx1ZQoJYnl0ZSAweDYxNmIgLy8gImFrIgoJYXBwX2dsb2JhbF9nZXQKCWZyYW1lX2J1cnkgMSAvLyBrZXk6IGJ5dGVbXQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMDM3CgkvLyBhc3NlcnQoCgkvLyAgICAgICBlY2RzYVZlcmlmeSgKCS8vICAgICAgICAgJ1NlY3AyNTZyMScsCgkvLyAgICAgICAgIHNoYTI1Nihjb25jYXQoYXV0aGVudGljYXRvckRhdGEsIHNoYTI1NihjbGllbnREYXRhSlNPTikpKSwKCS8vICAgICAgICAgY2FzdEJ5dGVzPGJ5dGVzMzI+KGV4dHJhY3QzKHNpZ25hdHVyZSwgMCwgMzIpKSwKCS8vICAgICAgICAgY2FzdEJ5dGVzPGJ5dGVzMzI+KGV4dHJhY3QzKHNpZ25hdHVyZSwgMzIsIDMyKSksCgkvLyAgICAgICAgIGNhc3RCeXRlczxieXRlczMyPihleHRyYWN0MyhrZXksIDAsIDMyKSksCgkvLyAgICAgICAgIGNhc3RCeXRlczxieXRlczMyPihleHRyYWN0MyhrZXksIDMyLCAzMikpCgkvLyAgICAgICApCgkvLyAgICAgKQoJZnJhbWVfZGlnIC0zIC8vIGF1dGhlbnRpY2F0b3JEYXRhOiBieXRlcwoJZnJhbWVfZGlnIC00IC8vIGNsaWVudERhdGFKU09OOiBieXRlcwoJc2hhMjU2Cgljb25jYXQKCXNoYTI1NgoJZnJhbWVfZGlnIC01IC8vIHNpZ25hdHVyZTogYnl0ZXM8NjQ+CglleHRyYWN0IDAgMzIKCWZyYW1lX2RpZyAtNSAvLyBzaWduYXR1cmU6IGJ5dGVzPDY0PgoJZXh0cmFjdCAzMiAzMgoJZnJhbWVfZGlnIDEgLy8ga2V5OiBieXRlW10KCWV4dHJhY3QgMCAzMgoJZnJhbWVfZGlnIDEgLy8ga2V5OiBieXRlW10KCWV4dHJhY3QgMzIgMzIKCWVjZHNhX3ZlcmlmeSBTZWNwMjU2cjEKCWFzc2VydAoJcmV0c3ViCgovLyBhcmM1OF9hdXRob3JpemVFdGhlcmV1bUludGVudCh1aW50NjQsdWludDY0LGJ5dGVbNjVdKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9hdXRob3JpemVFdGhlcmV1bUludGVudDoKCS8vIHNpZ25hdHVyZTogYnl0ZVs2NV0KCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWR1cAoJbGVuCglpbnQgNjUKCT09Cglhc3NlcnQKCgkvLyBleHBpcnk6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJYnRvaQoKCS8vIG5vbmNlOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X2F1dGhvcml6ZUV0aGVyZXVtSW50ZW50KHVpbnQ2NCx1aW50NjQsYnl0ZVs2NV0pdm9pZAoJY2FsbHN1YiBhcmM1OF9hdXRob3JpemVFdGhlcmV1bUludGVudAoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfYXV0aG9yaXplRXRoZXJldW1JbnRlbnQobm9uY2U6IHVpbnQ2NCwgZXhwaXJ5OiB1aW50NjQsIHNpZ25hdHVyZTogYnl0ZXM8NjU+KTogdm9pZAovLwovLyBBdXRob3JpemUgdGhlIGFkbWluIG1ldGhvZCBjYWxsIHRoYXQgY29tZXMgcmlnaHQgYWZ0ZXIgdGhpcyBvbmUgaW4gdGhlIGdyb3VwIHdpdGggRUlQLTcxMiB0eXBlZCBkYXRhIHNpZ25lZAovLyBieSB0aGUgYWRtaW4ncyBFdGhlcmV1bSBrZXksIGllLiB3aXRoIGBldGhfc2lnblR5cGVkRGF0YV92NGAuIE9ubHkgYXZhaWxhYmxlIHdoZW4gdGhlIGFkbWluIGlzIGFuIEV0aGVyZXVtIGFkZHJlc3MuCi8vIFRoZSB0eXBlZCBkYXRhIGlzIGFuIGBJbnRlbnQodWludDY0IGFwcCx1aW50NjQgbm9uY2UsdWludDY0IGV4cGlyeSxieXRlczMyIG9wZXJhdGlvbilgIGluIHRoZQovLyBgeyBuYW1lOiAiQVJDNTggQWJzdHJhY3RlZCBBY2NvdW50IiwgdmVyc2lvbjogIjEiIH1gIGRvbWFpbiwgd2hlcmUgb3BlcmF0aW9uIGlzIHRoZSBzYW1lIGhhc2ggb2YgdGhlIGFwcGxpY2F0aW9uCi8vIGFyZ3MgYXJjNThfYXV0aG9yaXplSW50ZW50IHVzZXMuIFRoZSByZWxheWVyIG11c3QgY292ZXIgdGhlIGZlZXMgb2YgdGhlIGZvdXIgaW5uZXIgdHJhbnNhY3Rpb25zIHVzZWQgdG8gaW5jcmVhc2UKLy8gdGhlIG9wY29kZSBidWRnZXQuCi8vCi8vIEBwYXJhbSBub25jZSBUaGUgY3VycmVudCBpbnRlbnQgbm9uY2UsIHNvIGV2ZXJ5IGludGVudCBjYW4gb25seSBiZSB1c2VkIG9uY2UKLy8gQHBhcmFtIGV4cGlyeSBUaGUgdGltZXN0YW1wIGFmdGVyIHdoaWNoIHRoZSBpbnRlbnQgY2FuIG5vIGxvbmdlciBiZSB1c2VkCi8vIEBwYXJhbSBzaWduYXR1cmUgVGhlIHIsIHMgYW5kIHYgY29tcG9uZW50cyBvZiB0aGUgc2lnbmF0dXJlCmFyYzU4X2F1dGhvcml6ZUV0aGVyZXVtSW50ZW50OgoJcHJvdG8gMyAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cG4gNgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMDYyCgkvLyBtZXNzYWdlID0gdGhpcy51c2VJbnRlbnQobm9uY2UsIGV4cGlyeSwgQURNSU5fS0VZX0VUSEVSRVVNKQoJaW50IDIKCWZyYW1lX2RpZyAtMiAvLyBleHBpcnk6IHVpbnQ2NAoJZnJhbWVfZGlnIC0xIC8vIG5vbmNlOiB1aW50NjQKCWNhbGxzdWIgdXNlSW50ZW50CglmcmFtZV9idXJ5IDAgLy8gbWVzc2FnZTogYnl0ZVtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEwNjUKCS8vIHN0cnVjdEhhc2ggPSBrZWNjYWsyNTYoCgkvLyAgICAgICBjb25jYXQoCgkvLyAgICAgICAgIGNvbmNhdCgKCS8vICAgICAgICAgICBjb25jYXQoCgkvLyAgICAgICAgICAgICBjb25jYXQoCgkvLyAgICAgICAgICAgICAgIGhleCgnMHhkOWE3MWVhOWY5NjdmZWNlZTFmYzlkOTY3MDc4MTg3MDZmM2I4NzZhNjBmYzU1ZmI3NmIzYzdjNmY3YmNmMTBiJyksCgkvLyAgICAgICAgICAgICAgIGNvbmNhdChiemVybygyNCksIGl0b2IodGhpcy5hcHAuaWQpKQoJLy8gICAgICAgICAgICAgKSwKCS8vICAgICAgICAgICAgIGNvbmNhdChiemVybygyNCksIGl0b2Iobm9uY2UpKQoJLy8gICAgICAgICAgICksCgkvLyAgICAgICAgICAgY29uY2F0KGJ6ZXJvKDI0KSwgaXRvYihleHBpcnkpKQoJLy8gICAgICAgICApLAoJLy8gICAgICAgICBleHRyYWN0MyhtZXNzYWdlLCAzNSwgMzIpCgkvLyAgICAgICApCgkvLyAgICAgKQoJYnl0ZSAweGQ5YTcxZWE5Zjk2N2ZlY2VlMWZjOWQ5NjcwNzgxODcwNmYzYjg3NmE2MGZjNTVmYjc2YjNjN2M2ZjdiY2YxMGIKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAKCXR4bmEgQXBwbGljYXRpb25zIDAKCWl0b2IKCWNvbmNhdAoJY29uY2F0CglieXRlIDB4MDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwCglmcmFtZV9kaWcgLTEgLy8gbm9uY2U6IHVpbnQ2NAoJaXRvYgoJY29uY2F0Cgljb25jYXQKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAKCWZyYW1lX2RpZyAtMiAvLyBleHBpcnk6IHVpbnQ2NAoJaXRvYgoJY29uY2F0Cgljb25jYXQKCWZyYW1lX2RpZyAwIC8vIG1lc3NhZ2U6IGJ5dGVbXQoJZXh0cmFjdCAzNSAzMgoJY29uY2F0CglrZWNjYWsyNTYKCWZyYW1lX2J1cnkgMSAvLyBzdHJ1Y3RIYXNoOiBieXRlWzMyXQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMDgyCgkvLyBkaWdlc3QgPSBrZWNjYWsyNTYoCgkvLyAgICAgICBjb25jYXQoaGV4KCcweDE5MDFlZjgyNzRmOWViOThkODNlOWRlMDZjNjExNDA0NTEwYjBmY2MxNGM0NDcyZjE0M2FmMzdjYzc4ZDJhODE2NWNhJyksIHN0cnVjdEhhc2gpCgkvLyAgICAgKQoJYnl0ZSAweDE5MDFlZjgyNzRmOWViOThkODNlOWRlMDZjNjExNDA0NTEwYjBmY2MxNGM0NDcyZjE0M2FmMzdjYzc4ZDJhODE2NWNhCglmcmFtZV9kaWcgMSAvLyBzdHJ1Y3RIYXNoOiBieXRlWzMyXQoJY29uY2F0CglrZWNjYWsyNTYKCWZyYW1lX2J1cnkgMiAvLyBkaWdlc3Q6IGJ5dGVbMzJdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEwODYKCS8vIHB1YmxpY0tleSA9IGVjZHNhUGtSZWNvdmVyKAoJLy8gICAgICAgJ1NlY3AyNTZrMScsCgkvLyAgICAgICBkaWdlc3QsCgkvLyAgICAgICBidG9pKGV4dHJhY3QzKHNpZ25hdHVyZSwgNjQsIDEpKSAtIDI3LAoJLy8gICAgICAgY2FzdEJ5dGVzPGJ5dGVzMzI+KGV4dHJhY3QzKHNpZ25hdHVyZSwgMCwgMzIpKSwKCS8vICAgICAgIGNhc3RCeXRlczxieXRlczMyPihleHRyYWN0MyhzaWduYXR1cmUsIDMyLCAzMikpCgkvLyAgICAgKQoJZnJhbWVfZGlnIDIgLy8gZGlnZXN0OiBieXRlWzMyXQoJZnJhbWVfZGlnIC0zIC8vIHNpZ25hdHVyZTogYnl0ZXM8NjU+CglleHRyYWN0IDY0IDEKCWJ0b2kKCWludCAyNwoJLQoJZnJhbWVfZGlnIC0zIC8vIHNpZ25hdHVyZTogYnl0ZXM8NjU+CglleHRyYWN0IDAgMzIKCWZyYW1lX2RpZyAtMyAvLyBzaWduYXR1cmU6IGJ5dGVzPDY1PgoJZXh0cmFjdCAzMiAzMgoJZWNkc2FfcGtfcmVjb3ZlciBTZWNwMjU2azEKCWZyYW1lX2J1cnkgNSAvLyBwdWJsaWNLZXkgeSBjb21wb25lbnQ6IGJ5dGVbXQoJZnJhbWVfYnVyeSA2IC8vIHB1YmxpY0tleSB4IGNvbXBvbmVudDogYnl0ZVtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEwOTMKCS8vIGFzc2VydChleHRyYWN0MyhrZWNjYWsyNTYoY29uY2F0KHB1YmxpY0tleS54LCBwdWJsaWNLZXkueSkpLCAxMiwgMjApID09PSB0aGlzLmFkbWluS2V5LnZhbHVlKQoJZnJhbWVfZGlnIDYgLy8gcHVibGljS2V5IHggY29tcG9uZW50OiBieXRlW10KCWZyYW1lX2RpZyA1IC8vIHB1YmxpY0tleSB5IGNvbXBvbmVudDogYnl0ZVtdCgljb25jYXQKCWtlY2NhazI1NgoJZXh0cmFjdCAxMiAyMAoJYnl0ZSAweDYxNmIgLy8gImFrIgoJYXBwX2dsb2JhbF9nZXQKCT09Cglhc3NlcnQKCXJldHN1YgoKLy8gYXJjNThfc2V0QWRtaW5QYXNza2V5KGJ5dGVbNjRdKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9zZXRBZG1pblBhc3NrZXk6CgkvLyBwdWJsaWNLZXk6IGJ5dGVbNjRdCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglkdXAKCWxlbgoJaW50IDY0Cgk9PQoJYXNzZXJ0CgoJLy8gZXhlY3V0ZSBhcmM1OF9zZXRBZG1pblBhc3NrZXkoYnl0ZVs2NF0pdm9pZAoJY2FsbHN1YiBhcmM1OF9zZXRBZG1pblBhc3NrZXkKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3NldEFkbWluUGFzc2tleShwdWJsaWNLZXk6IGJ5dGVzPDY0Pik6IHZvaWQKLy8KLy8gTWFrZSBhIHBhc3NrZXkgdGhlIGFkbWluLiBBZG1pbiBvcGVyYXRpb25zIG11c3QgdGhlbiBiZSBhdXRob3JpemVkIHdpdGggYXJjNThfYXV0aG9yaXplUGFzc2tleUludGVudAovLyBhbmQgdGhlIGFkbWluIGFkZHJlc3MgYmVjb21lcyB0aGUgZ2xvYmFsIHplcm8gYWRkcmVzcywgc2luY2Ugbm8gYWRkcmVzcyBjYW4gYWN0IGFzIHRoZSBhZG1pbi4KLy8KLy8gQHBhcmFtIHB1YmxpY0tleSBUaGUgeCBhbmQgeSBjb29yZGluYXRlcyBvZiB0aGUgcGFzc2tleSdzIHNlY3AyNTZyMSBwdWJsaWMga2V5CmFyYzU4X3NldEFkbWluUGFzc2tleToKCXByb3RvIDEgMAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTAzCgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTEwNQoJLy8gdGhpcy5zZXRBZG1pbihnbG9iYWxzLnplcm9BZGRyZXNzKQoJZ2xvYmFsIFplcm9BZGRyZXNzCgljYWxsc3ViIHNldEFkbWluCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExMDYKCS8vIHRoaXMuYWRtaW5LZXlUeXBlLnZhbHVlID0gQURNSU5fS0VZX1BBU1NLRVkKCWJ5dGUgMHg2Yjc0IC8vICJrdCIKCWludCAxCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTA3CgkvLyB0aGlzLmFkbWluS2V5LnZhbHVlID0gcmF3Qnl0ZXMocHVibGljS2V5KQoJYnl0ZSAweDYxNmIgLy8gImFrIgoJZnJhbWVfZGlnIC0xIC8vIHB1YmxpY0tleTogYnl0ZXM8NjQ+CglhcHBfZ2xvYmFsX3B1dAoJcmV0c3ViCgovLyBhcmM1OF9zZXRBZG1pbkV0aGVyZXVtQWRkcmVzcyhieXRlWzIwXSl2b2lkCiphYmlfcm91dGVfYXJjNThfc2V0QWRtaW5FdGhlcmV1bUFkZHJlc3M6CgkvLyBldGhlcmV1bUFkZHJlc3M6IGJ5dGVbMjBdCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglkdXAKCWxlbgoJaW50IDIwCgk9PQoJYXNzZXJ0CgoJLy8gZXhlY3V0ZSBhcmM1OF9zZXRBZG1pbkV0aGVyZXVtQWRkcmVzcyhieXRlWzIwXSl2b2lkCgljYWxsc3ViIGFyYzU4X3NldEFkbWluRXRoZXJldW1BZGRyZXNzCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9zZXRBZG1pbkV0aGVyZXVtQWRkcmVzcyhldGhlcmV1bUFkZHJlc3M6IGJ5dGVzPDIwPik6IHZvaWQKLy8KLy8gTWFrZSBhbiBFdGhlcmV1bSBrZXkgdGhlIGFkbWluLiBBZG1pbiBvcGVyYXRpb25zIG11c3QgdGhlbiBiZSBhdXRob3JpemVkIHdpdGggYXJjNThfYXV0aG9yaXplRXRoZXJldW1JbnRlbnQKLy8gYW5kIHRoZSBhZG1pbiBhZGRyZXNzIGJlY29tZXMgdGhlIGdsb2JhbCB6ZXJvIGFkZHJlc3MsIHNpbmNlIG5vIEFsZ29yYW5kIGFkZHJlc3MgY2FuIGFjdCBhcyB0aGUgYWRtaW4uCi8vCi8vIEBwYXJhbSBldGhlcmV1bUFkZHJlc3MgVGhlIDIwIGJ5dGUgYWRkcmVzcyBvZiB0aGUgRXRoZXJldW0ga2V5CmFyYzU4X3NldEFkbWluRXRoZXJldW1BZGRyZXNzOgoJcHJvdG8gMSAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExMTcKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTE5CgkvLyB0aGlzLnNldEFkbWluKGdsb2JhbHMuemVyb0FkZHJlc3MpCglnbG9iYWwgWmVyb0FkZHJlc3MKCWNhbGxzdWIgc2V0QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTEyMAoJLy8gdGhpcy5hZG1pbktleVR5cGUudmFsdWUgPSBBRE1JTl9LRVlfRVRIRVJFVU0KCWJ5dGUgMHg2Yjc0IC8vICJrdCIKCWludCAyCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTIxCgkvLyB0aGlzLmFkbWluS2V5LnZhbHVlID0gcmF3Qnl0ZXMoZXRoZXJldW1BZGRyZXNzKQoJYnl0ZSAweDYxNmIgLy8gImFrIgoJZnJhbWVfZGlnIC0xIC8vIGV0aGVyZXVtQWRkcmVzczogYnl0ZXM8MjA+CglhcHBfZ2xvYmFsX3B1dAoJcmV0c3ViCgovLyBhcmM1OF9hcHByb3ZlT3BlcmF0aW9uKGJ5dGVbMzJdLHBheSl2b2lkCiphYmlfcm91dGVfYXJjNThfYXBwcm92ZU9wZXJhdGlvbjoKCS8vIG1iclBheW1lbnQ6IHBheQoJdHhuIEdyb3VwSW5kZXgKCWludCAxCgktCglkdXAKCWd0eG5zIFR5cGVFbnVtCglpbnQgcGF5Cgk9PQoJYXNzZXJ0CgoJLy8gaGFzaDogYnl0ZVszMl0KCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBleGVjdXRlIGFyYzU4X2FwcHJvdmVPcGVyYXRpb24oYnl0ZVszMl0scGF5KXZvaWQKCWNhbGxzdWIgYXJjNThfYXBwcm92ZU9wZXJhdGlvbgoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfYXBwcm92ZU9wZXJhdGlvbihoYXNoOiBieXRlczMyLCBtYnJQYXltZW50OiBQYXlUeG4pOiB2b2lkCi8vCi8vIEFwcHJvdmUgYW4gYWRtaW4gb3BlcmF0aW9uLiBNdXN0IGJlIGNhbGxlZCBieSBhIHNpZ25lci4gT25jZSBlbm91Z2ggc2lnbmVycyBoYXZlIGFwcHJvdmVkLCBhbnlvbmUgY2FuCi8vIGNhbGwgdGhlIGFkbWluIG1ldGhvZCB3aXRoIHRoZSBhcHBsaWNhdGlvbiBhcmdzIHRoZSBoYXNoIHdhcyBjb21wdXRlZCBmcm9tLgovLyBUaGUgTUJSIG9mIHRoZSBhcHByb3ZhbHMgc3RheXMgd2l0aCB0aGUgYXBwIGFkZHJlc3Mgb25jZSB0aGUgb3BlcmF0aW9uIGlzIGV4ZWN1dGVkLgovLwovLyBAcGFyYW0gaGFzaCBUaGUgc2hhMjU2IGhhc2ggb2YgdGhlIGNvbmNhdGVuYXRlZCBhcHBsaWNhdGlvbiBhcmdzIG9mIHRoZSBhZG1pbiBtZXRob2QgY2FsbAovLyBAcGFyYW0gbWJyUGF5bWVudCBBIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVyaW5nIGV4YWN0bHkgdGhlIE1CUiBhZGRlZCBieSB0aGUgYXBwcm92YWwKYXJjNThfYXBwcm92ZU9wZXJhdGlvbjoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXBuIDIKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTEzMwoJLy8gYXNzZXJ0KHRoaXMuYWRtaW5TaWduZXJzKHRoaXMudHhuLnNlbmRlcikuZXhpc3RzKQoJYnl0ZSAweDZkIC8vICJtIgoJdHhuIFNlbmRlcgoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTM0CgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gKmlmMzNfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTEzNgoJLy8gIXRoaXMuYWRtaW5BcHByb3ZhbHMoaGFzaCkuZXhpc3RzCglieXRlIDB4NjggLy8gImgiCglmcmFtZV9kaWcgLTEgLy8gaGFzaDogYnl0ZXMzMgoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCSEKCWJ6ICppZjMzX2Vsc2UKCgkvLyAqaWYzM19jb25zZXF1ZW50CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTEzNwoJLy8gdGhpcy5hZG1pbkFwcHJvdmFscyhoYXNoKS52YWx1ZSA9IFt0aGlzLnR4bi5zZW5kZXJdCglieXRlIDB4NjggLy8gImgiCglmcmFtZV9kaWcgLTEgLy8gaGFzaDogYnl0ZXMzMgoJY29uY2F0CglkdXAKCWJveF9kZWwKCXBvcAoJdHhuIFNlbmRlcgoJZHVwCglsZW4KCWludCAzMgoJLwoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJYm94X3B1dAoJYiAqaWYzM19lbmQKCippZjMzX2Vsc2U6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTEzOQoJLy8gYXBwcm92YWxzID0gY2xvbmUodGhpcy5hZG1pbkFwcHJvdmFscyhoYXNoKS52YWx1ZSkKCWJ5dGUgMHg2OCAvLyAiaCIKCWZyYW1lX2RpZyAtMSAvLyBoYXNoOiBieXRlczMyCgljb25jYXQKCWludCAyCglpbnQgMAoJYm94X2V4dHJhY3QKCWZyYW1lX2J1cnkgMSAvLyBhcHByb3ZhbHM6IGFkZHJlc3NbXQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTQwCgkvLyBmb3IgKGxldCBpID0gMDsgaSA8IGFwcHJvdmFscy5sZW5ndGg7IGkgKz0gMSkKCWludCAwCglmcmFtZV9idXJ5IDIgLy8gaTogdWludDY0CgoqZm9yXzEyOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNDAKCS8vIGkgPCBhcHByb3ZhbHMubGVuZ3RoCglmcmFtZV9kaWcgMiAvLyBpOiB1aW50NjQKCWZyYW1lX2RpZyAxIC8vIGFwcHJvdmFsczogYWRkcmVzc1tdCglsZW4KCWludCAzMgoJLwoJPAoJYnogKmZvcl8xMl9lbmQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTE0MQoJLy8gYXNzZXJ0KGFwcHJvdmFsc1tpXSAhPT0gdGhpcy50eG4uc2VuZGVyKQoJZnJhbWVfZGlnIDEgLy8gYXBwcm92YWxzOiBhZGRyZXNzW10KCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMCAvLyBpbml0aWFsIG9mZnNldAoJZnJhbWVfZGlnIDIgLy8gaTogdWludDY0CglpbnQgMzIKCSogLy8gYWNjICogdHlwZUxlbmd0aAoJKwoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJaW50IDMyCglleHRyYWN0MwoJdHhuIFNlbmRlcgoJIT0KCWFzc2VydAoKKmZvcl8xMl9jb250aW51ZToKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTQwCgkvLyBpICs9IDEKCWZyYW1lX2RpZyAyIC8vIGk6IHVpbnQ2NAoJaW50IDEKCSsKCWZyYW1lX2J1cnkgMiAvLyBpOiB1aW50NjQKCWIgKmZvcl8xMgoKKmZvcl8xMl9lbmQ6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTE0NAoJLy8gYXBwcm92YWxzLnB1c2godGhpcy50eG4uc2VuZGVyKQoJZnJhbWVfZGlnIDEgLy8gYXBwcm92YWxzOiBhZGRyZXNzW10KCXR4biBTZW5kZXIKCWNvbmNhdAoJZnJhbWVfYnVyeSAxIC8vIGFwcHJvdmFsczogYWRkcmVzc1tdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNDUKCS8vIHRoaXMuYWRtaW5BcHByb3ZhbHMoaGFzaCkudmFsdWUgPSBhcHByb3ZhbHMKCWJ5dGUgMHg2OCAvLyAiaCIKCWZyYW1lX2RpZyAtMSAvLyBoYXNoOiBieXRlczMyCgljb25jYXQKCWR1cAoJYm94X2RlbAoJcG9wCglmcmFtZV9kaWcgMSAvLyBhcHByb3ZhbHM6IGFkZHJlc3NbXQoJZHVwCglsZW4KCWludCAzMgoJLwoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJYm94X3B1dAoKKmlmMzNfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNDgKCS8vIHRoaXMudmVyaWZ5TWJyUGF5bWVudChtYnJQYXltZW50LCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC0yIC8vIG1iclBheW1lbnQ6IFBheVR4bgoJY2FsbHN1YiB2ZXJpZnlNYnJQYXltZW50CglyZXRzdWIKCi8vIGFyYzU4X3Jldm9rZUFwcHJvdmFsKGJ5dGVbMzJdLGFkZHJlc3Mpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3Jldm9rZUFwcHJvdmFsOgoJLy8gbWJyUmVjZWl2ZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBoYXNoOiBieXRlWzMyXQoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGV4ZWN1dGUgYXJjNThfcmV2b2tlQXBwcm92YWwoYnl0ZVszMl0sYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X3Jldm9rZUFwcHJvdmFsCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9yZXZva2VBcHByb3ZhbChoYXNoOiBieXRlczMyLCBtYnJSZWNlaXZlcjogQWRkcmVzcyk6IHZvaWQKLy8KLy8gUmV2b2tlIGFuIGFwcHJvdmFsIG9mIGFuIGFkbWluIG9wZXJhdGlvbiB0aGF0IGhhcyBub3QgYmVlbiBleGVjdXRlZCB5ZXQKLy8KLy8gQHBhcmFtIGhhc2ggVGhlIGhhc2ggb2YgdGhlIG9wZXJhdGlvbgovLyBAcGFyYW0gbWJyUmVjZWl2ZXIgVGhlIGFkZHJlc3MgdG8gc2VuZCB0aGUgTUJSIGZyZWVkIGJ5IHJlbW92aW5nIHRoZSBhcHByb3ZhbCB0bwphcmM1OF9yZXZva2VBcHByb3ZhbDoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXBuIDIKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTE1OAoJLy8gcHJlTUJSID0gdGhpcy5hcHAuYWRkcmVzcy5taW5CYWxhbmNlCglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCglwb3AKCWZyYW1lX2J1cnkgMCAvLyBwcmVNQlI6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTU5CgkvLyBhcHByb3ZhbHMgPSBjbG9uZSh0aGlzLmFkbWluQXBwcm92YWxzKGhhc2gpLnZhbHVlKQoJYnl0ZSAweDY4IC8vICJoIgoJZnJhbWVfZGlnIC0xIC8vIGhhc2g6IGJ5dGVzMzIKCWNvbmNhdAoJaW50IDIKCWludCAwCglib3hfZXh0cmFjdAoJZnJhbWVfYnVyeSAxIC8vIGFwcHJvdmFsczogYWRkcmVzc1tdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNjEKCS8vIGZvciAobGV0IGkgPSAwOyBpIDwgYXBwcm92YWxzLmxlbmd0aDsgaSArPSAxKQoJaW50IDAKCWZyYW1lX2J1cnkgMiAvLyBpOiB1aW50NjQKCipmb3JfMTM6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTE2MQoJLy8gaSA8IGFwcHJvdmFscy5sZW5ndGgKCWZyYW1lX2RpZyAyIC8vIGk6IHVpbnQ2NAoJZnJhbWVfZGlnIDEgLy8gYXBwcm92YWxzOiBhZGRyZXNzW10KCWxlbgoJaW50IDMyCgkvCgk8CglieiAqZm9yXzEzX2VuZAoKCS8vICppZjM0X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNjIKCS8vIGFwcHJvdmFsc1tpXSA9PT0gdGhpcy50eG4uc2VuZGVyCglmcmFtZV9kaWcgMSAvLyBhcHByb3ZhbHM6IGFkZHJlc3NbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMiAvLyBpOiB1aW50NjQKCWludCAzMgoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglpbnQgMzIKCWV4dHJhY3QzCgl0eG4gU2VuZGVyCgk9PQoJYnogKmlmMzRfZW5kCgoJLy8gKmlmMzRfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNjMKCS8vIGFwcHJvdmFscy5zcGxpY2UoaSwgMSkKCWZyYW1lX2RpZyAxIC8vIGFwcHJvdmFsczogYWRkcmVzc1tdCglpbnQgMQoJZnJhbWVfZGlnIDIgLy8gaTogdWludDY0CglpbnQgMzIKCSoKCXN0b3JlIDI0NyAvLyBzcGxpY2Ugc3RhcnQKCWludCA2NAoJc3RvcmUgMjQ2IC8vIHNwbGljZSBieXRlIGxlbmd0aAoJZnJhbWVfZGlnIDEgLy8gYXBwcm92YWxzOiBhZGRyZXNzW10KCWludCAwCglsb2FkIDI0NyAvLyBzcGxpY2Ugc3RhcnQKCXN1YnN0cmluZzMKCWZyYW1lX2RpZyAxIC8vIGFwcHJvdmFsczogYWRkcmVzc1tdCglkdXAKCWxlbgoJbG9hZCAyNDcgLy8gc3BsaWNlIHN0YXJ0Cglsb2FkIDI0NiAvLyBzcGxpY2UgYnl0ZSBsZW5ndGgKCSsKCWludCAzMgoJLQoJc3dhcAoJc3Vic3RyaW5nMwoJY29uY2F0CglmcmFtZV9kaWcgMSAvLyBhcHByb3ZhbHM6IGFkZHJlc3NbXQoJbG9hZCAyNDcgLy8gc3BsaWNlIHN0YXJ0Cglsb2FkIDI0NiAvLyBzcGxpY2UgYnl0ZSBsZW5ndGgKCWludCAzMgoJLQoJZXh0cmFjdDMKCXN3YXAKCWZyYW1lX2J1cnkgMSAvLyBhcHByb3ZhbHM6IGFkZHJlc3NbXQoKCS8vICppZjM1X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNjUKCS8vIGFwcHJvdmFscy5sZW5ndGggPT09IDAKCWZyYW1lX2RpZyAxIC8vIGFwcHJvdmFsczogYWRkcmVzc1tdCglsZW4KCWludCAzMgoJLwoJaW50IDAKCT09CglieiAqaWYzNV9lbHNlCgoJLy8gKmlmMzVfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNjYKCS8vIHRoaXMuYWRtaW5BcHByb3ZhbHMoaGFzaCkuZGVsZXRlKCkKCWJ5dGUgMHg2OCAvLyAiaCIKCWZyYW1lX2RpZyAtMSAvLyBoYXNoOiBieXRlczMyCgljb25jYXQKCWJveF9kZWwKCWIgKmlmMzVfZW5kCgoqaWYzNV9lbHNlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNjgKCS8vIHRoaXMuYWRtaW5BcHByb3ZhbHMoaGFzaCkudmFsdWUgPSBhcHByb3ZhbHMKCWJ5dGUgMHg2OCAvLyAiaCIKCWZyYW1lX2RpZyAtMSAvLyBoYXNoOiBieXRlczMyCgljb25jYXQKCWR1cAoJYm94X2RlbAoJcG9wCglmcmFtZV9kaWcgMSAvLyBhcHByb3ZhbHM6IGFkZHJlc3NbXQoJZHVwCglsZW4KCWludCAzMgoJLwoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJYm94X3B1dAoKKmlmMzVfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNzEKCS8vIHRoaXMucmVmdW5kTWJyKG1iclJlY2VpdmVyLCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC0yIC8vIG1iclJlY2VpdmVyOiBBZGRyZXNzCgljYWxsc3ViIHJlZnVuZE1icgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTcyCgkvLyByZXR1cm47CglyZXRzdWIKCippZjM0X2VuZDoKCipmb3JfMTNfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTE2MQoJLy8gaSArPSAxCglmcmFtZV9kaWcgMiAvLyBpOiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDIgLy8gaTogdWludDY0CgliICpmb3JfMTMKCipmb3JfMTNfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExNzYKCS8vIGFzc2VydChmYWxzZSkKCWludCAwCglhc3NlcnQKCXJldHN1YgoKLy8gYXJjNThfY2hhbmdlQWRtaW4oYWRkcmVzcyx1aW50NjQpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X2NoYW5nZUFkbWluOgoJLy8gZGVsYXk6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJYnRvaQoKCS8vIG5ld0FkbWluOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gZXhlY3V0ZSBhcmM1OF9jaGFuZ2VBZG1pbihhZGRyZXNzLHVpbnQ2NCl2b2lkCgljYWxsc3ViIGFyYzU4X2NoYW5nZUFkbWluCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9jaGFuZ2VBZG1pbihuZXdBZG1pbjogQWRkcmVzcywgZGVsYXk6IHVpbnQ2NCk6IHZvaWQKLy8KLy8gQXR0ZW1wdCB0byBjaGFuZ2UgdGhlIGFkbWluIGZvciB0aGlzIGFwcC4gU29tZSBpbXBsZW1lbnRhdGlvbnMgTUFZIG5vdCBzdXBwb3J0IHRoaXMuCi8vIFRoZSBhZG1pbiBvbmx5IGNoYW5nZXMgb25jZSB0aGUgbmV3IGFkbWluIGNhbGxzIGFyYzU4X2FjY2VwdEFkbWluLCB3aGljaCBlbnN1cmVzIHRoZSBuZXcgYWRtaW4gaXMgYW4gYWRkcmVzcwovLyBzb21lb25lIGNvbnRyb2xzLiBSZXBsYWNlcyBhbnkgcGVuZGluZyBhZG1pbiBjaGFuZ2UuCi8vCi8vIEBwYXJhbSBuZXdBZG1pbiBUaGUgbmV3IGFkbWluCi8vIEBwYXJhbSBkZWxheSBUaGUgbnVtYmVyIG9mIHNlY29uZHMgdGhhdCBtdXN0IHBhc3MgYmVmb3JlIHRoZSBuZXcgYWRtaW4gY2FuIGFjY2VwdAphcmM1OF9jaGFuZ2VBZG1pbjoKCXByb3RvIDIgMAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTg4CgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTE4OQoJLy8gYXNzZXJ0KG5ld0FkbWluICE9PSB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlKQoJZnJhbWVfZGlnIC0xIC8vIG5ld0FkbWluOiBBZGRyZXNzCglieXRlIDB4NjMgLy8gImMiCglhcHBfZ2xvYmFsX2dldAoJIT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTkxCgkvLyB0aGlzLnBlbmRpbmdBZG1pbi52YWx1ZSA9IG5ld0FkbWluCglieXRlIDB4NzA2MSAvLyAicGEiCglmcmFtZV9kaWcgLTEgLy8gbmV3QWRtaW46IEFkZHJlc3MKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjExOTIKCS8vIHRoaXMucGVuZGluZ0FkbWluUmVhZHlBdC52YWx1ZSA9IGdsb2JhbHMubGF0ZXN0VGltZXN0YW1wICsgZGVsYXkKCWJ5dGUgMHg3MDcyIC8vICJwciIKCWdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKCWZyYW1lX2RpZyAtMiAvLyBkZWxheTogdWludDY0CgkrCglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMTk0CgkvLyB0aGlzLmFkbWluQ2hhbmdlU3RhcnRlZC5sb2coeyBuZXdBZG1pbjogbmV3QWRtaW4sIHJlYWR5QXQ6IHRoaXMucGVuZGluZ0FkbWluUmVhZHlBdC52YWx1ZSB9KQoJYnl0ZSAweGQzOGMwNThmIC8vIGFkbWluQ2hhbmdlU3RhcnRlZChhZGRyZXNzLHVpbnQ2NCkKCWZyYW1lX2RpZyAtMSAvLyBuZXdBZG1pbjogQWRkcmVzcwoJYnl0ZSAweDcwNzIgLy8gInByIgoJYXBwX2dsb2JhbF9nZXQKCWl0b2IKCWNvbmNhdAoJY29uY2F0Cglsb2cKCXJldHN1YgoKLy8gYXJjNThfYWNjZXB0QWRtaW4oKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9hY2NlcHRBZG1pbjoKCS8vIGV4ZWN1dGUgYXJjNThfYWNjZXB0QWRtaW4oKXZvaWQKCWNhbGxzdWIgYXJjNThfYWNjZXB0QWRtaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2FjY2VwdEFkbWluKCk6IHZvaWQKLy8KLy8gQWNjZXB0IGJlY29taW5nIHRoZSBhZG1pbiBvZiB0aGlzIGFwcC4gTXVzdCBiZSBjYWxsZWQgYnkgdGhlIHBlbmRpbmcgYWRtaW4gb25jZSB0aGUgZGVsYXkgaGFzIHBhc3NlZC4KYXJjNThfYWNjZXB0QWRtaW46Cglwcm90byAwIDAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTIwMQoJLy8gdmVyaWZ5VHhuKHRoaXMudHhuLCB7IHNlbmRlcjogdGhpcy5wZW5kaW5nQWRtaW4udmFsdWUgfSkKCS8vIHZlcmlmeSBzZW5kZXIKCXR4biBTZW5kZXIKCWJ5dGUgMHg3MDYxIC8vICJwYSIKCWFwcF9nbG9iYWxfZ2V0Cgk9PQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyMDIKCS8vIGFzc2VydChnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCA+PSB0aGlzLnBlbmRpbmdBZG1pblJlYWR5QXQudmFsdWUpCglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCglieXRlIDB4NzA3MiAvLyAicHIiCglhcHBfZ2xvYmFsX2dldAoJPj0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMjA0CgkvLyB0aGlzLnNldEFkbWluKHRoaXMucGVuZGluZ0FkbWluLnZhbHVlKQoJYnl0ZSAweDcwNjEgLy8gInBhIgoJYXBwX2dsb2JhbF9nZXQKCWNhbGxzdWIgc2V0QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTIwNQoJLy8gdGhpcy5wZW5kaW5nQWRtaW4uZGVsZXRlKCkKCWJ5dGUgMHg3MDYxIC8vICJwYSIKCWFwcF9nbG9iYWxfZGVsCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyMDYKCS8vIHRoaXMucGVuZGluZ0FkbWluUmVhZHlBdC5kZWxldGUoKQoJYnl0ZSAweDcwNzIgLy8gInByIgoJYXBwX2dsb2JhbF9kZWwKCXJldHN1YgoKLy8gYXJjNThfY2FuY2VsQWRtaW5DaGFuZ2UoKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9jYW5jZWxBZG1pbkNoYW5nZToKCS8vIGV4ZWN1dGUgYXJjNThfY2FuY2VsQWRtaW5DaGFuZ2UoKXZvaWQKCWNhbGxzdWIgYXJjNThfY2FuY2VsQWRtaW5DaGFuZ2UKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2NhbmNlbEFkbWluQ2hhbmdlKCk6IHZvaWQKLy8KLy8gQ2FuY2VsIHRoZSBwZW5kaW5nIGFkbWluIGNoYW5nZQphcmM1OF9jYW5jZWxBZG1pbkNoYW5nZToKCXByb3RvIDAgMAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMjEzCgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTIxNQoJLy8gdGhpcy5wZW5kaW5nQWRtaW4uZGVsZXRlKCkKCWJ5dGUgMHg3MDYxIC8vICJwYSIKCWFwcF9nbG9iYWxfZGVsCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyMTYKCS8vIHRoaXMucGVuZGluZ0FkbWluUmVhZHlBdC5kZWxldGUoKQoJYnl0ZSAweDcwNzIgLy8gInByIgoJYXBwX2dsb2JhbF9kZWwKCXJldHN1YgoKLy8gYXJjNThfZ2V0QWRtaW4oKWFkZHJlc3MKKmFiaV9yb3V0ZV9hcmM1OF9nZXRBZG1pbjoKCS8vIFRoZSBBQkkgcmV0dXJuIHByZWZpeAoJYnl0ZSAweDE1MWY3Yzc1CgoJLy8gZXhlY3V0ZSBhcmM1OF9nZXRBZG1pbigpYWRkcmVzcwoJY2FsbHN1YiBhcmM1OF9nZXRBZG1pbgoJY29uY2F0Cglsb2cKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2dldEFkbWluKCk6IEFkZHJlc3MKLy8KLy8gR2V0IHRoZSBhZG1pbiBvZiB0aGlzIGFwcC4gVGhpcyBtZXRob2QgU0hPVUxEIGFsd2F5cyBiZSB1c2VkIHJhdGhlciB0aGFuIHJlYWRpbmcgZGlyZWN0bHkgZnJvbSBzdGF0ZQovLyBiZWNhdXNlIGRpZmZlcmVudCBpbXBsZW1lbnRhdGlvbnMgbWF5IGhhdmUgZGlmZmVyZW50IHdheXMgb2YgZGV0ZXJtaW5pbmcgdGhlIGFkbWluLgphcmM1OF9nZXRBZG1pbjoKCXByb3RvIDAgMQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMjI0CgkvLyByZXR1cm4gdGhpcy5hZG1pbi52YWx1ZTsKCWJ5dGUgMHg2MSAvLyAiYSIKCWFwcF9nbG9iYWxfZ2V0CglyZXRzdWIKCi8vIGFyYzU4X2dldFBsdWdpbkluZm8odWludDY0LGFkZHJlc3MpKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKKmFiaV9yb3V0ZV9hcmM1OF9nZXRQbHVnaW5JbmZvOgoJLy8gVGhlIEFCSSByZXR1cm4gcHJlZml4CglieXRlIDB4MTUxZjdjNzUKCgkvLyBhbGxvd2VkQ2FsbGVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAyCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gYXBwOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X2dldFBsdWdpbkluZm8odWludDY0LGFkZHJlc3MpKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCWNhbGxzdWIgYXJjNThfZ2V0UGx1Z2luSW5mbwoJY29uY2F0Cglsb2cKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2dldFBsdWdpbkluZm8oYXBwOiBBcHBJRCwgYWxsb3dlZENhbGxlcjogQWRkcmVzcyk6IFBsdWdpbkluZm8KLy8KLy8gR2V0IHRoZSBwZXJtaXNzaW9uIGRhdGEgb2YgYSBwbHVnaW4KLy8KLy8gQHBhcmFtIGFwcCBUaGUgcGx1Z2luIGFwcAovLyBAcGFyYW0gYWxsb3dlZENhbGxlciBUaGUgYWRkcmVzcyB0aGF0J3MgYWxsb3dlZCB0byBjYWxsIHRoZSBhcHAKLy8gb3IgdGhlIGdsb2JhbCB6ZXJvIGFkZHJlc3MgZm9yIGFsbCBhZGRyZXNzZXMKYXJjNThfZ2V0UGx1Z2luSW5mbzoKCXByb3RvIDIgMQoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyMzYKCS8vIGtleTogUGx1Z2luc0tleSA9IHsgYXBwbGljYXRpb246IGFwcCwgYWxsb3dlZENhbGxlcjogYWxsb3dlZENhbGxlciB9CglmcmFtZV9kaWcgLTEgLy8gYXBwOiBBcHBJRAoJaXRvYgoJZnJhbWVfZGlnIC0yIC8vIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MKCWNvbmNhdAoJZnJhbWVfYnVyeSAwIC8vIGtleTogUGx1Z2luc0tleQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMjM3CgkvLyByZXR1cm4gdGhpcy5wbHVnaW5zKGtleSkudmFsdWU7CglieXRlIDB4NzAgLy8gInAiCglmcmFtZV9kaWcgMCAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJYm94X2dldAoJYXNzZXJ0CgoJLy8gc2V0IHRoZSBzdWJyb3V0aW5lIHJldHVybiB2YWx1ZQoJZnJhbWVfYnVyeSAwCglyZXRzdWIKCi8vIGFyYzU4X2dldE5hbWVkUGx1Z2luKHN0cmluZykoKHVpbnQ2NCxhZGRyZXNzKSwodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKSkKKmFiaV9yb3V0ZV9hcmM1OF9nZXROYW1lZFBsdWdpbjoKCS8vIFRoZSBBQkkgcmV0dXJuIHByZWZpeAoJYnl0ZSAweDE1MWY3Yzc1CgoJLy8gbmFtZTogc3RyaW5nCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglleHRyYWN0IDIgMAoKCS8vIGV4ZWN1dGUgYXJjNThfZ2V0TmFtZWRQbHVnaW4oc3RyaW5nKSgodWludDY0LGFkZHJlc3MpLCh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pKQoJY2FsbHN1YiBhcmM1OF9nZXROYW1lZFBsdWdpbgoJY29uY2F0Cglsb2cKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2dldE5hbWVkUGx1Z2luKG5hbWU6IHN0cmluZyk6IE5hbWVkUGx1Z2luSW5mbwovLwovLyBHZXQgdGhlIHBsdWdpbiBwZXJtaXNzaW9uIGEgbmFtZSByZWZlcnMgdG8gYW5kIGl0cyBwZXJtaXNzaW9uIGRhdGEKLy8KLy8gQHBhcmFtIG5hbWUgVGhlIHBsdWdpbiBuYW1lCmFyYzU4X2dldE5hbWVkUGx1Z2luOgoJcHJvdG8gMSAxCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI0NwoJLy8ga2V5ID0gdGhpcy5uYW1lZFBsdWdpbnMobmFtZSkudmFsdWUKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWNvbmNhdAoJZnJhbWVfYnVyeSAwIC8vIHN0b3JhZ2Uga2V5Ly9rZXkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI0OAoJLy8gcmV0dXJuIHsga2V5OiBrZXksIGluZm86IHRoaXMucGx1Z2lucyhrZXkpLnZhbHVlIH07CglieXRlIDB4IC8vIGluaXRpYWwgaGVhZAoJYnl0ZSAweCAvLyBpbml0aWFsIHRhaWwKCWJ5dGUgMHgwMDJhIC8vIGluaXRpYWwgaGVhZCBvZmZzZXQKCWZyYW1lX2RpZyAwIC8vIHN0b3JhZ2Uga2V5Ly9rZXkKCWJveF9nZXQKCWFzc2VydAoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIDAgLy8gc3RvcmFnZSBrZXkvL2tleQoJYm94X2dldAoJYXNzZXJ0Cgljb25jYXQKCWJveF9nZXQKCWFzc2VydAoJY2FsbHN1YiAqcHJvY2Vzc19keW5hbWljX3R1cGxlX2VsZW1lbnQKCXBvcCAvLyBwb3AgaGVhZCBvZmZzZXQKCWNvbmNhdCAvLyBjb25jYXQgaGVhZCBhbmQgdGFpbAoKCS8vIHNldCB0aGUgc3Vicm91dGluZSByZXR1cm4gdmFsdWUKCWZyYW1lX2J1cnkgMAoJcmV0c3ViCgovLyBhcmM1OF9jYW5DYWxsUGx1Z2luKHVpbnQ2NCxhZGRyZXNzKWJvb2wKKmFiaV9yb3V0ZV9hcmM1OF9jYW5DYWxsUGx1Z2luOgoJLy8gVGhlIEFCSSByZXR1cm4gcHJlZml4CglieXRlIDB4MTUxZjdjNzUKCgkvLyBjYWxsZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBhcHA6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJYnRvaQoKCS8vIGV4ZWN1dGUgYXJjNThfY2FuQ2FsbFBsdWdpbih1aW50NjQsYWRkcmVzcylib29sCgljYWxsc3ViIGFyYzU4X2NhbkNhbGxQbHVnaW4KCWJ5dGUgMHgwMAoJaW50IDAKCXVuY292ZXIgMgoJc2V0Yml0Cgljb25jYXQKCWxvZwoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfY2FuQ2FsbFBsdWdpbihhcHA6IEFwcElELCBjYWxsZXI6IEFkZHJlc3MpOiBib29sZWFuCi8vCi8vIFdoZXRoZXIgdGhlIGdpdmVuIGFkZHJlc3MgY2FuIGN1cnJlbnRseSByZWtleSB0aGUgYWJzdHJhY3RlZCBhY2NvdW50IHRvIHRoZSBwbHVnaW4KLy8gdmlhIGFyYzU4X3Jla2V5VG9QbHVnaW4uIFNwZW5kaW5nIGxpbWl0cyBhcmUgbm90IGNoZWNrZWQgc2luY2UgdGhleSBkZXBlbmQgb24gd2hhdCB0aGUgcGx1Z2luIGRvZXMuCi8vCi8vIEBwYXJhbSBhcHAgVGhlIHBsdWdpbiBhcHAKLy8gQHBhcmFtIGNhbGxlciBUaGUgYWRkcmVzcyB0aGF0IHdvdWxkIGNhbGwgYXJjNThfcmVrZXlUb1BsdWdpbgphcmM1OF9jYW5DYWxsUGx1Z2luOgoJcHJvdG8gMiAxCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyNjAKCS8vIHJldHVybiB0aGlzLnBsdWdpbklzVXNhYmxlKHRoaXMuZ2V0UGx1Z2luS2V5KGFwcCwgY2FsbGVyKSwgY2FsbGVyKTsKCWZyYW1lX2RpZyAtMiAvLyBjYWxsZXI6IEFkZHJlc3MKCWZyYW1lX2RpZyAtMiAvLyBjYWxsZXI6IEFkZHJlc3MKCWZyYW1lX2RpZyAtMSAvLyBhcHA6IEFwcElECgljYWxsc3ViIGdldFBsdWdpbktleQoJY2FsbHN1YiBwbHVnaW5Jc1VzYWJsZQoJcmV0c3ViCgovLyBhcmM1OF92ZXJpZnlBdXRoQWRkcigpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3ZlcmlmeUF1dGhBZGRyOgoJLy8gZXhlY3V0ZSBhcmM1OF92ZXJpZnlBdXRoQWRkcigpdm9pZAoJY2FsbHN1YiBhcmM1OF92ZXJpZnlBdXRoQWRkcgoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfdmVyaWZ5QXV0aEFkZHIoKTogdm9pZAovLwovLyBWZXJpZnkgdGhlIGFic3RyYWN0ZWQgYWNjb3VudCBpcyByZWtleWVkIHRvIHRoaXMgYXBwCmFyYzU4X3ZlcmlmeUF1dGhBZGRyOgoJcHJvdG8gMCAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyNjcKCS8vIGFzc2VydCh0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlLmF1dGhBZGRyID09PSB0aGlzLmdldEF1dGhBZGRyKCkpCglieXRlIDB4NjMgLy8gImMiCglhcHBfZ2xvYmFsX2dldAoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RBdXRoQWRkcgoJcG9wCgljYWxsc3ViIGdldEF1dGhBZGRyCgk9PQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyNjgKCS8vIHRoaXMuc2V0dGxlQWN0aXZlUGx1Z2luKCkKCWNhbGxzdWIgc2V0dGxlQWN0aXZlUGx1Z2luCglyZXRzdWIKCi8vIGFyYzU4X3Jla2V5VG8oYWRkcmVzcyxib29sKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9yZWtleVRvOgoJLy8gZmxhc2g6IGJvb2wKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMQoJPT0KCWFzc2VydAoJaW50IDAKCWdldGJpdAoKCS8vIGFkZHI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBleGVjdXRlIGFyYzU4X3Jla2V5VG8oYWRkcmVzcyxib29sKXZvaWQKCWNhbGxzdWIgYXJjNThfcmVrZXlUbwoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmVrZXlUbyhhZGRyOiBBZGRyZXNzLCBmbGFzaDogYm9vbGVhbik6IHZvaWQKLy8KLy8gUmVrZXkgdGhlIGFic3RyYWN0ZWQgYWNjb3VudCB0byBhbm90aGVyIGFkZHJlc3MuIFByaW1hcmlseSB1c2VmdWwgZm9yIHJla2V5aW5nIHRvIGFuIEVPQS4KLy8gVGhpcyBpcyBub3Qgc3ViamVjdCB0byB0aGUgcGx1Z2luIGRlbGF5LCBzbyB0aGUgYWRtaW4ga2V5IGNhbiBoYW5kIG92ZXIgdGhlIGFjY291bnQgaW1tZWRpYXRlbHkuCi8vCi8vIEBwYXJhbSBhZGRyIFRoZSBhZGRyZXNzIHRvIHJla2V5IHRvCi8vIEBwYXJhbSBmbGFzaCBXaGV0aGVyIG9yIG5vdCB0aGlzIHNob3VsZCBiZSBhIGZsYXNoIHJla2V5LiBJZiB0cnVlLCB0aGUgcmVrZXkgYmFjayB0byB0aGUgYXBwIGFkZHJlc3MgbXVzdCBkb25lIGluIHRoZSBzYW1lIHR4biBncm91cCBhcyB0aGlzIGNhbGwKYXJjNThfcmVrZXlUbzoKCXByb3RvIDIgMAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMjc5CgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI4MQoJLy8gc2VuZFBheW1lbnQoewoJLy8gICAgICAgc2VuZGVyOiB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlLAoJLy8gICAgICAgcmVjZWl2ZXI6IGFkZHIsCgkvLyAgICAgICByZWtleVRvOiBhZGRyLAoJLy8gICAgICAgbm90ZTogJ3Jla2V5aW5nIGFic3RyYWN0ZWQgYWNjb3VudCcsCgkvLyAgICAgfSkKCWl0eG5fYmVnaW4KCWludCBwYXkKCWl0eG5fZmllbGQgVHlwZUVudW0KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI4MgoJLy8gc2VuZGVyOiB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlCglieXRlIDB4NjMgLy8gImMiCglhcHBfZ2xvYmFsX2dldAoJaXR4bl9maWVsZCBTZW5kZXIKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI4MwoJLy8gcmVjZWl2ZXI6IGFkZHIKCWZyYW1lX2RpZyAtMSAvLyBhZGRyOiBBZGRyZXNzCglpdHhuX2ZpZWxkIFJlY2VpdmVyCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyODQKCS8vIHJla2V5VG86IGFkZHIKCWZyYW1lX2RpZyAtMSAvLyBhZGRyOiBBZGRyZXNzCglpdHhuX2ZpZWxkIFJla2V5VG8KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI4NQoJLy8gbm90ZTogJ3Jla2V5aW5nIGFic3RyYWN0ZWQgYWNjb3VudCcKCWJ5dGUgMHg3MjY1NmI2NTc5Njk2ZTY3MjA2MTYyNzM3NDcyNjE2Mzc0NjU2NDIwNjE2MzYzNmY3NTZlNzQgLy8gInJla2V5aW5nIGFic3RyYWN0ZWQgYWNjb3VudCIKCWl0eG5fZmllbGQgTm90ZQoKCS8vIEZlZSBmaWVsZCBub3Qgc2V0LCBkZWZhdWx0aW5nIHRvIDAKCWludCAwCglpdHhuX2ZpZWxkIEZlZQoKCS8vIFN1Ym1pdCBpbm5lciB0cmFuc2FjdGlvbgoJaXR4bl9zdWJtaXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI4OAoJLy8gdGhpcy5yZWtleWVkLmxvZyh7IGFkZHI6IGFkZHIsIGZsYXNoOiBmbGFzaCB9KQoJYnl0ZSAweGMxOTlmZTFmIC8vIHJla2V5ZWQoYWRkcmVzcyxib29sKQoJZnJhbWVfZGlnIC0xIC8vIGFkZHI6IEFkZHJlc3MKCWJ5dGUgMHgwMAoJaW50IDAKCWZyYW1lX2RpZyAtMiAvLyBmbGFzaDogYm9vbGVhbgoJc2V0Yml0Cgljb25jYXQKCWNvbmNhdAoJbG9nCgoJLy8gKmlmMzZfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTI5MAoJLy8gZmxhc2gKCWZyYW1lX2RpZyAtMiAvLyBmbGFzaDogYm9vbGVhbgoJYnogKmlmMzZfZW5kCgoJLy8gKmlmMzZfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEyOTAKCS8vIHRoaXMudmVyaWZ5UmVrZXlUb0Fic3RyYWN0ZWRBY2NvdW50KGZhbHNlKQoJaW50IDAKCWNhbGxzdWIgdmVyaWZ5UmVrZXlUb0Fic3RyYWN0ZWRBY2NvdW50CgoqaWYzNl9lbmQ6CglyZXRzdWIKCi8vIGFyYzU4X3Jla2V5VG9QbHVnaW4odWludDY0KXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9yZWtleVRvUGx1Z2luOgoJLy8gcGx1Z2luOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X3Jla2V5VG9QbHVnaW4odWludDY0KXZvaWQKCWNhbGxzdWIgYXJjNThfcmVrZXlUb1BsdWdpbgoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmVrZXlUb1BsdWdpbihwbHVnaW46IEFwcElEKTogdm9pZAovLwovLyBUZW1wb3JhcmlseSByZWtleSB0byBhbiBhcHByb3ZlZCBwbHVnaW4gYXBwIGFkZHJlc3MuCi8vIFNldmVyYWwgcGx1Z2lucyBjYW4gYmUgdXNlZCBpbiBvbmUgZ3JvdXAgYnkgY2FsbGluZyB0aGlzIGJlZm9yZSBlYWNoIG9mIHRoZW0sIHdpdGggb25lIGFyYzU4X3ZlcmlmeUF1dGhBZGRyIGF0IHRoZSBlbmQuCi8vCi8vIEBwYXJhbSBwbHVnaW4gVGhlIGFwcCB0byByZWtleSB0bwphcmM1OF9yZWtleVRvUGx1Z2luOgoJcHJvdG8gMSAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzMDEKCS8vIHRoaXMucmVrZXlUb1BsdWdpbihwbHVnaW4sIHRoaXMuZ2V0UGx1Z2luS2V5KHBsdWdpbiwgdGhpcy50eG4uc2VuZGVyKSkKCXR4biBTZW5kZXIKCWZyYW1lX2RpZyAtMSAvLyBwbHVnaW46IEFwcElECgljYWxsc3ViIGdldFBsdWdpbktleQoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWNhbGxzdWIgcmVrZXlUb1BsdWdpbgoJcmV0c3ViCgovLyBhcmM1OF9yZWtleVRvUGx1Z2luQXNTZXRNZW1iZXIodWludDY0LHN0cmluZyl2b2lkCiphYmlfcm91dGVfYXJjNThfcmVrZXlUb1BsdWdpbkFzU2V0TWVtYmVyOgoJLy8gY2FsbGVyU2V0OiBzdHJpbmcKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWV4dHJhY3QgMiAwCgoJLy8gcGx1Z2luOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X3Jla2V5VG9QbHVnaW5Bc1NldE1lbWJlcih1aW50NjQsc3RyaW5nKXZvaWQKCWNhbGxzdWIgYXJjNThfcmVrZXlUb1BsdWdpbkFzU2V0TWVtYmVyCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9yZWtleVRvUGx1Z2luQXNTZXRNZW1iZXIocGx1Z2luOiBBcHBJRCwgY2FsbGVyU2V0OiBzdHJpbmcpOiB2b2lkCi8vCi8vIFRlbXBvcmFyaWx5IHJla2V5IHRvIGEgcGx1Z2luIGFwcCBhZGRyZXNzIHRoYXQgaGFzIGJlZW4gYXBwcm92ZWQgZm9yIGEgY2FsbGVyIHNldCB0aGUgc2VuZGVyIGlzIGEgbWVtYmVyIG9mCi8vCi8vIEBwYXJhbSBwbHVnaW4gVGhlIGFwcCB0byByZWtleSB0bwovLyBAcGFyYW0gY2FsbGVyU2V0IFRoZSBuYW1lIG9mIHRoZSBjYWxsZXIgc2V0CmFyYzU4X3Jla2V5VG9QbHVnaW5Bc1NldE1lbWJlcjoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzMTEKCS8vIHNldEFkZHJlc3MgPSB0aGlzLmdldENhbGxlclNldEFkZHJlc3MoY2FsbGVyU2V0KQoJZnJhbWVfZGlnIC0yIC8vIGNhbGxlclNldDogc3RyaW5nCgljYWxsc3ViIGdldENhbGxlclNldEFkZHJlc3MKCWZyYW1lX2J1cnkgMCAvLyBzZXRBZGRyZXNzOiBhZGRyZXNzCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzMTIKCS8vIGFzc2VydCh0aGlzLmNhbGxlclNldE1lbWJlcnMoeyBjYWxsZXJTZXQ6IHNldEFkZHJlc3MsIG1lbWJlcjogdGhpcy50eG4uc2VuZGVyIH0pLmV4aXN0cykKCWJ5dGUgMHg2MyAvLyAiYyIKCWZyYW1lX2RpZyAwIC8vIHNldEFkZHJlc3M6IGFkZHJlc3MKCXR4biBTZW5kZXIKCWNvbmNhdAoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzE0CgkvLyB0aGlzLnJla2V5VG9QbHVnaW4ocGx1Z2luLCB7IGFwcGxpY2F0aW9uOiBwbHVnaW4sIGFsbG93ZWRDYWxsZXI6IHNldEFkZHJlc3MgfSkKCWZyYW1lX2RpZyAtMSAvLyBwbHVnaW46IEFwcElECglpdG9iCglmcmFtZV9kaWcgMCAvLyBzZXRBZGRyZXNzOiBhZGRyZXNzCgljb25jYXQKCWZyYW1lX2RpZyAtMSAvLyBwbHVnaW46IEFwcElECgljYWxsc3ViIHJla2V5VG9QbHVnaW4KCXJldHN1YgoKLy8gYXJjNThfcmVrZXlUb05hbWVkUGx1Z2luKHN0cmluZyl2b2lkCiphYmlfcm91dGVfYXJjNThfcmVrZXlUb05hbWVkUGx1Z2luOgoJLy8gbmFtZTogc3RyaW5nCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglleHRyYWN0IDIgMAoKCS8vIGV4ZWN1dGUgYXJjNThfcmVrZXlUb05hbWVkUGx1Z2luKHN0cmluZyl2b2lkCgljYWxsc3ViIGFyYzU4X3Jla2V5VG9OYW1lZFBsdWdpbgoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmVrZXlUb05hbWVkUGx1Z2luKG5hbWU6IHN0cmluZyk6IHZvaWQKLy8KLy8gVGVtcG9yYXJpbHkgcmVrZXkgdG8gYSBuYW1lZCBwbHVnaW4gYXBwIGFkZHJlc3MKLy8KLy8gQHBhcmFtIG5hbWUgVGhlIG5hbWUgb2YgdGhlIHBsdWdpbiB0byByZWtleSB0bwphcmM1OF9yZWtleVRvTmFtZWRQbHVnaW46Cglwcm90byAxIDAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTMyMwoJLy8gdGhpcy5hcmM1OF9yZWtleVRvUGx1Z2luKHRoaXMubmFtZWRQbHVnaW5zKG5hbWUpLnZhbHVlLmFwcGxpY2F0aW9uKQoJaW50IDAKCWludCA4CglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWNvdmVyIDIKCWJveF9leHRyYWN0CglidG9pCgljYWxsc3ViIGFyYzU4X3Jla2V5VG9QbHVnaW4KCXJldHN1YgoKLy8gYXJjNThfYWRkUGx1Z2luKHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LGJ5dGVbNF1bXSxwYXkpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X2FkZFBsdWdpbjoKCS8vIG1iclBheW1lbnQ6IHBheQoJdHhuIEdyb3VwSW5kZXgKCWludCAxCgktCglkdXAKCWd0eG5zIFR5cGVFbnVtCglpbnQgcGF5Cgk9PQoJYXNzZXJ0CgoJLy8gbWV0aG9kczogYnl0ZVs0XVtdCgl0eG5hIEFwcGxpY2F0aW9uQXJncyA4CglleHRyYWN0IDIgMAoKCS8vIG1heFVzZXM6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNwoJYnRvaQoKCS8vIGNvb2xkb3duOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDYKCWJ0b2kKCgkvLyB1c2VSb3VuZHM6IGJvb2wKCXR4bmEgQXBwbGljYXRpb25BcmdzIDUKCWR1cAoJbGVuCglpbnQgMQoJPT0KCWFzc2VydAoJaW50IDAKCWdldGJpdAoKCS8vIGVuZDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyA0CglidG9pCgoJLy8gc3RhcnQ6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwoJYnRvaQoKCS8vIGFsbG93ZWRDYWxsZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBhcHA6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJYnRvaQoKCS8vIGV4ZWN1dGUgYXJjNThfYWRkUGx1Z2luKHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LGJ5dGVbNF1bXSxwYXkpdm9pZAoJY2FsbHN1YiBhcmM1OF9hZGRQbHVnaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2FkZFBsdWdpbihhcHA6IEFwcElELCBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzLCBzdGFydDogdWludDY0LCBlbmQ6IHVpbnQ2NCwgdXNlUm91bmRzOiBib29sZWFuLCBjb29sZG93bjogdWludDY0LCBtYXhVc2VzOiB1aW50NjQsIG1ldGhvZHM6IGJ5dGVzPDQ+W10sIG1iclBheW1lbnQ6IFBheVR4bik6IHZvaWQKLy8KLy8gQWRkIGFuIGFwcCB0byB0aGUgbGlzdCBvZiBhcHByb3ZlZCBwbHVnaW5zCi8vCi8vIEBwYXJhbSBhcHAgVGhlIGFwcCB0byBhZGQKLy8gQHBhcmFtIGFsbG93ZWRDYWxsZXIgVGhlIGFkZHJlc3Mgb2YgdGhhdCdzIGFsbG93ZWQgdG8gY2FsbCB0aGUgYXBwCi8vIG9yIHRoZSBnbG9iYWwgemVybyBhZGRyZXNzIGZvciBhbGwgYWRkcmVzc2VzCi8vIEBwYXJhbSBzdGFydCBUaGUgdGltZXN0YW1wIChvciByb3VuZCkgd2hlbiB0aGUgcGVybWlzc2lvbiBzdGFydHMsIG9yIHplcm8gdG8gc3RhcnQgaW1tZWRpYXRlbHkKLy8gQHBhcmFtIGVuZCBUaGUgdGltZXN0YW1wIChvciByb3VuZCkgd2hlbiB0aGUgcGVybWlzc2lvbiBleHBpcmVzCi8vIEBwYXJhbSB1c2VSb3VuZHMgV2hldGhlciBgc3RhcnRgLCBgZW5kYCBhbmQgYGNvb2xkb3duYCBhcmUgcm91bmRzIHJhdGhlciB0aGFuIHRpbWVzdGFtcHMKLy8gQHBhcmFtIGNvb2xkb3duIFRoZSBtaW5pbXVtIG51bWJlciBvZiBzZWNvbmRzIChvciByb3VuZHMpIHRoYXQgbXVzdCBwYXNzIGJldHdlZW4gdXNlcyBvZiB0aGUgcGx1Z2luCi8vIEBwYXJhbSBtYXhVc2VzIFRoZSBtYXhpbXVtIG51bWJlciBvZiB0aW1lcyB0aGUgcGx1Z2luIGNhbiBiZSB1c2VkLCBvciB6ZXJvIGZvciBubyBtYXhpbXVtCi8vIEBwYXJhbSBtZXRob2RzIFRoZSBtZXRob2Qgc2VsZWN0b3JzIHRoZSBhbGxvd2VkIGNhbGxlciBtYXkgY2FsbCBvbiB0aGUgYXBwLiBJZiBlbXB0eSwgYWxsIG1ldGhvZHMgYXJlIGFsbG93ZWQKLy8gQHBhcmFtIG1iclBheW1lbnQgQSBwYXltZW50IHRvIHRoZSBhcHAgYWRkcmVzcyBjb3ZlcmluZyBleGFjdGx5IHRoZSBNQlIgb2YgdGhlIGJveGVzIGNyZWF0ZWQgYnkgdGhpcyBjYWxsCmFyYzU4X2FkZFBsdWdpbjoKCXByb3RvIDkgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTM1MQoJLy8ga2V5OiBQbHVnaW5zS2V5ID0geyBhcHBsaWNhdGlvbjogYXBwLCBhbGxvd2VkQ2FsbGVyOiBhbGxvd2VkQ2FsbGVyIH0KCWZyYW1lX2RpZyAtMSAvLyBhcHA6IEFwcElECglpdG9iCglmcmFtZV9kaWcgLTIgLy8gYWxsb3dlZENhbGxlcjogQWRkcmVzcwoJY29uY2F0CglmcmFtZV9idXJ5IDAgLy8ga2V5OiBQbHVnaW5zS2V5CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzNTIKCS8vIHRoaXMudmVyaWZ5Q2FuU2V0UGx1Z2luKHRoaXMucGx1Z2lucyhrZXkpLmV4aXN0cywgZW5kLCB1c2VSb3VuZHMpCglmcmFtZV9kaWcgLTUgLy8gdXNlUm91bmRzOiBib29sZWFuCglmcmFtZV9kaWcgLTQgLy8gZW5kOiB1aW50NjQKCWJ5dGUgMHg3MCAvLyAicCIKCWZyYW1lX2RpZyAwIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCWNhbGxzdWIgdmVyaWZ5Q2FuU2V0UGx1Z2luCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzNTMKCS8vIHByZU1CUiA9IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9idXJ5IDEgLy8gcHJlTUJSOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTM1NQoJLy8gdGhpcy5zZXRQbHVnaW4oa2V5LCBzdGFydCwgZW5kLCB1c2VSb3VuZHMsIGNvb2xkb3duLCBtYXhVc2VzLCBtZXRob2RzLCBmYWxzZSwgMCkKCWludCAwCglkdXAKCWZyYW1lX2RpZyAtOCAvLyBtZXRob2RzOiBieXRlczw0PltdCglmcmFtZV9kaWcgLTcgLy8gbWF4VXNlczogdWludDY0CglmcmFtZV9kaWcgLTYgLy8gY29vbGRvd246IHVpbnQ2NAoJZnJhbWVfZGlnIC01IC8vIHVzZVJvdW5kczogYm9vbGVhbgoJZnJhbWVfZGlnIC00IC8vIGVuZDogdWludDY0CglmcmFtZV9kaWcgLTMgLy8gc3RhcnQ6IHVpbnQ2NAoJZnJhbWVfZGlnIDAgLy8ga2V5OiBQbHVnaW5zS2V5CgljYWxsc3ViIHNldFBsdWdpbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzU3CgkvLyB0aGlzLnZlcmlmeU1iclBheW1lbnQobWJyUGF5bWVudCwgcHJlTUJSKQoJZnJhbWVfZGlnIDEgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtOSAvLyBtYnJQYXltZW50OiBQYXlUeG4KCWNhbGxzdWIgdmVyaWZ5TWJyUGF5bWVudAoJcmV0c3ViCgovLyBhcmM1OF9yZW1vdmVQbHVnaW4odWludDY0LGFkZHJlc3MsYWRkcmVzcyl2b2lkCiphYmlfcm91dGVfYXJjNThfcmVtb3ZlUGx1Z2luOgoJLy8gbWJyUmVjZWl2ZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBhbGxvd2VkQ2FsbGVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAyCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gYXBwOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X3JlbW92ZVBsdWdpbih1aW50NjQsYWRkcmVzcyxhZGRyZXNzKXZvaWQKCWNhbGxzdWIgYXJjNThfcmVtb3ZlUGx1Z2luCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9yZW1vdmVQbHVnaW4oYXBwOiBBcHBJRCwgYWxsb3dlZENhbGxlcjogQWRkcmVzcywgbWJyUmVjZWl2ZXI6IEFkZHJlc3MpOiB2b2lkCi8vCi8vIFJlbW92ZSBhbiBhcHAgZnJvbSB0aGUgbGlzdCBvZiBhcHByb3ZlZCBwbHVnaW5zLiBJZiBuYW1lcyBzdGlsbCByZWZlciB0byB0aGUgcGVybWlzc2lvbiwgaXQgaXMga2VwdCBmb3IgdGhlbS4KLy8KLy8gQHBhcmFtIGFwcCBUaGUgYXBwIHRvIHJlbW92ZQovLyBAcGFyYW0gYWxsb3dlZENhbGxlciBUaGUgYWxsb3dlZCBjYWxsZXIgb2YgdGhlIHBsdWdpbiBwZXJtaXNzaW9uIHRvIHJlbW92ZQovLyBAcGFyYW0gbWJyUmVjZWl2ZXIgVGhlIGFkZHJlc3MgdG8gc2VuZCB0aGUgTUJSIGZyZWVkIGJ5IHJlbW92aW5nIHRoZSBwbHVnaW4gdG8KYXJjNThfcmVtb3ZlUGx1Z2luOgoJcHJvdG8gMyAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzY4CgkvLyB0aGlzLnZlcmlmeUNhblJlbW92ZVBsdWdpbigpCgljYWxsc3ViIHZlcmlmeUNhblJlbW92ZVBsdWdpbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzY5CgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzNzEKCS8vIGtleTogUGx1Z2luc0tleSA9IHsgYXBwbGljYXRpb246IGFwcCwgYWxsb3dlZENhbGxlcjogYWxsb3dlZENhbGxlciB9CglmcmFtZV9kaWcgLTEgLy8gYXBwOiBBcHBJRAoJaXRvYgoJZnJhbWVfZGlnIC0yIC8vIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MKCWNvbmNhdAoJZnJhbWVfYnVyeSAxIC8vIGtleTogUGx1Z2luc0tleQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzcyCgkvLyB0aGlzLnJlbGVhc2VQbHVnaW4oa2V5LCBmYWxzZSkKCWludCAwCglmcmFtZV9kaWcgMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNhbGxzdWIgcmVsZWFzZVBsdWdpbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzc0CgkvLyB0aGlzLnJlZnVuZE1icihtYnJSZWNlaXZlciwgcHJlTUJSKQoJZnJhbWVfZGlnIDAgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtMyAvLyBtYnJSZWNlaXZlcjogQWRkcmVzcwoJY2FsbHN1YiByZWZ1bmRNYnIKCXJldHN1YgoKLy8gYXJjNThfdmV0b1BsdWdpbih1aW50NjQsYWRkcmVzcyxzdHJpbmdbXSxhZGRyZXNzKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF92ZXRvUGx1Z2luOgoJLy8gbWJyUmVjZWl2ZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDQKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBuYW1lczogc3RyaW5nW10KCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCgkvLyBhbGxvd2VkQ2FsbGVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAyCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gYXBwOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X3ZldG9QbHVnaW4odWludDY0LGFkZHJlc3Msc3RyaW5nW10sYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X3ZldG9QbHVnaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3ZldG9QbHVnaW4oYXBwOiBBcHBJRCwgYWxsb3dlZENhbGxlcjogQWRkcmVzcywgbmFtZXM6IHN0cmluZ1tdLCBtYnJSZWNlaXZlcjogQWRkcmVzcyk6IHZvaWQKLy8KLy8gUmVtb3ZlIGEgcGx1Z2luIHBlcm1pc3Npb24gdGhhdCBoYXMgbm90IGJlY29tZSBhY3RpdmUgeWV0LCBhbG9uZyB3aXRoIHRoZSBuYW1lcyB0aGF0IHJlZmVyIHRvIGl0LgovLyBDYW4gYmUgY2FsbGVkIGJ5IHRoZSBhZG1pbiBvciBhbnkgZ3VhcmRpYW4uCi8vCi8vIEBwYXJhbSBhcHAgVGhlIHBsdWdpbiBhcHAKLy8gQHBhcmFtIGFsbG93ZWRDYWxsZXIgVGhlIGFsbG93ZWQgY2FsbGVyIG9mIHRoZSBwbHVnaW4gcGVybWlzc2lvbiB0byB2ZXRvCi8vIEBwYXJhbSBuYW1lcyBFdmVyeSBuYW1lIHRoYXQgcmVmZXJzIHRvIHRoZSBwbHVnaW4gcGVybWlzc2lvbgovLyBAcGFyYW0gbWJyUmVjZWl2ZXIgVGhlIGFkZHJlc3MgdG8gc2VuZCB0aGUgTUJSIGZyZWVkIGJ5IHJlbW92aW5nIHRoZSBwbHVnaW4gYW5kIGl0cyBuYW1lcyB0bwphcmM1OF92ZXRvUGx1Z2luOgoJcHJvdG8gNCAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cG4gNAoKCS8vICppZjM3X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzODcKCS8vICF0aGlzLmd1YXJkaWFucyh0aGlzLnR4bi5zZW5kZXIpLmV4aXN0cwoJYnl0ZSAweDY3IC8vICJnIgoJdHhuIFNlbmRlcgoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCSEKCWJ6ICppZjM3X2VuZAoKCS8vICppZjM3X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzg3CgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCippZjM3X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzg4CgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzOTAKCS8vIGtleTogUGx1Z2luc0tleSA9IHsgYXBwbGljYXRpb246IGFwcCwgYWxsb3dlZENhbGxlcjogYWxsb3dlZENhbGxlciB9CglmcmFtZV9kaWcgLTEgLy8gYXBwOiBBcHBJRAoJaXRvYgoJZnJhbWVfZGlnIC0yIC8vIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MKCWNvbmNhdAoJZnJhbWVfYnVyeSAxIC8vIGtleTogUGx1Z2luc0tleQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzkxCgkvLyBpbmZvID0gdGhpcy5wbHVnaW5zKGtleSkudmFsdWUKCWJ5dGUgMHg3MCAvLyAicCIKCWZyYW1lX2RpZyAxIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0CglmcmFtZV9idXJ5IDIgLy8gc3RvcmFnZSBrZXkvL2luZm8KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTM5MgoJLy8gYXNzZXJ0KGdsb2JhbHMubGF0ZXN0VGltZXN0YW1wIDwgaW5mby5hY3RpdmF0ZXNBdCkKCWdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKCWZyYW1lX2RpZyAyIC8vIHN0b3JhZ2Uga2V5Ly9pbmZvCglib3hfZ2V0Cglhc3NlcnQKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglleHRyYWN0IDUzIDgKCWJ0b2kKCTwKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxMzk1CgkvLyBmb3IgKGxldCBpID0gMDsgaSA8IGluZm8ubmFtZXM7IGkgKz0gMSkKCWludCAwCglmcmFtZV9idXJ5IDMgLy8gaTogdWludDY0CgoqZm9yXzE0OgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzOTUKCS8vIGkgPCBpbmZvLm5hbWVzCglmcmFtZV9kaWcgMyAvLyBpOiB1aW50NjQKCWZyYW1lX2RpZyAyIC8vIHN0b3JhZ2Uga2V5Ly9pbmZvCglib3hfZ2V0Cglhc3NlcnQKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5Cglsb2FkIDI1NSAvLyBmdWxsIGFycmF5CglleHRyYWN0IDYyIDgKCWJ0b2kKCTwKCWJ6ICpmb3JfMTRfZW5kCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzOTYKCS8vIG5hbWUgPSBuYW1lc1tpXQoJZnJhbWVfZGlnIC0zIC8vIG5hbWVzOiBzdHJpbmdbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMyAvLyBpOiB1aW50NjQKCWludCAyCgkqIC8vIGFjYyAqIDIKCSsKCWludCAyCgkrIC8vIGFkZCB0d28gZm9yIGxlbmd0aAoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJdW5jb3ZlciAyCglleHRyYWN0X3VpbnQxNgoJaW50IDIKCSsgLy8gYWRkIHR3byBmb3IgbGVuZ3RoCglkdXAgLy8gZHVwbGljYXRlIHN0YXJ0IG9mIGVsZW1lbnQKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCXN3YXAKCWV4dHJhY3RfdWludDE2IC8vIGdldCBudW1iZXIgb2YgZWxlbWVudHMKCWludCAxIC8vIGdldCB0eXBlIGxlbmd0aAoJKiAvLyBtdWx0aXBseSBieSB0eXBlIGxlbmd0aAoJaW50IDIKCSsgLy8gYWRkIHR3byBmb3IgbGVuZ3RoCglleHRyYWN0MwoJZXh0cmFjdCAyIDAKCWZyYW1lX2J1cnkgNCAvLyBuYW1lOiBzdHJpbmcKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTM5NwoJLy8gYXNzZXJ0KHRoaXMubmFtZWRQbHVnaW5zKG5hbWUpLnZhbHVlID09PSBrZXkpCglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgNCAvLyBuYW1lOiBzdHJpbmcKCWNvbmNhdAoJYm94X2dldAoJYXNzZXJ0CglmcmFtZV9kaWcgMSAvLyBrZXk6IFBsdWdpbnNLZXkKCT09Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTM5OAoJLy8gdGhpcy5uYW1lZFBsdWdpbnMobmFtZSkuZGVsZXRlKCkKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyA0IC8vIG5hbWU6IHN0cmluZwoJY29uY2F0Cglib3hfZGVsCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzOTkKCS8vIHRoaXMubmFtZWRQbHVnaW5SZW1vdmVkLmxvZyh7IG5hbWU6IG5hbWUsIGFwcGxpY2F0aW9uOiBhcHAsIGFsbG93ZWRDYWxsZXI6IGFsbG93ZWRDYWxsZXIgfSkKCWJ5dGUgMHhjNDM1ZDVkMyAvLyBuYW1lZFBsdWdpblJlbW92ZWQoc3RyaW5nLHVpbnQ2NCxhZGRyZXNzKQoJYnl0ZSAweCAvLyBpbml0aWFsIGhlYWQKCWJ5dGUgMHggLy8gaW5pdGlhbCB0YWlsCglieXRlIDB4MDAyYSAvLyBpbml0aWFsIGhlYWQgb2Zmc2V0CglmcmFtZV9kaWcgNCAvLyBuYW1lOiBzdHJpbmcKCWR1cAoJbGVuCglpdG9iCglleHRyYWN0IDYgMgoJc3dhcAoJY29uY2F0CgljYWxsc3ViICpwcm9jZXNzX2R5bmFtaWNfdHVwbGVfZWxlbWVudAoJZnJhbWVfZGlnIC0xIC8vIGFwcDogQXBwSUQKCWl0b2IKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWZyYW1lX2RpZyAtMiAvLyBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50Cglwb3AgLy8gcG9wIGhlYWQgb2Zmc2V0Cgljb25jYXQgLy8gY29uY2F0IGhlYWQgYW5kIHRhaWwKCWNvbmNhdAoJbG9nCgoqZm9yXzE0X2NvbnRpbnVlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjEzOTUKCS8vIGkgKz0gMQoJZnJhbWVfZGlnIDMgLy8gaTogdWludDY0CglpbnQgMQoJKwoJZnJhbWVfYnVyeSAzIC8vIGk6IHVpbnQ2NAoJYiAqZm9yXzE0CgoqZm9yXzE0X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDAyCgkvLyB0aGlzLmRlbGV0ZVBsdWdpbihrZXkpCglmcmFtZV9kaWcgMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNhbGxzdWIgZGVsZXRlUGx1Z2luCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0MDQKCS8vIHRoaXMucmVmdW5kTWJyKG1iclJlY2VpdmVyLCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC00IC8vIG1iclJlY2VpdmVyOiBBZGRyZXNzCgljYWxsc3ViIHJlZnVuZE1icgoJcmV0c3ViCgovLyBhcmM1OF9zZXRQbHVnaW5EZWxheSh1aW50NjQpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3NldFBsdWdpbkRlbGF5OgoJLy8gZGVsYXk6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJYnRvaQoKCS8vIGV4ZWN1dGUgYXJjNThfc2V0UGx1Z2luRGVsYXkodWludDY0KXZvaWQKCWNhbGxzdWIgYXJjNThfc2V0UGx1Z2luRGVsYXkKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3NldFBsdWdpbkRlbGF5KGRlbGF5OiB1aW50NjQpOiB2b2lkCi8vCi8vIFNldCBob3cgbG9uZyBuZXcgcGx1Z2luIHBlcm1pc3Npb25zIG11c3Qgd2FpdCBiZWZvcmUgdGhleSBjYW4gYmUgdXNlZC4gUGVybWlzc2lvbnMgdGhhdCB3ZXJlIGFscmVhZHkgYWRkZWQgYXJlIG5vdCBhZmZlY3RlZC4KLy8gUmFpc2luZyB0aGUgZGVsYXkgYXBwbGllcyBpbW1lZGlhdGVseSwgYnV0IGxvd2VyaW5nIGl0IG9ubHkgYXBwbGllcyBvbmNlIHRoZSBjdXJyZW50IGRlbGF5IGhhcyBwYXNzZWQsCi8vIHNvIGEgY29tcHJvbWlzZWQgYWRtaW4ga2V5IGNhbid0IHNraXAgdGhlIHZldG8gd2luZG93IGJ5IGxvd2VyaW5nIHRoZSBkZWxheSBmaXJzdC4KLy8KLy8gQHBhcmFtIGRlbGF5IFRoZSBudW1iZXIgb2Ygc2Vjb25kcywgb3IgemVybyB0byBtYWtlIG5ldyBwZXJtaXNzaW9ucyB1c2FibGUgaW1tZWRpYXRlbHkKYXJjNThfc2V0UGx1Z2luRGVsYXk6Cglwcm90byAxIDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDE1CgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTQxNwoJLy8gY3VycmVudCA9IHRoaXMuZ2V0UGx1Z2luRGVsYXkoKQoJY2FsbHN1YiBnZXRQbHVnaW5EZWxheQoJZnJhbWVfYnVyeSAwIC8vIGN1cnJlbnQ6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDE4CgkvLyB0aGlzLnByZXZpb3VzUGx1Z2luRGVsYXkudmFsdWUgPSBjdXJyZW50CglieXRlIDB4NzA3MCAvLyAicHAiCglmcmFtZV9kaWcgMCAvLyBjdXJyZW50OiB1aW50NjQKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0MTkKCS8vIHRoaXMucGx1Z2luRGVsYXlDaGFuZ2VzQXQudmFsdWUgPSBkZWxheSA8IGN1cnJlbnQgPyBnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCArIGN1cnJlbnQgOiAwCglieXRlIDB4NzA3NCAvLyAicHQiCglmcmFtZV9kaWcgLTEgLy8gZGVsYXk6IHVpbnQ2NAoJZnJhbWVfZGlnIDAgLy8gY3VycmVudDogdWludDY0Cgk8CglieiAqdGVybmFyeTlfZmFsc2UKCWdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKCWZyYW1lX2RpZyAwIC8vIGN1cnJlbnQ6IHVpbnQ2NAoJKwoJYiAqdGVybmFyeTlfZW5kCgoqdGVybmFyeTlfZmFsc2U6CglpbnQgMAoKKnRlcm5hcnk5X2VuZDoKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0MjAKCS8vIHRoaXMucGx1Z2luRGVsYXkudmFsdWUgPSBkZWxheQoJYnl0ZSAweDcwNjQgLy8gInBkIgoJZnJhbWVfZGlnIC0xIC8vIGRlbGF5OiB1aW50NjQKCWFwcF9nbG9iYWxfcHV0CglyZXRzdWIKCi8vIGFyYzU4X2FkZE5hbWVkUGx1Z2luKHN0cmluZyx1aW50NjQsYWRkcmVzcyx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCxieXRlWzRdW10scGF5KXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9hZGROYW1lZFBsdWdpbjoKCS8vIG1iclBheW1lbnQ6IHBheQoJdHhuIEdyb3VwSW5kZXgKCWludCAxCgktCglkdXAKCWd0eG5zIFR5cGVFbnVtCglpbnQgcGF5Cgk9PQoJYXNzZXJ0CgoJLy8gbWV0aG9kczogYnl0ZVs0XVtdCgl0eG5hIEFwcGxpY2F0aW9uQXJncyA5CglleHRyYWN0IDIgMAoKCS8vIG1heFVzZXM6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgOAoJYnRvaQoKCS8vIGNvb2xkb3duOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDcKCWJ0b2kKCgkvLyB1c2VSb3VuZHM6IGJvb2wKCXR4bmEgQXBwbGljYXRpb25BcmdzIDYKCWR1cAoJbGVuCglpbnQgMQoJPT0KCWFzc2VydAoJaW50IDAKCWdldGJpdAoKCS8vIGVuZDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyA1CglidG9pCgoJLy8gc3RhcnQ6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNAoJYnRvaQoKCS8vIGFsbG93ZWRDYWxsZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBhcHA6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJYnRvaQoKCS8vIG5hbWU6IHN0cmluZwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZXh0cmFjdCAyIDAKCgkvLyBleGVjdXRlIGFyYzU4X2FkZE5hbWVkUGx1Z2luKHN0cmluZyx1aW50NjQsYWRkcmVzcyx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCxieXRlWzRdW10scGF5KXZvaWQKCWNhbGxzdWIgYXJjNThfYWRkTmFtZWRQbHVnaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2FkZE5hbWVkUGx1Z2luKG5hbWU6IHN0cmluZywgYXBwOiBBcHBJRCwgYWxsb3dlZENhbGxlcjogQWRkcmVzcywgc3RhcnQ6IHVpbnQ2NCwgZW5kOiB1aW50NjQsIHVzZVJvdW5kczogYm9vbGVhbiwgY29vbGRvd246IHVpbnQ2NCwgbWF4VXNlczogdWludDY0LCBtZXRob2RzOiBieXRlczw0PltdLCBtYnJQYXltZW50OiBQYXlUeG4pOiB2b2lkCi8vCi8vIEFkZCBhIG5hbWVkIHBsdWdpbgovLwovLyBAcGFyYW0gYXBwIFRoZSBwbHVnaW4gYXBwCi8vIEBwYXJhbSBuYW1lIFRoZSBwbHVnaW4gbmFtZQovLyBAcGFyYW0gYWxsb3dlZENhbGxlciBUaGUgYWRkcmVzcyBvZiB0aGF0J3MgYWxsb3dlZCB0byBjYWxsIHRoZSBhcHAKLy8gb3IgdGhlIGdsb2JhbCB6ZXJvIGFkZHJlc3MgZm9yIGFsbCBhZGRyZXNzZXMKLy8gQHBhcmFtIHN0YXJ0IFRoZSB0aW1lc3RhbXAgKG9yIHJvdW5kKSB3aGVuIHRoZSBwZXJtaXNzaW9uIHN0YXJ0cywgb3IgemVybyB0byBzdGFydCBpbW1lZGlhdGVseQovLyBAcGFyYW0gZW5kIFRoZSB0aW1lc3RhbXAgKG9yIHJvdW5kKSB3aGVuIHRoZSBwZXJtaXNzaW9uIGV4cGlyZXMKLy8gQHBhcmFtIHVzZVJvdW5kcyBXaGV0aGVyIGBzdGFydGAsIGBlbmRgIGFuZCBgY29vbGRvd25gIGFyZSByb3VuZHMgcmF0aGVyIHRoYW4gdGltZXN0YW1wcwovLyBAcGFyYW0gY29vbGRvd24gVGhlIG1pbmltdW0gbnVtYmVyIG9mIHNlY29uZHMgKG9yIHJvdW5kcykgdGhhdCBtdXN0IHBhc3MgYmV0d2VlbiB1c2VzIG9mIHRoZSBwbHVnaW4KLy8gQHBhcmFtIG1heFVzZXMgVGhlIG1heGltdW0gbnVtYmVyIG9mIHRpbWVzIHRoZSBwbHVnaW4gY2FuIGJlIHVzZWQsIG9yIHplcm8gZm9yIG5vIG1heGltdW0KLy8gQHBhcmFtIG1ldGhvZHMgVGhlIG1ldGhvZCBzZWxlY3RvcnMgdGhlIGFsbG93ZWQgY2FsbGVyIG1heSBjYWxsIG9uIHRoZSBhcHAuIElmIGVtcHR5LCBhbGwgbWV0aG9kcyBhcmUgYWxsb3dlZAovLyBAcGFyYW0gbWJyUGF5bWVudCBBIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVyaW5nIGV4YWN0bHkgdGhlIE1CUiBvZiB0aGUgYm94ZXMgY3JlYXRlZCBieSB0aGlzIGNhbGwKYXJjNThfYWRkTmFtZWRQbHVnaW46Cglwcm90byAxMCAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDUwCgkvLyBrZXk6IFBsdWdpbnNLZXkgPSB7IGFwcGxpY2F0aW9uOiBhcHAsIGFsbG93ZWRDYWxsZXI6IGFsbG93ZWRDYWxsZXIgfQoJZnJhbWVfZGlnIC0yIC8vIGFwcDogQXBwSUQKCWl0b2IKCWZyYW1lX2RpZyAtMyAvLyBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzCgljb25jYXQKCWZyYW1lX2J1cnkgMCAvLyBrZXk6IFBsdWdpbnNLZXkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTQ1MQoJLy8gdGhpcy52ZXJpZnlDYW5TZXRQbHVnaW4odGhpcy5wbHVnaW5zKGtleSkuZXhpc3RzLCBlbmQsIHVzZVJvdW5kcykKCWZyYW1lX2RpZyAtNiAvLyB1c2VSb3VuZHM6IGJvb2xlYW4KCWZyYW1lX2RpZyAtNSAvLyBlbmQ6IHVpbnQ2NAoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIDAgLy8ga2V5OiBQbHVnaW5zS2V5Cgljb25jYXQKCWJveF9sZW4KCXN3YXAKCXBvcAoJY2FsbHN1YiB2ZXJpZnlDYW5TZXRQbHVnaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTQ1MgoJLy8gYXNzZXJ0KCF0aGlzLm5hbWVkUGx1Z2lucyhuYW1lKS5leGlzdHMpCglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWJveF9sZW4KCXN3YXAKCXBvcAoJIQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0NTMKCS8vIHByZU1CUiA9IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9idXJ5IDEgLy8gcHJlTUJSOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTQ1NQoJLy8gdGhpcy5uYW1lZFBsdWdpbnMobmFtZSkudmFsdWUgPSBrZXkKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWNvbmNhdAoJZnJhbWVfZGlnIDAgLy8ga2V5OiBQbHVnaW5zS2V5Cglib3hfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0NTYKCS8vIHRoaXMuc2V0UGx1Z2luKGtleSwgc3RhcnQsIGVuZCwgdXNlUm91bmRzLCBjb29sZG93biwgbWF4VXNlcywgbWV0aG9kcywgdHJ1ZSwgMCkKCWludCAwCglpbnQgMQoJZnJhbWVfZGlnIC05IC8vIG1ldGhvZHM6IGJ5dGVzPDQ+W10KCWZyYW1lX2RpZyAtOCAvLyBtYXhVc2VzOiB1aW50NjQKCWZyYW1lX2RpZyAtNyAvLyBjb29sZG93bjogdWludDY0CglmcmFtZV9kaWcgLTYgLy8gdXNlUm91bmRzOiBib29sZWFuCglmcmFtZV9kaWcgLTUgLy8gZW5kOiB1aW50NjQKCWZyYW1lX2RpZyAtNCAvLyBzdGFydDogdWludDY0CglmcmFtZV9kaWcgMCAvLyBrZXk6IFBsdWdpbnNLZXkKCWNhbGxzdWIgc2V0UGx1Z2luCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0NTgKCS8vIHRoaXMubmFtZWRQbHVnaW5BZGRlZC5sb2coeyBuYW1lOiBuYW1lLCBhcHBsaWNhdGlvbjogYXBwLCBhbGxvd2VkQ2FsbGVyOiBhbGxvd2VkQ2FsbGVyIH0pCglieXRlIDB4ODk5NzhjNDggLy8gbmFtZWRQbHVnaW5BZGRlZChzdHJpbmcsdWludDY0LGFkZHJlc3MpCglieXRlIDB4IC8vIGluaXRpYWwgaGVhZAoJYnl0ZSAweCAvLyBpbml0aWFsIHRhaWwKCWJ5dGUgMHgwMDJhIC8vIGluaXRpYWwgaGVhZCBvZmZzZXQKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWR1cAoJbGVuCglpdG9iCglleHRyYWN0IDYgMgoJc3dhcAoJY29uY2F0CgljYWxsc3ViICpwcm9jZXNzX2R5bmFtaWNfdHVwbGVfZWxlbWVudAoJZnJhbWVfZGlnIC0yIC8vIGFwcDogQXBwSUQKCWl0b2IKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWZyYW1lX2RpZyAtMyAvLyBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50Cglwb3AgLy8gcG9wIGhlYWQgb2Zmc2V0Cgljb25jYXQgLy8gY29uY2F0IGhlYWQgYW5kIHRhaWwKCWNvbmNhdAoJbG9nCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0NjAKCS8vIHRoaXMudmVyaWZ5TWJyUGF5bWVudChtYnJQYXltZW50LCBwcmVNQlIpCglmcmFtZV9kaWcgMSAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC0xMCAvLyBtYnJQYXltZW50OiBQYXlUeG4KCWNhbGxzdWIgdmVyaWZ5TWJyUGF5bWVudAoJcmV0c3ViCgovLyBhcmM1OF9yZW1vdmVOYW1lZFBsdWdpbihzdHJpbmcsYWRkcmVzcyl2b2lkCiphYmlfcm91dGVfYXJjNThfcmVtb3ZlTmFtZWRQbHVnaW46CgkvLyBtYnJSZWNlaXZlcjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIG5hbWU6IHN0cmluZwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZXh0cmFjdCAyIDAKCgkvLyBleGVjdXRlIGFyYzU4X3JlbW92ZU5hbWVkUGx1Z2luKHN0cmluZyxhZGRyZXNzKXZvaWQKCWNhbGxzdWIgYXJjNThfcmVtb3ZlTmFtZWRQbHVnaW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3JlbW92ZU5hbWVkUGx1Z2luKG5hbWU6IHN0cmluZywgbWJyUmVjZWl2ZXI6IEFkZHJlc3MpOiB2b2lkCi8vCi8vIFJlbW92ZSBhIG5hbWVkIHBsdWdpbi4gVGhlIHBlcm1pc3Npb24gaXMga2VwdCBpZiBpdCB3YXMgYWxzbyBhZGRlZCB3aXRob3V0IGEgbmFtZSBvciBvdGhlciBuYW1lcyByZWZlciB0byBpdC4KLy8KLy8gQHBhcmFtIG5hbWUgVGhlIHBsdWdpbiBuYW1lCi8vIEBwYXJhbSBtYnJSZWNlaXZlciBUaGUgYWRkcmVzcyB0byBzZW5kIHRoZSBNQlIgZnJlZWQgYnkgcmVtb3ZpbmcgdGhlIHBsdWdpbiB0bwphcmM1OF9yZW1vdmVOYW1lZFBsdWdpbjoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTQ3MAoJLy8gdGhpcy52ZXJpZnlDYW5SZW1vdmVQbHVnaW4oKQoJY2FsbHN1YiB2ZXJpZnlDYW5SZW1vdmVQbHVnaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTQ3MQoJLy8gcHJlTUJSID0gdGhpcy5hcHAuYWRkcmVzcy5taW5CYWxhbmNlCglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCglwb3AKCWZyYW1lX2J1cnkgMCAvLyBwcmVNQlI6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDczCgkvLyBhcHAgPSB0aGlzLm5hbWVkUGx1Z2lucyhuYW1lKS52YWx1ZQoJYnl0ZSAweDZlIC8vICJuIgoJZnJhbWVfZGlnIC0xIC8vIG5hbWU6IHN0cmluZwoJY29uY2F0CglmcmFtZV9idXJ5IDEgLy8gc3RvcmFnZSBrZXkvL2FwcAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNDc0CgkvLyB0aGlzLm5hbWVkUGx1Z2lucyhuYW1lKS5kZWxldGUoKQoJYnl0ZSAweDZlIC8vICJuIgoJZnJhbWVfZGlnIC0xIC8vIG5hbWU6IHN0cmluZwoJY29uY2F0Cglib3hfZGVsCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0NzUKCS8vIHRoaXMucmVsZWFzZVBsdWdpbihhcHAsIHRydWUpCglpbnQgMQoJZnJhbWVfZGlnIDEgLy8gc3RvcmFnZSBrZXkvL2FwcAoJYm94X2dldAoJYXNzZXJ0CgljYWxsc3ViIHJlbGVhc2VQbHVnaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTQ3NwoJLy8gdGhpcy5uYW1lZFBsdWdpblJlbW92ZWQubG9nKHsgbmFtZTogbmFtZSwgYXBwbGljYXRpb246IGFwcC5hcHBsaWNhdGlvbiwgYWxsb3dlZENhbGxlcjogYXBwLmFsbG93ZWRDYWxsZXIgfSkKCWJ5dGUgMHhjNDM1ZDVkMyAvLyBuYW1lZFBsdWdpblJlbW92ZWQoc3RyaW5nLHVpbnQ2NCxhZGRyZXNzKQoJYnl0ZSAweCAvLyBpbml0aWFsIGhlYWQKCWJ5dGUgMHggLy8gaW5pdGlhbCB0YWlsCglieXRlIDB4MDAyYSAvLyBpbml0aWFsIGhlYWQgb2Zmc2V0CglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCglkdXAKCWxlbgoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJY2FsbHN1YiAqcHJvY2Vzc19keW5hbWljX3R1cGxlX2VsZW1lbnQKCWludCAwCglpbnQgOAoJYnl0ZSAweDZlIC8vICJuIgoJZnJhbWVfZGlnIC0xIC8vIG5hbWU6IHN0cmluZwoJY29uY2F0Cgljb3ZlciAyCglib3hfZXh0cmFjdAoJYnRvaQoJaXRvYgoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJaW50IDggLy8gaGVhZE9mZnNldAoJaW50IDMyCglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWNvdmVyIDIKCWJveF9leHRyYWN0CgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50Cglwb3AgLy8gcG9wIGhlYWQgb2Zmc2V0Cgljb25jYXQgLy8gY29uY2F0IGhlYWQgYW5kIHRhaWwKCWNvbmNhdAoJbG9nCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE0NzkKCS8vIHRoaXMucmVmdW5kTWJyKG1iclJlY2VpdmVyLCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC0yIC8vIG1iclJlY2VpdmVyOiBBZGRyZXNzCgljYWxsc3ViIHJlZnVuZE1icgoJcmV0c3ViCgovLyBhcmM1OF91cGRhdGVOYW1lZFBsdWdpbihzdHJpbmcsdWludDY0LGFkZHJlc3MsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsYnl0ZVs0XVtdLHBheSl2b2lkCiphYmlfcm91dGVfYXJjNThfdXBkYXRlTmFtZWRQbHVnaW46CgkvLyBtYnJQYXltZW50OiBwYXkKCXR4biBHcm91cEluZGV4CglpbnQgMQoJLQoJZHVwCglndHhucyBUeXBlRW51bQoJaW50IHBheQoJPT0KCWFzc2VydAoKCS8vIG1ldGhvZHM6IGJ5dGVbNF1bXQoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgOQoJZXh0cmFjdCAyIDAKCgkvLyBtYXhVc2VzOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDgKCWJ0b2kKCgkvLyBjb29sZG93bjogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyA3CglidG9pCgoJLy8gdXNlUm91bmRzOiBib29sCgl0eG5hIEFwcGxpY2F0aW9uQXJncyA2CglkdXAKCWxlbgoJaW50IDEKCT09Cglhc3NlcnQKCWludCAwCglnZXRiaXQKCgkvLyBlbmQ6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNQoJYnRvaQoKCS8vIHN0YXJ0OiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDQKCWJ0b2kKCgkvLyBhbGxvd2VkQ2FsbGVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAzCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gYXBwOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWJ0b2kKCgkvLyBuYW1lOiBzdHJpbmcKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWV4dHJhY3QgMiAwCgoJLy8gZXhlY3V0ZSBhcmM1OF91cGRhdGVOYW1lZFBsdWdpbihzdHJpbmcsdWludDY0LGFkZHJlc3MsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsYnl0ZVs0XVtdLHBheSl2b2lkCgljYWxsc3ViIGFyYzU4X3VwZGF0ZU5hbWVkUGx1Z2luCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF91cGRhdGVOYW1lZFBsdWdpbihuYW1lOiBzdHJpbmcsIGFwcDogQXBwSUQsIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MsIHN0YXJ0OiB1aW50NjQsIGVuZDogdWludDY0LCB1c2VSb3VuZHM6IGJvb2xlYW4sIGNvb2xkb3duOiB1aW50NjQsIG1heFVzZXM6IHVpbnQ2NCwgbWV0aG9kczogYnl0ZXM8ND5bXSwgbWJyUGF5bWVudDogUGF5VHhuKTogdm9pZAovLwovLyBQb2ludCBhbiBleGlzdGluZyBuYW1lIGF0IGEgbmV3IHBsdWdpbiBwZXJtaXNzaW9uIGluIGEgc2luZ2xlIGNhbGwsIHNvIHRoZSBuYW1lIGNhbiBhbHdheXMgYmUgcmVrZXllZCB0by4KLy8gVGhlIHBlcm1pc3Npb24gdGhlIG5hbWUgcmVmZXJyZWQgdG8gaXMgcmVtb3ZlZCB1bmxlc3Mgc29tZXRoaW5nIGVsc2Ugc3RpbGwgcmVmZXJzIHRvIGl0LgovLwovLyBAcGFyYW0gbmFtZSBUaGUgcGx1Z2luIG5hbWUKLy8gQHBhcmFtIGFwcCBUaGUgcGx1Z2luIGFwcAovLyBAcGFyYW0gYWxsb3dlZENhbGxlciBUaGUgYWRkcmVzcyBvZiB0aGF0J3MgYWxsb3dlZCB0byBjYWxsIHRoZSBhcHAKLy8gb3IgdGhlIGdsb2JhbCB6ZXJvIGFkZHJlc3MgZm9yIGFsbCBhZGRyZXNzZXMKLy8gQHBhcmFtIHN0YXJ0IFRoZSB0aW1lc3RhbXAgKG9yIHJvdW5kKSB3aGVuIHRoZSBwZXJtaXNzaW9uIHN0YXJ0cywgb3IgemVybyB0byBzdGFydCBpbW1lZGlhdGVseQovLyBAcGFyYW0gZW5kIFRoZSB0aW1lc3RhbXAgKG9yIHJvdW5kKSB3aGVuIHRoZSBwZXJtaXNzaW9uIGV4cGlyZXMKLy8gQHBhcmFtIHVzZVJvdW5kcyBXaGV0aGVyIGBzdGFydGAsIGBlbmRgIGFuZCBgY29vbGRvd25gIGFyZSByb3VuZHMgcmF0aGVyIHRoYW4gdGltZXN0YW1wcwovLyBAcGFyYW0gY29vbGRvd24gVGhlIG1pbmltdW0gbnVtYmVyIG9mIHNlY29uZHMgKG9yIHJvdW5kcykgdGhhdCBtdXN0IHBhc3MgYmV0d2VlbiB1c2VzIG9mIHRoZSBwbHVnaW4KLy8gQHBhcmFtIG1heFVzZXMgVGhlIG1heGltdW0gbnVtYmVyIG9mIHRpbWVzIHRoZSBwbHVnaW4gY2FuIGJlIHVzZWQsIG9yIHplcm8gZm9yIG5vIG1heGltdW0KLy8gQHBhcmFtIG1ldGhvZHMgVGhlIG1ldGhvZCBzZWxlY3RvcnMgdGhlIGFsbG93ZWQgY2FsbGVyIG1heSBjYWxsIG9uIHRoZSBhcHAuIElmIGVtcHR5LCBhbGwgbWV0aG9kcyBhcmUgYWxsb3dlZAovLyBAcGFyYW0gbWJyUGF5bWVudCBBIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVyaW5nIGV4YWN0bHkgdGhlIE1CUiBhZGRlZCBieSB0aGlzIGNhbGwuCi8vIElmIHRoZSBjYWxsIGZyZWVzIE1CUiBpbnN0ZWFkLCB0aGUgcGF5bWVudCBtdXN0IGJlIHplcm8gYW5kIHRoZSBmcmVlZCBNQlIgaXMgc2VudCBiYWNrIHRvIGl0cyBzZW5kZXIKYXJjNThfdXBkYXRlTmFtZWRQbHVnaW46Cglwcm90byAxMCAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cG4gMgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTExCgkvLyB0aGlzLnZlcmlmeUNhblNldFBsdWdpbih0cnVlLCBlbmQsIHVzZVJvdW5kcykKCWZyYW1lX2RpZyAtNiAvLyB1c2VSb3VuZHM6IGJvb2xlYW4KCWZyYW1lX2RpZyAtNSAvLyBlbmQ6IHVpbnQ2NAoJaW50IDEKCWNhbGxzdWIgdmVyaWZ5Q2FuU2V0UGx1Z2luCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1MTIKCS8vIHByZU1CUiA9IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9idXJ5IDAgLy8gcHJlTUJSOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTUxNAoJLy8gb2xkS2V5ID0gdGhpcy5uYW1lZFBsdWdpbnMobmFtZSkudmFsdWUKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWNvbmNhdAoJZnJhbWVfYnVyeSAxIC8vIHN0b3JhZ2Uga2V5Ly9vbGRLZXkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTUxNQoJLy8gdGhpcy5yZWxlYXNlUGx1Z2luKG9sZEtleSwgdHJ1ZSkKCWludCAxCglmcmFtZV9kaWcgMSAvLyBzdG9yYWdlIGtleS8vb2xkS2V5Cglib3hfZ2V0Cglhc3NlcnQKCWNhbGxzdWIgcmVsZWFzZVBsdWdpbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTE2CgkvLyB0aGlzLm5hbWVkUGx1Z2luUmVtb3ZlZC5sb2coeyBuYW1lOiBuYW1lLCBhcHBsaWNhdGlvbjogb2xkS2V5LmFwcGxpY2F0aW9uLCBhbGxvd2VkQ2FsbGVyOiBvbGRLZXkuYWxsb3dlZENhbGxlciB9KQoJYnl0ZSAweGM0MzVkNWQzIC8vIG5hbWVkUGx1Z2luUmVtb3ZlZChzdHJpbmcsdWludDY0LGFkZHJlc3MpCglieXRlIDB4IC8vIGluaXRpYWwgaGVhZAoJYnl0ZSAweCAvLyBpbml0aWFsIHRhaWwKCWJ5dGUgMHgwMDJhIC8vIGluaXRpYWwgaGVhZCBvZmZzZXQKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWR1cAoJbGVuCglpdG9iCglleHRyYWN0IDYgMgoJc3dhcAoJY29uY2F0CgljYWxsc3ViICpwcm9jZXNzX2R5bmFtaWNfdHVwbGVfZWxlbWVudAoJaW50IDAKCWludCA4CglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWNvdmVyIDIKCWJveF9leHRyYWN0CglidG9pCglpdG9iCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50CglpbnQgOCAvLyBoZWFkT2Zmc2V0CglpbnQgMzIKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWNvbmNhdAoJY292ZXIgMgoJYm94X2V4dHJhY3QKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCXBvcCAvLyBwb3AgaGVhZCBvZmZzZXQKCWNvbmNhdCAvLyBjb25jYXQgaGVhZCBhbmQgdGFpbAoJY29uY2F0Cglsb2cKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTUxOAoJLy8ga2V5OiBQbHVnaW5zS2V5ID0geyBhcHBsaWNhdGlvbjogYXBwLCBhbGxvd2VkQ2FsbGVyOiBhbGxvd2VkQ2FsbGVyIH0KCWZyYW1lX2RpZyAtMiAvLyBhcHA6IEFwcElECglpdG9iCglmcmFtZV9kaWcgLTMgLy8gYWxsb3dlZENhbGxlcjogQWRkcmVzcwoJY29uY2F0CglmcmFtZV9idXJ5IDIgLy8ga2V5OiBQbHVnaW5zS2V5CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1MTkKCS8vIHRoaXMubmFtZWRQbHVnaW5zKG5hbWUpLnZhbHVlID0ga2V5CglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWZyYW1lX2RpZyAyIC8vIGtleTogUGx1Z2luc0tleQoJYm94X3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTIwCgkvLyB0aGlzLnNldFBsdWdpbihrZXksIHN0YXJ0LCBlbmQsIHVzZVJvdW5kcywgY29vbGRvd24sIG1heFVzZXMsIG1ldGhvZHMsIHRydWUsIDApCglpbnQgMAoJaW50IDEKCWZyYW1lX2RpZyAtOSAvLyBtZXRob2RzOiBieXRlczw0PltdCglmcmFtZV9kaWcgLTggLy8gbWF4VXNlczogdWludDY0CglmcmFtZV9kaWcgLTcgLy8gY29vbGRvd246IHVpbnQ2NAoJZnJhbWVfZGlnIC02IC8vIHVzZVJvdW5kczogYm9vbGVhbgoJZnJhbWVfZGlnIC01IC8vIGVuZDogdWludDY0CglmcmFtZV9kaWcgLTQgLy8gc3RhcnQ6IHVpbnQ2NAoJZnJhbWVfZGlnIDIgLy8ga2V5OiBQbHVnaW5zS2V5CgljYWxsc3ViIHNldFBsdWdpbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTIxCgkvLyB0aGlzLm5hbWVkUGx1Z2luQWRkZWQubG9nKHsgbmFtZTogbmFtZSwgYXBwbGljYXRpb246IGFwcCwgYWxsb3dlZENhbGxlcjogYWxsb3dlZENhbGxlciB9KQoJYnl0ZSAweDg5OTc4YzQ4IC8vIG5hbWVkUGx1Z2luQWRkZWQoc3RyaW5nLHVpbnQ2NCxhZGRyZXNzKQoJYnl0ZSAweCAvLyBpbml0aWFsIGhlYWQKCWJ5dGUgMHggLy8gaW5pdGlhbCB0YWlsCglieXRlIDB4MDAyYSAvLyBpbml0aWFsIGhlYWQgb2Zmc2V0CglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCglkdXAKCWxlbgoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJY2FsbHN1YiAqcHJvY2Vzc19keW5hbWljX3R1cGxlX2VsZW1lbnQKCWZyYW1lX2RpZyAtMiAvLyBhcHA6IEFwcElECglpdG9iCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50CglmcmFtZV9kaWcgLTMgLy8gYWxsb3dlZENhbGxlcjogQWRkcmVzcwoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJcG9wIC8vIHBvcCBoZWFkIG9mZnNldAoJY29uY2F0IC8vIGNvbmNhdCBoZWFkIGFuZCB0YWlsCgljb25jYXQKCWxvZwoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTIzCgkvLyB0aGlzLnZlcmlmeU1iclBheW1lbnQobWJyUGF5bWVudCwgcHJlTUJSKQoJZnJhbWVfZGlnIDAgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtMTAgLy8gbWJyUGF5bWVudDogUGF5VHhuCgljYWxsc3ViIHZlcmlmeU1iclBheW1lbnQKCXJldHN1YgoKLy8gYXJjNThfcmVuYW1lTmFtZWRQbHVnaW4oc3RyaW5nLHN0cmluZyxwYXkpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3JlbmFtZU5hbWVkUGx1Z2luOgoJLy8gbWJyUGF5bWVudDogcGF5Cgl0eG4gR3JvdXBJbmRleAoJaW50IDEKCS0KCWR1cAoJZ3R4bnMgVHlwZUVudW0KCWludCBwYXkKCT09Cglhc3NlcnQKCgkvLyBuZXdOYW1lOiBzdHJpbmcKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWV4dHJhY3QgMiAwCgoJLy8gbmFtZTogc3RyaW5nCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglleHRyYWN0IDIgMAoKCS8vIGV4ZWN1dGUgYXJjNThfcmVuYW1lTmFtZWRQbHVnaW4oc3RyaW5nLHN0cmluZyxwYXkpdm9pZAoJY2FsbHN1YiBhcmM1OF9yZW5hbWVOYW1lZFBsdWdpbgoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmVuYW1lTmFtZWRQbHVnaW4obmFtZTogc3RyaW5nLCBuZXdOYW1lOiBzdHJpbmcsIG1iclBheW1lbnQ6IFBheVR4bik6IHZvaWQKLy8KLy8gR2l2ZSBhIG5hbWVkIHBsdWdpbiBhIG5ldyBuYW1lIGluIGEgc2luZ2xlIGNhbGwuIFRoZSBwbHVnaW4gcGVybWlzc2lvbiBpcyBub3QgY2hhbmdlZC4KLy8KLy8gQHBhcmFtIG5hbWUgVGhlIGN1cnJlbnQgbmFtZQovLyBAcGFyYW0gbmV3TmFtZSBUaGUgbmV3IG5hbWUsIHdoaWNoIG11c3Qgbm90IGJlIGluIHVzZQovLyBAcGFyYW0gbWJyUGF5bWVudCBBIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVyaW5nIGV4YWN0bHkgdGhlIE1CUiBhZGRlZCBieSB0aGUgbG9uZ2VyIG5hbWUuCi8vIElmIHRoZSBuZXcgbmFtZSBpcyBzaG9ydGVyLCB0aGUgcGF5bWVudCBtdXN0IGJlIHplcm8gYW5kIHRoZSBmcmVlZCBNQlIgaXMgc2VudCBiYWNrIHRvIGl0cyBzZW5kZXIKYXJjNThfcmVuYW1lTmFtZWRQbHVnaW46Cglwcm90byAzIDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoJZHVwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1MzUKCS8vIHRoaXMudmVyaWZ5Q2FuU2V0UGx1Z2luKHRydWUsIDAsIGZhbHNlKQoJaW50IDAKCWR1cAoJaW50IDEKCWNhbGxzdWIgdmVyaWZ5Q2FuU2V0UGx1Z2luCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1MzYKCS8vIGFzc2VydCghdGhpcy5uYW1lZFBsdWdpbnMobmV3TmFtZSkuZXhpc3RzKQoJYnl0ZSAweDZlIC8vICJuIgoJZnJhbWVfZGlnIC0yIC8vIG5ld05hbWU6IHN0cmluZwoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCSEKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTM3CgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1MzkKCS8vIGtleSA9IHRoaXMubmFtZWRQbHVnaW5zKG5hbWUpLnZhbHVlCglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWZyYW1lX2J1cnkgMSAvLyBzdG9yYWdlIGtleS8va2V5CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1NDAKCS8vIHRoaXMubmFtZWRQbHVnaW5zKG5hbWUpLmRlbGV0ZSgpCglieXRlIDB4NmUgLy8gIm4iCglmcmFtZV9kaWcgLTEgLy8gbmFtZTogc3RyaW5nCgljb25jYXQKCWJveF9kZWwKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTU0MQoJLy8gdGhpcy5uYW1lZFBsdWdpbnMobmV3TmFtZSkudmFsdWUgPSBrZXkKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyAtMiAvLyBuZXdOYW1lOiBzdHJpbmcKCWNvbmNhdAoJZnJhbWVfZGlnIDEgLy8gc3RvcmFnZSBrZXkvL2tleQoJYm94X2dldAoJYXNzZXJ0Cglib3hfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1NDMKCS8vIHRoaXMubmFtZWRQbHVnaW5SZW1vdmVkLmxvZyh7IG5hbWU6IG5hbWUsIGFwcGxpY2F0aW9uOiBrZXkuYXBwbGljYXRpb24sIGFsbG93ZWRDYWxsZXI6IGtleS5hbGxvd2VkQ2FsbGVyIH0pCglieXRlIDB4YzQzNWQ1ZDMgLy8gbmFtZWRQbHVnaW5SZW1vdmVkKHN0cmluZyx1aW50NjQsYWRkcmVzcykKCWJ5dGUgMHggLy8gaW5pdGlhbCBoZWFkCglieXRlIDB4IC8vIGluaXRpYWwgdGFpbAoJYnl0ZSAweDAwMmEgLy8gaW5pdGlhbCBoZWFkIG9mZnNldAoJZnJhbWVfZGlnIC0xIC8vIG5hbWU6IHN0cmluZwoJZHVwCglsZW4KCWl0b2IKCWV4dHJhY3QgNiAyCglzd2FwCgljb25jYXQKCWNhbGxzdWIgKnByb2Nlc3NfZHluYW1pY190dXBsZV9lbGVtZW50CglpbnQgMAoJaW50IDgKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWNvbmNhdAoJY292ZXIgMgoJYm94X2V4dHJhY3QKCWJ0b2kKCWl0b2IKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWludCA4IC8vIGhlYWRPZmZzZXQKCWludCAzMgoJYnl0ZSAweDZlIC8vICJuIgoJZnJhbWVfZGlnIC0xIC8vIG5hbWU6IHN0cmluZwoJY29uY2F0Cgljb3ZlciAyCglib3hfZXh0cmFjdAoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJcG9wIC8vIHBvcCBoZWFkIG9mZnNldAoJY29uY2F0IC8vIGNvbmNhdCBoZWFkIGFuZCB0YWlsCgljb25jYXQKCWxvZwoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTQ0CgkvLyB0aGlzLm5hbWVkUGx1Z2luQWRkZWQubG9nKHsgbmFtZTogbmV3TmFtZSwgYXBwbGljYXRpb246IGtleS5hcHBsaWNhdGlvbiwgYWxsb3dlZENhbGxlcjoga2V5LmFsbG93ZWRDYWxsZXIgfSkKCWJ5dGUgMHg4OTk3OGM0OCAvLyBuYW1lZFBsdWdpbkFkZGVkKHN0cmluZyx1aW50NjQsYWRkcmVzcykKCWJ5dGUgMHggLy8gaW5pdGlhbCBoZWFkCglieXRlIDB4IC8vIGluaXRpYWwgdGFpbAoJYnl0ZSAweDAwMmEgLy8gaW5pdGlhbCBoZWFkIG9mZnNldAoJZnJhbWVfZGlnIC0yIC8vIG5ld05hbWU6IHN0cmluZwoJZHVwCglsZW4KCWl0b2IKCWV4dHJhY3QgNiAyCglzd2FwCgljb25jYXQKCWNhbGxzdWIgKnByb2Nlc3NfZHluYW1pY190dXBsZV9lbGVtZW50CglpbnQgMAoJaW50IDgKCWJ5dGUgMHg2ZSAvLyAibiIKCWZyYW1lX2RpZyAtMSAvLyBuYW1lOiBzdHJpbmcKCWNvbmNhdAoJY292ZXIgMgoJYm94X2V4dHJhY3QKCWJ0b2kKCWl0b2IKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWludCA4IC8vIGhlYWRPZmZzZXQKCWludCAzMgoJYnl0ZSAweDZlIC8vICJuIgoJZnJhbWVfZGlnIC0xIC8vIG5hbWU6IHN0cmluZwoJY29uY2F0Cgljb3ZlciAyCglib3hfZXh0cmFjdAoJY2FsbHN1YiAqcHJvY2Vzc19zdGF0aWNfdHVwbGVfZWxlbWVudAoJcG9wIC8vIHBvcCBoZWFkIG9mZnNldAoJY29uY2F0IC8vIGNvbmNhdCBoZWFkIGFuZCB0YWlsCgljb25jYXQKCWxvZwoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTQ2CgkvLyB0aGlzLnZlcmlmeU1iclBheW1lbnQobWJyUGF5bWVudCwgcHJlTUJSKQoJZnJhbWVfZGlnIDAgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtMyAvLyBtYnJQYXltZW50OiBQYXlUeG4KCWNhbGxzdWIgdmVyaWZ5TWJyUGF5bWVudAoJcmV0c3ViCgovLyBhcmM1OF9hZGRDYWxsZXJTZXRNZW1iZXIoc3RyaW5nLGFkZHJlc3MscGF5KXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9hZGRDYWxsZXJTZXRNZW1iZXI6CgkvLyBtYnJQYXltZW50OiBwYXkKCXR4biBHcm91cEluZGV4CglpbnQgMQoJLQoJZHVwCglndHhucyBUeXBlRW51bQoJaW50IHBheQoJPT0KCWFzc2VydAoKCS8vIG1lbWJlcjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGNhbGxlclNldDogc3RyaW5nCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglleHRyYWN0IDIgMAoKCS8vIGV4ZWN1dGUgYXJjNThfYWRkQ2FsbGVyU2V0TWVtYmVyKHN0cmluZyxhZGRyZXNzLHBheSl2b2lkCgljYWxsc3ViIGFyYzU4X2FkZENhbGxlclNldE1lbWJlcgoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfYWRkQ2FsbGVyU2V0TWVtYmVyKGNhbGxlclNldDogc3RyaW5nLCBtZW1iZXI6IEFkZHJlc3MsIG1iclBheW1lbnQ6IFBheVR4bik6IHZvaWQKLy8KLy8gQWRkIGEgbWVtYmVyIHRvIGEgY2FsbGVyIHNldC4gUGx1Z2lucyBhcmUgZ3JhbnRlZCB0byB0aGUgc2V0IGJ5IHVzaW5nIGl0cyBhZGRyZXNzLCB0aGUgc2hhMjU2IGhhc2ggb2YgaXRzIG5hbWUsCi8vIGFzIHRoZSBhbGxvd2VkIGNhbGxlci4KLy8KLy8gQHBhcmFtIGNhbGxlclNldCBUaGUgbmFtZSBvZiB0aGUgY2FsbGVyIHNldAovLyBAcGFyYW0gbWVtYmVyIFRoZSBhZGRyZXNzIHRvIGFkZAovLyBAcGFyYW0gbWJyUGF5bWVudCBBIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVyaW5nIGV4YWN0bHkgdGhlIE1CUiBvZiB0aGUgbWVtYmVyc2hpcCBib3gKYXJjNThfYWRkQ2FsbGVyU2V0TWVtYmVyOgoJcHJvdG8gMyAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTU1OAoJLy8gdGhpcy52ZXJpZnlBZG1pbigpCgljYWxsc3ViIHZlcmlmeUFkbWluCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1NTkKCS8vIHByZU1CUiA9IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9idXJ5IDAgLy8gcHJlTUJSOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTU2MQoJLy8gdGhpcy5jYWxsZXJTZXRNZW1iZXJzKHsgY2FsbGVyU2V0OiB0aGlzLmdldENhbGxlclNldEFkZHJlc3MoY2FsbGVyU2V0KSwgbWVtYmVyOiBtZW1iZXIgfSkudmFsdWUgPSAwCglieXRlIDB4NjMgLy8gImMiCglmcmFtZV9kaWcgLTEgLy8gY2FsbGVyU2V0OiBzdHJpbmcKCWNhbGxzdWIgZ2V0Q2FsbGVyU2V0QWRkcmVzcwoJZnJhbWVfZGlnIC0yIC8vIG1lbWJlcjogQWRkcmVzcwoJY29uY2F0Cgljb25jYXQKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwCglib3hfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1NjMKCS8vIHRoaXMudmVyaWZ5TWJyUGF5bWVudChtYnJQYXltZW50LCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC0zIC8vIG1iclBheW1lbnQ6IFBheVR4bgoJY2FsbHN1YiB2ZXJpZnlNYnJQYXltZW50CglyZXRzdWIKCi8vIGFyYzU4X3JlbW92ZUNhbGxlclNldE1lbWJlcihzdHJpbmcsYWRkcmVzcyxhZGRyZXNzKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9yZW1vdmVDYWxsZXJTZXRNZW1iZXI6CgkvLyBtYnJSZWNlaXZlcjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMwoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIG1lbWJlcjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGNhbGxlclNldDogc3RyaW5nCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglleHRyYWN0IDIgMAoKCS8vIGV4ZWN1dGUgYXJjNThfcmVtb3ZlQ2FsbGVyU2V0TWVtYmVyKHN0cmluZyxhZGRyZXNzLGFkZHJlc3Mpdm9pZAoJY2FsbHN1YiBhcmM1OF9yZW1vdmVDYWxsZXJTZXRNZW1iZXIKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3JlbW92ZUNhbGxlclNldE1lbWJlcihjYWxsZXJTZXQ6IHN0cmluZywgbWVtYmVyOiBBZGRyZXNzLCBtYnJSZWNlaXZlcjogQWRkcmVzcyk6IHZvaWQKLy8KLy8gUmVtb3ZlIGEgbWVtYmVyIGZyb20gYSBjYWxsZXIgc2V0Ci8vCi8vIEBwYXJhbSBjYWxsZXJTZXQgVGhlIG5hbWUgb2YgdGhlIGNhbGxlciBzZXQKLy8gQHBhcmFtIG1lbWJlciBUaGUgYWRkcmVzcyB0byByZW1vdmUKLy8gQHBhcmFtIG1iclJlY2VpdmVyIFRoZSBhZGRyZXNzIHRvIHNlbmQgdGhlIE1CUiBmcmVlZCBieSByZW1vdmluZyB0aGUgbWVtYmVyIHRvCmFyYzU4X3JlbW92ZUNhbGxlclNldE1lbWJlcjoKCXByb3RvIDMgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1NzQKCS8vIHRoaXMudmVyaWZ5Q2FuUmVtb3ZlUGx1Z2luKCkKCWNhbGxzdWIgdmVyaWZ5Q2FuUmVtb3ZlUGx1Z2luCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1NzUKCS8vIHByZU1CUiA9IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9idXJ5IDAgLy8gcHJlTUJSOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTU3NwoJLy8gdGhpcy5jYWxsZXJTZXRNZW1iZXJzKHsgY2FsbGVyU2V0OiB0aGlzLmdldENhbGxlclNldEFkZHJlc3MoY2FsbGVyU2V0KSwgbWVtYmVyOiBtZW1iZXIgfSkuZGVsZXRlKCkKCWJ5dGUgMHg2MyAvLyAiYyIKCWZyYW1lX2RpZyAtMSAvLyBjYWxsZXJTZXQ6IHN0cmluZwoJY2FsbHN1YiBnZXRDYWxsZXJTZXRBZGRyZXNzCglmcmFtZV9kaWcgLTIgLy8gbWVtYmVyOiBBZGRyZXNzCgljb25jYXQKCWNvbmNhdAoJYm94X2RlbAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTc5CgkvLyB0aGlzLnJlZnVuZE1icihtYnJSZWNlaXZlciwgcHJlTUJSKQoJZnJhbWVfZGlnIDAgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtMyAvLyBtYnJSZWNlaXZlcjogQWRkcmVzcwoJY2FsbHN1YiByZWZ1bmRNYnIKCXJldHN1YgoKLy8gYXJjNThfc2V0UGx1Z2luR2F0ZSh1aW50NjQsYWRkcmVzcyx1aW50NjQsdWludDY0KXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9zZXRQbHVnaW5HYXRlOgoJLy8gYW1vdW50OiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDQKCWJ0b2kKCgkvLyBhc3NldDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAzCglidG9pCgoJLy8gYWxsb3dlZENhbGxlcjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGFwcDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglidG9pCgoJLy8gZXhlY3V0ZSBhcmM1OF9zZXRQbHVnaW5HYXRlKHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCx1aW50NjQpdm9pZAoJY2FsbHN1YiBhcmM1OF9zZXRQbHVnaW5HYXRlCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9zZXRQbHVnaW5HYXRlKGFwcDogQXBwSUQsIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MsIGFzc2V0OiBBc3NldElELCBhbW91bnQ6IHVpbnQ2NCk6IHZvaWQKLy8KLy8gT25seSBsZXQgY2FsbGVycyB0aGF0IGhvbGQgYXQgbGVhc3QgYGFtb3VudGAgb2YgYGFzc2V0YCB1c2UgYSBwbHVnaW4gcGVybWlzc2lvbi4KLy8gV2l0aCB0aGUgZ2xvYmFsIHplcm8gYWRkcmVzcyBhcyB0aGUgYWxsb3dlZCBjYWxsZXIsIHRoaXMgZ3JhbnRzIHRoZSBwbHVnaW4gdG8gZXZlcnkgaG9sZGVyIG9mIHRoZSBhc3NldC4KLy8KLy8gQHBhcmFtIGFwcCBUaGUgcGx1Z2luIGFwcAovLyBAcGFyYW0gYWxsb3dlZENhbGxlciBUaGUgYWxsb3dlZCBjYWxsZXIgb2YgdGhlIHBsdWdpbiBwZXJtaXNzaW9uIHRvIGdhdGUKLy8gQHBhcmFtIGFzc2V0IFRoZSBhc3NldCB0aGUgY2FsbGVyIG11c3QgaG9sZAovLyBAcGFyYW0gYW1vdW50IFRoZSBhbW91bnQgdGhlIGNhbGxlciBtdXN0IGhvbGQsIG9yIHplcm8gdG8gcmVtb3ZlIHRoZSBnYXRlCmFyYzU4X3NldFBsdWdpbkdhdGU6Cglwcm90byA0IDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoJZHVwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1OTIKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNTk0CgkvLyBrZXk6IFBsdWdpbnNLZXkgPSB7IGFwcGxpY2F0aW9uOiBhcHAsIGFsbG93ZWRDYWxsZXI6IGFsbG93ZWRDYWxsZXIgfQoJZnJhbWVfZGlnIC0xIC8vIGFwcDogQXBwSUQKCWl0b2IKCWZyYW1lX2RpZyAtMiAvLyBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzCgljb25jYXQKCWZyYW1lX2J1cnkgMCAvLyBrZXk6IFBsdWdpbnNLZXkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTU5NQoJLy8gaW5mbyA9IGNsb25lKHRoaXMucGx1Z2lucyhrZXkpLnZhbHVlKQoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIDAgLy8ga2V5OiBQbHVnaW5zS2V5Cgljb25jYXQKCWJveF9nZXQKCWFzc2VydAoJZnJhbWVfYnVyeSAxIC8vIGluZm86ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1OTYKCS8vIGluZm8uZ2F0ZUFzc2V0ID0gYXNzZXQKCWZyYW1lX2RpZyAxIC8vIGluZm86ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDcxCglmcmFtZV9kaWcgLTMgLy8gYXNzZXQ6IEFzc2V0SUQKCWl0b2IKCXJlcGxhY2UzCglmcmFtZV9idXJ5IDEgLy8gaW5mbzogKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTU5NwoJLy8gaW5mby5nYXRlQW1vdW50ID0gYW1vdW50CglmcmFtZV9kaWcgMSAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCA4MAoJZnJhbWVfZGlnIC00IC8vIGFtb3VudDogdWludDY0CglpdG9iCglyZXBsYWNlMwoJZnJhbWVfYnVyeSAxIC8vIGluZm86ICh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE1OTgKCS8vIHRoaXMucGx1Z2lucyhrZXkpLnZhbHVlID0gaW5mbwoJYnl0ZSAweDcwIC8vICJwIgoJZnJhbWVfZGlnIDAgLy8ga2V5OiBQbHVnaW5zS2V5Cgljb25jYXQKCWR1cAoJYm94X2RlbAoJcG9wCglmcmFtZV9kaWcgMSAvLyBpbmZvOiAodWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsYnl0ZVszMl0sYnl0ZVs0XVtdKQoJYm94X3B1dAoJcmV0c3ViCgovLyBhcmM1OF9zZXRGZWVCdWRnZXQodWludDY0LHVpbnQ2NCx1aW50NjQscGF5KXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9zZXRGZWVCdWRnZXQ6CgkvLyBtYnJQYXltZW50OiBwYXkKCXR4biBHcm91cEluZGV4CglpbnQgMQoJLQoJZHVwCglndHhucyBUeXBlRW51bQoJaW50IHBheQoJPT0KCWFzc2VydAoKCS8vIG1heEZlZTogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAzCglidG9pCgoJLy8gYnVkZ2V0OiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWJ0b2kKCgkvLyBwbHVnaW46IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJYnRvaQoKCS8vIGV4ZWN1dGUgYXJjNThfc2V0RmVlQnVkZ2V0KHVpbnQ2NCx1aW50NjQsdWludDY0LHBheSl2b2lkCgljYWxsc3ViIGFyYzU4X3NldEZlZUJ1ZGdldAoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfc2V0RmVlQnVkZ2V0KHBsdWdpbjogQXBwSUQsIGJ1ZGdldDogdWludDY0LCBtYXhGZWU6IHVpbnQ2NCwgbWJyUGF5bWVudDogUGF5VHhuKTogdm9pZAovLwovLyBMZXQgdGhlIGFic3RyYWN0ZWQgYWNjb3VudCByZWltYnVyc2UgdGhlIGZlZXMgb2Ygd2hvZXZlciB1c2VzIGEgcGx1Z2luLCBzbyBjYWxsZXJzIGxpa2Uga2VlcGVyIGJvdHMKLy8gZG9uJ3Qgc3BlbmQgQUxHTy4gUmVwbGFjZXMgdGhlIHJlbWFpbmluZyBidWRnZXQgb2YgdGhlIHBsdWdpbi4KLy8KLy8gQHBhcmFtIHBsdWdpbiBUaGUgcGx1Z2luIGFwcAovLyBAcGFyYW0gYnVkZ2V0IFRoZSB0b3RhbCBhbW91bnQgb2YgbWljcm9BbGdvcyB0aGF0IGNhbiBiZSBzcGVudCBvbiBmZWVzIGZvciB0aGUgcGx1Z2luCi8vIEBwYXJhbSBtYXhGZWUgVGhlIG1vc3QgdGhhdCBpcyByZWltYnVyc2VkIGZvciB0aGUgZmVlIG9mIGEgc2luZ2xlIHRyYW5zYWN0aW9uLCB3aGljaCBzaG91bGQgY292ZXIgdGhlIHBsdWdpbidzCi8vIGlubmVyIHRyYW5zYWN0aW9ucwovLyBAcGFyYW0gbWJyUGF5bWVudCBBIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVyaW5nIGV4YWN0bHkgdGhlIE1CUiBvZiB0aGUgYnVkZ2V0IGJveCwgaWYgaXQgaXMgbmV3CmFyYzU4X3NldEZlZUJ1ZGdldDoKCXByb3RvIDQgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE2MTIKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjEzCgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE2MTUKCS8vIHRoaXMuZmVlQnVkZ2V0cyhwbHVnaW4pLnZhbHVlID0geyBidWRnZXQ6IGJ1ZGdldCwgbWF4RmVlOiBtYXhGZWUgfQoJYnl0ZSAweDY2IC8vICJmIgoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWl0b2IKCWNvbmNhdAoJZnJhbWVfZGlnIC0yIC8vIGJ1ZGdldDogdWludDY0CglpdG9iCglmcmFtZV9kaWcgLTMgLy8gbWF4RmVlOiB1aW50NjQKCWl0b2IKCWNvbmNhdAoJYm94X3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjE3CgkvLyB0aGlzLnZlcmlmeU1iclBheW1lbnQobWJyUGF5bWVudCwgcHJlTUJSKQoJZnJhbWVfZGlnIDAgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtNCAvLyBtYnJQYXltZW50OiBQYXlUeG4KCWNhbGxzdWIgdmVyaWZ5TWJyUGF5bWVudAoJcmV0c3ViCgovLyBhcmM1OF9yZW1vdmVGZWVCdWRnZXQodWludDY0LGFkZHJlc3Mpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3JlbW92ZUZlZUJ1ZGdldDoKCS8vIG1iclJlY2VpdmVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAyCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gcGx1Z2luOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X3JlbW92ZUZlZUJ1ZGdldCh1aW50NjQsYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X3JlbW92ZUZlZUJ1ZGdldAoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmVtb3ZlRmVlQnVkZ2V0KHBsdWdpbjogQXBwSUQsIG1iclJlY2VpdmVyOiBBZGRyZXNzKTogdm9pZAovLwovLyBTdG9wIHJlaW1idXJzaW5nIHRoZSBmZWVzIG9mIGEgcGx1Z2luJ3MgY2FsbGVycwovLwovLyBAcGFyYW0gcGx1Z2luIFRoZSBwbHVnaW4gYXBwCi8vIEBwYXJhbSBtYnJSZWNlaXZlciBUaGUgYWRkcmVzcyB0byBzZW5kIHRoZSBNQlIgZnJlZWQgYnkgcmVtb3ZpbmcgdGhlIGJ1ZGdldCB0bwphcmM1OF9yZW1vdmVGZWVCdWRnZXQ6Cglwcm90byAyIDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjI3CgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTYyOAoJLy8gcHJlTUJSID0gdGhpcy5hcHAuYWRkcmVzcy5taW5CYWxhbmNlCglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCglwb3AKCWZyYW1lX2J1cnkgMCAvLyBwcmVNQlI6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjMwCgkvLyB0aGlzLmZlZUJ1ZGdldHMocGx1Z2luKS5kZWxldGUoKQoJYnl0ZSAweDY2IC8vICJmIgoJZnJhbWVfZGlnIC0xIC8vIHBsdWdpbjogQXBwSUQKCWl0b2IKCWNvbmNhdAoJYm94X2RlbAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjMyCgkvLyB0aGlzLnJlZnVuZE1icihtYnJSZWNlaXZlciwgcHJlTUJSKQoJZnJhbWVfZGlnIDAgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtMiAvLyBtYnJSZWNlaXZlcjogQWRkcmVzcwoJY2FsbHN1YiByZWZ1bmRNYnIKCXJldHN1YgoKLy8gYXJjNThfc2V0U3BlbmRpbmdMaW1pdCh1aW50NjQsYWRkcmVzcyx1aW50NjQsdWludDY0LHVpbnQ2NCxwYXkpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3NldFNwZW5kaW5nTGltaXQ6CgkvLyBtYnJQYXltZW50OiBwYXkKCXR4biBHcm91cEluZGV4CglpbnQgMQoJLQoJZHVwCglndHhucyBUeXBlRW51bQoJaW50IHBheQoJPT0KCWFzc2VydAoKCS8vIHBlcmlvZDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyA1CglidG9pCgoJLy8gYW1vdW50OiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDQKCWJ0b2kKCgkvLyBhc3NldDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAzCglidG9pCgoJLy8gYWxsb3dlZENhbGxlcjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGFwcDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglidG9pCgoJLy8gZXhlY3V0ZSBhcmM1OF9zZXRTcGVuZGluZ0xpbWl0KHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCx1aW50NjQsdWludDY0LHBheSl2b2lkCgljYWxsc3ViIGFyYzU4X3NldFNwZW5kaW5nTGltaXQKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3NldFNwZW5kaW5nTGltaXQoYXBwOiBBcHBJRCwgYWxsb3dlZENhbGxlcjogQWRkcmVzcywgYXNzZXQ6IHVpbnQ2NCwgYW1vdW50OiB1aW50NjQsIHBlcmlvZDogdWludDY0LCBtYnJQYXltZW50OiBQYXlUeG4pOiB2b2lkCi8vCi8vIFNldCBob3cgbXVjaCBhIHBsdWdpbiBtYXkgc3BlbmQgb2YgYW4gYXNzZXQgd2l0aGluIGEgcGVyaW9kLiBSZXBsYWNlcyBhbnkgZXhpc3RpbmcgbGltaXQgZm9yIHRoZSBhc3NldC4KLy8gVGhlIGxpbWl0cyBhcmUgY2hlY2tlZCB3aGVuIGFyYzU4X3ZlcmlmeUF1dGhBZGRyIGlzIGNhbGxlZCBhZnRlciB0aGUgcGx1Z2luIGhhcyBiZWVuIHVzZWQuCi8vCi8vIEBwYXJhbSBhcHAgVGhlIHBsdWdpbiBhcHAKLy8gQHBhcmFtIGFsbG93ZWRDYWxsZXIgVGhlIGFsbG93ZWQgY2FsbGVyIG9mIHRoZSBwbHVnaW4gcGVybWlzc2lvbiB0aGUgbGltaXQgYXBwbGllcyB0bwovLyBAcGFyYW0gYXNzZXQgVGhlIGFzc2V0IHRvIGxpbWl0LCBvciB6ZXJvIGZvciBBTEdPCi8vIEBwYXJhbSBhbW91bnQgVGhlIG1heGltdW0gYW1vdW50IHRoYXQgY2FuIGJlIHNwZW50IHdpdGhpbiBhIHBlcmlvZAovLyBAcGFyYW0gcGVyaW9kIFRoZSBsZW5ndGggb2YgYSBwZXJpb2QgaW4gc2Vjb25kcwovLyBAcGFyYW0gbWJyUGF5bWVudCBBIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVyaW5nIGV4YWN0bHkgdGhlIE1CUiBhZGRlZCBieSB0aGUgbGltaXQsIGlmIGl0IGlzIG5ldwphcmM1OF9zZXRTcGVuZGluZ0xpbWl0OgoJcHJvdG8gNiAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjU0CgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTY1NQoJLy8gcHJlTUJSID0gdGhpcy5hcHAuYWRkcmVzcy5taW5CYWxhbmNlCglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCglwb3AKCWZyYW1lX2J1cnkgMCAvLyBwcmVNQlI6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjU3CgkvLyBrZXk6IFBsdWdpbnNLZXkgPSB7IGFwcGxpY2F0aW9uOiBhcHAsIGFsbG93ZWRDYWxsZXI6IGFsbG93ZWRDYWxsZXIgfQoJZnJhbWVfZGlnIC0xIC8vIGFwcDogQXBwSUQKCWl0b2IKCWZyYW1lX2RpZyAtMiAvLyBhbGxvd2VkQ2FsbGVyOiBBZGRyZXNzCgljb25jYXQKCWZyYW1lX2J1cnkgMSAvLyBrZXk6IFBsdWdpbnNLZXkKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTY1OAoJLy8gdGhpcy5zZXRTcGVuZGluZ0xpbWl0KGtleSwgewoJLy8gICAgICAgYXNzZXQ6IEFzc2V0SUQuZnJvbVVpbnQ2NChhc3NldCksCgkvLyAgICAgICBhbW91bnQ6IGFtb3VudCwKCS8vICAgICAgIHBlcmlvZDogcGVyaW9kLAoJLy8gICAgICAgcGVyaW9kU3RhcnQ6IGdsb2JhbHMubGF0ZXN0VGltZXN0YW1wLAoJLy8gICAgICAgc3BlbnQ6IDAsCgkvLyAgICAgICBiYWxhbmNlQmVmb3JlOiAwLAoJLy8gICAgIH0pCglmcmFtZV9kaWcgLTMgLy8gYXNzZXQ6IHVpbnQ2NAoJaXRvYgoJZnJhbWVfZGlnIC00IC8vIGFtb3VudDogdWludDY0CglpdG9iCgljb25jYXQKCWZyYW1lX2RpZyAtNSAvLyBwZXJpb2Q6IHVpbnQ2NAoJaXRvYgoJY29uY2F0CglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCglpdG9iCgljb25jYXQKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwCgljb25jYXQKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwCgljb25jYXQKCWZyYW1lX2RpZyAxIC8vIGtleTogUGx1Z2luc0tleQoJY2FsbHN1YiBzZXRTcGVuZGluZ0xpbWl0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE2NjcKCS8vIHRoaXMudmVyaWZ5TWJyUGF5bWVudChtYnJQYXltZW50LCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC02IC8vIG1iclBheW1lbnQ6IFBheVR4bgoJY2FsbHN1YiB2ZXJpZnlNYnJQYXltZW50CglyZXRzdWIKCi8vIGFyYzU4X3JlbW92ZVNwZW5kaW5nTGltaXQodWludDY0LGFkZHJlc3MsdWludDY0LGFkZHJlc3Mpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3JlbW92ZVNwZW5kaW5nTGltaXQ6CgkvLyBtYnJSZWNlaXZlcjogYWRkcmVzcwoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNAoJZHVwCglsZW4KCWludCAzMgoJPT0KCWFzc2VydAoKCS8vIGFzc2V0OiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWJ0b2kKCgkvLyBhbGxvd2VkQ2FsbGVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAyCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gYXBwOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGFyYzU4X3JlbW92ZVNwZW5kaW5nTGltaXQodWludDY0LGFkZHJlc3MsdWludDY0LGFkZHJlc3Mpdm9pZAoJY2FsbHN1YiBhcmM1OF9yZW1vdmVTcGVuZGluZ0xpbWl0CglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9yZW1vdmVTcGVuZGluZ0xpbWl0KGFwcDogQXBwSUQsIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MsIGFzc2V0OiB1aW50NjQsIG1iclJlY2VpdmVyOiBBZGRyZXNzKTogdm9pZAovLwovLyBSZW1vdmUgdGhlIHNwZW5kaW5nIGxpbWl0IGZvciBhbiBhc3NldCBmcm9tIGEgcGx1Z2luCi8vCi8vIEBwYXJhbSBhcHAgVGhlIHBsdWdpbiBhcHAKLy8gQHBhcmFtIGFsbG93ZWRDYWxsZXIgVGhlIGFsbG93ZWQgY2FsbGVyIG9mIHRoZSBwbHVnaW4gcGVybWlzc2lvbiB0aGUgbGltaXQgYXBwbGllcyB0bwovLyBAcGFyYW0gYXNzZXQgVGhlIGFzc2V0IHRvIHJlbW92ZSB0aGUgbGltaXQgZm9yLCBvciB6ZXJvIGZvciBBTEdPCi8vIEBwYXJhbSBtYnJSZWNlaXZlciBUaGUgYWRkcmVzcyB0byBzZW5kIHRoZSBNQlIgZnJlZWQgYnkgcmVtb3ZpbmcgdGhlIGxpbWl0IHRvCmFyYzU4X3JlbW92ZVNwZW5kaW5nTGltaXQ6Cglwcm90byA0IDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoJZHVwbiAzCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE2NzkKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjgwCgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE2ODIKCS8vIGtleTogUGx1Z2luc0tleSA9IHsgYXBwbGljYXRpb246IGFwcCwgYWxsb3dlZENhbGxlcjogYWxsb3dlZENhbGxlciB9CglmcmFtZV9kaWcgLTEgLy8gYXBwOiBBcHBJRAoJaXRvYgoJZnJhbWVfZGlnIC0yIC8vIGFsbG93ZWRDYWxsZXI6IEFkZHJlc3MKCWNvbmNhdAoJZnJhbWVfYnVyeSAxIC8vIGtleTogUGx1Z2luc0tleQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjgzCgkvLyBsaW1pdHMgPSBjbG9uZSh0aGlzLnNwZW5kaW5nTGltaXRzKGtleSkudmFsdWUpCglieXRlIDB4NzMgLy8gInMiCglmcmFtZV9kaWcgMSAvLyBrZXk6IFBsdWdpbnNLZXkKCWNvbmNhdAoJaW50IDIKCWludCAwCglib3hfZXh0cmFjdAoJZnJhbWVfYnVyeSAyIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE2ODUKCS8vIGZvciAobGV0IGkgPSAwOyBpIDwgbGltaXRzLmxlbmd0aDsgaSArPSAxKQoJaW50IDAKCWZyYW1lX2J1cnkgMyAvLyBpOiB1aW50NjQKCipmb3JfMTU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTY4NQoJLy8gaSA8IGxpbWl0cy5sZW5ndGgKCWZyYW1lX2RpZyAzIC8vIGk6IHVpbnQ2NAoJZnJhbWVfZGlnIDIgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCWxlbgoJaW50IDQ4CgkvCgk8CglieiAqZm9yXzE1X2VuZAoKCS8vICppZjM4X2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE2ODYKCS8vIGxpbWl0c1tpXS5hc3NldCA9PT0gQXNzZXRJRC5mcm9tVWludDY0KGFzc2V0KQoJZnJhbWVfZGlnIDIgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMCAvLyBpbml0aWFsIG9mZnNldAoJZnJhbWVfZGlnIDMgLy8gaTogdWludDY0CglpbnQgNDgKCSogLy8gYWNjICogdHlwZUxlbmd0aAoJKwoJaW50IDAgLy8gaGVhZE9mZnNldAoJKwoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJaW50IDgKCWV4dHJhY3QzCglidG9pCglmcmFtZV9kaWcgLTMgLy8gYXNzZXQ6IHVpbnQ2NAoJPT0KCWJ6ICppZjM4X2VuZAoKCS8vICppZjM4X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjg3CgkvLyBsaW1pdHMuc3BsaWNlKGksIDEpCglmcmFtZV9kaWcgMiAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJaW50IDEKCWZyYW1lX2RpZyAzIC8vIGk6IHVpbnQ2NAoJaW50IDQ4CgkqCglzdG9yZSAyNDcgLy8gc3BsaWNlIHN0YXJ0CglpbnQgOTYKCXN0b3JlIDI0NiAvLyBzcGxpY2UgYnl0ZSBsZW5ndGgKCWZyYW1lX2RpZyAyIC8vIGxpbWl0czogKHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0KVtdCglpbnQgMAoJbG9hZCAyNDcgLy8gc3BsaWNlIHN0YXJ0CglzdWJzdHJpbmczCglmcmFtZV9kaWcgMiAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJZHVwCglsZW4KCWxvYWQgMjQ3IC8vIHNwbGljZSBzdGFydAoJbG9hZCAyNDYgLy8gc3BsaWNlIGJ5dGUgbGVuZ3RoCgkrCglpbnQgNDgKCS0KCXN3YXAKCXN1YnN0cmluZzMKCWNvbmNhdAoJZnJhbWVfZGlnIDIgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCWxvYWQgMjQ3IC8vIHNwbGljZSBzdGFydAoJbG9hZCAyNDYgLy8gc3BsaWNlIGJ5dGUgbGVuZ3RoCglpbnQgNDgKCS0KCWV4dHJhY3QzCglzd2FwCglmcmFtZV9idXJ5IDIgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCgkvLyAqaWYzOV9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjg5CgkvLyBsaW1pdHMubGVuZ3RoID09PSAwCglmcmFtZV9kaWcgMiAvLyBsaW1pdHM6ICh1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NClbXQoJbGVuCglpbnQgNDgKCS8KCWludCAwCgk9PQoJYnogKmlmMzlfZWxzZQoKCS8vICppZjM5X2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjkwCgkvLyB0aGlzLnNwZW5kaW5nTGltaXRzKGtleSkuZGVsZXRlKCkKCWJ5dGUgMHg3MyAvLyAicyIKCWZyYW1lX2RpZyAxIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0Cglib3hfZGVsCgliICppZjM5X2VuZAoKKmlmMzlfZWxzZToKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjkyCgkvLyB0aGlzLnNwZW5kaW5nTGltaXRzKGtleSkudmFsdWUgPSBsaW1pdHMKCWJ5dGUgMHg3MyAvLyAicyIKCWZyYW1lX2RpZyAxIC8vIGtleTogUGx1Z2luc0tleQoJY29uY2F0CglkdXAKCWJveF9kZWwKCXBvcAoJZnJhbWVfZGlnIDIgLy8gbGltaXRzOiAodWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQpW10KCWR1cAoJbGVuCglpbnQgNDgKCS8KCWl0b2IKCWV4dHJhY3QgNiAyCglzd2FwCgljb25jYXQKCWJveF9wdXQKCippZjM5X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNjk1CgkvLyB0aGlzLnJlZnVuZE1icihtYnJSZWNlaXZlciwgcHJlTUJSKQoJZnJhbWVfZGlnIDAgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtNCAvLyBtYnJSZWNlaXZlcjogQWRkcmVzcwoJY2FsbHN1YiByZWZ1bmRNYnIKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTY5NgoJLy8gcmV0dXJuOwoJcmV0c3ViCgoqaWYzOF9lbmQ6CgoqZm9yXzE1X2NvbnRpbnVlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE2ODUKCS8vIGkgKz0gMQoJZnJhbWVfZGlnIDMgLy8gaTogdWludDY0CglpbnQgMQoJKwoJZnJhbWVfYnVyeSAzIC8vIGk6IHVpbnQ2NAoJYiAqZm9yXzE1CgoqZm9yXzE1X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzAwCgkvLyBhc3NlcnQoZmFsc2UpCglpbnQgMAoJYXNzZXJ0CglyZXRzdWIKCi8vIGFyYzU4X2FkZEd1YXJkaWFuKGFkZHJlc3MscGF5KXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9hZGRHdWFyZGlhbjoKCS8vIG1iclBheW1lbnQ6IHBheQoJdHhuIEdyb3VwSW5kZXgKCWludCAxCgktCglkdXAKCWd0eG5zIFR5cGVFbnVtCglpbnQgcGF5Cgk9PQoJYXNzZXJ0CgoJLy8gZ3VhcmRpYW46IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBleGVjdXRlIGFyYzU4X2FkZEd1YXJkaWFuKGFkZHJlc3MscGF5KXZvaWQKCWNhbGxzdWIgYXJjNThfYWRkR3VhcmRpYW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2FkZEd1YXJkaWFuKGd1YXJkaWFuOiBBZGRyZXNzLCBtYnJQYXltZW50OiBQYXlUeG4pOiB2b2lkCi8vCi8vIEFkZCBhIGd1YXJkaWFuIHRoYXQgY2FuIGFwcHJvdmUgcmVjb3ZlcmluZyB0aGUgYWNjb3VudAovLwovLyBAcGFyYW0gZ3VhcmRpYW4gVGhlIGd1YXJkaWFuIHRvIGFkZAovLyBAcGFyYW0gbWJyUGF5bWVudCBBIHBheW1lbnQgdG8gdGhlIGFwcCBhZGRyZXNzIGNvdmVyaW5nIGV4YWN0bHkgdGhlIE1CUiBvZiB0aGUgZ3VhcmRpYW4gYm94CmFyYzU4X2FkZEd1YXJkaWFuOgoJcHJvdG8gMiAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTcxMAoJLy8gdGhpcy52ZXJpZnlBZG1pbigpCgljYWxsc3ViIHZlcmlmeUFkbWluCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE3MTEKCS8vIGFzc2VydCghdGhpcy5ndWFyZGlhbnMoZ3VhcmRpYW4pLmV4aXN0cykKCWJ5dGUgMHg2NyAvLyAiZyIKCWZyYW1lX2RpZyAtMSAvLyBndWFyZGlhbjogQWRkcmVzcwoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCSEKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzEyCgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE3MTQKCS8vIHRoaXMuZ3VhcmRpYW5zKGd1YXJkaWFuKS52YWx1ZSA9IDAKCWJ5dGUgMHg2NyAvLyAiZyIKCWZyYW1lX2RpZyAtMSAvLyBndWFyZGlhbjogQWRkcmVzcwoJY29uY2F0CglieXRlIDB4MDAwMDAwMDAwMDAwMDAwMAoJYm94X3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzE1CgkvLyB0aGlzLmd1YXJkaWFuQ291bnQudmFsdWUgPSB0aGlzLmd1YXJkaWFuQ291bnQudmFsdWUgKyAxCglieXRlIDB4Njc2MyAvLyAiZ2MiCglkdXAKCWFwcF9nbG9iYWxfZ2V0CglpbnQgMQoJKwoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTcxNwoJLy8gdGhpcy52ZXJpZnlNYnJQYXltZW50KG1iclBheW1lbnQsIHByZU1CUikKCWZyYW1lX2RpZyAwIC8vIHByZU1CUjogdWludDY0CglmcmFtZV9kaWcgLTIgLy8gbWJyUGF5bWVudDogUGF5VHhuCgljYWxsc3ViIHZlcmlmeU1iclBheW1lbnQKCXJldHN1YgoKLy8gYXJjNThfcmVtb3ZlR3VhcmRpYW4oYWRkcmVzcyxhZGRyZXNzKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9yZW1vdmVHdWFyZGlhbjoKCS8vIG1iclJlY2VpdmVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAyCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gZ3VhcmRpYW46IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBleGVjdXRlIGFyYzU4X3JlbW92ZUd1YXJkaWFuKGFkZHJlc3MsYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X3JlbW92ZUd1YXJkaWFuCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9yZW1vdmVHdWFyZGlhbihndWFyZGlhbjogQWRkcmVzcywgbWJyUmVjZWl2ZXI6IEFkZHJlc3MpOiB2b2lkCi8vCi8vIFJlbW92ZSBhIGd1YXJkaWFuLiBJZiB0aGUgZ3VhcmRpYW4gYXBwcm92ZWQgdGhlIHBlbmRpbmcgcmVjb3ZlcnksIHRoZWlyIGFwcHJvdmFsIGlzIHJldm9rZWQuCi8vCi8vIEBwYXJhbSBndWFyZGlhbiBUaGUgZ3VhcmRpYW4gdG8gcmVtb3ZlCi8vIEBwYXJhbSBtYnJSZWNlaXZlciBUaGUgYWRkcmVzcyB0byBzZW5kIHRoZSBNQlIgZnJlZWQgYnkgcmVtb3ZpbmcgdGhlIGd1YXJkaWFuIHRvCmFyYzU4X3JlbW92ZUd1YXJkaWFuOgoJcHJvdG8gMiAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTcyNwoJLy8gdGhpcy52ZXJpZnlBZG1pbigpCgljYWxsc3ViIHZlcmlmeUFkbWluCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE3MjgKCS8vIHByZU1CUiA9IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9idXJ5IDAgLy8gcHJlTUJSOiB1aW50NjQKCgkvLyAqaWY0MF9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzMwCgkvLyB0aGlzLnJlY292ZXJ5LmV4aXN0cyAmJiB0aGlzLmd1YXJkaWFucyhndWFyZGlhbikudmFsdWUgPT09IHRoaXMucmVjb3ZlcnkudmFsdWUubm9uY2UKCXR4bmEgQXBwbGljYXRpb25zIDAKCWJ5dGUgMHg3MiAvLyAiciIKCWFwcF9nbG9iYWxfZ2V0X2V4Cglzd2FwCglwb3AKCWR1cAoJYnogKnNraXBfYW5kMjMKCWJ5dGUgMHg2NyAvLyAiZyIKCWZyYW1lX2RpZyAtMSAvLyBndWFyZGlhbjogQWRkcmVzcwoJY29uY2F0Cglib3hfZ2V0Cglhc3NlcnQKCWJ0b2kKCWJ5dGUgMHg3MiAvLyAiciIKCWFwcF9nbG9iYWxfZ2V0CglleHRyYWN0IDMyIDgKCWJ0b2kKCT09CgkmJgoKKnNraXBfYW5kMjM6CglieiAqaWY0MF9lbmQKCgkvLyAqaWY0MF9jb25zZXF1ZW50CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTczMQoJLy8gdGhpcy5yZWNvdmVyeS52YWx1ZS5hcHByb3ZhbHMgPSB0aGlzLnJlY292ZXJ5LnZhbHVlLmFwcHJvdmFscyAtIDEKCWJ5dGUgMHg3MiAvLyAiciIKCWFwcF9nbG9iYWxfZ2V0CglpbnQgNDAgLy8gaGVhZE9mZnNldAoJYnl0ZSAweDcyIC8vICJyIgoJYXBwX2dsb2JhbF9nZXQKCWV4dHJhY3QgNDAgOAoJYnRvaQoJaW50IDEKCS0KCWl0b2IKCXJlcGxhY2UzCglieXRlIDB4NzIgLy8gInIiCglzd2FwCglhcHBfZ2xvYmFsX3B1dAoKKmlmNDBfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE3MzQKCS8vIHRoaXMuZ3VhcmRpYW5zKGd1YXJkaWFuKS5kZWxldGUoKQoJYnl0ZSAweDY3IC8vICJnIgoJZnJhbWVfZGlnIC0xIC8vIGd1YXJkaWFuOiBBZGRyZXNzCgljb25jYXQKCWJveF9kZWwKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTczNQoJLy8gdGhpcy5ndWFyZGlhbkNvdW50LnZhbHVlID0gdGhpcy5ndWFyZGlhbkNvdW50LnZhbHVlIC0gMQoJYnl0ZSAweDY3NjMgLy8gImdjIgoJZHVwCglhcHBfZ2xvYmFsX2dldAoJaW50IDEKCS0KCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE3MzYKCS8vIGFzc2VydCh0aGlzLnJlY292ZXJ5VGhyZXNob2xkLnZhbHVlIDw9IHRoaXMuZ3VhcmRpYW5Db3VudC52YWx1ZSkKCWJ5dGUgMHg3Mjc0IC8vICJydCIKCWFwcF9nbG9iYWxfZ2V0CglieXRlIDB4Njc2MyAvLyAiZ2MiCglhcHBfZ2xvYmFsX2dldAoJPD0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzM4CgkvLyB0aGlzLnVwZGF0ZVJlY292ZXJ5UmVhZHlBdCgpCgljYWxsc3ViIHVwZGF0ZVJlY292ZXJ5UmVhZHlBdAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzQwCgkvLyB0aGlzLnJlZnVuZE1icihtYnJSZWNlaXZlciwgcHJlTUJSKQoJZnJhbWVfZGlnIDAgLy8gcHJlTUJSOiB1aW50NjQKCWZyYW1lX2RpZyAtMiAvLyBtYnJSZWNlaXZlcjogQWRkcmVzcwoJY2FsbHN1YiByZWZ1bmRNYnIKCXJldHN1YgoKLy8gYXJjNThfc2V0UmVjb3ZlcnlDb25maWcodWludDY0LHVpbnQ2NCx1aW50NjQpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3NldFJlY292ZXJ5Q29uZmlnOgoJLy8gcHJvcG9zYWxMaWZldGltZTogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAzCglidG9pCgoJLy8gZGVsYXk6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJYnRvaQoKCS8vIHRocmVzaG9sZDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglidG9pCgoJLy8gZXhlY3V0ZSBhcmM1OF9zZXRSZWNvdmVyeUNvbmZpZyh1aW50NjQsdWludDY0LHVpbnQ2NCl2b2lkCgljYWxsc3ViIGFyYzU4X3NldFJlY292ZXJ5Q29uZmlnCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9zZXRSZWNvdmVyeUNvbmZpZyh0aHJlc2hvbGQ6IHVpbnQ2NCwgZGVsYXk6IHVpbnQ2NCwgcHJvcG9zYWxMaWZldGltZTogdWludDY0KTogdm9pZAovLwovLyBTZXQgaG93IG1hbnkgZ3VhcmRpYW5zIG11c3QgYXBwcm92ZSBhIHJlY292ZXJ5LCBob3cgbG9uZyB0aGUgYWRtaW4gaGFzIHRvIGNhbmNlbCBpdAovLyBhbmQgaG93IGxvbmcgYSBwcm9wb3NhbCBoYXMgdG8gZ2V0IGVub3VnaCBhcHByb3ZhbHMKLy8KLy8gQHBhcmFtIHRocmVzaG9sZCBUaGUgbnVtYmVyIG9mIGd1YXJkaWFuIGFwcHJvdmFscyBuZWVkZWQsIG9yIHplcm8gdG8gZGlzYWJsZSByZWNvdmVyeQovLyBAcGFyYW0gZGVsYXkgVGhlIG51bWJlciBvZiBzZWNvbmRzIHRoZSBhZG1pbiBoYXMgdG8gY2FuY2VsIGEgcmVjb3Zlcnkgb25jZSBpdCBoYXMgZW5vdWdoIGFwcHJvdmFscwovLyBAcGFyYW0gcHJvcG9zYWxMaWZldGltZSBUaGUgbnVtYmVyIG9mIHNlY29uZHMgYWZ0ZXIgd2hpY2ggYSBwcm9wb3NhbCB3aXRob3V0IGVub3VnaCBhcHByb3ZhbHMgY2FuIGJlIHJlcGxhY2VkCmFyYzU4X3NldFJlY292ZXJ5Q29uZmlnOgoJcHJvdG8gMyAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE3NTIKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzUzCgkvLyBhc3NlcnQodGhyZXNob2xkIDw9IHRoaXMuZ3VhcmRpYW5Db3VudC52YWx1ZSkKCWZyYW1lX2RpZyAtMSAvLyB0aHJlc2hvbGQ6IHVpbnQ2NAoJYnl0ZSAweDY3NjMgLy8gImdjIgoJYXBwX2dsb2JhbF9nZXQKCTw9Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc1NQoJLy8gdGhpcy5yZWNvdmVyeVRocmVzaG9sZC52YWx1ZSA9IHRocmVzaG9sZAoJYnl0ZSAweDcyNzQgLy8gInJ0IgoJZnJhbWVfZGlnIC0xIC8vIHRocmVzaG9sZDogdWludDY0CglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzU2CgkvLyB0aGlzLnJlY292ZXJ5RGVsYXkudmFsdWUgPSBkZWxheQoJYnl0ZSAweDcyNjQgLy8gInJkIgoJZnJhbWVfZGlnIC0yIC8vIGRlbGF5OiB1aW50NjQKCWFwcF9nbG9iYWxfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE3NTcKCS8vIHRoaXMucmVjb3ZlcnlQcm9wb3NhbExpZmV0aW1lLnZhbHVlID0gcHJvcG9zYWxMaWZldGltZQoJYnl0ZSAweDcyNmMgLy8gInJsIgoJZnJhbWVfZGlnIC0zIC8vIHByb3Bvc2FsTGlmZXRpbWU6IHVpbnQ2NAoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc1OQoJLy8gdGhpcy51cGRhdGVSZWNvdmVyeVJlYWR5QXQoKQoJY2FsbHN1YiB1cGRhdGVSZWNvdmVyeVJlYWR5QXQKCXJldHN1YgoKLy8gYXJjNThfcHJvcG9zZVJlY292ZXJ5KGFkZHJlc3Mpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3Byb3Bvc2VSZWNvdmVyeToKCS8vIG5ld0FkbWluOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gZXhlY3V0ZSBhcmM1OF9wcm9wb3NlUmVjb3ZlcnkoYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X3Byb3Bvc2VSZWNvdmVyeQoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcHJvcG9zZVJlY292ZXJ5KG5ld0FkbWluOiBBZGRyZXNzKTogdm9pZAovLwovLyBQcm9wb3NlIHJlcGxhY2luZyB0aGUgYWRtaW4uIE11c3QgYmUgY2FsbGVkIGJ5IGEgZ3VhcmRpYW4gYW5kIGNvdW50cyBhcyB0aGVpciBhcHByb3ZhbC4KLy8gUmVwbGFjZXMgdGhlIHBlbmRpbmcgcHJvcG9zYWwgaWYgaXQgZGlkbid0IGdldCBlbm91Z2ggYXBwcm92YWxzIHdpdGhpbiB0aGUgcHJvcG9zYWwgbGlmZXRpbWUsCi8vIHNvIGEgc2luZ2xlIGd1YXJkaWFuIGNhbid0IGJsb2NrIHJlY292ZXJ5IHdpdGggYSBiYWQgcHJvcG9zYWwuCi8vCi8vIEBwYXJhbSBuZXdBZG1pbiBUaGUgYWRkcmVzcyB0aGF0IHdpbGwgYmVjb21lIHRoZSBhZG1pbgphcmM1OF9wcm9wb3NlUmVjb3Zlcnk6Cglwcm90byAxIDAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc3MAoJLy8gYXNzZXJ0KHRoaXMucmVjb3ZlcnlUaHJlc2hvbGQudmFsdWUgPiAwKQoJYnl0ZSAweDcyNzQgLy8gInJ0IgoJYXBwX2dsb2JhbF9nZXQKCWludCAwCgk+Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc3MQoJLy8gYXNzZXJ0KAoJLy8gICAgICAgIXRoaXMucmVjb3ZlcnkuZXhpc3RzIHx8CgkvLyAgICAgICAgICh0aGlzLnJlY292ZXJ5LnZhbHVlLnJlYWR5QXQgPT09IDAgJiYgZ2xvYmFscy5sYXRlc3RUaW1lc3RhbXAgPj0gdGhpcy5yZWNvdmVyeS52YWx1ZS5leHBpcmVzQXQpCgkvLyAgICAgKQoJdHhuYSBBcHBsaWNhdGlvbnMgMAoJYnl0ZSAweDcyIC8vICJyIgoJYXBwX2dsb2JhbF9nZXRfZXgKCXN3YXAKCXBvcAoJIQoJZHVwCglibnogKnNraXBfb3IxNAoJYnl0ZSAweDcyIC8vICJyIgoJYXBwX2dsb2JhbF9nZXQKCWV4dHJhY3QgNDggOAoJYnRvaQoJaW50IDAKCT09CglkdXAKCWJ6ICpza2lwX2FuZDI0CglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJZXh0cmFjdCA1NiA4CglidG9pCgk+PQoJJiYKCipza2lwX2FuZDI0OgoJfHwKCipza2lwX29yMTQ6Cglhc3NlcnQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc3NQoJLy8gYXNzZXJ0KG5ld0FkbWluICE9PSB0aGlzLmNvbnRyb2xsZWRBZGRyZXNzLnZhbHVlKQoJZnJhbWVfZGlnIC0xIC8vIG5ld0FkbWluOiBBZGRyZXNzCglieXRlIDB4NjMgLy8gImMiCglhcHBfZ2xvYmFsX2dldAoJIT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzc3CgkvLyB0aGlzLnJlY292ZXJ5Tm9uY2UudmFsdWUgPSB0aGlzLnJlY292ZXJ5Tm9uY2UudmFsdWUgKyAxCglieXRlIDB4NzI2ZSAvLyAicm4iCglkdXAKCWFwcF9nbG9iYWxfZ2V0CglpbnQgMQoJKwoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc3OAoJLy8gdGhpcy5yZWNvdmVyeS52YWx1ZSA9IHsKCS8vICAgICAgIG5ld0FkbWluOiBuZXdBZG1pbiwKCS8vICAgICAgIG5vbmNlOiB0aGlzLnJlY292ZXJ5Tm9uY2UudmFsdWUsCgkvLyAgICAgICBhcHByb3ZhbHM6IDAsCgkvLyAgICAgICByZWFkeUF0OiAwLAoJLy8gICAgICAgZXhwaXJlc0F0OiBnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCArIHRoaXMucmVjb3ZlcnlQcm9wb3NhbExpZmV0aW1lLnZhbHVlLAoJLy8gICAgIH0KCWJ5dGUgMHg3MiAvLyAiciIKCWZyYW1lX2RpZyAtMSAvLyBuZXdBZG1pbjogQWRkcmVzcwoJYnl0ZSAweDcyNmUgLy8gInJuIgoJYXBwX2dsb2JhbF9nZXQKCWl0b2IKCWNvbmNhdAoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWNvbmNhdAoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWNvbmNhdAoJZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAoJYnl0ZSAweDcyNmMgLy8gInJsIgoJYXBwX2dsb2JhbF9nZXQKCSsKCWl0b2IKCWNvbmNhdAoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc4NgoJLy8gdGhpcy5hcmM1OF9hcHByb3ZlUmVjb3ZlcnkoKQoJY2FsbHN1YiBhcmM1OF9hcHByb3ZlUmVjb3ZlcnkKCXJldHN1YgoKLy8gYXJjNThfYXBwcm92ZVJlY292ZXJ5KCl2b2lkCiphYmlfcm91dGVfYXJjNThfYXBwcm92ZVJlY292ZXJ5OgoJLy8gZXhlY3V0ZSBhcmM1OF9hcHByb3ZlUmVjb3ZlcnkoKXZvaWQKCWNhbGxzdWIgYXJjNThfYXBwcm92ZVJlY292ZXJ5CglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9hcHByb3ZlUmVjb3ZlcnkoKTogdm9pZAovLwovLyBBcHByb3ZlIHRoZSBwZW5kaW5nIHJlY292ZXJ5LiBNdXN0IGJlIGNhbGxlZCBieSBhIGd1YXJkaWFuLiBPbmNlIGVub3VnaCBndWFyZGlhbnMgaGF2ZSBhcHByb3ZlZCwKLy8gdGhlIGFkbWluIGhhcyB0aGUgcmVjb3ZlcnkgZGVsYXkgdG8gY2FuY2VsIGl0IGJlZm9yZSBpdCBjYW4gYmUgZmluYWxpemVkLgphcmM1OF9hcHByb3ZlUmVjb3Zlcnk6Cglwcm90byAwIDAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc5NAoJLy8gYXNzZXJ0KHRoaXMuZ3VhcmRpYW5zKHRoaXMudHhuLnNlbmRlcikudmFsdWUgIT09IHRoaXMucmVjb3ZlcnkudmFsdWUubm9uY2UpCglieXRlIDB4NjcgLy8gImciCgl0eG4gU2VuZGVyCgljb25jYXQKCWJveF9nZXQKCWFzc2VydAoJYnRvaQoJYnl0ZSAweDcyIC8vICJyIgoJYXBwX2dsb2JhbF9nZXQKCWV4dHJhY3QgMzIgOAoJYnRvaQoJIT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxNzk2CgkvLyB0aGlzLmd1YXJkaWFucyh0aGlzLnR4bi5zZW5kZXIpLnZhbHVlID0gdGhpcy5yZWNvdmVyeS52YWx1ZS5ub25jZQoJYnl0ZSAweDY3IC8vICJnIgoJdHhuIFNlbmRlcgoJY29uY2F0CglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJZXh0cmFjdCAzMiA4CglidG9pCglpdG9iCglib3hfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE3OTcKCS8vIHRoaXMucmVjb3ZlcnkudmFsdWUuYXBwcm92YWxzID0gdGhpcy5yZWNvdmVyeS52YWx1ZS5hcHByb3ZhbHMgKyAxCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJaW50IDQwIC8vIGhlYWRPZmZzZXQKCWJ5dGUgMHg3MiAvLyAiciIKCWFwcF9nbG9iYWxfZ2V0CglleHRyYWN0IDQwIDgKCWJ0b2kKCWludCAxCgkrCglpdG9iCglyZXBsYWNlMwoJYnl0ZSAweDcyIC8vICJyIgoJc3dhcAoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTc5OQoJLy8gdGhpcy51cGRhdGVSZWNvdmVyeVJlYWR5QXQoKQoJY2FsbHN1YiB1cGRhdGVSZWNvdmVyeVJlYWR5QXQKCXJldHN1YgoKLy8gYXJjNThfcmV2b2tlUmVjb3ZlcnlBcHByb3ZhbCgpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3Jldm9rZVJlY292ZXJ5QXBwcm92YWw6CgkvLyBleGVjdXRlIGFyYzU4X3Jldm9rZVJlY292ZXJ5QXBwcm92YWwoKXZvaWQKCWNhbGxzdWIgYXJjNThfcmV2b2tlUmVjb3ZlcnlBcHByb3ZhbAoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmV2b2tlUmVjb3ZlcnlBcHByb3ZhbCgpOiB2b2lkCi8vCi8vIFJldm9rZSB0aGUgc2VuZGVyJ3MgYXBwcm92YWwgb2YgdGhlIHBlbmRpbmcgcmVjb3ZlcnkuIE11c3QgYmUgY2FsbGVkIGJ5IGEgZ3VhcmRpYW4gdGhhdCBhcHByb3ZlZCBpdC4KYXJjNThfcmV2b2tlUmVjb3ZlcnlBcHByb3ZhbDoKCXByb3RvIDAgMAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxODA2CgkvLyBhc3NlcnQodGhpcy5ndWFyZGlhbnModGhpcy50eG4uc2VuZGVyKS52YWx1ZSA9PT0gdGhpcy5yZWNvdmVyeS52YWx1ZS5ub25jZSkKCWJ5dGUgMHg2NyAvLyAiZyIKCXR4biBTZW5kZXIKCWNvbmNhdAoJYm94X2dldAoJYXNzZXJ0CglidG9pCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJZXh0cmFjdCAzMiA4CglidG9pCgk9PQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4MDkKCS8vIHRoaXMuZ3VhcmRpYW5zKHRoaXMudHhuLnNlbmRlcikudmFsdWUgPSAwCglieXRlIDB4NjcgLy8gImciCgl0eG4gU2VuZGVyCgljb25jYXQKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwCglib3hfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4MTAKCS8vIHRoaXMucmVjb3ZlcnkudmFsdWUuYXBwcm92YWxzID0gdGhpcy5yZWNvdmVyeS52YWx1ZS5hcHByb3ZhbHMgLSAxCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJaW50IDQwIC8vIGhlYWRPZmZzZXQKCWJ5dGUgMHg3MiAvLyAiciIKCWFwcF9nbG9iYWxfZ2V0CglleHRyYWN0IDQwIDgKCWJ0b2kKCWludCAxCgktCglpdG9iCglyZXBsYWNlMwoJYnl0ZSAweDcyIC8vICJyIgoJc3dhcAoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTgxMgoJLy8gdGhpcy51cGRhdGVSZWNvdmVyeVJlYWR5QXQoKQoJY2FsbHN1YiB1cGRhdGVSZWNvdmVyeVJlYWR5QXQKCXJldHN1YgoKLy8gYXJjNThfY2FuY2VsUmVjb3ZlcnkoKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9jYW5jZWxSZWNvdmVyeToKCS8vIGV4ZWN1dGUgYXJjNThfY2FuY2VsUmVjb3ZlcnkoKXZvaWQKCWNhbGxzdWIgYXJjNThfY2FuY2VsUmVjb3ZlcnkKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X2NhbmNlbFJlY292ZXJ5KCk6IHZvaWQKLy8KLy8gQ2FuY2VsIHRoZSBwZW5kaW5nIHJlY292ZXJ5CmFyYzU4X2NhbmNlbFJlY292ZXJ5OgoJcHJvdG8gMCAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4MTkKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxODIwCgkvLyB0aGlzLnJlY292ZXJ5LmRlbGV0ZSgpCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2RlbAoJcmV0c3ViCgovLyBhcmM1OF9maW5hbGl6ZVJlY292ZXJ5KCl2b2lkCiphYmlfcm91dGVfYXJjNThfZmluYWxpemVSZWNvdmVyeToKCS8vIGV4ZWN1dGUgYXJjNThfZmluYWxpemVSZWNvdmVyeSgpdm9pZAoJY2FsbHN1YiBhcmM1OF9maW5hbGl6ZVJlY292ZXJ5CglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9maW5hbGl6ZVJlY292ZXJ5KCk6IHZvaWQKLy8KLy8gUmVwbGFjZSB0aGUgYWRtaW4gd2l0aCB0aGUgb25lIGZyb20gdGhlIHBlbmRpbmcgcmVjb3Zlcnkgb25jZSBpdCBoYXMgZW5vdWdoIGFwcHJvdmFscyBhbmQgdGhlIGRlbGF5IGhhcyBwYXNzZWQuCi8vIENhbiBiZSBjYWxsZWQgYnkgYW55b25lLgphcmM1OF9maW5hbGl6ZVJlY292ZXJ5OgoJcHJvdG8gMCAwCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4MjgKCS8vIGFzc2VydCh0aGlzLnJlY292ZXJ5LnZhbHVlLnJlYWR5QXQgIT09IDAgJiYgZ2xvYmFscy5sYXRlc3RUaW1lc3RhbXAgPj0gdGhpcy5yZWNvdmVyeS52YWx1ZS5yZWFkeUF0KQoJYnl0ZSAweDcyIC8vICJyIgoJYXBwX2dsb2JhbF9nZXQKCWV4dHJhY3QgNDggOAoJYnRvaQoJaW50IDAKCSE9CglkdXAKCWJ6ICpza2lwX2FuZDI1CglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCglieXRlIDB4NzIgLy8gInIiCglhcHBfZ2xvYmFsX2dldAoJZXh0cmFjdCA0OCA4CglidG9pCgk+PQoJJiYKCipza2lwX2FuZDI1OgoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4MzAKCS8vIHRoaXMuc2V0QWRtaW4odGhpcy5yZWNvdmVyeS52YWx1ZS5uZXdBZG1pbikKCWJ5dGUgMHg3MiAvLyAiciIKCWFwcF9nbG9iYWxfZ2V0CglleHRyYWN0IDAgMzIKCWNhbGxzdWIgc2V0QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTgzMQoJLy8gdGhpcy5yZWNvdmVyeS5kZWxldGUoKQoJYnl0ZSAweDcyIC8vICJyIgoJYXBwX2dsb2JhbF9kZWwKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTgzNAoJLy8gdGhpcy5wZW5kaW5nQWRtaW4uZGVsZXRlKCkKCWJ5dGUgMHg3MDYxIC8vICJwYSIKCWFwcF9nbG9iYWxfZGVsCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4MzUKCS8vIHRoaXMucGVuZGluZ0FkbWluUmVhZHlBdC5kZWxldGUoKQoJYnl0ZSAweDcwNzIgLy8gInByIgoJYXBwX2dsb2JhbF9kZWwKCXJldHN1YgoKLy8gYXJjNThfc2V0UGF1c2VHdWFyZGlhbihhZGRyZXNzKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9zZXRQYXVzZUd1YXJkaWFuOgoJLy8gZ3VhcmRpYW46IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBleGVjdXRlIGFyYzU4X3NldFBhdXNlR3VhcmRpYW4oYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X3NldFBhdXNlR3VhcmRpYW4KCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3NldFBhdXNlR3VhcmRpYW4oZ3VhcmRpYW46IEFkZHJlc3MpOiB2b2lkCi8vCi8vIFNldCB0aGUgYWRkcmVzcyB0aGF0IGNhbiBwYXVzZSB0aGUgcGx1Z2lucyBpbiBhZGRpdGlvbiB0byB0aGUgYWRtaW4KLy8KLy8gQHBhcmFtIGd1YXJkaWFuIFRoZSBwYXVzZSBndWFyZGlhbiwgb3IgdGhlIGdsb2JhbCB6ZXJvIGFkZHJlc3MgZm9yIG5vbmUKYXJjNThfc2V0UGF1c2VHdWFyZGlhbjoKCXByb3RvIDEgMAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxODQ0CgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTg0NQoJLy8gdGhpcy5wYXVzZUd1YXJkaWFuLnZhbHVlID0gZ3VhcmRpYW4KCWJ5dGUgMHg3MDY3IC8vICJwZyIKCWZyYW1lX2RpZyAtMSAvLyBndWFyZGlhbjogQWRkcmVzcwoJYXBwX2dsb2JhbF9wdXQKCXJldHN1YgoKLy8gYXJjNThfcGF1c2UoKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9wYXVzZToKCS8vIGV4ZWN1dGUgYXJjNThfcGF1c2UoKXZvaWQKCWNhbGxzdWIgYXJjNThfcGF1c2UKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3BhdXNlKCk6IHZvaWQKLy8KLy8gU3RvcCBldmVyeSBwbHVnaW4gZnJvbSBiZWluZyB1c2VkIHVudGlsIHRoZSBhZG1pbiB1bnBhdXNlcyB0aGVtLiBDYW4gYmUgY2FsbGVkIGJ5IHRoZSBhZG1pbiBvciB0aGUgcGF1c2UgZ3VhcmRpYW4uCmFyYzU4X3BhdXNlOgoJcHJvdG8gMCAwCgoJLy8gKmlmNDFfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTg1MgoJLy8gdGhpcy50eG4uc2VuZGVyICE9PSB0aGlzLnBhdXNlR3VhcmRpYW4udmFsdWUKCXR4biBTZW5kZXIKCWJ5dGUgMHg3MDY3IC8vICJwZyIKCWFwcF9nbG9iYWxfZ2V0CgkhPQoJYnogKmlmNDFfZW5kCgoJLy8gKmlmNDFfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4NTIKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKKmlmNDFfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4NTQKCS8vIHRoaXMucGF1c2VkLnZhbHVlID0gdHJ1ZQoJYnl0ZSAweDcwNzMgLy8gInBzIgoJaW50IDEKCWJ5dGUgMHgwMAoJaW50IDAKCXVuY292ZXIgMgoJc2V0Yml0CglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxODU1CgkvLyB0aGlzLnBhdXNlZENoYW5nZWQubG9nKHsgcGF1c2VkOiB0cnVlIH0pCglieXRlIDB4MDM2YTFmMWQgLy8gcGF1c2VkQ2hhbmdlZChib29sKQoJYnl0ZSAweDAwCglpbnQgMAoJaW50IDEKCXNldGJpdAoJY29uY2F0Cglsb2cKCXJldHN1YgoKLy8gYXJjNThfdW5wYXVzZSgpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3VucGF1c2U6CgkvLyBleGVjdXRlIGFyYzU4X3VucGF1c2UoKXZvaWQKCWNhbGxzdWIgYXJjNThfdW5wYXVzZQoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfdW5wYXVzZSgpOiB2b2lkCi8vCi8vIExldCB0aGUgcGx1Z2lucyBiZSB1c2VkIGFnYWluCmFyYzU4X3VucGF1c2U6Cglwcm90byAwIDAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTg2MgoJLy8gdGhpcy52ZXJpZnlBZG1pbigpCgljYWxsc3ViIHZlcmlmeUFkbWluCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4NjQKCS8vIHRoaXMucGF1c2VkLnZhbHVlID0gZmFsc2UKCWJ5dGUgMHg3MDczIC8vICJwcyIKCWludCAwCglieXRlIDB4MDAKCWludCAwCgl1bmNvdmVyIDIKCXNldGJpdAoJYXBwX2dsb2JhbF9wdXQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTg2NQoJLy8gdGhpcy5wYXVzZWRDaGFuZ2VkLmxvZyh7IHBhdXNlZDogZmFsc2UgfSkKCWJ5dGUgMHgwMzZhMWYxZCAvLyBwYXVzZWRDaGFuZ2VkKGJvb2wpCglieXRlIDB4MDAKCWludCAwCglkdXAKCXNldGJpdAoJY29uY2F0Cglsb2cKCXJldHN1YgoKLy8gYXJjNThfZ3JhbnRSb2xlKGFkZHJlc3MsYm9vbCxib29sLHVpbnQ2NCxwYXkpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X2dyYW50Um9sZToKCS8vIG1iclBheW1lbnQ6IHBheQoJdHhuIEdyb3VwSW5kZXgKCWludCAxCgktCglkdXAKCWd0eG5zIFR5cGVFbnVtCglpbnQgcGF5Cgk9PQoJYXNzZXJ0CgoJLy8gbWF4RHVyYXRpb246IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgNAoJYnRvaQoKCS8vIHJlbW92ZVBsdWdpbnM6IGJvb2wKCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWR1cAoJbGVuCglpbnQgMQoJPT0KCWFzc2VydAoJaW50IDAKCWdldGJpdAoKCS8vIGFkZFBsdWdpbnM6IGJvb2wKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMQoJPT0KCWFzc2VydAoJaW50IDAKCWdldGJpdAoKCS8vIGFjY291bnQ6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBleGVjdXRlIGFyYzU4X2dyYW50Um9sZShhZGRyZXNzLGJvb2wsYm9vbCx1aW50NjQscGF5KXZvaWQKCWNhbGxzdWIgYXJjNThfZ3JhbnRSb2xlCglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9ncmFudFJvbGUoYWNjb3VudDogQWRkcmVzcywgYWRkUGx1Z2luczogYm9vbGVhbiwgcmVtb3ZlUGx1Z2luczogYm9vbGVhbiwgbWF4RHVyYXRpb246IHVpbnQ2NCwgbWJyUGF5bWVudDogUGF5VHhuKTogdm9pZAovLwovLyBHaXZlIGFuIGFkZHJlc3MgYSByb2xlIHRoYXQgbGV0cyBpdCBtYW5hZ2UgcGx1Z2lucyB3aXRob3V0IGJlaW5nIHRoZSBhZG1pbi4KLy8gUmVwbGFjZXMgYW55IGV4aXN0aW5nIHJvbGUgb2YgdGhlIGFkZHJlc3MuCi8vCi8vIEBwYXJhbSBhY2NvdW50IFRoZSBhZGRyZXNzIHRvIGdpdmUgdGhlIHJvbGUgdG8KLy8gQHBhcmFtIGFkZFBsdWdpbnMgV2hldGhlciB0aGUgYWRkcmVzcyBjYW4gYWRkIHBsdWdpbnMKLy8gQHBhcmFtIHJlbW92ZVBsdWdpbnMgV2hldGhlciB0aGUgYWRkcmVzcyBjYW4gcmVtb3ZlIHBsdWdpbnMKLy8gQHBhcmFtIG1heER1cmF0aW9uIEhvdyBtYW55IHNlY29uZHMgaW4gdGhlIGZ1dHVyZSB0aGUgcGVybWlzc2lvbiBvZiBhIHBsdWdpbiBhZGRlZCBieSB0aGUgYWRkcmVzcyBjYW4gZW5kLgovLyBUaGUgYWRkcmVzcyBjYW4ndCBhZGQgcGVybWlzc2lvbnMgbWVhc3VyZWQgaW4gcm91bmRzCi8vIEBwYXJhbSBtYnJQYXltZW50IEEgcGF5bWVudCB0byB0aGUgYXBwIGFkZHJlc3MgY292ZXJpbmcgZXhhY3RseSB0aGUgTUJSIG9mIHRoZSByb2xlIGJveCwgaWYgaXQgaXMgbmV3CmFyYzU4X2dyYW50Um9sZToKCXByb3RvIDUgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4ODYKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxODg3CgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4ODkKCS8vIHRoaXMucm9sZXMoYWNjb3VudCkudmFsdWUgPSB7IGFkZFBsdWdpbnM6IGFkZFBsdWdpbnMsIHJlbW92ZVBsdWdpbnM6IHJlbW92ZVBsdWdpbnMsIG1heER1cmF0aW9uOiBtYXhEdXJhdGlvbiB9CglieXRlIDB4NzIgLy8gInIiCglmcmFtZV9kaWcgLTEgLy8gYWNjb3VudDogQWRkcmVzcwoJY29uY2F0CglieXRlIDB4MDAKCWludCAwCglmcmFtZV9kaWcgLTIgLy8gYWRkUGx1Z2luczogYm9vbGVhbgoJc2V0Yml0CglpbnQgMQoJZnJhbWVfZGlnIC0zIC8vIHJlbW92ZVBsdWdpbnM6IGJvb2xlYW4KCXNldGJpdAoJY29uY2F0CglmcmFtZV9kaWcgLTQgLy8gbWF4RHVyYXRpb246IHVpbnQ2NAoJaXRvYgoJY29uY2F0Cglib3hfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE4OTEKCS8vIHRoaXMudmVyaWZ5TWJyUGF5bWVudChtYnJQYXltZW50LCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC01IC8vIG1iclBheW1lbnQ6IFBheVR4bgoJY2FsbHN1YiB2ZXJpZnlNYnJQYXltZW50CglyZXRzdWIKCi8vIGFyYzU4X3Jldm9rZVJvbGUoYWRkcmVzcyxhZGRyZXNzKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9yZXZva2VSb2xlOgoJLy8gbWJyUmVjZWl2ZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBhY2NvdW50OiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gZXhlY3V0ZSBhcmM1OF9yZXZva2VSb2xlKGFkZHJlc3MsYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X3Jldm9rZVJvbGUKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3Jldm9rZVJvbGUoYWNjb3VudDogQWRkcmVzcywgbWJyUmVjZWl2ZXI6IEFkZHJlc3MpOiB2b2lkCi8vCi8vIFJlbW92ZSB0aGUgcm9sZSBvZiBhbiBhZGRyZXNzCi8vCi8vIEBwYXJhbSBhY2NvdW50IFRoZSBhZGRyZXNzIHRvIHJlbW92ZSB0aGUgcm9sZSBmcm9tCi8vIEBwYXJhbSBtYnJSZWNlaXZlciBUaGUgYWRkcmVzcyB0byBzZW5kIHRoZSBNQlIgZnJlZWQgYnkgcmVtb3ZpbmcgdGhlIHJvbGUgdG8KYXJjNThfcmV2b2tlUm9sZToKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5MDEKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTAyCgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5MDQKCS8vIHRoaXMucm9sZXMoYWNjb3VudCkuZGVsZXRlKCkKCWJ5dGUgMHg3MiAvLyAiciIKCWZyYW1lX2RpZyAtMSAvLyBhY2NvdW50OiBBZGRyZXNzCgljb25jYXQKCWJveF9kZWwKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTkwNgoJLy8gdGhpcy5yZWZ1bmRNYnIobWJyUmVjZWl2ZXIsIHByZU1CUikKCWZyYW1lX2RpZyAwIC8vIHByZU1CUjogdWludDY0CglmcmFtZV9kaWcgLTIgLy8gbWJyUmVjZWl2ZXI6IEFkZHJlc3MKCWNhbGxzdWIgcmVmdW5kTWJyCglyZXRzdWIKCi8vIGFyYzU4X2FkZFNlc3Npb25LZXkoYWRkcmVzcyx1aW50NjQsdWludDY0W10sdWludDY0LHBheSl2b2lkCiphYmlfcm91dGVfYXJjNThfYWRkU2Vzc2lvbktleToKCS8vIG1iclBheW1lbnQ6IHBheQoJdHhuIEdyb3VwSW5kZXgKCWludCAxCgktCglkdXAKCWd0eG5zIFR5cGVFbnVtCglpbnQgcGF5Cgk9PQoJYXNzZXJ0CgoJLy8gc3BlbmRpbmdMaW1pdDogdWludDY0Cgl0eG5hIEFwcGxpY2F0aW9uQXJncyA0CglidG9pCgoJLy8gcGx1Z2luczogdWludDY0W10KCXR4bmEgQXBwbGljYXRpb25BcmdzIDMKCWV4dHJhY3QgMiAwCgoJLy8gZXhwaXJ5OiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWJ0b2kKCgkvLyBzZXNzaW9uS2V5OiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gZXhlY3V0ZSBhcmM1OF9hZGRTZXNzaW9uS2V5KGFkZHJlc3MsdWludDY0LHVpbnQ2NFtdLHVpbnQ2NCxwYXkpdm9pZAoJY2FsbHN1YiBhcmM1OF9hZGRTZXNzaW9uS2V5CglpbnQgMQoJcmV0dXJuCgovLyBhcmM1OF9hZGRTZXNzaW9uS2V5KHNlc3Npb25LZXk6IEFkZHJlc3MsIGV4cGlyeTogdWludDY0LCBwbHVnaW5zOiBBcHBJRFtdLCBzcGVuZGluZ0xpbWl0OiB1aW50NjQsIG1iclBheW1lbnQ6IFBheVR4bik6IHZvaWQKLy8KLy8gQWRkIGEgc2Vzc2lvbiBrZXkgdGhhdCBjYW4gdXNlIHRoZSBnaXZlbiBwbHVnaW5zIHVudGlsIGl0IGV4cGlyZXMuIEVhY2ggcGx1Z2luIGlzIGFwcHJvdmVkIGZvciB0aGUgc2Vzc2lvbiBrZXkKLy8gYXMgdGhlIGFsbG93ZWQgY2FsbGVyIGFuZCBpdHMgYXBwcm92YWwgcHJvZ3JhbSBpcyBwaW5uZWQsIHNvIHRoZSBib3hlcyBmb3IgdGhvc2UgcGVybWlzc2lvbnMgKGFuZCB0aGVpciBzcGVuZGluZyBsaW1pdHMpIG11c3QgYmUgcmVmZXJlbmNlZC4KLy8gTGlrZSBhbnkgbmV3IHBlcm1pc3Npb24sIHRoZXkgY2FuIG9ubHkgYmUgdXNlZCBvbmNlIHRoZSBwbHVnaW4gZGVsYXkgaGFzIHBhc3NlZC4KLy8KLy8gQHBhcmFtIHNlc3Npb25LZXkgVGhlIGFkZHJlc3Mgb2YgdGhlIHNlc3Npb24ga2V5Ci8vIEBwYXJhbSBleHBpcnkgVGhlIHRpbWVzdGFtcCB3aGVuIHRoZSBzZXNzaW9uIGtleSBleHBpcmVzCi8vIEBwYXJhbSBwbHVnaW5zIFRoZSBwbHVnaW5zIHRoZSBzZXNzaW9uIGtleSBjYW4gdXNlCi8vIEBwYXJhbSBzcGVuZGluZ0xpbWl0IFRoZSBtYXhpbXVtIGFtb3VudCBvZiBBTEdPIGVhY2ggcGx1Z2luIGNhbiBzcGVuZCBkdXJpbmcgdGhlIHNlc3Npb24sIG9yIHplcm8gZm9yIG5vIGxpbWl0Ci8vIEBwYXJhbSBtYnJQYXltZW50IEEgcGF5bWVudCB0byB0aGUgYXBwIGFkZHJlc3MgY292ZXJpbmcgZXhhY3RseSB0aGUgTUJSIG9mIHRoZSBib3hlcyBjcmVhdGVkIGJ5IHRoaXMgY2FsbAphcmM1OF9hZGRTZXNzaW9uS2V5OgoJcHJvdG8gNSAwCgoJLy8gUHVzaCBlbXB0eSBieXRlcyBhZnRlciB0aGUgZnJhbWUgcG9pbnRlciB0byByZXNlcnZlIHNwYWNlIGZvciBsb2NhbCB2YXJpYWJsZXMKCWJ5dGUgMHgKCWR1cG4gMgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTI3CgkvLyB0aGlzLnZlcmlmeUFkbWluKCkKCWNhbGxzdWIgdmVyaWZ5QWRtaW4KCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTkyOAoJLy8gYXNzZXJ0KCF0aGlzLnNlc3Npb25zKHNlc3Npb25LZXkpLmV4aXN0cykKCWJ5dGUgMHg2YiAvLyAiayIKCWZyYW1lX2RpZyAtMSAvLyBzZXNzaW9uS2V5OiBBZGRyZXNzCgljb25jYXQKCWJveF9sZW4KCXN3YXAKCXBvcAoJIQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5MjkKCS8vIGFzc2VydChleHBpcnkgPiBnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCkKCWZyYW1lX2RpZyAtMiAvLyBleHBpcnk6IHVpbnQ2NAoJZ2xvYmFsIExhdGVzdFRpbWVzdGFtcAoJPgoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5MzAKCS8vIHByZU1CUiA9IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZQoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9idXJ5IDAgLy8gcHJlTUJSOiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTkzMgoJLy8gdGhpcy5zZXNzaW9ucyhzZXNzaW9uS2V5KS52YWx1ZSA9IHsgZXhwaXJ5OiBleHBpcnksIGVwb2NoOiB0aGlzLnNlc3Npb25FcG9jaC52YWx1ZSwgcGx1Z2luczogcGx1Z2lucyB9CglieXRlIDB4NmIgLy8gImsiCglmcmFtZV9kaWcgLTEgLy8gc2Vzc2lvbktleTogQWRkcmVzcwoJY29uY2F0CglkdXAKCWJveF9kZWwKCXBvcAoJYnl0ZSAweCAvLyBpbml0aWFsIGhlYWQKCWJ5dGUgMHggLy8gaW5pdGlhbCB0YWlsCglieXRlIDB4MDAxMiAvLyBpbml0aWFsIGhlYWQgb2Zmc2V0CglmcmFtZV9kaWcgLTIgLy8gZXhwaXJ5OiB1aW50NjQKCWl0b2IKCWNhbGxzdWIgKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQKCWJ5dGUgMHg3MzY1IC8vICJzZSIKCWFwcF9nbG9iYWxfZ2V0CglpdG9iCgljYWxsc3ViICpwcm9jZXNzX3N0YXRpY190dXBsZV9lbGVtZW50CglmcmFtZV9kaWcgLTMgLy8gcGx1Z2luczogQXBwSURbXQoJZHVwCglsZW4KCWludCA4CgkvCglpdG9iCglleHRyYWN0IDYgMgoJc3dhcAoJY29uY2F0CgljYWxsc3ViICpwcm9jZXNzX2R5bmFtaWNfdHVwbGVfZWxlbWVudAoJcG9wIC8vIHBvcCBoZWFkIG9mZnNldAoJY29uY2F0IC8vIGNvbmNhdCBoZWFkIGFuZCB0YWlsCglib3hfcHV0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5MzQKCS8vIGZvciAobGV0IGkgPSAwOyBpIDwgcGx1Z2lucy5sZW5ndGg7IGkgKz0gMSkKCWludCAwCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgoqZm9yXzE2OgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5MzQKCS8vIGkgPCBwbHVnaW5zLmxlbmd0aAoJZnJhbWVfZGlnIDEgLy8gaTogdWludDY0CglmcmFtZV9kaWcgLTMgLy8gcGx1Z2luczogQXBwSURbXQoJbGVuCglpbnQgOAoJLwoJPAoJYnogKmZvcl8xNl9lbmQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTkzNQoJLy8ga2V5OiBQbHVnaW5zS2V5ID0geyBhcHBsaWNhdGlvbjogcGx1Z2luc1tpXSwgYWxsb3dlZENhbGxlcjogc2Vzc2lvbktleSB9CglmcmFtZV9kaWcgLTMgLy8gcGx1Z2luczogQXBwSURbXQoJc3RvcmUgMjU1IC8vIGZ1bGwgYXJyYXkKCWludCAwIC8vIGluaXRpYWwgb2Zmc2V0CglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCA4CgkqIC8vIGFjYyAqIHR5cGVMZW5ndGgKCSsKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCXN3YXAKCWludCA4CglleHRyYWN0MwoJYnRvaQoJaXRvYgoJZnJhbWVfZGlnIC0xIC8vIHNlc3Npb25LZXk6IEFkZHJlc3MKCWNvbmNhdAoJZnJhbWVfYnVyeSAyIC8vIGtleTogUGx1Z2luc0tleQoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTM2CgkvLyB0aGlzLnNldFBsdWdpbihrZXksIDAsIGV4cGlyeSwgZmFsc2UsIDAsIDAsIFtdLCBmYWxzZSwgdGhpcy5zZXNzaW9uRXBvY2gudmFsdWUpCglieXRlIDB4NzM2NSAvLyAic2UiCglhcHBfZ2xvYmFsX2dldAoJaW50IDAKCWJ5dGUgMHgKCWludCAwCglkdXBuIDIKCWZyYW1lX2RpZyAtMiAvLyBleHBpcnk6IHVpbnQ2NAoJaW50IDAKCWZyYW1lX2RpZyAyIC8vIGtleTogUGx1Z2luc0tleQoJY2FsbHN1YiBzZXRQbHVnaW4KCgkvLyAqaWY0Ml9jb25kaXRpb24KCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTM4CgkvLyBzcGVuZGluZ0xpbWl0ID4gMAoJZnJhbWVfZGlnIC00IC8vIHNwZW5kaW5nTGltaXQ6IHVpbnQ2NAoJaW50IDAKCT4KCWJ6ICppZjQyX2VuZAoKCS8vICppZjQyX2NvbnNlcXVlbnQKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTM5CgkvLyB0aGlzLnNldFNwZW5kaW5nTGltaXQoa2V5LCB7CgkvLyAgICAgICAgICAgYXNzZXQ6IEFzc2V0SUQuemVyb0luZGV4LAoJLy8gICAgICAgICAgIGFtb3VudDogc3BlbmRpbmdMaW1pdCwKCS8vICAgICAgICAgICBwZXJpb2Q6IGV4cGlyeSAtIGdsb2JhbHMubGF0ZXN0VGltZXN0YW1wLAoJLy8gICAgICAgICAgIHBlcmlvZFN0YXJ0OiBnbG9iYWxzLmxhdGVzdFRpbWVzdGFtcCwKCS8vICAgICAgICAgICBzcGVudDogMCwKCS8vICAgICAgICAgICBiYWxhbmNlQmVmb3JlOiAwLAoJLy8gICAgICAgICB9KQoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWZyYW1lX2RpZyAtNCAvLyBzcGVuZGluZ0xpbWl0OiB1aW50NjQKCWl0b2IKCWNvbmNhdAoJZnJhbWVfZGlnIC0yIC8vIGV4cGlyeTogdWludDY0CglnbG9iYWwgTGF0ZXN0VGltZXN0YW1wCgktCglpdG9iCgljb25jYXQKCWdsb2JhbCBMYXRlc3RUaW1lc3RhbXAKCWl0b2IKCWNvbmNhdAoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWNvbmNhdAoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWNvbmNhdAoJZnJhbWVfZGlnIDIgLy8ga2V5OiBQbHVnaW5zS2V5CgljYWxsc3ViIHNldFNwZW5kaW5nTGltaXQKCippZjQyX2VuZDoKCipmb3JfMTZfY29udGludWU6CgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTkzNAoJLy8gaSArPSAxCglmcmFtZV9kaWcgMSAvLyBpOiB1aW50NjQKCWludCAxCgkrCglmcmFtZV9idXJ5IDEgLy8gaTogdWludDY0CgliICpmb3JfMTYKCipmb3JfMTZfZW5kOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5NTAKCS8vIHRoaXMudmVyaWZ5TWJyUGF5bWVudChtYnJQYXltZW50LCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC01IC8vIG1iclBheW1lbnQ6IFBheVR4bgoJY2FsbHN1YiB2ZXJpZnlNYnJQYXltZW50CglyZXRzdWIKCi8vIGFyYzU4X3JlbW92ZVNlc3Npb25LZXkoYWRkcmVzcyxhZGRyZXNzKXZvaWQKKmFiaV9yb3V0ZV9hcmM1OF9yZW1vdmVTZXNzaW9uS2V5OgoJLy8gbWJyUmVjZWl2ZXI6IGFkZHJlc3MKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWR1cAoJbGVuCglpbnQgMzIKCT09Cglhc3NlcnQKCgkvLyBzZXNzaW9uS2V5OiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gZXhlY3V0ZSBhcmM1OF9yZW1vdmVTZXNzaW9uS2V5KGFkZHJlc3MsYWRkcmVzcyl2b2lkCgljYWxsc3ViIGFyYzU4X3JlbW92ZVNlc3Npb25LZXkKCWludCAxCglyZXR1cm4KCi8vIGFyYzU4X3JlbW92ZVNlc3Npb25LZXkoc2Vzc2lvbktleTogQWRkcmVzcywgbWJyUmVjZWl2ZXI6IEFkZHJlc3MpOiB2b2lkCi8vCi8vIFJlbW92ZSBhIHNlc3Npb24ga2V5IGFsb25nIHdpdGggdGhlIHBsdWdpbiBwZXJtaXNzaW9ucyBhbmQgc3BlbmRpbmcgbGltaXRzIHRoYXQgd2VyZSBhZGRlZCBmb3IgaXQKLy8KLy8gQHBhcmFtIHNlc3Npb25LZXkgVGhlIGFkZHJlc3Mgb2YgdGhlIHNlc3Npb24ga2V5Ci8vIEBwYXJhbSBtYnJSZWNlaXZlciBUaGUgYWRkcmVzcyB0byBzZW5kIHRoZSBNQlIgZnJlZWQgYnkgcmVtb3ZpbmcgdGhlIHNlc3Npb24ga2V5IHRvCmFyYzU4X3JlbW92ZVNlc3Npb25LZXk6Cglwcm90byAyIDAKCgkvLyBQdXNoIGVtcHR5IGJ5dGVzIGFmdGVyIHRoZSBmcmFtZSBwb2ludGVyIHRvIHJlc2VydmUgc3BhY2UgZm9yIGxvY2FsIHZhcmlhYmxlcwoJYnl0ZSAweAoJZHVwbiAyCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5NjAKCS8vIHRoaXMudmVyaWZ5QWRtaW4oKQoJY2FsbHN1YiB2ZXJpZnlBZG1pbgoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTYxCgkvLyBwcmVNQlIgPSB0aGlzLmFwcC5hZGRyZXNzLm1pbkJhbGFuY2UKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCglhY2N0X3BhcmFtc19nZXQgQWNjdE1pbkJhbGFuY2UKCXBvcAoJZnJhbWVfYnVyeSAwIC8vIHByZU1CUjogdWludDY0CgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5NjMKCS8vIHBsdWdpbnMgPSBjbG9uZSh0aGlzLnNlc3Npb25zKHNlc3Npb25LZXkpLnZhbHVlLnBsdWdpbnMpCglieXRlIDB4NmIgLy8gImsiCglmcmFtZV9kaWcgLTEgLy8gc2Vzc2lvbktleTogQWRkcmVzcwoJY29uY2F0Cglib3hfZ2V0Cglhc3NlcnQKCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMTYKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCWxvYWQgMjU1IC8vIGZ1bGwgYXJyYXkKCXVuY292ZXIgMgoJZXh0cmFjdF91aW50MTYKCWR1cCAvLyBkdXBsaWNhdGUgc3RhcnQgb2YgZWxlbWVudAoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJZXh0cmFjdF91aW50MTYgLy8gZ2V0IG51bWJlciBvZiBlbGVtZW50cwoJaW50IDggLy8gZ2V0IHR5cGUgbGVuZ3RoCgkqIC8vIG11bHRpcGx5IGJ5IHR5cGUgbGVuZ3RoCglpbnQgMgoJKyAvLyBhZGQgdHdvIGZvciBsZW5ndGgKCWV4dHJhY3QzCglleHRyYWN0IDIgMAoJZnJhbWVfYnVyeSAxIC8vIHBsdWdpbnM6IHVpbnQ2NFtdCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5NjQKCS8vIGZvciAobGV0IGkgPSAwOyBpIDwgcGx1Z2lucy5sZW5ndGg7IGkgKz0gMSkKCWludCAwCglmcmFtZV9idXJ5IDIgLy8gaTogdWludDY0CgoqZm9yXzE3OgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5NjQKCS8vIGkgPCBwbHVnaW5zLmxlbmd0aAoJZnJhbWVfZGlnIDIgLy8gaTogdWludDY0CglmcmFtZV9kaWcgMSAvLyBwbHVnaW5zOiB1aW50NjRbXQoJbGVuCglpbnQgOAoJLwoJPAoJYnogKmZvcl8xN19lbmQKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTk2NQoJLy8gdGhpcy5kZWxldGVQbHVnaW4oeyBhcHBsaWNhdGlvbjogcGx1Z2luc1tpXSwgYWxsb3dlZENhbGxlcjogc2Vzc2lvbktleSB9KQoJZnJhbWVfZGlnIDEgLy8gcGx1Z2luczogdWludDY0W10KCXN0b3JlIDI1NSAvLyBmdWxsIGFycmF5CglpbnQgMCAvLyBpbml0aWFsIG9mZnNldAoJZnJhbWVfZGlnIDIgLy8gaTogdWludDY0CglpbnQgOAoJKiAvLyBhY2MgKiB0eXBlTGVuZ3RoCgkrCglsb2FkIDI1NSAvLyBmdWxsIGFycmF5Cglzd2FwCglpbnQgOAoJZXh0cmFjdDMKCWJ0b2kKCWl0b2IKCWZyYW1lX2RpZyAtMSAvLyBzZXNzaW9uS2V5OiBBZGRyZXNzCgljb25jYXQKCWNhbGxzdWIgZGVsZXRlUGx1Z2luCgoqZm9yXzE3X2NvbnRpbnVlOgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5NjQKCS8vIGkgKz0gMQoJZnJhbWVfZGlnIDIgLy8gaTogdWludDY0CglpbnQgMQoJKwoJZnJhbWVfYnVyeSAyIC8vIGk6IHVpbnQ2NAoJYiAqZm9yXzE3CgoqZm9yXzE3X2VuZDoKCS8vIGNvbnRyYWN0cy9hYnN0cmFjdGVkX2FjY291bnQuYWxnby50czoxOTY4CgkvLyB0aGlzLnNlc3Npb25zKHNlc3Npb25LZXkpLmRlbGV0ZSgpCglieXRlIDB4NmIgLy8gImsiCglmcmFtZV9kaWcgLTEgLy8gc2Vzc2lvbktleTogQWRkcmVzcwoJY29uY2F0Cglib3hfZGVsCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5NzAKCS8vIHRoaXMucmVmdW5kTWJyKG1iclJlY2VpdmVyLCBwcmVNQlIpCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJZnJhbWVfZGlnIC0yIC8vIG1iclJlY2VpdmVyOiBBZGRyZXNzCgljYWxsc3ViIHJlZnVuZE1icgoJcmV0c3ViCgovLyBhcmM1OF9yZXZva2VBbGxTZXNzaW9uS2V5cygpdm9pZAoqYWJpX3JvdXRlX2FyYzU4X3Jldm9rZUFsbFNlc3Npb25LZXlzOgoJLy8gZXhlY3V0ZSBhcmM1OF9yZXZva2VBbGxTZXNzaW9uS2V5cygpdm9pZAoJY2FsbHN1YiBhcmM1OF9yZXZva2VBbGxTZXNzaW9uS2V5cwoJaW50IDEKCXJldHVybgoKLy8gYXJjNThfcmV2b2tlQWxsU2Vzc2lvbktleXMoKTogdm9pZAovLwovLyBSZXZva2UgZXZlcnkgc2Vzc2lvbiBrZXkgdGhhdCBoYXMgYmVlbiBhZGRlZCBzbyBmYXIKYXJjNThfcmV2b2tlQWxsU2Vzc2lvbktleXM6Cglwcm90byAwIDAKCgkvLyBjb250cmFjdHMvYWJzdHJhY3RlZF9hY2NvdW50LmFsZ28udHM6MTk3NwoJLy8gdGhpcy52ZXJpZnlBZG1pbigpCgljYWxsc3ViIHZlcmlmeUFkbWluCgoJLy8gY29udHJhY3RzL2Fic3RyYWN0ZWRfYWNjb3VudC5hbGdvLnRzOjE5NzgKCS8vIHRoaXMuc2Vzc2lvbkVwb2NoLnZhbHVlID0gdGhpcy5zZXNzaW9uRXBvY2gudmFsdWUgKyAxCglieXRlIDB4NzM2NSAvLyAic2UiCglkdXAKCWFwcF9nbG9iYWxfZ2V0CglpbnQgMQoJKwoJYXBwX2dsb2JhbF9wdXQKCXJldHN1YgoKKmNyZWF0ZV9Ob09wOgoJbWV0aG9kICJjcmVhdGVBcHBsaWNhdGlvbihhZGRyZXNzLGFkZHJlc3MsYWRkcmVzc1tdLHVpbnQ2NCl2b2lkIgoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMAoJbWF0Y2ggKmFiaV9yb3V0ZV9jcmVhdGVBcHBsaWNhdGlvbgoJZXJyCgoqY2FsbF9Ob09wOgoJbWV0aG9kICJhcmM1OF9pbml0QWRtaW5TaWduZXJzKGFkZHJlc3NbXSxwYXkpdm9pZCIKCW1ldGhvZCAiYXJjNThfYXV0aG9yaXplSW50ZW50KHVpbnQ2NCx1aW50NjQsYnl0ZVs2NF0pdm9pZCIKCW1ldGhvZCAiYXJjNThfYXV0aG9yaXplUGFzc2tleUludGVudCh1aW50NjQsdWludDY0LGJ5dGVbXSxieXRlW10sYnl0ZVs2NF0pdm9pZCIKCW1ldGhvZCAiYXJjNThfYXV0aG9yaXplRXRoZXJldW1JbnRlbnQodWludDY0LHVpbnQ2NCxieXRlWzY1XSl2b2lkIgoJbWV0aG9kICJhcmM1OF9zZXRBZG1pblBhc3NrZXkoYnl0ZVs2NF0pdm9pZCIKCW1ldGhvZCAiYXJjNThfc2V0QWRtaW5FdGhlcmV1bUFkZHJlc3MoYnl0ZVsyMF0pdm9pZCIKCW1ldGhvZCAiYXJjNThfYXBwcm92ZU9wZXJhdGlvbihieXRlWzMyXSxwYXkpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmV2b2tlQXBwcm92YWwoYnl0ZVszMl0sYWRkcmVzcyl2b2lkIgoJbWV0aG9kICJhcmM1OF9jaGFuZ2VBZG1pbihhZGRyZXNzLHVpbnQ2NCl2b2lkIgoJbWV0aG9kICJhcmM1OF9hY2NlcHRBZG1pbigpdm9pZCIKCW1ldGhvZCAiYXJjNThfY2FuY2VsQWRtaW5DaGFuZ2UoKXZvaWQiCgltZXRob2QgImFyYzU4X2dldEFkbWluKClhZGRyZXNzIgoJbWV0aG9kICJhcmM1OF9nZXRQbHVnaW5JbmZvKHVpbnQ2NCxhZGRyZXNzKSh1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxib29sLHVpbnQ2NCx1aW50NjQsdWludDY0LHVpbnQ2NCxieXRlWzMyXSxieXRlWzRdW10pIgoJbWV0aG9kICJhcmM1OF9nZXROYW1lZFBsdWdpbihzdHJpbmcpKCh1aW50NjQsYWRkcmVzcyksKHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCx1aW50NjQsdWludDY0LGJ5dGVbMzJdLGJ5dGVbNF1bXSkpIgoJbWV0aG9kICJhcmM1OF9jYW5DYWxsUGx1Z2luKHVpbnQ2NCxhZGRyZXNzKWJvb2wiCgltZXRob2QgImFyYzU4X3ZlcmlmeUF1dGhBZGRyKCl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZWtleVRvKGFkZHJlc3MsYm9vbCl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZWtleVRvUGx1Z2luKHVpbnQ2NCl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZWtleVRvUGx1Z2luQXNTZXRNZW1iZXIodWludDY0LHN0cmluZyl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZWtleVRvTmFtZWRQbHVnaW4oc3RyaW5nKXZvaWQiCgltZXRob2QgImFyYzU4X2FkZFBsdWdpbih1aW50NjQsYWRkcmVzcyx1aW50NjQsdWludDY0LGJvb2wsdWludDY0LHVpbnQ2NCxieXRlWzRdW10scGF5KXZvaWQiCgltZXRob2QgImFyYzU4X3JlbW92ZVBsdWdpbih1aW50NjQsYWRkcmVzcyxhZGRyZXNzKXZvaWQiCgltZXRob2QgImFyYzU4X3ZldG9QbHVnaW4odWludDY0LGFkZHJlc3Msc3RyaW5nW10sYWRkcmVzcyl2b2lkIgoJbWV0aG9kICJhcmM1OF9zZXRQbHVnaW5EZWxheSh1aW50NjQpdm9pZCIKCW1ldGhvZCAiYXJjNThfYWRkTmFtZWRQbHVnaW4oc3RyaW5nLHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LGJ5dGVbNF1bXSxwYXkpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmVtb3ZlTmFtZWRQbHVnaW4oc3RyaW5nLGFkZHJlc3Mpdm9pZCIKCW1ldGhvZCAiYXJjNThfdXBkYXRlTmFtZWRQbHVnaW4oc3RyaW5nLHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LGJ5dGVbNF1bXSxwYXkpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmVuYW1lTmFtZWRQbHVnaW4oc3RyaW5nLHN0cmluZyxwYXkpdm9pZCIKCW1ldGhvZCAiYXJjNThfYWRkQ2FsbGVyU2V0TWVtYmVyKHN0cmluZyxhZGRyZXNzLHBheSl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZW1vdmVDYWxsZXJTZXRNZW1iZXIoc3RyaW5nLGFkZHJlc3MsYWRkcmVzcyl2b2lkIgoJbWV0aG9kICJhcmM1OF9zZXRQbHVnaW5HYXRlKHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCx1aW50NjQpdm9pZCIKCW1ldGhvZCAiYXJjNThfc2V0RmVlQnVkZ2V0KHVpbnQ2NCx1aW50NjQsdWludDY0LHBheSl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZW1vdmVGZWVCdWRnZXQodWludDY0LGFkZHJlc3Mpdm9pZCIKCW1ldGhvZCAiYXJjNThfc2V0U3BlbmRpbmdMaW1pdCh1aW50NjQsYWRkcmVzcyx1aW50NjQsdWludDY0LHVpbnQ2NCxwYXkpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmVtb3ZlU3BlbmRpbmdMaW1pdCh1aW50NjQsYWRkcmVzcyx1aW50NjQsYWRkcmVzcyl2b2lkIgoJbWV0aG9kICJhcmM1OF9hZGRHdWFyZGlhbihhZGRyZXNzLHBheSl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZW1vdmVHdWFyZGlhbihhZGRyZXNzLGFkZHJlc3Mpdm9pZCIKCW1ldGhvZCAiYXJjNThfc2V0UmVjb3ZlcnlDb25maWcodWludDY0LHVpbnQ2NCx1aW50NjQpdm9pZCIKCW1ldGhvZCAiYXJjNThfcHJvcG9zZVJlY292ZXJ5KGFkZHJlc3Mpdm9pZCIKCW1ldGhvZCAiYXJjNThfYXBwcm92ZVJlY292ZXJ5KCl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZXZva2VSZWNvdmVyeUFwcHJvdmFsKCl2b2lkIgoJbWV0aG9kICJhcmM1OF9jYW5jZWxSZWNvdmVyeSgpdm9pZCIKCW1ldGhvZCAiYXJjNThfZmluYWxpemVSZWNvdmVyeSgpdm9pZCIKCW1ldGhvZCAiYXJjNThfc2V0UGF1c2VHdWFyZGlhbihhZGRyZXNzKXZvaWQiCgltZXRob2QgImFyYzU4X3BhdXNlKCl2b2lkIgoJbWV0aG9kICJhcmM1OF91bnBhdXNlKCl2b2lkIgoJbWV0aG9kICJhcmM1OF9ncmFudFJvbGUoYWRkcmVzcyxib29sLGJvb2wsdWludDY0LHBheSl2b2lkIgoJbWV0aG9kICJhcmM1OF9yZXZva2VSb2xlKGFkZHJlc3MsYWRkcmVzcyl2b2lkIgoJbWV0aG9kICJhcmM1OF9hZGRTZXNzaW9uS2V5KGFkZHJlc3MsdWludDY0LHVpbnQ2NFtdLHVpbnQ2NCxwYXkpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmVtb3ZlU2Vzc2lvbktleShhZGRyZXNzLGFkZHJlc3Mpdm9pZCIKCW1ldGhvZCAiYXJjNThfcmV2b2tlQWxsU2Vzc2lvbktleXMoKXZvaWQiCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAwCgltYXRjaCAqYWJpX3JvdXRlX2FyYzU4X2luaXRBZG1pblNpZ25lcnMgKmFiaV9yb3V0ZV9hcmM1OF9hdXRob3JpemVJbnRlbnQgKmFiaV9yb3V0ZV9hcmM1OF9hdXRob3JpemVQYXNza2V5SW50ZW50ICphYmlfcm91dGVfYXJjNThfYXV0aG9yaXplRXRoZXJldW1JbnRlbnQgKmFiaV9yb3V0ZV9hcmM1OF9zZXRBZG1pblBhc3NrZXkgKmFiaV9yb3V0ZV9hcmM1OF9zZXRBZG1pbkV0aGVyZXVtQWRkcmVzcyAqYWJpX3JvdXRlX2FyYzU4X2FwcHJvdmVPcGVyYXRpb24gKmFiaV9yb3V0ZV9hcmM1OF9yZXZva2VBcHByb3ZhbCAqYWJpX3JvdXRlX2FyYzU4X2NoYW5nZUFkbWluICphYmlfcm91dGVfYXJjNThfYWNjZXB0QWRtaW4gKmFiaV9yb3V0ZV9hcmM1OF9jYW5jZWxBZG1pbkNoYW5nZSAqYWJpX3JvdXRlX2FyYzU4X2dldEFkbWluICphYmlfcm91dGVfYXJjNThfZ2V0UGx1Z2luSW5mbyAqYWJpX3JvdXRlX2FyYzU4X2dldE5hbWVkUGx1Z2luICphYmlfcm91dGVfYXJjNThfY2FuQ2FsbFBsdWdpbiAqYWJpX3JvdXRlX2FyYzU4X3ZlcmlmeUF1dGhBZGRyICphYmlfcm91dGVfYXJjNThfcmVrZXlUbyAqYWJpX3JvdXRlX2FyYzU4X3Jla2V5VG9QbHVnaW4gKmFiaV9yb3V0ZV9hcmM1OF9yZWtleVRvUGx1Z2luQXNTZXRNZW1iZXIgKmFiaV9yb3V0ZV9hcmM1OF9yZWtleVRvTmFtZWRQbHVnaW4gKmFiaV9yb3V0ZV9hcmM1OF9hZGRQbHVnaW4gKmFiaV9yb3V0ZV9hcmM1OF9yZW1vdmVQbHVnaW4gKmFiaV9yb3V0ZV9hcmM1OF92ZXRvUGx1Z2luICphYmlfcm91dGVfYXJjNThfc2V0UGx1Z2luRGVsYXkgKmFiaV9yb3V0ZV9hcmM1OF9hZGROYW1lZFBsdWdpbiAqYWJpX3JvdXRlX2FyYzU4X3JlbW92ZU5hbWVkUGx1Z2luICphYmlfcm91dGVfYXJjNThfdXBkYXRlTmFtZWRQbHVnaW4gKmFiaV9yb3V0ZV9hcmM1OF9yZW5hbWVOYW1lZFBsdWdpbiAqYWJpX3JvdXRlX2FyYzU4X2FkZENhbGxlclNldE1lbWJlciAqYWJpX3JvdXRlX2FyYzU4X3JlbW92ZUNhbGxlclNldE1lbWJlciAqYWJpX3JvdXRlX2FyYzU4X3NldFBsdWdpbkdhdGUgKmFiaV9yb3V0ZV9hcmM1OF9zZXRGZWVCdWRnZXQgKmFiaV9yb3V0ZV9hcmM1OF9yZW1vdmVGZWVCdWRnZXQgKmFiaV9yb3V0ZV9hcmM1OF9zZXRTcGVuZGluZ0xpbWl0ICphYmlfcm91dGVfYXJjNThfcmVtb3ZlU3BlbmRpbmdMaW1pdCAqYWJpX3JvdXRlX2FyYzU4X2FkZEd1YXJkaWFuICphYmlfcm91dGVfYXJjNThfcmVtb3ZlR3VhcmRpYW4gKmFiaV9yb3V0ZV9hcmM1OF9zZXRSZWNvdmVyeUNvbmZpZyAqYWJpX3JvdXRlX2FyYzU4X3Byb3Bvc2VSZWNvdmVyeSAqYWJpX3JvdXRlX2FyYzU4X2FwcHJvdmVSZWNvdmVyeSAqYWJpX3JvdXRlX2FyYzU4X3Jldm9rZVJlY292ZXJ5QXBwcm92YWwgKmFiaV9yb3V0ZV9hcmM1OF9jYW5jZWxSZWNvdmVyeSAqYWJpX3JvdXRlX2FyYzU4X2ZpbmFsaXplUmVjb3ZlcnkgKmFiaV9yb3V0ZV9hcmM1OF9zZXRQYXVzZUd1YXJkaWFuICphYmlfcm91dGVfYXJjNThfcGF1c2UgKmFiaV9yb3V0ZV9hcmM1OF91bnBhdXNlICphYmlfcm91dGVfYXJjNThfZ3JhbnRSb2xlICphYmlfcm91dGVfYXJjNThfcmV2b2tlUm9sZSAqYWJpX3JvdXRlX2FyYzU4X2FkZFNlc3Npb25LZXkgKmFiaV9yb3V0ZV9hcmM1OF9yZW1vdmVTZXNzaW9uS2V5ICphYmlfcm91dGVfYXJjNThfcmV2b2tlQWxsU2Vzc2lvbktleXMKCWVycgoKKnByb2Nlc3Nfc3RhdGljX3R1cGxlX2VsZW1lbnQ6Cglwcm90byA0IDMKCWZyYW1lX2RpZyAtNCAvLyB0dXBsZSBoZWFkCglmcmFtZV9kaWcgLTEgLy8gZWxlbWVudAoJY29uY2F0CglmcmFtZV9kaWcgLTMgLy8gdHVwbGUgdGFpbAoJZnJhbWVfZGlnIC0yIC8vIGhlYWQgb2Zmc2V0CglyZXRzdWIKCipwcm9jZXNzX2R5bmFtaWNfdHVwbGVfZWxlbWVudDoKCXByb3RvIDQgMwoJZnJhbWVfZGlnIC00IC8vIHR1cGxlIGhlYWQKCWZyYW1lX2RpZyAtMiAvLyBoZWFkIG9mZnNldAoJY29uY2F0CglmcmFtZV9idXJ5IC00IC8vIHR1cGxlIGhlYWQKCWZyYW1lX2RpZyAtMSAvLyBlbGVtZW50CglkdXAKCWxlbgoJZnJhbWVfZGlnIC0yIC8vIGhlYWQgb2Zmc2V0CglidG9pCgkrCglpdG9iCglleHRyYWN0IDYgMgoJZnJhbWVfYnVyeSAtMiAvLyBoZWFkIG9mZnNldAoJZnJhbWVfZGlnIC0zIC8vIHR1cGxlIHRhaWwKCXN3YXAKCWNvbmNhdAoJZnJhbWVfYnVyeSAtMyAvLyB0dXBsZSB0YWlsCglmcmFtZV9kaWcgLTQgLy8gdHVwbGUgaGVhZAoJZnJhbWVfZGlnIC0zIC8vIHR1cGxlIHRhaWwKCWZyYW1lX2RpZyAtMiAvLyBoZWFkIG9mZnNldAoJcmV0c3Vi",
     "clear": "I3ByYWdtYSB2ZXJzaW9uIDEw"
   },
   "contract": {
@@ -142,20 +427,53 @@ export const APP_SPEC: AppSpec = {
             "name": "admin",
             "type": "address",
             "desc": "The admin for this app"
+          },
+          {
+            "name": "adminSigners",
+            "type": "address[]",
+            "desc": "The distinct signers that approve admin operations instead of the admin.They must be registered with arc58_initAdminSigners once the app is funded"
+          },
+          {
+            "name": "adminThreshold",
+            "type": "uint64",
+            "desc": "The number of signers that must approve an admin operation, or zero to use the admin"
           }
         ],
         "returns": {
           "type": "void"
-        }
+        },
+        "events": [
+          {
+            "name": "accountCreated",
+            "args": [
+              {
+                "name": "controlledAddress",
+                "type": "address",
+                "desc": "The address of the abstracted account"
+              },
+              {
+                "name": "admin",
+                "type": "address",
+                "desc": "The admin of the account"
+              }
+            ],
+            "desc": "The account was created"
+          }
+        ]
       },
       {
-        "name": "arc58_changeAdmin",
-        "desc": "Attempt to change the admin for this app. Some implementations MAY not support this.",
+        "name": "arc58_initAdminSigners",
+        "desc": "Register the signers given at creation. Boxes cannot be created during creation because the app is not funded yet.Can be called by anyone, but only once and only with the signers given at creation.",
         "args": [
           {
-            "name": "newAdmin",
-            "type": "address",
-            "desc": "The new admin"
+            "name": "adminSigners",
+            "type": "address[]",
+            "desc": "The signers given at creation"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR of the signer boxes"
           }
         ],
         "returns": {
@@ -163,34 +481,57 @@ export const APP_SPEC: AppSpec = {
         }
       },
       {
-        "name": "arc58_getAdmin",
-        "desc": "Get the admin of this app. This method SHOULD always be used rather than reading directly from statebecause different implementations may have different ways of determining the admin.",
-        "args": [],
-        "returns": {
-          "type": "address"
-        }
-      },
-      {
-        "name": "arc58_verifyAuthAddr",
-        "desc": "Verify the abstracted account is rekeyed to this app",
-        "args": [],
+        "name": "arc58_authorizeIntent",
+        "desc": "Authorize the admin method call that comes right after this one in the group with an intent signed by the admin,so anyone can relay admin operations and the admin key never needs ALGO. Only available when adminThreshold is zero.The admin signs`\"arc58intent\" + app ID + nonce + expiry + sha256(concatenated application args of the call)`with ed25519. The payment arguments of the method, such as its MBR payment, go between the two calls.The relayer must cover the fees of the three inner transactions used to increase the opcode budget.",
+        "args": [
+          {
+            "name": "nonce",
+            "type": "uint64",
+            "desc": "The current intent nonce, so every intent can only be used once"
+          },
+          {
+            "name": "expiry",
+            "type": "uint64",
+            "desc": "The timestamp after which the intent can no longer be used"
+          },
+          {
+            "name": "signature",
+            "type": "byte[64]",
+            "desc": "The admin's signature of the intent"
+          }
+        ],
         "returns": {
           "type": "void"
         }
       },
       {
-        "name": "arc58_rekeyTo",
-        "desc": "Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.",
+        "name": "arc58_authorizePasskeyIntent",
+        "desc": "Authorize the admin method call that comes right after this one in the group with a WebAuthn assertionof the admin's passkey. Only available when the admin is a passkey. The challenge of the assertion isthe sha256 of the same message arc58_authorizeIntent verifies, and the user must have been present.The relayer must cover the fees of the four inner transactions used to increase the opcode budget.",
         "args": [
           {
-            "name": "addr",
-            "type": "address",
-            "desc": "The address to rekey to"
+            "name": "nonce",
+            "type": "uint64",
+            "desc": "The current intent nonce, so every intent can only be used once"
           },
           {
-            "name": "flash",
-            "type": "bool",
-            "desc": "Whether or not this should be a flash rekey. If true, the rekey back to the app address must done in the same txn group as this call"
+            "name": "expiry",
+            "type": "uint64",
+            "desc": "The timestamp after which the intent can no longer be used"
+          },
+          {
+            "name": "authenticatorData",
+            "type": "byte[]",
+            "desc": "The authenticator data of the assertion"
+          },
+          {
+            "name": "clientDataJSON",
+            "type": "byte[]",
+            "desc": "The client data JSON of the assertion, which contains the base64url challenge"
+          },
+          {
+            "name": "signature",
+            "type": "byte[64]",
+            "desc": "The r and s components of the assertion's signature"
           }
         ],
         "returns": {
@@ -198,13 +539,23 @@ export const APP_SPEC: AppSpec = {
         }
       },
       {
-        "name": "arc58_rekeyToPlugin",
-        "desc": "Temporarily rekey to an approved plugin app address",
+        "name": "arc58_authorizeEthereumIntent",
+        "desc": "Authorize the admin method call that comes right after this one in the group with EIP-712 typed data signedby the admin's Ethereum key, ie. with`eth_signTypedData_v4`. Only available when the admin is an Ethereum address.The typed data is an`Intent(uint64 app,uint64 nonce,uint64 expiry,bytes32 operation)`in the`{ name: \"ARC58 Abstracted Account\", version: \"1\" }`domain, where operation is the same hash of the applicationargs arc58_authorizeIntent uses. The relayer must cover the fees of the four inner transactions used to increasethe opcode budget.",
         "args": [
           {
-            "name": "plugin",
+            "name": "nonce",
             "type": "uint64",
-            "desc": "The app to rekey to"
+            "desc": "The current intent nonce, so every intent can only be used once"
+          },
+          {
+            "name": "expiry",
+            "type": "uint64",
+            "desc": "The timestamp after which the intent can no longer be used"
+          },
+          {
+            "name": "signature",
+            "type": "byte[65]",
+            "desc": "The r, s and v components of the signature"
           }
         ],
         "returns": {
@@ -212,13 +563,273 @@ export const APP_SPEC: AppSpec = {
         }
       },
       {
-        "name": "arc58_rekeyToNamedPlugin",
-        "desc": "Temporarily rekey to a named plugin app address",
+        "name": "arc58_setAdminPasskey",
+        "desc": "Make a passkey the admin. Admin operations must then be authorized with arc58_authorizePasskeyIntentand the admin address becomes the global zero address, since no address can act as the admin.",
         "args": [
           {
-            "name": "name",
-            "type": "string",
-            "desc": "The name of the plugin to rekey to"
+            "name": "publicKey",
+            "type": "byte[64]",
+            "desc": "The x and y coordinates of the passkey's secp256r1 public key"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_setAdminEthereumAddress",
+        "desc": "Make an Ethereum key the admin. Admin operations must then be authorized with arc58_authorizeEthereumIntentand the admin address becomes the global zero address, since no Algorand address can act as the admin.",
+        "args": [
+          {
+            "name": "ethereumAddress",
+            "type": "byte[20]",
+            "desc": "The 20 byte address of the Ethereum key"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_approveOperation",
+        "desc": "Approve an admin operation. Must be called by a signer. Once enough signers have approved, anyone cancall the admin method with the application args the hash was computed from.The MBR of the approvals stays with the app address once the operation is executed.",
+        "args": [
+          {
+            "name": "hash",
+            "type": "byte[32]",
+            "desc": "The sha256 hash of the concatenated application args of the admin method call"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR added by the approval"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_revokeApproval",
+        "desc": "Revoke an approval of an admin operation that has not been executed yet",
+        "args": [
+          {
+            "name": "hash",
+            "type": "byte[32]",
+            "desc": "The hash of the operation"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the approval to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_changeAdmin",
+        "desc": "Attempt to change the admin for this app. Some implementations MAY not support this.The admin only changes once the new admin calls arc58_acceptAdmin, which ensures the new admin is an addresssomeone controls. Replaces any pending admin change.",
+        "args": [
+          {
+            "name": "newAdmin",
+            "type": "address",
+            "desc": "The new admin"
+          },
+          {
+            "name": "delay",
+            "type": "uint64",
+            "desc": "The number of seconds that must pass before the new admin can accept"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        },
+        "events": [
+          {
+            "name": "adminChangeStarted",
+            "args": [
+              {
+                "name": "newAdmin",
+                "type": "address",
+                "desc": "The pending admin"
+              },
+              {
+                "name": "readyAt",
+                "type": "uint64",
+                "desc": "The timestamp when the pending admin can accept"
+              }
+            ],
+            "desc": "An admin change was started"
+          }
+        ]
+      },
+      {
+        "name": "arc58_acceptAdmin",
+        "desc": "Accept becoming the admin of this app. Must be called by the pending admin once the delay has passed.",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_cancelAdminChange",
+        "desc": "Cancel the pending admin change",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_getAdmin",
+        "desc": "Get the admin of this app. This method SHOULD always be used rather than reading directly from statebecause different implementations may have different ways of determining the admin.",
+        "args": [],
+        "returns": {
+          "type": "address"
+        }
+      },
+      {
+        "name": "arc58_getPluginInfo",
+        "desc": "Get the permission data of a plugin",
+        "readonly": true,
+        "args": [
+          {
+            "name": "app",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The address that's allowed to call the appor the global zero address for all addresses"
+          }
+        ],
+        "returns": {
+          "type": "(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])"
+        }
+      },
+      {
+        "name": "arc58_getNamedPlugin",
+        "desc": "Get the plugin permission a name refers to and its permission data",
+        "readonly": true,
+        "args": [
+          {
+            "name": "name",
+            "type": "string",
+            "desc": "The plugin name"
+          }
+        ],
+        "returns": {
+          "type": "((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))"
+        }
+      },
+      {
+        "name": "arc58_canCallPlugin",
+        "desc": "Whether the given address can currently rekey the abstracted account to the pluginvia arc58_rekeyToPlugin. Spending limits are not checked since they depend on what the plugin does.",
+        "readonly": true,
+        "args": [
+          {
+            "name": "app",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "caller",
+            "type": "address",
+            "desc": "The address that would call arc58_rekeyToPlugin"
+          }
+        ],
+        "returns": {
+          "type": "bool"
+        }
+      },
+      {
+        "name": "arc58_verifyAuthAddr",
+        "desc": "Verify the abstracted account is rekeyed to this app",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_rekeyTo",
+        "desc": "Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.This is not subject to the plugin delay, so the admin key can hand over the account immediately.",
+        "args": [
+          {
+            "name": "addr",
+            "type": "address",
+            "desc": "The address to rekey to"
+          },
+          {
+            "name": "flash",
+            "type": "bool",
+            "desc": "Whether or not this should be a flash rekey. If true, the rekey back to the app address must done in the same txn group as this call"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        },
+        "events": [
+          {
+            "name": "rekeyed",
+            "args": [
+              {
+                "name": "addr",
+                "type": "address",
+                "desc": "The address the account was rekeyed to"
+              },
+              {
+                "name": "flash",
+                "type": "bool",
+                "desc": "Whether the account must be rekeyed back in the same group"
+              }
+            ],
+            "desc": "The abstracted account was rekeyed by the admin"
+          }
+        ]
+      },
+      {
+        "name": "arc58_rekeyToPlugin",
+        "desc": "Temporarily rekey to an approved plugin app address.Several plugins can be used in one group by calling this before each of them, with one arc58_verifyAuthAddr at the end.",
+        "args": [
+          {
+            "name": "plugin",
+            "type": "uint64",
+            "desc": "The app to rekey to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_rekeyToPluginAsSetMember",
+        "desc": "Temporarily rekey to a plugin app address that has been approved for a caller set the sender is a member of",
+        "args": [
+          {
+            "name": "plugin",
+            "type": "uint64",
+            "desc": "The app to rekey to"
+          },
+          {
+            "name": "callerSet",
+            "type": "string",
+            "desc": "The name of the caller set"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_rekeyToNamedPlugin",
+        "desc": "Temporarily rekey to a named plugin app address",
+        "args": [
+          {
+            "name": "name",
+            "type": "string",
+            "desc": "The name of the plugin to rekey to"
           }
         ],
         "returns": {
@@ -239,10 +850,40 @@ export const APP_SPEC: AppSpec = {
             "type": "address",
             "desc": "The address of that's allowed to call the appor the global zero address for all addresses"
           },
+          {
+            "name": "start",
+            "type": "uint64",
+            "desc": "The timestamp (or round) when the permission starts, or zero to start immediately"
+          },
           {
             "name": "end",
             "type": "uint64",
-            "desc": "The timestamp when the permission expires"
+            "desc": "The timestamp (or round) when the permission expires"
+          },
+          {
+            "name": "useRounds",
+            "type": "bool",
+            "desc": "Whether`start`,`end`and`cooldown`are rounds rather than timestamps"
+          },
+          {
+            "name": "cooldown",
+            "type": "uint64",
+            "desc": "The minimum number of seconds (or rounds) that must pass between uses of the plugin"
+          },
+          {
+            "name": "maxUses",
+            "type": "uint64",
+            "desc": "The maximum number of times the plugin can be used, or zero for no maximum"
+          },
+          {
+            "name": "methods",
+            "type": "byte[4][]",
+            "desc": "The method selectors the allowed caller may call on the app. If empty, all methods are allowed"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR of the boxes created by this call"
           }
         ],
         "returns": {
@@ -251,7 +892,7 @@ export const APP_SPEC: AppSpec = {
       },
       {
         "name": "arc58_removePlugin",
-        "desc": "Remove an app from the list of approved plugins",
+        "desc": "Remove an app from the list of approved plugins. If names still refer to the permission, it is kept for them.",
         "args": [
           {
             "name": "app",
@@ -260,7 +901,79 @@ export const APP_SPEC: AppSpec = {
           },
           {
             "name": "allowedCaller",
-            "type": "address"
+            "type": "address",
+            "desc": "The allowed caller of the plugin permission to remove"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the plugin to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_vetoPlugin",
+        "desc": "Remove a plugin permission that has not become active yet, along with the names that refer to it.Can be called by the admin or any guardian.",
+        "args": [
+          {
+            "name": "app",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller of the plugin permission to veto"
+          },
+          {
+            "name": "names",
+            "type": "string[]",
+            "desc": "Every name that refers to the plugin permission"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the plugin and its names to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        },
+        "events": [
+          {
+            "name": "namedPluginRemoved",
+            "args": [
+              {
+                "name": "name",
+                "type": "string",
+                "desc": "The plugin name"
+              },
+              {
+                "name": "application",
+                "type": "uint64",
+                "desc": "The plugin app"
+              },
+              {
+                "name": "allowedCaller",
+                "type": "address",
+                "desc": "The allowed caller, or the global zero address for all addresses"
+              }
+            ],
+            "desc": "A named plugin permission was removed"
+          }
+        ]
+      },
+      {
+        "name": "arc58_setPluginDelay",
+        "desc": "Set how long new plugin permissions must wait before they can be used. Permissions that were already added are not affected.Raising the delay applies immediately, but lowering it only applies once the current delay has passed,so a compromised admin key can't skip the veto window by lowering the delay first.",
+        "args": [
+          {
+            "name": "delay",
+            "type": "uint64",
+            "desc": "The number of seconds, or zero to make new permissions usable immediately"
           }
         ],
         "returns": {
@@ -283,950 +996,4477 @@ export const APP_SPEC: AppSpec = {
           },
           {
             "name": "allowedCaller",
-            "type": "address"
+            "type": "address",
+            "desc": "The address of that's allowed to call the appor the global zero address for all addresses"
+          },
+          {
+            "name": "start",
+            "type": "uint64",
+            "desc": "The timestamp (or round) when the permission starts, or zero to start immediately"
           },
           {
             "name": "end",
-            "type": "uint64"
+            "type": "uint64",
+            "desc": "The timestamp (or round) when the permission expires"
+          },
+          {
+            "name": "useRounds",
+            "type": "bool",
+            "desc": "Whether`start`,`end`and`cooldown`are rounds rather than timestamps"
+          },
+          {
+            "name": "cooldown",
+            "type": "uint64",
+            "desc": "The minimum number of seconds (or rounds) that must pass between uses of the plugin"
+          },
+          {
+            "name": "maxUses",
+            "type": "uint64",
+            "desc": "The maximum number of times the plugin can be used, or zero for no maximum"
+          },
+          {
+            "name": "methods",
+            "type": "byte[4][]",
+            "desc": "The method selectors the allowed caller may call on the app. If empty, all methods are allowed"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR of the boxes created by this call"
           }
         ],
         "returns": {
           "type": "void"
-        }
+        },
+        "events": [
+          {
+            "name": "namedPluginAdded",
+            "args": [
+              {
+                "name": "name",
+                "type": "string",
+                "desc": "The plugin name"
+              },
+              {
+                "name": "application",
+                "type": "uint64",
+                "desc": "The plugin app"
+              },
+              {
+                "name": "allowedCaller",
+                "type": "address",
+                "desc": "The allowed caller, or the global zero address for all addresses"
+              }
+            ],
+            "desc": "A name was given to a plugin permission"
+          }
+        ]
       },
       {
         "name": "arc58_removeNamedPlugin",
-        "desc": "Remove a named plugin",
+        "desc": "Remove a named plugin. The permission is kept if it was also added without a name or other names refer to it.",
         "args": [
           {
             "name": "name",
             "type": "string",
             "desc": "The plugin name"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the plugin to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        },
+        "events": [
+          {
+            "name": "namedPluginRemoved",
+            "args": [
+              {
+                "name": "name",
+                "type": "string",
+                "desc": "The plugin name"
+              },
+              {
+                "name": "application",
+                "type": "uint64",
+                "desc": "The plugin app"
+              },
+              {
+                "name": "allowedCaller",
+                "type": "address",
+                "desc": "The allowed caller, or the global zero address for all addresses"
+              }
+            ],
+            "desc": "A named plugin permission was removed"
+          }
+        ]
+      },
+      {
+        "name": "arc58_updateNamedPlugin",
+        "desc": "Point an existing name at a new plugin permission in a single call, so the name can always be rekeyed to.The permission the name referred to is removed unless something else still refers to it.",
+        "args": [
+          {
+            "name": "name",
+            "type": "string",
+            "desc": "The plugin name"
+          },
+          {
+            "name": "app",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The address of that's allowed to call the appor the global zero address for all addresses"
+          },
+          {
+            "name": "start",
+            "type": "uint64",
+            "desc": "The timestamp (or round) when the permission starts, or zero to start immediately"
+          },
+          {
+            "name": "end",
+            "type": "uint64",
+            "desc": "The timestamp (or round) when the permission expires"
+          },
+          {
+            "name": "useRounds",
+            "type": "bool",
+            "desc": "Whether`start`,`end`and`cooldown`are rounds rather than timestamps"
+          },
+          {
+            "name": "cooldown",
+            "type": "uint64",
+            "desc": "The minimum number of seconds (or rounds) that must pass between uses of the plugin"
+          },
+          {
+            "name": "maxUses",
+            "type": "uint64",
+            "desc": "The maximum number of times the plugin can be used, or zero for no maximum"
+          },
+          {
+            "name": "methods",
+            "type": "byte[4][]",
+            "desc": "The method selectors the allowed caller may call on the app. If empty, all methods are allowed"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR added by this call.If the call frees MBR instead, the payment must be zero and the freed MBR is sent back to its sender"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        },
+        "events": [
+          {
+            "name": "namedPluginRemoved",
+            "args": [
+              {
+                "name": "name",
+                "type": "string",
+                "desc": "The plugin name"
+              },
+              {
+                "name": "application",
+                "type": "uint64",
+                "desc": "The plugin app"
+              },
+              {
+                "name": "allowedCaller",
+                "type": "address",
+                "desc": "The allowed caller, or the global zero address for all addresses"
+              }
+            ],
+            "desc": "A named plugin permission was removed"
+          },
+          {
+            "name": "namedPluginAdded",
+            "args": [
+              {
+                "name": "name",
+                "type": "string",
+                "desc": "The plugin name"
+              },
+              {
+                "name": "application",
+                "type": "uint64",
+                "desc": "The plugin app"
+              },
+              {
+                "name": "allowedCaller",
+                "type": "address",
+                "desc": "The allowed caller, or the global zero address for all addresses"
+              }
+            ],
+            "desc": "A name was given to a plugin permission"
+          }
+        ]
+      },
+      {
+        "name": "arc58_renameNamedPlugin",
+        "desc": "Give a named plugin a new name in a single call. The plugin permission is not changed.",
+        "args": [
+          {
+            "name": "name",
+            "type": "string",
+            "desc": "The current name"
+          },
+          {
+            "name": "newName",
+            "type": "string",
+            "desc": "The new name, which must not be in use"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR added by the longer name.If the new name is shorter, the payment must be zero and the freed MBR is sent back to its sender"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        },
+        "events": [
+          {
+            "name": "namedPluginRemoved",
+            "args": [
+              {
+                "name": "name",
+                "type": "string",
+                "desc": "The plugin name"
+              },
+              {
+                "name": "application",
+                "type": "uint64",
+                "desc": "The plugin app"
+              },
+              {
+                "name": "allowedCaller",
+                "type": "address",
+                "desc": "The allowed caller, or the global zero address for all addresses"
+              }
+            ],
+            "desc": "A named plugin permission was removed"
+          },
+          {
+            "name": "namedPluginAdded",
+            "args": [
+              {
+                "name": "name",
+                "type": "string",
+                "desc": "The plugin name"
+              },
+              {
+                "name": "application",
+                "type": "uint64",
+                "desc": "The plugin app"
+              },
+              {
+                "name": "allowedCaller",
+                "type": "address",
+                "desc": "The allowed caller, or the global zero address for all addresses"
+              }
+            ],
+            "desc": "A name was given to a plugin permission"
+          }
+        ]
+      },
+      {
+        "name": "arc58_addCallerSetMember",
+        "desc": "Add a member to a caller set. Plugins are granted to the set by using its address, the sha256 hash of its name,as the allowed caller.",
+        "args": [
+          {
+            "name": "callerSet",
+            "type": "string",
+            "desc": "The name of the caller set"
+          },
+          {
+            "name": "member",
+            "type": "address",
+            "desc": "The address to add"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR of the membership box"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_removeCallerSetMember",
+        "desc": "Remove a member from a caller set",
+        "args": [
+          {
+            "name": "callerSet",
+            "type": "string",
+            "desc": "The name of the caller set"
+          },
+          {
+            "name": "member",
+            "type": "address",
+            "desc": "The address to remove"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the member to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_setPluginGate",
+        "desc": "Only let callers that hold at least`amount`of`asset`use a plugin permission.With the global zero address as the allowed caller, this grants the plugin to every holder of the asset.",
+        "args": [
+          {
+            "name": "app",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller of the plugin permission to gate"
+          },
+          {
+            "name": "asset",
+            "type": "uint64",
+            "desc": "The asset the caller must hold"
+          },
+          {
+            "name": "amount",
+            "type": "uint64",
+            "desc": "The amount the caller must hold, or zero to remove the gate"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_setFeeBudget",
+        "desc": "Let the abstracted account reimburse the fees of whoever uses a plugin, so callers like keeper botsdon't spend ALGO. Replaces the remaining budget of the plugin.",
+        "args": [
+          {
+            "name": "plugin",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "budget",
+            "type": "uint64",
+            "desc": "The total amount of microAlgos that can be spent on fees for the plugin"
+          },
+          {
+            "name": "maxFee",
+            "type": "uint64",
+            "desc": "The most that is reimbursed for the fee of a single transaction, which should cover the plugin'sinner transactions"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR of the budget box, if it is new"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_removeFeeBudget",
+        "desc": "Stop reimbursing the fees of a plugin's callers",
+        "args": [
+          {
+            "name": "plugin",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the budget to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_setSpendingLimit",
+        "desc": "Set how much a plugin may spend of an asset within a period. Replaces any existing limit for the asset.The limits are checked when arc58_verifyAuthAddr is called after the plugin has been used.",
+        "args": [
+          {
+            "name": "app",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller of the plugin permission the limit applies to"
+          },
+          {
+            "name": "asset",
+            "type": "uint64",
+            "desc": "The asset to limit, or zero for ALGO"
+          },
+          {
+            "name": "amount",
+            "type": "uint64",
+            "desc": "The maximum amount that can be spent within a period"
+          },
+          {
+            "name": "period",
+            "type": "uint64",
+            "desc": "The length of a period in seconds"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR added by the limit, if it is new"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_removeSpendingLimit",
+        "desc": "Remove the spending limit for an asset from a plugin",
+        "args": [
+          {
+            "name": "app",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller of the plugin permission the limit applies to"
+          },
+          {
+            "name": "asset",
+            "type": "uint64",
+            "desc": "The asset to remove the limit for, or zero for ALGO"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the limit to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_addGuardian",
+        "desc": "Add a guardian that can approve recovering the account",
+        "args": [
+          {
+            "name": "guardian",
+            "type": "address",
+            "desc": "The guardian to add"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR of the guardian box"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_removeGuardian",
+        "desc": "Remove a guardian. If the guardian approved the pending recovery, their approval is revoked.",
+        "args": [
+          {
+            "name": "guardian",
+            "type": "address",
+            "desc": "The guardian to remove"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the guardian to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_setRecoveryConfig",
+        "desc": "Set how many guardians must approve a recovery, how long the admin has to cancel itand how long a proposal has to get enough approvals",
+        "args": [
+          {
+            "name": "threshold",
+            "type": "uint64",
+            "desc": "The number of guardian approvals needed, or zero to disable recovery"
+          },
+          {
+            "name": "delay",
+            "type": "uint64",
+            "desc": "The number of seconds the admin has to cancel a recovery once it has enough approvals"
+          },
+          {
+            "name": "proposalLifetime",
+            "type": "uint64",
+            "desc": "The number of seconds after which a proposal without enough approvals can be replaced"
           }
         ],
         "returns": {
           "type": "void"
         }
+      },
+      {
+        "name": "arc58_proposeRecovery",
+        "desc": "Propose replacing the admin. Must be called by a guardian and counts as their approval.Replaces the pending proposal if it didn't get enough approvals within the proposal lifetime,so a single guardian can't block recovery with a bad proposal.",
+        "args": [
+          {
+            "name": "newAdmin",
+            "type": "address",
+            "desc": "The address that will become the admin"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_approveRecovery",
+        "desc": "Approve the pending recovery. Must be called by a guardian. Once enough guardians have approved,the admin has the recovery delay to cancel it before it can be finalized.",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_revokeRecoveryApproval",
+        "desc": "Revoke the sender's approval of the pending recovery. Must be called by a guardian that approved it.",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_cancelRecovery",
+        "desc": "Cancel the pending recovery",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_finalizeRecovery",
+        "desc": "Replace the admin with the one from the pending recovery once it has enough approvals and the delay has passed.Can be called by anyone.",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_setPauseGuardian",
+        "desc": "Set the address that can pause the plugins in addition to the admin",
+        "args": [
+          {
+            "name": "guardian",
+            "type": "address",
+            "desc": "The pause guardian, or the global zero address for none"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_pause",
+        "desc": "Stop every plugin from being used until the admin unpauses them. Can be called by the admin or the pause guardian.",
+        "args": [],
+        "returns": {
+          "type": "void"
+        },
+        "events": [
+          {
+            "name": "pausedChanged",
+            "args": [
+              {
+                "name": "paused",
+                "type": "bool",
+                "desc": "Whether the plugins are now paused"
+              }
+            ],
+            "desc": "The plugins were paused or unpaused"
+          }
+        ]
+      },
+      {
+        "name": "arc58_unpause",
+        "desc": "Let the plugins be used again",
+        "args": [],
+        "returns": {
+          "type": "void"
+        },
+        "events": [
+          {
+            "name": "pausedChanged",
+            "args": [
+              {
+                "name": "paused",
+                "type": "bool",
+                "desc": "Whether the plugins are now paused"
+              }
+            ],
+            "desc": "The plugins were paused or unpaused"
+          }
+        ]
+      },
+      {
+        "name": "arc58_grantRole",
+        "desc": "Give an address a role that lets it manage plugins without being the admin.Replaces any existing role of the address.",
+        "args": [
+          {
+            "name": "account",
+            "type": "address",
+            "desc": "The address to give the role to"
+          },
+          {
+            "name": "addPlugins",
+            "type": "bool",
+            "desc": "Whether the address can add plugins"
+          },
+          {
+            "name": "removePlugins",
+            "type": "bool",
+            "desc": "Whether the address can remove plugins"
+          },
+          {
+            "name": "maxDuration",
+            "type": "uint64",
+            "desc": "How many seconds in the future the permission of a plugin added by the address can end.The address can't add permissions measured in rounds"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR of the role box, if it is new"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_revokeRole",
+        "desc": "Remove the role of an address",
+        "args": [
+          {
+            "name": "account",
+            "type": "address",
+            "desc": "The address to remove the role from"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the role to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_addSessionKey",
+        "desc": "Add a session key that can use the given plugins until it expires. Each plugin is approved for the session keyas the allowed caller and its approval program is pinned, so the boxes for those permissions (and their spending limits) must be referenced.Like any new permission, they can only be used once the plugin delay has passed.",
+        "args": [
+          {
+            "name": "sessionKey",
+            "type": "address",
+            "desc": "The address of the session key"
+          },
+          {
+            "name": "expiry",
+            "type": "uint64",
+            "desc": "The timestamp when the session key expires"
+          },
+          {
+            "name": "plugins",
+            "type": "uint64[]",
+            "desc": "The plugins the session key can use"
+          },
+          {
+            "name": "spendingLimit",
+            "type": "uint64",
+            "desc": "The maximum amount of ALGO each plugin can spend during the session, or zero for no limit"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "A payment to the app address covering exactly the MBR of the boxes created by this call"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_removeSessionKey",
+        "desc": "Remove a session key along with the plugin permissions and spending limits that were added for it",
+        "args": [
+          {
+            "name": "sessionKey",
+            "type": "address",
+            "desc": "The address of the session key"
+          },
+          {
+            "name": "mbrReceiver",
+            "type": "address",
+            "desc": "The address to send the MBR freed by removing the session key to"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "arc58_revokeAllSessionKeys",
+        "desc": "Revoke every session key that has been added so far",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      }
+    ],
+    "events": [
+      {
+        "name": "accountCreated",
+        "args": [
+          {
+            "name": "controlledAddress",
+            "type": "address",
+            "desc": "The address of the abstracted account"
+          },
+          {
+            "name": "admin",
+            "type": "address",
+            "desc": "The admin of the account"
+          }
+        ],
+        "desc": "The account was created"
+      },
+      {
+        "name": "adminChangeStarted",
+        "args": [
+          {
+            "name": "newAdmin",
+            "type": "address",
+            "desc": "The pending admin"
+          },
+          {
+            "name": "readyAt",
+            "type": "uint64",
+            "desc": "The timestamp when the pending admin can accept"
+          }
+        ],
+        "desc": "An admin change was started"
+      },
+      {
+        "name": "adminChanged",
+        "args": [
+          {
+            "name": "oldAdmin",
+            "type": "address",
+            "desc": "The previous admin"
+          },
+          {
+            "name": "newAdmin",
+            "type": "address",
+            "desc": "The new admin"
+          }
+        ],
+        "desc": "The admin was replaced, either by accepting an admin change or by recovery"
+      },
+      {
+        "name": "pluginAdded",
+        "args": [
+          {
+            "name": "application",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller, or the global zero address for all addresses"
+          },
+          {
+            "name": "start",
+            "type": "uint64",
+            "desc": "The timestamp (or round) when the permission starts"
+          },
+          {
+            "name": "end",
+            "type": "uint64",
+            "desc": "The timestamp (or round) when the permission expires"
+          }
+        ],
+        "desc": "A plugin permission was added or replaced"
+      },
+      {
+        "name": "pluginRemoved",
+        "args": [
+          {
+            "name": "application",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller, or the global zero address for all addresses"
+          }
+        ],
+        "desc": "A plugin permission was removed"
+      },
+      {
+        "name": "namedPluginAdded",
+        "args": [
+          {
+            "name": "name",
+            "type": "string",
+            "desc": "The plugin name"
+          },
+          {
+            "name": "application",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller, or the global zero address for all addresses"
+          }
+        ],
+        "desc": "A name was given to a plugin permission"
+      },
+      {
+        "name": "namedPluginRemoved",
+        "args": [
+          {
+            "name": "name",
+            "type": "string",
+            "desc": "The plugin name"
+          },
+          {
+            "name": "application",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller, or the global zero address for all addresses"
+          }
+        ],
+        "desc": "A named plugin permission was removed"
+      },
+      {
+        "name": "rekeyed",
+        "args": [
+          {
+            "name": "addr",
+            "type": "address",
+            "desc": "The address the account was rekeyed to"
+          },
+          {
+            "name": "flash",
+            "type": "bool",
+            "desc": "Whether the account must be rekeyed back in the same group"
+          }
+        ],
+        "desc": "The abstracted account was rekeyed by the admin"
+      },
+      {
+        "name": "pluginUsed",
+        "args": [
+          {
+            "name": "application",
+            "type": "uint64",
+            "desc": "The plugin app"
+          },
+          {
+            "name": "allowedCaller",
+            "type": "address",
+            "desc": "The allowed caller of the permission that was used, or the global zero address for all addresses"
+          },
+          {
+            "name": "caller",
+            "type": "address",
+            "desc": "The address that called the plugin"
+          }
+        ],
+        "desc": "The abstracted account was rekeyed to a plugin"
+      },
+      {
+        "name": "pausedChanged",
+        "args": [
+          {
+            "name": "paused",
+            "type": "bool",
+            "desc": "Whether the plugins are now paused"
+          }
+        ],
+        "desc": "The plugins were paused or unpaused"
+      }
+    ]
+  }
+}
+
+/**
+ * Defines an onCompletionAction of 'no_op'
+ */
+export type OnCompleteNoOp =  { onCompleteAction?: 'no_op' | OnApplicationComplete.NoOpOC }
+/**
+ * Defines an onCompletionAction of 'opt_in'
+ */
+export type OnCompleteOptIn =  { onCompleteAction: 'opt_in' | OnApplicationComplete.OptInOC }
+/**
+ * Defines an onCompletionAction of 'close_out'
+ */
+export type OnCompleteCloseOut =  { onCompleteAction: 'close_out' | OnApplicationComplete.CloseOutOC }
+/**
+ * Defines an onCompletionAction of 'delete_application'
+ */
+export type OnCompleteDelApp =  { onCompleteAction: 'delete_application' | OnApplicationComplete.DeleteApplicationOC }
+/**
+ * Defines an onCompletionAction of 'update_application'
+ */
+export type OnCompleteUpdApp =  { onCompleteAction: 'update_application' | OnApplicationComplete.UpdateApplicationOC }
+/**
+ * A state record containing a single unsigned integer
+ */
+export type IntegerState = {
+  /**
+   * Gets the state value as a BigInt.
+   */
+  asBigInt(): bigint
+  /**
+   * Gets the state value as a number.
+   */
+  asNumber(): number
+}
+/**
+ * A state record containing binary data
+ */
+export type BinaryState = {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string
+}
+
+export type AppCreateCallTransactionResult = AppCallTransactionResult & Partial<AppCompilationResult> & AppReference
+export type AppUpdateCallTransactionResult = AppCallTransactionResult & Partial<AppCompilationResult>
+
+export type AppClientComposeCallCoreParams = Omit<AppClientCallCoreParams, 'sendParams'> & {
+  sendParams?: Omit<SendTransactionParams, 'skipSending' | 'atc' | 'skipWaiting' | 'maxRoundsToWaitForConfirmation' | 'populateAppCallResources'>
+}
+export type AppClientComposeExecuteParams = Pick<SendTransactionParams, 'skipWaiting' | 'maxRoundsToWaitForConfirmation' | 'populateAppCallResources' | 'suppressLog'>
+
+/**
+ * Defines the types of available calls and state of the AbstractedAccount smart contract.
+ */
+export type AbstractedAccount = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication(address,address,address[],uint64)void' | 'createApplication', {
+      argsObj: {
+        /**
+         * The address of the abstracted account. If zeroAddress, then the address of the contract account will be used
+         */
+        controlledAddress: string
+        /**
+         * The admin for this app
+         */
+        admin: string
+        /**
+         * The distinct signers that approve admin operations instead of the admin.They must be registered with arc58_initAdminSigners once the app is funded
+         */
+        adminSigners: string[]
+        /**
+         * The number of signers that must approve an admin operation, or zero to use the admin
+         */
+        adminThreshold: bigint | number
+      }
+      argsTuple: [controlledAddress: string, admin: string, adminSigners: string[], adminThreshold: bigint | number]
+      returns: void
+    }>
+    & Record<'arc58_initAdminSigners(address[],pay)void' | 'arc58_initAdminSigners', {
+      argsObj: {
+        /**
+         * The signers given at creation
+         */
+        adminSigners: string[]
+        /**
+         * A payment to the app address covering exactly the MBR of the signer boxes
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [adminSigners: string[], mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_authorizeIntent(uint64,uint64,byte[64])void' | 'arc58_authorizeIntent', {
+      argsObj: {
+        /**
+         * The current intent nonce, so every intent can only be used once
+         */
+        nonce: bigint | number
+        /**
+         * The timestamp after which the intent can no longer be used
+         */
+        expiry: bigint | number
+        /**
+         * The admin's signature of the intent
+         */
+        signature: Uint8Array
+      }
+      argsTuple: [nonce: bigint | number, expiry: bigint | number, signature: Uint8Array]
+      returns: void
+    }>
+    & Record<'arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void' | 'arc58_authorizePasskeyIntent', {
+      argsObj: {
+        /**
+         * The current intent nonce, so every intent can only be used once
+         */
+        nonce: bigint | number
+        /**
+         * The timestamp after which the intent can no longer be used
+         */
+        expiry: bigint | number
+        /**
+         * The authenticator data of the assertion
+         */
+        authenticatorData: Uint8Array
+        /**
+         * The client data JSON of the assertion, which contains the base64url challenge
+         */
+        clientDataJSON: Uint8Array
+        /**
+         * The r and s components of the assertion's signature
+         */
+        signature: Uint8Array
+      }
+      argsTuple: [nonce: bigint | number, expiry: bigint | number, authenticatorData: Uint8Array, clientDataJSON: Uint8Array, signature: Uint8Array]
+      returns: void
+    }>
+    & Record<'arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void' | 'arc58_authorizeEthereumIntent', {
+      argsObj: {
+        /**
+         * The current intent nonce, so every intent can only be used once
+         */
+        nonce: bigint | number
+        /**
+         * The timestamp after which the intent can no longer be used
+         */
+        expiry: bigint | number
+        /**
+         * The r, s and v components of the signature
+         */
+        signature: Uint8Array
+      }
+      argsTuple: [nonce: bigint | number, expiry: bigint | number, signature: Uint8Array]
+      returns: void
+    }>
+    & Record<'arc58_setAdminPasskey(byte[64])void' | 'arc58_setAdminPasskey', {
+      argsObj: {
+        /**
+         * The x and y coordinates of the passkey's secp256r1 public key
+         */
+        publicKey: Uint8Array
+      }
+      argsTuple: [publicKey: Uint8Array]
+      returns: void
+    }>
+    & Record<'arc58_setAdminEthereumAddress(byte[20])void' | 'arc58_setAdminEthereumAddress', {
+      argsObj: {
+        /**
+         * The 20 byte address of the Ethereum key
+         */
+        ethereumAddress: Uint8Array
+      }
+      argsTuple: [ethereumAddress: Uint8Array]
+      returns: void
+    }>
+    & Record<'arc58_approveOperation(byte[32],pay)void' | 'arc58_approveOperation', {
+      argsObj: {
+        /**
+         * The sha256 hash of the concatenated application args of the admin method call
+         */
+        hash: Uint8Array
+        /**
+         * A payment to the app address covering exactly the MBR added by the approval
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [hash: Uint8Array, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_revokeApproval(byte[32],address)void' | 'arc58_revokeApproval', {
+      argsObj: {
+        /**
+         * The hash of the operation
+         */
+        hash: Uint8Array
+        /**
+         * The address to send the MBR freed by removing the approval to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [hash: Uint8Array, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_changeAdmin(address,uint64)void' | 'arc58_changeAdmin', {
+      argsObj: {
+        /**
+         * The new admin
+         */
+        newAdmin: string
+        /**
+         * The number of seconds that must pass before the new admin can accept
+         */
+        delay: bigint | number
+      }
+      argsTuple: [newAdmin: string, delay: bigint | number]
+      returns: void
+    }>
+    & Record<'arc58_acceptAdmin()void' | 'arc58_acceptAdmin', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_cancelAdminChange()void' | 'arc58_cancelAdminChange', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_getAdmin()address' | 'arc58_getAdmin', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: string
+    }>
+    & Record<'arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])' | 'arc58_getPluginInfo', {
+      argsObj: {
+        /**
+         * The plugin app
+         */
+        app: bigint | number
+        /**
+         * The address that's allowed to call the appor the global zero address for all addresses
+         */
+        allowedCaller: string
+      }
+      argsTuple: [app: bigint | number, allowedCaller: string]
+      returns: [bigint, bigint, boolean, bigint, bigint, bigint, bigint, bigint, boolean, bigint, bigint, bigint, bigint, Uint8Array, Uint8Array[]]
+    }>
+    & Record<'arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))' | 'arc58_getNamedPlugin', {
+      argsObj: {
+        /**
+         * The plugin name
+         */
+        name: string
+      }
+      argsTuple: [name: string]
+      returns: [[bigint, string], [bigint, bigint, boolean, bigint, bigint, bigint, bigint, bigint, boolean, bigint, bigint, bigint, bigint, Uint8Array, Uint8Array[]]]
+    }>
+    & Record<'arc58_canCallPlugin(uint64,address)bool' | 'arc58_canCallPlugin', {
+      argsObj: {
+        /**
+         * The plugin app
+         */
+        app: bigint | number
+        /**
+         * The address that would call arc58_rekeyToPlugin
+         */
+        caller: string
+      }
+      argsTuple: [app: bigint | number, caller: string]
+      returns: boolean
+    }>
+    & Record<'arc58_verifyAuthAddr()void' | 'arc58_verifyAuthAddr', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_rekeyTo(address,bool)void' | 'arc58_rekeyTo', {
+      argsObj: {
+        /**
+         * The address to rekey to
+         */
+        addr: string
+        /**
+         * Whether or not this should be a flash rekey. If true, the rekey back to the app address must done in the same txn group as this call
+         */
+        flash: boolean
+      }
+      argsTuple: [addr: string, flash: boolean]
+      returns: void
+    }>
+    & Record<'arc58_rekeyToPlugin(uint64)void' | 'arc58_rekeyToPlugin', {
+      argsObj: {
+        /**
+         * The app to rekey to
+         */
+        plugin: bigint | number
+      }
+      argsTuple: [plugin: bigint | number]
+      returns: void
+    }>
+    & Record<'arc58_rekeyToPluginAsSetMember(uint64,string)void' | 'arc58_rekeyToPluginAsSetMember', {
+      argsObj: {
+        /**
+         * The app to rekey to
+         */
+        plugin: bigint | number
+        /**
+         * The name of the caller set
+         */
+        callerSet: string
+      }
+      argsTuple: [plugin: bigint | number, callerSet: string]
+      returns: void
+    }>
+    & Record<'arc58_rekeyToNamedPlugin(string)void' | 'arc58_rekeyToNamedPlugin', {
+      argsObj: {
+        /**
+         * The name of the plugin to rekey to
+         */
+        name: string
+      }
+      argsTuple: [name: string]
+      returns: void
+    }>
+    & Record<'arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void' | 'arc58_addPlugin', {
+      argsObj: {
+        /**
+         * The app to add
+         */
+        app: bigint | number
+        /**
+         * The address of that's allowed to call the appor the global zero address for all addresses
+         */
+        allowedCaller: string
+        /**
+         * The timestamp (or round) when the permission starts, or zero to start immediately
+         */
+        start: bigint | number
+        /**
+         * The timestamp (or round) when the permission expires
+         */
+        end: bigint | number
+        /**
+         * Whether`start`,`end`and`cooldown`are rounds rather than timestamps
+         */
+        useRounds: boolean
+        /**
+         * The minimum number of seconds (or rounds) that must pass between uses of the plugin
+         */
+        cooldown: bigint | number
+        /**
+         * The maximum number of times the plugin can be used, or zero for no maximum
+         */
+        maxUses: bigint | number
+        /**
+         * The method selectors the allowed caller may call on the app. If empty, all methods are allowed
+         */
+        methods: Uint8Array[]
+        /**
+         * A payment to the app address covering exactly the MBR of the boxes created by this call
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [app: bigint | number, allowedCaller: string, start: bigint | number, end: bigint | number, useRounds: boolean, cooldown: bigint | number, maxUses: bigint | number, methods: Uint8Array[], mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_removePlugin(uint64,address,address)void' | 'arc58_removePlugin', {
+      argsObj: {
+        /**
+         * The app to remove
+         */
+        app: bigint | number
+        /**
+         * The allowed caller of the plugin permission to remove
+         */
+        allowedCaller: string
+        /**
+         * The address to send the MBR freed by removing the plugin to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [app: bigint | number, allowedCaller: string, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_vetoPlugin(uint64,address,string[],address)void' | 'arc58_vetoPlugin', {
+      argsObj: {
+        /**
+         * The plugin app
+         */
+        app: bigint | number
+        /**
+         * The allowed caller of the plugin permission to veto
+         */
+        allowedCaller: string
+        /**
+         * Every name that refers to the plugin permission
+         */
+        names: string[]
+        /**
+         * The address to send the MBR freed by removing the plugin and its names to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [app: bigint | number, allowedCaller: string, names: string[], mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_setPluginDelay(uint64)void' | 'arc58_setPluginDelay', {
+      argsObj: {
+        /**
+         * The number of seconds, or zero to make new permissions usable immediately
+         */
+        delay: bigint | number
+      }
+      argsTuple: [delay: bigint | number]
+      returns: void
+    }>
+    & Record<'arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void' | 'arc58_addNamedPlugin', {
+      argsObj: {
+        /**
+         * The plugin name
+         */
+        name: string
+        /**
+         * The plugin app
+         */
+        app: bigint | number
+        /**
+         * The address of that's allowed to call the appor the global zero address for all addresses
+         */
+        allowedCaller: string
+        /**
+         * The timestamp (or round) when the permission starts, or zero to start immediately
+         */
+        start: bigint | number
+        /**
+         * The timestamp (or round) when the permission expires
+         */
+        end: bigint | number
+        /**
+         * Whether`start`,`end`and`cooldown`are rounds rather than timestamps
+         */
+        useRounds: boolean
+        /**
+         * The minimum number of seconds (or rounds) that must pass between uses of the plugin
+         */
+        cooldown: bigint | number
+        /**
+         * The maximum number of times the plugin can be used, or zero for no maximum
+         */
+        maxUses: bigint | number
+        /**
+         * The method selectors the allowed caller may call on the app. If empty, all methods are allowed
+         */
+        methods: Uint8Array[]
+        /**
+         * A payment to the app address covering exactly the MBR of the boxes created by this call
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [name: string, app: bigint | number, allowedCaller: string, start: bigint | number, end: bigint | number, useRounds: boolean, cooldown: bigint | number, maxUses: bigint | number, methods: Uint8Array[], mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_removeNamedPlugin(string,address)void' | 'arc58_removeNamedPlugin', {
+      argsObj: {
+        /**
+         * The plugin name
+         */
+        name: string
+        /**
+         * The address to send the MBR freed by removing the plugin to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [name: string, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void' | 'arc58_updateNamedPlugin', {
+      argsObj: {
+        /**
+         * The plugin name
+         */
+        name: string
+        /**
+         * The plugin app
+         */
+        app: bigint | number
+        /**
+         * The address of that's allowed to call the appor the global zero address for all addresses
+         */
+        allowedCaller: string
+        /**
+         * The timestamp (or round) when the permission starts, or zero to start immediately
+         */
+        start: bigint | number
+        /**
+         * The timestamp (or round) when the permission expires
+         */
+        end: bigint | number
+        /**
+         * Whether`start`,`end`and`cooldown`are rounds rather than timestamps
+         */
+        useRounds: boolean
+        /**
+         * The minimum number of seconds (or rounds) that must pass between uses of the plugin
+         */
+        cooldown: bigint | number
+        /**
+         * The maximum number of times the plugin can be used, or zero for no maximum
+         */
+        maxUses: bigint | number
+        /**
+         * The method selectors the allowed caller may call on the app. If empty, all methods are allowed
+         */
+        methods: Uint8Array[]
+        /**
+         * A payment to the app address covering exactly the MBR added by this call.If the call frees MBR instead, the payment must be zero and the freed MBR is sent back to its sender
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [name: string, app: bigint | number, allowedCaller: string, start: bigint | number, end: bigint | number, useRounds: boolean, cooldown: bigint | number, maxUses: bigint | number, methods: Uint8Array[], mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_renameNamedPlugin(string,string,pay)void' | 'arc58_renameNamedPlugin', {
+      argsObj: {
+        /**
+         * The current name
+         */
+        name: string
+        /**
+         * The new name, which must not be in use
+         */
+        newName: string
+        /**
+         * A payment to the app address covering exactly the MBR added by the longer name.If the new name is shorter, the payment must be zero and the freed MBR is sent back to its sender
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [name: string, newName: string, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_addCallerSetMember(string,address,pay)void' | 'arc58_addCallerSetMember', {
+      argsObj: {
+        /**
+         * The name of the caller set
+         */
+        callerSet: string
+        /**
+         * The address to add
+         */
+        member: string
+        /**
+         * A payment to the app address covering exactly the MBR of the membership box
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [callerSet: string, member: string, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_removeCallerSetMember(string,address,address)void' | 'arc58_removeCallerSetMember', {
+      argsObj: {
+        /**
+         * The name of the caller set
+         */
+        callerSet: string
+        /**
+         * The address to remove
+         */
+        member: string
+        /**
+         * The address to send the MBR freed by removing the member to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [callerSet: string, member: string, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_setPluginGate(uint64,address,uint64,uint64)void' | 'arc58_setPluginGate', {
+      argsObj: {
+        /**
+         * The plugin app
+         */
+        app: bigint | number
+        /**
+         * The allowed caller of the plugin permission to gate
+         */
+        allowedCaller: string
+        /**
+         * The asset the caller must hold
+         */
+        asset: bigint | number
+        /**
+         * The amount the caller must hold, or zero to remove the gate
+         */
+        amount: bigint | number
+      }
+      argsTuple: [app: bigint | number, allowedCaller: string, asset: bigint | number, amount: bigint | number]
+      returns: void
+    }>
+    & Record<'arc58_setFeeBudget(uint64,uint64,uint64,pay)void' | 'arc58_setFeeBudget', {
+      argsObj: {
+        /**
+         * The plugin app
+         */
+        plugin: bigint | number
+        /**
+         * The total amount of microAlgos that can be spent on fees for the plugin
+         */
+        budget: bigint | number
+        /**
+         * The most that is reimbursed for the fee of a single transaction, which should cover the plugin'sinner transactions
+         */
+        maxFee: bigint | number
+        /**
+         * A payment to the app address covering exactly the MBR of the budget box, if it is new
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [plugin: bigint | number, budget: bigint | number, maxFee: bigint | number, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_removeFeeBudget(uint64,address)void' | 'arc58_removeFeeBudget', {
+      argsObj: {
+        /**
+         * The plugin app
+         */
+        plugin: bigint | number
+        /**
+         * The address to send the MBR freed by removing the budget to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [plugin: bigint | number, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void' | 'arc58_setSpendingLimit', {
+      argsObj: {
+        /**
+         * The plugin app
+         */
+        app: bigint | number
+        /**
+         * The allowed caller of the plugin permission the limit applies to
+         */
+        allowedCaller: string
+        /**
+         * The asset to limit, or zero for ALGO
+         */
+        asset: bigint | number
+        /**
+         * The maximum amount that can be spent within a period
+         */
+        amount: bigint | number
+        /**
+         * The length of a period in seconds
+         */
+        period: bigint | number
+        /**
+         * A payment to the app address covering exactly the MBR added by the limit, if it is new
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [app: bigint | number, allowedCaller: string, asset: bigint | number, amount: bigint | number, period: bigint | number, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_removeSpendingLimit(uint64,address,uint64,address)void' | 'arc58_removeSpendingLimit', {
+      argsObj: {
+        /**
+         * The plugin app
+         */
+        app: bigint | number
+        /**
+         * The allowed caller of the plugin permission the limit applies to
+         */
+        allowedCaller: string
+        /**
+         * The asset to remove the limit for, or zero for ALGO
+         */
+        asset: bigint | number
+        /**
+         * The address to send the MBR freed by removing the limit to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [app: bigint | number, allowedCaller: string, asset: bigint | number, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_addGuardian(address,pay)void' | 'arc58_addGuardian', {
+      argsObj: {
+        /**
+         * The guardian to add
+         */
+        guardian: string
+        /**
+         * A payment to the app address covering exactly the MBR of the guardian box
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [guardian: string, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_removeGuardian(address,address)void' | 'arc58_removeGuardian', {
+      argsObj: {
+        /**
+         * The guardian to remove
+         */
+        guardian: string
+        /**
+         * The address to send the MBR freed by removing the guardian to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [guardian: string, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_setRecoveryConfig(uint64,uint64,uint64)void' | 'arc58_setRecoveryConfig', {
+      argsObj: {
+        /**
+         * The number of guardian approvals needed, or zero to disable recovery
+         */
+        threshold: bigint | number
+        /**
+         * The number of seconds the admin has to cancel a recovery once it has enough approvals
+         */
+        delay: bigint | number
+        /**
+         * The number of seconds after which a proposal without enough approvals can be replaced
+         */
+        proposalLifetime: bigint | number
+      }
+      argsTuple: [threshold: bigint | number, delay: bigint | number, proposalLifetime: bigint | number]
+      returns: void
+    }>
+    & Record<'arc58_proposeRecovery(address)void' | 'arc58_proposeRecovery', {
+      argsObj: {
+        /**
+         * The address that will become the admin
+         */
+        newAdmin: string
+      }
+      argsTuple: [newAdmin: string]
+      returns: void
+    }>
+    & Record<'arc58_approveRecovery()void' | 'arc58_approveRecovery', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_revokeRecoveryApproval()void' | 'arc58_revokeRecoveryApproval', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_cancelRecovery()void' | 'arc58_cancelRecovery', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_finalizeRecovery()void' | 'arc58_finalizeRecovery', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_setPauseGuardian(address)void' | 'arc58_setPauseGuardian', {
+      argsObj: {
+        /**
+         * The pause guardian, or the global zero address for none
+         */
+        guardian: string
+      }
+      argsTuple: [guardian: string]
+      returns: void
+    }>
+    & Record<'arc58_pause()void' | 'arc58_pause', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_unpause()void' | 'arc58_unpause', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'arc58_grantRole(address,bool,bool,uint64,pay)void' | 'arc58_grantRole', {
+      argsObj: {
+        /**
+         * The address to give the role to
+         */
+        account: string
+        /**
+         * Whether the address can add plugins
+         */
+        addPlugins: boolean
+        /**
+         * Whether the address can remove plugins
+         */
+        removePlugins: boolean
+        /**
+         * How many seconds in the future the permission of a plugin added by the address can end.The address can't add permissions measured in rounds
+         */
+        maxDuration: bigint | number
+        /**
+         * A payment to the app address covering exactly the MBR of the role box, if it is new
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [account: string, addPlugins: boolean, removePlugins: boolean, maxDuration: bigint | number, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_revokeRole(address,address)void' | 'arc58_revokeRole', {
+      argsObj: {
+        /**
+         * The address to remove the role from
+         */
+        account: string
+        /**
+         * The address to send the MBR freed by removing the role to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [account: string, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void' | 'arc58_addSessionKey', {
+      argsObj: {
+        /**
+         * The address of the session key
+         */
+        sessionKey: string
+        /**
+         * The timestamp when the session key expires
+         */
+        expiry: bigint | number
+        /**
+         * The plugins the session key can use
+         */
+        plugins: bigint | number[]
+        /**
+         * The maximum amount of ALGO each plugin can spend during the session, or zero for no limit
+         */
+        spendingLimit: bigint | number
+        /**
+         * A payment to the app address covering exactly the MBR of the boxes created by this call
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [sessionKey: string, expiry: bigint | number, plugins: bigint | number[], spendingLimit: bigint | number, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'arc58_removeSessionKey(address,address)void' | 'arc58_removeSessionKey', {
+      argsObj: {
+        /**
+         * The address of the session key
+         */
+        sessionKey: string
+        /**
+         * The address to send the MBR freed by removing the session key to
+         */
+        mbrReceiver: string
+      }
+      argsTuple: [sessionKey: string, mbrReceiver: string]
+      returns: void
+    }>
+    & Record<'arc58_revokeAllSessionKeys()void' | 'arc58_revokeAllSessionKeys', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+  /**
+   * Defines the shape of the global and local state of the application.
+   */
+  state: {
+    global: {
+      'a'?: BinaryState
+      'c'?: BinaryState
+      'mt'?: IntegerState
+      'mh'?: BinaryState
+      'pa'?: BinaryState
+      'pr'?: IntegerState
+      'in'?: IntegerState
+      'kt'?: IntegerState
+      'ak'?: BinaryState
+      'pd'?: IntegerState
+      'pp'?: IntegerState
+      'pt'?: IntegerState
+      'se'?: IntegerState
+      'ap'?: BinaryState
+      'gc'?: IntegerState
+      'rt'?: IntegerState
+      'rd'?: IntegerState
+      'rl'?: IntegerState
+      'rn'?: IntegerState
+      'r'?: BinaryState
+      'ps'?: BinaryState
+      'pg'?: BinaryState
+    }
+  }
+}
+/**
+ * Defines the possible abi call signatures
+ */
+export type AbstractedAccountSig = keyof AbstractedAccount['methods']
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract. Where TSignature is undefined, a bare call is made
+ */
+export type TypedCallParams<TSignature extends AbstractedAccountSig | undefined> = {
+  method: TSignature
+  methodArgs: TSignature extends undefined ? undefined : Array<ABIAppCallArg | undefined>
+} & AppClientCallCoreParams & CoreAppCallArgs
+/**
+ * Defines the arguments required for a bare call
+ */
+export type BareCallArgs = Omit<RawAppCallArgs, keyof CoreAppCallArgs>
+/**
+ * Maps a method signature from the AbstractedAccount smart contract to the method's arguments in either tuple of struct form
+ */
+export type MethodArgs<TSignature extends AbstractedAccountSig> = AbstractedAccount['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the AbstractedAccount smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends AbstractedAccountSig> = AbstractedAccount['methods'][TSignature]['returns']
+
+/**
+ * A factory for available 'create' calls
+ */
+export type AbstractedAccountCreateCalls = (typeof AbstractedAccountCallFactory)['create']
+/**
+ * Defines supported create methods for this smart contract
+ */
+export type AbstractedAccountCreateCallParams =
+  | (TypedCallParams<'createApplication(address,address,address[],uint64)void'> & (OnCompleteNoOp))
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type AbstractedAccountDeployArgs = {
+  deployTimeParams?: TealTemplateParams
+  /**
+   * A delegate which takes a create call factory and returns the create call params for this smart contract
+   */
+  createCall?: (callFactory: AbstractedAccountCreateCalls) => AbstractedAccountCreateCallParams
+}
+
+
+/**
+ * Exposes methods for constructing all available smart contract calls
+ */
+export abstract class AbstractedAccountCallFactory {
+  /**
+   * Gets available create call factories
+   */
+  static get create() {
+    return {
+      /**
+       * Constructs a create call for the AbstractedAccount smart contract using the createApplication(address,address,address[],uint64)void ABI method
+       *
+       * @param args Any args for the contract call
+       * @param params Any additional parameters for the call
+       * @returns A TypedCallParams object for the call
+       */
+      createApplication(args: MethodArgs<'createApplication(address,address,address[],uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs & AppClientCompilationParams & (OnCompleteNoOp) = {}) {
+        return {
+          method: 'createApplication(address,address,address[],uint64)void' as const,
+          methodArgs: Array.isArray(args) ? args : [args.controlledAddress, args.admin, args.adminSigners, args.adminThreshold],
+          ...params,
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the arc58_initAdminSigners(address[],pay)void ABI method
+   *
+   * Register the signers given at creation. Boxes cannot be created during creation because the app is not funded yet.Can be called by anyone, but only once and only with the signers given at creation.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58InitAdminSigners(args: MethodArgs<'arc58_initAdminSigners(address[],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_initAdminSigners(address[],pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.adminSigners, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_authorizeIntent(uint64,uint64,byte[64])void ABI method
+   *
+   * Authorize the admin method call that comes right after this one in the group with an intent signed by the admin,so anyone can relay admin operations and the admin key never needs ALGO. Only available when adminThreshold is zero.The admin signs`"arc58intent" + app ID + nonce + expiry + sha256(concatenated application args of the call)`with ed25519. The payment arguments of the method, such as its MBR payment, go between the two calls.The relayer must cover the fees of the three inner transactions used to increase the opcode budget.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AuthorizeIntent(args: MethodArgs<'arc58_authorizeIntent(uint64,uint64,byte[64])void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_authorizeIntent(uint64,uint64,byte[64])void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.nonce, args.expiry, args.signature],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void ABI method
+   *
+   * Authorize the admin method call that comes right after this one in the group with a WebAuthn assertionof the admin's passkey. Only available when the admin is a passkey. The challenge of the assertion isthe sha256 of the same message arc58_authorizeIntent verifies, and the user must have been present.The relayer must cover the fees of the four inner transactions used to increase the opcode budget.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AuthorizePasskeyIntent(args: MethodArgs<'arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.nonce, args.expiry, args.authenticatorData, args.clientDataJSON, args.signature],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void ABI method
+   *
+   * Authorize the admin method call that comes right after this one in the group with EIP-712 typed data signedby the admin's Ethereum key, ie. with`eth_signTypedData_v4`. Only available when the admin is an Ethereum address.The typed data is an`Intent(uint64 app,uint64 nonce,uint64 expiry,bytes32 operation)`in the`{ name: "ARC58 Abstracted Account", version: "1" }`domain, where operation is the same hash of the applicationargs arc58_authorizeIntent uses. The relayer must cover the fees of the four inner transactions used to increasethe opcode budget.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AuthorizeEthereumIntent(args: MethodArgs<'arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.nonce, args.expiry, args.signature],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_setAdminPasskey(byte[64])void ABI method
+   *
+   * Make a passkey the admin. Admin operations must then be authorized with arc58_authorizePasskeyIntentand the admin address becomes the global zero address, since no address can act as the admin.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58SetAdminPasskey(args: MethodArgs<'arc58_setAdminPasskey(byte[64])void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_setAdminPasskey(byte[64])void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.publicKey],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_setAdminEthereumAddress(byte[20])void ABI method
+   *
+   * Make an Ethereum key the admin. Admin operations must then be authorized with arc58_authorizeEthereumIntentand the admin address becomes the global zero address, since no Algorand address can act as the admin.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58SetAdminEthereumAddress(args: MethodArgs<'arc58_setAdminEthereumAddress(byte[20])void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_setAdminEthereumAddress(byte[20])void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.ethereumAddress],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_approveOperation(byte[32],pay)void ABI method
+   *
+   * Approve an admin operation. Must be called by a signer. Once enough signers have approved, anyone cancall the admin method with the application args the hash was computed from.The MBR of the approvals stays with the app address once the operation is executed.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58ApproveOperation(args: MethodArgs<'arc58_approveOperation(byte[32],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_approveOperation(byte[32],pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.hash, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_revokeApproval(byte[32],address)void ABI method
+   *
+   * Revoke an approval of an admin operation that has not been executed yet
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RevokeApproval(args: MethodArgs<'arc58_revokeApproval(byte[32],address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_revokeApproval(byte[32],address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.hash, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_changeAdmin(address,uint64)void ABI method
+   *
+   * Attempt to change the admin for this app. Some implementations MAY not support this.The admin only changes once the new admin calls arc58_acceptAdmin, which ensures the new admin is an addresssomeone controls. Replaces any pending admin change.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58ChangeAdmin(args: MethodArgs<'arc58_changeAdmin(address,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_changeAdmin(address,uint64)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.newAdmin, args.delay],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_acceptAdmin()void ABI method
+   *
+   * Accept becoming the admin of this app. Must be called by the pending admin once the delay has passed.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AcceptAdmin(args: MethodArgs<'arc58_acceptAdmin()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_acceptAdmin()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_cancelAdminChange()void ABI method
+   *
+   * Cancel the pending admin change
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58CancelAdminChange(args: MethodArgs<'arc58_cancelAdminChange()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_cancelAdminChange()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_getAdmin()address ABI method
+   *
+   * Get the admin of this app. This method SHOULD always be used rather than reading directly from statebecause different implementations may have different ways of determining the admin.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58GetAdmin(args: MethodArgs<'arc58_getAdmin()address'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_getAdmin()address' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]) ABI method
+   *
+   * Get the permission data of a plugin
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58GetPluginInfo(args: MethodArgs<'arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])' as const,
+      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])) ABI method
+   *
+   * Get the plugin permission a name refers to and its permission data
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58GetNamedPlugin(args: MethodArgs<'arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))' as const,
+      methodArgs: Array.isArray(args) ? args : [args.name],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_canCallPlugin(uint64,address)bool ABI method
+   *
+   * Whether the given address can currently rekey the abstracted account to the pluginvia arc58_rekeyToPlugin. Spending limits are not checked since they depend on what the plugin does.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58CanCallPlugin(args: MethodArgs<'arc58_canCallPlugin(uint64,address)bool'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_canCallPlugin(uint64,address)bool' as const,
+      methodArgs: Array.isArray(args) ? args : [args.app, args.caller],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_verifyAuthAddr()void ABI method
+   *
+   * Verify the abstracted account is rekeyed to this app
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58VerifyAuthAddr(args: MethodArgs<'arc58_verifyAuthAddr()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_verifyAuthAddr()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_rekeyTo(address,bool)void ABI method
+   *
+   * Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.This is not subject to the plugin delay, so the admin key can hand over the account immediately.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RekeyTo(args: MethodArgs<'arc58_rekeyTo(address,bool)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_rekeyTo(address,bool)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.addr, args.flash],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_rekeyToPlugin(uint64)void ABI method
+   *
+   * Temporarily rekey to an approved plugin app address.Several plugins can be used in one group by calling this before each of them, with one arc58_verifyAuthAddr at the end.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RekeyToPlugin(args: MethodArgs<'arc58_rekeyToPlugin(uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_rekeyToPlugin(uint64)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.plugin],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_rekeyToPluginAsSetMember(uint64,string)void ABI method
+   *
+   * Temporarily rekey to a plugin app address that has been approved for a caller set the sender is a member of
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RekeyToPluginAsSetMember(args: MethodArgs<'arc58_rekeyToPluginAsSetMember(uint64,string)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_rekeyToPluginAsSetMember(uint64,string)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.plugin, args.callerSet],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_rekeyToNamedPlugin(string)void ABI method
+   *
+   * Temporarily rekey to a named plugin app address
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RekeyToNamedPlugin(args: MethodArgs<'arc58_rekeyToNamedPlugin(string)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_rekeyToNamedPlugin(string)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.name],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method
+   *
+   * Add an app to the list of approved plugins
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AddPlugin(args: MethodArgs<'arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller, args.start, args.end, args.useRounds, args.cooldown, args.maxUses, args.methods, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_removePlugin(uint64,address,address)void ABI method
+   *
+   * Remove an app from the list of approved plugins. If names still refer to the permission, it is kept for them.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RemovePlugin(args: MethodArgs<'arc58_removePlugin(uint64,address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_removePlugin(uint64,address,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_vetoPlugin(uint64,address,string[],address)void ABI method
+   *
+   * Remove a plugin permission that has not become active yet, along with the names that refer to it.Can be called by the admin or any guardian.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58VetoPlugin(args: MethodArgs<'arc58_vetoPlugin(uint64,address,string[],address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_vetoPlugin(uint64,address,string[],address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller, args.names, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_setPluginDelay(uint64)void ABI method
+   *
+   * Set how long new plugin permissions must wait before they can be used. Permissions that were already added are not affected.Raising the delay applies immediately, but lowering it only applies once the current delay has passed,so a compromised admin key can't skip the veto window by lowering the delay first.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58SetPluginDelay(args: MethodArgs<'arc58_setPluginDelay(uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_setPluginDelay(uint64)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.delay],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method
+   *
+   * Add a named plugin
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AddNamedPlugin(args: MethodArgs<'arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.name, args.app, args.allowedCaller, args.start, args.end, args.useRounds, args.cooldown, args.maxUses, args.methods, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_removeNamedPlugin(string,address)void ABI method
+   *
+   * Remove a named plugin. The permission is kept if it was also added without a name or other names refer to it.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RemoveNamedPlugin(args: MethodArgs<'arc58_removeNamedPlugin(string,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_removeNamedPlugin(string,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.name, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method
+   *
+   * Point an existing name at a new plugin permission in a single call, so the name can always be rekeyed to.The permission the name referred to is removed unless something else still refers to it.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58UpdateNamedPlugin(args: MethodArgs<'arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.name, args.app, args.allowedCaller, args.start, args.end, args.useRounds, args.cooldown, args.maxUses, args.methods, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_renameNamedPlugin(string,string,pay)void ABI method
+   *
+   * Give a named plugin a new name in a single call. The plugin permission is not changed.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RenameNamedPlugin(args: MethodArgs<'arc58_renameNamedPlugin(string,string,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_renameNamedPlugin(string,string,pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.name, args.newName, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_addCallerSetMember(string,address,pay)void ABI method
+   *
+   * Add a member to a caller set. Plugins are granted to the set by using its address, the sha256 hash of its name,as the allowed caller.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AddCallerSetMember(args: MethodArgs<'arc58_addCallerSetMember(string,address,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_addCallerSetMember(string,address,pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.callerSet, args.member, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_removeCallerSetMember(string,address,address)void ABI method
+   *
+   * Remove a member from a caller set
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RemoveCallerSetMember(args: MethodArgs<'arc58_removeCallerSetMember(string,address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_removeCallerSetMember(string,address,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.callerSet, args.member, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_setPluginGate(uint64,address,uint64,uint64)void ABI method
+   *
+   * Only let callers that hold at least`amount`of`asset`use a plugin permission.With the global zero address as the allowed caller, this grants the plugin to every holder of the asset.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58SetPluginGate(args: MethodArgs<'arc58_setPluginGate(uint64,address,uint64,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_setPluginGate(uint64,address,uint64,uint64)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller, args.asset, args.amount],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_setFeeBudget(uint64,uint64,uint64,pay)void ABI method
+   *
+   * Let the abstracted account reimburse the fees of whoever uses a plugin, so callers like keeper botsdon't spend ALGO. Replaces the remaining budget of the plugin.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58SetFeeBudget(args: MethodArgs<'arc58_setFeeBudget(uint64,uint64,uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_setFeeBudget(uint64,uint64,uint64,pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.plugin, args.budget, args.maxFee, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_removeFeeBudget(uint64,address)void ABI method
+   *
+   * Stop reimbursing the fees of a plugin's callers
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RemoveFeeBudget(args: MethodArgs<'arc58_removeFeeBudget(uint64,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_removeFeeBudget(uint64,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.plugin, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void ABI method
+   *
+   * Set how much a plugin may spend of an asset within a period. Replaces any existing limit for the asset.The limits are checked when arc58_verifyAuthAddr is called after the plugin has been used.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58SetSpendingLimit(args: MethodArgs<'arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller, args.asset, args.amount, args.period, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_removeSpendingLimit(uint64,address,uint64,address)void ABI method
+   *
+   * Remove the spending limit for an asset from a plugin
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RemoveSpendingLimit(args: MethodArgs<'arc58_removeSpendingLimit(uint64,address,uint64,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_removeSpendingLimit(uint64,address,uint64,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller, args.asset, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_addGuardian(address,pay)void ABI method
+   *
+   * Add a guardian that can approve recovering the account
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AddGuardian(args: MethodArgs<'arc58_addGuardian(address,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_addGuardian(address,pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.guardian, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_removeGuardian(address,address)void ABI method
+   *
+   * Remove a guardian. If the guardian approved the pending recovery, their approval is revoked.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RemoveGuardian(args: MethodArgs<'arc58_removeGuardian(address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_removeGuardian(address,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.guardian, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_setRecoveryConfig(uint64,uint64,uint64)void ABI method
+   *
+   * Set how many guardians must approve a recovery, how long the admin has to cancel itand how long a proposal has to get enough approvals
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58SetRecoveryConfig(args: MethodArgs<'arc58_setRecoveryConfig(uint64,uint64,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_setRecoveryConfig(uint64,uint64,uint64)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.threshold, args.delay, args.proposalLifetime],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_proposeRecovery(address)void ABI method
+   *
+   * Propose replacing the admin. Must be called by a guardian and counts as their approval.Replaces the pending proposal if it didn't get enough approvals within the proposal lifetime,so a single guardian can't block recovery with a bad proposal.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58ProposeRecovery(args: MethodArgs<'arc58_proposeRecovery(address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_proposeRecovery(address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.newAdmin],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_approveRecovery()void ABI method
+   *
+   * Approve the pending recovery. Must be called by a guardian. Once enough guardians have approved,the admin has the recovery delay to cancel it before it can be finalized.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58ApproveRecovery(args: MethodArgs<'arc58_approveRecovery()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_approveRecovery()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_revokeRecoveryApproval()void ABI method
+   *
+   * Revoke the sender's approval of the pending recovery. Must be called by a guardian that approved it.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RevokeRecoveryApproval(args: MethodArgs<'arc58_revokeRecoveryApproval()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_revokeRecoveryApproval()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_cancelRecovery()void ABI method
+   *
+   * Cancel the pending recovery
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58CancelRecovery(args: MethodArgs<'arc58_cancelRecovery()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_cancelRecovery()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_finalizeRecovery()void ABI method
+   *
+   * Replace the admin with the one from the pending recovery once it has enough approvals and the delay has passed.Can be called by anyone.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58FinalizeRecovery(args: MethodArgs<'arc58_finalizeRecovery()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_finalizeRecovery()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_setPauseGuardian(address)void ABI method
+   *
+   * Set the address that can pause the plugins in addition to the admin
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58SetPauseGuardian(args: MethodArgs<'arc58_setPauseGuardian(address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_setPauseGuardian(address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.guardian],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_pause()void ABI method
+   *
+   * Stop every plugin from being used until the admin unpauses them. Can be called by the admin or the pause guardian.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58Pause(args: MethodArgs<'arc58_pause()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_pause()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_unpause()void ABI method
+   *
+   * Let the plugins be used again
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58Unpause(args: MethodArgs<'arc58_unpause()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_unpause()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_grantRole(address,bool,bool,uint64,pay)void ABI method
+   *
+   * Give an address a role that lets it manage plugins without being the admin.Replaces any existing role of the address.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58GrantRole(args: MethodArgs<'arc58_grantRole(address,bool,bool,uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_grantRole(address,bool,bool,uint64,pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.account, args.addPlugins, args.removePlugins, args.maxDuration, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_revokeRole(address,address)void ABI method
+   *
+   * Remove the role of an address
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RevokeRole(args: MethodArgs<'arc58_revokeRole(address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_revokeRole(address,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.account, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void ABI method
+   *
+   * Add a session key that can use the given plugins until it expires. Each plugin is approved for the session keyas the allowed caller and its approval program is pinned, so the boxes for those permissions (and their spending limits) must be referenced.Like any new permission, they can only be used once the plugin delay has passed.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58AddSessionKey(args: MethodArgs<'arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.sessionKey, args.expiry, args.plugins, args.spendingLimit, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_removeSessionKey(address,address)void ABI method
+   *
+   * Remove a session key along with the plugin permissions and spending limits that were added for it
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RemoveSessionKey(args: MethodArgs<'arc58_removeSessionKey(address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_removeSessionKey(address,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.sessionKey, args.mbrReceiver],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the arc58_revokeAllSessionKeys()void ABI method
+   *
+   * Revoke every session key that has been added so far
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static arc58RevokeAllSessionKeys(args: MethodArgs<'arc58_revokeAllSessionKeys()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'arc58_revokeAllSessionKeys()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+}
+
+/**
+ * A client to make calls to the AbstractedAccount smart contract
+ */
+export class AbstractedAccountClient {
+  /**
+   * The underlying `ApplicationClient` for when you want to have more flexibility
+   */
+  public readonly appClient: ApplicationClient
+
+  private readonly sender: SendTransactionFrom | undefined
+
+  /**
+   * Creates a new instance of `AbstractedAccountClient`
+   *
+   * @param appDetails appDetails The details to identify the app to deploy
+   * @param algod An algod client instance
+   */
+  constructor(appDetails: AppDetails, private algod: Algodv2) {
+    this.sender = appDetails.sender
+    this.appClient = algokit.getAppClient({
+      ...appDetails,
+      app: APP_SPEC
+    }, algod)
+  }
+
+  /**
+   * Checks for decode errors on the AppCallTransactionResult and maps the return value to the specified generic type
+   *
+   * @param result The AppCallTransactionResult to be mapped
+   * @param returnValueFormatter An optional delegate to format the return value if required
+   * @returns The smart contract response with an updated return value
+   */
+  protected mapReturnValue<TReturn, TResult extends AppCallTransactionResult = AppCallTransactionResult>(result: AppCallTransactionResult, returnValueFormatter?: (value: any) => TReturn): AppCallTransactionResultOfType<TReturn> & TResult {
+    if(result.return?.decodeError) {
+      throw result.return.decodeError
+    }
+    const returnValue = result.return?.returnValue !== undefined && returnValueFormatter !== undefined
+      ? returnValueFormatter(result.return.returnValue)
+      : result.return?.returnValue as TReturn | undefined
+      return { ...result, return: returnValue } as AppCallTransactionResultOfType<TReturn> & TResult
+  }
+
+  /**
+   * Calls the ABI method with the matching signature using an onCompletion code of NO_OP
+   *
+   * @param typedCallParams An object containing the method signature, args, and any other relevant parameters
+   * @param returnValueFormatter An optional delegate which when provided will be used to map non-undefined return values to the target type
+   * @returns The result of the smart contract call
+   */
+  public async call<TSignature extends keyof AbstractedAccount['methods']>(typedCallParams: TypedCallParams<TSignature>, returnValueFormatter?: (value: any) => MethodReturn<TSignature>) {
+    return this.mapReturnValue<MethodReturn<TSignature>>(await this.appClient.call(typedCallParams), returnValueFormatter)
+  }
+
+  /**
+   * Idempotently deploys the AbstractedAccount smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public deploy(params: AbstractedAccountDeployArgs & AppClientDeployCoreParams = {}): ReturnType<ApplicationClient['deploy']> {
+    const createArgs = params.createCall?.(AbstractedAccountCallFactory.create)
+    return this.appClient.deploy({
+      ...params,
+      createArgs,
+      createOnCompleteAction: createArgs?.onCompleteAction,
+    })
+  }
+
+  /**
+   * Gets available create methods
+   */
+  public get create() {
+    const $this = this
+    return {
+      /**
+       * Creates a new instance of the AbstractedAccount smart contract using the createApplication(address,address,address[],uint64)void ABI method.
+       *
+       * @param args The arguments for the smart contract call
+       * @param params Any additional parameters for the call
+       * @returns The create result
+       */
+      async createApplication(args: MethodArgs<'createApplication(address,address,address[],uint64)void'>, params: AppClientCallCoreParams & AppClientCompilationParams & (OnCompleteNoOp) = {}) {
+        return $this.mapReturnValue<MethodReturn<'createApplication(address,address,address[],uint64)void'>, AppCreateCallTransactionResult>(await $this.appClient.create(AbstractedAccountCallFactory.create.createApplication(args, params)))
+      },
+    }
+  }
+
+  /**
+   * Makes a clear_state call to an existing instance of the AbstractedAccount smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The clear_state result
+   */
+  public clearState(args: BareCallArgs & AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.appClient.clearState(args)
+  }
+
+  /**
+   * Calls the arc58_initAdminSigners(address[],pay)void ABI method.
+   *
+   * Register the signers given at creation. Boxes cannot be created during creation because the app is not funded yet.Can be called by anyone, but only once and only with the signers given at creation.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58InitAdminSigners(args: MethodArgs<'arc58_initAdminSigners(address[],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58InitAdminSigners(args, params))
+  }
+
+  /**
+   * Calls the arc58_authorizeIntent(uint64,uint64,byte[64])void ABI method.
+   *
+   * Authorize the admin method call that comes right after this one in the group with an intent signed by the admin,so anyone can relay admin operations and the admin key never needs ALGO. Only available when adminThreshold is zero.The admin signs`"arc58intent" + app ID + nonce + expiry + sha256(concatenated application args of the call)`with ed25519. The payment arguments of the method, such as its MBR payment, go between the two calls.The relayer must cover the fees of the three inner transactions used to increase the opcode budget.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AuthorizeIntent(args: MethodArgs<'arc58_authorizeIntent(uint64,uint64,byte[64])void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AuthorizeIntent(args, params))
+  }
+
+  /**
+   * Calls the arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void ABI method.
+   *
+   * Authorize the admin method call that comes right after this one in the group with a WebAuthn assertionof the admin's passkey. Only available when the admin is a passkey. The challenge of the assertion isthe sha256 of the same message arc58_authorizeIntent verifies, and the user must have been present.The relayer must cover the fees of the four inner transactions used to increase the opcode budget.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AuthorizePasskeyIntent(args: MethodArgs<'arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AuthorizePasskeyIntent(args, params))
+  }
+
+  /**
+   * Calls the arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void ABI method.
+   *
+   * Authorize the admin method call that comes right after this one in the group with EIP-712 typed data signedby the admin's Ethereum key, ie. with`eth_signTypedData_v4`. Only available when the admin is an Ethereum address.The typed data is an`Intent(uint64 app,uint64 nonce,uint64 expiry,bytes32 operation)`in the`{ name: "ARC58 Abstracted Account", version: "1" }`domain, where operation is the same hash of the applicationargs arc58_authorizeIntent uses. The relayer must cover the fees of the four inner transactions used to increasethe opcode budget.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AuthorizeEthereumIntent(args: MethodArgs<'arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AuthorizeEthereumIntent(args, params))
+  }
+
+  /**
+   * Calls the arc58_setAdminPasskey(byte[64])void ABI method.
+   *
+   * Make a passkey the admin. Admin operations must then be authorized with arc58_authorizePasskeyIntentand the admin address becomes the global zero address, since no address can act as the admin.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58SetAdminPasskey(args: MethodArgs<'arc58_setAdminPasskey(byte[64])void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58SetAdminPasskey(args, params))
+  }
+
+  /**
+   * Calls the arc58_setAdminEthereumAddress(byte[20])void ABI method.
+   *
+   * Make an Ethereum key the admin. Admin operations must then be authorized with arc58_authorizeEthereumIntentand the admin address becomes the global zero address, since no Algorand address can act as the admin.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58SetAdminEthereumAddress(args: MethodArgs<'arc58_setAdminEthereumAddress(byte[20])void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58SetAdminEthereumAddress(args, params))
+  }
+
+  /**
+   * Calls the arc58_approveOperation(byte[32],pay)void ABI method.
+   *
+   * Approve an admin operation. Must be called by a signer. Once enough signers have approved, anyone cancall the admin method with the application args the hash was computed from.The MBR of the approvals stays with the app address once the operation is executed.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58ApproveOperation(args: MethodArgs<'arc58_approveOperation(byte[32],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58ApproveOperation(args, params))
+  }
+
+  /**
+   * Calls the arc58_revokeApproval(byte[32],address)void ABI method.
+   *
+   * Revoke an approval of an admin operation that has not been executed yet
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RevokeApproval(args: MethodArgs<'arc58_revokeApproval(byte[32],address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RevokeApproval(args, params))
+  }
+
+  /**
+   * Calls the arc58_changeAdmin(address,uint64)void ABI method.
+   *
+   * Attempt to change the admin for this app. Some implementations MAY not support this.The admin only changes once the new admin calls arc58_acceptAdmin, which ensures the new admin is an addresssomeone controls. Replaces any pending admin change.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58ChangeAdmin(args: MethodArgs<'arc58_changeAdmin(address,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58ChangeAdmin(args, params))
+  }
+
+  /**
+   * Calls the arc58_acceptAdmin()void ABI method.
+   *
+   * Accept becoming the admin of this app. Must be called by the pending admin once the delay has passed.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AcceptAdmin(args: MethodArgs<'arc58_acceptAdmin()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AcceptAdmin(args, params))
+  }
+
+  /**
+   * Calls the arc58_cancelAdminChange()void ABI method.
+   *
+   * Cancel the pending admin change
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58CancelAdminChange(args: MethodArgs<'arc58_cancelAdminChange()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58CancelAdminChange(args, params))
+  }
+
+  /**
+   * Calls the arc58_getAdmin()address ABI method.
+   *
+   * Get the admin of this app. This method SHOULD always be used rather than reading directly from statebecause different implementations may have different ways of determining the admin.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58GetAdmin(args: MethodArgs<'arc58_getAdmin()address'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58GetAdmin(args, params))
+  }
+
+  /**
+   * Calls the arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]) ABI method.
+   *
+   * Get the permission data of a plugin
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58GetPluginInfo(args: MethodArgs<'arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58GetPluginInfo(args, params))
+  }
+
+  /**
+   * Calls the arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])) ABI method.
+   *
+   * Get the plugin permission a name refers to and its permission data
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58GetNamedPlugin(args: MethodArgs<'arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58GetNamedPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_canCallPlugin(uint64,address)bool ABI method.
+   *
+   * Whether the given address can currently rekey the abstracted account to the pluginvia arc58_rekeyToPlugin. Spending limits are not checked since they depend on what the plugin does.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58CanCallPlugin(args: MethodArgs<'arc58_canCallPlugin(uint64,address)bool'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58CanCallPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_verifyAuthAddr()void ABI method.
+   *
+   * Verify the abstracted account is rekeyed to this app
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58VerifyAuthAddr(args: MethodArgs<'arc58_verifyAuthAddr()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58VerifyAuthAddr(args, params))
+  }
+
+  /**
+   * Calls the arc58_rekeyTo(address,bool)void ABI method.
+   *
+   * Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.This is not subject to the plugin delay, so the admin key can hand over the account immediately.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RekeyTo(args: MethodArgs<'arc58_rekeyTo(address,bool)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RekeyTo(args, params))
+  }
+
+  /**
+   * Calls the arc58_rekeyToPlugin(uint64)void ABI method.
+   *
+   * Temporarily rekey to an approved plugin app address.Several plugins can be used in one group by calling this before each of them, with one arc58_verifyAuthAddr at the end.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RekeyToPlugin(args: MethodArgs<'arc58_rekeyToPlugin(uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RekeyToPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_rekeyToPluginAsSetMember(uint64,string)void ABI method.
+   *
+   * Temporarily rekey to a plugin app address that has been approved for a caller set the sender is a member of
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RekeyToPluginAsSetMember(args: MethodArgs<'arc58_rekeyToPluginAsSetMember(uint64,string)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RekeyToPluginAsSetMember(args, params))
+  }
+
+  /**
+   * Calls the arc58_rekeyToNamedPlugin(string)void ABI method.
+   *
+   * Temporarily rekey to a named plugin app address
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RekeyToNamedPlugin(args: MethodArgs<'arc58_rekeyToNamedPlugin(string)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RekeyToNamedPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method.
+   *
+   * Add an app to the list of approved plugins
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AddPlugin(args: MethodArgs<'arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AddPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_removePlugin(uint64,address,address)void ABI method.
+   *
+   * Remove an app from the list of approved plugins. If names still refer to the permission, it is kept for them.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RemovePlugin(args: MethodArgs<'arc58_removePlugin(uint64,address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RemovePlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_vetoPlugin(uint64,address,string[],address)void ABI method.
+   *
+   * Remove a plugin permission that has not become active yet, along with the names that refer to it.Can be called by the admin or any guardian.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58VetoPlugin(args: MethodArgs<'arc58_vetoPlugin(uint64,address,string[],address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58VetoPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_setPluginDelay(uint64)void ABI method.
+   *
+   * Set how long new plugin permissions must wait before they can be used. Permissions that were already added are not affected.Raising the delay applies immediately, but lowering it only applies once the current delay has passed,so a compromised admin key can't skip the veto window by lowering the delay first.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58SetPluginDelay(args: MethodArgs<'arc58_setPluginDelay(uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58SetPluginDelay(args, params))
+  }
+
+  /**
+   * Calls the arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method.
+   *
+   * Add a named plugin
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AddNamedPlugin(args: MethodArgs<'arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AddNamedPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_removeNamedPlugin(string,address)void ABI method.
+   *
+   * Remove a named plugin. The permission is kept if it was also added without a name or other names refer to it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RemoveNamedPlugin(args: MethodArgs<'arc58_removeNamedPlugin(string,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RemoveNamedPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method.
+   *
+   * Point an existing name at a new plugin permission in a single call, so the name can always be rekeyed to.The permission the name referred to is removed unless something else still refers to it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58UpdateNamedPlugin(args: MethodArgs<'arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58UpdateNamedPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_renameNamedPlugin(string,string,pay)void ABI method.
+   *
+   * Give a named plugin a new name in a single call. The plugin permission is not changed.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RenameNamedPlugin(args: MethodArgs<'arc58_renameNamedPlugin(string,string,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RenameNamedPlugin(args, params))
+  }
+
+  /**
+   * Calls the arc58_addCallerSetMember(string,address,pay)void ABI method.
+   *
+   * Add a member to a caller set. Plugins are granted to the set by using its address, the sha256 hash of its name,as the allowed caller.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AddCallerSetMember(args: MethodArgs<'arc58_addCallerSetMember(string,address,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AddCallerSetMember(args, params))
+  }
+
+  /**
+   * Calls the arc58_removeCallerSetMember(string,address,address)void ABI method.
+   *
+   * Remove a member from a caller set
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RemoveCallerSetMember(args: MethodArgs<'arc58_removeCallerSetMember(string,address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RemoveCallerSetMember(args, params))
+  }
+
+  /**
+   * Calls the arc58_setPluginGate(uint64,address,uint64,uint64)void ABI method.
+   *
+   * Only let callers that hold at least`amount`of`asset`use a plugin permission.With the global zero address as the allowed caller, this grants the plugin to every holder of the asset.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58SetPluginGate(args: MethodArgs<'arc58_setPluginGate(uint64,address,uint64,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58SetPluginGate(args, params))
+  }
+
+  /**
+   * Calls the arc58_setFeeBudget(uint64,uint64,uint64,pay)void ABI method.
+   *
+   * Let the abstracted account reimburse the fees of whoever uses a plugin, so callers like keeper botsdon't spend ALGO. Replaces the remaining budget of the plugin.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58SetFeeBudget(args: MethodArgs<'arc58_setFeeBudget(uint64,uint64,uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58SetFeeBudget(args, params))
+  }
+
+  /**
+   * Calls the arc58_removeFeeBudget(uint64,address)void ABI method.
+   *
+   * Stop reimbursing the fees of a plugin's callers
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RemoveFeeBudget(args: MethodArgs<'arc58_removeFeeBudget(uint64,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RemoveFeeBudget(args, params))
+  }
+
+  /**
+   * Calls the arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void ABI method.
+   *
+   * Set how much a plugin may spend of an asset within a period. Replaces any existing limit for the asset.The limits are checked when arc58_verifyAuthAddr is called after the plugin has been used.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58SetSpendingLimit(args: MethodArgs<'arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58SetSpendingLimit(args, params))
+  }
+
+  /**
+   * Calls the arc58_removeSpendingLimit(uint64,address,uint64,address)void ABI method.
+   *
+   * Remove the spending limit for an asset from a plugin
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RemoveSpendingLimit(args: MethodArgs<'arc58_removeSpendingLimit(uint64,address,uint64,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RemoveSpendingLimit(args, params))
+  }
+
+  /**
+   * Calls the arc58_addGuardian(address,pay)void ABI method.
+   *
+   * Add a guardian that can approve recovering the account
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AddGuardian(args: MethodArgs<'arc58_addGuardian(address,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AddGuardian(args, params))
+  }
+
+  /**
+   * Calls the arc58_removeGuardian(address,address)void ABI method.
+   *
+   * Remove a guardian. If the guardian approved the pending recovery, their approval is revoked.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RemoveGuardian(args: MethodArgs<'arc58_removeGuardian(address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RemoveGuardian(args, params))
+  }
+
+  /**
+   * Calls the arc58_setRecoveryConfig(uint64,uint64,uint64)void ABI method.
+   *
+   * Set how many guardians must approve a recovery, how long the admin has to cancel itand how long a proposal has to get enough approvals
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58SetRecoveryConfig(args: MethodArgs<'arc58_setRecoveryConfig(uint64,uint64,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58SetRecoveryConfig(args, params))
+  }
+
+  /**
+   * Calls the arc58_proposeRecovery(address)void ABI method.
+   *
+   * Propose replacing the admin. Must be called by a guardian and counts as their approval.Replaces the pending proposal if it didn't get enough approvals within the proposal lifetime,so a single guardian can't block recovery with a bad proposal.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58ProposeRecovery(args: MethodArgs<'arc58_proposeRecovery(address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58ProposeRecovery(args, params))
+  }
+
+  /**
+   * Calls the arc58_approveRecovery()void ABI method.
+   *
+   * Approve the pending recovery. Must be called by a guardian. Once enough guardians have approved,the admin has the recovery delay to cancel it before it can be finalized.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58ApproveRecovery(args: MethodArgs<'arc58_approveRecovery()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58ApproveRecovery(args, params))
+  }
+
+  /**
+   * Calls the arc58_revokeRecoveryApproval()void ABI method.
+   *
+   * Revoke the sender's approval of the pending recovery. Must be called by a guardian that approved it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RevokeRecoveryApproval(args: MethodArgs<'arc58_revokeRecoveryApproval()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RevokeRecoveryApproval(args, params))
+  }
+
+  /**
+   * Calls the arc58_cancelRecovery()void ABI method.
+   *
+   * Cancel the pending recovery
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58CancelRecovery(args: MethodArgs<'arc58_cancelRecovery()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58CancelRecovery(args, params))
+  }
+
+  /**
+   * Calls the arc58_finalizeRecovery()void ABI method.
+   *
+   * Replace the admin with the one from the pending recovery once it has enough approvals and the delay has passed.Can be called by anyone.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58FinalizeRecovery(args: MethodArgs<'arc58_finalizeRecovery()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58FinalizeRecovery(args, params))
+  }
+
+  /**
+   * Calls the arc58_setPauseGuardian(address)void ABI method.
+   *
+   * Set the address that can pause the plugins in addition to the admin
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58SetPauseGuardian(args: MethodArgs<'arc58_setPauseGuardian(address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58SetPauseGuardian(args, params))
+  }
+
+  /**
+   * Calls the arc58_pause()void ABI method.
+   *
+   * Stop every plugin from being used until the admin unpauses them. Can be called by the admin or the pause guardian.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58Pause(args: MethodArgs<'arc58_pause()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58Pause(args, params))
+  }
+
+  /**
+   * Calls the arc58_unpause()void ABI method.
+   *
+   * Let the plugins be used again
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58Unpause(args: MethodArgs<'arc58_unpause()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58Unpause(args, params))
+  }
+
+  /**
+   * Calls the arc58_grantRole(address,bool,bool,uint64,pay)void ABI method.
+   *
+   * Give an address a role that lets it manage plugins without being the admin.Replaces any existing role of the address.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58GrantRole(args: MethodArgs<'arc58_grantRole(address,bool,bool,uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58GrantRole(args, params))
+  }
+
+  /**
+   * Calls the arc58_revokeRole(address,address)void ABI method.
+   *
+   * Remove the role of an address
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RevokeRole(args: MethodArgs<'arc58_revokeRole(address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RevokeRole(args, params))
+  }
+
+  /**
+   * Calls the arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void ABI method.
+   *
+   * Add a session key that can use the given plugins until it expires. Each plugin is approved for the session keyas the allowed caller and its approval program is pinned, so the boxes for those permissions (and their spending limits) must be referenced.Like any new permission, they can only be used once the plugin delay has passed.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58AddSessionKey(args: MethodArgs<'arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58AddSessionKey(args, params))
+  }
+
+  /**
+   * Calls the arc58_removeSessionKey(address,address)void ABI method.
+   *
+   * Remove a session key along with the plugin permissions and spending limits that were added for it
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RemoveSessionKey(args: MethodArgs<'arc58_removeSessionKey(address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RemoveSessionKey(args, params))
+  }
+
+  /**
+   * Calls the arc58_revokeAllSessionKeys()void ABI method.
+   *
+   * Revoke every session key that has been added so far
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public arc58RevokeAllSessionKeys(args: MethodArgs<'arc58_revokeAllSessionKeys()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AbstractedAccountCallFactory.arc58RevokeAllSessionKeys(args, params))
+  }
+
+  /**
+   * Extracts a binary state value out of an AppState dictionary
+   *
+   * @param state The state dictionary containing the state value
+   * @param key The key of the state value
+   * @returns A BinaryState instance containing the state value, or undefined if the key was not found
+   */
+  private static getBinaryState(state: AppState, key: string): BinaryState | undefined {
+    const value = state[key]
+    if (!value) return undefined
+    if (!('valueRaw' in value))
+      throw new Error(`Failed to parse state value for ${key}; received an int when expected a byte array`)
+    return {
+      asString(): string {
+        return value.value
+      },
+      asByteArray(): Uint8Array {
+        return value.valueRaw
+      }
+    }
+  }
+
+  /**
+   * Extracts a integer state value out of an AppState dictionary
+   *
+   * @param state The state dictionary containing the state value
+   * @param key The key of the state value
+   * @returns An IntegerState instance containing the state value, or undefined if the key was not found
+   */
+  private static getIntegerState(state: AppState, key: string): IntegerState | undefined {
+    const value = state[key]
+    if (!value) return undefined
+    if ('valueRaw' in value)
+      throw new Error(`Failed to parse state value for ${key}; received a byte array when expected a number`)
+    return {
+      asBigInt() {
+        return typeof value.value === 'bigint' ? value.value : BigInt(value.value)
+      },
+      asNumber(): number {
+        return typeof value.value === 'bigint' ? Number(value.value) : value.value
+      },
+    }
+  }
+
+  /**
+   * Returns the smart contract's global state wrapped in a strongly typed accessor with options to format the stored value
+   */
+  public async getGlobalState(): Promise<AbstractedAccount['state']['global']> {
+    const state = await this.appClient.getGlobalState()
+    return {
+      get a() {
+        return AbstractedAccountClient.getBinaryState(state, 'a')
+      },
+      get c() {
+        return AbstractedAccountClient.getBinaryState(state, 'c')
+      },
+      get mt() {
+        return AbstractedAccountClient.getIntegerState(state, 'mt')
+      },
+      get mh() {
+        return AbstractedAccountClient.getBinaryState(state, 'mh')
+      },
+      get pa() {
+        return AbstractedAccountClient.getBinaryState(state, 'pa')
+      },
+      get pr() {
+        return AbstractedAccountClient.getIntegerState(state, 'pr')
+      },
+      get in() {
+        return AbstractedAccountClient.getIntegerState(state, 'in')
+      },
+      get kt() {
+        return AbstractedAccountClient.getIntegerState(state, 'kt')
+      },
+      get ak() {
+        return AbstractedAccountClient.getBinaryState(state, 'ak')
+      },
+      get pd() {
+        return AbstractedAccountClient.getIntegerState(state, 'pd')
+      },
+      get pp() {
+        return AbstractedAccountClient.getIntegerState(state, 'pp')
+      },
+      get pt() {
+        return AbstractedAccountClient.getIntegerState(state, 'pt')
+      },
+      get se() {
+        return AbstractedAccountClient.getIntegerState(state, 'se')
+      },
+      get ap() {
+        return AbstractedAccountClient.getBinaryState(state, 'ap')
+      },
+      get gc() {
+        return AbstractedAccountClient.getIntegerState(state, 'gc')
+      },
+      get rt() {
+        return AbstractedAccountClient.getIntegerState(state, 'rt')
+      },
+      get rd() {
+        return AbstractedAccountClient.getIntegerState(state, 'rd')
+      },
+      get rl() {
+        return AbstractedAccountClient.getIntegerState(state, 'rl')
+      },
+      get rn() {
+        return AbstractedAccountClient.getIntegerState(state, 'rn')
+      },
+      get r() {
+        return AbstractedAccountClient.getBinaryState(state, 'r')
+      },
+      get ps() {
+        return AbstractedAccountClient.getBinaryState(state, 'ps')
+      },
+      get pg() {
+        return AbstractedAccountClient.getBinaryState(state, 'pg')
+      },
+    }
+  }
+
+  public compose(): AbstractedAccountComposer {
+    const client = this
+    const atc = new AtomicTransactionComposer()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: any) => any)> = []
+    return {
+      arc58InitAdminSigners(args: MethodArgs<'arc58_initAdminSigners(address[],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58InitAdminSigners(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AuthorizeIntent(args: MethodArgs<'arc58_authorizeIntent(uint64,uint64,byte[64])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AuthorizeIntent(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AuthorizePasskeyIntent(args: MethodArgs<'arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AuthorizePasskeyIntent(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AuthorizeEthereumIntent(args: MethodArgs<'arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AuthorizeEthereumIntent(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58SetAdminPasskey(args: MethodArgs<'arc58_setAdminPasskey(byte[64])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58SetAdminPasskey(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58SetAdminEthereumAddress(args: MethodArgs<'arc58_setAdminEthereumAddress(byte[20])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58SetAdminEthereumAddress(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58ApproveOperation(args: MethodArgs<'arc58_approveOperation(byte[32],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58ApproveOperation(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RevokeApproval(args: MethodArgs<'arc58_revokeApproval(byte[32],address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RevokeApproval(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58ChangeAdmin(args: MethodArgs<'arc58_changeAdmin(address,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58ChangeAdmin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AcceptAdmin(args: MethodArgs<'arc58_acceptAdmin()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AcceptAdmin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58CancelAdminChange(args: MethodArgs<'arc58_cancelAdminChange()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58CancelAdminChange(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58GetAdmin(args: MethodArgs<'arc58_getAdmin()address'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58GetAdmin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58GetPluginInfo(args: MethodArgs<'arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58GetPluginInfo(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58GetNamedPlugin(args: MethodArgs<'arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58GetNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58CanCallPlugin(args: MethodArgs<'arc58_canCallPlugin(uint64,address)bool'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58CanCallPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58VerifyAuthAddr(args: MethodArgs<'arc58_verifyAuthAddr()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58VerifyAuthAddr(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RekeyTo(args: MethodArgs<'arc58_rekeyTo(address,bool)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RekeyTo(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RekeyToPlugin(args: MethodArgs<'arc58_rekeyToPlugin(uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RekeyToPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RekeyToPluginAsSetMember(args: MethodArgs<'arc58_rekeyToPluginAsSetMember(uint64,string)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RekeyToPluginAsSetMember(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RekeyToNamedPlugin(args: MethodArgs<'arc58_rekeyToNamedPlugin(string)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RekeyToNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AddPlugin(args: MethodArgs<'arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AddPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RemovePlugin(args: MethodArgs<'arc58_removePlugin(uint64,address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RemovePlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58VetoPlugin(args: MethodArgs<'arc58_vetoPlugin(uint64,address,string[],address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58VetoPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58SetPluginDelay(args: MethodArgs<'arc58_setPluginDelay(uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58SetPluginDelay(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AddNamedPlugin(args: MethodArgs<'arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AddNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RemoveNamedPlugin(args: MethodArgs<'arc58_removeNamedPlugin(string,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RemoveNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58UpdateNamedPlugin(args: MethodArgs<'arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58UpdateNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RenameNamedPlugin(args: MethodArgs<'arc58_renameNamedPlugin(string,string,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RenameNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AddCallerSetMember(args: MethodArgs<'arc58_addCallerSetMember(string,address,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AddCallerSetMember(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RemoveCallerSetMember(args: MethodArgs<'arc58_removeCallerSetMember(string,address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RemoveCallerSetMember(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58SetPluginGate(args: MethodArgs<'arc58_setPluginGate(uint64,address,uint64,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58SetPluginGate(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58SetFeeBudget(args: MethodArgs<'arc58_setFeeBudget(uint64,uint64,uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58SetFeeBudget(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RemoveFeeBudget(args: MethodArgs<'arc58_removeFeeBudget(uint64,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RemoveFeeBudget(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58SetSpendingLimit(args: MethodArgs<'arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58SetSpendingLimit(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RemoveSpendingLimit(args: MethodArgs<'arc58_removeSpendingLimit(uint64,address,uint64,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RemoveSpendingLimit(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AddGuardian(args: MethodArgs<'arc58_addGuardian(address,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AddGuardian(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RemoveGuardian(args: MethodArgs<'arc58_removeGuardian(address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RemoveGuardian(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58SetRecoveryConfig(args: MethodArgs<'arc58_setRecoveryConfig(uint64,uint64,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58SetRecoveryConfig(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58ProposeRecovery(args: MethodArgs<'arc58_proposeRecovery(address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58ProposeRecovery(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58ApproveRecovery(args: MethodArgs<'arc58_approveRecovery()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58ApproveRecovery(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RevokeRecoveryApproval(args: MethodArgs<'arc58_revokeRecoveryApproval()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RevokeRecoveryApproval(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58CancelRecovery(args: MethodArgs<'arc58_cancelRecovery()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58CancelRecovery(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58FinalizeRecovery(args: MethodArgs<'arc58_finalizeRecovery()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58FinalizeRecovery(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58SetPauseGuardian(args: MethodArgs<'arc58_setPauseGuardian(address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58SetPauseGuardian(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58Pause(args: MethodArgs<'arc58_pause()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58Pause(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58Unpause(args: MethodArgs<'arc58_unpause()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58Unpause(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58GrantRole(args: MethodArgs<'arc58_grantRole(address,bool,bool,uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58GrantRole(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RevokeRole(args: MethodArgs<'arc58_revokeRole(address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RevokeRole(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58AddSessionKey(args: MethodArgs<'arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58AddSessionKey(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RemoveSessionKey(args: MethodArgs<'arc58_removeSessionKey(address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RemoveSessionKey(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      arc58RevokeAllSessionKeys(args: MethodArgs<'arc58_revokeAllSessionKeys()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.arc58RevokeAllSessionKeys(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      clearState(args?: BareCallArgs & AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.clearState({...args, sendParams: {...args?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      addTransaction(txn: TransactionWithSigner | TransactionToSign | Transaction | Promise<SendTransactionResult>, defaultSender?: SendTransactionFrom) {
+        promiseChain = promiseChain.then(async () => atc.addTransaction(await algokit.getTransactionWithSigner(txn, defaultSender ?? client.sender)))
+        return this
+      },
+      async atc() {
+        await promiseChain
+        return atc
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await atc.simulate(client.algod, new modelsv2.SimulateRequest({ txnGroups: [], ...options }))
+        return {
+          ...result,
+          returns: result.methodResults?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val.returnValue) : val.returnValue)
+        }
+      },
+      async execute(sendParams?: AppClientComposeExecuteParams) {
+        await promiseChain
+        const result = await algokit.sendAtomicTransactionComposer({ atc, sendParams }, client.algod)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val.returnValue) : val.returnValue)
+        }
       }
-    ]
+    } as unknown as AbstractedAccountComposer
   }
 }
-
-/**
- * Defines an onCompletionAction of 'no_op'
- */
-export type OnCompleteNoOp =  { onCompleteAction?: 'no_op' | OnApplicationComplete.NoOpOC }
-/**
- * Defines an onCompletionAction of 'opt_in'
- */
-export type OnCompleteOptIn =  { onCompleteAction: 'opt_in' | OnApplicationComplete.OptInOC }
-/**
- * Defines an onCompletionAction of 'close_out'
- */
-export type OnCompleteCloseOut =  { onCompleteAction: 'close_out' | OnApplicationComplete.CloseOutOC }
-/**
- * Defines an onCompletionAction of 'delete_application'
- */
-export type OnCompleteDelApp =  { onCompleteAction: 'delete_application' | OnApplicationComplete.DeleteApplicationOC }
-/**
- * Defines an onCompletionAction of 'update_application'
- */
-export type OnCompleteUpdApp =  { onCompleteAction: 'update_application' | OnApplicationComplete.UpdateApplicationOC }
-/**
- * A state record containing a single unsigned integer
- */
-export type IntegerState = {
+export type AbstractedAccountComposer<TReturns extends [...any[]] = []> = {
   /**
-   * Gets the state value as a BigInt.
+   * Calls the arc58_initAdminSigners(address[],pay)void ABI method.
+   *
+   * Register the signers given at creation. Boxes cannot be created during creation because the app is not funded yet.Can be called by anyone, but only once and only with the signers given at creation.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  asBigInt(): bigint
+  arc58InitAdminSigners(args: MethodArgs<'arc58_initAdminSigners(address[],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_initAdminSigners(address[],pay)void'>]>
+
   /**
-   * Gets the state value as a number.
+   * Calls the arc58_authorizeIntent(uint64,uint64,byte[64])void ABI method.
+   *
+   * Authorize the admin method call that comes right after this one in the group with an intent signed by the admin,so anyone can relay admin operations and the admin key never needs ALGO. Only available when adminThreshold is zero.The admin signs`"arc58intent" + app ID + nonce + expiry + sha256(concatenated application args of the call)`with ed25519. The payment arguments of the method, such as its MBR payment, go between the two calls.The relayer must cover the fees of the three inner transactions used to increase the opcode budget.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  asNumber(): number
-}
-/**
- * A state record containing binary data
- */
-export type BinaryState = {
+  arc58AuthorizeIntent(args: MethodArgs<'arc58_authorizeIntent(uint64,uint64,byte[64])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_authorizeIntent(uint64,uint64,byte[64])void'>]>
+
   /**
-   * Gets the state value as a Uint8Array
+   * Calls the arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void ABI method.
+   *
+   * Authorize the admin method call that comes right after this one in the group with a WebAuthn assertionof the admin's passkey. Only available when the admin is a passkey. The challenge of the assertion isthe sha256 of the same message arc58_authorizeIntent verifies, and the user must have been present.The relayer must cover the fees of the four inner transactions used to increase the opcode budget.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  asByteArray(): Uint8Array
+  arc58AuthorizePasskeyIntent(args: MethodArgs<'arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_authorizePasskeyIntent(uint64,uint64,byte[],byte[],byte[64])void'>]>
+
   /**
-   * Gets the state value as a string
+   * Calls the arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void ABI method.
+   *
+   * Authorize the admin method call that comes right after this one in the group with EIP-712 typed data signedby the admin's Ethereum key, ie. with`eth_signTypedData_v4`. Only available when the admin is an Ethereum address.The typed data is an`Intent(uint64 app,uint64 nonce,uint64 expiry,bytes32 operation)`in the`{ name: "ARC58 Abstracted Account", version: "1" }`domain, where operation is the same hash of the applicationargs arc58_authorizeIntent uses. The relayer must cover the fees of the four inner transactions used to increasethe opcode budget.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  asString(): string
-}
-
-export type AppCreateCallTransactionResult = AppCallTransactionResult & Partial<AppCompilationResult> & AppReference
-export type AppUpdateCallTransactionResult = AppCallTransactionResult & Partial<AppCompilationResult>
+  arc58AuthorizeEthereumIntent(args: MethodArgs<'arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_authorizeEthereumIntent(uint64,uint64,byte[65])void'>]>
 
-export type AppClientComposeCallCoreParams = Omit<AppClientCallCoreParams, 'sendParams'> & {
-  sendParams?: Omit<SendTransactionParams, 'skipSending' | 'atc' | 'skipWaiting' | 'maxRoundsToWaitForConfirmation' | 'populateAppCallResources'>
-}
-export type AppClientComposeExecuteParams = Pick<SendTransactionParams, 'skipWaiting' | 'maxRoundsToWaitForConfirmation' | 'populateAppCallResources' | 'suppressLog'>
-
-/**
- * Defines the types of available calls and state of the AbstractedAccount smart contract.
- */
-export type AbstractedAccount = {
   /**
-   * Maps method signatures / names to their argument and return types.
+   * Calls the arc58_setAdminPasskey(byte[64])void ABI method.
+   *
+   * Make a passkey the admin. Admin operations must then be authorized with arc58_authorizePasskeyIntentand the admin address becomes the global zero address, since no address can act as the admin.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  methods:
-    & Record<'createApplication(address,address)void' | 'createApplication', {
-      argsObj: {
-        /**
-         * The address of the abstracted account. If zeroAddress, then the address of the contract account will be used
-         */
-        controlledAddress: string
-        /**
-         * The admin for this app
-         */
-        admin: string
-      }
-      argsTuple: [controlledAddress: string, admin: string]
-      returns: void
-    }>
-    & Record<'arc58_changeAdmin(address)void' | 'arc58_changeAdmin', {
-      argsObj: {
-        /**
-         * The new admin
-         */
-        newAdmin: string
-      }
-      argsTuple: [newAdmin: string]
-      returns: void
-    }>
-    & Record<'arc58_getAdmin()address' | 'arc58_getAdmin', {
-      argsObj: {
-      }
-      argsTuple: []
-      returns: string
-    }>
-    & Record<'arc58_verifyAuthAddr()void' | 'arc58_verifyAuthAddr', {
-      argsObj: {
-      }
-      argsTuple: []
-      returns: void
-    }>
-    & Record<'arc58_rekeyTo(address,bool)void' | 'arc58_rekeyTo', {
-      argsObj: {
-        /**
-         * The address to rekey to
-         */
-        addr: string
-        /**
-         * Whether or not this should be a flash rekey. If true, the rekey back to the app address must done in the same txn group as this call
-         */
-        flash: boolean
-      }
-      argsTuple: [addr: string, flash: boolean]
-      returns: void
-    }>
-    & Record<'arc58_rekeyToPlugin(uint64)void' | 'arc58_rekeyToPlugin', {
-      argsObj: {
-        /**
-         * The app to rekey to
-         */
-        plugin: bigint | number
-      }
-      argsTuple: [plugin: bigint | number]
-      returns: void
-    }>
-    & Record<'arc58_rekeyToNamedPlugin(string)void' | 'arc58_rekeyToNamedPlugin', {
-      argsObj: {
-        /**
-         * The name of the plugin to rekey to
-         */
-        name: string
-      }
-      argsTuple: [name: string]
-      returns: void
-    }>
-    & Record<'arc58_addPlugin(uint64,address,uint64)void' | 'arc58_addPlugin', {
-      argsObj: {
-        /**
-         * The app to add
-         */
-        app: bigint | number
-        /**
-         * The address of that's allowed to call the appor the global zero address for all addresses
-         */
-        allowedCaller: string
-        /**
-         * The timestamp when the permission expires
-         */
-        end: bigint | number
-      }
-      argsTuple: [app: bigint | number, allowedCaller: string, end: bigint | number]
-      returns: void
-    }>
-    & Record<'arc58_removePlugin(uint64,address)void' | 'arc58_removePlugin', {
-      argsObj: {
-        /**
-         * The app to remove
-         */
-        app: bigint | number
-        allowedCaller: string
-      }
-      argsTuple: [app: bigint | number, allowedCaller: string]
-      returns: void
-    }>
-    & Record<'arc58_addNamedPlugin(string,uint64,address,uint64)void' | 'arc58_addNamedPlugin', {
-      argsObj: {
-        /**
-         * The plugin name
-         */
-        name: string
-        /**
-         * The plugin app
-         */
-        app: bigint | number
-        allowedCaller: string
-        end: bigint | number
-      }
-      argsTuple: [name: string, app: bigint | number, allowedCaller: string, end: bigint | number]
-      returns: void
-    }>
-    & Record<'arc58_removeNamedPlugin(string)void' | 'arc58_removeNamedPlugin', {
-      argsObj: {
-        /**
-         * The plugin name
-         */
-        name: string
-      }
-      argsTuple: [name: string]
-      returns: void
-    }>
+  arc58SetAdminPasskey(args: MethodArgs<'arc58_setAdminPasskey(byte[64])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_setAdminPasskey(byte[64])void'>]>
+
   /**
-   * Defines the shape of the global and local state of the application.
-   */
-  state: {
-    global: {
-      'a'?: BinaryState
-      'c'?: BinaryState
-    }
-  }
-}
-/**
- * Defines the possible abi call signatures
- */
-export type AbstractedAccountSig = keyof AbstractedAccount['methods']
-/**
- * Defines an object containing all relevant parameters for a single call to the contract. Where TSignature is undefined, a bare call is made
- */
-export type TypedCallParams<TSignature extends AbstractedAccountSig | undefined> = {
-  method: TSignature
-  methodArgs: TSignature extends undefined ? undefined : Array<ABIAppCallArg | undefined>
-} & AppClientCallCoreParams & CoreAppCallArgs
-/**
- * Defines the arguments required for a bare call
- */
-export type BareCallArgs = Omit<RawAppCallArgs, keyof CoreAppCallArgs>
-/**
- * Maps a method signature from the AbstractedAccount smart contract to the method's arguments in either tuple of struct form
- */
-export type MethodArgs<TSignature extends AbstractedAccountSig> = AbstractedAccount['methods'][TSignature]['argsObj' | 'argsTuple']
-/**
- * Maps a method signature from the AbstractedAccount smart contract to the method's return type
- */
-export type MethodReturn<TSignature extends AbstractedAccountSig> = AbstractedAccount['methods'][TSignature]['returns']
+   * Calls the arc58_setAdminEthereumAddress(byte[20])void ABI method.
+   *
+   * Make an Ethereum key the admin. Admin operations must then be authorized with arc58_authorizeEthereumIntentand the admin address becomes the global zero address, since no Algorand address can act as the admin.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  arc58SetAdminEthereumAddress(args: MethodArgs<'arc58_setAdminEthereumAddress(byte[20])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_setAdminEthereumAddress(byte[20])void'>]>
 
-/**
- * A factory for available 'create' calls
- */
-export type AbstractedAccountCreateCalls = (typeof AbstractedAccountCallFactory)['create']
-/**
- * Defines supported create methods for this smart contract
- */
-export type AbstractedAccountCreateCallParams =
-  | (TypedCallParams<'createApplication(address,address)void'> & (OnCompleteNoOp))
-/**
- * Defines arguments required for the deploy method.
- */
-export type AbstractedAccountDeployArgs = {
-  deployTimeParams?: TealTemplateParams
   /**
-   * A delegate which takes a create call factory and returns the create call params for this smart contract
+   * Calls the arc58_approveOperation(byte[32],pay)void ABI method.
+   *
+   * Approve an admin operation. Must be called by a signer. Once enough signers have approved, anyone cancall the admin method with the application args the hash was computed from.The MBR of the approvals stays with the app address once the operation is executed.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  createCall?: (callFactory: AbstractedAccountCreateCalls) => AbstractedAccountCreateCallParams
-}
+  arc58ApproveOperation(args: MethodArgs<'arc58_approveOperation(byte[32],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_approveOperation(byte[32],pay)void'>]>
 
+  /**
+   * Calls the arc58_revokeApproval(byte[32],address)void ABI method.
+   *
+   * Revoke an approval of an admin operation that has not been executed yet
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  arc58RevokeApproval(args: MethodArgs<'arc58_revokeApproval(byte[32],address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_revokeApproval(byte[32],address)void'>]>
 
-/**
- * Exposes methods for constructing all available smart contract calls
- */
-export abstract class AbstractedAccountCallFactory {
   /**
-   * Gets available create call factories
+   * Calls the arc58_changeAdmin(address,uint64)void ABI method.
+   *
+   * Attempt to change the admin for this app. Some implementations MAY not support this.The admin only changes once the new admin calls arc58_acceptAdmin, which ensures the new admin is an addresssomeone controls. Replaces any pending admin change.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static get create() {
-    return {
-      /**
-       * Constructs a create call for the AbstractedAccount smart contract using the createApplication(address,address)void ABI method
-       *
-       * @param args Any args for the contract call
-       * @param params Any additional parameters for the call
-       * @returns A TypedCallParams object for the call
-       */
-      createApplication(args: MethodArgs<'createApplication(address,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs & AppClientCompilationParams & (OnCompleteNoOp) = {}) {
-        return {
-          method: 'createApplication(address,address)void' as const,
-          methodArgs: Array.isArray(args) ? args : [args.controlledAddress, args.admin],
-          ...params,
-        }
-      },
-    }
-  }
+  arc58ChangeAdmin(args: MethodArgs<'arc58_changeAdmin(address,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_changeAdmin(address,uint64)void'>]>
 
   /**
-   * Constructs a no op call for the arc58_changeAdmin(address)void ABI method
+   * Calls the arc58_acceptAdmin()void ABI method.
    *
-   * Attempt to change the admin for this app. Some implementations MAY not support this.
+   * Accept becoming the admin of this app. Must be called by the pending admin once the delay has passed.
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58ChangeAdmin(args: MethodArgs<'arc58_changeAdmin(address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_changeAdmin(address)void' as const,
-      methodArgs: Array.isArray(args) ? args : [args.newAdmin],
-      ...params,
-    }
-  }
+  arc58AcceptAdmin(args: MethodArgs<'arc58_acceptAdmin()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_acceptAdmin()void'>]>
+
   /**
-   * Constructs a no op call for the arc58_getAdmin()address ABI method
+   * Calls the arc58_cancelAdminChange()void ABI method.
+   *
+   * Cancel the pending admin change
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  arc58CancelAdminChange(args: MethodArgs<'arc58_cancelAdminChange()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_cancelAdminChange()void'>]>
+
+  /**
+   * Calls the arc58_getAdmin()address ABI method.
    *
    * Get the admin of this app. This method SHOULD always be used rather than reading directly from statebecause different implementations may have different ways of determining the admin.
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58GetAdmin(args: MethodArgs<'arc58_getAdmin()address'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_getAdmin()address' as const,
-      methodArgs: Array.isArray(args) ? args : [],
-      ...params,
-    }
-  }
+  arc58GetAdmin(args: MethodArgs<'arc58_getAdmin()address'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_getAdmin()address'>]>
+
   /**
-   * Constructs a no op call for the arc58_verifyAuthAddr()void ABI method
+   * Calls the arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]) ABI method.
    *
-   * Verify the abstracted account is rekeyed to this app
+   * Get the permission data of a plugin
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58VerifyAuthAddr(args: MethodArgs<'arc58_verifyAuthAddr()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_verifyAuthAddr()void' as const,
-      methodArgs: Array.isArray(args) ? args : [],
-      ...params,
-    }
-  }
+  arc58GetPluginInfo(args: MethodArgs<'arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_getPluginInfo(uint64,address)(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])'>]>
+
   /**
-   * Constructs a no op call for the arc58_rekeyTo(address,bool)void ABI method
+   * Calls the arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])) ABI method.
    *
-   * Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.
+   * Get the plugin permission a name refers to and its permission data
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58RekeyTo(args: MethodArgs<'arc58_rekeyTo(address,bool)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_rekeyTo(address,bool)void' as const,
-      methodArgs: Array.isArray(args) ? args : [args.addr, args.flash],
-      ...params,
-    }
-  }
+  arc58GetNamedPlugin(args: MethodArgs<'arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_getNamedPlugin(string)((uint64,address),(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][]))'>]>
+
   /**
-   * Constructs a no op call for the arc58_rekeyToPlugin(uint64)void ABI method
+   * Calls the arc58_canCallPlugin(uint64,address)bool ABI method.
    *
-   * Temporarily rekey to an approved plugin app address
+   * Whether the given address can currently rekey the abstracted account to the pluginvia arc58_rekeyToPlugin. Spending limits are not checked since they depend on what the plugin does.
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58RekeyToPlugin(args: MethodArgs<'arc58_rekeyToPlugin(uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_rekeyToPlugin(uint64)void' as const,
-      methodArgs: Array.isArray(args) ? args : [args.plugin],
-      ...params,
-    }
-  }
+  arc58CanCallPlugin(args: MethodArgs<'arc58_canCallPlugin(uint64,address)bool'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_canCallPlugin(uint64,address)bool'>]>
+
   /**
-   * Constructs a no op call for the arc58_rekeyToNamedPlugin(string)void ABI method
+   * Calls the arc58_verifyAuthAddr()void ABI method.
    *
-   * Temporarily rekey to a named plugin app address
+   * Verify the abstracted account is rekeyed to this app
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58RekeyToNamedPlugin(args: MethodArgs<'arc58_rekeyToNamedPlugin(string)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_rekeyToNamedPlugin(string)void' as const,
-      methodArgs: Array.isArray(args) ? args : [args.name],
-      ...params,
-    }
-  }
+  arc58VerifyAuthAddr(args: MethodArgs<'arc58_verifyAuthAddr()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_verifyAuthAddr()void'>]>
+
   /**
-   * Constructs a no op call for the arc58_addPlugin(uint64,address,uint64)void ABI method
+   * Calls the arc58_rekeyTo(address,bool)void ABI method.
    *
-   * Add an app to the list of approved plugins
+   * Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.This is not subject to the plugin delay, so the admin key can hand over the account immediately.
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58AddPlugin(args: MethodArgs<'arc58_addPlugin(uint64,address,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_addPlugin(uint64,address,uint64)void' as const,
-      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller, args.end],
-      ...params,
-    }
-  }
+  arc58RekeyTo(args: MethodArgs<'arc58_rekeyTo(address,bool)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_rekeyTo(address,bool)void'>]>
+
   /**
-   * Constructs a no op call for the arc58_removePlugin(uint64,address)void ABI method
+   * Calls the arc58_rekeyToPlugin(uint64)void ABI method.
    *
-   * Remove an app from the list of approved plugins
+   * Temporarily rekey to an approved plugin app address.Several plugins can be used in one group by calling this before each of them, with one arc58_verifyAuthAddr at the end.
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58RemovePlugin(args: MethodArgs<'arc58_removePlugin(uint64,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_removePlugin(uint64,address)void' as const,
-      methodArgs: Array.isArray(args) ? args : [args.app, args.allowedCaller],
-      ...params,
-    }
-  }
+  arc58RekeyToPlugin(args: MethodArgs<'arc58_rekeyToPlugin(uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_rekeyToPlugin(uint64)void'>]>
+
   /**
-   * Constructs a no op call for the arc58_addNamedPlugin(string,uint64,address,uint64)void ABI method
+   * Calls the arc58_rekeyToPluginAsSetMember(uint64,string)void ABI method.
    *
-   * Add a named plugin
+   * Temporarily rekey to a plugin app address that has been approved for a caller set the sender is a member of
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58AddNamedPlugin(args: MethodArgs<'arc58_addNamedPlugin(string,uint64,address,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_addNamedPlugin(string,uint64,address,uint64)void' as const,
-      methodArgs: Array.isArray(args) ? args : [args.name, args.app, args.allowedCaller, args.end],
-      ...params,
-    }
-  }
+  arc58RekeyToPluginAsSetMember(args: MethodArgs<'arc58_rekeyToPluginAsSetMember(uint64,string)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_rekeyToPluginAsSetMember(uint64,string)void'>]>
+
   /**
-   * Constructs a no op call for the arc58_removeNamedPlugin(string)void ABI method
+   * Calls the arc58_rekeyToNamedPlugin(string)void ABI method.
    *
-   * Remove a named plugin
+   * Temporarily rekey to a named plugin app address
    *
-   * @param args Any args for the contract call
+   * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns A TypedCallParams object for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  static arc58RemoveNamedPlugin(args: MethodArgs<'arc58_removeNamedPlugin(string)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
-    return {
-      method: 'arc58_removeNamedPlugin(string)void' as const,
-      methodArgs: Array.isArray(args) ? args : [args.name],
-      ...params,
-    }
-  }
-}
+  arc58RekeyToNamedPlugin(args: MethodArgs<'arc58_rekeyToNamedPlugin(string)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_rekeyToNamedPlugin(string)void'>]>
 
-/**
- * A client to make calls to the AbstractedAccount smart contract
- */
-export class AbstractedAccountClient {
   /**
-   * The underlying `ApplicationClient` for when you want to have more flexibility
+   * Calls the arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method.
+   *
+   * Add an app to the list of approved plugins
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public readonly appClient: ApplicationClient
+  arc58AddPlugin(args: MethodArgs<'arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_addPlugin(uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>]>
 
-  private readonly sender: SendTransactionFrom | undefined
+  /**
+   * Calls the arc58_removePlugin(uint64,address,address)void ABI method.
+   *
+   * Remove an app from the list of approved plugins. If names still refer to the permission, it is kept for them.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  arc58RemovePlugin(args: MethodArgs<'arc58_removePlugin(uint64,address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removePlugin(uint64,address,address)void'>]>
 
   /**
-   * Creates a new instance of `AbstractedAccountClient`
+   * Calls the arc58_vetoPlugin(uint64,address,string[],address)void ABI method.
    *
-   * @param appDetails appDetails The details to identify the app to deploy
-   * @param algod An algod client instance
+   * Remove a plugin permission that has not become active yet, along with the names that refer to it.Can be called by the admin or any guardian.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  constructor(appDetails: AppDetails, private algod: Algodv2) {
-    this.sender = appDetails.sender
-    this.appClient = algokit.getAppClient({
-      ...appDetails,
-      app: APP_SPEC
-    }, algod)
-  }
+  arc58VetoPlugin(args: MethodArgs<'arc58_vetoPlugin(uint64,address,string[],address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_vetoPlugin(uint64,address,string[],address)void'>]>
 
   /**
-   * Checks for decode errors on the AppCallTransactionResult and maps the return value to the specified generic type
+   * Calls the arc58_setPluginDelay(uint64)void ABI method.
    *
-   * @param result The AppCallTransactionResult to be mapped
-   * @param returnValueFormatter An optional delegate to format the return value if required
-   * @returns The smart contract response with an updated return value
+   * Set how long new plugin permissions must wait before they can be used. Permissions that were already added are not affected.Raising the delay applies immediately, but lowering it only applies once the current delay has passed,so a compromised admin key can't skip the veto window by lowering the delay first.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  protected mapReturnValue<TReturn, TResult extends AppCallTransactionResult = AppCallTransactionResult>(result: AppCallTransactionResult, returnValueFormatter?: (value: any) => TReturn): AppCallTransactionResultOfType<TReturn> & TResult {
-    if(result.return?.decodeError) {
-      throw result.return.decodeError
-    }
-    const returnValue = result.return?.returnValue !== undefined && returnValueFormatter !== undefined
-      ? returnValueFormatter(result.return.returnValue)
-      : result.return?.returnValue as TReturn | undefined
-      return { ...result, return: returnValue } as AppCallTransactionResultOfType<TReturn> & TResult
-  }
+  arc58SetPluginDelay(args: MethodArgs<'arc58_setPluginDelay(uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_setPluginDelay(uint64)void'>]>
 
   /**
-   * Calls the ABI method with the matching signature using an onCompletion code of NO_OP
+   * Calls the arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method.
    *
-   * @param typedCallParams An object containing the method signature, args, and any other relevant parameters
-   * @param returnValueFormatter An optional delegate which when provided will be used to map non-undefined return values to the target type
-   * @returns The result of the smart contract call
+   * Add a named plugin
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public async call<TSignature extends keyof AbstractedAccount['methods']>(typedCallParams: TypedCallParams<TSignature>, returnValueFormatter?: (value: any) => MethodReturn<TSignature>) {
-    return this.mapReturnValue<MethodReturn<TSignature>>(await this.appClient.call(typedCallParams), returnValueFormatter)
-  }
+  arc58AddNamedPlugin(args: MethodArgs<'arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_addNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>]>
 
   /**
-   * Idempotently deploys the AbstractedAccount smart contract.
+   * Calls the arc58_removeNamedPlugin(string,address)void ABI method.
+   *
+   * Remove a named plugin. The permission is kept if it was also added without a name or other names refer to it.
    *
-   * @param params The arguments for the contract calls and any additional parameters for the call
-   * @returns The deployment result
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public deploy(params: AbstractedAccountDeployArgs & AppClientDeployCoreParams = {}): ReturnType<ApplicationClient['deploy']> {
-    const createArgs = params.createCall?.(AbstractedAccountCallFactory.create)
-    return this.appClient.deploy({
-      ...params,
-      createArgs,
-      createOnCompleteAction: createArgs?.onCompleteAction,
-    })
-  }
+  arc58RemoveNamedPlugin(args: MethodArgs<'arc58_removeNamedPlugin(string,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removeNamedPlugin(string,address)void'>]>
 
   /**
-   * Gets available create methods
+   * Calls the arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void ABI method.
+   *
+   * Point an existing name at a new plugin permission in a single call, so the name can always be rekeyed to.The permission the name referred to is removed unless something else still refers to it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public get create() {
-    const $this = this
-    return {
-      /**
-       * Creates a new instance of the AbstractedAccount smart contract using the createApplication(address,address)void ABI method.
-       *
-       * @param args The arguments for the smart contract call
-       * @param params Any additional parameters for the call
-       * @returns The create result
-       */
-      async createApplication(args: MethodArgs<'createApplication(address,address)void'>, params: AppClientCallCoreParams & AppClientCompilationParams & (OnCompleteNoOp) = {}) {
-        return $this.mapReturnValue<MethodReturn<'createApplication(address,address)void'>, AppCreateCallTransactionResult>(await $this.appClient.create(AbstractedAccountCallFactory.create.createApplication(args, params)))
-      },
-    }
-  }
+  arc58UpdateNamedPlugin(args: MethodArgs<'arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_updateNamedPlugin(string,uint64,address,uint64,uint64,bool,uint64,uint64,byte[4][],pay)void'>]>
 
   /**
-   * Makes a clear_state call to an existing instance of the AbstractedAccount smart contract.
+   * Calls the arc58_renameNamedPlugin(string,string,pay)void ABI method.
    *
-   * @param args The arguments for the bare call
-   * @returns The clear_state result
+   * Give a named plugin a new name in a single call. The plugin permission is not changed.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public clearState(args: BareCallArgs & AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.appClient.clearState(args)
-  }
+  arc58RenameNamedPlugin(args: MethodArgs<'arc58_renameNamedPlugin(string,string,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_renameNamedPlugin(string,string,pay)void'>]>
 
   /**
-   * Calls the arc58_changeAdmin(address)void ABI method.
+   * Calls the arc58_addCallerSetMember(string,address,pay)void ABI method.
    *
-   * Attempt to change the admin for this app. Some implementations MAY not support this.
+   * Add a member to a caller set. Plugins are granted to the set by using its address, the sha256 hash of its name,as the allowed caller.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58ChangeAdmin(args: MethodArgs<'arc58_changeAdmin(address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58ChangeAdmin(args, params))
-  }
+  arc58AddCallerSetMember(args: MethodArgs<'arc58_addCallerSetMember(string,address,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_addCallerSetMember(string,address,pay)void'>]>
 
   /**
-   * Calls the arc58_getAdmin()address ABI method.
+   * Calls the arc58_removeCallerSetMember(string,address,address)void ABI method.
    *
-   * Get the admin of this app. This method SHOULD always be used rather than reading directly from statebecause different implementations may have different ways of determining the admin.
+   * Remove a member from a caller set
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58GetAdmin(args: MethodArgs<'arc58_getAdmin()address'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58GetAdmin(args, params))
-  }
+  arc58RemoveCallerSetMember(args: MethodArgs<'arc58_removeCallerSetMember(string,address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removeCallerSetMember(string,address,address)void'>]>
 
   /**
-   * Calls the arc58_verifyAuthAddr()void ABI method.
+   * Calls the arc58_setPluginGate(uint64,address,uint64,uint64)void ABI method.
    *
-   * Verify the abstracted account is rekeyed to this app
+   * Only let callers that hold at least`amount`of`asset`use a plugin permission.With the global zero address as the allowed caller, this grants the plugin to every holder of the asset.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58VerifyAuthAddr(args: MethodArgs<'arc58_verifyAuthAddr()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58VerifyAuthAddr(args, params))
-  }
+  arc58SetPluginGate(args: MethodArgs<'arc58_setPluginGate(uint64,address,uint64,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_setPluginGate(uint64,address,uint64,uint64)void'>]>
 
   /**
-   * Calls the arc58_rekeyTo(address,bool)void ABI method.
+   * Calls the arc58_setFeeBudget(uint64,uint64,uint64,pay)void ABI method.
    *
-   * Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.
+   * Let the abstracted account reimburse the fees of whoever uses a plugin, so callers like keeper botsdon't spend ALGO. Replaces the remaining budget of the plugin.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58RekeyTo(args: MethodArgs<'arc58_rekeyTo(address,bool)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58RekeyTo(args, params))
-  }
+  arc58SetFeeBudget(args: MethodArgs<'arc58_setFeeBudget(uint64,uint64,uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_setFeeBudget(uint64,uint64,uint64,pay)void'>]>
 
   /**
-   * Calls the arc58_rekeyToPlugin(uint64)void ABI method.
+   * Calls the arc58_removeFeeBudget(uint64,address)void ABI method.
    *
-   * Temporarily rekey to an approved plugin app address
+   * Stop reimbursing the fees of a plugin's callers
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58RekeyToPlugin(args: MethodArgs<'arc58_rekeyToPlugin(uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58RekeyToPlugin(args, params))
-  }
+  arc58RemoveFeeBudget(args: MethodArgs<'arc58_removeFeeBudget(uint64,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removeFeeBudget(uint64,address)void'>]>
 
   /**
-   * Calls the arc58_rekeyToNamedPlugin(string)void ABI method.
+   * Calls the arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void ABI method.
    *
-   * Temporarily rekey to a named plugin app address
+   * Set how much a plugin may spend of an asset within a period. Replaces any existing limit for the asset.The limits are checked when arc58_verifyAuthAddr is called after the plugin has been used.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58RekeyToNamedPlugin(args: MethodArgs<'arc58_rekeyToNamedPlugin(string)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58RekeyToNamedPlugin(args, params))
-  }
+  arc58SetSpendingLimit(args: MethodArgs<'arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_setSpendingLimit(uint64,address,uint64,uint64,uint64,pay)void'>]>
 
   /**
-   * Calls the arc58_addPlugin(uint64,address,uint64)void ABI method.
+   * Calls the arc58_removeSpendingLimit(uint64,address,uint64,address)void ABI method.
    *
-   * Add an app to the list of approved plugins
+   * Remove the spending limit for an asset from a plugin
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58AddPlugin(args: MethodArgs<'arc58_addPlugin(uint64,address,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58AddPlugin(args, params))
-  }
+  arc58RemoveSpendingLimit(args: MethodArgs<'arc58_removeSpendingLimit(uint64,address,uint64,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removeSpendingLimit(uint64,address,uint64,address)void'>]>
 
   /**
-   * Calls the arc58_removePlugin(uint64,address)void ABI method.
+   * Calls the arc58_addGuardian(address,pay)void ABI method.
    *
-   * Remove an app from the list of approved plugins
+   * Add a guardian that can approve recovering the account
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58RemovePlugin(args: MethodArgs<'arc58_removePlugin(uint64,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58RemovePlugin(args, params))
-  }
+  arc58AddGuardian(args: MethodArgs<'arc58_addGuardian(address,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_addGuardian(address,pay)void'>]>
 
   /**
-   * Calls the arc58_addNamedPlugin(string,uint64,address,uint64)void ABI method.
+   * Calls the arc58_removeGuardian(address,address)void ABI method.
    *
-   * Add a named plugin
+   * Remove a guardian. If the guardian approved the pending recovery, their approval is revoked.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58AddNamedPlugin(args: MethodArgs<'arc58_addNamedPlugin(string,uint64,address,uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58AddNamedPlugin(args, params))
-  }
+  arc58RemoveGuardian(args: MethodArgs<'arc58_removeGuardian(address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removeGuardian(address,address)void'>]>
 
   /**
-   * Calls the arc58_removeNamedPlugin(string)void ABI method.
+   * Calls the arc58_setRecoveryConfig(uint64,uint64,uint64)void ABI method.
    *
-   * Remove a named plugin
+   * Set how many guardians must approve a recovery, how long the admin has to cancel itand how long a proposal has to get enough approvals
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
-   * @returns The result of the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public arc58RemoveNamedPlugin(args: MethodArgs<'arc58_removeNamedPlugin(string)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
-    return this.call(AbstractedAccountCallFactory.arc58RemoveNamedPlugin(args, params))
-  }
+  arc58SetRecoveryConfig(args: MethodArgs<'arc58_setRecoveryConfig(uint64,uint64,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_setRecoveryConfig(uint64,uint64,uint64)void'>]>
 
   /**
-   * Extracts a binary state value out of an AppState dictionary
+   * Calls the arc58_proposeRecovery(address)void ABI method.
    *
-   * @param state The state dictionary containing the state value
-   * @param key The key of the state value
-   * @returns A BinaryState instance containing the state value, or undefined if the key was not found
+   * Propose replacing the admin. Must be called by a guardian and counts as their approval.Replaces the pending proposal if it didn't get enough approvals within the proposal lifetime,so a single guardian can't block recovery with a bad proposal.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  private static getBinaryState(state: AppState, key: string): BinaryState | undefined {
-    const value = state[key]
-    if (!value) return undefined
-    if (!('valueRaw' in value))
-      throw new Error(`Failed to parse state value for ${key}; received an int when expected a byte array`)
-    return {
-      asString(): string {
-        return value.value
-      },
-      asByteArray(): Uint8Array {
-        return value.valueRaw
-      }
-    }
-  }
+  arc58ProposeRecovery(args: MethodArgs<'arc58_proposeRecovery(address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_proposeRecovery(address)void'>]>
 
   /**
-   * Extracts a integer state value out of an AppState dictionary
+   * Calls the arc58_approveRecovery()void ABI method.
    *
-   * @param state The state dictionary containing the state value
-   * @param key The key of the state value
-   * @returns An IntegerState instance containing the state value, or undefined if the key was not found
+   * Approve the pending recovery. Must be called by a guardian. Once enough guardians have approved,the admin has the recovery delay to cancel it before it can be finalized.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  private static getIntegerState(state: AppState, key: string): IntegerState | undefined {
-    const value = state[key]
-    if (!value) return undefined
-    if ('valueRaw' in value)
-      throw new Error(`Failed to parse state value for ${key}; received a byte array when expected a number`)
-    return {
-      asBigInt() {
-        return typeof value.value === 'bigint' ? value.value : BigInt(value.value)
-      },
-      asNumber(): number {
-        return typeof value.value === 'bigint' ? Number(value.value) : value.value
-      },
-    }
-  }
+  arc58ApproveRecovery(args: MethodArgs<'arc58_approveRecovery()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_approveRecovery()void'>]>
 
   /**
-   * Returns the smart contract's global state wrapped in a strongly typed accessor with options to format the stored value
+   * Calls the arc58_revokeRecoveryApproval()void ABI method.
+   *
+   * Revoke the sender's approval of the pending recovery. Must be called by a guardian that approved it.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  public async getGlobalState(): Promise<AbstractedAccount['state']['global']> {
-    const state = await this.appClient.getGlobalState()
-    return {
-      get a() {
-        return AbstractedAccountClient.getBinaryState(state, 'a')
-      },
-      get c() {
-        return AbstractedAccountClient.getBinaryState(state, 'c')
-      },
-    }
-  }
+  arc58RevokeRecoveryApproval(args: MethodArgs<'arc58_revokeRecoveryApproval()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_revokeRecoveryApproval()void'>]>
 
-  public compose(): AbstractedAccountComposer {
-    const client = this
-    const atc = new AtomicTransactionComposer()
-    let promiseChain:Promise<unknown> = Promise.resolve()
-    const resultMappers: Array<undefined | ((x: any) => any)> = []
-    return {
-      arc58ChangeAdmin(args: MethodArgs<'arc58_changeAdmin(address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58ChangeAdmin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58GetAdmin(args: MethodArgs<'arc58_getAdmin()address'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58GetAdmin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58VerifyAuthAddr(args: MethodArgs<'arc58_verifyAuthAddr()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58VerifyAuthAddr(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58RekeyTo(args: MethodArgs<'arc58_rekeyTo(address,bool)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58RekeyTo(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58RekeyToPlugin(args: MethodArgs<'arc58_rekeyToPlugin(uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58RekeyToPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58RekeyToNamedPlugin(args: MethodArgs<'arc58_rekeyToNamedPlugin(string)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58RekeyToNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58AddPlugin(args: MethodArgs<'arc58_addPlugin(uint64,address,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58AddPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58RemovePlugin(args: MethodArgs<'arc58_removePlugin(uint64,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58RemovePlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58AddNamedPlugin(args: MethodArgs<'arc58_addNamedPlugin(string,uint64,address,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58AddNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      arc58RemoveNamedPlugin(args: MethodArgs<'arc58_removeNamedPlugin(string)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.arc58RemoveNamedPlugin(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      clearState(args?: BareCallArgs & AppClientComposeCallCoreParams & CoreAppCallArgs) {
-        promiseChain = promiseChain.then(() => client.clearState({...args, sendParams: {...args?.sendParams, skipSending: true, atc}}))
-        resultMappers.push(undefined)
-        return this
-      },
-      addTransaction(txn: TransactionWithSigner | TransactionToSign | Transaction | Promise<SendTransactionResult>, defaultSender?: SendTransactionFrom) {
-        promiseChain = promiseChain.then(async () => atc.addTransaction(await algokit.getTransactionWithSigner(txn, defaultSender ?? client.sender)))
-        return this
-      },
-      async atc() {
-        await promiseChain
-        return atc
-      },
-      async simulate(options?: SimulateOptions) {
-        await promiseChain
-        const result = await atc.simulate(client.algod, new modelsv2.SimulateRequest({ txnGroups: [], ...options }))
-        return {
-          ...result,
-          returns: result.methodResults?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val.returnValue) : val.returnValue)
-        }
-      },
-      async execute(sendParams?: AppClientComposeExecuteParams) {
-        await promiseChain
-        const result = await algokit.sendAtomicTransactionComposer({ atc, sendParams }, client.algod)
-        return {
-          ...result,
-          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val.returnValue) : val.returnValue)
-        }
-      }
-    } as unknown as AbstractedAccountComposer
-  }
-}
-export type AbstractedAccountComposer<TReturns extends [...any[]] = []> = {
   /**
-   * Calls the arc58_changeAdmin(address)void ABI method.
+   * Calls the arc58_cancelRecovery()void ABI method.
    *
-   * Attempt to change the admin for this app. Some implementations MAY not support this.
+   * Cancel the pending recovery
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58ChangeAdmin(args: MethodArgs<'arc58_changeAdmin(address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_changeAdmin(address)void'>]>
+  arc58CancelRecovery(args: MethodArgs<'arc58_cancelRecovery()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_cancelRecovery()void'>]>
 
   /**
-   * Calls the arc58_getAdmin()address ABI method.
+   * Calls the arc58_finalizeRecovery()void ABI method.
    *
-   * Get the admin of this app. This method SHOULD always be used rather than reading directly from statebecause different implementations may have different ways of determining the admin.
+   * Replace the admin with the one from the pending recovery once it has enough approvals and the delay has passed.Can be called by anyone.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58GetAdmin(args: MethodArgs<'arc58_getAdmin()address'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_getAdmin()address'>]>
+  arc58FinalizeRecovery(args: MethodArgs<'arc58_finalizeRecovery()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_finalizeRecovery()void'>]>
 
   /**
-   * Calls the arc58_verifyAuthAddr()void ABI method.
+   * Calls the arc58_setPauseGuardian(address)void ABI method.
    *
-   * Verify the abstracted account is rekeyed to this app
+   * Set the address that can pause the plugins in addition to the admin
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58VerifyAuthAddr(args: MethodArgs<'arc58_verifyAuthAddr()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_verifyAuthAddr()void'>]>
+  arc58SetPauseGuardian(args: MethodArgs<'arc58_setPauseGuardian(address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_setPauseGuardian(address)void'>]>
 
   /**
-   * Calls the arc58_rekeyTo(address,bool)void ABI method.
+   * Calls the arc58_pause()void ABI method.
    *
-   * Rekey the abstracted account to another address. Primarily useful for rekeying to an EOA.
+   * Stop every plugin from being used until the admin unpauses them. Can be called by the admin or the pause guardian.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58RekeyTo(args: MethodArgs<'arc58_rekeyTo(address,bool)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_rekeyTo(address,bool)void'>]>
+  arc58Pause(args: MethodArgs<'arc58_pause()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_pause()void'>]>
 
   /**
-   * Calls the arc58_rekeyToPlugin(uint64)void ABI method.
+   * Calls the arc58_unpause()void ABI method.
    *
-   * Temporarily rekey to an approved plugin app address
+   * Let the plugins be used again
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58RekeyToPlugin(args: MethodArgs<'arc58_rekeyToPlugin(uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_rekeyToPlugin(uint64)void'>]>
+  arc58Unpause(args: MethodArgs<'arc58_unpause()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_unpause()void'>]>
 
   /**
-   * Calls the arc58_rekeyToNamedPlugin(string)void ABI method.
+   * Calls the arc58_grantRole(address,bool,bool,uint64,pay)void ABI method.
    *
-   * Temporarily rekey to a named plugin app address
+   * Give an address a role that lets it manage plugins without being the admin.Replaces any existing role of the address.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58RekeyToNamedPlugin(args: MethodArgs<'arc58_rekeyToNamedPlugin(string)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_rekeyToNamedPlugin(string)void'>]>
+  arc58GrantRole(args: MethodArgs<'arc58_grantRole(address,bool,bool,uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_grantRole(address,bool,bool,uint64,pay)void'>]>
 
   /**
-   * Calls the arc58_addPlugin(uint64,address,uint64)void ABI method.
+   * Calls the arc58_revokeRole(address,address)void ABI method.
    *
-   * Add an app to the list of approved plugins
+   * Remove the role of an address
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58AddPlugin(args: MethodArgs<'arc58_addPlugin(uint64,address,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_addPlugin(uint64,address,uint64)void'>]>
+  arc58RevokeRole(args: MethodArgs<'arc58_revokeRole(address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_revokeRole(address,address)void'>]>
 
   /**
-   * Calls the arc58_removePlugin(uint64,address)void ABI method.
+   * Calls the arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void ABI method.
    *
-   * Remove an app from the list of approved plugins
+   * Add a session key that can use the given plugins until it expires. Each plugin is approved for the session keyas the allowed caller and its approval program is pinned, so the boxes for those permissions (and their spending limits) must be referenced.Like any new permission, they can only be used once the plugin delay has passed.
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58RemovePlugin(args: MethodArgs<'arc58_removePlugin(uint64,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removePlugin(uint64,address)void'>]>
+  arc58AddSessionKey(args: MethodArgs<'arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_addSessionKey(address,uint64,uint64[],uint64,pay)void'>]>
 
   /**
-   * Calls the arc58_addNamedPlugin(string,uint64,address,uint64)void ABI method.
+   * Calls the arc58_removeSessionKey(address,address)void ABI method.
    *
-   * Add a named plugin
+   * Remove a session key along with the plugin permissions and spending limits that were added for it
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58AddNamedPlugin(args: MethodArgs<'arc58_addNamedPlugin(string,uint64,address,uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_addNamedPlugin(string,uint64,address,uint64)void'>]>
+  arc58RemoveSessionKey(args: MethodArgs<'arc58_removeSessionKey(address,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removeSessionKey(address,address)void'>]>
 
   /**
-   * Calls the arc58_removeNamedPlugin(string)void ABI method.
+   * Calls the arc58_revokeAllSessionKeys()void ABI method.
    *
-   * Remove a named plugin
+   * Revoke every session key that has been added so far
    *
    * @param args The arguments for the contract call
    * @param params Any additional parameters for the call
    * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
    */
-  arc58RemoveNamedPlugin(args: MethodArgs<'arc58_removeNamedPlugin(string)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_removeNamedPlugin(string)void'>]>
+  arc58RevokeAllSessionKeys(args: MethodArgs<'arc58_revokeAllSessionKeys()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AbstractedAccountComposer<[...TReturns, MethodReturn<'arc58_revokeAllSessionKeys()void'>]>
 
   /**
    * Makes a clear_state call to an existing instance of the AbstractedAccount smart contract.
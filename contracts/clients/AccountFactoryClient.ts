@@ -0,0 +1,1010 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^2
+ */
+import * as algokit from '@algorandfoundation/algokit-utils'
+import type {
+  ABIAppCallArg,
+  AppCallTransactionResult,
+  AppCallTransactionResultOfType,
+  AppCompilationResult,
+  AppReference,
+  AppState,
+  CoreAppCallArgs,
+  RawAppCallArgs,
+  TealTemplateParams,
+} from '@algorandfoundation/algokit-utils/types/app'
+import type {
+  AppClientCallCoreParams,
+  AppClientCompilationParams,
+  AppClientDeployCoreParams,
+  AppDetails,
+  ApplicationClient,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import type { AppSpec } from '@algorandfoundation/algokit-utils/types/app-spec'
+import type { SendTransactionResult, TransactionToSign, SendTransactionFrom, SendTransactionParams } from '@algorandfoundation/algokit-utils/types/transaction'
+import type { ABIResult, TransactionWithSigner } from 'algosdk'
+import { Algodv2, OnApplicationComplete, Transaction, AtomicTransactionComposer, modelsv2 } from 'algosdk'
+export const APP_SPEC: AppSpec = {
+  "hints": {
+    "createApplication()void": {
+      "call_config": {
+        "no_op": "CREATE"
+      }
+    },
+    "initProgram(uint64)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "writeProgram(uint64,byte[])void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "setStandardPlugins(uint64[])void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "finalize()void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "createAccount(pay)uint64": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "installStandardPlugins(uint64,pay)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "getAccounts(address)uint64[]": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    }
+  },
+  "bare_call_config": {
+    "no_op": "NEVER",
+    "opt_in": "NEVER",
+    "close_out": "NEVER",
+    "update_application": "NEVER",
+    "delete_application": "NEVER"
+  },
+  "schema": {
+    "local": {
+      "declared": {},
+      "reserved": {}
+    },
+    "global": {
+      "declared": {
+        "finalized": {
+          "type": "bytes",
+          "key": "f"
+        },
+        "standardPlugins": {
+          "type": "bytes",
+          "key": "sp"
+        }
+      },
+      "reserved": {}
+    }
+  },
+  "state": {
+    "global": {
+      "num_byte_slices": 2,
+      "num_uints": 0
+    },
+    "local": {
+      "num_byte_slices": 0,
+      "num_uints": 0
+    }
+  },
+  "source": {
+    "approval": "I3ByYWdtYSB2ZXJzaW9uIDEwCgovLyBUaGlzIFRFQUwgd2FzIGdlbmVyYXRlZCBieSBURUFMU2NyaXB0IHYwLjkwLjIKLy8gaHR0cHM6Ly9naXRodWIuY29tL2FsZ29yYW5kZm91bmRhdGlvbi9URUFMU2NyaXB0CgovLyBUaGlzIGNvbnRyYWN0IGlzIGNvbXBsaWFudCB3aXRoIGFuZC9vciBpbXBsZW1lbnRzIHRoZSBmb2xsb3dpbmcgQVJDczogWyBBUkM0IF0KCi8vIFRoZSBmb2xsb3dpbmcgdGVuIGxpbmVzIG9mIFRFQUwgaGFuZGxlIGluaXRpYWwgcHJvZ3JhbSBmbG93Ci8vIFRoaXMgcGF0dGVybiBpcyB1c2VkIHRvIG1ha2UgaXQgZWFzeSBmb3IgYW55b25lIHRvIHBhcnNlIHRoZSBzdGFydCBvZiB0aGUgcHJvZ3JhbSBhbmQgZGV0ZXJtaW5lIGlmIGEgc3BlY2lmaWMgYWN0aW9uIGlzIGFsbG93ZWQKLy8gSGVyZSwgYWN0aW9uIHJlZmVycyB0byB0aGUgT25Db21wbGV0ZSBpbiBjb21iaW5hdGlvbiB3aXRoIHdoZXRoZXIgdGhlIGFwcCBpcyBiZWluZyBjcmVhdGVkIG9yIGNhbGxlZAovLyBFdmVyeSBwb3NzaWJsZSBhY3Rpb24gZm9yIHRoaXMgY29udHJhY3QgaXMgcmVwcmVzZW50ZWQgaW4gdGhlIHN3aXRjaCBzdGF0ZW1lbnQKLy8gSWYgdGhlIGFjdGlvbiBpcyBub3QgaW1wbGVtZW50ZWQgaW4gdGhlIGNvbnRyYWN0LCBpdHMgcmVzcGVjdGl2ZSBicmFuY2ggd2lsbCBiZSAiKk5PVF9JTVBMRU1FTlRFRCIgd2hpY2gganVzdCBjb250YWlucyAiZXJyIgp0eG4gQXBwbGljYXRpb25JRAohCmludCA2CioKdHhuIE9uQ29tcGxldGlvbgorCnN3aXRjaCAqY2FsbF9Ob09wICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVEICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqY3JlYXRlX05vT3AgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVEICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVECgoqTk9UX0lNUExFTUVOVEVEOgoJZXJyCgovLyB2ZXJpZnlDYW5Db25maWd1cmUoKTogdm9pZAovLwovLyBWZXJpZnkgdGhlIHNlbmRlciBpcyB0aGUgY3JlYXRvciBvZiB0aGUgZmFjdG9yeSBhbmQgdGhlIGZhY3RvcnkgaXMgbm90IGZpbmFsaXplZCB5ZXQKdmVyaWZ5Q2FuQ29uZmlndXJlOgoJcHJvdG8gMCAwCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjQ0CgkvLyB2ZXJpZnlBcHBDYWxsVHhuKHRoaXMudHhuLCB7IHNlbmRlcjogZ2xvYmFscy5jcmVhdG9yQWRkcmVzcyB9KQoJLy8gdmVyaWZ5IHNlbmRlcgoJdHhuIFNlbmRlcgoJZ2xvYmFsIENyZWF0b3JBZGRyZXNzCgk9PQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjQ1CgkvLyBhc3NlcnQoIXRoaXMuZmluYWxpemVkLnZhbHVlKQoJYnl0ZSAweDY2IC8vICJmIgoJYXBwX2dsb2JhbF9nZXQKCWludCAwCglnZXRiaXQKCSEKCWFzc2VydAoJcmV0c3ViCgovLyBjcmVhdGVBcHBsaWNhdGlvbigpdm9pZAoqYWJpX3JvdXRlX2NyZWF0ZUFwcGxpY2F0aW9uOgoJLy8gZXhlY3V0ZSBjcmVhdGVBcHBsaWNhdGlvbigpdm9pZAoJY2FsbHN1YiBjcmVhdGVBcHBsaWNhdGlvbgoJaW50IDEKCXJldHVybgoKLy8gY3JlYXRlQXBwbGljYXRpb24oKTogdm9pZApjcmVhdGVBcHBsaWNhdGlvbjoKCXByb3RvIDAgMAoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czo0OQoJLy8gdGhpcy5maW5hbGl6ZWQudmFsdWUgPSBmYWxzZQoJYnl0ZSAweDY2IC8vICJmIgoJaW50IDAKCWJ5dGUgMHgwMAoJaW50IDAKCXVuY292ZXIgMgoJc2V0Yml0CglhcHBfZ2xvYmFsX3B1dAoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czo1MAoJLy8gdGhpcy5zdGFuZGFyZFBsdWdpbnMudmFsdWUgPSBbXQoJYnl0ZSAweDczNzAgLy8gInNwIgoJYnl0ZSAweDAwMDAKCWFwcF9nbG9iYWxfcHV0CglyZXRzdWIKCi8vIGluaXRQcm9ncmFtKHVpbnQ2NCl2b2lkCiphYmlfcm91dGVfaW5pdFByb2dyYW06CgkvLyBzaXplOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIGluaXRQcm9ncmFtKHVpbnQ2NCl2b2lkCgljYWxsc3ViIGluaXRQcm9ncmFtCglpbnQgMQoJcmV0dXJuCgovLyBpbml0UHJvZ3JhbShzaXplOiB1aW50NjQpOiB2b2lkCi8vCi8vIENyZWF0ZSB0aGUgYm94IHRoZSBhcHByb3ZhbCBwcm9ncmFtIGlzIHVwbG9hZGVkIHRvLiBUaGUgZmFjdG9yeSBtdXN0IGJlIGZ1bmRlZCB0byBjb3ZlciB0aGUgTUJSIG9mIHRoZSBib3guCi8vCi8vIEBwYXJhbSBzaXplIFRoZSBsZW5ndGggb2YgdGhlIGFwcHJvdmFsIHByb2dyYW0KaW5pdFByb2dyYW06Cglwcm90byAxIDAKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6NTkKCS8vIHRoaXMudmVyaWZ5Q2FuQ29uZmlndXJlKCkKCWNhbGxzdWIgdmVyaWZ5Q2FuQ29uZmlndXJlCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjYwCgkvLyB0aGlzLnByb2dyYW0uY3JlYXRlKHNpemUpCglieXRlIDB4NzA3MjZmNjc3MjYxNmQgLy8gInByb2dyYW0iCglmcmFtZV9kaWcgLTEgLy8gc2l6ZTogdWludDY0Cglib3hfY3JlYXRlCglwb3AKCXJldHN1YgoKLy8gd3JpdGVQcm9ncmFtKHVpbnQ2NCxieXRlW10pdm9pZAoqYWJpX3JvdXRlX3dyaXRlUHJvZ3JhbToKCS8vIGRhdGE6IGJ5dGVbXQoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMgoJZXh0cmFjdCAyIDAKCgkvLyBvZmZzZXQ6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJYnRvaQoKCS8vIGV4ZWN1dGUgd3JpdGVQcm9ncmFtKHVpbnQ2NCxieXRlW10pdm9pZAoJY2FsbHN1YiB3cml0ZVByb2dyYW0KCWludCAxCglyZXR1cm4KCi8vIHdyaXRlUHJvZ3JhbShvZmZzZXQ6IHVpbnQ2NCwgZGF0YTogYnl0ZXMpOiB2b2lkCi8vCi8vIFVwbG9hZCBwYXJ0IG9mIHRoZSBhcHByb3ZhbCBwcm9ncmFtCi8vCi8vIEBwYXJhbSBvZmZzZXQgVGhlIGluZGV4IGluIHRoZSBwcm9ncmFtIHRoZSBkYXRhIHN0YXJ0cyBhdAovLyBAcGFyYW0gZGF0YSBUaGUgcGFydCBvZiB0aGUgcHJvZ3JhbQp3cml0ZVByb2dyYW06Cglwcm90byAyIDAKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6NzAKCS8vIHRoaXMudmVyaWZ5Q2FuQ29uZmlndXJlKCkKCWNhbGxzdWIgdmVyaWZ5Q2FuQ29uZmlndXJlCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjcxCgkvLyB0aGlzLnByb2dyYW0ucmVwbGFjZShvZmZzZXQsIGRhdGEpCglieXRlIDB4NzA3MjZmNjc3MjYxNmQgLy8gInByb2dyYW0iCglmcmFtZV9kaWcgLTEgLy8gb2Zmc2V0OiB1aW50NjQKCWZyYW1lX2RpZyAtMiAvLyBkYXRhOiBieXRlcwoJYm94X3JlcGxhY2UKCXJldHN1YgoKLy8gc2V0U3RhbmRhcmRQbHVnaW5zKHVpbnQ2NFtdKXZvaWQKKmFiaV9yb3V0ZV9zZXRTdGFuZGFyZFBsdWdpbnM6CgkvLyBwbHVnaW5zOiB1aW50NjRbXQoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJZXh0cmFjdCAyIDAKCgkvLyBleGVjdXRlIHNldFN0YW5kYXJkUGx1Z2lucyh1aW50NjRbXSl2b2lkCgljYWxsc3ViIHNldFN0YW5kYXJkUGx1Z2lucwoJaW50IDEKCXJldHVybgoKLy8gc2V0U3RhbmRhcmRQbHVnaW5zKHBsdWdpbnM6IEFwcElEW10pOiB2b2lkCi8vCi8vIFNldCB0aGUgcGx1Z2lucyB0aGF0IGFyZSBpbnN0YWxsZWQgb24gbmV3IGFjY291bnRzIHdoZW4gcmVxdWVzdGVkLiBFYWNoIGlzIGFsbG93ZWQgZm9yIGFsbCBjYWxsZXJzLCBmb3JldmVyLgovLwovLyBAcGFyYW0gcGx1Z2lucyBUaGUgcGx1Z2luIGFwcHMKc2V0U3RhbmRhcmRQbHVnaW5zOgoJcHJvdG8gMSAwCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjgwCgkvLyB0aGlzLnZlcmlmeUNhbkNvbmZpZ3VyZSgpCgljYWxsc3ViIHZlcmlmeUNhbkNvbmZpZ3VyZQoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czo4MQoJLy8gdGhpcy5zdGFuZGFyZFBsdWdpbnMudmFsdWUgPSBwbHVnaW5zCglieXRlIDB4NzM3MCAvLyAic3AiCglmcmFtZV9kaWcgLTEgLy8gcGx1Z2luczogQXBwSURbXQoJZHVwCglsZW4KCWludCA4CgkvCglpdG9iCglleHRyYWN0IDYgMgoJc3dhcAoJY29uY2F0CglhcHBfZ2xvYmFsX3B1dAoJcmV0c3ViCgovLyBmaW5hbGl6ZSgpdm9pZAoqYWJpX3JvdXRlX2ZpbmFsaXplOgoJLy8gZXhlY3V0ZSBmaW5hbGl6ZSgpdm9pZAoJY2FsbHN1YiBmaW5hbGl6ZQoJaW50IDEKCXJldHVybgoKLy8gZmluYWxpemUoKTogdm9pZAovLwovLyBMb2NrIHRoZSBwcm9ncmFtIGFuZCBzdGFuZGFyZCBwbHVnaW5zIHNvIGFjY291bnRzIGNhbiBiZSBkZXBsb3llZApmaW5hbGl6ZToKCXByb3RvIDAgMAoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czo4OAoJLy8gdGhpcy52ZXJpZnlDYW5Db25maWd1cmUoKQoJY2FsbHN1YiB2ZXJpZnlDYW5Db25maWd1cmUKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6ODkKCS8vIHRoaXMuZmluYWxpemVkLnZhbHVlID0gdHJ1ZQoJYnl0ZSAweDY2IC8vICJmIgoJaW50IDEKCWJ5dGUgMHgwMAoJaW50IDAKCXVuY292ZXIgMgoJc2V0Yml0CglhcHBfZ2xvYmFsX3B1dAoJcmV0c3ViCgovLyBjcmVhdGVBY2NvdW50KHBheSl1aW50NjQKKmFiaV9yb3V0ZV9jcmVhdGVBY2NvdW50OgoJLy8gVGhlIEFCSSByZXR1cm4gcHJlZml4CglieXRlIDB4MTUxZjdjNzUKCgkvLyBtYnJQYXltZW50OiBwYXkKCXR4biBHcm91cEluZGV4CglpbnQgMQoJLQoJZHVwCglndHhucyBUeXBlRW51bQoJaW50IHBheQoJPT0KCWFzc2VydAoKCS8vIGV4ZWN1dGUgY3JlYXRlQWNjb3VudChwYXkpdWludDY0CgljYWxsc3ViIGNyZWF0ZUFjY291bnQKCWl0b2IKCWNvbmNhdAoJbG9nCglpbnQgMQoJcmV0dXJuCgovLyBjcmVhdGVBY2NvdW50KG1iclBheW1lbnQ6IFBheVR4bik6IEFwcElECi8vCi8vIERlcGxveSBhbiBhYnN0cmFjdGVkIGFjY291bnQgZm9yIHRoZSBzZW5kZXIgYW5kIHJlY29yZCBpdCBpbiB0aGUgcmVnaXN0cnkuIFRoZSBmYWN0b3J5IGlzIHRoZSBhZG1pbiBvZiB0aGUgbmV3Ci8vIGFjY291bnQgdW50aWwgdGhlIHNlbmRlciBjYWxscyBhcmM1OF9hY2NlcHRBZG1pbiBvbiBpdCwgc28gdGhlIHN0YW5kYXJkIHBsdWdpbnMgY2FuIGJlIGluc3RhbGxlZCBiZWZvcmUgdGhlbi4KLy8KLy8gQHBhcmFtIG1iclBheW1lbnQgUGF5bWVudCB0byB0aGUgZmFjdG9yeSBjb3ZlcmluZyB0aGUgTUJSIG9mIHRoZSBhY2NvdW50IGFuZCB0aGUgZmFjdG9yeSdzIHJlY29yZHMgb2YgaXQKLy8gQHJldHVybnMgVGhlIGFwcCBJRCBvZiB0aGUgbmV3IGFjY291bnQKY3JlYXRlQWNjb3VudDoKCXByb3RvIDEgMQoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CglkdXAKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTAwCgkvLyBhc3NlcnQodGhpcy5maW5hbGl6ZWQudmFsdWUpCglieXRlIDB4NjYgLy8gImYiCglhcHBfZ2xvYmFsX2dldAoJaW50IDAKCWdldGJpdAoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjEwMQoJLy8gcHJlTUJSID0gdGhpcy5hcHAuYWRkcmVzcy5taW5CYWxhbmNlCglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJYWNjdF9wYXJhbXNfZ2V0IEFjY3RNaW5CYWxhbmNlCglwb3AKCWZyYW1lX2J1cnkgMCAvLyBwcmVNQlI6IHVpbnQ2NAoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxMDQKCS8vIHNlbmRNZXRob2RDYWxsPHR5cGVvZiBBYnN0cmFjdGVkQWNjb3VudC5wcm90b3R5cGUuY3JlYXRlQXBwbGljYXRpb24+KHsKCS8vICAgICAgIG1ldGhvZEFyZ3M6IFtnbG9iYWxzLnplcm9BZGRyZXNzLCB0aGlzLmFwcC5hZGRyZXNzLCBbXSwgMF0sCgkvLyAgICAgICBhcHByb3ZhbFByb2dyYW1QYWdlczogW3RoaXMucHJvZ3JhbS5leHRyYWN0KDAsIDQwOTYpLCB0aGlzLnByb2dyYW0uZXh0cmFjdCg0MDk2LCB0aGlzLnByb2dyYW0uc2l6ZSAtIDQwOTYpXSwKCS8vICAgICAgIGNsZWFyU3RhdGVQcm9ncmFtOiBDTEVBUl9QUk9HUkFNLAoJLy8gICAgICAgZ2xvYmFsTnVtVWludDogQWJzdHJhY3RlZEFjY291bnQuc2NoZW1hLmdsb2JhbC5udW1VaW50LAoJLy8gICAgICAgZ2xvYmFsTnVtQnl0ZVNsaWNlOiBBYnN0cmFjdGVkQWNjb3VudC5zY2hlbWEuZ2xvYmFsLm51bUJ5dGVTbGljZSwKCS8vICAgICAgIGV4dHJhUHJvZ3JhbVBhZ2VzOiAzLAoJLy8gICAgIH0pCglpdHhuX2JlZ2luCglpbnQgYXBwbAoJaXR4bl9maWVsZCBUeXBlRW51bQoJbWV0aG9kICJjcmVhdGVBcHBsaWNhdGlvbihhZGRyZXNzLGFkZHJlc3MsYWRkcmVzc1tdLHVpbnQ2NCl2b2lkIgoJaXR4bl9maWVsZCBBcHBsaWNhdGlvbkFyZ3MKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTA1CgkvLyBtZXRob2RBcmdzOiBbZ2xvYmFscy56ZXJvQWRkcmVzcywgdGhpcy5hcHAuYWRkcmVzcywgW10sIDBdCglnbG9iYWwgWmVyb0FkZHJlc3MKCWl0eG5fZmllbGQgQXBwbGljYXRpb25BcmdzCglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJaXR4bl9maWVsZCBBcHBsaWNhdGlvbkFyZ3MKCWJ5dGUgMHgwMDAwCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWl0eG5fZmllbGQgQXBwbGljYXRpb25BcmdzCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjEwNgoJLy8gYXBwcm92YWxQcm9ncmFtUGFnZXM6IFt0aGlzLnByb2dyYW0uZXh0cmFjdCgwLCA0MDk2KSwgdGhpcy5wcm9ncmFtLmV4dHJhY3QoNDA5NiwgdGhpcy5wcm9ncmFtLnNpemUgLSA0MDk2KV0KCWJ5dGUgMHg3MDcyNmY2NzcyNjE2ZCAvLyAicHJvZ3JhbSIKCWludCAwCglpbnQgNDA5NgoJYm94X2V4dHJhY3QKCWl0eG5fZmllbGQgQXBwcm92YWxQcm9ncmFtUGFnZXMKCWJ5dGUgMHg3MDcyNmY2NzcyNjE2ZCAvLyAicHJvZ3JhbSIKCWludCA0MDk2CglieXRlIDB4NzA3MjZmNjc3MjYxNmQgLy8gInByb2dyYW0iCglib3hfbGVuCglhc3NlcnQKCWludCA0MDk2CgktCglib3hfZXh0cmFjdAoJaXR4bl9maWVsZCBBcHByb3ZhbFByb2dyYW1QYWdlcwoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxMDcKCS8vIGNsZWFyU3RhdGVQcm9ncmFtOiBDTEVBUl9QUk9HUkFNCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTMKCS8vIGhleCgnMHgwYScpCglieXRlIDB4MGEKCWl0eG5fZmllbGQgQ2xlYXJTdGF0ZVByb2dyYW0KCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTA4CgkvLyBnbG9iYWxOdW1VaW50OiBBYnN0cmFjdGVkQWNjb3VudC5zY2hlbWEuZ2xvYmFsLm51bVVpbnQKCWludCAxMwoJaXR4bl9maWVsZCBHbG9iYWxOdW1VaW50CgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjEwOQoJLy8gZ2xvYmFsTnVtQnl0ZVNsaWNlOiBBYnN0cmFjdGVkQWNjb3VudC5zY2hlbWEuZ2xvYmFsLm51bUJ5dGVTbGljZQoJaW50IDkKCWl0eG5fZmllbGQgR2xvYmFsTnVtQnl0ZVNsaWNlCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjExMAoJLy8gZXh0cmFQcm9ncmFtUGFnZXM6IDMKCWludCAzCglpdHhuX2ZpZWxkIEV4dHJhUHJvZ3JhbVBhZ2VzCgoJLy8gRmVlIGZpZWxkIG5vdCBzZXQsIGRlZmF1bHRpbmcgdG8gMAoJaW50IDAKCWl0eG5fZmllbGQgRmVlCgoJLy8gU3VibWl0IGlubmVyIHRyYW5zYWN0aW9uCglpdHhuX3N1Ym1pdAoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxMTIKCS8vIGFjY291bnQgPSB0aGlzLml0eG4uY3JlYXRlZEFwcGxpY2F0aW9uSUQKCWl0eG4gQ3JlYXRlZEFwcGxpY2F0aW9uSUQKCWZyYW1lX2J1cnkgMSAvLyBhY2NvdW50OiB1aW50NjQKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTE0CgkvLyBzZW5kUGF5bWVudCh7IHJlY2VpdmVyOiBhY2NvdW50LmFkZHJlc3MsIGFtb3VudDogQUNDT1VOVF9NQlIgfSkKCWl0eG5fYmVnaW4KCWludCBwYXkKCWl0eG5fZmllbGQgVHlwZUVudW0KCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTE0CgkvLyByZWNlaXZlcjogYWNjb3VudC5hZGRyZXNzCglmcmFtZV9kaWcgMSAvLyBhY2NvdW50OiB1aW50NjQKCWFwcF9wYXJhbXNfZ2V0IEFwcEFkZHJlc3MKCXBvcAoJaXR4bl9maWVsZCBSZWNlaXZlcgoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxMTQKCS8vIGFtb3VudDogQUNDT1VOVF9NQlIKCWludCAxMDAwMDAKCWl0eG5fZmllbGQgQW1vdW50CgoJLy8gRmVlIGZpZWxkIG5vdCBzZXQsIGRlZmF1bHRpbmcgdG8gMAoJaW50IDAKCWl0eG5fZmllbGQgRmVlCgoJLy8gU3VibWl0IGlubmVyIHRyYW5zYWN0aW9uCglpdHhuX3N1Ym1pdAoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxMTUKCS8vIHNlbmRNZXRob2RDYWxsPHR5cGVvZiBBYnN0cmFjdGVkQWNjb3VudC5wcm90b3R5cGUuYXJjNThfY2hhbmdlQWRtaW4+KHsKCS8vICAgICAgIGFwcGxpY2F0aW9uSUQ6IGFjY291bnQsCgkvLyAgICAgICBtZXRob2RBcmdzOiBbdGhpcy50eG4uc2VuZGVyLCAwXSwKCS8vICAgICB9KQoJaXR4bl9iZWdpbgoJaW50IGFwcGwKCWl0eG5fZmllbGQgVHlwZUVudW0KCW1ldGhvZCAiYXJjNThfY2hhbmdlQWRtaW4oYWRkcmVzcyx1aW50NjQpdm9pZCIKCWl0eG5fZmllbGQgQXBwbGljYXRpb25BcmdzCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjExNgoJLy8gYXBwbGljYXRpb25JRDogYWNjb3VudAoJZnJhbWVfZGlnIDEgLy8gYWNjb3VudDogdWludDY0CglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uSUQKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTE3CgkvLyBtZXRob2RBcmdzOiBbdGhpcy50eG4uc2VuZGVyLCAwXQoJdHhuIFNlbmRlcgoJaXR4bl9maWVsZCBBcHBsaWNhdGlvbkFyZ3MKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoKCS8vIEZlZSBmaWVsZCBub3Qgc2V0LCBkZWZhdWx0aW5nIHRvIDAKCWludCAwCglpdHhuX2ZpZWxkIEZlZQoKCS8vIFN1Ym1pdCBpbm5lciB0cmFuc2FjdGlvbgoJaXR4bl9zdWJtaXQKCgkvLyAqaWYwX2NvbmRpdGlvbgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjEyMAoJLy8gdGhpcy5hY2NvdW50cyh0aGlzLnR4bi5zZW5kZXIpLmV4aXN0cwoJYnl0ZSAweDYxIC8vICJhIgoJdHhuIFNlbmRlcgoJY29uY2F0Cglib3hfbGVuCglzd2FwCglwb3AKCWJ6ICppZjBfZWxzZQoKCS8vICppZjBfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjEyMQoJLy8gdGhpcy5hY2NvdW50cyh0aGlzLnR4bi5zZW5kZXIpLnZhbHVlLnB1c2goYWNjb3VudCkKCWJ5dGUgMHg2MSAvLyAiYSIKCXR4biBTZW5kZXIKCWNvbmNhdAoJaW50IDIKCWludCAwCglib3hfZXh0cmFjdAoJZnJhbWVfZGlnIDEgLy8gYWNjb3VudDogdWludDY0CglpdG9iCgljb25jYXQKCWJ5dGUgMHg2MSAvLyAiYSIKCXR4biBTZW5kZXIKCWNvbmNhdAoJZHVwCglib3hfZGVsCglwb3AKCXN3YXAKCWR1cAoJbGVuCglpbnQgOAoJLwoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJYm94X3B1dAoJYiAqaWYwX2VuZAoKKmlmMF9lbHNlOgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjEyMwoJLy8gdGhpcy5hY2NvdW50cyh0aGlzLnR4bi5zZW5kZXIpLnZhbHVlID0gW2FjY291bnRdCglieXRlIDB4NjEgLy8gImEiCgl0eG4gU2VuZGVyCgljb25jYXQKCWR1cAoJYm94X2RlbAoJcG9wCglmcmFtZV9kaWcgMSAvLyBhY2NvdW50OiB1aW50NjQKCWl0b2IKCWR1cAoJbGVuCglpbnQgOAoJLwoJaXRvYgoJZXh0cmFjdCA2IDIKCXN3YXAKCWNvbmNhdAoJYm94X3B1dAoKKmlmMF9lbmQ6CgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTI2CgkvLyB2ZXJpZnlQYXlUeG4obWJyUGF5bWVudCwgewoJLy8gICAgICAgcmVjZWl2ZXI6IHRoaXMuYXBwLmFkZHJlc3MsCgkvLyAgICAgICBhbW91bnQ6IHRoaXMuYXBwLmFkZHJlc3MubWluQmFsYW5jZSAtIHByZU1CUiArIEFDQ09VTlRfTUJSLAoJLy8gICAgIH0pCgkvLyB2ZXJpZnkgcmVjZWl2ZXIKCWZyYW1lX2RpZyAtMSAvLyBtYnJQYXltZW50OiBQYXlUeG4KCWd0eG5zIFJlY2VpdmVyCglnbG9iYWwgQ3VycmVudEFwcGxpY2F0aW9uQWRkcmVzcwoJPT0KCWFzc2VydAoKCS8vIHZlcmlmeSBhbW91bnQKCWZyYW1lX2RpZyAtMSAvLyBtYnJQYXltZW50OiBQYXlUeG4KCWd0eG5zIEFtb3VudAoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCWFjY3RfcGFyYW1zX2dldCBBY2N0TWluQmFsYW5jZQoJcG9wCglmcmFtZV9kaWcgMCAvLyBwcmVNQlI6IHVpbnQ2NAoJLQoJaW50IDEwMDAwMAoJKwoJPT0KCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxMzEKCS8vIHJldHVybiBhY2NvdW50OwoJZnJhbWVfZGlnIDEgLy8gYWNjb3VudDogdWludDY0CgoJLy8gc2V0IHRoZSBzdWJyb3V0aW5lIHJldHVybiB2YWx1ZQoJZnJhbWVfYnVyeSAwCgoJLy8gcG9wIGFsbCBsb2NhbCB2YXJpYWJsZXMgZnJvbSB0aGUgc3RhY2sKCXBvcG4gMQoJcmV0c3ViCgovLyBpbnN0YWxsU3RhbmRhcmRQbHVnaW5zKHVpbnQ2NCxwYXkpdm9pZAoqYWJpX3JvdXRlX2luc3RhbGxTdGFuZGFyZFBsdWdpbnM6CgkvLyBtYnJQYXltZW50OiBwYXkKCXR4biBHcm91cEluZGV4CglpbnQgMQoJLQoJZHVwCglndHhucyBUeXBlRW51bQoJaW50IHBheQoJPT0KCWFzc2VydAoKCS8vIGFjY291bnQ6IHVpbnQ2NAoJdHhuYSBBcHBsaWNhdGlvbkFyZ3MgMQoJYnRvaQoKCS8vIGV4ZWN1dGUgaW5zdGFsbFN0YW5kYXJkUGx1Z2lucyh1aW50NjQscGF5KXZvaWQKCWNhbGxzdWIgaW5zdGFsbFN0YW5kYXJkUGx1Z2lucwoJaW50IDEKCXJldHVybgoKLy8gaW5zdGFsbFN0YW5kYXJkUGx1Z2lucyhhY2NvdW50OiBBcHBJRCwgbWJyUGF5bWVudDogUGF5VHhuKTogdm9pZAovLwovLyBJbnN0YWxsIHRoZSBzdGFuZGFyZCBwbHVnaW5zIG9uIGFuIGFjY291bnQgZGVwbG95ZWQgYnkgdGhlIGZhY3RvcnkuIE11c3QgYmUgY2FsbGVkIGJ5IHRoZSBhY2NvdW50J3MgcGVuZGluZyBhZG1pbgovLyBiZWZvcmUgaXQgYWNjZXB0cyBiZWNvbWluZyB0aGUgYWRtaW4sIGllLiBpbiB0aGUgc2FtZSBncm91cCBhcyBpdHMgYXJjNThfYWNjZXB0QWRtaW4gY2FsbC4KLy8gRWFjaCBwbHVnaW4gaXMgYWxsb3dlZCBmb3IgYWxsIGNhbGxlcnMsIGZvcmV2ZXIuCi8vCi8vIEBwYXJhbSBhY2NvdW50IFRoZSBhY2NvdW50IGRlcGxveWVkIGJ5IGNyZWF0ZUFjY291bnQKLy8gQHBhcmFtIG1iclBheW1lbnQgUGF5bWVudCB0byB0aGUgZmFjdG9yeSBjb3ZlcmluZyB0aGUgTUJSIG9mIHRoZSBwbHVnaW4gYm94ZXMKaW5zdGFsbFN0YW5kYXJkUGx1Z2luczoKCXByb3RvIDIgMAoKCS8vIFB1c2ggZW1wdHkgYnl0ZXMgYWZ0ZXIgdGhlIGZyYW1lIHBvaW50ZXIgdG8gcmVzZXJ2ZSBzcGFjZSBmb3IgbG9jYWwgdmFyaWFibGVzCglieXRlIDB4CgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjE0MwoJLy8gYXNzZXJ0KGFjY291bnQuY3JlYXRvciA9PT0gdGhpcy5hcHAuYWRkcmVzcyAmJiAoYWNjb3VudC5nbG9iYWxTdGF0ZSgncGEnKSBhcyBBZGRyZXNzKSA9PT0gdGhpcy50eG4uc2VuZGVyKQoJZnJhbWVfZGlnIC0xIC8vIGFjY291bnQ6IEFwcElECglhcHBfcGFyYW1zX2dldCBBcHBDcmVhdG9yCglwb3AKCWdsb2JhbCBDdXJyZW50QXBwbGljYXRpb25BZGRyZXNzCgk9PQoJZHVwCglieiAqc2tpcF9hbmQwCglmcmFtZV9kaWcgLTEgLy8gYWNjb3VudDogQXBwSUQKCWJ5dGUgMHg3MDYxIC8vICJwYSIKCWFwcF9nbG9iYWxfZ2V0X2V4Cglhc3NlcnQKCXR4biBTZW5kZXIKCT09CgkmJgoKKnNraXBfYW5kMDoKCWFzc2VydAoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxNDYKCS8vIHZlcmlmeVBheVR4bihtYnJQYXltZW50LCB7IHJlY2VpdmVyOiB0aGlzLmFwcC5hZGRyZXNzLCBhbW91bnQ6IHBsdWdpbnMubGVuZ3RoICogUExVR0lOX01CUiB9KQoJLy8gdmVyaWZ5IHJlY2VpdmVyCglmcmFtZV9kaWcgLTIgLy8gbWJyUGF5bWVudDogUGF5VHhuCglndHhucyBSZWNlaXZlcgoJZ2xvYmFsIEN1cnJlbnRBcHBsaWNhdGlvbkFkZHJlc3MKCT09Cglhc3NlcnQKCgkvLyB2ZXJpZnkgYW1vdW50CglmcmFtZV9kaWcgLTIgLy8gbWJyUGF5bWVudDogUGF5VHhuCglndHhucyBBbW91bnQKCWJ5dGUgMHg3MzcwIC8vICJzcCIKCWFwcF9nbG9iYWxfZ2V0CglleHRyYWN0IDIgMAoJbGVuCglpbnQgOAoJLwoJaW50IDY5MzAwCgkqCgk9PQoJYXNzZXJ0CgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjE0OAoJLy8gZm9yIChsZXQgaSA9IDA7IGkgPCBwbHVnaW5zLmxlbmd0aDsgaSArPSAxKQoJaW50IDAKCWZyYW1lX2J1cnkgMCAvLyBpOiB1aW50NjQKCipmb3JfMDoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxNDgKCS8vIGkgPCBwbHVnaW5zLmxlbmd0aAoJZnJhbWVfZGlnIDAgLy8gaTogdWludDY0CglieXRlIDB4NzM3MCAvLyAic3AiCglhcHBfZ2xvYmFsX2dldAoJZXh0cmFjdCAyIDAKCWxlbgoJaW50IDgKCS8KCTwKCWJ6ICpmb3JfMF9lbmQKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTQ5CgkvLyBzZW5kTWV0aG9kQ2FsbDx0eXBlb2YgQWJzdHJhY3RlZEFjY291bnQucHJvdG90eXBlLmFyYzU4X2FkZFBsdWdpbj4oewoJLy8gICAgICAgICBhcHBsaWNhdGlvbklEOiBhY2NvdW50LAoJLy8gICAgICAgICBtZXRob2RBcmdzOiBbCgkvLyAgICAgICAgICAgcGx1Z2luc1tpXSwKCS8vICAgICAgICAgICBnbG9iYWxzLnplcm9BZGRyZXNzLAoJLy8gICAgICAgICAgIDAsCgkvLyAgICAgICAgICAgLy8gVGhlIG1heGltdW0gdWludDY0LCBzbyB0aGUgcGVybWlzc2lvbiBuZXZlciBleHBpcmVzCgkvLyAgICAgICAgICAgYnRvaShoZXgoJzB4ZmZmZmZmZmZmZmZmZmZmZicpKSwKCS8vICAgICAgICAgICBmYWxzZSwKCS8vICAgICAgICAgICAwLAoJLy8gICAgICAgICAgIDAsCgkvLyAgICAgICAgICAgW10sCgkvLyAgICAgICAgICAgeyByZWNlaXZlcjogYWNjb3VudC5hZGRyZXNzLCBhbW91bnQ6IFBMVUdJTl9NQlIgfSwKCS8vICAgICAgICAgXSwKCS8vICAgICAgIH0pCglpdHhuX2JlZ2luCglpbnQgcGF5CglpdHhuX2ZpZWxkIFR5cGVFbnVtCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjE2MQoJLy8gcmVjZWl2ZXI6IGFjY291bnQuYWRkcmVzcwoJZnJhbWVfZGlnIC0xIC8vIGFjY291bnQ6IEFwcElECglhcHBfcGFyYW1zX2dldCBBcHBBZGRyZXNzCglwb3AKCWl0eG5fZmllbGQgUmVjZWl2ZXIKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTYxCgkvLyBhbW91bnQ6IFBMVUdJTl9NQlIKCWludCA2OTMwMAoJaXR4bl9maWVsZCBBbW91bnQKCgkvLyBGZWUgZmllbGQgbm90IHNldCwgZGVmYXVsdGluZyB0byAwCglpbnQgMAoJaXR4bl9maWVsZCBGZWUKCWl0eG5fbmV4dAoJaW50IGFwcGwKCWl0eG5fZmllbGQgVHlwZUVudW0KCW1ldGhvZCAiYXJjNThfYWRkUGx1Z2luKHVpbnQ2NCxhZGRyZXNzLHVpbnQ2NCx1aW50NjQsYm9vbCx1aW50NjQsdWludDY0LGJ5dGVbNF1bXSxwYXkpdm9pZCIKCWl0eG5fZmllbGQgQXBwbGljYXRpb25BcmdzCgoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjE1MAoJLy8gYXBwbGljYXRpb25JRDogYWNjb3VudAoJZnJhbWVfZGlnIC0xIC8vIGFjY291bnQ6IEFwcElECglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uSUQKCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTUxCgkvLyBtZXRob2RBcmdzOiBbCgkvLyAgICAgICAgICAgcGx1Z2luc1tpXSwKCS8vICAgICAgICAgICBnbG9iYWxzLnplcm9BZGRyZXNzLAoJLy8gICAgICAgICAgIDAsCgkvLyAgICAgICAgICAgLy8gVGhlIG1heGltdW0gdWludDY0LCBzbyB0aGUgcGVybWlzc2lvbiBuZXZlciBleHBpcmVzCgkvLyAgICAgICAgICAgYnRvaShoZXgoJzB4ZmZmZmZmZmZmZmZmZmZmZicpKSwKCS8vICAgICAgICAgICBmYWxzZSwKCS8vICAgICAgICAgICAwLAoJLy8gICAgICAgICAgIDAsCgkvLyAgICAgICAgICAgW10sCgkvLyAgICAgICAgICAgeyByZWNlaXZlcjogYWNjb3VudC5hZGRyZXNzLCBhbW91bnQ6IFBMVUdJTl9NQlIgfSwKCS8vICAgICAgICAgXQoJYnl0ZSAweDczNzAgLy8gInNwIgoJYXBwX2dsb2JhbF9nZXQKCWV4dHJhY3QgMiAwCglzdG9yZSAyNTUgLy8gZnVsbCBhcnJheQoJaW50IDAgLy8gaW5pdGlhbCBvZmZzZXQKCWZyYW1lX2RpZyAwIC8vIGk6IHVpbnQ2NAoJaW50IDgKCSogLy8gYWNjICogdHlwZUxlbmd0aAoJKwoJbG9hZCAyNTUgLy8gZnVsbCBhcnJheQoJc3dhcAoJaW50IDgKCWV4dHJhY3QzCglidG9pCglpdG9iCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoJZ2xvYmFsIFplcm9BZGRyZXNzCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWl0eG5fZmllbGQgQXBwbGljYXRpb25BcmdzCglieXRlIDB4ZmZmZmZmZmZmZmZmZmZmZgoJaXR4bl9maWVsZCBBcHBsaWNhdGlvbkFyZ3MKCWludCAwCglieXRlIDB4MDAKCWludCAwCgl1bmNvdmVyIDIKCXNldGJpdAoJaXR4bl9maWVsZCBBcHBsaWNhdGlvbkFyZ3MKCWJ5dGUgMHgwMDAwMDAwMDAwMDAwMDAwCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoJYnl0ZSAweDAwMDAwMDAwMDAwMDAwMDAKCWl0eG5fZmllbGQgQXBwbGljYXRpb25BcmdzCglieXRlIDB4MDAwMAoJaXR4bl9maWVsZCBBcHBsaWNhdGlvbkFyZ3MKCgkvLyBGZWUgZmllbGQgbm90IHNldCwgZGVmYXVsdGluZyB0byAwCglpbnQgMAoJaXR4bl9maWVsZCBGZWUKCgkvLyBTdWJtaXQgaW5uZXIgdHJhbnNhY3Rpb24KCWl0eG5fc3VibWl0CgoqZm9yXzBfY29udGludWU6CgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTQ4CgkvLyBpICs9IDEKCWZyYW1lX2RpZyAwIC8vIGk6IHVpbnQ2NAoJaW50IDEKCSsKCWZyYW1lX2J1cnkgMCAvLyBpOiB1aW50NjQKCWIgKmZvcl8wCgoqZm9yXzBfZW5kOgoJcmV0c3ViCgovLyBnZXRBY2NvdW50cyhhZGRyZXNzKXVpbnQ2NFtdCiphYmlfcm91dGVfZ2V0QWNjb3VudHM6CgkvLyBUaGUgQUJJIHJldHVybiBwcmVmaXgKCWJ5dGUgMHgxNTFmN2M3NQoKCS8vIGFkbWluOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAxCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gZXhlY3V0ZSBnZXRBY2NvdW50cyhhZGRyZXNzKXVpbnQ2NFtdCgljYWxsc3ViIGdldEFjY291bnRzCglkdXAKCWxlbgoJaW50IDgKCS8KCWl0b2IKCWV4dHJhY3QgNiAyCglzd2FwCgljb25jYXQKCWNvbmNhdAoJbG9nCglpbnQgMQoJcmV0dXJuCgovLyBnZXRBY2NvdW50cyhhZG1pbjogQWRkcmVzcyk6IEFwcElEW10KLy8KLy8gR2V0IHRoZSBhYnN0cmFjdGVkIGFjY291bnRzIGRlcGxveWVkIGZvciBhbiBhZG1pbiwgaW4gdGhlIG9yZGVyIHRoZXkgd2VyZSBkZXBsb3llZAovLwovLyBAcGFyYW0gYWRtaW4gVGhlIGFkZHJlc3MgdGhhdCBjcmVhdGVkIHRoZSBhY2NvdW50cwpnZXRBY2NvdW50czoKCXByb3RvIDEgMQoKCS8vICppZjFfY29uZGl0aW9uCgkvLyBjb250cmFjdHMvYWNjb3VudF9mYWN0b3J5LmFsZ28udHM6MTc0CgkvLyAhdGhpcy5hY2NvdW50cyhhZG1pbikuZXhpc3RzCglieXRlIDB4NjEgLy8gImEiCglmcmFtZV9kaWcgLTEgLy8gYWRtaW46IEFkZHJlc3MKCWNvbmNhdAoJYm94X2xlbgoJc3dhcAoJcG9wCgkhCglieiAqaWYxX2VuZAoKCS8vICppZjFfY29uc2VxdWVudAoJLy8gY29udHJhY3RzL2FjY291bnRfZmFjdG9yeS5hbGdvLnRzOjE3NAoJLy8gcmV0dXJuIFtdOwoJYnl0ZSAweAoJcmV0c3ViCgoqaWYxX2VuZDoKCS8vIGNvbnRyYWN0cy9hY2NvdW50X2ZhY3RvcnkuYWxnby50czoxNzYKCS8vIHJldHVybiB0aGlzLmFjY291bnRzKGFkbWluKS52YWx1ZTsKCWJ5dGUgMHg2MSAvLyAiYSIKCWZyYW1lX2RpZyAtMSAvLyBhZG1pbjogQWRkcmVzcwoJY29uY2F0CglpbnQgMgoJaW50IDAKCWJveF9leHRyYWN0CglyZXRzdWIKCipjcmVhdGVfTm9PcDoKCW1ldGhvZCAiY3JlYXRlQXBwbGljYXRpb24oKXZvaWQiCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAwCgltYXRjaCAqYWJpX3JvdXRlX2NyZWF0ZUFwcGxpY2F0aW9uCgllcnIKCipjYWxsX05vT3A6CgltZXRob2QgImluaXRQcm9ncmFtKHVpbnQ2NCl2b2lkIgoJbWV0aG9kICJ3cml0ZVByb2dyYW0odWludDY0LGJ5dGVbXSl2b2lkIgoJbWV0aG9kICJzZXRTdGFuZGFyZFBsdWdpbnModWludDY0W10pdm9pZCIKCW1ldGhvZCAiZmluYWxpemUoKXZvaWQiCgltZXRob2QgImNyZWF0ZUFjY291bnQocGF5KXVpbnQ2NCIKCW1ldGhvZCAiaW5zdGFsbFN0YW5kYXJkUGx1Z2lucyh1aW50NjQscGF5KXZvaWQiCgltZXRob2QgImdldEFjY291bnRzKGFkZHJlc3MpdWludDY0W10iCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAwCgltYXRjaCAqYWJpX3JvdXRlX2luaXRQcm9ncmFtICphYmlfcm91dGVfd3JpdGVQcm9ncmFtICphYmlfcm91dGVfc2V0U3RhbmRhcmRQbHVnaW5zICphYmlfcm91dGVfZmluYWxpemUgKmFiaV9yb3V0ZV9jcmVhdGVBY2NvdW50ICphYmlfcm91dGVfaW5zdGFsbFN0YW5kYXJkUGx1Z2lucyAqYWJpX3JvdXRlX2dldEFjY291bnRzCgllcnI=",
+    "clear": "I3ByYWdtYSB2ZXJzaW9uIDEw"
+  },
+  "contract": {
+    "name": "AccountFactory",
+    "desc": "",
+    "methods": [
+      {
+        "name": "createApplication",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "initProgram",
+        "desc": "Create the box the approval program is uploaded to. The factory must be funded to cover the MBR of the box.",
+        "args": [
+          {
+            "name": "size",
+            "type": "uint64",
+            "desc": "The length of the approval program"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "writeProgram",
+        "desc": "Upload part of the approval program",
+        "args": [
+          {
+            "name": "offset",
+            "type": "uint64",
+            "desc": "The index in the program the data starts at"
+          },
+          {
+            "name": "data",
+            "type": "byte[]",
+            "desc": "The part of the program"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "setStandardPlugins",
+        "desc": "Set the plugins that are installed on new accounts when requested. Each is allowed for all callers, forever.",
+        "args": [
+          {
+            "name": "plugins",
+            "type": "uint64[]",
+            "desc": "The plugin apps"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "finalize",
+        "desc": "Lock the program and standard plugins so accounts can be deployed",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "createAccount",
+        "desc": "Deploy an abstracted account for the sender and record it in the registry. The factory is the admin of the newaccount until the sender calls arc58_acceptAdmin on it, so the standard plugins can be installed before then.",
+        "args": [
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "Payment to the factory covering the MBR of the account and the factory's records of it"
+          }
+        ],
+        "returns": {
+          "type": "uint64",
+          "desc": "The app ID of the new account"
+        }
+      },
+      {
+        "name": "installStandardPlugins",
+        "desc": "Install the standard plugins on an account deployed by the factory. Must be called by the account's pending adminbefore it accepts becoming the admin, ie. in the same group as its arc58_acceptAdmin call.Each plugin is allowed for all callers, forever.",
+        "args": [
+          {
+            "name": "account",
+            "type": "uint64",
+            "desc": "The account deployed by createAccount"
+          },
+          {
+            "name": "mbrPayment",
+            "type": "pay",
+            "desc": "Payment to the factory covering the MBR of the plugin boxes"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "getAccounts",
+        "desc": "Get the abstracted accounts deployed for an admin, in the order they were deployed",
+        "readonly": true,
+        "args": [
+          {
+            "name": "admin",
+            "type": "address",
+            "desc": "The address that created the accounts"
+          }
+        ],
+        "returns": {
+          "type": "uint64[]"
+        }
+      }
+    ]
+  }
+}
+
+/**
+ * Defines an onCompletionAction of 'no_op'
+ */
+export type OnCompleteNoOp =  { onCompleteAction?: 'no_op' | OnApplicationComplete.NoOpOC }
+/**
+ * Defines an onCompletionAction of 'opt_in'
+ */
+export type OnCompleteOptIn =  { onCompleteAction: 'opt_in' | OnApplicationComplete.OptInOC }
+/**
+ * Defines an onCompletionAction of 'close_out'
+ */
+export type OnCompleteCloseOut =  { onCompleteAction: 'close_out' | OnApplicationComplete.CloseOutOC }
+/**
+ * Defines an onCompletionAction of 'delete_application'
+ */
+export type OnCompleteDelApp =  { onCompleteAction: 'delete_application' | OnApplicationComplete.DeleteApplicationOC }
+/**
+ * Defines an onCompletionAction of 'update_application'
+ */
+export type OnCompleteUpdApp =  { onCompleteAction: 'update_application' | OnApplicationComplete.UpdateApplicationOC }
+/**
+ * A state record containing a single unsigned integer
+ */
+export type IntegerState = {
+  /**
+   * Gets the state value as a BigInt.
+   */
+  asBigInt(): bigint
+  /**
+   * Gets the state value as a number.
+   */
+  asNumber(): number
+}
+/**
+ * A state record containing binary data
+ */
+export type BinaryState = {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string
+}
+
+export type AppCreateCallTransactionResult = AppCallTransactionResult & Partial<AppCompilationResult> & AppReference
+export type AppUpdateCallTransactionResult = AppCallTransactionResult & Partial<AppCompilationResult>
+
+export type AppClientComposeCallCoreParams = Omit<AppClientCallCoreParams, 'sendParams'> & {
+  sendParams?: Omit<SendTransactionParams, 'skipSending' | 'atc' | 'skipWaiting' | 'maxRoundsToWaitForConfirmation' | 'populateAppCallResources'>
+}
+export type AppClientComposeExecuteParams = Pick<SendTransactionParams, 'skipWaiting' | 'maxRoundsToWaitForConfirmation' | 'populateAppCallResources' | 'suppressLog'>
+
+/**
+ * Defines the types of available calls and state of the AccountFactory smart contract.
+ */
+export type AccountFactory = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'initProgram(uint64)void' | 'initProgram', {
+      argsObj: {
+        /**
+         * The length of the approval program
+         */
+        size: bigint | number
+      }
+      argsTuple: [size: bigint | number]
+      returns: void
+    }>
+    & Record<'writeProgram(uint64,byte[])void' | 'writeProgram', {
+      argsObj: {
+        /**
+         * The index in the program the data starts at
+         */
+        offset: bigint | number
+        /**
+         * The part of the program
+         */
+        data: Uint8Array
+      }
+      argsTuple: [offset: bigint | number, data: Uint8Array]
+      returns: void
+    }>
+    & Record<'setStandardPlugins(uint64[])void' | 'setStandardPlugins', {
+      argsObj: {
+        /**
+         * The plugin apps
+         */
+        plugins: bigint | number[]
+      }
+      argsTuple: [plugins: bigint | number[]]
+      returns: void
+    }>
+    & Record<'finalize()void' | 'finalize', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+    & Record<'createAccount(pay)uint64' | 'createAccount', {
+      argsObj: {
+        /**
+         * Payment to the factory covering the MBR of the account and the factory's records of it
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      /**
+       * The app ID of the new account
+       */
+      returns: bigint
+    }>
+    & Record<'installStandardPlugins(uint64,pay)void' | 'installStandardPlugins', {
+      argsObj: {
+        /**
+         * The account deployed by createAccount
+         */
+        account: bigint | number
+        /**
+         * Payment to the factory covering the MBR of the plugin boxes
+         */
+        mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>
+      }
+      argsTuple: [account: bigint | number, mbrPayment: TransactionToSign | Transaction | Promise<SendTransactionResult>]
+      returns: void
+    }>
+    & Record<'getAccounts(address)uint64[]' | 'getAccounts', {
+      argsObj: {
+        /**
+         * The address that created the accounts
+         */
+        admin: string
+      }
+      argsTuple: [admin: string]
+      returns: bigint[]
+    }>
+  /**
+   * Defines the shape of the global and local state of the application.
+   */
+  state: {
+    global: {
+      'f'?: BinaryState
+      'sp'?: BinaryState
+    }
+  }
+}
+/**
+ * Defines the possible abi call signatures
+ */
+export type AccountFactorySig = keyof AccountFactory['methods']
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract. Where TSignature is undefined, a bare call is made
+ */
+export type TypedCallParams<TSignature extends AccountFactorySig | undefined> = {
+  method: TSignature
+  methodArgs: TSignature extends undefined ? undefined : Array<ABIAppCallArg | undefined>
+} & AppClientCallCoreParams & CoreAppCallArgs
+/**
+ * Defines the arguments required for a bare call
+ */
+export type BareCallArgs = Omit<RawAppCallArgs, keyof CoreAppCallArgs>
+/**
+ * Maps a method signature from the AccountFactory smart contract to the method's arguments in either tuple of struct form
+ */
+export type MethodArgs<TSignature extends AccountFactorySig> = AccountFactory['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the AccountFactory smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends AccountFactorySig> = AccountFactory['methods'][TSignature]['returns']
+
+/**
+ * A factory for available 'create' calls
+ */
+export type AccountFactoryCreateCalls = (typeof AccountFactoryCallFactory)['create']
+/**
+ * Defines supported create methods for this smart contract
+ */
+export type AccountFactoryCreateCallParams =
+  | (TypedCallParams<'createApplication()void'> & (OnCompleteNoOp))
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type AccountFactoryDeployArgs = {
+  deployTimeParams?: TealTemplateParams
+  /**
+   * A delegate which takes a create call factory and returns the create call params for this smart contract
+   */
+  createCall?: (callFactory: AccountFactoryCreateCalls) => AccountFactoryCreateCallParams
+}
+
+
+/**
+ * Exposes methods for constructing all available smart contract calls
+ */
+export abstract class AccountFactoryCallFactory {
+  /**
+   * Gets available create call factories
+   */
+  static get create() {
+    return {
+      /**
+       * Constructs a create call for the AccountFactory smart contract using the createApplication()void ABI method
+       *
+       * @param args Any args for the contract call
+       * @param params Any additional parameters for the call
+       * @returns A TypedCallParams object for the call
+       */
+      createApplication(args: MethodArgs<'createApplication()void'>, params: AppClientCallCoreParams & CoreAppCallArgs & AppClientCompilationParams & (OnCompleteNoOp) = {}) {
+        return {
+          method: 'createApplication()void' as const,
+          methodArgs: Array.isArray(args) ? args : [],
+          ...params,
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the initProgram(uint64)void ABI method
+   *
+   * Create the box the approval program is uploaded to. The factory must be funded to cover the MBR of the box.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static initProgram(args: MethodArgs<'initProgram(uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'initProgram(uint64)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.size],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the writeProgram(uint64,byte[])void ABI method
+   *
+   * Upload part of the approval program
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static writeProgram(args: MethodArgs<'writeProgram(uint64,byte[])void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'writeProgram(uint64,byte[])void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.offset, args.data],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the setStandardPlugins(uint64[])void ABI method
+   *
+   * Set the plugins that are installed on new accounts when requested. Each is allowed for all callers, forever.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static setStandardPlugins(args: MethodArgs<'setStandardPlugins(uint64[])void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'setStandardPlugins(uint64[])void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.plugins],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the finalize()void ABI method
+   *
+   * Lock the program and standard plugins so accounts can be deployed
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static finalize(args: MethodArgs<'finalize()void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'finalize()void' as const,
+      methodArgs: Array.isArray(args) ? args : [],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the createAccount(pay)uint64 ABI method
+   *
+   * Deploy an abstracted account for the sender and record it in the registry. The factory is the admin of the newaccount until the sender calls arc58_acceptAdmin on it, so the standard plugins can be installed before then.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static createAccount(args: MethodArgs<'createAccount(pay)uint64'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'createAccount(pay)uint64' as const,
+      methodArgs: Array.isArray(args) ? args : [args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the installStandardPlugins(uint64,pay)void ABI method
+   *
+   * Install the standard plugins on an account deployed by the factory. Must be called by the account's pending adminbefore it accepts becoming the admin, ie. in the same group as its arc58_acceptAdmin call.Each plugin is allowed for all callers, forever.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static installStandardPlugins(args: MethodArgs<'installStandardPlugins(uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'installStandardPlugins(uint64,pay)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.account, args.mbrPayment],
+      ...params,
+    }
+  }
+  /**
+   * Constructs a no op call for the getAccounts(address)uint64[] ABI method
+   *
+   * Get the abstracted accounts deployed for an admin, in the order they were deployed
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static getAccounts(args: MethodArgs<'getAccounts(address)uint64[]'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'getAccounts(address)uint64[]' as const,
+      methodArgs: Array.isArray(args) ? args : [args.admin],
+      ...params,
+    }
+  }
+}
+
+/**
+ * A client to make calls to the AccountFactory smart contract
+ */
+export class AccountFactoryClient {
+  /**
+   * The underlying `ApplicationClient` for when you want to have more flexibility
+   */
+  public readonly appClient: ApplicationClient
+
+  private readonly sender: SendTransactionFrom | undefined
+
+  /**
+   * Creates a new instance of `AccountFactoryClient`
+   *
+   * @param appDetails appDetails The details to identify the app to deploy
+   * @param algod An algod client instance
+   */
+  constructor(appDetails: AppDetails, private algod: Algodv2) {
+    this.sender = appDetails.sender
+    this.appClient = algokit.getAppClient({
+      ...appDetails,
+      app: APP_SPEC
+    }, algod)
+  }
+
+  /**
+   * Checks for decode errors on the AppCallTransactionResult and maps the return value to the specified generic type
+   *
+   * @param result The AppCallTransactionResult to be mapped
+   * @param returnValueFormatter An optional delegate to format the return value if required
+   * @returns The smart contract response with an updated return value
+   */
+  protected mapReturnValue<TReturn, TResult extends AppCallTransactionResult = AppCallTransactionResult>(result: AppCallTransactionResult, returnValueFormatter?: (value: any) => TReturn): AppCallTransactionResultOfType<TReturn> & TResult {
+    if(result.return?.decodeError) {
+      throw result.return.decodeError
+    }
+    const returnValue = result.return?.returnValue !== undefined && returnValueFormatter !== undefined
+      ? returnValueFormatter(result.return.returnValue)
+      : result.return?.returnValue as TReturn | undefined
+      return { ...result, return: returnValue } as AppCallTransactionResultOfType<TReturn> & TResult
+  }
+
+  /**
+   * Calls the ABI method with the matching signature using an onCompletion code of NO_OP
+   *
+   * @param typedCallParams An object containing the method signature, args, and any other relevant parameters
+   * @param returnValueFormatter An optional delegate which when provided will be used to map non-undefined return values to the target type
+   * @returns The result of the smart contract call
+   */
+  public async call<TSignature extends keyof AccountFactory['methods']>(typedCallParams: TypedCallParams<TSignature>, returnValueFormatter?: (value: any) => MethodReturn<TSignature>) {
+    return this.mapReturnValue<MethodReturn<TSignature>>(await this.appClient.call(typedCallParams), returnValueFormatter)
+  }
+
+  /**
+   * Idempotently deploys the AccountFactory smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public deploy(params: AccountFactoryDeployArgs & AppClientDeployCoreParams = {}): ReturnType<ApplicationClient['deploy']> {
+    const createArgs = params.createCall?.(AccountFactoryCallFactory.create)
+    return this.appClient.deploy({
+      ...params,
+      createArgs,
+      createOnCompleteAction: createArgs?.onCompleteAction,
+    })
+  }
+
+  /**
+   * Gets available create methods
+   */
+  public get create() {
+    const $this = this
+    return {
+      /**
+       * Creates a new instance of the AccountFactory smart contract using the createApplication()void ABI method.
+       *
+       * @param args The arguments for the smart contract call
+       * @param params Any additional parameters for the call
+       * @returns The create result
+       */
+      async createApplication(args: MethodArgs<'createApplication()void'>, params: AppClientCallCoreParams & AppClientCompilationParams & (OnCompleteNoOp) = {}) {
+        return $this.mapReturnValue<MethodReturn<'createApplication()void'>, AppCreateCallTransactionResult>(await $this.appClient.create(AccountFactoryCallFactory.create.createApplication(args, params)))
+      },
+    }
+  }
+
+  /**
+   * Makes a clear_state call to an existing instance of the AccountFactory smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The clear_state result
+   */
+  public clearState(args: BareCallArgs & AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.appClient.clearState(args)
+  }
+
+  /**
+   * Calls the initProgram(uint64)void ABI method.
+   *
+   * Create the box the approval program is uploaded to. The factory must be funded to cover the MBR of the box.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public initProgram(args: MethodArgs<'initProgram(uint64)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AccountFactoryCallFactory.initProgram(args, params))
+  }
+
+  /**
+   * Calls the writeProgram(uint64,byte[])void ABI method.
+   *
+   * Upload part of the approval program
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public writeProgram(args: MethodArgs<'writeProgram(uint64,byte[])void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AccountFactoryCallFactory.writeProgram(args, params))
+  }
+
+  /**
+   * Calls the setStandardPlugins(uint64[])void ABI method.
+   *
+   * Set the plugins that are installed on new accounts when requested. Each is allowed for all callers, forever.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public setStandardPlugins(args: MethodArgs<'setStandardPlugins(uint64[])void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AccountFactoryCallFactory.setStandardPlugins(args, params))
+  }
+
+  /**
+   * Calls the finalize()void ABI method.
+   *
+   * Lock the program and standard plugins so accounts can be deployed
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public finalize(args: MethodArgs<'finalize()void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AccountFactoryCallFactory.finalize(args, params))
+  }
+
+  /**
+   * Calls the createAccount(pay)uint64 ABI method.
+   *
+   * Deploy an abstracted account for the sender and record it in the registry. The factory is the admin of the newaccount until the sender calls arc58_acceptAdmin on it, so the standard plugins can be installed before then.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call: The app ID of the new account
+   */
+  public createAccount(args: MethodArgs<'createAccount(pay)uint64'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AccountFactoryCallFactory.createAccount(args, params))
+  }
+
+  /**
+   * Calls the installStandardPlugins(uint64,pay)void ABI method.
+   *
+   * Install the standard plugins on an account deployed by the factory. Must be called by the account's pending adminbefore it accepts becoming the admin, ie. in the same group as its arc58_acceptAdmin call.Each plugin is allowed for all callers, forever.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public installStandardPlugins(args: MethodArgs<'installStandardPlugins(uint64,pay)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AccountFactoryCallFactory.installStandardPlugins(args, params))
+  }
+
+  /**
+   * Calls the getAccounts(address)uint64[] ABI method.
+   *
+   * Get the abstracted accounts deployed for an admin, in the order they were deployed
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public getAccounts(args: MethodArgs<'getAccounts(address)uint64[]'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(AccountFactoryCallFactory.getAccounts(args, params))
+  }
+
+  /**
+   * Extracts a binary state value out of an AppState dictionary
+   *
+   * @param state The state dictionary containing the state value
+   * @param key The key of the state value
+   * @returns A BinaryState instance containing the state value, or undefined if the key was not found
+   */
+  private static getBinaryState(state: AppState, key: string): BinaryState | undefined {
+    const value = state[key]
+    if (!value) return undefined
+    if (!('valueRaw' in value))
+      throw new Error(`Failed to parse state value for ${key}; received an int when expected a byte array`)
+    return {
+      asString(): string {
+        return value.value
+      },
+      asByteArray(): Uint8Array {
+        return value.valueRaw
+      }
+    }
+  }
+
+  /**
+   * Extracts a integer state value out of an AppState dictionary
+   *
+   * @param state The state dictionary containing the state value
+   * @param key The key of the state value
+   * @returns An IntegerState instance containing the state value, or undefined if the key was not found
+   */
+  private static getIntegerState(state: AppState, key: string): IntegerState | undefined {
+    const value = state[key]
+    if (!value) return undefined
+    if ('valueRaw' in value)
+      throw new Error(`Failed to parse state value for ${key}; received a byte array when expected a number`)
+    return {
+      asBigInt() {
+        return typeof value.value === 'bigint' ? value.value : BigInt(value.value)
+      },
+      asNumber(): number {
+        return typeof value.value === 'bigint' ? Number(value.value) : value.value
+      },
+    }
+  }
+
+  /**
+   * Returns the smart contract's global state wrapped in a strongly typed accessor with options to format the stored value
+   */
+  public async getGlobalState(): Promise<AccountFactory['state']['global']> {
+    const state = await this.appClient.getGlobalState()
+    return {
+      get f() {
+        return AccountFactoryClient.getBinaryState(state, 'f')
+      },
+      get sp() {
+        return AccountFactoryClient.getBinaryState(state, 'sp')
+      },
+    }
+  }
+
+  public compose(): AccountFactoryComposer {
+    const client = this
+    const atc = new AtomicTransactionComposer()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: any) => any)> = []
+    return {
+      initProgram(args: MethodArgs<'initProgram(uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.initProgram(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      writeProgram(args: MethodArgs<'writeProgram(uint64,byte[])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.writeProgram(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      setStandardPlugins(args: MethodArgs<'setStandardPlugins(uint64[])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.setStandardPlugins(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      finalize(args: MethodArgs<'finalize()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.finalize(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      createAccount(args: MethodArgs<'createAccount(pay)uint64'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.createAccount(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      installStandardPlugins(args: MethodArgs<'installStandardPlugins(uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.installStandardPlugins(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      getAccounts(args: MethodArgs<'getAccounts(address)uint64[]'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.getAccounts(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      clearState(args?: BareCallArgs & AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.clearState({...args, sendParams: {...args?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      addTransaction(txn: TransactionWithSigner | TransactionToSign | Transaction | Promise<SendTransactionResult>, defaultSender?: SendTransactionFrom) {
+        promiseChain = promiseChain.then(async () => atc.addTransaction(await algokit.getTransactionWithSigner(txn, defaultSender ?? client.sender)))
+        return this
+      },
+      async atc() {
+        await promiseChain
+        return atc
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await atc.simulate(client.algod, new modelsv2.SimulateRequest({ txnGroups: [], ...options }))
+        return {
+          ...result,
+          returns: result.methodResults?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val.returnValue) : val.returnValue)
+        }
+      },
+      async execute(sendParams?: AppClientComposeExecuteParams) {
+        await promiseChain
+        const result = await algokit.sendAtomicTransactionComposer({ atc, sendParams }, client.algod)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val.returnValue) : val.returnValue)
+        }
+      }
+    } as unknown as AccountFactoryComposer
+  }
+}
+export type AccountFactoryComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the initProgram(uint64)void ABI method.
+   *
+   * Create the box the approval program is uploaded to. The factory must be funded to cover the MBR of the box.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  initProgram(args: MethodArgs<'initProgram(uint64)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AccountFactoryComposer<[...TReturns, MethodReturn<'initProgram(uint64)void'>]>
+
+  /**
+   * Calls the writeProgram(uint64,byte[])void ABI method.
+   *
+   * Upload part of the approval program
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  writeProgram(args: MethodArgs<'writeProgram(uint64,byte[])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AccountFactoryComposer<[...TReturns, MethodReturn<'writeProgram(uint64,byte[])void'>]>
+
+  /**
+   * Calls the setStandardPlugins(uint64[])void ABI method.
+   *
+   * Set the plugins that are installed on new accounts when requested. Each is allowed for all callers, forever.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  setStandardPlugins(args: MethodArgs<'setStandardPlugins(uint64[])void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AccountFactoryComposer<[...TReturns, MethodReturn<'setStandardPlugins(uint64[])void'>]>
+
+  /**
+   * Calls the finalize()void ABI method.
+   *
+   * Lock the program and standard plugins so accounts can be deployed
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  finalize(args: MethodArgs<'finalize()void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AccountFactoryComposer<[...TReturns, MethodReturn<'finalize()void'>]>
+
+  /**
+   * Calls the createAccount(pay)uint64 ABI method.
+   *
+   * Deploy an abstracted account for the sender and record it in the registry. The factory is the admin of the newaccount until the sender calls arc58_acceptAdmin on it, so the standard plugins can be installed before then.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  createAccount(args: MethodArgs<'createAccount(pay)uint64'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AccountFactoryComposer<[...TReturns, MethodReturn<'createAccount(pay)uint64'>]>
+
+  /**
+   * Calls the installStandardPlugins(uint64,pay)void ABI method.
+   *
+   * Install the standard plugins on an account deployed by the factory. Must be called by the account's pending adminbefore it accepts becoming the admin, ie. in the same group as its arc58_acceptAdmin call.Each plugin is allowed for all callers, forever.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  installStandardPlugins(args: MethodArgs<'installStandardPlugins(uint64,pay)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AccountFactoryComposer<[...TReturns, MethodReturn<'installStandardPlugins(uint64,pay)void'>]>
+
+  /**
+   * Calls the getAccounts(address)uint64[] ABI method.
+   *
+   * Get the abstracted accounts deployed for an admin, in the order they were deployed
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  getAccounts(args: MethodArgs<'getAccounts(address)uint64[]'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): AccountFactoryComposer<[...TReturns, MethodReturn<'getAccounts(address)uint64[]'>]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the AccountFactory smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(args?: BareCallArgs & AppClientComposeCallCoreParams & CoreAppCallArgs): AccountFactoryComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn One of: A TransactionWithSigner object (returned as is), a TransactionToSign object (signer is obtained from the signer property), a Transaction object (signer is extracted from the defaultSender parameter), an async SendTransactionResult returned by one of algokit utils helpers (signer is obtained from the defaultSender parameter)
+   * @param defaultSender The default sender to be used to obtain a signer where the object provided to the transaction parameter does not include a signer.
+   */
+  addTransaction(txn: TransactionWithSigner | TransactionToSign | Transaction | Promise<SendTransactionResult>, defaultSender?: SendTransactionFrom): AccountFactoryComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  atc(): Promise<AtomicTransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(options?: SimulateOptions): Promise<AccountFactoryComposerSimulateResult<TReturns>>
+  /**
+   * Executes the transaction group and returns the results
+   */
+  execute(sendParams?: AppClientComposeExecuteParams): Promise<AccountFactoryComposerResults<TReturns>>
+}
+export type SimulateOptions = Omit<ConstructorParameters<typeof modelsv2.SimulateRequest>[0], 'txnGroups'>
+export type AccountFactoryComposerSimulateResult<TReturns extends [...any[]]> = {
+  returns: TReturns
+  methodResults: ABIResult[]
+  simulateResponse: modelsv2.SimulateResponse
+}
+export type AccountFactoryComposerResults<TReturns extends [...any[]]> = {
+  returns: TReturns
+  groupId: string
+  txIds: string[]
+  transactions: Transaction[]
+}
@@ -0,0 +1,494 @@
+/* eslint-disable */
+/**
+ * This file was automatically generated by @algorandfoundation/algokit-client-generator.
+ * DO NOT MODIFY IT BY HAND.
+ * requires: @algorandfoundation/algokit-utils: ^2
+ */
+import * as algokit from '@algorandfoundation/algokit-utils'
+import type {
+  ABIAppCallArg,
+  AppCallTransactionResult,
+  AppCallTransactionResultOfType,
+  AppCompilationResult,
+  AppReference,
+  AppState,
+  CoreAppCallArgs,
+  RawAppCallArgs,
+  TealTemplateParams,
+} from '@algorandfoundation/algokit-utils/types/app'
+import type {
+  AppClientCallCoreParams,
+  AppClientCompilationParams,
+  AppClientDeployCoreParams,
+  AppDetails,
+  ApplicationClient,
+} from '@algorandfoundation/algokit-utils/types/app-client'
+import type { AppSpec } from '@algorandfoundation/algokit-utils/types/app-spec'
+import type { SendTransactionResult, TransactionToSign, SendTransactionFrom, SendTransactionParams } from '@algorandfoundation/algokit-utils/types/transaction'
+import type { ABIResult, TransactionWithSigner } from 'algosdk'
+import { Algodv2, OnApplicationComplete, Transaction, AtomicTransactionComposer, modelsv2 } from 'algosdk'
+export const APP_SPEC: AppSpec = {
+  "hints": {
+    "triggerSubscription(uint64,uint64,address)void": {
+      "call_config": {
+        "no_op": "CALL"
+      }
+    },
+    "createApplication()void": {
+      "call_config": {
+        "no_op": "CREATE"
+      }
+    }
+  },
+  "bare_call_config": {
+    "no_op": "NEVER",
+    "opt_in": "NEVER",
+    "close_out": "NEVER",
+    "update_application": "NEVER",
+    "delete_application": "NEVER"
+  },
+  "schema": {
+    "local": {
+      "declared": {},
+      "reserved": {}
+    },
+    "global": {
+      "declared": {},
+      "reserved": {}
+    }
+  },
+  "state": {
+    "global": {
+      "num_byte_slices": 0,
+      "num_uints": 0
+    },
+    "local": {
+      "num_byte_slices": 0,
+      "num_uints": 0
+    }
+  },
+  "source": {
+    "approval": "I3ByYWdtYSB2ZXJzaW9uIDEwCgovLyBUaGlzIFRFQUwgd2FzIGdlbmVyYXRlZCBieSBURUFMU2NyaXB0IHYwLjkwLjIKLy8gaHR0cHM6Ly9naXRodWIuY29tL2FsZ29yYW5kZm91bmRhdGlvbi9URUFMU2NyaXB0CgovLyBUaGlzIGNvbnRyYWN0IGlzIGNvbXBsaWFudCB3aXRoIGFuZC9vciBpbXBsZW1lbnRzIHRoZSBmb2xsb3dpbmcgQVJDczogWyBBUkM0IF0KCi8vIFRoZSBmb2xsb3dpbmcgdGVuIGxpbmVzIG9mIFRFQUwgaGFuZGxlIGluaXRpYWwgcHJvZ3JhbSBmbG93Ci8vIFRoaXMgcGF0dGVybiBpcyB1c2VkIHRvIG1ha2UgaXQgZWFzeSBmb3IgYW55b25lIHRvIHBhcnNlIHRoZSBzdGFydCBvZiB0aGUgcHJvZ3JhbSBhbmQgZGV0ZXJtaW5lIGlmIGEgc3BlY2lmaWMgYWN0aW9uIGlzIGFsbG93ZWQKLy8gSGVyZSwgYWN0aW9uIHJlZmVycyB0byB0aGUgT25Db21wbGV0ZSBpbiBjb21iaW5hdGlvbiB3aXRoIHdoZXRoZXIgdGhlIGFwcCBpcyBiZWluZyBjcmVhdGVkIG9yIGNhbGxlZAovLyBFdmVyeSBwb3NzaWJsZSBhY3Rpb24gZm9yIHRoaXMgY29udHJhY3QgaXMgcmVwcmVzZW50ZWQgaW4gdGhlIHN3aXRjaCBzdGF0ZW1lbnQKLy8gSWYgdGhlIGFjdGlvbiBpcyBub3QgaW1wbGVtZW50ZWQgaW4gdGhlIGNvbnRyYWN0LCBpdHMgcmVzcGVjdGl2ZSBicmFuY2ggd2lsbCBiZSAiKk5PVF9JTVBMRU1FTlRFRCIgd2hpY2gganVzdCBjb250YWlucyAiZXJyIgp0eG4gQXBwbGljYXRpb25JRAohCmludCA2CioKdHhuIE9uQ29tcGxldGlvbgorCnN3aXRjaCAqY2FsbF9Ob09wICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVEICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqY3JlYXRlX05vT3AgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVEICpOT1RfSU1QTEVNRU5URUQgKk5PVF9JTVBMRU1FTlRFRCAqTk9UX0lNUExFTUVOVEVECgoqTk9UX0lNUExFTUVOVEVEOgoJZXJyCgovLyB0cmlnZ2VyU3Vic2NyaXB0aW9uKHVpbnQ2NCx1aW50NjQsYWRkcmVzcyl2b2lkCiphYmlfcm91dGVfdHJpZ2dlclN1YnNjcmlwdGlvbjoKCS8vIHJlY2VpdmVyOiBhZGRyZXNzCgl0eG5hIEFwcGxpY2F0aW9uQXJncyAzCglkdXAKCWxlbgoJaW50IDMyCgk9PQoJYXNzZXJ0CgoJLy8gcGx1Z2luOiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDIKCWJ0b2kKCgkvLyBhY2NvdW50OiB1aW50NjQKCXR4bmEgQXBwbGljYXRpb25BcmdzIDEKCWJ0b2kKCgkvLyBleGVjdXRlIHRyaWdnZXJTdWJzY3JpcHRpb24odWludDY0LHVpbnQ2NCxhZGRyZXNzKXZvaWQKCWNhbGxzdWIgdHJpZ2dlclN1YnNjcmlwdGlvbgoJaW50IDEKCXJldHVybgoKLy8gdHJpZ2dlclN1YnNjcmlwdGlvbihhY2NvdW50OiBBcHBJRCwgcGx1Z2luOiBBcHBJRCwgcmVjZWl2ZXI6IEFkZHJlc3MpOiB2b2lkCi8vCi8vIFRyaWdnZXIgYSBzdWJzY3JpcHRpb24gcGF5bWVudCBmcm9tIGFuIGFic3RyYWN0ZWQgYWNjb3VudCB0aGF0IGdyYW50ZWQgdGhlIHN1YnNjcmlwdGlvbiBwbHVnaW4gdG8gdGhpcyBhcHAuCi8vIFRoZSBmZWVzIG9mIHRoZSBpbm5lciB0cmFuc2FjdGlvbnMgbXVzdCBiZSBjb3ZlcmVkIGJ5IHRoZSBmZWUgb2YgdGhpcyBjYWxsLgovLwovLyBAcGFyYW0gYWNjb3VudCBUaGUgYWJzdHJhY3RlZCBhY2NvdW50IGFwcAovLyBAcGFyYW0gcGx1Z2luIFRoZSBzdWJzY3JpcHRpb24gcGx1Z2luIGFwcAovLyBAcGFyYW0gcmVjZWl2ZXIgVGhlIHJlY2VpdmVyIG9mIHRoZSBzdWJzY3JpcHRpb24gcGF5bWVudAp0cmlnZ2VyU3Vic2NyaXB0aW9uOgoJcHJvdG8gMyAwCgoJLy8gY29udHJhY3RzL2VzY3Jvdy5hbGdvLnRzOjIxCgkvLyB0aGlzLnBlbmRpbmdHcm91cC5hZGRNZXRob2RDYWxsPHR5cGVvZiBBYnN0cmFjdGVkQWNjb3VudC5wcm90b3R5cGUuYXJjNThfcmVrZXlUb1BsdWdpbiwgdm9pZD4oewoJLy8gICAgICAgYXBwbGljYXRpb25JRDogYWNjb3VudCwKCS8vICAgICAgIG1ldGhvZEFyZ3M6IFtwbHVnaW5dLAoJLy8gICAgICAgYXBwbGljYXRpb25zOiBbcGx1Z2luXSwKCS8vICAgICAgIGZlZTogMCwKCS8vICAgICAgIGlzRmlyc3RUeG46IHRydWUsCgkvLyAgICAgfSkKCWl0eG5fYmVnaW4KCWludCBhcHBsCglpdHhuX2ZpZWxkIFR5cGVFbnVtCgltZXRob2QgImFyYzU4X3Jla2V5VG9QbHVnaW4odWludDY0KXZvaWQiCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoKCS8vIGNvbnRyYWN0cy9lc2Nyb3cuYWxnby50czoyMgoJLy8gYXBwbGljYXRpb25JRDogYWNjb3VudAoJZnJhbWVfZGlnIC0xIC8vIGFjY291bnQ6IEFwcElECglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uSUQKCgkvLyBjb250cmFjdHMvZXNjcm93LmFsZ28udHM6MjMKCS8vIG1ldGhvZEFyZ3M6IFtwbHVnaW5dCglmcmFtZV9kaWcgLTIgLy8gcGx1Z2luOiBBcHBJRAoJaXRvYgoJaXR4bl9maWVsZCBBcHBsaWNhdGlvbkFyZ3MKCgkvLyBjb250cmFjdHMvZXNjcm93LmFsZ28udHM6MjQKCS8vIGFwcGxpY2F0aW9uczogW3BsdWdpbl0KCWZyYW1lX2RpZyAtMiAvLyBwbHVnaW46IEFwcElECglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9ucwoKCS8vIGNvbnRyYWN0cy9lc2Nyb3cuYWxnby50czoyNQoJLy8gZmVlOiAwCglpbnQgMAoJaXR4bl9maWVsZCBGZWUKCgkvLyBjb250cmFjdHMvZXNjcm93LmFsZ28udHM6MjkKCS8vIHRoaXMucGVuZGluZ0dyb3VwLmFkZE1ldGhvZENhbGw8dHlwZW9mIFN1YnNjcmlwdGlvblBsdWdpbi5wcm90b3R5cGUubWFrZVBheW1lbnQsIHZvaWQ+KHsKCS8vICAgICAgIGFwcGxpY2F0aW9uSUQ6IHBsdWdpbiwKCS8vICAgICAgIG1ldGhvZEFyZ3M6IFthY2NvdW50LmFkZHJlc3MsIHJlY2VpdmVyXSwKCS8vICAgICAgIGFjY291bnRzOiBbYWNjb3VudC5hZGRyZXNzLCByZWNlaXZlcl0sCgkvLyAgICAgICBmZWU6IDAsCgkvLyAgICAgfSkKCWl0eG5fbmV4dAoJaW50IGFwcGwKCWl0eG5fZmllbGQgVHlwZUVudW0KCW1ldGhvZCAibWFrZVBheW1lbnQoYWRkcmVzcyxhZGRyZXNzKXZvaWQiCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoKCS8vIGNvbnRyYWN0cy9lc2Nyb3cuYWxnby50czozMAoJLy8gYXBwbGljYXRpb25JRDogcGx1Z2luCglmcmFtZV9kaWcgLTIgLy8gcGx1Z2luOiBBcHBJRAoJaXR4bl9maWVsZCBBcHBsaWNhdGlvbklECgoJLy8gY29udHJhY3RzL2VzY3Jvdy5hbGdvLnRzOjMxCgkvLyBtZXRob2RBcmdzOiBbYWNjb3VudC5hZGRyZXNzLCByZWNlaXZlcl0KCWZyYW1lX2RpZyAtMSAvLyBhY2NvdW50OiBBcHBJRAoJYXBwX3BhcmFtc19nZXQgQXBwQWRkcmVzcwoJcG9wCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoJZnJhbWVfZGlnIC0zIC8vIHJlY2VpdmVyOiBBZGRyZXNzCglpdHhuX2ZpZWxkIEFwcGxpY2F0aW9uQXJncwoKCS8vIGNvbnRyYWN0cy9lc2Nyb3cuYWxnby50czozMgoJLy8gYWNjb3VudHM6IFthY2NvdW50LmFkZHJlc3MsIHJlY2VpdmVyXQoJZnJhbWVfZGlnIC0xIC8vIGFjY291bnQ6IEFwcElECglhcHBfcGFyYW1zX2dldCBBcHBBZGRyZXNzCglwb3AKCWl0eG5fZmllbGQgQWNjb3VudHMKCWZyYW1lX2RpZyAtMyAvLyByZWNlaXZlcjogQWRkcmVzcwoJaXR4bl9maWVsZCBBY2NvdW50cwoKCS8vIGNvbnRyYWN0cy9lc2Nyb3cuYWxnby50czozMwoJLy8gZmVlOiAwCglpbnQgMAoJaXR4bl9maWVsZCBGZWUKCgkvLyBjb250cmFjdHMvZXNjcm93LmFsZ28udHM6MzYKCS8vIHRoaXMucGVuZGluZ0dyb3VwLmFkZE1ldGhvZENhbGw8dHlwZW9mIEFic3RyYWN0ZWRBY2NvdW50LnByb3RvdHlwZS5hcmM1OF92ZXJpZnlBdXRoQWRkciwgdm9pZD4oewoJLy8gICAgICAgYXBwbGljYXRpb25JRDogYWNjb3VudCwKCS8vICAgICAgIGZlZTogMCwKCS8vICAgICB9KQoJaXR4bl9uZXh0CglpbnQgYXBwbAoJaXR4bl9maWVsZCBUeXBlRW51bQoJbWV0aG9kICJhcmM1OF92ZXJpZnlBdXRoQWRkcigpdm9pZCIKCWl0eG5fZmllbGQgQXBwbGljYXRpb25BcmdzCgoJLy8gY29udHJhY3RzL2VzY3Jvdy5hbGdvLnRzOjM3CgkvLyBhcHBsaWNhdGlvbklEOiBhY2NvdW50CglmcmFtZV9kaWcgLTEgLy8gYWNjb3VudDogQXBwSUQKCWl0eG5fZmllbGQgQXBwbGljYXRpb25JRAoKCS8vIGNvbnRyYWN0cy9lc2Nyb3cuYWxnby50czozOAoJLy8gZmVlOiAwCglpbnQgMAoJaXR4bl9maWVsZCBGZWUKCgkvLyBjb250cmFjdHMvZXNjcm93LmFsZ28udHM6NDEKCS8vIHRoaXMucGVuZGluZ0dyb3VwLnN1Ym1pdCgpCglpdHhuX3N1Ym1pdAoJcmV0c3ViCgoqYWJpX3JvdXRlX2NyZWF0ZUFwcGxpY2F0aW9uOgoJaW50IDEKCXJldHVybgoKKmNyZWF0ZV9Ob09wOgoJbWV0aG9kICJjcmVhdGVBcHBsaWNhdGlvbigpdm9pZCIKCXR4bmEgQXBwbGljYXRpb25BcmdzIDAKCW1hdGNoICphYmlfcm91dGVfY3JlYXRlQXBwbGljYXRpb24KCWVycgoKKmNhbGxfTm9PcDoKCW1ldGhvZCAidHJpZ2dlclN1YnNjcmlwdGlvbih1aW50NjQsdWludDY0LGFkZHJlc3Mpdm9pZCIKCXR4bmEgQXBwbGljYXRpb25BcmdzIDAKCW1hdGNoICphYmlfcm91dGVfdHJpZ2dlclN1YnNjcmlwdGlvbgoJZXJy",
+    "clear": "I3ByYWdtYSB2ZXJzaW9uIDEw"
+  },
+  "contract": {
+    "name": "Escrow",
+    "desc": "",
+    "methods": [
+      {
+        "name": "triggerSubscription",
+        "desc": "Trigger a subscription payment from an abstracted account that granted the subscription plugin to this app.The fees of the inner transactions must be covered by the fee of this call.",
+        "args": [
+          {
+            "name": "account",
+            "type": "uint64",
+            "desc": "The abstracted account app"
+          },
+          {
+            "name": "plugin",
+            "type": "uint64",
+            "desc": "The subscription plugin app"
+          },
+          {
+            "name": "receiver",
+            "type": "address",
+            "desc": "The receiver of the subscription payment"
+          }
+        ],
+        "returns": {
+          "type": "void"
+        }
+      },
+      {
+        "name": "createApplication",
+        "args": [],
+        "returns": {
+          "type": "void"
+        }
+      }
+    ]
+  }
+}
+
+/**
+ * Defines an onCompletionAction of 'no_op'
+ */
+export type OnCompleteNoOp =  { onCompleteAction?: 'no_op' | OnApplicationComplete.NoOpOC }
+/**
+ * Defines an onCompletionAction of 'opt_in'
+ */
+export type OnCompleteOptIn =  { onCompleteAction: 'opt_in' | OnApplicationComplete.OptInOC }
+/**
+ * Defines an onCompletionAction of 'close_out'
+ */
+export type OnCompleteCloseOut =  { onCompleteAction: 'close_out' | OnApplicationComplete.CloseOutOC }
+/**
+ * Defines an onCompletionAction of 'delete_application'
+ */
+export type OnCompleteDelApp =  { onCompleteAction: 'delete_application' | OnApplicationComplete.DeleteApplicationOC }
+/**
+ * Defines an onCompletionAction of 'update_application'
+ */
+export type OnCompleteUpdApp =  { onCompleteAction: 'update_application' | OnApplicationComplete.UpdateApplicationOC }
+/**
+ * A state record containing a single unsigned integer
+ */
+export type IntegerState = {
+  /**
+   * Gets the state value as a BigInt.
+   */
+  asBigInt(): bigint
+  /**
+   * Gets the state value as a number.
+   */
+  asNumber(): number
+}
+/**
+ * A state record containing binary data
+ */
+export type BinaryState = {
+  /**
+   * Gets the state value as a Uint8Array
+   */
+  asByteArray(): Uint8Array
+  /**
+   * Gets the state value as a string
+   */
+  asString(): string
+}
+
+export type AppCreateCallTransactionResult = AppCallTransactionResult & Partial<AppCompilationResult> & AppReference
+export type AppUpdateCallTransactionResult = AppCallTransactionResult & Partial<AppCompilationResult>
+
+export type AppClientComposeCallCoreParams = Omit<AppClientCallCoreParams, 'sendParams'> & {
+  sendParams?: Omit<SendTransactionParams, 'skipSending' | 'atc' | 'skipWaiting' | 'maxRoundsToWaitForConfirmation' | 'populateAppCallResources'>
+}
+export type AppClientComposeExecuteParams = Pick<SendTransactionParams, 'skipWaiting' | 'maxRoundsToWaitForConfirmation' | 'populateAppCallResources' | 'suppressLog'>
+
+/**
+ * Defines the types of available calls and state of the Escrow smart contract.
+ */
+export type Escrow = {
+  /**
+   * Maps method signatures / names to their argument and return types.
+   */
+  methods:
+    & Record<'triggerSubscription(uint64,uint64,address)void' | 'triggerSubscription', {
+      argsObj: {
+        /**
+         * The abstracted account app
+         */
+        account: bigint | number
+        /**
+         * The subscription plugin app
+         */
+        plugin: bigint | number
+        /**
+         * The receiver of the subscription payment
+         */
+        receiver: string
+      }
+      argsTuple: [account: bigint | number, plugin: bigint | number, receiver: string]
+      returns: void
+    }>
+    & Record<'createApplication()void' | 'createApplication', {
+      argsObj: {
+      }
+      argsTuple: []
+      returns: void
+    }>
+}
+/**
+ * Defines the possible abi call signatures
+ */
+export type EscrowSig = keyof Escrow['methods']
+/**
+ * Defines an object containing all relevant parameters for a single call to the contract. Where TSignature is undefined, a bare call is made
+ */
+export type TypedCallParams<TSignature extends EscrowSig | undefined> = {
+  method: TSignature
+  methodArgs: TSignature extends undefined ? undefined : Array<ABIAppCallArg | undefined>
+} & AppClientCallCoreParams & CoreAppCallArgs
+/**
+ * Defines the arguments required for a bare call
+ */
+export type BareCallArgs = Omit<RawAppCallArgs, keyof CoreAppCallArgs>
+/**
+ * Maps a method signature from the Escrow smart contract to the method's arguments in either tuple of struct form
+ */
+export type MethodArgs<TSignature extends EscrowSig> = Escrow['methods'][TSignature]['argsObj' | 'argsTuple']
+/**
+ * Maps a method signature from the Escrow smart contract to the method's return type
+ */
+export type MethodReturn<TSignature extends EscrowSig> = Escrow['methods'][TSignature]['returns']
+
+/**
+ * A factory for available 'create' calls
+ */
+export type EscrowCreateCalls = (typeof EscrowCallFactory)['create']
+/**
+ * Defines supported create methods for this smart contract
+ */
+export type EscrowCreateCallParams =
+  | (TypedCallParams<'createApplication()void'> & (OnCompleteNoOp))
+/**
+ * Defines arguments required for the deploy method.
+ */
+export type EscrowDeployArgs = {
+  deployTimeParams?: TealTemplateParams
+  /**
+   * A delegate which takes a create call factory and returns the create call params for this smart contract
+   */
+  createCall?: (callFactory: EscrowCreateCalls) => EscrowCreateCallParams
+}
+
+
+/**
+ * Exposes methods for constructing all available smart contract calls
+ */
+export abstract class EscrowCallFactory {
+  /**
+   * Gets available create call factories
+   */
+  static get create() {
+    return {
+      /**
+       * Constructs a create call for the Escrow smart contract using the createApplication()void ABI method
+       *
+       * @param args Any args for the contract call
+       * @param params Any additional parameters for the call
+       * @returns A TypedCallParams object for the call
+       */
+      createApplication(args: MethodArgs<'createApplication()void'>, params: AppClientCallCoreParams & CoreAppCallArgs & AppClientCompilationParams & (OnCompleteNoOp) = {}) {
+        return {
+          method: 'createApplication()void' as const,
+          methodArgs: Array.isArray(args) ? args : [],
+          ...params,
+        }
+      },
+    }
+  }
+
+  /**
+   * Constructs a no op call for the triggerSubscription(uint64,uint64,address)void ABI method
+   *
+   * Trigger a subscription payment from an abstracted account that granted the subscription plugin to this app.The fees of the inner transactions must be covered by the fee of this call.
+   *
+   * @param args Any args for the contract call
+   * @param params Any additional parameters for the call
+   * @returns A TypedCallParams object for the call
+   */
+  static triggerSubscription(args: MethodArgs<'triggerSubscription(uint64,uint64,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs) {
+    return {
+      method: 'triggerSubscription(uint64,uint64,address)void' as const,
+      methodArgs: Array.isArray(args) ? args : [args.account, args.plugin, args.receiver],
+      ...params,
+    }
+  }
+}
+
+/**
+ * A client to make calls to the Escrow smart contract
+ */
+export class EscrowClient {
+  /**
+   * The underlying `ApplicationClient` for when you want to have more flexibility
+   */
+  public readonly appClient: ApplicationClient
+
+  private readonly sender: SendTransactionFrom | undefined
+
+  /**
+   * Creates a new instance of `EscrowClient`
+   *
+   * @param appDetails appDetails The details to identify the app to deploy
+   * @param algod An algod client instance
+   */
+  constructor(appDetails: AppDetails, private algod: Algodv2) {
+    this.sender = appDetails.sender
+    this.appClient = algokit.getAppClient({
+      ...appDetails,
+      app: APP_SPEC
+    }, algod)
+  }
+
+  /**
+   * Checks for decode errors on the AppCallTransactionResult and maps the return value to the specified generic type
+   *
+   * @param result The AppCallTransactionResult to be mapped
+   * @param returnValueFormatter An optional delegate to format the return value if required
+   * @returns The smart contract response with an updated return value
+   */
+  protected mapReturnValue<TReturn, TResult extends AppCallTransactionResult = AppCallTransactionResult>(result: AppCallTransactionResult, returnValueFormatter?: (value: any) => TReturn): AppCallTransactionResultOfType<TReturn> & TResult {
+    if(result.return?.decodeError) {
+      throw result.return.decodeError
+    }
+    const returnValue = result.return?.returnValue !== undefined && returnValueFormatter !== undefined
+      ? returnValueFormatter(result.return.returnValue)
+      : result.return?.returnValue as TReturn | undefined
+      return { ...result, return: returnValue } as AppCallTransactionResultOfType<TReturn> & TResult
+  }
+
+  /**
+   * Calls the ABI method with the matching signature using an onCompletion code of NO_OP
+   *
+   * @param typedCallParams An object containing the method signature, args, and any other relevant parameters
+   * @param returnValueFormatter An optional delegate which when provided will be used to map non-undefined return values to the target type
+   * @returns The result of the smart contract call
+   */
+  public async call<TSignature extends keyof Escrow['methods']>(typedCallParams: TypedCallParams<TSignature>, returnValueFormatter?: (value: any) => MethodReturn<TSignature>) {
+    return this.mapReturnValue<MethodReturn<TSignature>>(await this.appClient.call(typedCallParams), returnValueFormatter)
+  }
+
+  /**
+   * Idempotently deploys the Escrow smart contract.
+   *
+   * @param params The arguments for the contract calls and any additional parameters for the call
+   * @returns The deployment result
+   */
+  public deploy(params: EscrowDeployArgs & AppClientDeployCoreParams = {}): ReturnType<ApplicationClient['deploy']> {
+    const createArgs = params.createCall?.(EscrowCallFactory.create)
+    return this.appClient.deploy({
+      ...params,
+      createArgs,
+      createOnCompleteAction: createArgs?.onCompleteAction,
+    })
+  }
+
+  /**
+   * Gets available create methods
+   */
+  public get create() {
+    const $this = this
+    return {
+      /**
+       * Creates a new instance of the Escrow smart contract using the createApplication()void ABI method.
+       *
+       * @param args The arguments for the smart contract call
+       * @param params Any additional parameters for the call
+       * @returns The create result
+       */
+      async createApplication(args: MethodArgs<'createApplication()void'>, params: AppClientCallCoreParams & AppClientCompilationParams & (OnCompleteNoOp) = {}) {
+        return $this.mapReturnValue<MethodReturn<'createApplication()void'>, AppCreateCallTransactionResult>(await $this.appClient.create(EscrowCallFactory.create.createApplication(args, params)))
+      },
+    }
+  }
+
+  /**
+   * Makes a clear_state call to an existing instance of the Escrow smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The clear_state result
+   */
+  public clearState(args: BareCallArgs & AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.appClient.clearState(args)
+  }
+
+  /**
+   * Calls the triggerSubscription(uint64,uint64,address)void ABI method.
+   *
+   * Trigger a subscription payment from an abstracted account that granted the subscription plugin to this app.The fees of the inner transactions must be covered by the fee of this call.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The result of the call
+   */
+  public triggerSubscription(args: MethodArgs<'triggerSubscription(uint64,uint64,address)void'>, params: AppClientCallCoreParams & CoreAppCallArgs = {}) {
+    return this.call(EscrowCallFactory.triggerSubscription(args, params))
+  }
+
+  public compose(): EscrowComposer {
+    const client = this
+    const atc = new AtomicTransactionComposer()
+    let promiseChain:Promise<unknown> = Promise.resolve()
+    const resultMappers: Array<undefined | ((x: any) => any)> = []
+    return {
+      triggerSubscription(args: MethodArgs<'triggerSubscription(uint64,uint64,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.triggerSubscription(args, {...params, sendParams: {...params?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      clearState(args?: BareCallArgs & AppClientComposeCallCoreParams & CoreAppCallArgs) {
+        promiseChain = promiseChain.then(() => client.clearState({...args, sendParams: {...args?.sendParams, skipSending: true, atc}}))
+        resultMappers.push(undefined)
+        return this
+      },
+      addTransaction(txn: TransactionWithSigner | TransactionToSign | Transaction | Promise<SendTransactionResult>, defaultSender?: SendTransactionFrom) {
+        promiseChain = promiseChain.then(async () => atc.addTransaction(await algokit.getTransactionWithSigner(txn, defaultSender ?? client.sender)))
+        return this
+      },
+      async atc() {
+        await promiseChain
+        return atc
+      },
+      async simulate(options?: SimulateOptions) {
+        await promiseChain
+        const result = await atc.simulate(client.algod, new modelsv2.SimulateRequest({ txnGroups: [], ...options }))
+        return {
+          ...result,
+          returns: result.methodResults?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val.returnValue) : val.returnValue)
+        }
+      },
+      async execute(sendParams?: AppClientComposeExecuteParams) {
+        await promiseChain
+        const result = await algokit.sendAtomicTransactionComposer({ atc, sendParams }, client.algod)
+        return {
+          ...result,
+          returns: result.returns?.map((val, i) => resultMappers[i] !== undefined ? resultMappers[i]!(val.returnValue) : val.returnValue)
+        }
+      }
+    } as unknown as EscrowComposer
+  }
+}
+export type EscrowComposer<TReturns extends [...any[]] = []> = {
+  /**
+   * Calls the triggerSubscription(uint64,uint64,address)void ABI method.
+   *
+   * Trigger a subscription payment from an abstracted account that granted the subscription plugin to this app.The fees of the inner transactions must be covered by the fee of this call.
+   *
+   * @param args The arguments for the contract call
+   * @param params Any additional parameters for the call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  triggerSubscription(args: MethodArgs<'triggerSubscription(uint64,uint64,address)void'>, params?: AppClientComposeCallCoreParams & CoreAppCallArgs): EscrowComposer<[...TReturns, MethodReturn<'triggerSubscription(uint64,uint64,address)void'>]>
+
+  /**
+   * Makes a clear_state call to an existing instance of the Escrow smart contract.
+   *
+   * @param args The arguments for the bare call
+   * @returns The typed transaction composer so you can fluently chain multiple calls or call execute to execute all queued up transactions
+   */
+  clearState(args?: BareCallArgs & AppClientComposeCallCoreParams & CoreAppCallArgs): EscrowComposer<[...TReturns, undefined]>
+
+  /**
+   * Adds a transaction to the composer
+   *
+   * @param txn One of: A TransactionWithSigner object (returned as is), a TransactionToSign object (signer is obtained from the signer property), a Transaction object (signer is extracted from the defaultSender parameter), an async SendTransactionResult returned by one of algokit utils helpers (signer is obtained from the defaultSender parameter)
+   * @param defaultSender The default sender to be used to obtain a signer where the object provided to the transaction parameter does not include a signer.
+   */
+  addTransaction(txn: TransactionWithSigner | TransactionToSign | Transaction | Promise<SendTransactionResult>, defaultSender?: SendTransactionFrom): EscrowComposer<TReturns>
+  /**
+   * Returns the underlying AtomicTransactionComposer instance
+   */
+  atc(): Promise<AtomicTransactionComposer>
+  /**
+   * Simulates the transaction group and returns the result
+   */
+  simulate(options?: SimulateOptions): Promise<EscrowComposerSimulateResult<TReturns>>
+  /**
+   * Executes the transaction group and returns the results
+   */
+  execute(sendParams?: AppClientComposeExecuteParams): Promise<EscrowComposerResults<TReturns>>
+}
+export type SimulateOptions = Omit<ConstructorParameters<typeof modelsv2.SimulateRequest>[0], 'txnGroups'>
+export type EscrowComposerSimulateResult<TReturns extends [...any[]]> = {
+  returns: TReturns
+  methodResults: ABIResult[]
+  simulateResponse: modelsv2.SimulateResponse
+}
+export type EscrowComposerResults<TReturns extends [...any[]]> = {
+  returns: TReturns
+  groupId: string
+  txIds: string[]
+  transactions: Transaction[]
+}
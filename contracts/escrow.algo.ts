@@ -0,0 +1,43 @@
+import { Contract } from '@algorandfoundation/tealscript';
+import { AbstractedAccount } from './abstracted_account.algo';
+import { SubscriptionPlugin } from './plugins/subscription_plugin.algo';
+
+/**
+ * An example of an app that an abstracted account grants a plugin to, by using the app address as the allowed caller.
+ * Only this app can send transactions from its address, so it uses the plugin in a group of inner transactions.
+ */
+export class Escrow extends Contract {
+  programVersion = 10;
+
+  /**
+   * Trigger a subscription payment from an abstracted account that granted the subscription plugin to this app.
+   * The fees of the inner transactions must be covered by the fee of this call.
+   *
+   * @param account The abstracted account app
+   * @param plugin The subscription plugin app
+   * @param receiver The receiver of the subscription payment
+   */
+  triggerSubscription(account: AppID, plugin: AppID, receiver: Address): void {
+    this.pendingGroup.addMethodCall<typeof AbstractedAccount.prototype.arc58_rekeyToPlugin, void>({
+      applicationID: account,
+      methodArgs: [plugin],
+      applications: [plugin],
+      fee: 0,
+      isFirstTxn: true,
+    });
+
+    this.pendingGroup.addMethodCall<typeof SubscriptionPlugin.prototype.makePayment, void>({
+      applicationID: plugin,
+      methodArgs: [account.address, receiver],
+      accounts: [account.address, receiver],
+      fee: 0,
+    });
+
+    this.pendingGroup.addMethodCall<typeof AbstractedAccount.prototype.arc58_verifyAuthAddr, void>({
+      applicationID: account,
+      fee: 0,
+    });
+
+    this.pendingGroup.submit();
+  }
+}
@@ -0,0 +1,137 @@
+import * as algokit from '@algorandfoundation/algokit-utils';
+import algosdk from 'algosdk';
+import arc32 from '../artifacts/AbstractedAccount.arc32.json';
+import { AbstractedAccountClient } from '../clients/AbstractedAccountClient';
+import { AccountFactoryClient, AccountFactoryComposer } from '../clients/AccountFactoryClient';
+import { pluginBox } from './boxes';
+
+/** The allowed caller of plugin permissions that anyone can use */
+const ZERO_ADDRESS = algosdk.encodeAddress(new Uint8Array(32));
+
+/** The number of bytes of the approval program uploaded per call, leaving room for the other application args */
+const PROGRAM_CHUNK_SIZE = 2000;
+
+/** The MBR of the box of a plugin permission without methods */
+const PLUGIN_MBR = 69_300;
+
+/**
+ * The MBR the factory takes on for each account: the app itself with 3 extra pages and its global state schema,
+ * plus the minimum balance of the account's app address
+ */
+const ACCOUNT_COST =
+  100_000 * 4 + 28_500 * arc32.state.global.num_uints + 50_000 * arc32.state.global.num_byte_slices + 100_000;
+
+/** Get the box key of the accounts the factory deployed for an admin */
+export const factoryAccountsBox = (admin: string) =>
+  new Uint8Array(Buffer.concat([Buffer.from('a'), algosdk.decodeAddress(admin).publicKey]));
+
+/** Box references to the program box, which needs one reference for each KB read or written */
+const programBoxes = (size: number) =>
+  new Array<Uint8Array>(Math.min(Math.ceil(size / 1024), 8)).fill(new Uint8Array(Buffer.from('program')));
+
+/**
+ * Compile the approval program of AbstractedAccount and upload it to a factory. Must be called by the creator of
+ * the factory, which must be funded to cover the MBR of the program box. The factory must still be finalized afterwards.
+ *
+ * @param teal The TEAL of the approval program, ie. the contents of AbstractedAccount.approval.teal
+ */
+export async function uploadAccountProgram(algod: algosdk.Algodv2, factory: AccountFactoryClient, teal: string) {
+  const program = new Uint8Array(Buffer.from((await algod.compile(teal).do()).result, 'base64'));
+  const boxes = programBoxes(program.length);
+
+  // The calls are sent in one group, so they share the box quota of their references
+  let composer: AccountFactoryComposer<unknown[]> = factory.compose().initProgram({ size: program.length }, { boxes });
+  for (let offset = 0; offset < program.length; offset += PROGRAM_CHUNK_SIZE) {
+    composer = composer.writeProgram({ offset, data: program.slice(offset, offset + PROGRAM_CHUNK_SIZE) }, { boxes });
+  }
+
+  await composer.execute();
+}
+
+/** Get the accounts a factory deployed for an admin, in the order they were deployed */
+export async function getFactoryAccounts(factory: AccountFactoryClient, admin: string): Promise<bigint[]> {
+  const result = await factory.getAccounts({ admin }, { boxes: [factoryAccountsBox(admin)] });
+  return result.return!;
+}
+
+/**
+ * Get the amount createAccount must be paid: the MBR of the account and of the factory's records of it
+ *
+ * @param admin The address the account will be deployed for
+ */
+export async function getAccountCost(factory: AccountFactoryClient, admin: string): Promise<number> {
+  const deployed = (await getFactoryAccounts(factory, admin)).length;
+
+  // A new registry box is `prefix + address` with an empty uint64[], otherwise the box grows by an app ID
+  return ACCOUNT_COST + (deployed === 0 ? 2_500 + 400 * (33 + 2 + 8) : 400 * 8);
+}
+
+/**
+ * Deploy an abstracted account with a factory, optionally install the factory's standard plugins
+ * and have the admin accept becoming the admin of the account
+ *
+ * @param admin The admin of the new account, which pays for it
+ * @param installPlugins Whether to install the standard plugins of the factory
+ * @returns The client for the new account
+ */
+export async function createAccountWithFactory(
+  algod: algosdk.Algodv2,
+  factory: AccountFactoryClient,
+  admin: algosdk.Account,
+  installPlugins = false
+): Promise<AbstractedAccountClient> {
+  const { appAddress } = await factory.appClient.getAppReference();
+  const state = await factory.getGlobalState();
+  const payment = async (amount: number) => ({
+    transaction: algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      from: admin.addr,
+      to: appAddress,
+      amount,
+      suggestedParams: await algod.getTransactionParams().do(),
+    }),
+    signer: admin,
+  });
+
+  // The program box takes the quota of all the references of the createAccount call, so the registry box
+  // is referenced by another call in the group
+  const programSize = (await factory.appClient.getBoxValue('program')).length;
+  const result = await factory
+    .compose()
+    .getAccounts({ admin: admin.addr }, { sender: admin, boxes: [factoryAccountsBox(admin.addr)] })
+    .createAccount(
+      { mbrPayment: await payment(await getAccountCost(factory, admin.addr)) },
+      { sender: admin, boxes: programBoxes(programSize), sendParams: { fee: algokit.microAlgos(4_000) } }
+    )
+    .execute();
+  const account = Number(result.returns[1]);
+
+  const client = new AbstractedAccountClient({ sender: admin, resolveBy: 'id', id: account }, algod);
+  let composer = client.compose();
+
+  if (installPlugins) {
+    const plugins = algosdk.ABIType.from('uint64[]').decode(state.sp!.asByteArray()) as bigint[];
+    const installCall = await factory
+      .compose()
+      .installStandardPlugins(
+        { account, mbrPayment: await payment(plugins.length * PLUGIN_MBR) },
+        {
+          sender: admin,
+          apps: [account, ...plugins.map(Number)],
+          boxes: plugins.map((plugin) => ({ appId: account, name: pluginBox(plugin, ZERO_ADDRESS) })),
+          sendParams: { fee: algokit.microAlgos(1_000 + plugins.length * 2_000) },
+        }
+      )
+      .atc();
+
+    installCall.buildGroup().forEach(({ txn, signer: txnSigner }) => {
+      // The install becomes part of the group that accepts the admin change
+      // eslint-disable-next-line no-param-reassign
+      txn.group = undefined;
+      composer = composer.addTransaction({ txn, signer: txnSigner });
+    });
+  }
+
+  await composer.arc58AcceptAdmin({}).execute();
+
+  return client;
+}
@@ -0,0 +1,33 @@
+import algosdk from 'algosdk';
+import { createHash } from 'crypto';
+import { AbstractedAccountClient } from '../clients/AbstractedAccountClient';
+import { PLUGIN_INFO_TYPE, pluginBox } from './boxes';
+
+/** The index of the approval program hash in a plugin box value */
+const APPROVAL_HASH_INDEX = 13;
+
+/**
+ * Get the hash of the approval program that was pinned when the plugin was added.
+ * The plugin can't be used if its approval program no longer has this hash.
+ */
+export async function getPinnedApprovalHash(
+  client: AbstractedAccountClient,
+  app: number | bigint,
+  allowedCaller: string
+): Promise<Uint8Array> {
+  const info = (await client.appClient.getBoxValueFromABIType(
+    pluginBox(app, allowedCaller),
+    PLUGIN_INFO_TYPE
+  )) as algosdk.ABIValue[];
+
+  return new Uint8Array(info[APPROVAL_HASH_INDEX] as Uint8Array);
+}
+
+/**
+ * Get the hash of an approval program from its TEAL, such as an audited build in contracts/artifacts.
+ * The TEAL is compiled by algod, so it must be the same version the plugin was deployed with.
+ */
+export async function getApprovalHash(algod: algosdk.Algodv2, teal: string): Promise<Uint8Array> {
+  const { result } = await algod.compile(teal).do();
+  return new Uint8Array(createHash('sha256').update(Buffer.from(result, 'base64')).digest());
+}
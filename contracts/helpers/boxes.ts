@@ -0,0 +1,53 @@
+import algosdk from 'algosdk';
+import { createHash } from 'crypto';
+
+/**
+ * The ABI type of a plugin box value:
+ * (start, end, useRounds, cooldown, maxUses, uses, lastUsed, activatesAt, unnamed, names, gateAsset, gateAmount,
+ * sessionEpoch, approvalHash, methods)
+ */
+export const PLUGIN_INFO_TYPE = algosdk.ABIType.from(
+  '(uint64,uint64,bool,uint64,uint64,uint64,uint64,uint64,bool,uint64,uint64,uint64,uint64,byte[32],byte[4][])'
+);
+
+/** Get the box key of a map entry keyed by a plugin: `prefix + plugin ID + allowed caller` */
+const pluginsKeyBox = (prefix: string, app: number | bigint, allowedCaller: string) =>
+  new Uint8Array(
+    Buffer.concat([
+      Buffer.from(prefix),
+      Buffer.from(algosdk.encodeUint64(app)),
+      algosdk.decodeAddress(allowedCaller).publicKey,
+    ])
+  );
+
+/** Get the box key of a plugin permission */
+export const pluginBox = (app: number | bigint, allowedCaller: string) => pluginsKeyBox('p', app, allowedCaller);
+
+/** Get the box key of the spending limits of a plugin permission */
+export const spendingLimitsBox = (app: number | bigint, allowedCaller: string) =>
+  pluginsKeyBox('s', app, allowedCaller);
+
+/** Get the box key of the fee budget of a plugin. It must be referenced whenever the plugin is rekeyed to */
+export const feeBudgetBox = (plugin: number | bigint) =>
+  new Uint8Array(Buffer.concat([Buffer.from('f'), Buffer.from(algosdk.encodeUint64(plugin))]));
+
+/** Get the box key of a session key */
+export const sessionBox = (sessionKey: string) =>
+  new Uint8Array(Buffer.concat([Buffer.from('k'), algosdk.decodeAddress(sessionKey).publicKey]));
+
+/**
+ * Get the address of a caller set, which is the sha256 hash of its name.
+ * Use it as the allowed caller to grant a plugin to the set.
+ */
+export const callerSetAddress = (callerSet: string) =>
+  algosdk.encodeAddress(new Uint8Array(createHash('sha256').update(callerSet).digest()));
+
+/** Get the box key of a caller set membership */
+export const callerSetMemberBox = (callerSet: string, member: string) =>
+  new Uint8Array(
+    Buffer.concat([
+      Buffer.from('c'),
+      algosdk.decodeAddress(callerSetAddress(callerSet)).publicKey,
+      algosdk.decodeAddress(member).publicKey,
+    ])
+  );
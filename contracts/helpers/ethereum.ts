@@ -0,0 +1,159 @@
+import * as algokit from '@algorandfoundation/algokit-utils';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 as keccak256 } from '@noble/hashes/sha3';
+import algosdk from 'algosdk';
+import { AbstractedAccountClient } from '../clients/AbstractedAccountClient';
+import { Intent, addIntentOperation, getIntentMessage, getIntentNonce } from './intents';
+
+/** The EIP-712 domain of abstracted account intents */
+export const EIP712_DOMAIN = { name: 'ARC58 Abstracted Account', version: '1' };
+
+/** The EIP-712 types of abstracted account intents */
+export const EIP712_TYPES = {
+  EIP712Domain: [
+    { name: 'name', type: 'string' },
+    { name: 'version', type: 'string' },
+  ],
+  Intent: [
+    { name: 'app', type: 'uint64' },
+    { name: 'nonce', type: 'uint64' },
+    { name: 'expiry', type: 'uint64' },
+    { name: 'operation', type: 'bytes32' },
+  ],
+};
+
+/** The EIP-712 typed data of an intent, which can be passed to `eth_signTypedData_v4` as is */
+export type IntentTypedData = {
+  types: typeof EIP712_TYPES;
+  primaryType: 'Intent';
+  domain: typeof EIP712_DOMAIN;
+  message: {
+    /** The app ID of the abstracted account */
+    app: string;
+    /** The intent nonce of the abstracted account */
+    nonce: string;
+    /** The timestamp after which the intent can no longer be used */
+    expiry: string;
+    /** The hex sha256 of the concatenated application args of the admin method call */
+    operation: string;
+  };
+};
+
+const hexToBytes = (hex: string) => new Uint8Array(Buffer.from(hex.replace(/^0x/, ''), 'hex'));
+
+/** Encode a uint64 as an EIP-712 32 byte word */
+const encodeUint = (value: string) => {
+  const word = new Uint8Array(32);
+  word.set(algosdk.encodeUint64(BigInt(value)), 24);
+  return word;
+};
+
+/** Get the EIP-712 hash of a type, ie. `keccak256("Intent(uint64 app,...)")` */
+const hashType = (name: keyof typeof EIP712_TYPES) =>
+  keccak256(`${name}(${EIP712_TYPES[name].map((field) => `${field.type} ${field.name}`).join(',')})`);
+
+/** Get the address of an Ethereum public key, ie. the last 20 bytes of the keccak256 of its uncompressed point */
+export function getEthereumAddress(publicKey: Uint8Array): Uint8Array {
+  const point = publicKey.length === 65 ? publicKey : secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+  return keccak256(point.subarray(1)).slice(12);
+}
+
+/**
+ * Get the EIP-712 typed data the admin's Ethereum key signs to authorize an admin method call
+ *
+ * @param operation The admin method call to authorize, ie. one built with `client.compose().arc58...().atc()`
+ * @param expiry The timestamp after which the intent can no longer be used
+ */
+export async function getIntentTypedData(
+  client: AbstractedAccountClient,
+  operation: algosdk.Transaction,
+  expiry: number | bigint
+): Promise<IntentTypedData> {
+  const { appId } = await client.appClient.getAppReference();
+  const nonce = await getIntentNonce(client);
+
+  // The operation hash is the end of the message arc58_authorizeIntent verifies
+  const operationHash = getIntentMessage(appId, nonce, expiry, operation).slice(-32);
+
+  return {
+    types: EIP712_TYPES,
+    primaryType: 'Intent',
+    domain: EIP712_DOMAIN,
+    message: {
+      app: appId.toString(),
+      nonce: nonce.toString(),
+      expiry: expiry.toString(),
+      operation: `0x${Buffer.from(operationHash).toString('hex')}`,
+    },
+  };
+}
+
+/** Get the EIP-712 digest of an intent's typed data, which is what the Ethereum key signs */
+export function hashIntentTypedData({ domain, message }: IntentTypedData): Uint8Array {
+  const domainSeparator = keccak256(
+    Buffer.concat([hashType('EIP712Domain'), keccak256(domain.name), keccak256(domain.version)])
+  );
+  const structHash = keccak256(
+    Buffer.concat([
+      hashType('Intent'),
+      encodeUint(message.app),
+      encodeUint(message.nonce),
+      encodeUint(message.expiry),
+      hexToBytes(message.operation),
+    ])
+  );
+
+  return keccak256(Buffer.concat([Buffer.from([0x19, 0x01]), domainSeparator, structHash]));
+}
+
+/**
+ * Recover the Ethereum address that signed an intent's typed data, so a signature from a wallet can be checked
+ * before it is submitted
+ *
+ * @param signature The 65 byte r, s and v signature, as returned by `eth_signTypedData_v4`
+ */
+export function recoverEthereumAddress(typedData: IntentTypedData, signature: Uint8Array): Uint8Array {
+  const publicKey = secp256k1.Signature.fromCompact(signature.slice(0, 64))
+    .addRecoveryBit(signature[64] - 27)
+    .recoverPublicKey(hashIntentTypedData(typedData));
+
+  return getEthereumAddress(publicKey.toRawBytes(false));
+}
+
+/**
+ * Sign an intent's typed data with an Ethereum private key, like a wallet would for `eth_signTypedData_v4`
+ *
+ * @returns The intent to relay, with the 65 byte r, s and v signature
+ */
+export function signIntentTypedData(typedData: IntentTypedData, privateKey: Uint8Array): Intent {
+  const signature = secp256k1.sign(hashIntentTypedData(typedData), privateKey);
+
+  return {
+    nonce: BigInt(typedData.message.nonce),
+    expiry: BigInt(typedData.message.expiry),
+    signature: new Uint8Array([...signature.toCompactRawBytes(), 27 + signature.recovery]),
+  };
+}
+
+/**
+ * Submit an admin method call authorized by an intent signed with the admin's Ethereum key. The relayer must be the
+ * sender of the call and pays the fees, including the inner transactions that increase the opcode budget.
+ *
+ * @param mbrPayment The MBR payment of the call, if the method takes one, which must also be sent by the relayer
+ */
+export async function relayEthereumIntent(
+  client: AbstractedAccountClient,
+  relayer: algosdk.Account,
+  operation: algosdk.Transaction,
+  { nonce, expiry, signature }: Intent,
+  mbrPayment?: algosdk.Transaction
+) {
+  const composer = client
+    .compose()
+    .arc58AuthorizeEthereumIntent(
+      { nonce, expiry, signature },
+      { sender: relayer, sendParams: { fee: algokit.microAlgos(5_000) } }
+    );
+
+  return addIntentOperation(composer, relayer, operation, mbrPayment).execute();
+}
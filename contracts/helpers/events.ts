@@ -0,0 +1,36 @@
+import algosdk from 'algosdk';
+import { createHash } from 'crypto';
+import arc4 from '../artifacts/AbstractedAccount.arc4.json';
+
+/** An ARC-28 event emitted by an abstracted account, with its arguments keyed by name */
+export type AbstractedAccountEvent = {
+  name: string;
+  args: Record<string, algosdk.ABIValue>;
+};
+
+/** The ARC-28 events defined by the abstracted account, keyed by the hex of their selector */
+const EVENTS = new Map(
+  arc4.events.map((event) => {
+    const signature = `${event.name}(${event.args.map((arg) => arg.type).join(',')})`;
+    const selector = createHash('sha512-256').update(signature).digest().subarray(0, 4);
+    const type = algosdk.ABIType.from(`(${event.args.map((arg) => arg.type).join(',')})`);
+
+    return [Buffer.from(selector).toString('hex'), { event, type }];
+  })
+);
+
+/**
+ * Decode the ARC-28 events in the logs of an abstracted account app call, such as `confirmation.logs` of a call result.
+ * Logs that are not abstracted account events (ie. the ABI return value) are skipped.
+ */
+export function decodeEvents(logs: Uint8Array[] = []): AbstractedAccountEvent[] {
+  return logs.flatMap((log) => {
+    const found = EVENTS.get(Buffer.from(log.subarray(0, 4)).toString('hex'));
+    if (!found) return [];
+
+    const values = found.type.decode(log.subarray(4)) as algosdk.ABIValue[];
+    const args = Object.fromEntries(found.event.args.map((arg, i) => [arg.name, values[i]]));
+
+    return [{ name: found.event.name, args }];
+  });
+}
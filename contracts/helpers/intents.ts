@@ -0,0 +1,122 @@
+import * as algokit from '@algorandfoundation/algokit-utils';
+import algosdk from 'algosdk';
+import { createHash, createPrivateKey, sign } from 'crypto';
+import { AbstractedAccountClient, AbstractedAccountComposer } from '../clients/AbstractedAccountClient';
+
+/** The DER prefix of a PKCS#8 ed25519 private key, which is followed by the 32 byte seed */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+export type Intent = {
+  /** The intent nonce of the abstracted account when the intent was signed */
+  nonce: number | bigint;
+  /** The timestamp after which the intent can no longer be used */
+  expiry: number | bigint;
+  /** The admin's signature of the intent */
+  signature: Uint8Array;
+};
+
+/** Get the nonce the next intent for the abstracted account must use */
+export async function getIntentNonce(client: AbstractedAccountClient): Promise<bigint> {
+  return (await client.getGlobalState()).in!.asBigInt();
+}
+
+/**
+ * Get the message the admin signs to authorize an admin method call:
+ * `"arc58intent" + app ID + nonce + expiry + sha256(concatenated application args of the call)`
+ */
+export function getIntentMessage(
+  appId: number | bigint,
+  nonce: number | bigint,
+  expiry: number | bigint,
+  operation: algosdk.Transaction
+): Uint8Array {
+  const operationHash = createHash('sha256')
+    .update(Buffer.concat((operation.appArgs ?? []).map((arg) => Buffer.from(arg))))
+    .digest();
+
+  return new Uint8Array(
+    Buffer.concat([
+      Buffer.from('arc58intent'),
+      algosdk.encodeUint64(appId),
+      algosdk.encodeUint64(nonce),
+      algosdk.encodeUint64(expiry),
+      operationHash,
+    ])
+  );
+}
+
+/**
+ * Sign an intent that authorizes an admin method call, ie. one built with `client.compose().arc58...().atc()`.
+ * The call can then be relayed by anyone with relayIntent, so the admin key never needs ALGO.
+ *
+ * @param admin The admin account
+ * @param operation The admin method call to authorize
+ * @param expiry The timestamp after which the intent can no longer be used
+ */
+export async function signIntent(
+  client: AbstractedAccountClient,
+  admin: algosdk.Account,
+  operation: algosdk.Transaction,
+  expiry: number | bigint
+): Promise<Intent> {
+  const { appId } = await client.appClient.getAppReference();
+  const nonce = await getIntentNonce(client);
+
+  const key = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(admin.sk.slice(0, 32))]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  const signature = new Uint8Array(sign(null, getIntentMessage(appId, nonce, expiry, operation), key));
+
+  return { nonce, expiry, signature };
+}
+
+/**
+ * Add an admin method call to the group after the intent authorization call, along with its MBR payment
+ * if the method takes one. Both are signed by the relayer.
+ *
+ * @param operation The admin method call, ie. one built with `client.compose().arc58...().atc()`
+ * @param mbrPayment The MBR payment argument of the call, which goes between it and the intent authorization call
+ */
+export function addIntentOperation(
+  composer: AbstractedAccountComposer<unknown[]>,
+  relayer: algosdk.Account,
+  operation: algosdk.Transaction,
+  mbrPayment?: algosdk.Transaction
+): AbstractedAccountComposer<unknown[]> {
+  const signer = algosdk.makeBasicAccountTransactionSigner(relayer);
+  let group = composer;
+
+  (mbrPayment ? [mbrPayment, operation] : [operation]).forEach((txn) => {
+    // The transactions are added to this group instead of the one they were built in
+    // eslint-disable-next-line no-param-reassign
+    txn.group = undefined;
+    group = group.addTransaction({ txn, signer });
+  });
+
+  return group;
+}
+
+/**
+ * Submit an admin method call authorized by an intent. The relayer must be the sender of the call
+ * and pays the fees, including the inner transactions that increase the opcode budget.
+ *
+ * @param mbrPayment The MBR payment of the call, if the method takes one, which must also be sent by the relayer
+ */
+export async function relayIntent(
+  client: AbstractedAccountClient,
+  relayer: algosdk.Account,
+  operation: algosdk.Transaction,
+  { nonce, expiry, signature }: Intent,
+  mbrPayment?: algosdk.Transaction
+) {
+  const composer = client
+    .compose()
+    .arc58AuthorizeIntent(
+      { nonce, expiry, signature },
+      { sender: relayer, sendParams: { fee: algokit.microAlgos(4_000) } }
+    );
+
+  return addIntentOperation(composer, relayer, operation, mbrPayment).execute();
+}
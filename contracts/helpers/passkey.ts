@@ -0,0 +1,145 @@
+import * as algokit from '@algorandfoundation/algokit-utils';
+import algosdk from 'algosdk';
+import { createHash } from 'crypto';
+import { AbstractedAccountClient } from '../clients/AbstractedAccountClient';
+import { addIntentOperation, getIntentMessage, getIntentNonce } from './intents';
+
+export type PasskeyAssertion = {
+  /** The authenticator data of the WebAuthn assertion */
+  authenticatorData: Uint8Array;
+  /** The client data JSON of the WebAuthn assertion, which contains the challenge */
+  clientDataJSON: Uint8Array;
+  /** The r and s components of the assertion's signature */
+  signature: Uint8Array;
+};
+
+export type PasskeyIntent = PasskeyAssertion & {
+  /** The intent nonce of the abstracted account when the challenge was built */
+  nonce: number | bigint;
+  /** The timestamp after which the intent can no longer be used */
+  expiry: number | bigint;
+};
+
+/** The parts of the authenticator data of a WebAuthn assertion */
+export type AuthenticatorData = {
+  /** The sha256 of the relying party ID the passkey is scoped to */
+  rpIdHash: Uint8Array;
+  /** Whether the user was present */
+  userPresent: boolean;
+  /** Whether the user was verified, ie. with biometrics or a PIN */
+  userVerified: boolean;
+  /** The signature counter of the authenticator */
+  signCount: number;
+};
+
+/**
+ * Get the WebAuthn challenge the admin passkey signs to authorize an admin method call:
+ * the sha256 of the message arc58_authorizeIntent verifies
+ *
+ * @param operation The admin method call to authorize, ie. one built with `client.compose().arc58...().atc()`
+ * @param expiry The timestamp after which the intent can no longer be used
+ * @returns The challenge to pass to `navigator.credentials.get` and the nonce it binds
+ */
+export async function getPasskeyChallenge(
+  client: AbstractedAccountClient,
+  operation: algosdk.Transaction,
+  expiry: number | bigint
+): Promise<{ challenge: Uint8Array; nonce: bigint }> {
+  const { appId } = await client.appClient.getAppReference();
+  const nonce = await getIntentNonce(client);
+  const challenge = createHash('sha256')
+    .update(getIntentMessage(appId, nonce, expiry, operation))
+    .digest();
+
+  return { challenge: new Uint8Array(challenge), nonce };
+}
+
+/**
+ * Get the 64 byte public key arc58_setAdminPasskey expects from the SPKI encoded public key of a passkey,
+ * ie. `AuthenticatorAttestationResponse.getPublicKey()`
+ */
+export function getPasskeyPublicKey(spki: Uint8Array): Uint8Array {
+  // The uncompressed P-256 point, 0x04 + x + y, is at the end of the key
+  const point = spki.subarray(spki.length - 65);
+  if (point[0] !== 0x04) throw Error('Not an uncompressed P-256 public key');
+
+  return point.slice(1);
+}
+
+/** Parse the authenticator data of a WebAuthn assertion */
+export function parseAuthenticatorData(authenticatorData: Uint8Array): AuthenticatorData {
+  if (authenticatorData.length < 37) throw Error('Authenticator data is too short');
+
+  // The user present flag is bit 0 and the user verified flag is bit 2
+  const flags = authenticatorData[32];
+  return {
+    rpIdHash: authenticatorData.slice(0, 32),
+    userPresent: flags % 2 === 1,
+    userVerified: Math.floor(flags / 4) % 2 === 1,
+    signCount: Buffer.from(authenticatorData).readUInt32BE(33),
+  };
+}
+
+/** Parse the client data JSON of a WebAuthn assertion, decoding its base64url challenge */
+export function parseClientDataJSON(clientDataJSON: Uint8Array): {
+  type: string;
+  origin: string;
+  challenge: Uint8Array;
+} {
+  const { type, origin, challenge } = JSON.parse(Buffer.from(clientDataJSON).toString());
+  return { type, origin, challenge: new Uint8Array(Buffer.from(challenge, 'base64url')) };
+}
+
+/** Convert a DER encoded ECDSA signature, as returned by WebAuthn, to its 32 byte r and s components */
+export function derToRawSignature(der: Uint8Array): Uint8Array {
+  const toComponent = (offset: number) => {
+    if (der[offset] !== 0x02) throw Error('Invalid DER signature');
+    const value = der.subarray(offset + 2, offset + 2 + der[offset + 1]);
+
+    // Integers are signed, so they can have a leading zero byte or be shorter than 32 bytes
+    const component = new Uint8Array(32);
+    component.set(value.subarray(Math.max(value.length - 32, 0)), Math.max(32 - value.length, 0));
+    return { component, next: offset + 2 + der[offset + 1] };
+  };
+
+  if (der[0] !== 0x30) throw Error('Invalid DER signature');
+  const r = toComponent(2);
+  const s = toComponent(r.next);
+
+  return new Uint8Array([...r.component, ...s.component]);
+}
+
+/**
+ * Get the assertion to submit from a WebAuthn `AuthenticatorAssertionResponse`, converting its signature from DER
+ */
+export function parseAssertion(response: {
+  authenticatorData: ArrayBuffer | Uint8Array;
+  clientDataJSON: ArrayBuffer | Uint8Array;
+  signature: ArrayBuffer | Uint8Array;
+}): PasskeyAssertion {
+  return {
+    authenticatorData: new Uint8Array(response.authenticatorData),
+    clientDataJSON: new Uint8Array(response.clientDataJSON),
+    signature: derToRawSignature(new Uint8Array(response.signature)),
+  };
+}
+
+/**
+ * Submit an admin method call authorized by a passkey assertion. The relayer must be the sender of the call
+ * and pays the fees, including the inner transactions that increase the opcode budget.
+ *
+ * @param mbrPayment The MBR payment of the call, if the method takes one, which must also be sent by the relayer
+ */
+export async function relayPasskeyIntent(
+  client: AbstractedAccountClient,
+  relayer: algosdk.Account,
+  operation: algosdk.Transaction,
+  intent: PasskeyIntent,
+  mbrPayment?: algosdk.Transaction
+) {
+  const composer = client
+    .compose()
+    .arc58AuthorizePasskeyIntent(intent, { sender: relayer, sendParams: { fee: algokit.microAlgos(5_000) } });
+
+  return addIntentOperation(composer, relayer, operation, mbrPayment).execute();
+}
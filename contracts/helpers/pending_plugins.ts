@@ -0,0 +1,59 @@
+import algosdk from 'algosdk';
+import { AbstractedAccountClient } from '../clients/AbstractedAccountClient';
+import { PLUGIN_INFO_TYPE } from './boxes';
+
+/** The index of the activation timestamp in a plugin box value */
+const ACTIVATES_AT_INDEX = 7;
+
+/** The ABI type of a name box value: (plugin app, allowed caller) */
+const NAMED_PLUGIN_TYPE = algosdk.ABIType.from('(uint64,address)');
+
+export type PendingPlugin = {
+  /** The plugin app */
+  app: bigint;
+  /** The allowed caller, or the global zero address for all addresses */
+  allowedCaller: string;
+  /** The timestamp when the permission can be used, until which it can be vetoed with arc58_vetoPlugin */
+  activatesAt: bigint;
+  /** The names that refer to the permission, which must be passed to arc58_vetoPlugin and referenced as boxes */
+  names: string[];
+};
+
+/**
+ * List the plugin permissions that were added while a plugin delay was set and have not become active yet.
+ *
+ * @param now The current timestamp. Defaults to the local clock, which may differ slightly from the latest block
+ */
+export async function listPendingPlugins(
+  client: AbstractedAccountClient,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<PendingPlugin[]> {
+  const plugins = await client.appClient.getBoxValuesFromABIType(
+    PLUGIN_INFO_TYPE,
+    (name) => name.nameRaw.length === 41 && name.nameRaw[0] === 'p'.charCodeAt(0)
+  );
+  const namedPlugins = await client.appClient.getBoxValuesFromABIType(
+    NAMED_PLUGIN_TYPE,
+    (name) => name.nameRaw[0] === 'n'.charCodeAt(0)
+  );
+
+  return plugins
+    .map(({ name, value }) => {
+      const app = algosdk.decodeUint64(name.nameRaw.slice(1, 9), 'bigint');
+      const allowedCaller = algosdk.encodeAddress(name.nameRaw.slice(9));
+      const names = namedPlugins
+        .filter((named) => {
+          const [namedApp, namedCaller] = named.value as [bigint, string];
+          return namedApp === app && namedCaller === allowedCaller;
+        })
+        .map((named) => Buffer.from(named.name.nameRaw.slice(1)).toString());
+
+      return {
+        app,
+        allowedCaller,
+        activatesAt: (value as algosdk.ABIValue[])[ACTIVATES_AT_INDEX] as bigint,
+        names,
+      };
+    })
+    .filter((plugin) => plugin.activatesAt > BigInt(now));
+}
@@ -0,0 +1,63 @@
+import * as algokit from '@algorandfoundation/algokit-utils';
+import { SendTransactionFrom } from '@algorandfoundation/algokit-utils/types/transaction';
+import algosdk from 'algosdk';
+import { AbstractedAccountClient, AbstractedAccountComposer } from '../clients/AbstractedAccountClient';
+import { feeBudgetBox, pluginBox, spendingLimitsBox } from './boxes';
+
+/** The allowed caller of plugin permissions that anyone can use */
+const ZERO_ADDRESS = algosdk.encodeAddress(new Uint8Array(32));
+
+export type PluginStep = {
+  /** The plugin app to hand control to */
+  plugin: number | bigint;
+  /** The allowed caller of the plugin permission that will be used. Defaults to the global zero address */
+  allowedCaller?: string;
+  /** The transactions that call the plugin, ie. built with the plugin's client composer */
+  transactions: algosdk.TransactionWithSigner[];
+  /** The accounts the rekey to the plugin needs to reference, such as the controlled address */
+  accounts?: string[];
+  /** The assets the rekey to the plugin needs to reference */
+  assets?: number[];
+};
+
+/**
+ * Compose a group that hands control of the abstracted account to several plugins in turn and verifies control
+ * is regained at the end. Each rekey pays the fee of its inner transaction.
+ *
+ * @param sender The address calling arc58_rekeyToPlugin, which must be allowed to use every plugin
+ * @returns The composer, so more transactions can be added before executing it
+ */
+export function composePluginChain(
+  client: AbstractedAccountClient,
+  sender: SendTransactionFrom,
+  steps: PluginStep[]
+): AbstractedAccountComposer<unknown[]> {
+  let composer: AbstractedAccountComposer<unknown[]> = client.compose();
+  const spendingBoxes: Uint8Array[] = [];
+
+  steps.forEach(({ plugin, allowedCaller = ZERO_ADDRESS, transactions, accounts, assets }) => {
+    const spendingBox = spendingLimitsBox(plugin, allowedCaller);
+    spendingBoxes.push(spendingBox);
+
+    composer = composer.arc58RekeyToPlugin(
+      { plugin },
+      {
+        sender,
+        boxes: [pluginBox(plugin, allowedCaller), spendingBox, feeBudgetBox(plugin)],
+        accounts,
+        assets,
+        sendParams: { fee: algokit.microAlgos(2_000) },
+      }
+    );
+
+    transactions.forEach((txn) => {
+      // The plugin transactions become part of this group instead of the one they were built in
+      // eslint-disable-next-line no-param-reassign
+      txn.txn.group = undefined;
+      composer = composer.addTransaction(txn);
+    });
+  });
+
+  // The spending of the last plugin with spending limits is checked when control is verified
+  return composer.arc58VerifyAuthAddr({}, { sender, boxes: spendingBoxes });
+}
@@ -0,0 +1,111 @@
+import algosdk from 'algosdk';
+import { AbstractedAccountClient } from '../clients/AbstractedAccountClient';
+import { pluginBox, sessionBox, spendingLimitsBox } from './boxes';
+
+/** The ABI type of a session box value: (expiry, epoch, plugins) */
+const SESSION_TYPE = algosdk.ABIType.from('(uint64,uint64,uint64[])');
+
+export type SessionKeyInfo = {
+  /** The address of the session key */
+  address: string;
+  /** The timestamp when the session key expires */
+  expiry: bigint;
+  /** The session epoch when the key was added */
+  epoch: bigint;
+  /** The plugins the session key can use */
+  plugins: bigint[];
+};
+
+export type RegisterSessionKeyParams = {
+  /** The timestamp when the session key expires */
+  expiry: number | bigint;
+  /** The plugins the session key can use */
+  plugins: number[];
+  /** The maximum amount of ALGO (in microAlgos) each plugin can spend during the session. Defaults to no limit */
+  spendingLimit?: number | bigint;
+};
+
+/**
+ * Get the boxes that must be referenced when adding or removing a session key.
+ * A transaction can reference at most 8 boxes, so a session key can have at most 3 plugins with a spending limit
+ * or 7 plugins without one.
+ */
+export function getSessionKeyBoxes(sessionKey: string, plugins: number[], spendingLimit: number | bigint) {
+  const boxes = [sessionBox(sessionKey)];
+
+  plugins.forEach((plugin) => {
+    boxes.push(pluginBox(plugin, sessionKey));
+    if (Number(spendingLimit) > 0) boxes.push(spendingLimitsBox(plugin, sessionKey));
+  });
+
+  return boxes;
+}
+
+/**
+ * Get the MBR of the boxes created when adding a session key: the session box, which grows with the number of plugins,
+ * and a plugin box (and spending limits box) for each plugin
+ */
+export function getSessionKeyCost(plugins: number[], spendingLimit: number | bigint) {
+  const sessionMbr = 2_500 + 400 * (33 + 20 + 8 * plugins.length);
+  const pluginMbr = 69_300 + (Number(spendingLimit) > 0 ? 38_900 : 0);
+
+  return sessionMbr + plugins.length * pluginMbr;
+}
+
+/**
+ * Generate a new session key and register it with the abstracted account
+ *
+ * @param admin The admin of the abstracted account, which pays the MBR of the new boxes
+ * @returns The session key, which should only be kept for as long as the session lasts (ie. in a browser tab)
+ */
+export async function registerSessionKey(
+  algod: algosdk.Algodv2,
+  client: AbstractedAccountClient,
+  admin: algosdk.Account,
+  { expiry, plugins, spendingLimit = 0 }: RegisterSessionKeyParams
+): Promise<algosdk.Account> {
+  const sessionKey = algosdk.generateAccount();
+  const { appAddress } = await client.appClient.getAppReference();
+
+  await client.arc58AddSessionKey(
+    {
+      sessionKey: sessionKey.addr,
+      expiry,
+      plugins,
+      spendingLimit,
+      mbrPayment: {
+        transaction: algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+          from: admin.addr,
+          to: appAddress,
+          amount: getSessionKeyCost(plugins, spendingLimit),
+          suggestedParams: await algod.getTransactionParams().do(),
+        }),
+        signer: admin,
+      },
+    },
+    { sender: admin, boxes: getSessionKeyBoxes(sessionKey.addr, plugins, spendingLimit) }
+  );
+
+  return sessionKey;
+}
+
+/**
+ * List the session keys that have been added to the abstracted account and not removed. Keys revoked with
+ * arc58_revokeAllSessionKeys are included, but have an epoch lower than the current session epoch.
+ */
+export async function listSessionKeys(client: AbstractedAccountClient): Promise<SessionKeyInfo[]> {
+  const sessions = await client.appClient.getBoxValuesFromABIType(
+    SESSION_TYPE,
+    (name) => name.nameRaw.length === 33 && name.nameRaw[0] === 'k'.charCodeAt(0)
+  );
+
+  return sessions.map(({ name, value }) => {
+    const [expiry, epoch, plugins] = value as [bigint, bigint, bigint[]];
+    return {
+      address: algosdk.encodeAddress(name.nameRaw.slice(1)),
+      expiry,
+      epoch,
+      plugins,
+    };
+  });
+}